@@ -0,0 +1,8 @@
+-- Migration: Record detected bank profile on imported bank statements
+-- The importer detects the profile (mbank, pko_bp, ing, santander, revolut, wise, millennium, generic_pl)
+-- from the CSV header row; see src/server/finance/statements/bankProfiles.ts
+
+ALTER TABLE documents
+ADD COLUMN IF NOT EXISTS bank_profile TEXT;
+
+COMMENT ON COLUMN documents.bank_profile IS 'Bank statement profile detected on import (BANK_CONFIRMATION documents only)';
@@ -0,0 +1,47 @@
+-- Migration: Background text extraction for documents and contracts
+-- /api/documents/[id]/extract-text and /api/contracts/parse queue a job instead of parsing in the request.
+-- The job reads the PDF text layer page by page and runs the local OCR engine (Polish + English) on
+-- image-only pages and on images, then stores the text with per-page method and confidence.
+-- Jobs are run right after the request and by POST /api/documents/text-jobs/run (cron) for retries.
+
+CREATE TABLE IF NOT EXISTS document_text_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  document_id UUID REFERENCES documents(id) ON DELETE CASCADE,
+  organisation_document_id UUID REFERENCES organisation_documents(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending','running','retry','done','failed')),
+  attempts INT NOT NULL DEFAULT 0,
+  next_run_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_error TEXT,
+  page_count INT,
+  ocr_page_count INT,
+  confidence NUMERIC(4,3),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK ((document_id IS NULL) <> (organisation_document_id IS NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_document_text_jobs_queue ON document_text_jobs(status, next_run_at);
+CREATE INDEX IF NOT EXISTS idx_document_text_jobs_document ON document_text_jobs(document_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_document_text_jobs_org_document ON document_text_jobs(organisation_document_id, created_at DESC);
+
+-- Per-page text: [{page, text, confidence, method: 'pdf_text' | 'ocr' | 'none'}]
+ALTER TABLE documents
+  ADD COLUMN IF NOT EXISTS full_text_pages JSONB,
+  ADD COLUMN IF NOT EXISTS full_text_confidence NUMERIC(4,3);
+
+ALTER TABLE organisation_documents
+  ADD COLUMN IF NOT EXISTS parsed_text_pages JSONB,
+  ADD COLUMN IF NOT EXISTS parsed_text_confidence NUMERIC(4,3);
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE document_text_jobs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow all operations on document_text_jobs" ON document_text_jobs;
+CREATE POLICY "Allow all operations on document_text_jobs" ON document_text_jobs FOR ALL USING (true);
+
+COMMENT ON TABLE document_text_jobs IS 'Queue of text extractions (PDF text layer + OCR) for documents and organisation contracts';
+COMMENT ON COLUMN document_text_jobs.ocr_page_count IS 'Pages read by OCR because they had no text layer';
+COMMENT ON COLUMN documents.full_text_pages IS 'full_text page by page with extraction method and OCR confidence (0..1)';
+COMMENT ON COLUMN documents.full_text_confidence IS 'Confidence of full_text 0..1; 1 for a PDF text layer, lower when pages were read by OCR';
+COMMENT ON COLUMN organisation_documents.parsed_text_pages IS 'parsed_text page by page with extraction method and OCR confidence (0..1)';
+COMMENT ON COLUMN organisation_documents.parsed_text_confidence IS 'Confidence of parsed_text 0..1; 1 for a PDF text layer, lower when pages were read by OCR';
@@ -0,0 +1,112 @@
+-- Migration: Document versions
+-- Every file of a document or contract is kept as a version: a new upload against an existing
+-- document adds a version instead of overwriting the row, and older files stay in storage.
+-- The parent row (documents / organisation_documents) always shows the current version; its
+-- extracted text and AI analysis are mirrored into that version by triggers, so each version
+-- keeps the text and analysis it had for comparing.
+
+CREATE TABLE IF NOT EXISTS document_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  document_id UUID REFERENCES documents(id) ON DELETE CASCADE,
+  organisation_document_id UUID REFERENCES organisation_documents(id) ON DELETE CASCADE,
+  version_number INT NOT NULL CHECK (version_number > 0),
+  file_name TEXT,
+  file_url TEXT,
+  storage_path TEXT,
+  mime_type TEXT,
+  file_size BIGINT,
+  text_content TEXT,
+  ai_analysis_result JSONB,
+  note TEXT,
+  uploaded_by TEXT,
+  uploaded_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK ((document_id IS NULL) <> (organisation_document_id IS NULL)),
+  UNIQUE (document_id, version_number),
+  UNIQUE (organisation_document_id, version_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_document_versions_document_id ON document_versions(document_id);
+CREATE INDEX IF NOT EXISTS idx_document_versions_organisation_document_id ON document_versions(organisation_document_id);
+
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS current_version INT NOT NULL DEFAULT 1;
+ALTER TABLE organisation_documents ADD COLUMN IF NOT EXISTS current_version INT NOT NULL DEFAULT 1;
+
+-- Version 1 for rows created before versioning
+INSERT INTO document_versions (document_id, version_number, file_name, file_url, storage_path, mime_type, file_size, text_content, uploaded_at)
+SELECT d.id, 1, COALESCE(d.file_name, d.name), d.file_url, d.storage_path, COALESCE(d.mime_type, d.file_type), d.file_size,
+  d.full_text, COALESCE(d.created_at, NOW())
+FROM documents d
+WHERE NOT EXISTS (SELECT 1 FROM document_versions v WHERE v.document_id = d.id);
+
+INSERT INTO document_versions (organisation_document_id, version_number, file_name, storage_path, mime_type, text_content, ai_analysis_result, uploaded_at)
+SELECT o.id, 1, o.name, o.storage_path, 'application/pdf', o.parsed_text, o.ai_analysis_result, o.uploaded_at
+FROM organisation_documents o
+WHERE NOT EXISTS (SELECT 1 FROM document_versions v WHERE v.organisation_document_id = o.id);
+
+-- A new document starts as version 1
+CREATE OR REPLACE FUNCTION create_first_document_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_TABLE_NAME = 'documents' THEN
+    INSERT INTO document_versions (document_id, version_number, file_name, file_url, storage_path, mime_type, file_size, text_content, uploaded_at)
+    VALUES (NEW.id, NEW.current_version, COALESCE(NEW.file_name, NEW.name), NEW.file_url, NEW.storage_path,
+      COALESCE(NEW.mime_type, NEW.file_type), NEW.file_size, NEW.full_text, COALESCE(NEW.created_at, NOW()))
+    ON CONFLICT DO NOTHING;
+  ELSE
+    INSERT INTO document_versions (organisation_document_id, version_number, file_name, storage_path, mime_type, text_content, ai_analysis_result, uploaded_at)
+    VALUES (NEW.id, NEW.current_version, NEW.name, NEW.storage_path, 'application/pdf', NEW.parsed_text, NEW.ai_analysis_result, NEW.uploaded_at)
+    ON CONFLICT DO NOTHING;
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Text extracted (or edited) later and pasted AI analyses belong to the current version
+CREATE OR REPLACE FUNCTION sync_current_document_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_TABLE_NAME = 'documents' THEN
+    UPDATE document_versions
+    SET text_content = NEW.full_text
+    WHERE document_id = NEW.id AND version_number = NEW.current_version;
+  ELSE
+    UPDATE document_versions
+    SET text_content = NEW.parsed_text, ai_analysis_result = NEW.ai_analysis_result
+    WHERE organisation_document_id = NEW.id AND version_number = NEW.current_version;
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS documents_first_version ON documents;
+CREATE TRIGGER documents_first_version
+  AFTER INSERT ON documents
+  FOR EACH ROW EXECUTE FUNCTION create_first_document_version();
+
+DROP TRIGGER IF EXISTS organisation_documents_first_version ON organisation_documents;
+CREATE TRIGGER organisation_documents_first_version
+  AFTER INSERT ON organisation_documents
+  FOR EACH ROW EXECUTE FUNCTION create_first_document_version();
+
+DROP TRIGGER IF EXISTS documents_sync_version ON documents;
+CREATE TRIGGER documents_sync_version
+  AFTER UPDATE OF full_text, current_version ON documents
+  FOR EACH ROW EXECUTE FUNCTION sync_current_document_version();
+
+DROP TRIGGER IF EXISTS organisation_documents_sync_version ON organisation_documents;
+CREATE TRIGGER organisation_documents_sync_version
+  AFTER UPDATE OF parsed_text, ai_analysis_result, current_version ON organisation_documents
+  FOR EACH ROW EXECUTE FUNCTION sync_current_document_version();
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE document_versions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow all operations on document_versions" ON document_versions;
+CREATE POLICY "Allow all operations on document_versions" ON document_versions FOR ALL USING (true);
+
+COMMENT ON TABLE document_versions IS 'File history of documents and organisation contracts; the highest version_number is the current file';
+COMMENT ON COLUMN document_versions.text_content IS 'documents.full_text or organisation_documents.parsed_text of this version';
+COMMENT ON COLUMN document_versions.ai_analysis_result IS 'Contract AI analysis of this version (organisation documents only)';
+COMMENT ON COLUMN document_versions.uploaded_by IS 'E-mail of the user who uploaded the version';
+COMMENT ON COLUMN documents.current_version IS 'version_number in document_versions the row currently shows';
+COMMENT ON COLUMN organisation_documents.current_version IS 'version_number in document_versions the row currently shows';
@@ -0,0 +1,94 @@
+-- Migration: Content-addressed file blobs
+-- Every stored file is registered once by its SHA-256 hash. All ingestion paths (document upload,
+-- Gmail attachments, timeline files, project evidence, trip evidence) look the hash up first and
+-- point their row at the existing file instead of uploading another copy.
+-- Rows are linked to their blob by triggers matching the stored file; rows created before this
+-- migration are linked by the duplicate scan, which also finds the copies the merge tool removes.
+
+CREATE TABLE IF NOT EXISTS file_blobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  sha256 TEXT NOT NULL UNIQUE CHECK (sha256 ~ '^[0-9a-f]{64}$'),
+  storage_bucket TEXT NOT NULL,
+  storage_path TEXT NOT NULL,
+  file_url TEXT, -- public URL, only for files in a public bucket
+  mime_type TEXT,
+  file_size BIGINT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_file_blobs_location ON file_blobs(storage_bucket, storage_path);
+CREATE INDEX IF NOT EXISTS idx_file_blobs_file_url ON file_blobs(file_url) WHERE file_url IS NOT NULL;
+
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS blob_id UUID REFERENCES file_blobs(id) ON DELETE SET NULL;
+ALTER TABLE evidence ADD COLUMN IF NOT EXISTS blob_id UUID REFERENCES file_blobs(id) ON DELETE SET NULL;
+ALTER TABLE finance_trip_evidence ADD COLUMN IF NOT EXISTS blob_id UUID REFERENCES file_blobs(id) ON DELETE SET NULL;
+ALTER TABLE timeline_attachments ADD COLUMN IF NOT EXISTS blob_id UUID REFERENCES file_blobs(id) ON DELETE SET NULL;
+
+-- Gmail attachments whose file was already a document are linked to it instead of imported again
+ALTER TABLE gmail_attachments ADD COLUMN IF NOT EXISTS linked_document_id UUID REFERENCES documents(id) ON DELETE SET NULL;
+
+-- Project evidence may now point at a file in another bucket (trip evidence already could)
+ALTER TABLE evidence ADD COLUMN IF NOT EXISTS storage_bucket TEXT NOT NULL DEFAULT 'evidence';
+
+CREATE INDEX IF NOT EXISTS idx_documents_blob_id ON documents(blob_id);
+CREATE INDEX IF NOT EXISTS idx_evidence_blob_id ON evidence(blob_id);
+CREATE INDEX IF NOT EXISTS idx_finance_trip_evidence_blob_id ON finance_trip_evidence(blob_id);
+CREATE INDEX IF NOT EXISTS idx_timeline_attachments_blob_id ON timeline_attachments(blob_id);
+
+-- Link a row to the registered blob its file points at
+CREATE OR REPLACE FUNCTION link_file_blob()
+RETURNS TRIGGER AS $$
+DECLARE
+  matched_blob_id UUID;
+BEGIN
+  IF TG_TABLE_NAME IN ('documents', 'timeline_attachments') THEN
+    SELECT id INTO matched_blob_id FROM file_blobs WHERE file_url = NEW.file_url LIMIT 1;
+    IF matched_blob_id IS NULL AND TG_TABLE_NAME = 'documents' THEN
+      IF NEW.storage_path IS NOT NULL THEN
+        SELECT id INTO matched_blob_id FROM file_blobs WHERE storage_path = NEW.storage_path LIMIT 1;
+      END IF;
+    END IF;
+  ELSE
+    SELECT id INTO matched_blob_id FROM file_blobs
+    WHERE storage_bucket = NEW.storage_bucket AND storage_path = NEW.storage_path
+    LIMIT 1;
+  END IF;
+
+  IF matched_blob_id IS NOT NULL THEN
+    NEW.blob_id := matched_blob_id;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS documents_link_file_blob ON documents;
+CREATE TRIGGER documents_link_file_blob
+  BEFORE INSERT OR UPDATE OF file_url, storage_path ON documents
+  FOR EACH ROW EXECUTE FUNCTION link_file_blob();
+
+DROP TRIGGER IF EXISTS timeline_attachments_link_file_blob ON timeline_attachments;
+CREATE TRIGGER timeline_attachments_link_file_blob
+  BEFORE INSERT OR UPDATE OF file_url ON timeline_attachments
+  FOR EACH ROW EXECUTE FUNCTION link_file_blob();
+
+DROP TRIGGER IF EXISTS evidence_link_file_blob ON evidence;
+CREATE TRIGGER evidence_link_file_blob
+  BEFORE INSERT OR UPDATE OF storage_bucket, storage_path ON evidence
+  FOR EACH ROW EXECUTE FUNCTION link_file_blob();
+
+DROP TRIGGER IF EXISTS finance_trip_evidence_link_file_blob ON finance_trip_evidence;
+CREATE TRIGGER finance_trip_evidence_link_file_blob
+  BEFORE INSERT OR UPDATE OF storage_bucket, storage_path ON finance_trip_evidence
+  FOR EACH ROW EXECUTE FUNCTION link_file_blob();
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE file_blobs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow all operations on file_blobs" ON file_blobs;
+CREATE POLICY "Allow all operations on file_blobs" ON file_blobs FOR ALL USING (true);
+
+COMMENT ON TABLE file_blobs IS 'One stored copy per file content (SHA-256); rows of documents, evidence, trip evidence and timeline attachments point at it through blob_id';
+COMMENT ON COLUMN file_blobs.file_url IS 'Public URL of the file, NULL when the blob is in a private bucket';
+COMMENT ON COLUMN documents.blob_id IS 'Stored file content; several documents may share one blob';
+COMMENT ON COLUMN gmail_attachments.linked_document_id IS 'Existing document with the same file content; set instead of importing a duplicate';
+COMMENT ON COLUMN evidence.storage_bucket IS 'Bucket of storage_path; evidence files reused from other uploads may live outside the evidence bucket';
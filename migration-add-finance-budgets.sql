@@ -0,0 +1,37 @@
+-- Migration: Budgets per category and project
+-- Planned spend for a month or a year, in the base currency (PLN). A budget targets either a
+-- category or a project; actuals come from outgoing transactions and their split lines.
+
+CREATE TABLE IF NOT EXISTS finance_budgets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id UUID NOT NULL REFERENCES organisations(id) ON DELETE CASCADE,
+  scope TEXT NOT NULL CHECK (scope IN ('category', 'project')),
+  category TEXT,
+  project_id UUID REFERENCES projects(id) ON DELETE CASCADE,
+  period_type TEXT NOT NULL CHECK (period_type IN ('month', 'year')),
+  period_start DATE NOT NULL,                       -- first day of the month or year
+  amount NUMERIC NOT NULL CHECK (amount > 0),
+  note TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (
+    (scope = 'category' AND category IS NOT NULL AND project_id IS NULL) OR
+    (scope = 'project' AND project_id IS NOT NULL AND category IS NULL)
+  )
+);
+
+-- One budget per target and period
+CREATE UNIQUE INDEX IF NOT EXISTS idx_finance_budgets_target_period
+  ON finance_budgets(org_id, scope, COALESCE(category, ''), COALESCE(project_id::text, ''), period_type, period_start);
+
+CREATE INDEX IF NOT EXISTS idx_finance_budgets_org_period ON finance_budgets(org_id, period_start);
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE finance_budgets ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow all operations on finance_budgets" ON finance_budgets;
+CREATE POLICY "Allow all operations on finance_budgets"
+  ON finance_budgets FOR ALL USING (true);
+
+COMMENT ON TABLE finance_budgets IS 'Monthly and annual spending budgets per category or project, in the base currency';
+COMMENT ON COLUMN finance_budgets.period_start IS 'First day of the budgeted month (period_type = month) or year (period_type = year)';
@@ -0,0 +1,53 @@
+-- Migration: Rule-based auto-categorisation for finance transactions
+-- Rules are evaluated in priority order (lowest number first); the first matching rule sets the category.
+-- All conditions on a rule must match; empty conditions are ignored.
+
+CREATE TABLE IF NOT EXISTS finance_category_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id UUID NOT NULL REFERENCES organisations(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  priority INTEGER NOT NULL DEFAULT 100,
+  is_enabled BOOLEAN NOT NULL DEFAULT true,
+  counterparty_pattern TEXT,                    -- case-insensitive substring of counterparty name or account
+  description_regex TEXT,                       -- case-insensitive regex on description
+  amount_min NUMERIC(12,2),                     -- compared with the absolute amount
+  amount_max NUMERIC(12,2),
+  direction TEXT CHECK (direction IN ('in', 'out')),
+  category TEXT NOT NULL,
+  subcategory TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_finance_category_rules_org ON finance_category_rules(org_id, priority);
+
+-- Which rule (if any) categorised a transaction, and whether the category was set by hand.
+-- Manual categories are never overwritten by rules.
+ALTER TABLE finance_transactions
+  ADD COLUMN IF NOT EXISTS category_rule_id UUID REFERENCES finance_category_rules(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS category_source TEXT CHECK (category_source IN ('import', 'rule', 'manual'));
+
+CREATE INDEX IF NOT EXISTS idx_finance_transactions_category_rule ON finance_transactions(category_rule_id);
+
+-- Transactions categorised before category_source existed: a category that appears among the
+-- bank file's own columns came from the import, anything else was chosen by hand
+UPDATE finance_transactions t
+SET category_source = CASE
+  WHEN jsonb_typeof(t.raw) = 'object'
+    AND EXISTS (SELECT 1 FROM jsonb_each_text(t.raw) r WHERE r.value = t.category)
+  THEN 'import'
+  ELSE 'manual'
+END
+WHERE t.category_source IS NULL
+  AND t.category_rule_id IS NULL
+  AND t.category <> 'uncategorised';
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE finance_category_rules ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow all operations on finance_category_rules" ON finance_category_rules;
+CREATE POLICY "Allow all operations on finance_category_rules"
+  ON finance_category_rules FOR ALL USING (true);
+
+COMMENT ON TABLE finance_category_rules IS 'User-defined categorisation rules, applied after each bank import and on demand to the full history';
+COMMENT ON COLUMN finance_transactions.category_source IS 'import = bank file category, rule = category_rule_id, manual = set by user (rules skip it)';
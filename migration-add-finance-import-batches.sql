@@ -0,0 +1,123 @@
+-- Migration: Import batches for bank statement imports
+-- Every import run is recorded (who, when, file hash, row counts) and every inserted
+-- transaction references its batch, so a wrong file can be rolled back in one step.
+
+CREATE TABLE IF NOT EXISTS finance_import_batches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id UUID NOT NULL REFERENCES organisations(id) ON DELETE CASCADE,
+  source_document_id UUID REFERENCES documents(id) ON DELETE SET NULL,
+  file_name TEXT,
+  file_sha256 TEXT,
+  format TEXT,                                  -- csv | mt940 | camt053
+  profile TEXT,                                 -- detected bank profile
+  imported_by TEXT,                             -- user email / id of whoever ran the import
+  imported_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  rows_parsed INTEGER NOT NULL DEFAULT 0,
+  rows_valid INTEGER NOT NULL DEFAULT 0,
+  rows_invalid INTEGER NOT NULL DEFAULT 0,
+  rows_inserted INTEGER NOT NULL DEFAULT 0,
+  rows_skipped INTEGER NOT NULL DEFAULT 0,
+  status TEXT NOT NULL DEFAULT 'completed' CHECK (status IN ('running', 'completed', 'rolled_back')),
+  rolled_back_at TIMESTAMPTZ,
+  rolled_back_by TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_finance_import_batches_org ON finance_import_batches(org_id, imported_at DESC);
+CREATE INDEX IF NOT EXISTS idx_finance_import_batches_document ON finance_import_batches(source_document_id);
+
+ALTER TABLE finance_transactions
+  ADD COLUMN IF NOT EXISTS import_batch_id UUID REFERENCES finance_import_batches(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_finance_transactions_import_batch ON finance_transactions(import_batch_id);
+
+-- Backfill: one batch per source document for transactions imported before batches existed
+INSERT INTO finance_import_batches (org_id, source_document_id, file_name, file_sha256, profile, imported_at, rows_valid, rows_inserted)
+SELECT t.org_id, t.source_document_id, d.file_name, d.sha256, d.bank_profile, MIN(t.created_at), COUNT(*), COUNT(*)
+FROM finance_transactions t
+LEFT JOIN documents d ON d.id = t.source_document_id
+WHERE t.import_batch_id IS NULL
+  AND t.source_document_id IS NOT NULL
+  AND NOT EXISTS (
+    SELECT 1 FROM finance_import_batches b WHERE b.source_document_id = t.source_document_id
+  )
+GROUP BY t.org_id, t.source_document_id, d.file_name, d.sha256, d.bank_profile;
+
+UPDATE finance_transactions t
+SET import_batch_id = b.id
+FROM finance_import_batches b
+WHERE t.import_batch_id IS NULL
+  AND b.source_document_id = t.source_document_id
+  AND b.org_id = t.org_id;
+
+-- Rollback in one transaction: the whole batch goes or nothing changes. Trip items of submitted,
+-- approved or reimbursed trips are locked, so a batch they reference is refused up front.
+CREATE OR REPLACE FUNCTION rollback_finance_import_batch(p_batch_id UUID, p_rolled_back_by TEXT DEFAULT NULL)
+RETURNS JSONB AS $$
+DECLARE
+  batch_status TEXT;
+  locked_items INTEGER;
+  subscription_links_deleted INTEGER;
+  trip_items_deleted INTEGER;
+  document_links_deleted INTEGER;
+  transactions_deleted INTEGER;
+BEGIN
+  SELECT status INTO batch_status FROM finance_import_batches WHERE id = p_batch_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Import batch not found';
+  END IF;
+  IF batch_status = 'rolled_back' THEN
+    RAISE EXCEPTION 'Import batch has already been rolled back';
+  END IF;
+
+  SELECT COUNT(*) INTO locked_items
+  FROM finance_trip_items i
+  JOIN finance_transactions t ON t.id = i.transaction_id
+  JOIN finance_trips tr ON tr.id = i.trip_id
+  WHERE t.import_batch_id = p_batch_id
+    AND tr.status IN ('submitted', 'approved', 'reimbursed');
+  IF locked_items > 0 THEN
+    RAISE EXCEPTION '% transactions of the batch are items of submitted, approved or reimbursed trips', locked_items;
+  END IF;
+
+  DELETE FROM finance_subscription_transactions
+  WHERE transaction_id IN (SELECT id FROM finance_transactions WHERE import_batch_id = p_batch_id);
+  GET DIAGNOSTICS subscription_links_deleted = ROW_COUNT;
+
+  -- finance_trip_items.transaction_id has no ON DELETE action, so the items must go first
+  DELETE FROM finance_trip_items
+  WHERE transaction_id IN (SELECT id FROM finance_transactions WHERE import_batch_id = p_batch_id);
+  GET DIAGNOSTICS trip_items_deleted = ROW_COUNT;
+
+  -- Document links are soft deleted, as everywhere else
+  UPDATE document_links
+  SET is_deleted = true, deleted_at = NOW()
+  WHERE entity_type = 'FINANCE_TRANSACTION'
+    AND is_deleted = false
+    AND entity_id IN (SELECT id FROM finance_transactions WHERE import_batch_id = p_batch_id);
+  GET DIAGNOSTICS document_links_deleted = ROW_COUNT;
+
+  DELETE FROM finance_transactions WHERE import_batch_id = p_batch_id;
+  GET DIAGNOSTICS transactions_deleted = ROW_COUNT;
+
+  UPDATE finance_import_batches
+  SET status = 'rolled_back', rolled_back_at = NOW(), rolled_back_by = p_rolled_back_by
+  WHERE id = p_batch_id;
+
+  RETURN jsonb_build_object(
+    'transactionsDeleted', transactions_deleted,
+    'subscriptionLinksDeleted', subscription_links_deleted,
+    'tripItemsDeleted', trip_items_deleted,
+    'documentLinksDeleted', document_links_deleted
+  );
+END;
+$$ LANGUAGE plpgsql;
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE finance_import_batches ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow all operations on finance_import_batches" ON finance_import_batches;
+CREATE POLICY "Allow all operations on finance_import_batches"
+  ON finance_import_batches FOR ALL USING (true);
+
+COMMENT ON TABLE finance_import_batches IS 'One row per bank statement import run; rollback deletes the batch transactions and their dependants';
+COMMENT ON COLUMN finance_transactions.import_batch_id IS 'Import batch that inserted this transaction (NULL for manual entries)';
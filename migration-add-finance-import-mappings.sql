@@ -0,0 +1,26 @@
+-- Migration: Saved column mappings for bank statement imports
+-- When a CSV matches no built-in bank profile, the user maps columns in the import wizard.
+-- The confirmed mapping is stored per organisation and reused for files with the same header signature.
+
+CREATE TABLE IF NOT EXISTS finance_import_mappings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id UUID NOT NULL REFERENCES organisations(id) ON DELETE CASCADE,
+  header_signature TEXT NOT NULL, -- sha256 of normalised header names
+  headers TEXT[] NOT NULL DEFAULT '{}',
+  delimiter TEXT NOT NULL DEFAULT ';',
+  date_format TEXT NOT NULL DEFAULT 'DD.MM.YYYY',
+  default_currency TEXT NOT NULL DEFAULT 'PLN',
+  columns JSONB NOT NULL, -- { bookingDate, valueDate, amount, currency, description, counterpartyName, counterpartyAccount }
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_finance_import_mappings_org_signature
+  ON finance_import_mappings(org_id, header_signature);
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE finance_import_mappings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow all operations on finance_import_mappings" ON finance_import_mappings;
+CREATE POLICY "Allow all operations on finance_import_mappings"
+  ON finance_import_mappings FOR ALL USING (true);
@@ -0,0 +1,94 @@
+-- Migration: Month-end close
+-- A closed month is recorded per organisation together with the completeness checks at the time
+-- of closing. Later changes to transactions, invoices and trip items dated in a closed month are
+-- logged in finance_close_edits so they can be reviewed with the accountant.
+
+CREATE TABLE IF NOT EXISTS finance_month_closes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id UUID NOT NULL REFERENCES organisations(id) ON DELETE CASCADE,
+  period_month DATE NOT NULL CHECK (period_month = date_trunc('month', period_month)::date),
+  closed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  checks JSONB NOT NULL DEFAULT '{}'::jsonb,
+  note TEXT,
+  UNIQUE (org_id, period_month)
+);
+
+CREATE TABLE IF NOT EXISTS finance_close_edits (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id UUID NOT NULL REFERENCES organisations(id) ON DELETE CASCADE,
+  period_month DATE NOT NULL,
+  table_name TEXT NOT NULL,
+  record_id UUID NOT NULL,
+  operation TEXT NOT NULL CHECK (operation IN ('INSERT', 'UPDATE', 'DELETE')),
+  edited_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_finance_close_edits_period
+  ON finance_close_edits(org_id, period_month, edited_at DESC);
+
+-- Log a change when the old or new row falls in a closed month.
+-- Arguments: organisation column, date column.
+CREATE OR REPLACE FUNCTION flag_finance_close_edit()
+RETURNS TRIGGER AS $$
+DECLARE
+  rec JSONB;
+  org UUID;
+  period DATE;
+  logged DATE;
+BEGIN
+  FOREACH rec IN ARRAY (
+    CASE TG_OP
+      WHEN 'INSERT' THEN ARRAY[to_jsonb(NEW)]
+      WHEN 'DELETE' THEN ARRAY[to_jsonb(OLD)]
+      ELSE ARRAY[to_jsonb(OLD), to_jsonb(NEW)]
+    END
+  ) LOOP
+    org := (rec->>TG_ARGV[0])::uuid;
+    period := date_trunc('month', (rec->>TG_ARGV[1])::date)::date;
+    -- An update within the same month is logged once
+    CONTINUE WHEN org IS NULL OR period IS NULL OR period IS NOT DISTINCT FROM logged;
+
+    IF EXISTS (SELECT 1 FROM finance_month_closes WHERE org_id = org AND period_month = period) THEN
+      INSERT INTO finance_close_edits (org_id, period_month, table_name, record_id, operation)
+      VALUES (org, period, TG_TABLE_NAME, (rec->>'id')::uuid, TG_OP);
+      logged := period;
+    END IF;
+  END LOOP;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Only columns the accountant works with; reconciliation status and FX backfills are not edits
+DROP TRIGGER IF EXISTS finance_transactions_close_edit ON finance_transactions;
+CREATE TRIGGER finance_transactions_close_edit
+  AFTER INSERT OR DELETE OR UPDATE OF booking_date, amount, currency, direction, description, category
+  ON finance_transactions
+  FOR EACH ROW EXECUTE FUNCTION flag_finance_close_edit('org_id', 'booking_date');
+
+DROP TRIGGER IF EXISTS documents_close_edit ON documents;
+CREATE TRIGGER documents_close_edit
+  AFTER INSERT OR DELETE OR UPDATE OF invoice_type, invoice_number, invoice_date, amount_original, currency, amount_net, vat_rate, vat_amount, counterparty_nip
+  ON documents
+  FOR EACH ROW EXECUTE FUNCTION flag_finance_close_edit('organisation_id', 'invoice_date');
+
+DROP TRIGGER IF EXISTS finance_trip_items_close_edit ON finance_trip_items;
+CREATE TRIGGER finance_trip_items_close_edit
+  AFTER INSERT OR DELETE OR UPDATE OF item_date, amount, currency, category, exclude_from_reimbursement
+  ON finance_trip_items
+  FOR EACH ROW EXECUTE FUNCTION flag_finance_close_edit('org_id', 'item_date');
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE finance_month_closes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE finance_close_edits ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow all operations on finance_month_closes" ON finance_month_closes;
+CREATE POLICY "Allow all operations on finance_month_closes"
+  ON finance_month_closes FOR ALL USING (true);
+
+DROP POLICY IF EXISTS "Allow all operations on finance_close_edits" ON finance_close_edits;
+CREATE POLICY "Allow all operations on finance_close_edits"
+  ON finance_close_edits FOR ALL USING (true);
+
+COMMENT ON TABLE finance_month_closes IS 'Months closed for the accountant; checks holds the completeness summary at closing';
+COMMENT ON COLUMN finance_month_closes.period_month IS 'First day of the closed month';
+COMMENT ON TABLE finance_close_edits IS 'Changes to transactions, invoices and trip items dated in a month after it was closed';
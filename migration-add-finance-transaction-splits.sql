@@ -0,0 +1,38 @@
+-- Migration: Split lines for finance transactions
+-- One payment can be divided across categories, projects and trips. Split amounts carry the
+-- parent's sign and must sum to the parent amount; the parent keeps its own category for display.
+
+CREATE TABLE IF NOT EXISTS finance_transaction_splits (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id UUID NOT NULL REFERENCES organisations(id) ON DELETE CASCADE,
+  transaction_id UUID NOT NULL REFERENCES finance_transactions(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL DEFAULT 0,
+  amount NUMERIC NOT NULL,
+  category TEXT NOT NULL DEFAULT 'uncategorised',
+  subcategory TEXT,
+  project_id UUID REFERENCES projects(id) ON DELETE SET NULL,
+  trip_id UUID REFERENCES finance_trips(id) ON DELETE SET NULL,
+  note TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_finance_transaction_splits_transaction ON finance_transaction_splits(transaction_id, position);
+CREATE INDEX IF NOT EXISTS idx_finance_transaction_splits_project ON finance_transaction_splits(project_id);
+
+-- Reports check this flag instead of querying splits for every transaction
+ALTER TABLE finance_transactions
+  ADD COLUMN IF NOT EXISTS has_splits BOOLEAN NOT NULL DEFAULT false;
+
+-- Trip items created from a split line; removed together with the split
+ALTER TABLE finance_trip_items
+  ADD COLUMN IF NOT EXISTS split_id UUID REFERENCES finance_transaction_splits(id) ON DELETE CASCADE;
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE finance_transaction_splits ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow all operations on finance_transaction_splits" ON finance_transaction_splits;
+CREATE POLICY "Allow all operations on finance_transaction_splits"
+  ON finance_transaction_splits FOR ALL USING (true);
+
+COMMENT ON TABLE finance_transaction_splits IS 'Split lines of a transaction (category/project/trip allocation); amounts sum to the parent amount';
+COMMENT ON COLUMN finance_trip_items.split_id IS 'Set when the item covers one split line instead of the whole transaction';
@@ -0,0 +1,69 @@
+-- Migration: FX rates and base-currency amounts
+-- Mid rates (PLN per 1 unit of currency) are imported from NBP table A files (XML or CSV).
+-- Transactions, invoices and trip items store the amount converted to the base currency (PLN),
+-- together with the rate and rate date used, so totals no longer mix currencies.
+
+CREATE TABLE IF NOT EXISTS fx_rates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  rate_date DATE NOT NULL,                      -- NBP effective date of the table
+  currency TEXT NOT NULL,                       -- ISO 4217 code, e.g. EUR
+  base_currency TEXT NOT NULL DEFAULT 'PLN',
+  rate NUMERIC NOT NULL,                        -- base currency per 1 unit (already divided by przelicznik)
+  table_no TEXT,                                -- e.g. 001/A/NBP/2024
+  source TEXT NOT NULL DEFAULT 'NBP',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_fx_rates_date_currency
+  ON fx_rates(rate_date, currency, base_currency);
+CREATE INDEX IF NOT EXISTS idx_fx_rates_currency_date ON fx_rates(currency, rate_date DESC);
+
+-- Base-currency columns. fx_rate IS NULL means "not converted yet" and is what the backfill picks up.
+ALTER TABLE finance_transactions
+  ADD COLUMN IF NOT EXISTS amount_base NUMERIC,
+  ADD COLUMN IF NOT EXISTS base_currency TEXT,
+  ADD COLUMN IF NOT EXISTS fx_rate NUMERIC,
+  ADD COLUMN IF NOT EXISTS fx_rate_date DATE;
+
+ALTER TABLE finance_trip_items
+  ADD COLUMN IF NOT EXISTS amount_base NUMERIC,
+  ADD COLUMN IF NOT EXISTS base_currency TEXT,
+  ADD COLUMN IF NOT EXISTS fx_rate NUMERIC,
+  ADD COLUMN IF NOT EXISTS fx_rate_date DATE;
+
+-- documents already has amount_original, currency, amount_base, base_currency
+ALTER TABLE documents
+  ADD COLUMN IF NOT EXISTS fx_rate NUMERIC,
+  ADD COLUMN IF NOT EXISTS fx_rate_date DATE;
+
+-- Rows already in PLN need no rate
+UPDATE finance_transactions
+SET amount_base = amount, base_currency = 'PLN', fx_rate = 1, fx_rate_date = booking_date
+WHERE fx_rate IS NULL AND UPPER(currency) = 'PLN';
+
+UPDATE finance_trip_items
+SET amount_base = amount, base_currency = 'PLN', fx_rate = 1, fx_rate_date = item_date
+WHERE fx_rate IS NULL AND UPPER(currency) = 'PLN';
+
+UPDATE documents
+SET amount_base = amount_original, base_currency = 'PLN', fx_rate = 1, fx_rate_date = invoice_date
+WHERE fx_rate IS NULL AND invoice_type IS NOT NULL AND amount_original IS NOT NULL
+  AND (currency IS NULL OR UPPER(currency) = 'PLN');
+
+-- Foreign-currency invoices were saved with amount_base = amount_original; clear it until converted
+UPDATE documents
+SET amount_base = NULL, base_currency = NULL
+WHERE fx_rate IS NULL AND invoice_type IS NOT NULL
+  AND currency IS NOT NULL AND UPPER(currency) <> 'PLN';
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE fx_rates ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow all operations on fx_rates" ON fx_rates;
+CREATE POLICY "Allow all operations on fx_rates"
+  ON fx_rates FOR ALL USING (true);
+
+COMMENT ON TABLE fx_rates IS 'NBP mid exchange rates imported from table A files';
+COMMENT ON COLUMN finance_transactions.amount_base IS 'Signed amount converted to base_currency at fx_rate (NBP mid rate of fx_rate_date)';
+COMMENT ON COLUMN finance_trip_items.amount_base IS 'Amount converted to base_currency at fx_rate';
+COMMENT ON COLUMN documents.fx_rate IS 'NBP mid rate from the last business day before invoice_date';
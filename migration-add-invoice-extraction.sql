@@ -0,0 +1,14 @@
+-- Migration: Invoice data read from imported invoices
+-- The invoice classification page (/documents/invoices/import) parses KSeF FA(2) XML files and the
+-- extracted text of PDF / scanned invoices, and pre-fills the form from the result. The parsed
+-- fields are kept on the document so the form is pre-filled again without re-parsing.
+
+-- {source, seller: {nip, name}, buyer: {nip, name}, invoiceNumber, issueDate, saleDate, dueDate,
+--  currency, amountNet, vatAmount, amountGross, vatRate, bankAccount, confidence};
+-- every field is {value, confidence} or null
+ALTER TABLE documents
+  ADD COLUMN IF NOT EXISTS invoice_extraction JSONB,
+  ADD COLUMN IF NOT EXISTS invoice_extracted_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN documents.invoice_extraction IS 'Invoice fields parsed from KSeF XML or the document text, each with a confidence 0..1; suggestions only, the classified values live in the invoice_* / amount_* columns';
+COMMENT ON COLUMN documents.invoice_extracted_at IS 'When invoice_extraction was last parsed';
@@ -0,0 +1,44 @@
+-- Migration: Invoice ↔ payment reconciliation
+-- Matches are produced by src/server/finance/reconciliation and recomputed on every run;
+-- rejected matches are kept so the same pair is not proposed again.
+
+-- Invoice number used for matching transfer titles (previously only in metadata.invoice_no)
+ALTER TABLE documents
+  ADD COLUMN IF NOT EXISTS invoice_number TEXT,
+  ADD COLUMN IF NOT EXISTS payment_status TEXT CHECK (payment_status IN ('unpaid', 'partially_paid', 'paid', 'overpaid')),
+  ADD COLUMN IF NOT EXISTS amount_paid NUMERIC,
+  ADD COLUMN IF NOT EXISTS reconciled_at TIMESTAMPTZ;
+
+UPDATE documents
+SET invoice_number = metadata->>'invoice_no'
+WHERE invoice_number IS NULL
+  AND metadata->>'invoice_no' IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_documents_payment_status ON documents(payment_status);
+
+CREATE TABLE IF NOT EXISTS invoice_payment_matches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  document_id UUID NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+  transaction_id UUID NOT NULL REFERENCES finance_transactions(id) ON DELETE CASCADE,
+  amount NUMERIC NOT NULL,                      -- allocated amount in the invoice currency
+  transaction_amount NUMERIC NOT NULL,          -- same allocation in the transaction currency
+  match_type TEXT NOT NULL CHECK (match_type IN ('invoice_number', 'amount', 'aggregate')),
+  score NUMERIC NOT NULL DEFAULT 0,
+  explanation TEXT,
+  is_rejected BOOLEAN NOT NULL DEFAULT false,
+  rejected_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_invoice_payment_matches_document ON invoice_payment_matches(document_id);
+CREATE INDEX IF NOT EXISTS idx_invoice_payment_matches_transaction ON invoice_payment_matches(transaction_id);
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE invoice_payment_matches ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow all operations on invoice_payment_matches" ON invoice_payment_matches;
+CREATE POLICY "Allow all operations on invoice_payment_matches"
+  ON invoice_payment_matches FOR ALL USING (true);
+
+COMMENT ON TABLE invoice_payment_matches IS 'Invoice-to-transaction allocations; one invoice can have several payments and one payment several invoices';
+COMMENT ON COLUMN documents.payment_status IS 'Result of the last reconciliation run: unpaid, partially_paid, paid or overpaid';
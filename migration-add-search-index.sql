@@ -0,0 +1,298 @@
+-- Migration: Full-text search index
+-- One row per searchable entity (documents, e-mails, notes, law notes, contacts, organisations,
+-- projects), kept in sync by triggers on the source tables. Matching uses English stemming,
+-- a Polish configuration and trigram similarity on titles for typos; search_all() returns
+-- ranked results with highlighted snippets and backs GET /api/search.
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+CREATE EXTENSION IF NOT EXISTS unaccent;
+
+-- Polish: Postgres ships no Polish stemmer. When the ispell files (polish.dict, polish.affix,
+-- polish.stop) are installed in the tsearch_data directory they are used; otherwise words are
+-- only unaccented, and prefix matching in search_all() covers most inflected forms.
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_ts_dict WHERE dictname = 'polish_ispell') THEN
+    CREATE TEXT SEARCH DICTIONARY polish_ispell (
+      TEMPLATE = ispell, DictFile = polish, AffFile = polish, StopWords = polish
+    );
+  END IF;
+EXCEPTION WHEN OTHERS THEN
+  RAISE NOTICE 'Polish ispell dictionary not installed, using unaccent only';
+END $$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_ts_config WHERE cfgname = 'mb_polish') THEN
+    CREATE TEXT SEARCH CONFIGURATION mb_polish (COPY = simple);
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM pg_ts_dict WHERE dictname = 'polish_ispell') THEN
+    ALTER TEXT SEARCH CONFIGURATION mb_polish
+      ALTER MAPPING FOR asciiword, asciihword, hword_asciipart, word, hword, hword_part
+      WITH polish_ispell, simple;
+  ELSE
+    ALTER TEXT SEARCH CONFIGURATION mb_polish
+      ALTER MAPPING FOR asciiword, asciihword, hword_asciipart, word, hword, hword_part
+      WITH unaccent, simple;
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS search_index (
+  entity_type TEXT NOT NULL CHECK (entity_type IN (
+    'document', 'email', 'note', 'general_note', 'law_note', 'contact', 'organisation', 'project'
+  )),
+  entity_id TEXT NOT NULL,
+  organisation_id UUID,
+  title TEXT NOT NULL DEFAULT '',
+  subtitle TEXT,
+  body TEXT NOT NULL DEFAULT '',
+  occurred_at TIMESTAMPTZ,
+  metadata JSONB NOT NULL DEFAULT '{}'::jsonb,
+  -- Bodies are capped: a tsvector holds at most 1MB
+  search_vector TSVECTOR GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', title), 'A') ||
+    setweight(to_tsvector('mb_polish', title), 'A') ||
+    setweight(to_tsvector('english', left(body, 200000)), 'B') ||
+    setweight(to_tsvector('mb_polish', left(body, 200000)), 'B')
+  ) STORED,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (entity_type, entity_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_search_index_vector ON search_index USING gin(search_vector);
+CREATE INDEX IF NOT EXISTS idx_search_index_title_trgm ON search_index USING gin(title gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_search_index_organisation ON search_index(organisation_id);
+CREATE INDEX IF NOT EXISTS idx_search_index_occurred_at ON search_index(occurred_at);
+
+-- Searchable fields of a source row, given as JSON so one mapping serves triggers and rebuilds
+CREATE OR REPLACE FUNCTION search_index_entry(kind TEXT, rec JSONB)
+RETURNS TABLE (
+  organisation_id UUID,
+  title TEXT,
+  subtitle TEXT,
+  body TEXT,
+  occurred_at TIMESTAMPTZ,
+  metadata JSONB
+) AS $$
+  SELECT
+    CASE kind
+      WHEN 'document' THEN (rec->>'organisation_id')::uuid
+      WHEN 'organisation' THEN (rec->>'id')::uuid
+      WHEN 'project' THEN (rec->>'organisation_id')::uuid
+      WHEN 'note' THEN CASE rec->>'mb_entity_type'
+        WHEN 'organisation' THEN (rec->>'mb_entity_id')::uuid
+        WHEN 'project' THEN (SELECT p.organisation_id FROM projects p WHERE p.id = (rec->>'mb_entity_id')::uuid)
+        WHEN 'document' THEN (SELECT d.organisation_id FROM documents d WHERE d.id = (rec->>'mb_entity_id')::uuid)
+      END
+    END,
+    CASE kind
+      WHEN 'document' THEN COALESCE(NULLIF(rec->>'name', ''), NULLIF(rec->>'title', ''), rec->>'file_name')
+      WHEN 'email' THEN COALESCE(NULLIF(rec->>'subject', ''), '(no subject)')
+      WHEN 'note' THEN COALESCE(NULLIF(rec->>'title', ''), 'Note')
+      WHEN 'general_note' THEN COALESCE(NULLIF(rec->>'title', ''), 'Untitled Note')
+      WHEN 'law_note' THEN COALESCE(NULLIF(rec->>'title', ''), 'Untitled Note')
+      WHEN 'contact' THEN rec->>'name'
+      WHEN 'organisation' THEN rec->>'name'
+      WHEN 'project' THEN COALESCE(NULLIF(rec->>'name', ''), rec->>'title')
+    END,
+    CASE kind
+      WHEN 'document' THEN COALESCE(NULLIF(rec->>'doc_type', ''), NULLIF(rec->>'document_type', ''), rec->>'file_type')
+      WHEN 'email' THEN concat_ws(' ', rec->>'from_name', '<' || (rec->>'from_email') || '>')
+      WHEN 'note' THEN rec->>'mb_entity_type'
+      WHEN 'law_note' THEN NULLIF(rec->>'document_type', '')
+      WHEN 'contact' THEN concat_ws(' • ', NULLIF(rec->>'email', ''), NULLIF(rec->>'organization', ''))
+      WHEN 'organisation' THEN concat_ws(' • ', NULLIF(rec->>'sector', ''), NULLIF(rec->>'location', ''))
+      WHEN 'project' THEN rec->>'status'
+    END,
+    CASE kind
+      WHEN 'document' THEN concat_ws(E'\n', rec->>'title', rec->>'file_name', rec->>'notes', rec->>'summary', rec->>'full_text')
+      WHEN 'email' THEN concat_ws(E'\n', rec->>'from_name', rec->>'from_email', rec->>'to_name', rec->>'to_email', rec->>'snippet')
+      WHEN 'note' THEN rec->>'content_text'
+      WHEN 'general_note' THEN rec->>'content'
+      WHEN 'law_note' THEN rec->>'content'
+      WHEN 'contact' THEN concat_ws(E'\n', rec->>'email', rec->>'organization', rec->>'notes',
+        (SELECT string_agg(value, ', ') FROM jsonb_array_elements_text(COALESCE(rec->'categories', '[]'::jsonb))))
+      WHEN 'organisation' THEN concat_ws(E'\n', rec->>'sector', rec->>'location', rec->>'website', rec->>'notes',
+        (SELECT string_agg(value, ', ') FROM jsonb_array_elements_text(COALESCE(rec->'categories', '[]'::jsonb))))
+      WHEN 'project' THEN concat_ws(E'\n', rec->>'description', rec->>'notes',
+        (SELECT string_agg(value, ', ') FROM jsonb_array_elements_text(COALESCE(rec->'categories', '[]'::jsonb))))
+    END,
+    CASE kind
+      WHEN 'document' THEN COALESCE((rec->>'invoice_date')::timestamptz, (rec->>'created_at')::timestamptz)
+      WHEN 'email' THEN (rec->>'internal_date')::timestamptz
+      WHEN 'note' THEN COALESCE((rec->>'notion_last_edited_time')::timestamptz, (rec->>'updated_at')::timestamptz)
+      WHEN 'general_note' THEN (rec->>'updated_at')::timestamptz
+      WHEN 'law_note' THEN (rec->>'updated_at')::timestamptz
+      ELSE (rec->>'created_at')::timestamptz
+    END,
+    CASE kind
+      WHEN 'document' THEN jsonb_build_object('contact_id', rec->'contact_id', 'file_type', rec->'file_type')
+      WHEN 'email' THEN jsonb_build_object('user_email', rec->'user_email', 'gmail_message_id', rec->'gmail_message_id', 'thread_id', rec->'thread_id')
+      WHEN 'note' THEN jsonb_build_object('mb_entity_type', rec->'mb_entity_type', 'mb_entity_id', rec->'mb_entity_id')
+      WHEN 'project' THEN jsonb_build_object('project_type', rec->'project_type')
+      ELSE '{}'::jsonb
+    END;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION search_index_put(kind TEXT, rec JSONB)
+RETURNS VOID AS $$
+  INSERT INTO search_index (entity_type, entity_id, organisation_id, title, subtitle, body, occurred_at, metadata, updated_at)
+  SELECT kind, rec->>'id', e.organisation_id, COALESCE(e.title, ''), NULLIF(e.subtitle, ''), COALESCE(e.body, ''),
+    e.occurred_at, COALESCE(e.metadata, '{}'::jsonb), NOW()
+  FROM search_index_entry(kind, rec) e
+  ON CONFLICT (entity_type, entity_id) DO UPDATE SET
+    organisation_id = EXCLUDED.organisation_id,
+    title = EXCLUDED.title,
+    subtitle = EXCLUDED.subtitle,
+    body = EXCLUDED.body,
+    occurred_at = EXCLUDED.occurred_at,
+    metadata = EXCLUDED.metadata,
+    updated_at = EXCLUDED.updated_at;
+$$ LANGUAGE sql;
+
+-- Argument: entity type of the table's rows
+CREATE OR REPLACE FUNCTION sync_search_index()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    DELETE FROM search_index WHERE entity_type = TG_ARGV[0] AND entity_id = OLD.id::text;
+  ELSE
+    PERFORM search_index_put(TG_ARGV[0], to_jsonb(NEW));
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS documents_search_index ON documents;
+CREATE TRIGGER documents_search_index
+  AFTER INSERT OR UPDATE OR DELETE ON documents
+  FOR EACH ROW EXECUTE FUNCTION sync_search_index('document');
+
+DROP TRIGGER IF EXISTS gmail_messages_search_index ON gmail_messages;
+CREATE TRIGGER gmail_messages_search_index
+  AFTER INSERT OR UPDATE OR DELETE ON gmail_messages
+  FOR EACH ROW EXECUTE FUNCTION sync_search_index('email');
+
+DROP TRIGGER IF EXISTS entity_notes_search_index ON entity_notes;
+CREATE TRIGGER entity_notes_search_index
+  AFTER INSERT OR UPDATE OR DELETE ON entity_notes
+  FOR EACH ROW EXECUTE FUNCTION sync_search_index('note');
+
+DROP TRIGGER IF EXISTS general_notes_search_index ON general_notes;
+CREATE TRIGGER general_notes_search_index
+  AFTER INSERT OR UPDATE OR DELETE ON general_notes
+  FOR EACH ROW EXECUTE FUNCTION sync_search_index('general_note');
+
+DROP TRIGGER IF EXISTS law_notes_search_index ON law_notes;
+CREATE TRIGGER law_notes_search_index
+  AFTER INSERT OR UPDATE OR DELETE ON law_notes
+  FOR EACH ROW EXECUTE FUNCTION sync_search_index('law_note');
+
+DROP TRIGGER IF EXISTS contacts_search_index ON contacts;
+CREATE TRIGGER contacts_search_index
+  AFTER INSERT OR UPDATE OR DELETE ON contacts
+  FOR EACH ROW EXECUTE FUNCTION sync_search_index('contact');
+
+DROP TRIGGER IF EXISTS organisations_search_index ON organisations;
+CREATE TRIGGER organisations_search_index
+  AFTER INSERT OR UPDATE OR DELETE ON organisations
+  FOR EACH ROW EXECUTE FUNCTION sync_search_index('organisation');
+
+DROP TRIGGER IF EXISTS projects_search_index ON projects;
+CREATE TRIGGER projects_search_index
+  AFTER INSERT OR UPDATE OR DELETE ON projects
+  FOR EACH ROW EXECUTE FUNCTION sync_search_index('project');
+
+-- Re-index every source table; run after this migration and whenever the mapping changes
+CREATE OR REPLACE FUNCTION rebuild_search_index()
+RETURNS INT AS $$
+DECLARE
+  source RECORD;
+  total INT := 0;
+  indexed INT;
+BEGIN
+  DELETE FROM search_index;
+  FOR source IN
+    SELECT * FROM (VALUES
+      ('document', 'documents'), ('email', 'gmail_messages'), ('note', 'entity_notes'),
+      ('general_note', 'general_notes'), ('law_note', 'law_notes'), ('contact', 'contacts'),
+      ('organisation', 'organisations'), ('project', 'projects')
+    ) AS s(kind, table_name)
+  LOOP
+    EXECUTE format('SELECT search_index_put(%L, to_jsonb(t)) FROM %I t', source.kind, source.table_name);
+    GET DIAGNOSTICS indexed = ROW_COUNT;
+    total := total + indexed;
+  END LOOP;
+  RETURN total;
+END;
+$$ LANGUAGE plpgsql;
+
+SELECT rebuild_search_index();
+
+-- Prefix query ("fak" -> 'fak':*) so results appear while typing and Polish inflections match
+CREATE OR REPLACE FUNCTION search_prefix_query(p_query TEXT)
+RETURNS TSQUERY AS $$
+  SELECT to_tsquery('mb_polish', string_agg(quote_literal(term) || ':*', ' & '))
+  FROM regexp_split_to_table(lower(p_query), '[^[:alnum:]]+') AS term
+  WHERE length(term) >= 2;
+$$ LANGUAGE sql STABLE;
+
+-- Ranked search with highlighted snippets; snippets are built for the returned rows only
+CREATE OR REPLACE FUNCTION search_all(
+  p_query TEXT,
+  p_types TEXT[] DEFAULT NULL,
+  p_organisation_id UUID DEFAULT NULL,
+  p_date_from DATE DEFAULT NULL,
+  p_date_to DATE DEFAULT NULL,
+  p_limit INT DEFAULT 30
+)
+RETURNS TABLE (
+  entity_type TEXT,
+  entity_id TEXT,
+  organisation_id UUID,
+  title TEXT,
+  subtitle TEXT,
+  snippet TEXT,
+  occurred_at TIMESTAMPTZ,
+  metadata JSONB,
+  rank REAL
+) AS $$
+  WITH q AS (
+    SELECT
+      websearch_to_tsquery('english', p_query)
+        || websearch_to_tsquery('mb_polish', p_query)
+        || COALESCE(search_prefix_query(p_query), websearch_to_tsquery('mb_polish', p_query)) AS query
+  ),
+  hits AS (
+    SELECT s.*, ts_rank_cd(s.search_vector, q.query) + word_similarity(p_query, s.title) AS score
+    FROM search_index s, q
+    WHERE (s.search_vector @@ q.query OR p_query <% s.title)
+      AND (p_types IS NULL OR s.entity_type = ANY(p_types))
+      AND (p_organisation_id IS NULL OR s.organisation_id = p_organisation_id)
+      AND (p_date_from IS NULL OR s.occurred_at >= p_date_from)
+      AND (p_date_to IS NULL OR s.occurred_at < p_date_to + 1)
+    ORDER BY score DESC
+    LIMIT p_limit
+  )
+  SELECT
+    h.entity_type, h.entity_id, h.organisation_id, h.title, h.subtitle,
+    CASE WHEN h.body = '' THEN NULL ELSE ts_headline(
+      'mb_polish', left(h.body, 100000), q.query,
+      'StartSel=<mark>, StopSel=</mark>, MaxWords=20, MinWords=8, MaxFragments=2, FragmentDelimiter=" … "'
+    ) END,
+    h.occurred_at, h.metadata, h.score::real
+  FROM hits h, q
+  ORDER BY h.score DESC;
+$$ LANGUAGE sql STABLE;
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE search_index ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow all operations on search_index" ON search_index;
+CREATE POLICY "Allow all operations on search_index" ON search_index FOR ALL USING (true);
+
+COMMENT ON TABLE search_index IS 'Full-text search index over documents, e-mails, notes and CRM entities, maintained by triggers';
+COMMENT ON COLUMN search_index.entity_id IS 'Id of the source row (law and general notes have text ids)';
+COMMENT ON COLUMN search_index.occurred_at IS 'Date used by the date range filter: invoice or upload date, e-mail date, last note edit, creation of CRM records';
+COMMENT ON FUNCTION search_all IS 'Ranked full-text and fuzzy title search with <mark> highlighted snippets';
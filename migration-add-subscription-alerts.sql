@@ -0,0 +1,32 @@
+-- Migration: Subscription lifecycle alerts
+-- Raised by the subscription detection run (src/lib/finance/subscriptions/alerts.ts) when a charge
+-- breaks the pattern. dedupe_key identifies the event, so re-running detection never re-opens
+-- an alert that was dismissed or snoozed.
+
+CREATE TABLE IF NOT EXISTS finance_subscription_alerts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id UUID NOT NULL,
+  subscription_id UUID REFERENCES finance_subscriptions(id) ON DELETE CASCADE,
+  transaction_id UUID REFERENCES finance_transactions(id) ON DELETE SET NULL,
+  alert_type TEXT NOT NULL CHECK (alert_type IN ('price_increase', 'missed_charge', 'duplicate_charge', 'new_recurring')),
+  dedupe_key TEXT NOT NULL,
+  details JSONB NOT NULL DEFAULT '{}'::jsonb,    -- display name, expected/actual amount, period, transaction ids
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'dismissed', 'snoozed')),
+  snoozed_until DATE,
+  resolved_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (org_id, dedupe_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_fin_sub_alerts_org_status ON finance_subscription_alerts(org_id, status);
+CREATE INDEX IF NOT EXISTS idx_fin_sub_alerts_subscription ON finance_subscription_alerts(subscription_id);
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE finance_subscription_alerts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow all operations on finance_subscription_alerts" ON finance_subscription_alerts;
+CREATE POLICY "Allow all operations on finance_subscription_alerts"
+  ON finance_subscription_alerts FOR ALL USING (true);
+
+COMMENT ON TABLE finance_subscription_alerts IS 'Price increases, missed charges, duplicate charges and new recurring vendors found by subscription detection';
+COMMENT ON COLUMN finance_subscription_alerts.snoozed_until IS 'Snoozed alerts show up again from this date';
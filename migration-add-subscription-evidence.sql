@@ -0,0 +1,12 @@
+-- Migration: Evidence for detected subscriptions
+-- Detection runs as one pipeline (src/lib/finance/subscriptions/pipeline.ts):
+-- rules -> heuristics -> interval analysis. Each subscription stores why it was detected.
+
+ALTER TABLE finance_subscriptions
+  ADD COLUMN IF NOT EXISTS evidence JSONB;
+
+COMMENT ON COLUMN finance_subscriptions.source IS 'Pipeline stage that detected the subscription: rule | heuristic | interval (auto = legacy detector), or manual';
+COMMENT ON COLUMN finance_subscriptions.evidence IS 'Stage, matched rule/pattern, transaction ids, interval stats (median/min/max days, regular ratio), amount stats (avg/min/max/stddev/variance %) and service months';
+
+-- recurrence_group_id on transactions now holds the subscription vendor_key
+COMMENT ON COLUMN finance_transactions.recurrence_group_id IS 'vendor_key of the detected subscription the transaction belongs to';
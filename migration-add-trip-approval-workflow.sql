@@ -0,0 +1,151 @@
+-- Migration: Trip approval workflow
+-- Trips move draft -> submitted -> approved/rejected -> reimbursed (see src/lib/trips/workflow.ts).
+-- Submitted, approved and reimbursed trips are locked: their items, evidence and allowance inputs
+-- cannot change. Every transition is recorded in finance_trip_status_log together with the
+-- approver's comments, in the same transaction as the status change.
+
+ALTER TABLE finance_trips
+  DROP CONSTRAINT IF EXISTS finance_trips_status_check;
+ALTER TABLE finance_trips
+  ADD CONSTRAINT finance_trips_status_check
+  CHECK (status IN ('draft', 'submitted', 'approved', 'rejected', 'reimbursed'));
+
+ALTER TABLE finance_trips
+  ADD COLUMN IF NOT EXISTS reimbursement_transaction_id UUID REFERENCES finance_transactions(id) ON DELETE SET NULL;
+
+ALTER TABLE finance_trips
+  DROP CONSTRAINT IF EXISTS finance_trips_reimbursed_transaction;
+ALTER TABLE finance_trips
+  ADD CONSTRAINT finance_trips_reimbursed_transaction
+  CHECK (status <> 'reimbursed' OR reimbursement_transaction_id IS NOT NULL) NOT VALID;
+
+CREATE TABLE IF NOT EXISTS finance_trip_status_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id UUID NOT NULL REFERENCES organisations(id) ON DELETE CASCADE,
+  trip_id UUID NOT NULL REFERENCES finance_trips(id) ON DELETE CASCADE,
+  from_status TEXT,
+  to_status TEXT NOT NULL,
+  actor TEXT,
+  comment TEXT,
+  item_comments JSONB NOT NULL DEFAULT '{}'::jsonb,
+  reimbursement_transaction_id UUID REFERENCES finance_transactions(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_finance_trip_status_log_trip
+  ON finance_trip_status_log(trip_id, created_at DESC);
+
+-- Items of a locked trip cannot be added, changed or removed
+CREATE OR REPLACE FUNCTION check_finance_trip_unlocked()
+RETURNS TRIGGER AS $$
+DECLARE
+  trip_ids UUID[];
+  trip_status TEXT;
+BEGIN
+  -- A row moved between trips must leave the old trip as well as the new one unlocked
+  IF TG_OP = 'INSERT' THEN
+    trip_ids := ARRAY[NEW.trip_id];
+  ELSIF TG_OP = 'DELETE' THEN
+    trip_ids := ARRAY[OLD.trip_id];
+  ELSE
+    trip_ids := ARRAY[OLD.trip_id, NEW.trip_id];
+  END IF;
+
+  SELECT status INTO trip_status
+  FROM finance_trips
+  WHERE id = ANY(trip_ids)
+    AND status IN ('submitted', 'approved', 'reimbursed')
+  LIMIT 1;
+
+  IF trip_status IS NOT NULL THEN
+    RAISE EXCEPTION 'Trip is % and locked for changes', trip_status;
+  END IF;
+
+  RETURN CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS finance_trip_items_locked ON finance_trip_items;
+CREATE TRIGGER finance_trip_items_locked
+  BEFORE INSERT OR UPDATE OR DELETE ON finance_trip_items
+  FOR EACH ROW EXECUTE FUNCTION check_finance_trip_unlocked();
+
+-- Evidence can still be re-pointed at a deduplicated file or read by OCR, but not added,
+-- removed or moved to another item
+DROP TRIGGER IF EXISTS finance_trip_evidence_locked ON finance_trip_evidence;
+CREATE TRIGGER finance_trip_evidence_locked
+  BEFORE INSERT OR DELETE OR UPDATE OF trip_id, trip_item_id ON finance_trip_evidence
+  FOR EACH ROW EXECUTE FUNCTION check_finance_trip_unlocked();
+
+-- The per diem and mileage inputs of a locked trip are part of what was submitted
+CREATE OR REPLACE FUNCTION check_finance_trip_allowances_unlocked()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.status IN ('submitted', 'approved', 'reimbursed') AND (
+    NEW.departure_at, NEW.return_at, NEW.destination_country, NEW.per_diem_rate, NEW.per_diem_currency,
+    NEW.breakfasts_provided, NEW.lunches_provided, NEW.dinners_provided, NEW.nights_without_invoice,
+    NEW.local_transport_lump_sum, NEW.mileage_km, NEW.vehicle_type
+  ) IS DISTINCT FROM (
+    OLD.departure_at, OLD.return_at, OLD.destination_country, OLD.per_diem_rate, OLD.per_diem_currency,
+    OLD.breakfasts_provided, OLD.lunches_provided, OLD.dinners_provided, OLD.nights_without_invoice,
+    OLD.local_transport_lump_sum, OLD.mileage_km, OLD.vehicle_type
+  ) THEN
+    RAISE EXCEPTION 'Trip is % and locked for changes', OLD.status;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS finance_trips_allowances_locked ON finance_trips;
+CREATE TRIGGER finance_trips_allowances_locked
+  BEFORE UPDATE ON finance_trips
+  FOR EACH ROW EXECUTE FUNCTION check_finance_trip_allowances_unlocked();
+
+-- Status change and audit entry in one transaction. Applies only while the trip still has
+-- p_from_status; returns no row otherwise.
+CREATE OR REPLACE FUNCTION transition_finance_trip(
+  p_trip_id UUID,
+  p_from_status TEXT,
+  p_to_status TEXT,
+  p_actor TEXT DEFAULT NULL,
+  p_comment TEXT DEFAULT NULL,
+  p_item_comments JSONB DEFAULT '{}'::jsonb,
+  p_reimbursement_transaction_id UUID DEFAULT NULL
+)
+RETURNS SETOF finance_trips AS $$
+DECLARE
+  updated finance_trips;
+BEGIN
+  UPDATE finance_trips
+  SET status = p_to_status,
+      reimbursement_transaction_id = COALESCE(p_reimbursement_transaction_id, reimbursement_transaction_id)
+  WHERE id = p_trip_id
+    AND status = p_from_status
+  RETURNING * INTO updated;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO finance_trip_status_log (
+    org_id, trip_id, from_status, to_status, actor, comment, item_comments, reimbursement_transaction_id
+  ) VALUES (
+    updated.org_id, p_trip_id, p_from_status, p_to_status, p_actor, p_comment,
+    COALESCE(p_item_comments, '{}'::jsonb), p_reimbursement_transaction_id
+  );
+
+  RETURN NEXT updated;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE finance_trip_status_log ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow all operations on finance_trip_status_log" ON finance_trip_status_log;
+CREATE POLICY "Allow all operations on finance_trip_status_log"
+  ON finance_trip_status_log FOR ALL USING (true);
+
+COMMENT ON COLUMN finance_trips.reimbursement_transaction_id IS 'Outgoing bank transaction that paid the reimbursement';
+COMMENT ON TABLE finance_trip_status_log IS 'Audit trail of trip status transitions';
+COMMENT ON COLUMN finance_trip_status_log.item_comments IS 'Approver comments per trip item: {"<trip_item_id>": "comment"}';
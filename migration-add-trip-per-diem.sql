@@ -0,0 +1,31 @@
+-- Migration: Per diem (dieta), lump sums and mileage for finance trips
+-- Trips get the exact departure/return time and destination country needed for the statutory
+-- per diem, the meals provided during the trip, and the inputs of the lump sums. The amounts
+-- themselves are computed by src/lib/trips/allowances.ts and are not stored.
+
+ALTER TABLE finance_trips
+  ADD COLUMN IF NOT EXISTS departure_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS return_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS destination_country TEXT NOT NULL DEFAULT 'PL',
+  ADD COLUMN IF NOT EXISTS per_diem_rate NUMERIC CHECK (per_diem_rate IS NULL OR per_diem_rate >= 0),
+  ADD COLUMN IF NOT EXISTS per_diem_currency TEXT,
+  ADD COLUMN IF NOT EXISTS breakfasts_provided INTEGER NOT NULL DEFAULT 0 CHECK (breakfasts_provided >= 0),
+  ADD COLUMN IF NOT EXISTS lunches_provided INTEGER NOT NULL DEFAULT 0 CHECK (lunches_provided >= 0),
+  ADD COLUMN IF NOT EXISTS dinners_provided INTEGER NOT NULL DEFAULT 0 CHECK (dinners_provided >= 0),
+  ADD COLUMN IF NOT EXISTS nights_without_invoice INTEGER NOT NULL DEFAULT 0 CHECK (nights_without_invoice >= 0),
+  ADD COLUMN IF NOT EXISTS local_transport_lump_sum BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS mileage_km NUMERIC CHECK (mileage_km IS NULL OR mileage_km >= 0),
+  ADD COLUMN IF NOT EXISTS vehicle_type TEXT CHECK (vehicle_type IN ('car_small', 'car_large', 'motorcycle', 'moped'));
+
+ALTER TABLE finance_trips
+  DROP CONSTRAINT IF EXISTS finance_trips_return_after_departure;
+ALTER TABLE finance_trips
+  ADD CONSTRAINT finance_trips_return_after_departure
+  CHECK (departure_at IS NULL OR return_at IS NULL OR return_at > departure_at);
+
+COMMENT ON COLUMN finance_trips.destination_country IS 'ISO country code of the destination; PL for domestic trips';
+COMMENT ON COLUMN finance_trips.per_diem_rate IS 'Daily per diem overriding the statutory rate of the country (e.g. a country missing from the rate table)';
+COMMENT ON COLUMN finance_trips.nights_without_invoice IS 'Nights without an accommodation invoice, settled with the accommodation lump sum';
+COMMENT ON COLUMN finance_trips.local_transport_lump_sum IS 'Whether the local transport lump sum is claimed';
+COMMENT ON COLUMN finance_trips.mileage_km IS 'Kilometres driven with a private vehicle, settled at the per-km rate';
+COMMENT ON COLUMN finance_trips.vehicle_type IS 'Private vehicle: car_small (engine up to 900 cm3), car_large, motorcycle or moped';
@@ -0,0 +1,21 @@
+-- Migration: Receipt OCR for trip evidence
+-- Uploaded receipt images and PDFs are read by a local OCR engine (tesseract, English + Arabic)
+-- and parsed into vendor, date, total, currency and VAT (see src/lib/trips/receiptParser.ts).
+-- The result is kept on the evidence row until the user confirms it into a trip item.
+
+ALTER TABLE finance_trip_evidence
+  ADD COLUMN IF NOT EXISTS ocr_status TEXT CHECK (ocr_status IN ('processing', 'done', 'failed')),
+  ADD COLUMN IF NOT EXISTS ocr_text TEXT,
+  ADD COLUMN IF NOT EXISTS ocr_fields JSONB,
+  ADD COLUMN IF NOT EXISTS ocr_confidence NUMERIC(4,3),
+  ADD COLUMN IF NOT EXISTS ocr_error TEXT,
+  ADD COLUMN IF NOT EXISTS ocr_processed_at TIMESTAMPTZ;
+
+ALTER TABLE finance_trip_items
+  ADD COLUMN IF NOT EXISTS vat_amount NUMERIC(12,2),
+  ADD COLUMN IF NOT EXISTS receipt_confidence NUMERIC(4,3);
+
+COMMENT ON COLUMN finance_trip_evidence.ocr_fields IS 'Parsed receipt fields with per-field confidence: {vendor, date, total, currency, vat, vatRate, language, confidence}';
+COMMENT ON COLUMN finance_trip_evidence.ocr_confidence IS 'Overall extraction confidence 0..1';
+COMMENT ON COLUMN finance_trip_items.vat_amount IS 'VAT shown on the receipt, in the item currency';
+COMMENT ON COLUMN finance_trip_items.receipt_confidence IS 'Confidence of the OCR extraction the item was confirmed from; NULL for manual entry';
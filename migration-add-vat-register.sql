@@ -0,0 +1,25 @@
+-- Migration: VAT register and JPK_V7M export
+-- Invoices get the fields needed for the monthly purchase/sales register (net, VAT rate, VAT
+-- amount, counterparty NIP and name); organisations get the taxpayer data of the JPK header.
+-- Amounts are in the invoice currency and converted with documents.fx_rate.
+
+ALTER TABLE documents
+  ADD COLUMN IF NOT EXISTS amount_net NUMERIC,
+  ADD COLUMN IF NOT EXISTS vat_rate TEXT CHECK (vat_rate IN ('23', '8', '5', '0', 'zw', 'np', 'oo')),
+  ADD COLUMN IF NOT EXISTS vat_amount NUMERIC,
+  ADD COLUMN IF NOT EXISTS counterparty_nip TEXT,
+  ADD COLUMN IF NOT EXISTS counterparty_name TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_documents_vat_register
+  ON documents(organisation_id, invoice_year, invoice_month)
+  WHERE invoice_type IS NOT NULL;
+
+ALTER TABLE organisations
+  ADD COLUMN IF NOT EXISTS nip TEXT,
+  ADD COLUMN IF NOT EXISTS tax_office_code TEXT,
+  ADD COLUMN IF NOT EXISTS tax_email TEXT;
+
+COMMENT ON COLUMN documents.vat_rate IS 'VAT rate: 23/8/5/0 percent, zw (exempt), np (outside Polish VAT), oo (reverse charge)';
+COMMENT ON COLUMN documents.counterparty_nip IS 'Seller NIP for cost invoices, buyer NIP for revenue invoices; foreign tax ids keep their country prefix';
+COMMENT ON COLUMN organisations.tax_office_code IS 'Four-digit tax office code (KodUrzedu) for JPK files';
+COMMENT ON COLUMN organisations.tax_email IS 'Contact e-mail declared in JPK files';
@@ -3,7 +3,7 @@ import type { NextConfig } from "next";
 const nextConfig: NextConfig = {
   // NEXT_PUBLIC_* variables are automatically exposed by Next.js
   // No need to manually configure them in the env section
-  serverExternalPackages: ['pdf-parse'],
+  serverExternalPackages: ['pdf-parse', 'tesseract.js'],
   async headers() {
     return [
       {
@@ -0,0 +1,63 @@
+'use server';
+
+import { createServerSupabaseClient } from '@/server/supabase/server';
+import type { DuplicateGroup, MergeResult, ScanCursor, ScanResult } from '@/server/documents/duplicates';
+
+/**
+ * Hash one batch of stored files that are not linked to a file blob yet
+ */
+export async function scanFileHashes(
+  cursor: ScanCursor | null
+): Promise<{ ok: boolean; result?: ScanResult; error?: string }> {
+  try {
+    console.log('[scanFileHashes] Scanning batch:', cursor);
+
+    const supabase = createServerSupabaseClient();
+    const { scanFileHashes: scan } = await import('@/server/documents/duplicates');
+    const result = await scan(supabase, cursor);
+
+    return { ok: true, result };
+  } catch (error) {
+    console.error('[scanFileHashes] Exception:', error);
+    return { ok: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
+
+/**
+ * List files stored or referenced more than once
+ */
+export async function listDuplicateGroups(): Promise<{ ok: boolean; groups?: DuplicateGroup[]; error?: string }> {
+  try {
+    console.log('[listDuplicateGroups] Loading duplicate groups');
+
+    const supabase = createServerSupabaseClient();
+    const { findDuplicateGroups } = await import('@/server/documents/duplicates');
+    const groups = await findDuplicateGroups(supabase);
+
+    return { ok: true, groups };
+  } catch (error) {
+    console.error('[listDuplicateGroups] Exception:', error);
+    return { ok: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
+
+/**
+ * Merge the rows of one duplicate group onto a single stored file
+ */
+export async function mergeDuplicateGroup(
+  blobId: string,
+  keepDocumentId?: string | null
+): Promise<{ ok: boolean; result?: MergeResult; error?: string }> {
+  try {
+    console.log('[mergeDuplicateGroup] Merging:', { blobId, keepDocumentId });
+
+    const supabase = createServerSupabaseClient();
+    const { mergeDuplicateGroup: merge } = await import('@/server/documents/duplicates');
+    const result = await merge(supabase, blobId, keepDocumentId);
+
+    return { ok: true, result };
+  } catch (error) {
+    console.error('[mergeDuplicateGroup] Exception:', error);
+    return { ok: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
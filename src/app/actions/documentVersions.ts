@@ -0,0 +1,25 @@
+'use server';
+
+import { createServerSupabaseClient } from '@/server/supabase/server';
+import type { DocumentVersion } from '@/lib/db/document-versions';
+import type { AddDocumentVersionParams } from '@/server/documents/versions';
+
+/**
+ * Make an uploaded file the new version of a document or contract
+ */
+export async function addDocumentVersion(
+  params: AddDocumentVersionParams
+): Promise<{ ok: boolean; version?: DocumentVersion; error?: string }> {
+  try {
+    console.log('[addDocumentVersion] Adding version:', { kind: params.kind, parentId: params.parentId, fileName: params.fileName });
+
+    const supabase = createServerSupabaseClient();
+    const { addDocumentVersion: addVersion } = await import('@/server/documents/versions');
+    const version = await addVersion(supabase, params);
+
+    return { ok: true, version };
+  } catch (error) {
+    console.error('[addDocumentVersion] Exception:', error);
+    return { ok: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
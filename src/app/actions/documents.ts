@@ -1,6 +1,7 @@
 'use server';
 
 import { supabase } from '@/lib/supabase';
+import type { ProcessBankStatementResult } from '@/server/finance/processBankStatement';
 
 export interface DocumentLink {
   id: string;
@@ -46,24 +47,14 @@ export async function uploadDocumentAndLinkToEntity(
       id: string;
       role?: string;
     };
+    deferImport?: boolean;
   } = {}
 ): Promise<{ 
   documentId: string; 
   createdNew: boolean; 
   storagePath: string; 
   sha256: string;
-  import?: {
-    ok: true;
-    parsed: number;
-    valid: number;
-    invalid: number;
-    upserted: number;
-  } | {
-    ok: false;
-    step: string;
-    error: string;
-    extra?: any;
-  };
+  import?: ProcessBankStatementResult;
 }> {
   // Import server function directly (no HTTP)
   const { uploadDocument } = await import('@/server/documents/upload');
@@ -81,6 +72,7 @@ export async function uploadDocumentAndLinkToEntity(
     fileName: file.name,
     mimeType: file.type,
     fileBase64: base64,
+    deferImport: options.deferImport,
   });
 
   if (!result.ok) {
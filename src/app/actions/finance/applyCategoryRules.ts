@@ -0,0 +1,25 @@
+'use server';
+
+import { createServerSupabaseClient } from '@/server/supabase/server';
+import type { ApplyCategoryRulesResult } from '@/server/finance/categoryRules';
+
+/**
+ * Re-run the organisation's categorisation rules over the full transaction history
+ */
+export async function applyCategoryRules(orgId: string): Promise<ApplyCategoryRulesResult> {
+  try {
+    console.log('[applyCategoryRules] Running for org:', orgId);
+
+    const { applyCategoryRules: apply } = await import('@/server/finance/categoryRules');
+    return apply(createServerSupabaseClient(), orgId);
+  } catch (error) {
+    console.error('[applyCategoryRules] Exception:', error);
+    return {
+      ok: false,
+      scanned: 0,
+      categorised: 0,
+      cleared: 0,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
@@ -0,0 +1,17 @@
+'use server';
+
+import { createServerSupabaseClient } from '@/server/supabase/server';
+import type { BackfillBaseAmountsResult } from '@/server/finance/fx/backfill';
+
+export interface BackfillBaseAmountsParams {
+  orgId?: string | null;
+}
+
+export async function backfillBaseAmounts(
+  params: BackfillBaseAmountsParams = {}
+): Promise<BackfillBaseAmountsResult> {
+  console.log('[backfillBaseAmounts] Params:', params);
+
+  const { backfillBaseAmounts: backfill } = await import('@/server/finance/fx/backfill');
+  return backfill(createServerSupabaseClient(), { orgId: params.orgId });
+}
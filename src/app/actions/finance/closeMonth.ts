@@ -0,0 +1,29 @@
+'use server';
+
+import { createServerSupabaseClient } from '@/server/supabase/server';
+import { isValidClosePeriod } from '@/lib/finance/close';
+import type { MonthCloseParams } from './getMonthCloseStatus';
+
+/**
+ * Mark a month closed; later edits to it are flagged
+ */
+export async function closeMonth(
+  params: MonthCloseParams
+): Promise<{ ok: boolean; error?: string }> {
+  try {
+    console.log('[closeMonth] Closing:', params);
+
+    if (!isValidClosePeriod(params.period)) {
+      return { ok: false, error: 'Period must be a YYYY-MM month' };
+    }
+
+    const supabase = createServerSupabaseClient();
+    const { closeMonth: close } = await import('@/server/finance/close/monthClose');
+    await close(supabase, params.orgId, params.period);
+
+    return { ok: true };
+  } catch (error) {
+    console.error('[closeMonth] Exception:', error);
+    return { ok: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
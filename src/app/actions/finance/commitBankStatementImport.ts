@@ -0,0 +1,54 @@
+'use server';
+
+import { createServerSupabaseClient } from '@/server/supabase/server';
+import type { ColumnMapping } from '@/server/finance/statements';
+import type { ProcessBankStatementResult } from '@/server/finance/processBankStatement';
+
+export interface CommitBankStatementImportParams {
+  documentId: string;
+  /** Mapping confirmed in the wizard; saved for the org so the next file with the same headers maps itself */
+  mapping?: ColumnMapping | null;
+  headers?: string[];
+  /** Recorded on the import batch */
+  importedBy?: string | null;
+}
+
+export async function commitBankStatementImport(
+  params: CommitBankStatementImportParams
+): Promise<ProcessBankStatementResult> {
+  try {
+    console.log('[commitBankStatementImport] Importing:', {
+      documentId: params.documentId,
+      hasMapping: !!params.mapping,
+    });
+
+    if (params.mapping) {
+      const supabase = createServerSupabaseClient();
+      const { data: doc, error } = await supabase
+        .from('documents')
+        .select('organisation_id')
+        .eq('id', params.documentId)
+        .single();
+
+      if (error || !doc?.organisation_id) {
+        return { ok: false, step: 'load_document', error: error?.message || 'Document has no organisation_id' };
+      }
+
+      const { saveImportMapping } = await import('@/server/finance/importMappings');
+      const saved = await saveImportMapping(supabase, doc.organisation_id, params.mapping, params.headers ?? []);
+      if (!saved.ok) {
+        return { ok: false, step: 'save_mapping', error: saved.error || 'Failed to save column mapping' };
+      }
+    }
+
+    const { processBankStatementDocument } = await import('@/server/finance/processBankStatement');
+    return processBankStatementDocument({
+      documentId: params.documentId,
+      mapping: params.mapping,
+      importedBy: params.importedBy,
+    });
+  } catch (error) {
+    console.error('[commitBankStatementImport] Exception:', error);
+    return { ok: false, step: 'import_exception', error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
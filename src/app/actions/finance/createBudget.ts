@@ -0,0 +1,49 @@
+'use server';
+
+import { createServerSupabaseClient } from '@/server/supabase/server';
+import { validateBudget } from '@/lib/finance/budgets';
+import type { Budget, BudgetInput } from '@/lib/finance/budgets';
+
+export interface CreateBudgetParams {
+  orgId: string;
+  budget: BudgetInput;
+}
+
+export async function createBudget(
+  params: CreateBudgetParams
+): Promise<{ ok: true; budget: Budget } | { ok: false; error: string }> {
+  try {
+    console.log('[createBudget] Creating:', params);
+
+    const validationError = validateBudget(params.budget);
+    if (validationError) {
+      return { ok: false, error: validationError };
+    }
+
+    const supabase = createServerSupabaseClient();
+    const { data, error } = await supabase
+      .from('finance_budgets')
+      .insert({
+        ...params.budget,
+        org_id: params.orgId,
+        category: params.budget.scope === 'category' ? params.budget.category?.trim() : null,
+        project_id: params.budget.scope === 'project' ? params.budget.project_id : null,
+        note: params.budget.note?.trim() || null,
+      })
+      .select('*')
+      .single();
+
+    if (error) {
+      console.error('[createBudget] Error:', error);
+      return {
+        ok: false,
+        error: error.code === '23505' ? 'A budget for this target and period already exists' : error.message,
+      };
+    }
+
+    return { ok: true, budget: data as Budget };
+  } catch (error) {
+    console.error('[createBudget] Exception:', error);
+    return { ok: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
@@ -0,0 +1,45 @@
+'use server';
+
+import { createServerSupabaseClient } from '@/server/supabase/server';
+import { validateCategoryRule } from '@/lib/finance/categoryRules';
+import type { CategoryRule, CategoryRuleInput } from '@/lib/finance/categoryRules';
+
+export interface CreateCategoryRuleParams {
+  orgId: string;
+  rule: CategoryRuleInput;
+}
+
+export async function createCategoryRule(
+  params: CreateCategoryRuleParams
+): Promise<{ ok: true; rule: CategoryRule } | { ok: false; error: string }> {
+  try {
+    console.log('[createCategoryRule] Creating:', params);
+
+    const validationError = validateCategoryRule(params.rule);
+    if (validationError) {
+      return { ok: false, error: validationError };
+    }
+
+    const supabase = createServerSupabaseClient();
+    const { data, error } = await supabase
+      .from('finance_category_rules')
+      .insert({
+        ...params.rule,
+        org_id: params.orgId,
+        counterparty_pattern: params.rule.counterparty_pattern?.trim() || null,
+        description_regex: params.rule.description_regex?.trim() || null,
+      })
+      .select('*')
+      .single();
+
+    if (error) {
+      console.error('[createCategoryRule] Error:', error);
+      return { ok: false, error: error.message };
+    }
+
+    return { ok: true, rule: data as CategoryRule };
+  } catch (error) {
+    console.error('[createCategoryRule] Exception:', error);
+    return { ok: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
@@ -0,0 +1,22 @@
+'use server';
+
+import { createServerSupabaseClient } from '@/server/supabase/server';
+
+export async function deleteBudget(budgetId: string): Promise<{ ok: boolean; error?: string }> {
+  try {
+    console.log('[deleteBudget] Deleting:', budgetId);
+
+    const supabase = createServerSupabaseClient();
+    const { error } = await supabase.from('finance_budgets').delete().eq('id', budgetId);
+
+    if (error) {
+      console.error('[deleteBudget] Error:', error);
+      return { ok: false, error: error.message };
+    }
+
+    return { ok: true };
+  } catch (error) {
+    console.error('[deleteBudget] Exception:', error);
+    return { ok: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
@@ -0,0 +1,25 @@
+'use server';
+
+import { createServerSupabaseClient } from '@/server/supabase/server';
+
+/**
+ * Delete a rule. Transactions it categorised keep their category until the rules are re-run.
+ */
+export async function deleteCategoryRule(ruleId: string): Promise<{ ok: boolean; error?: string }> {
+  try {
+    console.log('[deleteCategoryRule] Deleting:', ruleId);
+
+    const supabase = createServerSupabaseClient();
+    const { error } = await supabase.from('finance_category_rules').delete().eq('id', ruleId);
+
+    if (error) {
+      console.error('[deleteCategoryRule] Error:', error);
+      return { ok: false, error: error.message };
+    }
+
+    return { ok: true };
+  } catch (error) {
+    console.error('[deleteCategoryRule] Exception:', error);
+    return { ok: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
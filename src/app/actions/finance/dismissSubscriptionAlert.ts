@@ -0,0 +1,28 @@
+'use server';
+
+import { createServerSupabaseClient } from '@/server/supabase/server';
+
+/**
+ * Dismiss an alert for good; the same event is not raised again by later detection runs
+ */
+export async function dismissSubscriptionAlert(alertId: string): Promise<{ ok: boolean; error?: string }> {
+  try {
+    console.log('[dismissSubscriptionAlert] Dismissing:', alertId);
+
+    const supabase = createServerSupabaseClient();
+    const { error } = await supabase
+      .from('finance_subscription_alerts')
+      .update({ status: 'dismissed', snoozed_until: null, resolved_at: new Date().toISOString() })
+      .eq('id', alertId);
+
+    if (error) {
+      console.error('[dismissSubscriptionAlert] Error:', error);
+      return { ok: false, error: error.message };
+    }
+
+    return { ok: true };
+  } catch (error) {
+    console.error('[dismissSubscriptionAlert] Exception:', error);
+    return { ok: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
@@ -0,0 +1,42 @@
+'use server';
+
+import { createServerSupabaseClient } from '@/server/supabase/server';
+import type { InvoiceExtraction } from '@/lib/finance/invoices';
+
+/**
+ * Parse an imported invoice (KSeF XML, PDF or scan) and return its fields for the classification form.
+ * A document without text yet returns `textJobId` instead: wait for that extraction job, then call
+ * again passing it.
+ */
+export async function extractInvoiceData(
+  documentId: string,
+  textJobId?: string | null
+): Promise<{ ok: boolean; extraction?: InvoiceExtraction; textJobId?: string; error?: string }> {
+  try {
+    console.log('[extractInvoiceData] Extracting:', documentId);
+
+    if (!documentId) {
+      return { ok: false, error: 'documentId is required' };
+    }
+
+    const supabase = createServerSupabaseClient();
+    const { extractInvoiceData: extract } = await import('@/server/finance/documents/invoiceData');
+    const result = await extract(supabase, documentId, { textJobId });
+
+    if (result.status === 'pending') {
+      console.log('[extractInvoiceData] Waiting for text extraction:', { documentId, jobId: result.jobId });
+      return { ok: true, textJobId: result.jobId };
+    }
+
+    console.log('[extractInvoiceData] Done:', {
+      documentId,
+      source: result.extraction.source,
+      confidence: result.extraction.confidence,
+    });
+
+    return { ok: true, extraction: result.extraction };
+  } catch (error) {
+    console.error('[extractInvoiceData] Exception:', error);
+    return { ok: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
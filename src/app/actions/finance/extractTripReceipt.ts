@@ -0,0 +1,34 @@
+'use server';
+
+import { createServerSupabaseClient } from '@/server/supabase/server';
+import type { TripReceiptExtraction } from '@/server/finance/trips/receiptOcr';
+
+/**
+ * OCR an uploaded trip receipt and return the parsed fields for confirmation
+ */
+export async function extractTripReceipt(
+  evidenceId: string
+): Promise<{ ok: boolean; extraction?: TripReceiptExtraction; error?: string }> {
+  try {
+    console.log('[extractTripReceipt] Extracting:', evidenceId);
+
+    if (!evidenceId) {
+      return { ok: false, error: 'evidenceId is required' };
+    }
+
+    const supabase = createServerSupabaseClient();
+    const { extractTripReceipt: extract } = await import('@/server/finance/trips/receiptOcr');
+    const extraction = await extract(supabase, evidenceId);
+
+    console.log('[extractTripReceipt] Done:', {
+      evidenceId,
+      method: extraction.method,
+      confidence: extraction.fields.confidence,
+    });
+
+    return { ok: true, extraction };
+  } catch (error) {
+    console.error('[extractTripReceipt] Exception:', error);
+    return { ok: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
@@ -0,0 +1,33 @@
+'use server';
+
+import { createServerSupabaseClient } from '@/server/supabase/server';
+import { isValidClosePeriod } from '@/lib/finance/close';
+import type { MonthCloseStatus } from '@/server/finance/close/monthClose';
+
+export interface MonthCloseParams {
+  orgId: string;
+  /** YYYY-MM */
+  period: string;
+}
+
+/**
+ * Completeness checks and close state of one month
+ */
+export async function getMonthCloseStatus(
+  params: MonthCloseParams
+): Promise<{ ok: boolean; status?: MonthCloseStatus; error?: string }> {
+  try {
+    console.log('[getMonthCloseStatus] Checking:', params);
+
+    if (!isValidClosePeriod(params.period)) {
+      return { ok: false, error: 'Period must be a YYYY-MM month' };
+    }
+
+    const supabase = createServerSupabaseClient();
+    const { getMonthCloseStatus: getStatus } = await import('@/server/finance/close/monthClose');
+    return { ok: true, status: await getStatus(supabase, params.orgId, params.period) };
+  } catch (error) {
+    console.error('[getMonthCloseStatus] Exception:', error);
+    return { ok: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
@@ -0,0 +1,60 @@
+'use server';
+
+import { createServerSupabaseClient } from '@/server/supabase/server';
+import type { BackfillBaseAmountsResult } from '@/server/finance/fx/backfill';
+
+export type ImportFxRatesResult =
+  | {
+      ok: true;
+      format: string;
+      saved: number;
+      currencies: string[];
+      dateFrom: string;
+      dateTo: string;
+      backfill: BackfillBaseAmountsResult;
+    }
+  | {
+      ok: false;
+      step?: string;
+      error: string;
+    };
+
+/**
+ * Import an NBP rate table file (XML or CSV), then convert rows that were waiting for these rates
+ */
+export async function importFxRates(file: File): Promise<ImportFxRatesResult> {
+  try {
+    console.log('[importFxRates] Importing:', { name: file.name, size: file.size });
+
+    const { parseNbpRates } = await import('@/server/finance/fx/nbp');
+    const { saveFxRates } = await import('@/server/finance/fx/rates');
+    const { backfillBaseAmounts } = await import('@/server/finance/fx/backfill');
+
+    const parsed = parseNbpRates(new Uint8Array(await file.arrayBuffer()));
+    if (!parsed.ok) {
+      return { ok: false, step: 'parse', error: parsed.error };
+    }
+
+    const supabase = createServerSupabaseClient();
+    const saved = await saveFxRates(supabase, parsed.rates);
+    if (!saved.ok) {
+      return { ok: false, step: 'save', error: saved.error };
+    }
+
+    const dates = parsed.rates.map(r => r.rateDate).sort();
+    const backfill = await backfillBaseAmounts(supabase);
+
+    return {
+      ok: true,
+      format: parsed.format,
+      saved: saved.saved,
+      currencies: Array.from(new Set(parsed.rates.map(r => r.currency))).sort(),
+      dateFrom: dates[0],
+      dateTo: dates[dates.length - 1],
+      backfill,
+    };
+  } catch (error) {
+    console.error('[importFxRates] Exception:', error);
+    return { ok: false, step: 'import_exception', error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
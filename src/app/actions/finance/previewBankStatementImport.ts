@@ -0,0 +1,21 @@
+'use server';
+
+import type { ColumnMapping } from '@/server/finance/statements';
+import type { BankStatementPreviewResult } from '@/server/finance/processBankStatement';
+
+export interface PreviewBankStatementImportParams {
+  documentId: string;
+  mapping?: ColumnMapping | null;
+}
+
+export async function previewBankStatementImport(
+  params: PreviewBankStatementImportParams
+): Promise<BankStatementPreviewResult> {
+  console.log('[previewBankStatementImport] Preview:', {
+    documentId: params.documentId,
+    hasMapping: !!params.mapping,
+  });
+
+  const { previewBankStatementDocument } = await import('@/server/finance/processBankStatement');
+  return previewBankStatementDocument(params);
+}
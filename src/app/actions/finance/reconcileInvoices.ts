@@ -0,0 +1,23 @@
+'use server';
+
+import { createServerSupabaseClient } from '@/server/supabase/server';
+import type { ReconcileInvoicesResult } from '@/server/finance/reconciliation/reconcile';
+
+export async function reconcileInvoices(): Promise<ReconcileInvoicesResult> {
+  try {
+    console.log('[reconcileInvoices] Running reconciliation');
+
+    const supabase = createServerSupabaseClient();
+    const { reconcileInvoices: reconcile } = await import('@/server/finance/reconciliation/reconcile');
+    return reconcile(supabase);
+  } catch (error) {
+    console.error('[reconcileInvoices] Exception:', error);
+    return {
+      ok: false,
+      invoices: 0,
+      matches: 0,
+      byStatus: { unpaid: 0, partially_paid: 0, paid: 0, overpaid: 0 },
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
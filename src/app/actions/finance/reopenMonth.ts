@@ -0,0 +1,29 @@
+'use server';
+
+import { createServerSupabaseClient } from '@/server/supabase/server';
+import { isValidClosePeriod } from '@/lib/finance/close';
+import type { MonthCloseParams } from './getMonthCloseStatus';
+
+/**
+ * Reopen a closed month; edits stop being flagged until it is closed again
+ */
+export async function reopenMonth(
+  params: MonthCloseParams
+): Promise<{ ok: boolean; error?: string }> {
+  try {
+    console.log('[reopenMonth] Reopening:', params);
+
+    if (!isValidClosePeriod(params.period)) {
+      return { ok: false, error: 'Period must be a YYYY-MM month' };
+    }
+
+    const supabase = createServerSupabaseClient();
+    const { reopenMonth: reopen } = await import('@/server/finance/close/monthClose');
+    await reopen(supabase, params.orgId, params.period);
+
+    return { ok: true };
+  } catch (error) {
+    console.error('[reopenMonth] Exception:', error);
+    return { ok: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
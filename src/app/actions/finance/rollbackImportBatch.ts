@@ -0,0 +1,24 @@
+'use server';
+
+import { createServerSupabaseClient } from '@/server/supabase/server';
+import type { RollbackImportBatchResult } from '@/server/finance/importBatches';
+
+export interface RollbackImportBatchParams {
+  batchId: string;
+  rolledBackBy?: string | null;
+}
+
+export async function rollbackImportBatch(
+  params: RollbackImportBatchParams
+): Promise<RollbackImportBatchResult> {
+  try {
+    console.log('[rollbackImportBatch] Rolling back:', params);
+
+    const supabase = createServerSupabaseClient();
+    const { rollbackImportBatch: rollback } = await import('@/server/finance/importBatches');
+    return rollback(supabase, params.batchId, params.rolledBackBy);
+  } catch (error) {
+    console.error('[rollbackImportBatch] Exception:', error);
+    return { ok: false, step: 'rollback_exception', error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
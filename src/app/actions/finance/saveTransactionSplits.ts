@@ -0,0 +1,29 @@
+'use server';
+
+import { createServerSupabaseClient } from '@/server/supabase/server';
+import type { TransactionSplitInput } from '@/lib/finance/splits';
+import type { SaveTransactionSplitsResult } from '@/server/finance/splits';
+
+export interface SaveTransactionSplitsParams {
+  transactionId: string;
+  /** Empty list removes the split */
+  splits: TransactionSplitInput[];
+}
+
+export async function saveTransactionSplits(
+  params: SaveTransactionSplitsParams
+): Promise<SaveTransactionSplitsResult> {
+  try {
+    console.log('[saveTransactionSplits] Saving:', {
+      transactionId: params.transactionId,
+      lines: params.splits.length,
+    });
+
+    const supabase = createServerSupabaseClient();
+    const { saveTransactionSplits: save } = await import('@/server/finance/splits');
+    return save(supabase, params.transactionId, params.splits);
+  } catch (error) {
+    console.error('[saveTransactionSplits] Exception:', error);
+    return { ok: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
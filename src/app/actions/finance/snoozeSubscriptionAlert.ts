@@ -0,0 +1,35 @@
+'use server';
+
+import { createServerSupabaseClient } from '@/server/supabase/server';
+
+/**
+ * Hide an alert until the given date (YYYY-MM-DD)
+ */
+export async function snoozeSubscriptionAlert(
+  alertId: string,
+  until: string
+): Promise<{ ok: boolean; error?: string }> {
+  try {
+    console.log('[snoozeSubscriptionAlert] Snoozing:', alertId, until);
+
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(until)) {
+      return { ok: false, error: 'Invalid snooze date' };
+    }
+
+    const supabase = createServerSupabaseClient();
+    const { error } = await supabase
+      .from('finance_subscription_alerts')
+      .update({ status: 'snoozed', snoozed_until: until })
+      .eq('id', alertId);
+
+    if (error) {
+      console.error('[snoozeSubscriptionAlert] Error:', error);
+      return { ok: false, error: error.message };
+    }
+
+    return { ok: true };
+  } catch (error) {
+    console.error('[snoozeSubscriptionAlert] Exception:', error);
+    return { ok: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
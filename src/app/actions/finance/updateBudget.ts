@@ -0,0 +1,48 @@
+'use server';
+
+import { createServerSupabaseClient } from '@/server/supabase/server';
+import { validateBudget } from '@/lib/finance/budgets';
+import type { BudgetInput } from '@/lib/finance/budgets';
+
+export interface UpdateBudgetParams {
+  budgetId: string;
+  budget: BudgetInput;
+}
+
+export async function updateBudget(
+  params: UpdateBudgetParams
+): Promise<{ ok: boolean; error?: string }> {
+  try {
+    console.log('[updateBudget] Updating:', params);
+
+    const validationError = validateBudget(params.budget);
+    if (validationError) {
+      return { ok: false, error: validationError };
+    }
+
+    const supabase = createServerSupabaseClient();
+    const { error } = await supabase
+      .from('finance_budgets')
+      .update({
+        ...params.budget,
+        category: params.budget.scope === 'category' ? params.budget.category?.trim() : null,
+        project_id: params.budget.scope === 'project' ? params.budget.project_id : null,
+        note: params.budget.note?.trim() || null,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', params.budgetId);
+
+    if (error) {
+      console.error('[updateBudget] Error:', error);
+      return {
+        ok: false,
+        error: error.code === '23505' ? 'A budget for this target and period already exists' : error.message,
+      };
+    }
+
+    return { ok: true };
+  } catch (error) {
+    console.error('[updateBudget] Exception:', error);
+    return { ok: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
@@ -0,0 +1,44 @@
+'use server';
+
+import { createServerSupabaseClient } from '@/server/supabase/server';
+import { validateCategoryRule } from '@/lib/finance/categoryRules';
+import type { CategoryRuleInput } from '@/lib/finance/categoryRules';
+
+export interface UpdateCategoryRuleParams {
+  ruleId: string;
+  rule: CategoryRuleInput;
+}
+
+export async function updateCategoryRule(
+  params: UpdateCategoryRuleParams
+): Promise<{ ok: boolean; error?: string }> {
+  try {
+    console.log('[updateCategoryRule] Updating:', params);
+
+    const validationError = validateCategoryRule(params.rule);
+    if (validationError) {
+      return { ok: false, error: validationError };
+    }
+
+    const supabase = createServerSupabaseClient();
+    const { error } = await supabase
+      .from('finance_category_rules')
+      .update({
+        ...params.rule,
+        counterparty_pattern: params.rule.counterparty_pattern?.trim() || null,
+        description_regex: params.rule.description_regex?.trim() || null,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', params.ruleId);
+
+    if (error) {
+      console.error('[updateCategoryRule] Error:', error);
+      return { ok: false, error: error.message };
+    }
+
+    return { ok: true };
+  } catch (error) {
+    console.error('[updateCategoryRule] Exception:', error);
+    return { ok: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
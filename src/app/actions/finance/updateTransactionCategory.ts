@@ -23,6 +23,9 @@ export async function updateTransactionCategory(
       .update({
         category: params.category,
         subcategory: params.subcategory || null,
+        // Manual corrections win over rules, which skip manual categories from now on
+        category_source: 'manual',
+        category_rule_id: null,
       })
       .eq('id', params.transactionId)
       .select('id, category')
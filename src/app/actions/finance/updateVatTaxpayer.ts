@@ -0,0 +1,50 @@
+'use server';
+
+import { createServerSupabaseClient } from '@/server/supabase/server';
+import { validateJpkTaxpayer } from '@/lib/finance/vat/jpk';
+import { parseTaxId } from '@/lib/finance/vat/nip';
+
+export interface UpdateVatTaxpayerParams {
+  orgId: string;
+  nip: string;
+  taxOfficeCode: string;
+  email: string;
+}
+
+/**
+ * Save the organisation's taxpayer data used in the JPK_V7M header
+ */
+export async function updateVatTaxpayer(
+  params: UpdateVatTaxpayerParams
+): Promise<{ ok: boolean; error?: string }> {
+  try {
+    console.log('[updateVatTaxpayer] Updating:', params);
+
+    // The full name is the organisation name, which is edited elsewhere
+    const errors = validateJpkTaxpayer({ ...params, fullName: '-' });
+    if (errors.length > 0) {
+      return { ok: false, error: errors.join('; ') };
+    }
+
+    const supabase = createServerSupabaseClient();
+    const { error } = await supabase
+      .from('organisations')
+      .update({
+        nip: parseTaxId(params.nip).number,
+        tax_office_code: params.taxOfficeCode.trim(),
+        tax_email: params.email.trim(),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', params.orgId);
+
+    if (error) {
+      console.error('[updateVatTaxpayer] Error:', error);
+      return { ok: false, error: error.message };
+    }
+
+    return { ok: true };
+  } catch (error) {
+    console.error('[updateVatTaxpayer] Exception:', error);
+    return { ok: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
@@ -1,54 +1,34 @@
-import { NextRequest, NextResponse } from 'next/server'
+import { NextRequest, NextResponse, after } from 'next/server'
 import { supabase } from '../../../../lib/supabase'
+import { enqueueTextExtraction, runTextExtractionJobs } from '@/server/documents/textExtraction'
+
+// The extraction (OCR of scanned pages) runs after the response, within this limit
+export const maxDuration = 300
 
 export async function POST(request: NextRequest) {
   try {
-    const { documentId, storagePath } = await request.json()
+    // storagePath is still sent by older clients; the job reads the contract's current file
+    const { documentId } = await request.json()
 
-    if (!documentId || !storagePath) {
+    if (!documentId) {
       return NextResponse.json(
-        { error: 'documentId and storagePath are required' },
+        { error: 'documentId is required' },
         { status: 400 }
       )
     }
 
-    // Download file from Storage (use the same bucket as other documents)
-    const bucket = process.env.NEXT_PUBLIC_STORAGE_BUCKET || 'mb-cockpit'
-    const { data: fileData, error: downloadError } = await supabase.storage
-      .from(bucket)
-      .download(storagePath)
-
-    if (downloadError || !fileData) {
-      console.error('Error downloading file:', downloadError)
-      return NextResponse.json(
-        { error: 'Failed to download file from storage' },
-        { status: 500 }
-      )
-    }
-
-    // Convert Blob to Buffer
-    const arrayBuffer = await fileData.arrayBuffer()
-    const buffer = Buffer.from(arrayBuffer)
+    // Parsing (and OCR of scanned contracts) is a background job: large files would time out here
+    const job = await enqueueTextExtraction(supabase, 'contract', documentId)
 
-    // Parse PDF (dynamic import to avoid build issues)
-    const pdfParse = (await import('pdf-parse')).default
-    const parsed = await pdfParse(buffer)
+    after(async () => {
+      try {
+        await runTextExtractionJobs(supabase, { jobId: job.id })
+      } catch (runError) {
+        console.error('Error running text extraction job:', runError)
+      }
+    })
 
-    // Update document with parsed text
-    const { error: updateError } = await supabase
-      .from('organisation_documents')
-      .update({ parsed_text: parsed.text })
-      .eq('id', documentId)
-
-    if (updateError) {
-      console.error('Error updating document:', updateError)
-      return NextResponse.json(
-        { error: 'Failed to update document with parsed text' },
-        { status: 500 }
-      )
-    }
-
-    return NextResponse.json({ success: true, textLength: parsed.text.length })
+    return NextResponse.json({ success: true, jobId: job.id, status: job.status }, { status: 202 })
   } catch (error) {
     console.error('Error parsing PDF:', error)
     return NextResponse.json(
@@ -57,4 +37,3 @@ export async function POST(request: NextRequest) {
     )
   }
 }
-
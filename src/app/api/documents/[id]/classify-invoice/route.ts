@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { updateDocument } from '@/lib/db/documents'
 import { supabase } from '@/lib/supabase'
+import { validateVatFields } from '@/lib/finance/vat/register'
+import { loadFxConverter } from '@/server/finance/fx/rates'
 
 export async function POST(
   request: NextRequest,
@@ -8,7 +10,18 @@ export async function POST(
 ) {
   try {
     const { id: documentId } = await params
-    const { invoice_type, amount_original, currency, invoice_date } = await request.json()
+    const {
+      invoice_type,
+      amount_original,
+      currency,
+      invoice_date,
+      invoice_number,
+      amount_net,
+      vat_rate,
+      vat_amount,
+      counterparty_nip,
+      counterparty_name,
+    } = await request.json()
     
     if (!documentId) {
       return NextResponse.json(
@@ -38,6 +51,24 @@ export async function POST(
       )
     }
     
+    // VAT register fields are optional, but when a rate is given the amounts and NIP must add up
+    const hasVat = vat_rate !== undefined && vat_rate !== null && vat_rate !== ''
+    if (hasVat) {
+      const vatError = validateVatFields({
+        amount_net: amount_net !== undefined && amount_net !== null ? parseFloat(amount_net.toString()) : null,
+        vat_rate,
+        vat_amount: vat_amount !== undefined && vat_amount !== null ? parseFloat(vat_amount.toString()) : null,
+        counterparty_nip: counterparty_nip || null,
+        gross: parseFloat(amount_original.toString()),
+      })
+      if (vatError) {
+        return NextResponse.json(
+          { error: vatError },
+          { status: 400 }
+        )
+      }
+    }
+    
     // Get existing document to check for invoice_date or source_gmail_message_id
     const { data: existingDoc } = await supabase
       .from('documents')
@@ -89,17 +120,36 @@ export async function POST(
       }
     }
     
-    // Update document
+    // Convert with the last NBP table before the invoice date; without a rate for it the base
+    // amount stays empty until the FX backfill runs after the rates are imported
     const amountOriginalNum = parseFloat(amount_original.toString())
+    const fx = await loadFxConverter(supabase, {
+      currencies: [currency],
+      dateFrom: final_invoice_date,
+      dateTo: final_invoice_date,
+    })
+    const conversion = fx.convert(amountOriginalNum, currency, final_invoice_date, { strictlyBefore: true })
+
+    // Update document
     const updated = await updateDocument(documentId, {
       invoice_type,
       amount_original: amountOriginalNum,
       currency,
-      amount_base: amountOriginalNum, // For now 1:1 with original
-      base_currency: 'PLN',
+      amount_base: conversion?.amountBase ?? null,
+      base_currency: conversion?.baseCurrency ?? null,
+      fx_rate: conversion?.fxRate ?? null,
+      fx_rate_date: conversion?.fxRateDate ?? null,
       invoice_date: final_invoice_date,
       invoice_year,
-      invoice_month
+      invoice_month,
+      ...(invoice_number ? { invoice_number: invoice_number.toString().trim() } : {}),
+      ...(hasVat ? {
+        amount_net: parseFloat(amount_net.toString()),
+        vat_rate,
+        vat_amount: parseFloat(vat_amount.toString()),
+        counterparty_nip: counterparty_nip ? counterparty_nip.toString().replace(/[\s-]/g, '').toUpperCase() : null,
+        counterparty_name: counterparty_name ? counterparty_name.toString().trim() : null,
+      } : {})
     })
     
     if (!updated) {
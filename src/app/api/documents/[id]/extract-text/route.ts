@@ -1,8 +1,15 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextRequest, NextResponse, after } from 'next/server';
 import { supabase } from '@/lib/supabase';
-import * as documentsDb from '@/lib/db/documents';
-import pdf from 'pdf-parse';
+import { getLatestTextJob } from '@/lib/db/document-text-jobs';
+import { enqueueTextExtraction, runTextExtractionJobs } from '@/server/documents/textExtraction';
 
+// The extraction (OCR of scanned pages) runs after the response, within this limit
+export const maxDuration = 300;
+
+/**
+ * Queue text extraction of a document: the PDF text layer, OCR for scanned pages and images.
+ * Responds 202 with the job; the text is saved to full_text when the job is done.
+ */
 export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -10,95 +17,51 @@ export async function POST(
   try {
     const { id } = await params;
 
-    // Get document from database
-    const documents = await documentsDb.getDocuments();
-    const document = documents.find(d => d.id === id);
+    const { data: document, error } = await supabase
+      .from('documents')
+      .select('id')
+      .eq('id', id)
+      .maybeSingle();
 
-    if (!document) {
+    if (error || !document) {
       return NextResponse.json(
         { error: 'Document not found' },
         { status: 404 }
       );
     }
 
-    // Check if file is PDF
-    if (document.file_type !== 'application/pdf' && !document.file_url.toLowerCase().endsWith('.pdf')) {
-      return NextResponse.json(
-        { error: 'Only PDF files are supported for text extraction' },
-        { status: 400 }
-      );
-    }
+    const job = await enqueueTextExtraction(supabase, 'document', id);
 
-    // Download file from URL
-    let fileBuffer: Buffer;
-    
-    try {
-      // Try to fetch from URL
-      const response = await fetch(document.file_url);
-      if (!response.ok) {
-        throw new Error(`Failed to fetch file: ${response.statusText}`);
-      }
-      const arrayBuffer = await response.arrayBuffer();
-      fileBuffer = Buffer.from(arrayBuffer);
-    } catch (error: any) {
-      // If URL fetch fails, try Supabase Storage
+    after(async () => {
       try {
-        // Extract path from URL if it's a Supabase Storage URL
-        const url = new URL(document.file_url);
-        const pathParts = url.pathname.split('/');
-        const bucket = pathParts[1];
-        const filePath = pathParts.slice(2).join('/');
-
-        const { data, error: storageError } = await supabase.storage
-          .from(bucket)
-          .download(filePath);
-
-        if (storageError || !data) {
-          throw new Error(storageError?.message || 'Failed to download from storage');
-        }
-
-        const arrayBuffer = await data.arrayBuffer();
-        fileBuffer = Buffer.from(arrayBuffer);
-      } catch (storageError: any) {
-        return NextResponse.json(
-          { error: `Failed to download file: ${storageError.message}` },
-          { status: 500 }
-        );
+        await runTextExtractionJobs(supabase, { jobId: job.id });
+      } catch (runError) {
+        console.error('Error running text extraction job:', runError);
       }
-    }
-
-    // Extract text from PDF
-    const pdfData = await pdf(fileBuffer);
-    const fullText = pdfData.text;
-
-    if (!fullText || fullText.trim().length === 0) {
-      return NextResponse.json(
-        { error: 'No text found in PDF. The file might be a scanned image and requires OCR.' },
-        { status: 400 }
-      );
-    }
-
-    // Update document with extracted text
-    const updated = await documentsDb.updateDocument(id, { full_text: fullText });
-
-    if (!updated) {
-      return NextResponse.json(
-        { error: 'Failed to update document' },
-        { status: 500 }
-      );
-    }
-
-    return NextResponse.json({
-      success: true,
-      full_text: fullText,
-      textLength: fullText.length,
     });
-  } catch (error: any) {
-    console.error('Error extracting text from PDF:', error);
+
     return NextResponse.json(
-      { error: 'Failed to extract text', details: error.message },
+      { success: true, jobId: job.id, status: job.status },
+      { status: 202 }
+    );
+  } catch (error) {
+    console.error('Error queueing text extraction:', error);
+    return NextResponse.json(
+      { error: 'Failed to extract text', details: error instanceof Error ? error.message : 'Unknown error' },
       { status: 500 }
     );
   }
 }
 
+/**
+ * Status of the document's latest text extraction job
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const job = await getLatestTextJob('document', id);
+
+  return NextResponse.json({ job });
+}
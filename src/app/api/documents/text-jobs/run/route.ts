@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabase } from '@/lib/supabase';
+import { runTextExtractionJobs } from '@/server/documents/textExtraction';
+
+export const maxDuration = 300;
+
+/**
+ * Job worker endpoint for document text extraction
+ * POST /api/documents/text-jobs/run
+ *
+ * Jobs normally run right after they are queued; this should be called by a cron job
+ * to pick up retries and jobs whose request ended before they ran
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const serviceRoleKey = request.headers.get('x-service-role-key');
+    const expectedKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+    if (expectedKey && serviceRoleKey !== expectedKey) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const limit = parseInt(process.env.TEXT_EXTRACTION_MAX_JOBS_PER_RUN || '5', 10);
+    const results = await runTextExtractionJobs(supabase, { limit });
+
+    return NextResponse.json({
+      success: true,
+      ...results,
+    });
+  } catch (error) {
+    console.error('Error in text extraction worker:', error);
+    return NextResponse.json(
+      { error: 'Job worker failed', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
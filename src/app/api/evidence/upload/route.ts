@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { supabase } from '@/lib/supabase';
+import { storeBlob, type StoredBlob } from '@/lib/fileBlobs';
 import * as evidenceDb from '@/lib/db/evidence';
 
 const EVIDENCE_BUCKET = 'evidence';
@@ -53,29 +54,29 @@ export async function POST(request: NextRequest) {
     const sanitizedFileName = file.name.replace(/[^a-zA-Z0-9.-]/g, '_');
     const storagePath = `org/${orgId}/projects/${projectId}/evidence/${year}/${month}/${evidence.id}-${sanitizedFileName}`;
 
-    // Upload to Supabase Storage
-    const { data: uploadData, error: uploadError } = await supabase.storage
-      .from(EVIDENCE_BUCKET)
-      .upload(storagePath, file, {
+    // Upload to Supabase Storage; an invoice already stored as a document is linked, not copied
+    let stored: StoredBlob;
+    try {
+      stored = await storeBlob(supabase, {
+        data: await file.arrayBuffer(),
+        bucket: EVIDENCE_BUCKET,
+        path: storagePath,
         contentType: file.type || 'application/octet-stream',
-        cacheControl: '3600',
-        upsert: false,
       });
-
-    if (uploadError || !uploadData) {
+    } catch (uploadError) {
       // Clean up evidence record if upload fails
       await evidenceDb.deleteEvidence(evidence.id);
       console.error('Error uploading to Supabase Storage:', uploadError);
       return NextResponse.json(
-        { error: uploadError?.message || 'Failed to upload file' },
+        { error: uploadError instanceof Error ? uploadError.message : 'Failed to upload file' },
         { status: 500 }
       );
     }
 
-    // Update evidence record with storage path
+    // Update evidence record with storage location
     const { error: updateError } = await supabase
       .from('evidence')
-      .update({ storage_path: storagePath })
+      .update({ storage_bucket: stored.bucket, storage_path: stored.path })
       .eq('id', evidence.id);
 
     if (updateError) {
@@ -99,8 +100,10 @@ export async function POST(request: NextRequest) {
       success: true,
       evidence: {
         ...evidence,
-        storage_path: storagePath,
+        storage_bucket: stored.bucket,
+        storage_path: stored.path,
       },
+      reused: stored.reused,
     });
   } catch (error: any) {
     console.error('Error in evidence upload:', error);
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAgeingReport } from '@/lib/finance/queries/getAgeingReport';
+import { ageingReportToCsv } from '@/lib/finance/ageing';
+
+/**
+ * Export open receivables and payables with their ageing bucket as CSV
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const asOf = request.nextUrl.searchParams.get('asOf');
+    const orgId = request.nextUrl.searchParams.get('orgId');
+    if (asOf && !/^\d{4}-\d{2}-\d{2}$/.test(asOf)) {
+      return NextResponse.json(
+        { error: 'asOf must be a YYYY-MM-DD date' },
+        { status: 400 }
+      );
+    }
+
+    const report = await getAgeingReport({ orgId, asOf });
+    const csv = ageingReportToCsv(report);
+
+    return new NextResponse(csv, {
+      headers: {
+        'Content-Type': 'text/csv',
+        'Content-Disposition': `attachment; filename="ageing-${report.asOf}.csv"`,
+      },
+    });
+  } catch (error) {
+    console.error('Error exporting ageing CSV:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to export CSV' },
+      { status: 500 }
+    );
+  }
+}
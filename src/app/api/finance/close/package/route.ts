@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabaseClient } from '@/server/supabase/server';
+import { isValidClosePeriod } from '@/lib/finance/close';
+
+/**
+ * Download the month-end close package (source files, index and mappings) as a ZIP
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const orgId = searchParams.get('orgId');
+    const period = searchParams.get('period');
+
+    if (!orgId) {
+      return NextResponse.json({ error: 'Missing orgId' }, { status: 400 });
+    }
+    if (!isValidClosePeriod(period)) {
+      return NextResponse.json({ error: 'period must be a YYYY-MM month' }, { status: 400 });
+    }
+
+    const supabase = createServerSupabaseClient();
+    const { buildClosePackage } = await import('@/server/finance/close/monthClose');
+    const pkg = await buildClosePackage(supabase, orgId, period);
+
+    return new NextResponse(new Uint8Array(pkg.zip), {
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="${pkg.fileName}"`,
+        'X-Close-Files': String(pkg.files),
+        'X-Close-Missing': String(pkg.missing),
+      },
+    });
+  } catch (error) {
+    console.error('Error building close package:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to build close package' },
+      { status: 500 }
+    );
+  }
+}
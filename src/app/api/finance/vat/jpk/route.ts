@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getVatRegister } from '@/lib/finance/queries/getVatRegister';
+import { buildJpkV7mXml, validateJpkTaxpayer } from '@/lib/finance/vat/jpk';
+import type { JpkTaxpayer } from '@/lib/finance/vat/jpk';
+
+/**
+ * Export the VAT register of one month as a JPK_V7M XML file.
+ * Refuses while the taxpayer data is incomplete or any invoice of the month has errors.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const orgId = searchParams.get('orgId');
+    const year = Number(searchParams.get('year'));
+    const month = Number(searchParams.get('month'));
+    const carriedForward = Number(searchParams.get('carriedForward') || 0);
+    const purpose = searchParams.get('purpose') === '2' ? 2 : 1;
+
+    if (!orgId) {
+      return NextResponse.json({ error: 'Missing orgId' }, { status: 400 });
+    }
+    if (!Number.isInteger(year) || year < 2000 || !Number.isInteger(month) || month < 1 || month > 12) {
+      return NextResponse.json({ error: 'year and month are required' }, { status: 400 });
+    }
+    if (!Number.isFinite(carriedForward) || carriedForward < 0) {
+      return NextResponse.json({ error: 'carriedForward must be a non-negative amount' }, { status: 400 });
+    }
+
+    const { register, taxpayer } = await getVatRegister({ orgId, year, month });
+
+    const taxpayerErrors = validateJpkTaxpayer(taxpayer);
+    const invoiceErrors = register.issues.filter(issue => issue.severity === 'error');
+    if (taxpayerErrors.length > 0 || invoiceErrors.length > 0) {
+      return NextResponse.json(
+        {
+          error: 'VAT register is incomplete',
+          details: [...taxpayerErrors, ...invoiceErrors.map(issue => `${issue.name}: ${issue.message}`)],
+        },
+        { status: 422 }
+      );
+    }
+
+    const xml = buildJpkV7mXml(register, taxpayer as JpkTaxpayer, { carriedForward, purpose });
+    const period = `${year}-${String(month).padStart(2, '0')}`;
+
+    return new NextResponse(xml, {
+      headers: {
+        'Content-Type': 'application/xml; charset=utf-8',
+        'Content-Disposition': `attachment; filename="JPK_V7M-${period}.xml"`,
+      },
+    });
+  } catch (error) {
+    console.error('Error exporting JPK_V7M:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to export JPK' },
+      { status: 500 }
+    );
+  }
+}
@@ -58,9 +58,9 @@ export async function POST(request: NextRequest) {
     
     console.log(`📋 Found ${existingAttachmentIds.size} attachments already imported`)
     
-    // Filter to only unattached attachments
+    // Filter to only unattached attachments (linked_document_id: same file already stored as a document)
     const toImport = unattachedAttachments.filter(
-      a => !existingAttachmentIds.has(a.gmail_attachment_id)
+      a => !existingAttachmentIds.has(a.gmail_attachment_id) && !a.linked_document_id
     )
     
     console.log(`🔄 ${toImport.length} attachments ready to import`)
@@ -97,6 +97,7 @@ export async function POST(request: NextRequest) {
     
     // Import each attachment
     const createdDocuments = []
+    const linkedDocuments = []
     const errors = []
     
     console.log(`📦 Starting import of ${toImport.length} attachments`)
@@ -121,7 +122,10 @@ export async function POST(request: NextRequest) {
           message
         )
         
-        if (result.document) {
+        if (result.document && result.existing) {
+          linkedDocuments.push(result.document)
+          console.log(`🔗 Already stored as document: ${attachment.file_name || 'unknown'}`)
+        } else if (result.document) {
           createdDocuments.push(result.document)
           console.log(`✅ Imported: ${attachment.file_name || 'unknown'}`)
         } else {
@@ -144,11 +148,12 @@ export async function POST(request: NextRequest) {
       }
     }
     
-    console.log(`📊 Import complete: ${createdDocuments.length} succeeded, ${errors.length} failed`)
+    console.log(`📊 Import complete: ${createdDocuments.length} succeeded, ${linkedDocuments.length} already stored, ${errors.length} failed`)
     
     return NextResponse.json({
       success: true,
       documentsCreated: createdDocuments.length,
+      documentsLinked: linkedDocuments.length,
       documents: createdDocuments,
       errors: errors.length > 0 ? errors : undefined,
       totalProcessed: toImport.length
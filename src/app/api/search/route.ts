@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabaseClient } from '@/server/supabase/server';
+import { isUuid } from '@/server/validators/isUuid';
+import { isSearchEntityType } from '@/lib/search';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Search documents, e-mails, notes and CRM records.
+ * Query params: q, types (comma separated), organisationId, from, to (yyyy-MM-dd), limit
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const query = searchParams.get('q') || '';
+    const types = (searchParams.get('types') || '').split(',').filter(Boolean);
+    const organisationId = searchParams.get('organisationId');
+    const dateFrom = searchParams.get('from');
+    const dateTo = searchParams.get('to');
+    const limit = parseInt(searchParams.get('limit') || '', 10);
+
+    const unknownType = types.find(type => !isSearchEntityType(type));
+    if (unknownType) {
+      return NextResponse.json({ error: `Unknown type: ${unknownType}` }, { status: 400 });
+    }
+    if (organisationId && !isUuid(organisationId)) {
+      return NextResponse.json({ error: 'Invalid organisationId' }, { status: 400 });
+    }
+    if ((dateFrom && !DATE_PATTERN.test(dateFrom)) || (dateTo && !DATE_PATTERN.test(dateTo))) {
+      return NextResponse.json({ error: 'from and to must be yyyy-MM-dd dates' }, { status: 400 });
+    }
+
+    const supabase = createServerSupabaseClient();
+    const { searchAll } = await import('@/server/search/searchAll');
+    const results = await searchAll(supabase, {
+      query,
+      types: types.filter(isSearchEntityType),
+      organisationId,
+      dateFrom,
+      dateTo,
+      limit: isNaN(limit) ? undefined : limit,
+    });
+
+    return NextResponse.json({ results });
+  } catch (error) {
+    console.error('Error searching:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Search failed' },
+      { status: 500 }
+    );
+  }
+}
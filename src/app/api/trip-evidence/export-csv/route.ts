@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import * as tripsDb from '@/features/finance-trips/db/trips';
 import * as tripItemsDb from '@/features/finance-trips/db/trip-items';
 import * as tripEvidenceDb from '@/features/finance-trips/db/trip-evidence';
+import { computeTripAllowances } from '@/lib/trips/allowances';
 
 /**
  * Export trip as CSV
@@ -50,6 +51,7 @@ export async function GET(request: NextRequest) {
       'reimbursable',
       'reimbursement_amount',
       'evidence_count',
+      'type',
     ];
 
     const rows = items.map(item => {
@@ -69,9 +71,29 @@ export async function GET(request: NextRequest) {
         isReimbursable ? 'true' : 'false',
         reimbursementAmount.toString(),
         evidenceCount.toString(),
+        'expense',
       ];
     });
 
+    // Per diem, lump sums and mileage: always reimbursable, no receipt required
+    const allowances = computeTripAllowances(trip);
+    allowances.lines.forEach(line => {
+      rows.push([
+        '',
+        line.label,
+        line.detail,
+        line.kind,
+        line.amount.toString(),
+        line.currency,
+        'false',
+        'false',
+        'true',
+        line.amount.toString(),
+        '',
+        line.kind,
+      ]);
+    });
+
     // Escape CSV values (handle commas and quotes)
     const escapeCsvValue = (value: string) => {
       if (value.includes(',') || value.includes('"') || value.includes('\n')) {
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { supabase } from '@/lib/supabase';
+import { STORAGE_BUCKETS } from '@/lib/fileBlobs';
 
 const EVIDENCE_BUCKET = 'trip-evidence';
 const SIGNED_URL_EXPIRY = 600; // 10 minutes
@@ -11,6 +12,8 @@ export async function GET(request: NextRequest) {
   try {
     const searchParams = request.nextUrl.searchParams;
     const storagePath = searchParams.get('path');
+    // Files reused from other uploads may live in another bucket
+    const bucket = searchParams.get('bucket') || EVIDENCE_BUCKET;
 
     if (!storagePath) {
       return NextResponse.json(
@@ -19,8 +22,15 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    if (!STORAGE_BUCKETS.includes(bucket)) {
+      return NextResponse.json(
+        { error: 'Unknown bucket' },
+        { status: 400 }
+      );
+    }
+
     const { data, error } = await supabase.storage
-      .from(EVIDENCE_BUCKET)
+      .from(bucket)
       .createSignedUrl(storagePath, SIGNED_URL_EXPIRY);
 
     if (error) {
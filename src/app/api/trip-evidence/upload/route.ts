@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { supabase } from '@/lib/supabase';
+import { storeBlob, type StoredBlob } from '@/lib/fileBlobs';
 import * as tripEvidenceDb from '@/features/finance-trips/db/trip-evidence';
+import { isTripLocked } from '@/lib/trips/workflow';
 
 const EVIDENCE_BUCKET = 'trip-evidence';
 
@@ -29,6 +31,27 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Submitted and approved trips are locked; checked before anything is stored
+    const { data: trip, error: tripError } = await supabase
+      .from('finance_trips')
+      .select('status')
+      .eq('id', tripId)
+      .maybeSingle();
+
+    if (tripError || !trip) {
+      return NextResponse.json(
+        { error: tripError?.message || 'Trip not found' },
+        { status: tripError ? 500 : 404 }
+      );
+    }
+
+    if (isTripLocked(trip.status)) {
+      return NextResponse.json(
+        { error: `Trip is ${trip.status} and locked for changes` },
+        { status: 409 }
+      );
+    }
+
     // Create evidence record first to get ID
     const evidence = await tripEvidenceDb.createTripEvidence({
       org_id: orgId,
@@ -56,29 +79,30 @@ export async function POST(request: NextRequest) {
     const sanitizedFileName = file.name.replace(/[^a-zA-Z0-9.-]/g, '_');
     const storagePath = `org/${orgId}/trips/${tripId}/${year}/${month}/${evidence.id}-${sanitizedFileName}`;
 
-    // Upload to Supabase Storage
-    const { data: uploadData, error: uploadError } = await supabase.storage
-      .from(EVIDENCE_BUCKET)
-      .upload(storagePath, file, {
+    // Upload to Supabase Storage; a receipt already stored (Gmail import, another trip item)
+    // keeps its existing file and bucket
+    let stored: StoredBlob;
+    try {
+      stored = await storeBlob(supabase, {
+        data: await file.arrayBuffer(),
+        bucket: EVIDENCE_BUCKET,
+        path: storagePath,
         contentType: file.type || 'application/octet-stream',
-        cacheControl: '3600',
-        upsert: false,
       });
-
-    if (uploadError || !uploadData) {
+    } catch (uploadError) {
       // Clean up evidence record if upload fails
       await tripEvidenceDb.deleteTripEvidence(evidence.id);
       console.error('Error uploading to Supabase Storage:', uploadError);
       return NextResponse.json(
-        { error: uploadError?.message || 'Failed to upload file' },
+        { error: uploadError instanceof Error ? uploadError.message : 'Failed to upload file' },
         { status: 500 }
       );
     }
 
-    // Update evidence record with storage path
+    // Update evidence record with storage location
     const { error: updateError } = await supabase
       .from('finance_trip_evidence')
-      .update({ storage_path: storagePath })
+      .update({ storage_bucket: stored.bucket, storage_path: stored.path })
       .eq('id', evidence.id);
 
     if (updateError) {
@@ -90,8 +114,10 @@ export async function POST(request: NextRequest) {
       success: true,
       evidence: {
         ...evidence,
-        storage_path: storagePath,
+        storage_bucket: stored.bucket,
+        storage_path: stored.path,
       },
+      reused: stored.reused,
     });
   } catch (error: any) {
     console.error('Error in trip evidence upload:', error);
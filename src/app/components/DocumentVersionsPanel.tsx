@@ -0,0 +1,278 @@
+"use client";
+
+import { useState, useEffect, useRef } from "react";
+import { format } from "date-fns";
+import * as versionsDb from "../../lib/db/document-versions";
+import * as storage from "../../lib/storage";
+import { supabase } from "../../lib/supabase";
+import type { DocumentVersion, VersionedDocumentKind } from "../../lib/db/document-versions";
+import { addDocumentVersion } from "../actions/documentVersions";
+import TextDiffView from "./TextDiffView";
+
+interface DocumentVersionsPanelProps {
+  kind: VersionedDocumentKind;
+  parentId: string;
+  /** Called after a new version was uploaded and its text extraction was started */
+  onVersionAdded?: (version: DocumentVersion) => void;
+  /** Called whenever the list of versions is (re)loaded */
+  onVersionsLoaded?: (versions: DocumentVersion[]) => void;
+}
+
+function formatFileSize(bytes: number | null) {
+  if (!bytes) return "";
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export default function DocumentVersionsPanel({
+  kind,
+  parentId,
+  onVersionAdded,
+  onVersionsLoaded,
+}: DocumentVersionsPanelProps) {
+  const [versions, setVersions] = useState<DocumentVersion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [uploading, setUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [newFile, setNewFile] = useState<File | null>(null);
+  const [note, setNote] = useState("");
+  const [fromVersionId, setFromVersionId] = useState("");
+  const [toVersionId, setToVersionId] = useState("");
+  const [showDiff, setShowDiff] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    loadVersions();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [kind, parentId]);
+
+  const loadVersions = async () => {
+    setLoading(true);
+    const data = await versionsDb.getDocumentVersions(kind, parentId);
+    setVersions(data);
+    // Compare the two newest versions by default
+    setToVersionId(data[0]?.id || "");
+    setFromVersionId(data[1]?.id || "");
+    setLoading(false);
+    onVersionsLoaded?.(data);
+  };
+
+  const getVersionUrl = (version: DocumentVersion) => {
+    if (version.file_url) return version.file_url;
+    if (!version.storage_path) return null;
+    const bucket = process.env.NEXT_PUBLIC_STORAGE_BUCKET || "mb-cockpit";
+    const { data } = supabase.storage.from(bucket).getPublicUrl(version.storage_path);
+    return data.publicUrl;
+  };
+
+  const handleUpload = async () => {
+    if (!newFile) return;
+
+    if (kind === "contract" && !newFile.name.toLowerCase().endsWith(".pdf")) {
+      setError("Please upload a PDF file");
+      return;
+    }
+
+    setUploading(true);
+    setError(null);
+    try {
+      // A new file in storage - the previous versions' files stay where they are
+      const uploadResult = await storage.uploadFile(
+        newFile,
+        kind === "contract" ? "organisation-contracts" : "documents"
+      );
+      if (uploadResult.error) {
+        setError(`Upload failed: ${uploadResult.error}`);
+        return;
+      }
+
+      const uploadedBy = localStorage.getItem("userEmail") || localStorage.getItem("gmail_user_email");
+      const result = await addDocumentVersion({
+        kind,
+        parentId,
+        storagePath: uploadResult.path,
+        fileUrl: uploadResult.url,
+        fileName: newFile.name,
+        mimeType: newFile.type || null,
+        fileType: storage.getFileType(newFile),
+        fileSize: newFile.size,
+        note,
+        uploadedBy,
+      });
+
+      if (!result.ok || !result.version) {
+        setError(result.error || "Failed to save version");
+        return;
+      }
+
+      // Extract the text of the new file; the database copies it into the version
+      try {
+        const response =
+          kind === "contract"
+            ? await fetch("/api/contracts/parse", {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ documentId: parentId, storagePath: uploadResult.path }),
+              })
+            : ["pdf", "image"].includes(storage.getFileType(newFile))
+            ? await fetch(`/api/documents/${parentId}/extract-text`, { method: "POST" })
+            : null;
+        if (response && !response.ok) {
+          console.error("Text extraction failed, but the version was saved");
+        }
+      } catch (extractError) {
+        console.error("Error triggering text extraction:", extractError);
+      }
+
+      setNewFile(null);
+      setNote("");
+      if (fileInputRef.current) fileInputRef.current.value = "";
+      await loadVersions();
+      onVersionAdded?.(result.version);
+    } catch (err) {
+      console.error("Error uploading version:", err);
+      setError(`Upload failed: ${err instanceof Error ? err.message : "Unknown error"}`);
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const fromVersion = versions.find((v) => v.id === fromVersionId);
+  const toVersion = versions.find((v) => v.id === toVersionId);
+  const versionLabel = (v: DocumentVersion) =>
+    `v${v.version_number} – ${format(new Date(v.uploaded_at), "dd.MM.yyyy HH:mm")}`;
+
+  return (
+    <div className="space-y-4">
+      {/* Versions list */}
+      <div>
+        <h4 className="text-xs font-semibold text-white mb-2">Versions</h4>
+        {loading ? (
+          <div className="text-neutral-500 text-xs">Loading versions...</div>
+        ) : versions.length === 0 ? (
+          <div className="text-neutral-500 text-xs">No versions recorded yet</div>
+        ) : (
+          <div className="space-y-1">
+            {versions.map((version, idx) => {
+              const url = getVersionUrl(version);
+              return (
+                <div
+                  key={version.id}
+                  className="flex items-center gap-3 px-2 py-1.5 rounded border border-neutral-800 bg-neutral-950/60 text-xs"
+                >
+                  <span className="font-mono text-neutral-200 w-8">v{version.version_number}</span>
+                  {idx === 0 && (
+                    <span className="text-[9px] px-1 py-0.5 rounded bg-blue-900/40 text-blue-200 border border-blue-700/60">
+                      CURRENT
+                    </span>
+                  )}
+                  <span className="flex-1 min-w-0">
+                    <span className="block truncate text-neutral-200">{version.file_name || "Untitled"}</span>
+                    {version.note && (
+                      <span className="block truncate text-[11px] text-neutral-500">{version.note}</span>
+                    )}
+                  </span>
+                  <span className="text-neutral-500 whitespace-nowrap">{formatFileSize(version.file_size)}</span>
+                  <span className="text-neutral-400 whitespace-nowrap">{version.uploaded_by || "unknown"}</span>
+                  <span className="text-neutral-500 whitespace-nowrap">
+                    {format(new Date(version.uploaded_at), "dd.MM.yyyy HH:mm")}
+                  </span>
+                  {url && (
+                    <a
+                      href={url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-blue-400 hover:text-blue-300"
+                      title="Open this version"
+                    >
+                      👁️
+                    </a>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      {/* Upload new version */}
+      <div className="p-3 rounded border border-neutral-800 bg-neutral-950/40 space-y-2">
+        <h4 className="text-xs font-semibold text-white">Upload new version</h4>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={kind === "contract" ? ".pdf" : undefined}
+          onChange={(e) => setNewFile(e.target.files?.[0] || null)}
+          className="block w-full text-xs text-neutral-300 file:mr-3 file:px-3 file:py-1 file:rounded file:border-0 file:bg-neutral-800 file:text-neutral-200 hover:file:bg-neutral-700"
+          disabled={uploading}
+        />
+        <input
+          type="text"
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          placeholder="What changed? (optional)"
+          className="w-full px-3 py-1.5 bg-neutral-800 border border-neutral-700 rounded text-white text-xs"
+          disabled={uploading}
+        />
+        {error && <div className="px-3 py-2 rounded bg-red-900/30 text-red-400 text-xs">{error}</div>}
+        <button
+          onClick={handleUpload}
+          disabled={!newFile || uploading}
+          className="px-3 py-1.5 text-xs bg-blue-600 hover:bg-blue-700 text-white rounded disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {uploading ? "Uploading..." : "Upload as new version"}
+        </button>
+      </div>
+
+      {/* Text diff */}
+      {versions.length > 1 && (
+        <div className="space-y-2">
+          <div className="flex flex-wrap items-center gap-2 text-xs">
+            <h4 className="font-semibold text-white mr-2">Compare text</h4>
+            <select
+              value={fromVersionId}
+              onChange={(e) => setFromVersionId(e.target.value)}
+              className="px-2 py-1 bg-neutral-800 border border-neutral-700 rounded text-white"
+            >
+              {versions.map((v) => (
+                <option key={v.id} value={v.id}>
+                  {versionLabel(v)}
+                </option>
+              ))}
+            </select>
+            <span className="text-neutral-500">→</span>
+            <select
+              value={toVersionId}
+              onChange={(e) => setToVersionId(e.target.value)}
+              className="px-2 py-1 bg-neutral-800 border border-neutral-700 rounded text-white"
+            >
+              {versions.map((v) => (
+                <option key={v.id} value={v.id}>
+                  {versionLabel(v)}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={() => setShowDiff(!showDiff)}
+              className="px-3 py-1 bg-neutral-800 hover:bg-neutral-700 text-neutral-200 rounded"
+            >
+              {showDiff ? "Hide diff" : "Show diff"}
+            </button>
+          </div>
+          {showDiff && fromVersion && toVersion && (
+            !fromVersion.text_content && !toVersion.text_content ? (
+              <div className="text-neutral-500 text-xs">
+                No extracted text for these versions yet
+              </div>
+            ) : (
+              <TextDiffView
+                oldText={fromVersion.text_content || ""}
+                newText={toVersion.text_content || ""}
+              />
+            )
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
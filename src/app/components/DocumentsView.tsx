@@ -16,6 +16,14 @@ import type { Project } from "../../lib/db/projects";
 import { format } from "date-fns";
 import { getAvatarUrl } from "../../lib/avatar-utils";
 import NotionNotesPanel from "./NotionNotesPanel";
+import DocumentVersionsPanel from "./DocumentVersionsPanel";
+import { BASE_CURRENCY } from "../../lib/finance/baseAmount";
+import { backfillBaseAmounts } from "../actions/finance/backfillBaseAmounts";
+import InvoiceReconciliationModal, {
+  PAYMENT_STATUS_CLASSES,
+  PAYMENT_STATUS_LABELS,
+} from "../../components/finance/InvoiceReconciliationModal";
+import DuplicateFilesModal from "../../components/documents/DuplicateFilesModal";
 
 // Predefined document types
 const DOCUMENT_TYPES = [
@@ -74,10 +82,14 @@ export default function DocumentsView() {
     amount_original: "",
     currency: "",
     invoice_date: "",
+    invoice_number: "",
   });
   const [selectedYear, setSelectedYear] = useState(new Date().getFullYear());
   const [selectedMonth, setSelectedMonth] = useState(new Date().getMonth() + 1);
   const [activeTab, setActiveTab] = useState<"all" | "income-expenses">("all");
+  const [showReconciliation, setShowReconciliation] = useState(false);
+  const [showDuplicates, setShowDuplicates] = useState(false);
+  const [versionsDocument, setVersionsDocument] = useState<Document | null>(null);
   const [expandedMonths, setExpandedMonths] = useState<Set<number>>(new Set());
   const [expandedCells, setExpandedCells] = useState<Set<string>>(new Set());
   const [searchQuery, setSearchQuery] = useState("");
@@ -292,7 +304,10 @@ export default function DocumentsView() {
       
       // Show success message with error details if any
       let message = `Synced ${syncData.messagesProcessed} emails with attachments, imported ${importData.documentsCreated} attachments as documents`;
-      
+      if (importData.documentsLinked > 0) {
+        message += `\n${importData.documentsLinked} attachment${importData.documentsLinked !== 1 ? 's were' : ' was'} already stored as a document and linked to it`;
+      }
+
       if (importData.errors && importData.errors.length > 0) {
         const errorCount = importData.errors.length;
         message += `\n\n⚠️ ${errorCount} attachment${errorCount !== 1 ? 's' : ''} failed to import.`;
@@ -491,6 +506,8 @@ export default function DocumentsView() {
       invoice_month = date.getMonth() + 1; // getMonth() returns 0-11
     }
 
+    const isBaseCurrency = !formData.currency || formData.currency.toUpperCase() === BASE_CURRENCY;
+
     const newDocument = {
       name: formData.name,
       file_url: formData.file_url,
@@ -506,15 +523,22 @@ export default function DocumentsView() {
       invoice_type: invoiceType || undefined,
       amount_original: invoiceType && formData.amount_original ? parseFloat(formData.amount_original) : undefined,
       currency: invoiceType && formData.currency ? formData.currency : undefined,
-      amount_base: invoiceType && formData.amount_original ? parseFloat(formData.amount_original) : undefined, // For now same as original
-      base_currency: invoiceType ? 'PLN' : undefined,
+      // Foreign-currency invoices are converted server-side with the NBP rate from before invoice_date
+      amount_base: invoiceType && formData.amount_original && isBaseCurrency ? parseFloat(formData.amount_original) : undefined,
+      base_currency: invoiceType && isBaseCurrency ? BASE_CURRENCY : undefined,
+      fx_rate: invoiceType && formData.amount_original && isBaseCurrency ? 1 : undefined,
+      fx_rate_date: invoiceType && isBaseCurrency && formData.invoice_date ? formData.invoice_date : undefined,
       invoice_date: invoiceType && formData.invoice_date ? formData.invoice_date : undefined,
+      invoice_number: invoiceType && formData.invoice_number.trim() ? formData.invoice_number.trim() : undefined,
       invoice_year: invoice_year,
       invoice_month: invoice_month,
     };
 
     const result = await documentsDb.createDocument(newDocument);
     if (result) {
+      if (invoiceType && !isBaseCurrency) {
+        await backfillBaseAmounts({ orgId: result.organisation_id || null });
+      }
       await loadData();
       setFormData({
         name: "",
@@ -532,6 +556,7 @@ export default function DocumentsView() {
         amount_original: "",
         currency: "",
         invoice_date: "",
+        invoice_number: "",
       });
       setInvoiceTypeForModal(null);
       setIsAdding(false);
@@ -863,6 +888,13 @@ export default function DocumentsView() {
           >
             {importingFromGmail ? 'Importing...' : '📧 Import from Gmail'}
           </button>
+          <button
+            onClick={() => setShowDuplicates(true)}
+            className="px-3 py-1.5 border border-neutral-700/50 rounded-lg text-sm text-neutral-300 hover:bg-neutral-800/50 transition-colors"
+            title="Find files stored more than once and merge them"
+          >
+            Duplicates
+          </button>
           <button
             onClick={() => {
               setInvoiceTypeForModal(null);
@@ -1276,6 +1308,16 @@ export default function DocumentsView() {
                       className="w-full bg-neutral-800/50 border border-neutral-700/50 rounded-lg px-4 py-2.5 text-sm text-white placeholder:text-neutral-500 focus:outline-none focus:ring-2 focus:ring-blue-500/50 focus:border-blue-500/50 transition-all"
                     />
                   </div>
+                  <div className="col-span-3">
+                    <label className="block text-xs text-neutral-400 mb-1.5">Invoice Number</label>
+                    <input
+                      type="text"
+                      value={formData.invoice_number}
+                      onChange={(e) => setFormData({ ...formData, invoice_number: e.target.value })}
+                      placeholder="e.g. FV/12/2025 - used to match bank transfers"
+                      className="w-full bg-neutral-800/50 border border-neutral-700/50 rounded-lg px-4 py-2.5 text-sm text-white placeholder:text-neutral-500 focus:outline-none focus:ring-2 focus:ring-blue-500/50 focus:border-blue-500/50 transition-all"
+                    />
+                  </div>
                 </div>
               </div>
             )}
@@ -1301,6 +1343,7 @@ export default function DocumentsView() {
                   amount_original: "",
                   currency: "",
                   invoice_date: "",
+                  invoice_number: "",
                 });
               }}
               className="px-5 py-2.5 border border-neutral-700/50 rounded-lg text-sm font-medium text-neutral-300 hover:bg-neutral-800/50 hover:border-neutral-600 transition-all"
@@ -1355,6 +1398,12 @@ export default function DocumentsView() {
                 ));
               })()}
             </select>
+            <button
+              onClick={() => setShowReconciliation(true)}
+              className="ml-auto px-3 py-1.5 border border-neutral-700/50 rounded text-xs text-neutral-300 hover:bg-neutral-800/50"
+            >
+              Invoice payments
+            </button>
           </div>
           
           {/* Monthly income/expenses table */}
@@ -1622,7 +1671,14 @@ export default function DocumentsView() {
                             <tr key={`${cellKey}-${doc.id}`} className="border-b border-neutral-800/30 bg-neutral-900/20 hover:bg-neutral-900/40">
                               <td className="py-2 px-4 text-neutral-400 text-xs sticky left-0 bg-neutral-900/95 z-10">
                                 <div className="flex flex-col gap-1">
-                                  <div className="font-medium text-neutral-300">{doc.name}</div>
+                                  <div className="font-medium text-neutral-300">
+                                    {doc.name}
+                                    {doc.payment_status && (
+                                      <span className={`ml-2 px-1.5 py-0.5 rounded text-[10px] font-normal ${PAYMENT_STATUS_CLASSES[doc.payment_status]}`}>
+                                        {PAYMENT_STATUS_LABELS[doc.payment_status]}
+                                      </span>
+                                    )}
+                                  </div>
                                   <div className="text-[10px] text-neutral-500">
                                     {contact && <span>{contact.name}</span>}
                                     {organisation && <span className="ml-2">• {organisation.name}</span>}
@@ -1904,6 +1960,13 @@ export default function DocumentsView() {
                             >
                               👁️
                             </a>
+                            <button
+                              onClick={() => setVersionsDocument(doc)}
+                              className="text-sm text-neutral-400 hover:text-neutral-200 px-2 py-1 rounded hover:bg-neutral-500/10 transition-colors"
+                              title={`Versions (v${doc.current_version || 1})`}
+                            >
+                              🕘
+                            </button>
                             <button
                               onClick={() => handleDelete(doc.id)}
                               className="text-sm text-red-400 hover:text-red-300 px-2 py-1 rounded hover:bg-red-500/10 transition-colors"
@@ -2470,6 +2533,11 @@ export default function DocumentsView() {
                               }))}
                             >
                               <div className={`w-1.5 h-1.5 rounded-full ${doc.full_text ? 'bg-green-500' : 'bg-red-500'}`}></div>
+                              {doc.full_text && doc.full_text_confidence != null && doc.full_text_confidence < 1 && (
+                                <span className="text-[8px] text-yellow-400" title="Scanned pages were read by OCR">
+                                  OCR {Math.round(doc.full_text_confidence * 100)}%
+                                </span>
+                              )}
                               {doc.full_text && (
                                 <button
                                   onClick={(e) => {
@@ -2875,6 +2943,13 @@ export default function DocumentsView() {
                             >
                               👁️
                             </a>
+                            <button
+                              onClick={() => setVersionsDocument(doc)}
+                              className="text-sm text-neutral-400 hover:text-neutral-200 px-2 py-1 rounded hover:bg-neutral-500/10 transition-colors"
+                              title={`Versions (v${doc.current_version || 1})`}
+                            >
+                              🕘
+                            </button>
                             <button
                               onClick={() => handleDelete(doc.id)}
                               className="text-sm text-red-400 hover:text-red-300 px-2 py-1 rounded hover:bg-red-500/10 transition-colors"
@@ -3441,6 +3516,11 @@ export default function DocumentsView() {
                               }))}
                             >
                               <div className={`w-1.5 h-1.5 rounded-full ${doc.full_text ? 'bg-green-500' : 'bg-red-500'}`}></div>
+                              {doc.full_text && doc.full_text_confidence != null && doc.full_text_confidence < 1 && (
+                                <span className="text-[8px] text-yellow-400" title="Scanned pages were read by OCR">
+                                  OCR {Math.round(doc.full_text_confidence * 100)}%
+                                </span>
+                              )}
                               {doc.full_text && (
                                 <button
                                   onClick={(e) => {
@@ -3810,6 +3890,13 @@ export default function DocumentsView() {
                             >
                               ✎
                             </button>
+                            <button
+                              onClick={() => setVersionsDocument(doc)}
+                              className="text-[10px] px-1 py-0.5 bg-neutral-800 text-neutral-300 rounded hover:bg-neutral-700"
+                              title="Versions"
+                            >
+                              🕘
+                            </button>
                             <button
                               onClick={() => handleDelete(doc.id)}
                               className="text-[10px] px-1 py-0.5 bg-red-900/20 text-red-400 rounded hover:bg-red-900/40"
@@ -3847,7 +3934,45 @@ export default function DocumentsView() {
           )}
         </>
       )}
+
+      {versionsDocument && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <div className="bg-neutral-900 border border-neutral-800 rounded-lg w-full max-w-4xl max-h-[90vh] flex flex-col">
+            <div className="flex items-center justify-between p-4 border-b border-neutral-800">
+              <h3 className="text-sm font-semibold text-white truncate">
+                Versions – {versionsDocument.name}
+              </h3>
+              <button
+                onClick={() => setVersionsDocument(null)}
+                className="text-neutral-400 hover:text-white text-xl leading-none"
+              >
+                ×
+              </button>
+            </div>
+            <div className="p-4 overflow-y-auto">
+              <DocumentVersionsPanel
+                kind="document"
+                parentId={versionsDocument.id}
+                onVersionAdded={loadData}
+              />
+            </div>
+          </div>
+        </div>
+      )}
+
+      {showReconciliation && (
+        <InvoiceReconciliationModal
+          onClose={() => setShowReconciliation(false)}
+          onReconciled={loadData}
+        />
+      )}
+
+      {showDuplicates && (
+        <DuplicateFilesModal
+          onClose={() => setShowDuplicates(false)}
+          onMerged={loadData}
+        />
+      )}
     </div>
   );
 }
-
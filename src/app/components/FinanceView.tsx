@@ -6,14 +6,24 @@ import { useOrganisations, useCategories } from '@/app/hooks/useSharedLists';
 import { useFinanceTransactionsFilters } from '@/app/hooks/useFinanceTransactionsFilters';
 import * as documentsActions from '@/app/actions/documents';
 import { getKpis } from '@/lib/finance/queries/getKpis';
+import { getBudgetVariance, BudgetVarianceReport } from '@/lib/finance/queries/getBudgetVariance';
 import { getCategories as getFinanceCategories } from '@/lib/finance/queries/getCategories';
 import { Transaction } from '@/lib/finance/queries/getTransactions';
 import StickyTopBar from '@/components/finance/StickyTopBar';
 import KpiStrip from '@/components/finance/KpiStrip';
 import TransactionsWorkbench from '@/components/finance/TransactionsWorkbench';
 import InsightsPanel from '@/components/finance/InsightsPanel';
+import CashFlowForecastPanel from '@/components/finance/CashFlowForecastPanel';
 import TransactionDrawer from '@/components/finance/TransactionDrawer';
 import SubscriptionsPanel from '@/components/finance/SubscriptionsPanel';
+import AgeingPanel from '@/components/finance/AgeingPanel';
+import ImportPreviewModal from '@/components/finance/ImportPreviewModal';
+import ImportBatchesModal from '@/components/finance/ImportBatchesModal';
+import FxRatesModal from '@/components/finance/FxRatesModal';
+import CategoryRulesModal from '@/components/finance/CategoryRulesModal';
+import BudgetsModal from '@/components/finance/BudgetsModal';
+import VatRegisterModal from '@/components/finance/VatRegisterModal';
+import MonthCloseModal from '@/components/finance/MonthCloseModal';
 
 export default function FinanceView() {
   const router = useRouter();
@@ -24,10 +34,19 @@ export default function FinanceView() {
   const [selectedTransaction, setSelectedTransaction] = useState<Transaction | null>(null);
   const [selectedIds, setSelectedIds] = useState<string[]>([]);
   const [importStatus, setImportStatus] = useState<'idle' | 'importing' | 'complete' | 'failed'>('idle');
-  const [kpis, setKpis] = useState({ inflow_sum: 0, outflow_sum: 0, net: 0, uncategorised_count: 0 });
+  const [kpis, setKpis] = useState({ inflow_sum: 0, outflow_sum: 0, net: 0, uncategorised_count: 0, unconverted_count: 0 });
   const [transactionCategories, setTransactionCategories] = useState<string[]>([]);
   const [loadingKpis, setLoadingKpis] = useState(true);
-  const [currentTransactions, setCurrentTransactions] = useState<Transaction[]>([]);
+  const [pendingImport, setPendingImport] = useState<{ documentId: string; fileName: string } | null>(null);
+  const [showImportBatches, setShowImportBatches] = useState(false);
+  const [showFxRates, setShowFxRates] = useState(false);
+  const [showCategoryRules, setShowCategoryRules] = useState(false);
+  const [showBudgets, setShowBudgets] = useState(false);
+  const [showVatRegister, setShowVatRegister] = useState(false);
+  const [showMonthClose, setShowMonthClose] = useState(false);
+  const [budgetVariance, setBudgetVariance] = useState<BudgetVarianceReport | null>(null);
+  const [transactionsRefreshKey, setTransactionsRefreshKey] = useState(0);
+  const [alertsRefreshKey, setAlertsRefreshKey] = useState(0);
   
   const hasOrganisations = organisations.length > 0;
   // Track selected org from URL or state
@@ -73,6 +92,18 @@ export default function FinanceView() {
     } finally {
       setLoadingKpis(false);
     }
+    loadBudgetVariance();
+  };
+
+  // Budgets are compared for the month and year of the selected range end (today at the latest)
+  const loadBudgetVariance = async () => {
+    try {
+      const today = new Date().toISOString().slice(0, 10);
+      const asOf = filters.dateTo && filters.dateTo < today ? filters.dateTo : today;
+      setBudgetVariance(await getBudgetVariance({ orgId: selectedOrgId, asOf }));
+    } catch (error) {
+      console.error('Error loading budget variance:', error);
+    }
   };
 
   const loadTransactionCategories = async () => {
@@ -91,24 +122,14 @@ export default function FinanceView() {
   const handleUpload = async (file: File) => {
     setImportStatus('importing');
     try {
+      // Upload only; rows are written after the user confirms the preview
       const result = await documentsActions.uploadDocumentAndLinkToEntity(selectedOrgId, file, {
         docType: 'BANK_CONFIRMATION',
         title: file.name,
+        deferImport: true,
       });
 
-      const importResult = (result as any)?.import;
-      if (importResult?.ok) {
-        setImportStatus('complete');
-        // Refresh KPIs and reload transaction categories
-        await Promise.all([
-          loadKpis(),
-          loadTransactionCategories(),
-        ]);
-        setTimeout(() => setImportStatus('idle'), 3000);
-      } else {
-        setImportStatus('failed');
-        setTimeout(() => setImportStatus('idle'), 5000);
-      }
+      setPendingImport({ documentId: result.documentId, fileName: file.name });
     } catch (error: any) {
       console.error('Upload error:', error);
       setImportStatus('failed');
@@ -116,6 +137,33 @@ export default function FinanceView() {
     }
   };
 
+  // No auth session yet: use the email remembered by the Gmail/documents flow
+  const getCurrentUser = () =>
+    localStorage.getItem('userEmail') || localStorage.getItem('gmail_user_email') || null;
+
+  const handleImportClose = () => {
+    setPendingImport(null);
+    setImportStatus('idle');
+  };
+
+  const handleImported = async () => {
+    setPendingImport(null);
+    setImportStatus('complete');
+    setTransactionsRefreshKey(key => key + 1);
+    // Refresh KPIs and reload transaction categories
+    await Promise.all([
+      loadKpis(),
+      loadTransactionCategories(),
+    ]);
+    setTimeout(() => setImportStatus('idle'), 3000);
+  };
+
+  const refreshAfterDataChange = () => {
+    setTransactionsRefreshKey(key => key + 1);
+    loadKpis();
+    loadTransactionCategories();
+  };
+
   const handleUncategorisedClick = useCallback(() => {
     updateFilters({ tab: 'uncategorised' });
   }, [updateFilters]);
@@ -132,12 +180,6 @@ export default function FinanceView() {
     updateFilters({ category });
   }, [updateFilters]);
 
-  // Memoize callback to prevent infinite loop
-  const handleTransactionsLoaded = useCallback((transactions: Transaction[]) => {
-    // Store current transactions for subscription detection
-    setCurrentTransactions(transactions);
-  }, []);
-
   if (!hasOrganisations && !orgsLoading) {
     return (
       <div className="h-full flex flex-col bg-neutral-900 text-white">
@@ -173,6 +215,11 @@ export default function FinanceView() {
           setSearchInput('');
         }}
         onUpload={handleUpload}
+        onShowImports={() => setShowImportBatches(true)}
+        onShowFxRates={() => setShowFxRates(true)}
+        onShowCategoryRules={() => setShowCategoryRules(true)}
+        onShowVatRegister={() => setShowVatRegister(true)}
+        onShowMonthClose={() => setShowMonthClose(true)}
         importStatus={importStatus}
         searchValue={searchInput}
         dateFrom={filters.dateFrom}
@@ -186,12 +233,23 @@ export default function FinanceView() {
         outflow={kpis.outflow_sum}
         net={kpis.net}
         uncategorisedCount={kpis.uncategorised_count}
+        unconvertedCount={kpis.unconverted_count}
+        overBudgetCount={budgetVariance?.rows.filter(row => row.status === 'over').length}
+        atRiskBudgetCount={budgetVariance?.rows.filter(row => row.status === 'at_risk').length}
         onUncategorisedClick={handleUncategorisedClick}
       />
 
       {/* Subscriptions Panel */}
       <div className="px-4 pt-2">
-        <SubscriptionsPanel orgId={selectedOrgId} transactions={currentTransactions} />
+        <SubscriptionsPanel
+          orgId={selectedOrgId}
+          onDetected={() => setAlertsRefreshKey(key => key + 1)}
+        />
+      </div>
+
+      {/* Receivables / Payables Ageing */}
+      <div className="px-4 pt-2">
+        <AgeingPanel orgId={selectedOrgId} refreshKey={transactionsRefreshKey} />
       </div>
 
       {/* Main Content - Two Columns */}
@@ -214,7 +272,7 @@ export default function FinanceView() {
                 loadKpis();
                 loadTransactionCategories();
               }}
-              onTransactionsLoaded={handleTransactionsLoaded}
+              refreshKey={transactionsRefreshKey}
             />
           </div>
 
@@ -228,17 +286,82 @@ export default function FinanceView() {
                 orgId={selectedOrgId}
               />
             ) : (
-              <InsightsPanel
-                orgId={selectedOrgId}
-                dateFrom={filters.dateFrom}
-                dateTo={filters.dateTo}
-                onMonthClick={handleMonthClick}
-                onCategoryClick={handleCategoryClick}
-              />
+              <div className="space-y-4">
+                <InsightsPanel
+                  orgId={selectedOrgId}
+                  dateFrom={filters.dateFrom}
+                  dateTo={filters.dateTo}
+                  onMonthClick={handleMonthClick}
+                  onCategoryClick={handleCategoryClick}
+                  refreshKey={alertsRefreshKey}
+                  budgetVariance={budgetVariance}
+                  onManageBudgets={selectedOrgId ? () => setShowBudgets(true) : undefined}
+                />
+                <CashFlowForecastPanel orgId={selectedOrgId} refreshKey={transactionsRefreshKey} />
+              </div>
             )}
           </div>
         </div>
       </div>
+
+      {pendingImport && (
+        <ImportPreviewModal
+          documentId={pendingImport.documentId}
+          fileName={pendingImport.fileName}
+          importedBy={getCurrentUser()}
+          onClose={handleImportClose}
+          onImported={handleImported}
+        />
+      )}
+
+      {showImportBatches && (
+        <ImportBatchesModal
+          orgId={selectedOrgId}
+          currentUser={getCurrentUser()}
+          onClose={() => setShowImportBatches(false)}
+          onRolledBack={refreshAfterDataChange}
+        />
+      )}
+
+      {showFxRates && (
+        <FxRatesModal
+          orgId={selectedOrgId}
+          onClose={() => setShowFxRates(false)}
+          onConverted={refreshAfterDataChange}
+        />
+      )}
+
+      {showCategoryRules && selectedOrgId && (
+        <CategoryRulesModal
+          orgId={selectedOrgId}
+          categories={allCategories}
+          onClose={() => setShowCategoryRules(false)}
+          onApplied={refreshAfterDataChange}
+        />
+      )}
+
+      {showBudgets && selectedOrgId && (
+        <BudgetsModal
+          orgId={selectedOrgId}
+          categories={allCategories}
+          onClose={() => setShowBudgets(false)}
+          onChanged={loadBudgetVariance}
+        />
+      )}
+
+      {showVatRegister && selectedOrgId && (
+        <VatRegisterModal
+          orgId={selectedOrgId}
+          onClose={() => setShowVatRegister(false)}
+        />
+      )}
+
+      {showMonthClose && selectedOrgId && (
+        <MonthCloseModal
+          orgId={selectedOrgId}
+          onClose={() => setShowMonthClose(false)}
+        />
+      )}
     </div>
   );
 }
@@ -14,6 +14,9 @@ import type {
   OrganisationContractTerm,
 } from "../../lib/db/organisation-contracts";
 import type { Document } from "../../lib/db/documents";
+import type { DocumentVersion } from "../../lib/db/document-versions";
+import * as textJobsDb from "../../lib/db/document-text-jobs";
+import type { DocumentTextJob } from "../../lib/db/document-text-jobs";
 import type { ContractAnalysisResult, ContractComment, ContractTermEntry } from "../../types/contractAnalysis";
 import TopSummaryBar from "./contract-analysis/TopSummaryBar";
 import ActionStepsPanel from "./contract-analysis/ActionStepsPanel";
@@ -23,6 +26,7 @@ import { exportAnalysisToPdf } from "./contract-analysis/exportToPdf";
 import SeverityBadge from "./contract-analysis/SeverityBadge";
 import DecisionBadge from "./contract-analysis/DecisionBadge";
 import SeverityDot from "./contract-analysis/SeverityDot";
+import DocumentVersionsPanel from "./DocumentVersionsPanel";
 
 interface OrganisationContractsViewProps {
   organisationId: string;
@@ -37,6 +41,7 @@ export default function OrganisationContractsView({
   const [terms, setTerms] = useState<OrganisationContractTerm[]>([]);
   const [loading, setLoading] = useState(true);
   const [selectedDocument, setSelectedDocument] = useState<OrganisationDocument | null>(null);
+  const [textJob, setTextJob] = useState<DocumentTextJob | null>(null);
   const [uploading, setUploading] = useState(false);
   const [linkingDocumentId, setLinkingDocumentId] = useState<string | null>(null);
   
@@ -47,6 +52,10 @@ export default function OrganisationContractsView({
   const [selectedTermDetail, setSelectedTermDetail] = useState<ContractTermEntry | null>(null);
   const analysisSectionRef = useRef<HTMLDivElement>(null);
   const [organisationName, setOrganisationName] = useState<string>("");
+
+  // Versions of the selected document
+  const [documentVersions, setDocumentVersions] = useState<DocumentVersion[]>([]);
+  const [compareVersionId, setCompareVersionId] = useState("");
   
   // Document upload form
   const [newDocumentName, setNewDocumentName] = useState("");
@@ -124,6 +133,32 @@ export default function OrganisationContractsView({
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [selectedDocument?.id, selectedDocument?.type]);
 
+  // Follow the background text extraction while the selected contract has no text yet
+  useEffect(() => {
+    setTextJob(null);
+    if (!selectedDocument || selectedDocument.parsed_text) return;
+
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const poll = async () => {
+      const job = await textJobsDb.getLatestTextJob("contract", selectedDocument.id);
+      if (cancelled) return;
+      setTextJob(job);
+      if (job?.status === "done") {
+        await reloadSelectedDocument();
+      } else if (job && job.status !== "failed") {
+        timer = setTimeout(poll, 5000);
+      }
+    };
+    poll();
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selectedDocument?.id, selectedDocument?.parsed_text]);
+
   const loadContracts = async () => {
     try {
       setLoading(true);
@@ -242,6 +277,28 @@ export default function OrganisationContractsView({
     }
   };
 
+  const handleVersionAdded = async () => {
+    if (!selectedDocument) return;
+
+    // The new file has no analysis yet; the previous one stays with its version
+    setAnalysisResult(null);
+    setAiJsonInput("");
+    setAiJsonError(null);
+
+    await reloadSelectedDocument();
+  };
+
+  const reloadSelectedDocument = async () => {
+    if (!selectedDocument) return;
+
+    const updatedDocs = await contractsDb.getOrganisationDocuments(organisationId);
+    setDocuments(updatedDocs);
+    const updatedDoc = updatedDocs.find((d) => d.id === selectedDocument.id);
+    if (updatedDoc) {
+      setSelectedDocument(updatedDoc);
+    }
+  };
+
   const handleUpdateAnalysisGuide = async (documentId: string, guide: string) => {
     const result = await contractsDb.updateOrganisationDocument(documentId, {
       analysis_guide: guide,
@@ -459,6 +516,13 @@ export default function OrganisationContractsView({
     }
   };
 
+  // Other versions of the selected document that have their own AI analysis
+  const currentVersionNumber = selectedDocument?.current_version || 1;
+  const comparableVersions = documentVersions.filter(
+    (v) => v.version_number !== currentVersionNumber && v.ai_analysis_result
+  );
+  const compareVersion = comparableVersions.find((v) => v.id === compareVersionId);
+
   const getDocumentUrl = (storagePath: string) => {
     const bucket = process.env.NEXT_PUBLIC_STORAGE_BUCKET || 'mb-cockpit';
     const { data } = supabase.storage.from(bucket).getPublicUrl(storagePath);
@@ -769,12 +833,31 @@ export default function OrganisationContractsView({
 
             {selectedDocument && (
               <div className="mt-4">
-                <div className="text-xs font-medium text-neutral-400 mb-2">Parsed Text</div>
-                <div className="p-3 bg-neutral-800 rounded border border-neutral-700 max-h-64 overflow-y-auto">
-                  <pre className="text-[10px] text-neutral-300 whitespace-pre-wrap font-mono">
-                    {selectedDocument.parsed_text || 'No parsed text available yet. Parsing in progress...'}
-                  </pre>
+                <div className="flex items-center justify-between mb-2">
+                  <div className="text-xs font-medium text-neutral-400">Parsed Text</div>
+                  {selectedDocument.parsed_text && selectedDocument.parsed_text_confidence != null && selectedDocument.parsed_text_confidence < 1 && (
+                    <span
+                      className="text-[10px] text-yellow-400"
+                      title="Scanned pages were read by OCR; check names and amounts against the PDF"
+                    >
+                      OCR · {Math.round(selectedDocument.parsed_text_confidence * 100)}% confidence
+                    </span>
+                  )}
                 </div>
+                {!selectedDocument.parsed_text && textJob?.status === "failed" ? (
+                  <div className="p-3 bg-red-900/30 text-red-400 rounded text-[10px]">
+                    Text extraction failed: {textJob.last_error || "Unknown error"}
+                  </div>
+                ) : (
+                  <div className="p-3 bg-neutral-800 rounded border border-neutral-700 max-h-64 overflow-y-auto">
+                    <pre className="text-[10px] text-neutral-300 whitespace-pre-wrap font-mono">
+                      {selectedDocument.parsed_text ||
+                        (textJob
+                          ? 'Extracting text... Scanned pages are read by OCR, which can take a few minutes.'
+                          : 'No parsed text available yet. Parsing in progress...')}
+                    </pre>
+                  </div>
+                )}
               </div>
             )}
           </div>
@@ -901,6 +984,20 @@ export default function OrganisationContractsView({
             )}
           </div>
         </div>
+
+        {selectedDocument && (
+          <div className="mt-4 pt-4 border-t border-neutral-800">
+            <DocumentVersionsPanel
+              kind="contract"
+              parentId={selectedDocument.id}
+              onVersionAdded={handleVersionAdded}
+              onVersionsLoaded={(versions) => {
+                setDocumentVersions(versions);
+                setCompareVersionId("");
+              }}
+            />
+          </div>
+        )}
       </div>
 
       {/* New Analysis Layout */}
@@ -928,6 +1025,21 @@ export default function OrganisationContractsView({
               </div>
             )}
             <div className="flex items-center gap-2">
+              {comparableVersions.length > 0 && (
+                <select
+                  value={compareVersionId}
+                  onChange={(e) => setCompareVersionId(e.target.value)}
+                  className="px-2 py-1.5 text-xs bg-neutral-800 border border-neutral-700 rounded text-white"
+                  title="Compare the analysis with another version"
+                >
+                  <option value="">Compare with version...</option>
+                  {comparableVersions.map((v) => (
+                    <option key={v.id} value={v.id}>
+                      v{v.version_number} – {format(new Date(v.uploaded_at), 'dd.MM.yyyy')}
+                    </option>
+                  ))}
+                </select>
+              )}
               <button
                 onClick={handleExportToPdf}
                 className="px-3 py-1.5 text-xs bg-blue-600 text-white rounded hover:bg-blue-700 transition-colors whitespace-nowrap"
@@ -957,6 +1069,16 @@ export default function OrganisationContractsView({
               <AnalysisTabs
                 analysisResult={analysisResult}
                 onTermClick={setSelectedTermDetail}
+                versionLabel={`v${currentVersionNumber} (current)`}
+                compareWith={
+                  compareVersion?.ai_analysis_result
+                    ? {
+                        label: `v${compareVersion.version_number}`,
+                        result: compareVersion.ai_analysis_result,
+                        isNewer: compareVersion.version_number > currentVersionNumber,
+                      }
+                    : undefined
+                }
               />
             </div>
           </div>
@@ -18,7 +18,7 @@ export default function SearchBar() {
             type="text"
             value={searchQuery}
             onChange={(e) => setSearchQuery(e.target.value)}
-            placeholder="Search files, documents, cards, folders..."
+            placeholder="Search documents, e-mails, notes, contacts..."
             className="w-full bg-neutral-800 border border-neutral-700 rounded-lg px-3 py-1.5 pl-8 pr-8 text-xs text-white placeholder:text-neutral-500 focus:outline-none focus:ring-2 focus:ring-neutral-600 focus:border-transparent"
           />
           <svg
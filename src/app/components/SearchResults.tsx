@@ -2,266 +2,116 @@
 
 import { useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
-import { useOrganisations, type Organisation } from "../hooks/useSharedLists";
-import * as contactsDb from "../../lib/db/contacts";
-import * as documentsDb from "../../lib/db/documents";
-import * as projectsDb from "../../lib/db/projects";
-
-interface SearchResult {
-  type: "contact" | "organisation" | "document" | "project";
-  id: string;
-  name: string;
-  subtitle?: string;
-  metadata?: {
-    projectType?: string;
-    [key: string]: any;
-  };
+import { useOrganisations } from "../hooks/useSharedLists";
+import {
+  MIN_SEARCH_QUERY_LENGTH,
+  SEARCH_ENTITY_TYPES,
+  splitHighlights,
+  type SearchEntityType,
+  type SearchResult,
+} from "../../lib/search";
+
+const SEARCH_DEBOUNCE_MS = 250;
+
+// Where each result type lives in the cockpit, and the attribute marking its row there
+const RESULT_LOCATIONS: Record<SearchEntityType, { dimension: string; segment: string; dataAttribute?: string }> = {
+  contact: { dimension: "Relationships & Network", segment: "Contacts", dataAttribute: "data-contact-id" },
+  organisation: { dimension: "Relationships & Network", segment: "Organisations", dataAttribute: "data-organisation-id" },
+  document: { dimension: "Relationships & Network", segment: "Documents", dataAttribute: "data-document-id" },
+  email: { dimension: "Relationships & Network", segment: "E-mails" },
+  project: { dimension: "Projects", segment: "Projects", dataAttribute: "data-project-id" },
+  law_note: { dimension: "Knowledge", segment: "Law" },
+  general_note: { dimension: "Knowledge", segment: "General Notes" },
+  note: { dimension: "Knowledge", segment: "General Notes" },
+};
+
+function Snippet({ text }: { text: string }) {
+  return (
+    <>
+      {splitHighlights(text).map((part, index) =>
+        part.highlighted ? (
+          <mark key={index} className="bg-yellow-500/30 text-yellow-200 rounded-sm">
+            {part.text}
+          </mark>
+        ) : (
+          <span key={index}>{part.text}</span>
+        )
+      )}
+    </>
+  );
 }
 
 export default function SearchResults({ query, onResultClick }: { query: string; onResultClick?: () => void }) {
   const router = useRouter();
   const { organisations } = useOrganisations();
   const [results, setResults] = useState<SearchResult[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [types, setTypes] = useState<SearchEntityType[]>([]);
+  const [organisationId, setOrganisationId] = useState("");
+  const [dateFrom, setDateFrom] = useState("");
+  const [dateTo, setDateTo] = useState("");
 
   useEffect(() => {
-    if (!query.trim()) {
+    const trimmed = query.trim();
+    if (trimmed.length < MIN_SEARCH_QUERY_LENGTH) {
       setResults([]);
+      setError(null);
       return;
     }
 
-    const performSearch = async () => {
-      const searchResults: SearchResult[] = [];
-      const searchLower = query.toLowerCase();
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      const params = new URLSearchParams({ q: trimmed });
+      if (types.length > 0) params.set("types", types.join(","));
+      if (organisationId) params.set("organisationId", organisationId);
+      if (dateFrom) params.set("from", dateFrom);
+      if (dateTo) params.set("to", dateTo);
 
-      // Load all contacts once (used for contacts search and document search)
-      let allContacts: Awaited<ReturnType<typeof contactsDb.getContacts>> = [];
+      setLoading(true);
       try {
-        allContacts = await contactsDb.getContacts();
-      } catch (e) {
-        console.error("Error loading contacts:", e);
-      }
-
-      // Search contacts from Supabase
-      allContacts.forEach((contact) => {
-          if (
-            contact.name.toLowerCase().includes(searchLower) ||
-            contact.email?.toLowerCase().includes(searchLower) ||
-            contact.organization?.toLowerCase().includes(searchLower) ||
-            contact.notes?.toLowerCase().includes(searchLower) ||
-            contact.categories.some((cat) =>
-              cat.toLowerCase().includes(searchLower)
-            )
-          ) {
-            searchResults.push({
-              type: "contact",
-              id: contact.id,
-              name: `${contact.name} (${contact.organization || "No organization"})`,
-              subtitle: contact.email,
-            });
-          }
-        });
-
-      // Search organisations
-      organisations.forEach((org: Organisation) => {
-        if (
-          org.name.toLowerCase().includes(searchLower) ||
-          org.categories.some((cat) =>
-            cat.toLowerCase().includes(searchLower)
-          )
-        ) {
-          searchResults.push({
-            type: "organisation",
-            id: org.id,
-            name: org.name,
-            subtitle: org.categories.length > 0 ? org.categories.join(", ") : undefined,
-          });
+        const response = await fetch(`/api/search?${params.toString()}`, { signal: controller.signal });
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || "Search failed");
         }
-      });
-
-      // Search documents
-      try {
-        const documents = await documentsDb.getDocuments();
-        documents.forEach((doc) => {
-          const docLower = doc.name?.toLowerCase() || "";
-          const notesLower = doc.notes?.toLowerCase() || "";
-          const fileTypeLower = doc.file_type?.toLowerCase() || "";
-          
-          // Check if document matches search
-          let matches = false;
-          if (
-            docLower.includes(searchLower) ||
-            notesLower.includes(searchLower) ||
-            fileTypeLower.includes(searchLower)
-          ) {
-            matches = true;
-          }
-          
-          // Also check related contact and organisation names
-          if (doc.contact_id) {
-            const contact = allContacts.find((c) => c.id === doc.contact_id);
-            if (contact?.name.toLowerCase().includes(searchLower)) {
-              matches = true;
-            }
-          }
-          
-          if (doc.organisation_id) {
-            const org = organisations.find((o) => o.id === doc.organisation_id);
-            if (org?.name.toLowerCase().includes(searchLower)) {
-              matches = true;
-            }
-          }
-          
-          if (matches) {
-            // Build subtitle with file type and related entities
-            const subtitleParts: string[] = [];
-            if (doc.file_type) subtitleParts.push(doc.file_type);
-            
-            if (doc.contact_id) {
-              const contact = allContacts.find((c) => c.id === doc.contact_id);
-              if (contact) subtitleParts.push(`👤 ${contact.name}`);
-            }
-            
-            if (doc.organisation_id) {
-              const org = organisations.find((o) => o.id === doc.organisation_id);
-              if (org) subtitleParts.push(`🏢 ${org.name}`);
-            }
-            
-            searchResults.push({
-              type: "document",
-              id: doc.id,
-              name: doc.name,
-              subtitle: subtitleParts.length > 0 ? subtitleParts.join(" • ") : "Document",
-            });
-          }
-        });
-      } catch (e) {
-        console.error("Error searching documents:", e);
-      }
-
-      // Search projects
-      try {
-        const projects = await projectsDb.getProjects();
-        projects.forEach((project) => {
-          const projectName = project.name || project.title;
-          if (
-            projectName?.toLowerCase().includes(searchLower) ||
-            project.description?.toLowerCase().includes(searchLower) ||
-            project.categories.some((cat) =>
-              cat.toLowerCase().includes(searchLower)
-            )
-          ) {
-            searchResults.push({
-              type: "project",
-              id: project.id,
-              name: projectName || "Unnamed Project",
-              subtitle: project.description || project.categories.join(", ") || project.status,
-              metadata: {
-                projectType: project.project_type,
-              },
-            });
-          }
-        });
+        setResults(data.results || []);
+        setError(null);
       } catch (e) {
-        console.error("Error searching projects:", e);
+        if (controller.signal.aborted) return;
+        console.error("Error searching:", e);
+        setError(e instanceof Error ? e.message : "Search failed");
+        setResults([]);
+      } finally {
+        if (!controller.signal.aborted) setLoading(false);
       }
+    }, SEARCH_DEBOUNCE_MS);
 
-      // Sort results by relevance: exact name matches first, then by type priority
-      searchResults.sort((a, b) => {
-        const aNameLower = a.name.toLowerCase();
-        const bNameLower = b.name.toLowerCase();
-        const queryLower = searchLower;
-
-        // Exact name match gets highest priority
-        const aExactMatch = aNameLower === queryLower;
-        const bExactMatch = bNameLower === queryLower;
-        if (aExactMatch && !bExactMatch) return -1;
-        if (!aExactMatch && bExactMatch) return 1;
-
-        // Starts with query gets next priority
-        const aStartsWith = aNameLower.startsWith(queryLower);
-        const bStartsWith = bNameLower.startsWith(queryLower);
-        if (aStartsWith && !bStartsWith) return -1;
-        if (!aStartsWith && bStartsWith) return 1;
-
-        // Type priority: documents > projects > contacts > organisations
-        const typePriority: Record<string, number> = {
-          document: 1,
-          project: 2,
-          contact: 3,
-          organisation: 4,
-        };
-        const aPriority = typePriority[a.type] || 99;
-        const bPriority = typePriority[b.type] || 99;
-        if (aPriority !== bPriority) return aPriority - bPriority;
-
-        // Finally, alphabetical
-        return aNameLower.localeCompare(bNameLower);
-      });
-
-      setResults(searchResults);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
     };
+  }, [query, types, organisationId, dateFrom, dateTo]);
 
-    performSearch();
-  }, [query, organisations]);
+  const toggleType = (type: SearchEntityType) => {
+    setTypes((current) => (current.includes(type) ? current.filter((t) => t !== type) : [...current, type]));
+  };
 
   const handleResultClick = (result: SearchResult) => {
-    if (result.type === "contact") {
-      router.push(
-        `?dimension=Relationships&segment=Contacts`
-      );
-      // Scroll to the specific contact after navigation
-      setTimeout(() => {
-        const element = document.querySelector(`[data-contact-id="${result.id}"]`);
-        if (element) {
-          element.scrollIntoView({ behavior: 'smooth', block: 'center' });
-          (element as HTMLElement).classList.add('ring-2', 'ring-blue-500');
-          setTimeout(() => {
-            (element as HTMLElement).classList.remove('ring-2', 'ring-blue-500');
-          }, 2000);
-        }
-      }, 100);
-    } else if (result.type === "organisation") {
-      router.push(
-        `?dimension=Relationships&segment=Organisations`
-      );
-      // Scroll to the specific organisation after navigation
-      setTimeout(() => {
-        const element = document.querySelector(`[data-organisation-id="${result.id}"]`);
-        if (element) {
-          element.scrollIntoView({ behavior: 'smooth', block: 'center' });
-          (element as HTMLElement).classList.add('ring-2', 'ring-blue-500');
-          setTimeout(() => {
-            (element as HTMLElement).classList.remove('ring-2', 'ring-blue-500');
-          }, 2000);
-        }
-      }, 100);
-    } else if (result.type === "document") {
-      router.push(
-        `?dimension=Relationships&segment=Documents`
-      );
-      // Scroll to the specific document after navigation
-      setTimeout(() => {
-        const element = document.querySelector(`[data-document-id="${result.id}"]`);
-        if (element) {
-          element.scrollIntoView({ behavior: 'smooth', block: 'center' });
-          (element as HTMLElement).classList.add('ring-2', 'ring-blue-500');
-          setTimeout(() => {
-            (element as HTMLElement).classList.remove('ring-2', 'ring-blue-500');
-          }, 2000);
-        }
-      }, 100);
-    } else if (result.type === "project") {
-      // Determine which project segment to navigate to based on project type
-      const projectType = result.metadata?.projectType;
-      const segment = projectType === "mb-2.0" 
-        ? "Projects MB 2.0" 
-        : "Projects Internal";
-      router.push(
-        `?dimension=Projects&segment=${segment}`
-      );
-      // Scroll to the specific project after navigation
+    // A Notion note opens the record it is attached to
+    const target =
+      result.type === "note" && result.metadata.mb_entity_type && result.metadata.mb_entity_id
+        ? { type: result.metadata.mb_entity_type as SearchEntityType, id: result.metadata.mb_entity_id }
+        : { type: result.type, id: result.id };
+    const location = RESULT_LOCATIONS[target.type] || RESULT_LOCATIONS[result.type];
+
+    const params = new URLSearchParams({ dimension: location.dimension, segment: location.segment });
+    router.push(`?${params.toString()}`);
+
+    // Scroll to the specific record after navigation
+    if (location.dataAttribute) {
       setTimeout(() => {
-        const element = document.querySelector(`[data-project-id="${result.id}"]`);
+        const element = document.querySelector(`[${location.dataAttribute}="${target.id}"]`);
         if (element) {
           element.scrollIntoView({ behavior: 'smooth', block: 'center' });
           (element as HTMLElement).classList.add('ring-2', 'ring-blue-500');
@@ -271,47 +121,102 @@ export default function SearchResults({ query, onResultClick }: { query: string;
         }
       }, 100);
     }
-    
+
     // Clear search query after clicking
     if (onResultClick) {
       onResultClick();
     }
   };
 
-  if (!query.trim() || results.length === 0) {
+  if (query.trim().length < MIN_SEARCH_QUERY_LENGTH) {
     return null;
   }
 
+  const organisationName = (id: string | null) => (id ? organisations.find((o) => o.id === id)?.name : undefined);
+  const inputClass = "bg-neutral-900 border border-neutral-700 rounded px-2 py-1 text-xs text-white";
+
   return (
-    <div className="absolute top-full left-0 right-0 mt-1 bg-neutral-800 border border-neutral-700 rounded-lg shadow-lg z-50 max-h-96 overflow-auto">
+    <div className="absolute top-full left-0 right-0 mt-1 bg-neutral-800 border border-neutral-700 rounded-lg shadow-lg z-50 max-h-[32rem] overflow-auto">
+      <div className="p-2 border-b border-neutral-700 space-y-2">
+        <div className="flex flex-wrap gap-1">
+          {SEARCH_ENTITY_TYPES.map((type) => (
+            <button
+              key={type.value}
+              type="button"
+              onClick={() => toggleType(type.value)}
+              className={`px-2 py-0.5 text-[11px] rounded-full border transition-colors ${
+                types.includes(type.value)
+                  ? "bg-blue-600 border-blue-600 text-white"
+                  : "border-neutral-600 text-neutral-300 hover:bg-neutral-700"
+              }`}
+            >
+              {type.icon} {type.label}
+            </button>
+          ))}
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <select value={organisationId} onChange={(e) => setOrganisationId(e.target.value)} className={inputClass}>
+            <option value="">All organisations</option>
+            {organisations.map((org) => (
+              <option key={org.id} value={org.id}>
+                {org.name}
+              </option>
+            ))}
+          </select>
+          <input type="date" value={dateFrom} onChange={(e) => setDateFrom(e.target.value)} className={inputClass} />
+          <span className="text-xs text-neutral-500">–</span>
+          <input type="date" value={dateTo} onChange={(e) => setDateTo(e.target.value)} className={inputClass} />
+          {(types.length > 0 || organisationId || dateFrom || dateTo) && (
+            <button
+              type="button"
+              onClick={() => {
+                setTypes([]);
+                setOrganisationId("");
+                setDateFrom("");
+                setDateTo("");
+              }}
+              className="text-xs text-neutral-400 hover:text-white"
+            >
+              Clear filters
+            </button>
+          )}
+        </div>
+      </div>
+
       <div className="p-2 space-y-1">
-        {results.map((result) => (
-          <button
-            key={`${result.type}-${result.id}`}
-            onClick={() => handleResultClick(result)}
-            className="w-full text-left px-3 py-2 rounded hover:bg-neutral-700 transition-colors"
-          >
-            <div className="flex items-center gap-2">
-              <span className="text-xs text-neutral-400">
-                {result.type === "contact" ? "👤" : 
-                 result.type === "organisation" ? "🏢" :
-                 result.type === "document" ? "📄" : "📋"}
-              </span>
-              <div className="flex-1">
-                <div className="text-sm text-white font-medium">
-                  {result.name}
+        {error && <div className="text-xs px-2 py-1 rounded bg-red-900/30 text-red-400">{error}</div>}
+        {!error && results.length === 0 && (
+          <div className="px-3 py-2 text-xs text-neutral-500">{loading ? "Searching..." : "No results"}</div>
+        )}
+        {results.map((result) => {
+          const type = SEARCH_ENTITY_TYPES.find((t) => t.value === result.type);
+          const organisation = result.type !== "organisation" ? organisationName(result.organisationId) : undefined;
+          const subtitle = [type?.label, result.subtitle, organisation && `🏢 ${organisation}`, result.date?.slice(0, 10)]
+            .filter(Boolean)
+            .join(" • ");
+
+          return (
+            <button
+              key={`${result.type}-${result.id}`}
+              onClick={() => handleResultClick(result)}
+              className="w-full text-left px-3 py-2 rounded hover:bg-neutral-700 transition-colors"
+            >
+              <div className="flex items-start gap-2">
+                <span className="text-xs text-neutral-400 mt-0.5">{type?.icon}</span>
+                <div className="flex-1 min-w-0">
+                  <div className="text-sm text-white font-medium truncate">{result.title}</div>
+                  <div className="text-xs text-neutral-400 mt-0.5 truncate">{subtitle}</div>
+                  {result.snippet && (
+                    <div className="text-xs text-neutral-300 mt-1 line-clamp-2">
+                      <Snippet text={result.snippet} />
+                    </div>
+                  )}
                 </div>
-                {result.subtitle && (
-                  <div className="text-xs text-neutral-400 mt-0.5">
-                    {result.subtitle}
-                  </div>
-                )}
               </div>
-            </div>
-          </button>
-        ))}
+            </button>
+          );
+        })}
       </div>
     </div>
   );
 }
-
@@ -0,0 +1,77 @@
+"use client";
+
+import { useMemo } from "react";
+import { diffHunks, diffText, type DiffLine } from "../../lib/textDiff";
+
+interface TextDiffViewProps {
+  oldText: string;
+  newText: string;
+}
+
+const LINE_STYLES = {
+  equal: "text-neutral-400",
+  insert: "bg-emerald-950/40 text-emerald-200",
+  delete: "bg-red-950/40 text-red-200",
+} as const;
+
+const WORD_STYLES = {
+  equal: "",
+  insert: "bg-emerald-700/50 rounded-sm",
+  delete: "bg-red-700/50 rounded-sm",
+} as const;
+
+function LineRow({ line }: { line: DiffLine }) {
+  const marker = line.op === "insert" ? "+" : line.op === "delete" ? "−" : " ";
+  return (
+    <div className={`flex ${LINE_STYLES[line.op]}`}>
+      <span className="w-10 shrink-0 text-right pr-1 text-neutral-600 select-none">{line.oldLine ?? ""}</span>
+      <span className="w-10 shrink-0 text-right pr-1 text-neutral-600 select-none">{line.newLine ?? ""}</span>
+      <span className="w-4 shrink-0 text-center select-none">{marker}</span>
+      <span className="flex-1 whitespace-pre-wrap break-words">
+        {line.words
+          ? line.words.map((word, idx) => (
+              <span key={idx} className={WORD_STYLES[word.op]}>
+                {word.text}
+              </span>
+            ))
+          : line.text || " "}
+      </span>
+    </div>
+  );
+}
+
+export default function TextDiffView({ oldText, newText }: TextDiffViewProps) {
+  const diff = useMemo(() => diffText(oldText, newText), [oldText, newText]);
+  const hunks = useMemo(() => diffHunks(diff.lines), [diff]);
+
+  if (diff.added === 0 && diff.removed === 0) {
+    return <div className="text-neutral-500 text-xs py-4 text-center">The texts are identical</div>;
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-3 text-xs">
+        <span className="text-emerald-400">+{diff.added} lines</span>
+        <span className="text-red-400">−{diff.removed} lines</span>
+        {diff.tooLarge && (
+          <span className="text-amber-400">Too many changes to align – showing the texts as replaced</span>
+        )}
+      </div>
+      <div className="border border-neutral-800 rounded bg-neutral-950 font-mono text-[11px] leading-5 max-h-[600px] overflow-auto">
+        {hunks.map((hunk, idx) =>
+          hunk.kind === "skipped" ? (
+            <div key={idx} className="px-2 py-0.5 bg-neutral-900 text-neutral-500 text-center select-none">
+              ⋯ {hunk.count} unchanged {hunk.count === 1 ? "line" : "lines"}
+            </div>
+          ) : (
+            <div key={idx}>
+              {hunk.lines.map((line, lineIdx) => (
+                <LineRow key={lineIdx} line={line} />
+              ))}
+            </div>
+          )
+        )}
+      </div>
+    </div>
+  );
+}
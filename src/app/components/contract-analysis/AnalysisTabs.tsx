@@ -6,12 +6,22 @@ import CommentCard from "./CommentCard";
 import SeverityBadge from "./SeverityBadge";
 import DecisionBadge from "./DecisionBadge";
 import SeverityDot from "./SeverityDot";
+import VersionComparison from "./VersionComparison";
 
-type Tab = "summary" | "comments" | "current" | "after" | "comparison";
+type Tab = "summary" | "comments" | "current" | "after" | "comparison" | "versions";
 
 interface AnalysisTabsProps {
   analysisResult: ContractAnalysisResult;
   onTermClick?: (term: ContractTermEntry) => void;
+  /** Analysis of another version of the contract, shown in the "Version comparison" tab */
+  compareWith?: {
+    label: string;
+    result: ContractAnalysisResult;
+    /** True when compareWith is a newer version than analysisResult */
+    isNewer?: boolean;
+  };
+  /** Label of the version analysisResult belongs to */
+  versionLabel?: string;
 }
 
 function getRowHighlight(severity?: "duża" | "średnia" | "mała") {
@@ -24,6 +34,8 @@ function getRowHighlight(severity?: "duża" | "średnia" | "mała") {
 export default function AnalysisTabs({
   analysisResult,
   onTermClick,
+  compareWith,
+  versionLabel = "Current version",
 }: AnalysisTabsProps) {
   const [activeTab, setActiveTab] = useState<Tab>("summary");
   const [filterSeverity, setFilterSeverity] = useState<string | null>(null);
@@ -147,6 +159,7 @@ export default function AnalysisTabs({
           { id: "current" as Tab, label: "Current terms" },
           { id: "after" as Tab, label: "After changes" },
           { id: "comparison" as Tab, label: "Before/After Comparison" },
+          ...(compareWith ? [{ id: "versions" as Tab, label: "Version comparison" }] : []),
         ].map((tab) => (
           <button
             key={tab.id}
@@ -580,6 +593,24 @@ export default function AnalysisTabs({
             )}
           </div>
         )}
+
+        {activeTab === "versions" && compareWith && (
+          compareWith.isNewer ? (
+            <VersionComparison
+              before={analysisResult}
+              beforeLabel={versionLabel}
+              after={compareWith.result}
+              afterLabel={compareWith.label}
+            />
+          ) : (
+            <VersionComparison
+              before={compareWith.result}
+              beforeLabel={compareWith.label}
+              after={analysisResult}
+              afterLabel={versionLabel}
+            />
+          )
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,159 @@
+"use client";
+
+import type { ContractAnalysisResult } from "../../../types/contractAnalysis";
+import { compareAnalyses, type ChangeStatus, type KeywordChange } from "../../../lib/contracts/compareAnalysis";
+import RiskBadge from "./RiskBadge";
+import SeverityBadge from "./SeverityBadge";
+import DecisionBadge from "./DecisionBadge";
+
+interface VersionComparisonProps {
+  /** Analysis of the older version */
+  before: ContractAnalysisResult;
+  beforeLabel: string;
+  after: ContractAnalysisResult;
+  afterLabel: string;
+}
+
+const STATUS_STYLES: Record<ChangeStatus, { label: string; className: string }> = {
+  added: { label: "NEW", className: "bg-emerald-900/40 text-emerald-200 border-emerald-700/60" },
+  removed: { label: "REMOVED", className: "bg-neutral-800 text-neutral-300 border-neutral-600" },
+  changed: { label: "CHANGED", className: "bg-blue-900/40 text-blue-200 border-blue-700/60" },
+  unchanged: { label: "SAME", className: "bg-neutral-900 text-neutral-500 border-neutral-700" },
+};
+
+function StatusBadge({ status }: { status: ChangeStatus }) {
+  const style = STATUS_STYLES[status];
+  return (
+    <span className={`text-[8px] px-1 py-0.5 rounded border ${style.className}`}>
+      {style.label}
+    </span>
+  );
+}
+
+function FieldChanges<T>({ change }: { change: KeywordChange<T> }) {
+  if (change.changes.length === 0) return null;
+  return (
+    <div className="mt-1 space-y-1">
+      {change.changes.map((field) => (
+        <div key={field.field} className="text-[11px]">
+          <div className="text-[9px] text-neutral-500">{field.label}</div>
+          <div className="text-red-300/80 line-through decoration-red-700/60">
+            {field.before || <span className="italic">empty</span>}
+          </div>
+          <div className="text-emerald-300 border-l-2 border-emerald-600 pl-2">
+            {field.after || <span className="italic">empty</span>}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default function VersionComparison({
+  before,
+  beforeLabel,
+  after,
+  afterLabel,
+}: VersionComparisonProps) {
+  const comparison = compareAnalyses(before, after);
+  const changedComments = comparison.comments.filter((c) => c.status !== "unchanged");
+  const changedTerms = comparison.terms.filter((t) => t.status !== "unchanged");
+  const count = (status: ChangeStatus) => comparison.comments.filter((c) => c.status === status).length;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-3 text-xs text-neutral-300">
+        <span>
+          <span className="text-neutral-500">Comparing </span>
+          {beforeLabel}
+          <span className="text-neutral-500"> → </span>
+          {afterLabel}
+        </span>
+        <span className="flex items-center gap-1">
+          {comparison.riskBefore ? <RiskBadge level={comparison.riskBefore} /> : <span className="text-neutral-600">no summary</span>}
+          <span className="text-neutral-500">→</span>
+          {comparison.riskAfter ? <RiskBadge level={comparison.riskAfter} /> : <span className="text-neutral-600">no summary</span>}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-3 gap-2">
+        <div className="p-2 rounded border border-emerald-800/50 bg-emerald-950/20">
+          <div className="text-[10px] text-emerald-300">New problems</div>
+          <div className="text-lg font-bold text-emerald-200">{count("added")}</div>
+        </div>
+        <div className="p-2 rounded border border-neutral-700 bg-neutral-950/40">
+          <div className="text-[10px] text-neutral-400">Resolved problems</div>
+          <div className="text-lg font-bold text-neutral-200">{count("removed")}</div>
+        </div>
+        <div className="p-2 rounded border border-blue-800/50 bg-blue-950/20">
+          <div className="text-[10px] text-blue-300">Changed problems</div>
+          <div className="text-lg font-bold text-blue-200">{count("changed")}</div>
+        </div>
+      </div>
+
+      <div>
+        <h4 className="text-xs font-semibold text-white mb-2">Comments</h4>
+        {changedComments.length === 0 ? (
+          <div className="text-neutral-500 text-xs">No changes in comments</div>
+        ) : (
+          <div className="space-y-2">
+            {changedComments.map((change) => {
+              const comment = change.after || change.before;
+              return (
+                <div
+                  key={change.keyword}
+                  className="p-2 rounded border border-neutral-800 bg-neutral-950/60"
+                >
+                  <div className="flex items-center gap-2">
+                    <StatusBadge status={change.status} />
+                    {comment && <SeverityBadge severity={comment.severity_pl} />}
+                    {comment?.decision_flag && <DecisionBadge flag={comment.decision_flag} />}
+                    <span className="text-[10px] font-mono text-neutral-300">{change.keyword}</span>
+                  </div>
+                  {change.status === "changed" ? (
+                    <FieldChanges change={change} />
+                  ) : (
+                    <div className={`mt-1 text-[11px] ${change.status === "removed" ? "text-neutral-500" : "text-neutral-200"}`}>
+                      {comment?.risk_short || comment?.risk_description}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      <div>
+        <h4 className="text-xs font-semibold text-white mb-2">Current terms</h4>
+        {changedTerms.length === 0 ? (
+          <div className="text-neutral-500 text-xs">No changes in terms</div>
+        ) : (
+          <div className="space-y-2">
+            {changedTerms.map((change) => {
+              const term = change.after || change.before;
+              return (
+                <div
+                  key={change.keyword}
+                  className="p-2 rounded border border-neutral-800 bg-neutral-950/60"
+                >
+                  <div className="flex items-center gap-2">
+                    <StatusBadge status={change.status} />
+                    <span className="text-[10px] font-mono text-neutral-300">{change.keyword}</span>
+                  </div>
+                  {change.status === "changed" ? (
+                    <FieldChanges change={change} />
+                  ) : (
+                    <div className={`mt-1 text-[11px] ${change.status === "removed" ? "text-neutral-500" : "text-neutral-200"}`}>
+                      {term?.what_is_agreed}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
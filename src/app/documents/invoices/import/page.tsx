@@ -7,21 +7,104 @@ import * as organisationsDb from "@/lib/db/organisations";
 import type { Document } from "@/lib/db/documents";
 import type { Organisation } from "@/lib/db/organisations";
 import { format } from "date-fns";
+import { VAT_RATES, VAT_RATE_LABELS } from "@/lib/finance/vat/register";
+import { validateTaxId } from "@/lib/finance/vat/nip";
+import { classifyInvoice, type InvoiceExtraction, type InvoiceField } from "@/lib/finance/invoices";
+import { extractInvoiceData } from "@/app/actions/finance/extractInvoiceData";
+import type { DocumentTextJob } from "@/lib/db/document-text-jobs";
 
 const CURRENCIES = ["PLN", "EUR", "USD", "SAR", "GBP"];
 
+interface InvoiceForm {
+  invoice_type?: 'cost' | 'revenue' | null;
+  amount_original?: string;
+  currency?: string;
+  invoice_date?: string;
+  invoice_number?: string;
+  amount_net?: string;
+  vat_rate?: string;
+  vat_amount?: string;
+  counterparty_nip?: string;
+  counterparty_name?: string;
+}
+
+type FieldConfidence = Partial<Record<keyof InvoiceForm, number>>;
+
+/**
+ * Form values read from an invoice, with the confidence of each. Cost or revenue, and so which party
+ * is the counterparty, follows from whether we are the seller or the buyer.
+ */
+function formFromExtraction(extraction: InvoiceExtraction, ownNips: string[]): { values: InvoiceForm; confidence: FieldConfidence } {
+  const values: InvoiceForm = {};
+  const confidence: FieldConfidence = {};
+  const set = <T,>(key: keyof InvoiceForm, field: InvoiceField<T> | null | undefined, toValue: (value: T) => string) => {
+    if (!field) return;
+    (values as Record<string, string>)[key] = toValue(field.value);
+    confidence[key] = field.confidence;
+  };
+
+  const { invoiceType, counterparty } = classifyInvoice(extraction, ownNips);
+  set("invoice_type", invoiceType, value => value);
+  set("amount_original", extraction.amountGross, value => value.toFixed(2));
+  if (extraction.currency && CURRENCIES.includes(extraction.currency.value)) {
+    set("currency", extraction.currency, value => value);
+  }
+  set("invoice_date", extraction.issueDate, value => value);
+  set("invoice_number", extraction.invoiceNumber, value => value);
+  set("amount_net", extraction.amountNet, value => value.toFixed(2));
+  set("vat_rate", extraction.vatRate, value => value);
+  set("vat_amount", extraction.vatAmount, value => value.toFixed(2));
+  set("counterparty_nip", counterparty?.nip, value => value);
+  set("counterparty_name", counterparty?.name, value => value);
+  return { values, confidence };
+}
+
+// Our own organisations are the ones with taxpayer data
+const getOwnNips = (organisations: Organisation[]) =>
+  organisations.map(org => org.nip).filter((nip): nip is string => !!nip);
+
+function confidenceBorder(confidence: number | undefined): string {
+  if (confidence === undefined) return "border-neutral-700";
+  if (confidence >= 0.85) return "border-emerald-700";
+  if (confidence >= 0.6) return "border-amber-600";
+  return "border-red-700";
+}
+
+const confidenceTitle = (confidence: number | undefined) =>
+  confidence === undefined ? undefined : `Read from the invoice · ${Math.round(confidence * 100)}% confidence`;
+
+const TEXT_JOB_POLL_MS = 5000;
+// The extract-text route gives a job up to 300 s
+const TEXT_JOB_TIMEOUT_MS = 330_000;
+
+/**
+ * Run the document's queued text extraction (OCR of scans) in the background and wait until it
+ * is no longer pending or running
+ */
+async function waitForTextJob(docId: string): Promise<DocumentTextJob | null> {
+  const started = await fetch(`/api/documents/${docId}/extract-text`, { method: "POST" });
+  if (!started.ok) throw new Error("Failed to start text extraction");
+
+  for (const deadline = Date.now() + TEXT_JOB_TIMEOUT_MS; Date.now() < deadline; ) {
+    await new Promise(resolve => setTimeout(resolve, TEXT_JOB_POLL_MS));
+    const response = await fetch(`/api/documents/${docId}/extract-text`);
+    if (!response.ok) throw new Error("Failed to check text extraction");
+    const { job } = (await response.json()) as { job: DocumentTextJob | null };
+    if (!job || (job.status !== "pending" && job.status !== "running")) return job;
+  }
+  throw new Error("Text extraction is taking longer than expected; try again later");
+}
+
 export default function InvoiceClassificationPage() {
   const router = useRouter();
   const [documents, setDocuments] = useState<Document[]>([]);
   const [organisations, setOrganisations] = useState<Organisation[]>([]);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState<Record<string, boolean>>({});
-  const [formData, setFormData] = useState<Record<string, {
-    invoice_type?: 'cost' | 'revenue' | null;
-    amount_original?: string;
-    currency?: string;
-    invoice_date?: string;
-  }>>({});
+  const [formData, setFormData] = useState<Record<string, InvoiceForm>>({});
+  const [extractions, setExtractions] = useState<Record<string, InvoiceExtraction>>({});
+  const [extracting, setExtracting] = useState<Record<string, boolean>>({});
+  const [extractErrors, setExtractErrors] = useState<Record<string, string>>({});
 
   useEffect(() => {
     loadData();
@@ -46,17 +129,30 @@ export default function InvoiceClassificationPage() {
       setDocuments(unclassifiedDocs);
       setOrganisations(orgsData);
 
-      // Initialize form data
-      const initialFormData: Record<string, any> = {};
+      // Initialize form data: values already on the document, then fields read from the invoice
+      const ownNips = getOwnNips(orgsData);
+      const initialFormData: Record<string, InvoiceForm> = {};
+      const initialExtractions: Record<string, InvoiceExtraction> = {};
       unclassifiedDocs.forEach(doc => {
+        const extracted = doc.invoice_extraction
+          ? formFromExtraction(doc.invoice_extraction, ownNips)
+          : { values: {} as InvoiceForm, confidence: {} };
         initialFormData[doc.id] = {
-          invoice_type: doc.invoice_type || null,
-          amount_original: doc.amount_original?.toString() || '',
-          currency: doc.currency || '',
-          invoice_date: doc.invoice_date || '',
+          invoice_type: doc.invoice_type || extracted.values.invoice_type || null,
+          amount_original: doc.amount_original?.toString() || extracted.values.amount_original || '',
+          currency: doc.currency || extracted.values.currency || '',
+          invoice_date: doc.invoice_date || extracted.values.invoice_date || '',
+          invoice_number: doc.invoice_number || extracted.values.invoice_number || '',
+          amount_net: doc.amount_net?.toString() || extracted.values.amount_net || '',
+          vat_rate: doc.vat_rate || extracted.values.vat_rate || '',
+          vat_amount: doc.vat_amount?.toString() || extracted.values.vat_amount || '',
+          counterparty_nip: doc.counterparty_nip || extracted.values.counterparty_nip || '',
+          counterparty_name: doc.counterparty_name || extracted.values.counterparty_name || doc.organisation_name_guess || '',
         };
+        if (doc.invoice_extraction) initialExtractions[doc.id] = doc.invoice_extraction;
       });
       setFormData(initialFormData);
+      setExtractions(initialExtractions);
     } catch (error) {
       console.error("Error loading data:", error);
     } finally {
@@ -64,6 +160,49 @@ export default function InvoiceClassificationPage() {
     }
   };
 
+  const handleExtract = async (docId: string) => {
+    setExtracting(prev => ({ ...prev, [docId]: true }));
+    setExtractErrors(prev => ({ ...prev, [docId]: '' }));
+
+    try {
+      let result = await extractInvoiceData(docId);
+      if (result.ok && result.textJobId) {
+        const job = await waitForTextJob(docId);
+        result = await extractInvoiceData(docId, job?.id ?? result.textJobId);
+      }
+      if (!result.ok || !result.extraction) {
+        throw new Error(result.error || 'Failed to read the invoice');
+      }
+      const extraction = result.extraction;
+      const { values } = formFromExtraction(extraction, getOwnNips(organisations));
+
+      // Fill only what the user has not entered yet; the name guessed from the sender is replaced
+      const nameGuess = documents.find(doc => doc.id === docId)?.organisation_name_guess;
+      setFormData(prev => {
+        const next: InvoiceForm = { ...prev[docId] };
+        if (nameGuess && next.counterparty_name === nameGuess) next.counterparty_name = '';
+        for (const key of Object.keys(values) as Array<keyof InvoiceForm>) {
+          if (!next[key]) (next as Record<string, unknown>)[key] = values[key];
+        }
+        if (!next.counterparty_name && nameGuess) next.counterparty_name = nameGuess;
+        return { ...prev, [docId]: next };
+      });
+      setExtractions(prev => ({ ...prev, [docId]: extraction }));
+    } catch (error) {
+      console.error('Error extracting invoice data:', error);
+      setExtractErrors(prev => ({ ...prev, [docId]: error instanceof Error ? error.message : 'Unknown error' }));
+    } finally {
+      setExtracting(prev => ({ ...prev, [docId]: false }));
+    }
+  };
+
+  // One at a time: reading scans runs OCR on the server
+  const handleExtractAll = async () => {
+    for (const doc of documents.filter(d => !extractions[d.id])) {
+      await handleExtract(doc.id);
+    }
+  };
+
   const handleSave = async (docId: string) => {
     const data = formData[docId];
     if (!data) return;
@@ -83,6 +222,11 @@ export default function InvoiceClassificationPage() {
       return;
     }
 
+    if (data.counterparty_nip && validateTaxId(data.counterparty_nip)) {
+      alert("Please enter a valid NIP");
+      return;
+    }
+
     setSaving(prev => ({ ...prev, [docId]: true }));
 
     try {
@@ -94,6 +238,14 @@ export default function InvoiceClassificationPage() {
           amount_original: parseFloat(data.amount_original),
           currency: data.currency,
           invoice_date: data.invoice_date || undefined,
+          invoice_number: data.invoice_number || undefined,
+          ...(data.vat_rate ? {
+            amount_net: parseFloat(data.amount_net || ''),
+            vat_rate: data.vat_rate,
+            vat_amount: parseFloat(data.vat_amount || '0'),
+            counterparty_nip: data.counterparty_nip || undefined,
+            counterparty_name: data.counterparty_name || undefined,
+          } : {}),
         }),
       });
 
@@ -112,6 +264,19 @@ export default function InvoiceClassificationPage() {
     }
   };
 
+  // Net and rate fill in the VAT amount; the gross amount stays as entered
+  const updateVat = (docId: string, changes: { amount_net?: string; vat_rate?: string }) => {
+    setFormData(prev => {
+      const next = { ...prev[docId], ...changes };
+      const net = parseFloat(next.amount_net || '');
+      const percent = Number(next.vat_rate);
+      if (Number.isFinite(net) && next.vat_rate) {
+        next.vat_amount = Number.isFinite(percent) ? (Math.round(net * percent) / 100).toFixed(2) : '0';
+      }
+      return { ...prev, [docId]: next };
+    });
+  };
+
   const getDocumentDate = (doc: Document): string => {
     if (doc.invoice_date) {
       return format(new Date(doc.invoice_date), 'yyyy-MM-dd');
@@ -129,6 +294,10 @@ export default function InvoiceClassificationPage() {
     return doc.organisation_name_guess || '—';
   };
 
+  const ownNips = getOwnNips(organisations);
+  const pendingExtraction = documents.filter(doc => !extractions[doc.id]).length;
+  const extractingAny = Object.values(extracting).some(Boolean);
+
   if (loading) {
     return (
       <div className="p-6">
@@ -165,10 +334,24 @@ export default function InvoiceClassificationPage() {
         >
           ← Back
         </button>
-        <h1 className="text-xl font-semibold text-white mb-2">Invoice Classification</h1>
-        <p className="text-sm text-neutral-400">
-          Classify {documents.length} document{documents.length !== 1 ? 's' : ''} imported from Gmail
-        </p>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h1 className="text-xl font-semibold text-white mb-2">Invoice Classification</h1>
+            <p className="text-sm text-neutral-400">
+              Classify {documents.length} document{documents.length !== 1 ? 's' : ''} imported from Gmail
+            </p>
+          </div>
+          {pendingExtraction > 0 && (
+            <button
+              onClick={handleExtractAll}
+              disabled={extractingAny}
+              title="Read invoice number, dates, amounts and tax ids from KSeF XML files and PDFs"
+              className="px-3 py-1.5 bg-neutral-800 border border-neutral-700 text-white rounded text-xs font-medium hover:bg-neutral-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {extractingAny ? 'Reading invoices...' : `Read ${pendingExtraction} invoice${pendingExtraction !== 1 ? 's' : ''}`}
+            </button>
+          )}
+        </div>
       </div>
 
       <div className="border border-neutral-800 rounded-lg overflow-hidden">
@@ -182,6 +365,7 @@ export default function InvoiceClassificationPage() {
               <th className="text-left py-3 px-4 text-xs font-semibold text-neutral-400">Invoice Type</th>
               <th className="text-left py-3 px-4 text-xs font-semibold text-neutral-400">Amount</th>
               <th className="text-left py-3 px-4 text-xs font-semibold text-neutral-400">Currency</th>
+              <th className="text-left py-3 px-4 text-xs font-semibold text-neutral-400">VAT</th>
               <th className="text-left py-3 px-4 text-xs font-semibold text-neutral-400">Actions</th>
             </tr>
           </thead>
@@ -189,6 +373,11 @@ export default function InvoiceClassificationPage() {
             {documents.map((doc) => {
               const data = formData[doc.id] || {};
               const isSaving = saving[doc.id] || false;
+              const extraction = extractions[doc.id];
+              const prefill = extraction ? formFromExtraction(extraction, ownNips) : null;
+              // Confidence is shown while a field still holds the value read from the invoice
+              const confidenceOf = (key: keyof InvoiceForm) =>
+                prefill && data[key] === prefill.values[key] ? prefill.confidence[key] : undefined;
 
               return (
                 <tr key={doc.id} className="border-b border-neutral-800/50 hover:bg-neutral-900/30">
@@ -200,7 +389,8 @@ export default function InvoiceClassificationPage() {
                         ...prev,
                         [doc.id]: { ...prev[doc.id], invoice_date: e.target.value }
                       }))}
-                      className="bg-neutral-800 border border-neutral-700 rounded px-2 py-1 text-xs text-white focus:outline-none focus:ring-1 focus:ring-neutral-600"
+                      title={confidenceTitle(confidenceOf("invoice_date"))}
+                      className={`bg-neutral-800 border ${confidenceBorder(confidenceOf("invoice_date"))} rounded px-2 py-1 text-xs text-white focus:outline-none focus:ring-1 focus:ring-neutral-600`}
                     />
                   </td>
                   <td className="py-3 px-4 text-neutral-300">
@@ -223,6 +413,17 @@ export default function InvoiceClassificationPage() {
                     >
                       {doc.name}
                     </a>
+                    {extraction && (
+                      <div
+                        className="text-[11px] text-neutral-500 mt-1"
+                        title="Fields read from the invoice; green, amber and red borders mark high, medium and low confidence"
+                      >
+                        {extraction.source === 'ksef_xml' ? 'KSeF XML' : 'PDF text'} · {Math.round(extraction.confidence * 100)}%
+                      </div>
+                    )}
+                    {extractErrors[doc.id] && (
+                      <div className="text-[11px] text-red-400 mt-1 max-w-48">{extractErrors[doc.id]}</div>
+                    )}
                   </td>
                   <td className="py-3 px-4">
                     <select
@@ -231,7 +432,8 @@ export default function InvoiceClassificationPage() {
                         ...prev,
                         [doc.id]: { ...prev[doc.id], invoice_type: e.target.value as 'cost' | 'revenue' || null }
                       }))}
-                      className="bg-neutral-800 border border-neutral-700 rounded px-2 py-1 text-xs text-white focus:outline-none focus:ring-1 focus:ring-neutral-600"
+                      title={confidenceTitle(confidenceOf("invoice_type"))}
+                      className={`bg-neutral-800 border ${confidenceBorder(confidenceOf("invoice_type"))} rounded px-2 py-1 text-xs text-white focus:outline-none focus:ring-1 focus:ring-neutral-600`}
                     >
                       <option value="">Select...</option>
                       <option value="cost">Cost</option>
@@ -248,7 +450,8 @@ export default function InvoiceClassificationPage() {
                         [doc.id]: { ...prev[doc.id], amount_original: e.target.value }
                       }))}
                       placeholder="0.00"
-                      className="w-24 bg-neutral-800 border border-neutral-700 rounded px-2 py-1 text-xs text-white focus:outline-none focus:ring-1 focus:ring-neutral-600"
+                      title={confidenceTitle(confidenceOf("amount_original"))}
+                      className={`w-24 bg-neutral-800 border ${confidenceBorder(confidenceOf("amount_original"))} rounded px-2 py-1 text-xs text-white focus:outline-none focus:ring-1 focus:ring-neutral-600`}
                     />
                   </td>
                   <td className="py-3 px-4">
@@ -258,7 +461,8 @@ export default function InvoiceClassificationPage() {
                         ...prev,
                         [doc.id]: { ...prev[doc.id], currency: e.target.value }
                       }))}
-                      className="bg-neutral-800 border border-neutral-700 rounded px-2 py-1 text-xs text-white focus:outline-none focus:ring-1 focus:ring-neutral-600"
+                      title={confidenceTitle(confidenceOf("currency"))}
+                      className={`bg-neutral-800 border ${confidenceBorder(confidenceOf("currency"))} rounded px-2 py-1 text-xs text-white focus:outline-none focus:ring-1 focus:ring-neutral-600`}
                     >
                       <option value="">Select...</option>
                       {CURRENCIES.map(currency => (
@@ -267,13 +471,95 @@ export default function InvoiceClassificationPage() {
                     </select>
                   </td>
                   <td className="py-3 px-4">
-                    <button
-                      onClick={() => handleSave(doc.id)}
-                      disabled={isSaving}
-                      className="px-3 py-1.5 bg-blue-600 text-white rounded text-xs font-medium hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-                    >
-                      {isSaving ? 'Saving...' : 'Save'}
-                    </button>
+                    <div className="grid grid-cols-2 gap-1 w-64">
+                      <input
+                        type="text"
+                        value={data.invoice_number || ''}
+                        onChange={(e) => setFormData(prev => ({
+                          ...prev,
+                          [doc.id]: { ...prev[doc.id], invoice_number: e.target.value }
+                        }))}
+                        placeholder="Invoice no."
+                        title={confidenceTitle(confidenceOf("invoice_number"))}
+                        className={`col-span-2 bg-neutral-800 border ${confidenceBorder(confidenceOf("invoice_number"))} rounded px-2 py-1 text-xs text-white focus:outline-none focus:ring-1 focus:ring-neutral-600`}
+                      />
+                      <input
+                        type="number"
+                        step="0.01"
+                        value={data.amount_net || ''}
+                        onChange={(e) => updateVat(doc.id, { amount_net: e.target.value })}
+                        placeholder="Net"
+                        title={confidenceTitle(confidenceOf("amount_net"))}
+                        className={`bg-neutral-800 border ${confidenceBorder(confidenceOf("amount_net"))} rounded px-2 py-1 text-xs text-white focus:outline-none focus:ring-1 focus:ring-neutral-600`}
+                      />
+                      <select
+                        value={data.vat_rate || ''}
+                        onChange={(e) => updateVat(doc.id, { vat_rate: e.target.value })}
+                        title={confidenceTitle(confidenceOf("vat_rate"))}
+                        className={`bg-neutral-800 border ${confidenceBorder(confidenceOf("vat_rate"))} rounded px-2 py-1 text-xs text-white focus:outline-none focus:ring-1 focus:ring-neutral-600`}
+                      >
+                        <option value="">Rate...</option>
+                        {VAT_RATES.map(rate => (
+                          <option key={rate} value={rate}>{VAT_RATE_LABELS[rate]}</option>
+                        ))}
+                      </select>
+                      <input
+                        type="number"
+                        step="0.01"
+                        value={data.vat_amount || ''}
+                        onChange={(e) => setFormData(prev => ({
+                          ...prev,
+                          [doc.id]: { ...prev[doc.id], vat_amount: e.target.value }
+                        }))}
+                        placeholder="VAT"
+                        title={confidenceTitle(confidenceOf("vat_amount"))}
+                        className={`bg-neutral-800 border ${confidenceBorder(confidenceOf("vat_amount"))} rounded px-2 py-1 text-xs text-white focus:outline-none focus:ring-1 focus:ring-neutral-600`}
+                      />
+                      <input
+                        type="text"
+                        value={data.counterparty_nip || ''}
+                        onChange={(e) => setFormData(prev => ({
+                          ...prev,
+                          [doc.id]: { ...prev[doc.id], counterparty_nip: e.target.value }
+                        }))}
+                        placeholder="NIP"
+                        title={data.counterparty_nip
+                          ? validateTaxId(data.counterparty_nip) || confidenceTitle(confidenceOf("counterparty_nip")) || 'Valid NIP'
+                          : undefined}
+                        className={`bg-neutral-800 border rounded px-2 py-1 text-xs text-white font-mono focus:outline-none focus:ring-1 focus:ring-neutral-600 ${
+                          data.counterparty_nip && validateTaxId(data.counterparty_nip) ? 'border-red-600' : confidenceBorder(confidenceOf("counterparty_nip"))
+                        }`}
+                      />
+                      <input
+                        type="text"
+                        value={data.counterparty_name || ''}
+                        onChange={(e) => setFormData(prev => ({
+                          ...prev,
+                          [doc.id]: { ...prev[doc.id], counterparty_name: e.target.value }
+                        }))}
+                        placeholder="Counterparty name"
+                        title={confidenceTitle(confidenceOf("counterparty_name"))}
+                        className={`col-span-2 bg-neutral-800 border ${confidenceBorder(confidenceOf("counterparty_name"))} rounded px-2 py-1 text-xs text-white focus:outline-none focus:ring-1 focus:ring-neutral-600`}
+                      />
+                    </div>
+                  </td>
+                  <td className="py-3 px-4">
+                    <div className="flex flex-col gap-1">
+                      <button
+                        onClick={() => handleSave(doc.id)}
+                        disabled={isSaving}
+                        className="px-3 py-1.5 bg-blue-600 text-white rounded text-xs font-medium hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        {isSaving ? 'Saving...' : 'Save'}
+                      </button>
+                      <button
+                        onClick={() => handleExtract(doc.id)}
+                        disabled={extracting[doc.id]}
+                        className="px-3 py-1 text-neutral-400 hover:text-neutral-200 text-xs transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        {extracting[doc.id] ? 'Reading...' : extraction ? 'Read again' : 'Read invoice'}
+                      </button>
+                    </div>
                   </td>
                 </tr>
               );
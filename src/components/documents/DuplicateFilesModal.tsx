@@ -0,0 +1,237 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { listDuplicateGroups, mergeDuplicateGroup, scanFileHashes } from '@/app/actions/documentDuplicates';
+import type { BlobReference, BlobTable, DuplicateGroup, MergeResult, ScanCursor } from '@/server/documents/duplicates';
+
+interface DuplicateFilesModalProps {
+  onClose: () => void;
+  onMerged?: () => void;
+}
+
+const TABLE_LABELS: Record<BlobTable, string> = {
+  documents: 'Document',
+  evidence: 'Project evidence',
+  finance_trip_evidence: 'Trip receipt',
+  timeline_attachments: 'Timeline attachment',
+};
+
+function formatFileSize(bytes: number | null) {
+  if (!bytes) return '';
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function describeMerge(result: MergeResult) {
+  const parts = [
+    result.documentsMerged && `${result.documentsMerged} documents`,
+    result.evidenceMerged && `${result.evidenceMerged} evidence files`,
+    result.tripEvidenceMerged && `${result.tripEvidenceMerged} trip receipts`,
+    result.attachmentsMerged && `${result.attachmentsMerged} attachments`,
+  ].filter(Boolean);
+  const merged = parts.length > 0 ? `merged ${parts.join(', ')}` : 'no rows to merge';
+  return `${merged}; ${result.filesRemoved} stored copies removed`;
+}
+
+export default function DuplicateFilesModal({ onClose, onMerged }: DuplicateFilesModalProps) {
+  const [groups, setGroups] = useState<DuplicateGroup[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [scanning, setScanning] = useState(false);
+  const [scanProgress, setScanProgress] = useState({ hashed: 0, failed: 0 });
+  const [mergingId, setMergingId] = useState<string | null>(null);
+  const [keepers, setKeepers] = useState<Record<string, string>>({});
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  useEffect(() => {
+    loadGroups();
+  }, []);
+
+  const loadGroups = async () => {
+    setLoading(true);
+    try {
+      const result = await listDuplicateGroups();
+      if (!result.ok) {
+        setMessage({ type: 'error', text: result.error || 'Failed to load duplicates' });
+        return;
+      }
+      setGroups(result.groups || []);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleScan = async () => {
+    setScanning(true);
+    setMessage(null);
+    const progress = { hashed: 0, failed: 0 };
+    setScanProgress(progress);
+    try {
+      let cursor: ScanCursor | null = null;
+      do {
+        const result = await scanFileHashes(cursor);
+        if (!result.ok || !result.result) {
+          setMessage({ type: 'error', text: result.error || 'Scan failed' });
+          return;
+        }
+        progress.hashed += result.result.hashed;
+        progress.failed += result.result.failed;
+        setScanProgress({ ...progress });
+        cursor = result.result.cursor;
+      } while (cursor);
+
+      setMessage({
+        type: progress.failed > 0 ? 'error' : 'success',
+        text: `Hashed ${progress.hashed} files${progress.failed > 0 ? `, ${progress.failed} could not be read` : ''}`,
+      });
+      await loadGroups();
+    } finally {
+      setScanning(false);
+    }
+  };
+
+  const mergeGroup = async (group: DuplicateGroup) => {
+    const result = await mergeDuplicateGroup(group.blob.id, keepers[group.blob.id] || null);
+    if (!result.ok || !result.result) {
+      throw new Error(result.error || 'Merge failed');
+    }
+    return result.result;
+  };
+
+  const handleMerge = async (group: DuplicateGroup) => {
+    setMergingId(group.blob.id);
+    setMessage(null);
+    try {
+      const result = await mergeGroup(group);
+      setMessage({ type: 'success', text: `${group.references[0]?.name}: ${describeMerge(result)}` });
+      await loadGroups();
+      onMerged?.();
+    } catch (err) {
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Merge failed' });
+    } finally {
+      setMergingId(null);
+    }
+  };
+
+  const handleMergeAll = async () => {
+    if (!confirm(`Merge all ${groups.length} duplicate groups? Duplicate rows are deleted after their links are moved.`)) return;
+    setMergingId('all');
+    setMessage(null);
+    const total: MergeResult = { documentsMerged: 0, evidenceMerged: 0, tripEvidenceMerged: 0, attachmentsMerged: 0, filesRemoved: 0 };
+    try {
+      for (const group of groups) {
+        const result = await mergeGroup(group);
+        for (const key of Object.keys(total) as Array<keyof MergeResult>) {
+          total[key] += result[key];
+        }
+      }
+      setMessage({ type: 'success', text: `All groups: ${describeMerge(total)}` });
+    } catch (err) {
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Merge failed' });
+    } finally {
+      setMergingId(null);
+      await loadGroups();
+      onMerged?.();
+    }
+  };
+
+  const renderReference = (group: DuplicateGroup, ref: BlobReference) => {
+    const documents = group.references.filter(r => r.table === 'documents');
+    const keeperId = keepers[group.blob.id] || documents[0]?.id;
+    const isCopy = ref.bucket !== group.blob.storage_bucket || ref.path !== group.blob.storage_path;
+
+    return (
+      <li key={`${ref.table}:${ref.id}`} className="flex items-center gap-2 text-xs">
+        {ref.table === 'documents' && documents.length > 1 ? (
+          <input
+            type="radio"
+            name={`keep-${group.blob.id}`}
+            checked={keeperId === ref.id}
+            onChange={() => setKeepers({ ...keepers, [group.blob.id]: ref.id })}
+            title="Keep this document"
+          />
+        ) : (
+          <span className="w-[13px]" />
+        )}
+        <span className="text-neutral-500 w-36 shrink-0">{TABLE_LABELS[ref.table]}</span>
+        <span className="text-white truncate">{ref.name}</span>
+        <span className="text-neutral-500 shrink-0">{new Date(ref.createdAt).toLocaleDateString()}</span>
+        {isCopy && (
+          <span className="px-1.5 py-0.5 rounded bg-yellow-900/30 text-yellow-400 shrink-0">separate copy</span>
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+      <div className="bg-neutral-900 border border-neutral-800 rounded-lg w-full max-w-4xl max-h-[90vh] overflow-hidden flex flex-col">
+        <div className="p-4 border-b border-neutral-800 flex items-center justify-between">
+          <h3 className="text-lg font-semibold text-white">Duplicate files</h3>
+          <button
+            onClick={onClose}
+            className="text-neutral-400 hover:text-white text-xl"
+          >
+            ×
+          </button>
+        </div>
+
+        <div className="p-4 border-b border-neutral-800 flex items-center gap-2">
+          <button
+            onClick={handleScan}
+            disabled={scanning || mergingId !== null}
+            className="text-xs bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white px-3 py-1 rounded"
+          >
+            {scanning ? `Scanning... ${scanProgress.hashed} hashed` : 'Scan stored files'}
+          </button>
+          <button
+            onClick={handleMergeAll}
+            disabled={scanning || mergingId !== null || groups.length === 0}
+            className="text-xs bg-neutral-800 hover:bg-neutral-700 disabled:opacity-50 text-white px-3 py-1 rounded"
+          >
+            {mergingId === 'all' ? 'Merging...' : 'Merge all'}
+          </button>
+          <span className="text-xs text-neutral-500">
+            Files uploaded before deduplication are only found after a scan
+          </span>
+        </div>
+
+        {message && (
+          <div className={`mx-4 mt-4 p-2 rounded text-xs ${message.type === 'error' ? 'bg-red-900/30 text-red-400' : 'bg-green-900/30 text-green-400'}`}>
+            {message.text}
+          </div>
+        )}
+
+        <div className="p-4 overflow-y-auto space-y-3">
+          {loading ? (
+            <div className="text-neutral-400 text-sm">Loading duplicates...</div>
+          ) : groups.length === 0 ? (
+            <div className="text-neutral-500 text-sm">No duplicate files found.</div>
+          ) : (
+            groups.map(group => (
+              <div key={group.blob.id} className="border border-neutral-800 rounded-lg p-3">
+                <div className="flex items-center justify-between gap-2 mb-2">
+                  <div className="text-xs text-neutral-400 truncate">
+                    <span className="font-mono">{group.blob.sha256.slice(0, 12)}</span>
+                    {' · '}
+                    {group.references.length} references
+                    {group.blob.file_size ? ` · ${formatFileSize(group.blob.file_size)}` : ''}
+                  </div>
+                  <button
+                    onClick={() => handleMerge(group)}
+                    disabled={scanning || mergingId !== null}
+                    className="text-xs bg-white text-black hover:bg-neutral-100 disabled:opacity-50 px-3 py-1 rounded shrink-0"
+                  >
+                    {mergingId === group.blob.id ? 'Merging...' : 'Merge'}
+                  </button>
+                </div>
+                <ul className="space-y-1">
+                  {group.references.map(ref => renderReference(group, ref))}
+                </ul>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -48,7 +48,7 @@ export default function EvidenceGallery({
       const urlPromises = items.map(async (item) => {
         if (!item.storage_path) return [item.id, ''];
         try {
-          const response = await fetch(`/api/evidence/signed-url?path=${encodeURIComponent(item.storage_path)}`);
+          const response = await fetch(`/api/evidence/signed-url?bucket=${encodeURIComponent(item.storage_bucket || 'evidence')}&path=${encodeURIComponent(item.storage_path)}`);
           if (response.ok) {
             const data = await response.json();
             return [item.id, data.url];
@@ -1,12 +1,19 @@
 'use client';
 
 import { Transaction } from '@/lib/finance/queries/getTransactions';
+import type { FinanceTripItem } from '@/features/finance-trips/db/trips';
+import type { TripAllowanceLine } from '@/lib/trips/allowances';
 
 interface ReimbursementSummaryProps {
-  transactions: Transaction[];
+  transactions?: Transaction[];
+  tripItems?: FinanceTripItem[];
+  // Per diem, lump sums and mileage computed for the trip
+  allowances?: TripAllowanceLine[];
   className?: string;
 }
 
+type ReimbursementItem = CurrencyTotal['items'][number];
+
 interface CurrencyTotal {
   currency: string;
   total: number;
@@ -21,7 +28,9 @@ interface CurrencyTotal {
 }
 
 export default function ReimbursementSummary({
-  transactions,
+  transactions = [],
+  tripItems = [],
+  allowances = [],
   className = '',
 }: ReimbursementSummaryProps) {
   // Filter and calculate reimbursable transactions
@@ -36,11 +45,30 @@ export default function ReimbursementSummary({
       return true;
     });
 
+    const items: ReimbursementItem[] = [
+      ...reimbursable.map(transaction => ({
+        id: transaction.id,
+        vendor: transaction.counterparty_name || transaction.description || 'Unknown',
+        date: transaction.booking_date,
+        amount: Math.abs(transaction.amount),
+        currency: transaction.currency || 'PLN',
+        category: transaction.category || 'uncategorised',
+      })),
+      ...tripItems
+        .filter(item => !item.paid_by_company_card && !item.exclude_from_reimbursement)
+        .map(item => ({
+          id: item.id,
+          vendor: item.vendor || item.description || 'Unknown',
+          date: item.item_date || '',
+          amount: Math.abs(item.amount),
+          currency: item.currency || 'PLN',
+          category: item.category || 'uncategorised',
+        })),
+    ];
+
     // Group by currency
     const byCurrency: Record<string, CurrencyTotal> = {};
-
-    reimbursable.forEach(transaction => {
-      const currency = transaction.currency || 'PLN';
+    const groupFor = (currency: string) => {
       if (!byCurrency[currency]) {
         byCurrency[currency] = {
           currency,
@@ -48,17 +76,13 @@ export default function ReimbursementSummary({
           items: [],
         };
       }
+      return byCurrency[currency];
+    };
 
-      const amount = Math.abs(transaction.amount);
-      byCurrency[currency].total += amount;
-      byCurrency[currency].items.push({
-        id: transaction.id,
-        vendor: transaction.counterparty_name || transaction.description || 'Unknown',
-        date: transaction.booking_date,
-        amount,
-        currency,
-        category: transaction.category || 'uncategorised',
-      });
+    items.forEach(item => {
+      const group = groupFor(item.currency);
+      group.total += item.amount;
+      group.items.push(item);
     });
 
     // Sort items by date (newest first)
@@ -66,6 +90,20 @@ export default function ReimbursementSummary({
       group.items.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
     });
 
+    // Allowances have no date; they follow the expenses of their currency
+    allowances.forEach((allowance, index) => {
+      const group = groupFor(allowance.currency);
+      group.total += allowance.amount;
+      group.items.push({
+        id: `${allowance.kind}-${index}`,
+        vendor: allowance.label,
+        date: '',
+        amount: allowance.amount,
+        currency: allowance.currency,
+        category: allowance.detail,
+      });
+    });
+
     return Object.values(byCurrency);
   };
 
@@ -125,8 +163,12 @@ export default function ReimbursementSummary({
                 <div className="flex-1 min-w-0">
                   <div className="text-white truncate">{item.vendor}</div>
                   <div className="flex items-center gap-2 text-neutral-500 mt-0.5">
-                    <span>{formatDate(item.date)}</span>
-                    <span>•</span>
+                    {item.date && (
+                      <>
+                        <span>{formatDate(item.date)}</span>
+                        <span>•</span>
+                      </>
+                    )}
                     <span>{item.category}</span>
                   </div>
                 </div>
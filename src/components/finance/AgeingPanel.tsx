@@ -0,0 +1,193 @@
+'use client';
+
+import { Fragment, useEffect, useState } from 'react';
+import { getAgeingReport } from '@/lib/finance/queries/getAgeingReport';
+import { AGEING_BUCKETS, AGEING_BUCKET_LABELS } from '@/lib/finance/ageing';
+import type { AgeingReport } from '@/lib/finance/ageing';
+import { BASE_CURRENCY } from '@/lib/finance/baseAmount';
+
+interface AgeingPanelProps {
+  orgId: string | null;
+  refreshKey?: number;
+}
+
+type Side = 'receivables' | 'payables';
+
+export default function AgeingPanel({ orgId, refreshKey }: AgeingPanelProps) {
+  const [report, setReport] = useState<AgeingReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [side, setSide] = useState<Side>('receivables');
+  const [asOf, setAsOf] = useState(new Date().toISOString().slice(0, 10));
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [exporting, setExporting] = useState(false);
+
+  useEffect(() => {
+    loadReport();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [orgId, asOf, refreshKey]);
+
+  const loadReport = async () => {
+    setLoading(true);
+    try {
+      setReport(await getAgeingReport({ orgId, asOf }));
+    } catch (error) {
+      console.error('Error loading ageing report:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      const response = await fetch(
+        `/api/finance/ageing/export-csv?asOf=${asOf}${orgId ? `&orgId=${encodeURIComponent(orgId)}` : ''}`
+      );
+      if (!response.ok) throw new Error('Export failed');
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `ageing-${asOf}.csv`;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+    } catch (error) {
+      console.error('Error exporting ageing CSV:', error);
+      alert('Nie udało się wyeksportować CSV');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const formatAmount = (amount: number) => {
+    if (Math.abs(amount) < 0.005) return '–';
+    return new Intl.NumberFormat('pl-PL', {
+      style: 'currency',
+      currency: BASE_CURRENCY,
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 0,
+    }).format(amount);
+  };
+
+  const rows = report ? report[side] : [];
+  const totals = report ? (side === 'receivables' ? report.receivablesTotals : report.payablesTotals) : null;
+  const grandTotal = totals ? AGEING_BUCKETS.reduce((sum, bucket) => sum + totals[bucket], 0) : 0;
+
+  return (
+    <div className="bg-neutral-900 border border-neutral-800 rounded-lg p-4 space-y-3">
+      <div className="flex items-center gap-2">
+        <h3 className="text-sm font-semibold text-white">Wiekowanie należności i zobowiązań</h3>
+        <div className="flex gap-1 ml-4">
+          {(['receivables', 'payables'] as Side[]).map(s => (
+            <button
+              key={s}
+              onClick={() => {
+                setSide(s);
+                setExpanded(null);
+              }}
+              className={`px-2 py-1 text-xs rounded ${
+                side === s ? 'bg-neutral-700 text-white' : 'text-neutral-400 hover:text-white'
+              }`}
+            >
+              {s === 'receivables' ? 'Należności' : 'Zobowiązania'}
+            </button>
+          ))}
+        </div>
+        <label className="text-xs text-neutral-400 ml-auto flex items-center gap-1">
+          Na dzień
+          <input
+            type="date"
+            value={asOf}
+            onChange={(e) => e.target.value && setAsOf(e.target.value)}
+            className="text-xs bg-neutral-800 border border-neutral-700 rounded px-2 py-1 text-white"
+          />
+        </label>
+        <button
+          onClick={handleExport}
+          disabled={exporting}
+          className="px-3 py-1 text-xs bg-neutral-700 hover:bg-neutral-600 disabled:opacity-50 text-white rounded"
+        >
+          {exporting ? 'Eksportowanie...' : 'Eksport CSV'}
+        </button>
+      </div>
+
+      {loading ? (
+        <div className="text-xs text-neutral-400">Ładowanie...</div>
+      ) : rows.length === 0 ? (
+        <div className="text-xs text-neutral-500 py-2">
+          {side === 'receivables' ? 'Brak otwartych faktur sprzedażowych' : 'Brak otwartych faktur kosztowych'}
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-neutral-400 border-b border-neutral-800">
+                <th className="text-left py-2 pr-2">{side === 'receivables' ? 'Organizacja' : 'Dostawca'}</th>
+                {AGEING_BUCKETS.map(bucket => (
+                  <th key={bucket} className="text-right py-2 px-2">{AGEING_BUCKET_LABELS[bucket]}</th>
+                ))}
+                <th className="text-right py-2 pl-2">Razem</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(row => (
+                <Fragment key={row.party}>
+                  <tr
+                    onClick={() => setExpanded(expanded === row.party ? null : row.party)}
+                    className="border-b border-neutral-800/50 text-white cursor-pointer hover:bg-neutral-800/50"
+                  >
+                    <td className="py-1.5 pr-2">{row.party}</td>
+                    {AGEING_BUCKETS.map(bucket => (
+                      <td
+                        key={bucket}
+                        className={`text-right py-1.5 px-2 tabular-nums ${
+                          bucket === '90_plus' && row.buckets[bucket] > 0 ? 'text-red-400' : ''
+                        }`}
+                      >
+                        {formatAmount(row.buckets[bucket])}
+                      </td>
+                    ))}
+                    <td className="text-right py-1.5 pl-2 tabular-nums font-medium">{formatAmount(row.total)}</td>
+                  </tr>
+                  {expanded === row.party && row.items.map(item => (
+                    <tr key={item.id} className="text-neutral-400 bg-neutral-800/30">
+                      <td className="py-1 pr-2 pl-4" colSpan={3}>
+                        {item.invoice_number || item.name}
+                        <span className="ml-2 text-neutral-500">
+                          {item.invoice_date} • termin {item.due}
+                        </span>
+                      </td>
+                      <td className="py-1 px-2 text-right" colSpan={3}>
+                        {item.days_overdue > 0 ? `${item.days_overdue} dni po terminie` : 'w terminie'}
+                      </td>
+                      <td className="py-1 pl-2 text-right tabular-nums">{formatAmount(item.open_base)}</td>
+                    </tr>
+                  ))}
+                </Fragment>
+              ))}
+            </tbody>
+            {totals && (
+              <tfoot>
+                <tr className="text-white font-medium border-t border-neutral-700">
+                  <td className="py-2 pr-2">Razem</td>
+                  {AGEING_BUCKETS.map(bucket => (
+                    <td key={bucket} className="text-right py-2 px-2 tabular-nums">{formatAmount(totals[bucket])}</td>
+                  ))}
+                  <td className="text-right py-2 pl-2 tabular-nums">{formatAmount(grandTotal)}</td>
+                </tr>
+              </tfoot>
+            )}
+          </table>
+        </div>
+      )}
+
+      {report && report.unconvertedCount > 0 && (
+        <div className="text-xs text-yellow-400">
+          {report.unconvertedCount} faktur walutowych pominięto – brak kursu NBP
+        </div>
+      )}
+    </div>
+  );
+}
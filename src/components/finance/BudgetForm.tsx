@@ -0,0 +1,157 @@
+'use client';
+
+import { useState } from 'react';
+import { BASE_CURRENCY } from '@/lib/finance/baseAmount';
+import { validateBudget } from '@/lib/finance/budgets';
+import type { BudgetInput, BudgetPeriodType, BudgetScope } from '@/lib/finance/budgets';
+import type { Project } from '@/lib/db/projects';
+
+interface BudgetFormProps {
+  initial?: Partial<BudgetInput>;
+  categories: string[];
+  projects: Project[];
+  submitLabel: string;
+  onSubmit: (budget: BudgetInput) => Promise<void>;
+  onCancel: () => void;
+}
+
+const inputClass = 'w-full text-xs bg-neutral-800 border border-neutral-700 rounded px-2 py-1 text-white';
+
+export default function BudgetForm({
+  initial = {},
+  categories,
+  projects,
+  submitLabel,
+  onSubmit,
+  onCancel,
+}: BudgetFormProps) {
+  const today = new Date().toISOString().slice(0, 10);
+  const [scope, setScope] = useState<BudgetScope>(initial.scope || 'category');
+  const [category, setCategory] = useState(initial.category || '');
+  const [projectId, setProjectId] = useState(initial.project_id || '');
+  const [periodType, setPeriodType] = useState<BudgetPeriodType>(initial.period_type || 'month');
+  const [month, setMonth] = useState((initial.period_start || today).slice(0, 7));
+  const [year, setYear] = useState((initial.period_start || today).slice(0, 4));
+  const [amount, setAmount] = useState(initial.amount != null ? String(initial.amount) : '');
+  const [note, setNote] = useState(initial.note || '');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async () => {
+    const budget: BudgetInput = {
+      scope,
+      category: scope === 'category' ? category.trim() : null,
+      project_id: scope === 'project' ? projectId || null : null,
+      period_type: periodType,
+      period_start: periodType === 'year' ? `${year.trim()}-01-01` : `${month}-01`,
+      amount: Number.parseFloat(amount.replace(',', '.')),
+      note: note.trim() || null,
+    };
+
+    const validationError = validateBudget(budget);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      await onSubmit(budget);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Nie udało się zapisać budżetu');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-2 gap-2">
+        <label className="text-xs text-neutral-400 space-y-1">
+          <span>Dotyczy</span>
+          <select value={scope} onChange={(e) => setScope(e.target.value as BudgetScope)} className={inputClass}>
+            <option value="category">Kategorii</option>
+            <option value="project">Projektu</option>
+          </select>
+        </label>
+        {scope === 'category' ? (
+          <label className="text-xs text-neutral-400 space-y-1">
+            <span>Kategoria</span>
+            <input
+              value={category}
+              onChange={(e) => setCategory(e.target.value)}
+              list="budget-categories"
+              className={inputClass}
+            />
+            <datalist id="budget-categories">
+              {categories.map(cat => (
+                <option key={cat} value={cat} />
+              ))}
+            </datalist>
+          </label>
+        ) : (
+          <label className="text-xs text-neutral-400 space-y-1">
+            <span>Projekt</span>
+            <select value={projectId} onChange={(e) => setProjectId(e.target.value)} className={inputClass}>
+              <option value="">Wybierz projekt</option>
+              {projects.map(project => (
+                <option key={project.id} value={project.id}>{project.title}</option>
+              ))}
+            </select>
+          </label>
+        )}
+        <label className="text-xs text-neutral-400 space-y-1">
+          <span>Okres</span>
+          <select
+            value={periodType}
+            onChange={(e) => setPeriodType(e.target.value as BudgetPeriodType)}
+            className={inputClass}
+          >
+            <option value="month">Miesięczny</option>
+            <option value="year">Roczny</option>
+          </select>
+        </label>
+        <label className="text-xs text-neutral-400 space-y-1">
+          <span>{periodType === 'year' ? 'Rok' : 'Miesiąc'}</span>
+          {periodType === 'year' ? (
+            <input
+              type="number"
+              value={year}
+              onChange={(e) => setYear(e.target.value)}
+              className={inputClass}
+            />
+          ) : (
+            <input type="month" value={month} onChange={(e) => setMonth(e.target.value)} className={inputClass} />
+          )}
+        </label>
+        <label className="text-xs text-neutral-400 space-y-1">
+          <span>Kwota ({BASE_CURRENCY})</span>
+          <input value={amount} onChange={(e) => setAmount(e.target.value)} className={inputClass} />
+        </label>
+        <label className="text-xs text-neutral-400 space-y-1">
+          <span>Notatka</span>
+          <input value={note} onChange={(e) => setNote(e.target.value)} className={inputClass} />
+        </label>
+      </div>
+
+      {error && <div className="text-xs text-red-400">{error}</div>}
+
+      <div className="flex gap-2">
+        <button
+          onClick={handleSubmit}
+          disabled={saving}
+          className="text-xs bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white px-3 py-1 rounded"
+        >
+          {saving ? 'Zapisywanie...' : submitLabel}
+        </button>
+        <button
+          onClick={onCancel}
+          className="text-xs bg-neutral-700 hover:bg-neutral-600 text-white px-3 py-1 rounded"
+        >
+          Anuluj
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,191 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { getBudgets } from '@/lib/finance/queries/getBudgets';
+import { createBudget } from '@/app/actions/finance/createBudget';
+import { updateBudget } from '@/app/actions/finance/updateBudget';
+import { deleteBudget } from '@/app/actions/finance/deleteBudget';
+import * as projectsDb from '@/lib/db/projects';
+import BudgetForm from './BudgetForm';
+import { BASE_CURRENCY } from '@/lib/finance/baseAmount';
+import { budgetTargetLabel } from '@/lib/finance/budgets';
+import type { Budget, BudgetInput } from '@/lib/finance/budgets';
+import type { Project } from '@/lib/db/projects';
+
+interface BudgetsModalProps {
+  orgId: string;
+  categories: string[];
+  onClose: () => void;
+  onChanged: () => void;
+}
+
+export default function BudgetsModal({
+  orgId,
+  categories,
+  onClose,
+  onChanged,
+}: BudgetsModalProps) {
+  const [budgets, setBudgets] = useState<Budget[]>([]);
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState<Budget | 'new' | null>(null);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  useEffect(() => {
+    loadBudgets();
+  }, [orgId]);
+
+  useEffect(() => {
+    projectsDb.getProjects().then(setProjects).catch(err => {
+      console.error('[BudgetsModal] Error loading projects:', err);
+    });
+  }, []);
+
+  const loadBudgets = async () => {
+    setLoading(true);
+    try {
+      setBudgets(await getBudgets(orgId));
+    } catch (error) {
+      console.error('Error loading budgets:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSubmit = async (budget: BudgetInput) => {
+    const result =
+      editing && editing !== 'new'
+        ? await updateBudget({ budgetId: editing.id, budget })
+        : await createBudget({ orgId, budget });
+
+    if (!result.ok) {
+      throw new Error(result.error || 'Nie udało się zapisać budżetu');
+    }
+    setEditing(null);
+    await loadBudgets();
+    onChanged();
+  };
+
+  const handleDelete = async (budget: Budget) => {
+    if (!confirm(`Usunąć budżet "${budgetTargetLabel(budget, projectTitles)}"?`)) return;
+    const result = await deleteBudget(budget.id);
+    if (!result.ok) {
+      setMessage({ type: 'error', text: result.error || 'Nie udało się usunąć budżetu' });
+      return;
+    }
+    await loadBudgets();
+    onChanged();
+  };
+
+  const projectTitles = Object.fromEntries(projects.map(project => [project.id, project.title]));
+
+  const formatCurrency = (amount: number) =>
+    new Intl.NumberFormat('pl-PL', { style: 'currency', currency: BASE_CURRENCY, minimumFractionDigits: 2 }).format(amount);
+
+  const formatPeriod = (budget: Budget) =>
+    budget.period_type === 'year' ? budget.period_start.slice(0, 4) : budget.period_start.slice(0, 7);
+
+  const toInput = (budget: Budget): BudgetInput => ({
+    scope: budget.scope,
+    category: budget.category,
+    project_id: budget.project_id,
+    period_type: budget.period_type,
+    period_start: budget.period_start,
+    amount: budget.amount,
+    note: budget.note,
+  });
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+      <div className="bg-neutral-900 border border-neutral-800 rounded-lg w-full max-w-3xl max-h-[90vh] overflow-hidden flex flex-col">
+        <div className="p-4 border-b border-neutral-800 flex items-center justify-between">
+          <h3 className="text-lg font-semibold text-white">Budżety</h3>
+          <button
+            onClick={onClose}
+            className="text-neutral-400 hover:text-white text-xl"
+          >
+            ×
+          </button>
+        </div>
+
+        <div className="p-4 border-b border-neutral-800 flex items-center gap-2">
+          <button
+            onClick={() => setEditing('new')}
+            className="text-xs bg-blue-600 hover:bg-blue-700 text-white px-3 py-1 rounded"
+          >
+            Nowy budżet
+          </button>
+          <div className="text-xs text-neutral-500 ml-auto">
+            Wykonanie liczone z wydatków (i linii podziału) w {BASE_CURRENCY}
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-3">
+          {message && (
+            <div className={`text-xs px-3 py-2 rounded ${
+              message.type === 'success' ? 'bg-green-900/30 text-green-400' : 'bg-red-900/30 text-red-400'
+            }`}>
+              {message.text}
+            </div>
+          )}
+
+          {editing && (
+            <div className="border border-neutral-800 rounded p-3">
+              <BudgetForm
+                key={editing === 'new' ? 'new' : editing.id}
+                initial={editing === 'new' ? {} : toInput(editing)}
+                categories={categories}
+                projects={projects}
+                submitLabel={editing === 'new' ? 'Dodaj budżet' : 'Zapisz'}
+                onSubmit={handleSubmit}
+                onCancel={() => setEditing(null)}
+              />
+            </div>
+          )}
+
+          {loading ? (
+            <div className="text-center text-neutral-400 py-8">Ładowanie...</div>
+          ) : budgets.length === 0 ? (
+            <div className="text-center text-neutral-400 py-8">Brak budżetów</div>
+          ) : (
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-left text-neutral-400 border-b border-neutral-800">
+                  <th className="py-2 pr-2">Okres</th>
+                  <th className="py-2 pr-2">Dotyczy</th>
+                  <th className="py-2 pr-2 text-right">Kwota</th>
+                  <th className="py-2 pr-2">Notatka</th>
+                  <th className="py-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {budgets.map(budget => (
+                  <tr key={budget.id} className="border-b border-neutral-800 text-white">
+                    <td className="py-2 pr-2 whitespace-nowrap">
+                      {formatPeriod(budget)}
+                      <span className="text-neutral-500 ml-1">{budget.period_type === 'year' ? 'rok' : 'mies.'}</span>
+                    </td>
+                    <td className="py-2 pr-2">
+                      <span className="text-neutral-500 mr-1">{budget.scope === 'project' ? 'Projekt:' : 'Kategoria:'}</span>
+                      {budgetTargetLabel(budget, projectTitles)}
+                    </td>
+                    <td className="py-2 pr-2 text-right whitespace-nowrap">{formatCurrency(budget.amount)}</td>
+                    <td className="py-2 pr-2 text-neutral-400">{budget.note}</td>
+                    <td className="py-2 text-right whitespace-nowrap space-x-2">
+                      <button onClick={() => setEditing(budget)} className="text-blue-400 hover:text-blue-300">
+                        Edytuj
+                      </button>
+                      <button onClick={() => handleDelete(budget)} className="text-red-400 hover:text-red-300">
+                        Usuń
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,251 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { getMonthlyTrend, MonthlyTrendData } from '@/lib/finance/queries/getMonthlyTrend';
+import { getCashFlowForecastInputs } from '@/lib/finance/queries/getCashFlowForecastInputs';
+import type { CashFlowForecastInputs } from '@/lib/finance/queries/getCashFlowForecastInputs';
+import { buildCashFlowForecast, DEFAULT_FORECAST_SCENARIO } from '@/lib/finance/forecast';
+import type { ForecastHorizon, ForecastScenario } from '@/lib/finance/forecast';
+
+interface CashFlowForecastPanelProps {
+  orgId: string | null;
+  refreshKey?: number;
+}
+
+// Actual months shown above the monthly forecast
+const ACTUAL_MONTHS = 3;
+
+export default function CashFlowForecastPanel({ orgId, refreshKey }: CashFlowForecastPanelProps) {
+  const [inputs, setInputs] = useState<CashFlowForecastInputs | null>(null);
+  const [actuals, setActuals] = useState<MonthlyTrendData[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [horizon, setHorizon] = useState<ForecastHorizon>('weeks');
+  const [scenario, setScenario] = useState<ForecastScenario>(DEFAULT_FORECAST_SCENARIO);
+  const [openingOverride, setOpeningOverride] = useState('');
+  const [showScenario, setShowScenario] = useState(false);
+
+  useEffect(() => {
+    loadForecast();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [orgId, refreshKey]);
+
+  const loadForecast = async () => {
+    setLoading(true);
+    try {
+      const [forecastInputs, trend] = await Promise.all([
+        getCashFlowForecastInputs({ orgId }),
+        getMonthlyTrend({ orgId, months: ACTUAL_MONTHS }),
+      ]);
+      setInputs(forecastInputs);
+      setActuals(trend);
+    } catch (error) {
+      console.error('Error loading cash-flow forecast:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const forecast = useMemo(() => {
+    if (!inputs) return null;
+    const override = parseFloat(openingOverride.replace(',', '.'));
+    return buildCashFlowForecast({
+      asOf: inputs.asOf,
+      horizon,
+      openingBalance: Number.isFinite(override) ? override : inputs.openingBalance,
+      subscriptions: inputs.subscriptions,
+      invoices: inputs.invoices,
+      scenario,
+    });
+  }, [inputs, horizon, scenario, openingOverride]);
+
+  const toggleSubscription = (id: string) => {
+    const cancelled = scenario.cancelledSubscriptionIds.includes(id)
+      ? scenario.cancelledSubscriptionIds.filter(s => s !== id)
+      : [...scenario.cancelledSubscriptionIds, id];
+    setScenario({ ...scenario, cancelledSubscriptionIds: cancelled });
+  };
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('pl-PL', {
+      style: 'currency',
+      currency: 'PLN',
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 0,
+    }).format(amount);
+  };
+
+  const formatPeriod = (key: string) => {
+    if (key.length === 7) {
+      const [year, monthNum] = key.split('-');
+      const date = new Date(parseInt(year), parseInt(monthNum) - 1);
+      return date.toLocaleDateString('pl-PL', { month: 'short', year: 'numeric' });
+    }
+    const [year, monthNum, day] = key.split('-');
+    return `${day}.${monthNum}.${year.slice(2)}`;
+  };
+
+  const currentMonth = inputs?.asOf.slice(0, 7);
+  const actualRows = horizon === 'months'
+    ? actuals.filter(m => m.month !== currentMonth).slice(-ACTUAL_MONTHS)
+    : [];
+
+  return (
+    <div className="bg-neutral-800 rounded-lg p-4 border border-neutral-700">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-xs font-semibold text-white">Prognoza przepływów</h3>
+        <div className="flex gap-1">
+          {(['weeks', 'months'] as ForecastHorizon[]).map(h => (
+            <button
+              key={h}
+              onClick={() => setHorizon(h)}
+              className={`px-2 py-0.5 text-[10px] rounded ${
+                horizon === h ? 'bg-neutral-700 text-white' : 'text-neutral-400 hover:text-white'
+              }`}
+            >
+              {h === 'weeks' ? '13 tygodni' : '12 miesięcy'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="text-xs text-neutral-400">Ładowanie...</div>
+      ) : !inputs || !forecast ? (
+        <div className="text-xs text-neutral-400">Brak danych</div>
+      ) : (
+        <div className="space-y-3">
+          <div className="flex items-center gap-2 text-xs">
+            <label className="text-neutral-400" htmlFor="forecast-opening">Saldo startowe</label>
+            <input
+              id="forecast-opening"
+              type="text"
+              inputMode="decimal"
+              value={openingOverride}
+              onChange={(e) => setOpeningOverride(e.target.value)}
+              placeholder={inputs.openingBalance.toFixed(2)}
+              title="Domyślnie suma zaksięgowanych transakcji; wpisz saldo z wyciągu, jeśli historia jest niepełna"
+              className="w-28 text-xs bg-neutral-900 border border-neutral-700 rounded px-2 py-0.5 text-white"
+            />
+            <button
+              onClick={() => setShowScenario(!showScenario)}
+              className="ml-auto text-[10px] text-neutral-400 hover:text-white"
+            >
+              {showScenario ? 'Ukryj scenariusz' : 'Scenariusz'}
+            </button>
+          </div>
+
+          {showScenario && (
+            <div className="space-y-2 p-2 bg-neutral-900 rounded text-xs">
+              <div className="flex flex-wrap items-center gap-3 text-neutral-300">
+                <label className="flex items-center gap-1">
+                  <input
+                    type="checkbox"
+                    checked={scenario.includeReceivables}
+                    onChange={(e) => setScenario({ ...scenario, includeReceivables: e.target.checked })}
+                  />
+                  Należności
+                </label>
+                <label className="flex items-center gap-1">
+                  <input
+                    type="checkbox"
+                    checked={scenario.includePayables}
+                    onChange={(e) => setScenario({ ...scenario, includePayables: e.target.checked })}
+                  />
+                  Zobowiązania
+                </label>
+                <label className="flex items-center gap-1">
+                  Opóźnienie wpływów
+                  <select
+                    value={scenario.receiptDelayDays}
+                    onChange={(e) => setScenario({ ...scenario, receiptDelayDays: Number(e.target.value) })}
+                    className="text-xs bg-neutral-800 border border-neutral-700 rounded px-1 py-0.5 text-white"
+                  >
+                    {[0, 14, 30, 60].map(days => (
+                      <option key={days} value={days}>{days} dni</option>
+                    ))}
+                  </select>
+                </label>
+              </div>
+              {inputs.subscriptions.length > 0 && (
+                <div>
+                  <div className="text-neutral-400 mb-1">Anuluj subskrypcje:</div>
+                  <div className="max-h-32 overflow-y-auto space-y-0.5">
+                    {inputs.subscriptions.map(sub => (
+                      <label key={sub.id} className="flex items-center gap-1 text-neutral-300">
+                        <input
+                          type="checkbox"
+                          checked={scenario.cancelledSubscriptionIds.includes(sub.id)}
+                          onChange={() => toggleSubscription(sub.id)}
+                        />
+                        <span className="truncate flex-1">{sub.display_name}</span>
+                        <span className="text-neutral-500">{formatCurrency(sub.amount_base)}</span>
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              )}
+              <button
+                onClick={() => setScenario(DEFAULT_FORECAST_SCENARIO)}
+                className="text-[10px] text-neutral-400 hover:text-white"
+              >
+                Przywróć domyślny
+              </button>
+            </div>
+          )}
+
+          <table className="w-full text-[10px]">
+            <thead>
+              <tr className="text-neutral-400 border-b border-neutral-700">
+                <th className="text-left py-1">Okres</th>
+                <th className="text-right py-1">Wpływy</th>
+                <th className="text-right py-1">Wydatki</th>
+                <th className="text-right py-1">Netto</th>
+                <th className="text-right py-1">Saldo</th>
+              </tr>
+            </thead>
+            <tbody>
+              {actualRows.map(month => (
+                <tr key={`actual-${month.month}`} className="text-neutral-500">
+                  <td className="py-0.5">{formatPeriod(month.month)} <span className="text-[9px]">(rzecz.)</span></td>
+                  <td className="text-right py-0.5">{formatCurrency(month.inflow)}</td>
+                  <td className="text-right py-0.5">{formatCurrency(month.outflow)}</td>
+                  <td className="text-right py-0.5">{formatCurrency(month.net)}</td>
+                  <td className="text-right py-0.5">–</td>
+                </tr>
+              ))}
+              {forecast.periods.map(period => (
+                <tr key={period.key} className="text-white border-t border-neutral-700/50">
+                  <td className="py-0.5">{formatPeriod(period.key)}</td>
+                  <td className="text-right py-0.5 text-green-400">{formatCurrency(period.receipts)}</td>
+                  <td
+                    className="text-right py-0.5 text-red-400"
+                    title={`Faktury: ${formatCurrency(period.invoicePayments)}, subskrypcje: ${formatCurrency(period.subscriptionCharges)}`}
+                  >
+                    {formatCurrency(period.invoicePayments + period.subscriptionCharges)}
+                  </td>
+                  <td className={`text-right py-0.5 ${period.net >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                    {formatCurrency(period.net)}
+                  </td>
+                  <td className={`text-right py-0.5 font-medium ${period.closingBalance < 0 ? 'text-red-400' : ''}`}>
+                    {formatCurrency(period.closingBalance)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {forecast.lowestBalance < 0 && forecast.lowestBalanceKey && (
+            <div className="text-xs px-2 py-1 rounded bg-red-900/30 text-red-400">
+              Saldo spada poniżej zera: {formatCurrency(forecast.lowestBalance)} ({formatPeriod(forecast.lowestBalanceKey)})
+            </div>
+          )}
+          {inputs.unconvertedCount > 0 && (
+            <div className="text-[10px] text-yellow-400">
+              {inputs.unconvertedCount} pozycji walutowych pominięto – brak kursu NBP
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,160 @@
+'use client';
+
+import { useState } from 'react';
+import { validateCategoryRule } from '@/lib/finance/categoryRules';
+import type { CategoryRuleInput } from '@/lib/finance/categoryRules';
+
+interface CategoryRuleFormProps {
+  initial?: Partial<CategoryRuleInput>;
+  categories: string[];
+  submitLabel: string;
+  onSubmit: (rule: CategoryRuleInput) => Promise<void>;
+  onCancel: () => void;
+}
+
+const inputClass = 'w-full text-xs bg-neutral-800 border border-neutral-700 rounded px-2 py-1 text-white';
+
+export default function CategoryRuleForm({
+  initial = {},
+  categories,
+  submitLabel,
+  onSubmit,
+  onCancel,
+}: CategoryRuleFormProps) {
+  const [name, setName] = useState(initial.name || '');
+  const [priority, setPriority] = useState(String(initial.priority ?? 100));
+  const [counterpartyPattern, setCounterpartyPattern] = useState(initial.counterparty_pattern || '');
+  const [descriptionRegex, setDescriptionRegex] = useState(initial.description_regex || '');
+  const [amountMin, setAmountMin] = useState(initial.amount_min != null ? String(initial.amount_min) : '');
+  const [amountMax, setAmountMax] = useState(initial.amount_max != null ? String(initial.amount_max) : '');
+  const [direction, setDirection] = useState<'' | 'in' | 'out'>(initial.direction || '');
+  const [category, setCategory] = useState(initial.category || '');
+  const [subcategory, setSubcategory] = useState(initial.subcategory || '');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const parseAmount = (value: string) => {
+    const n = Number.parseFloat(value.replace(',', '.'));
+    return Number.isFinite(n) ? n : null;
+  };
+
+  const handleSubmit = async () => {
+    const rule: CategoryRuleInput = {
+      name: name.trim(),
+      priority: Number.parseInt(priority, 10) || 100,
+      is_enabled: initial.is_enabled ?? true,
+      counterparty_pattern: counterpartyPattern.trim() || null,
+      description_regex: descriptionRegex.trim() || null,
+      amount_min: amountMin.trim() ? parseAmount(amountMin) : null,
+      amount_max: amountMax.trim() ? parseAmount(amountMax) : null,
+      direction: direction || null,
+      category: category.trim(),
+      subcategory: subcategory.trim() || null,
+    };
+
+    const validationError = validateCategoryRule(rule);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      await onSubmit(rule);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Nie udało się zapisać reguły');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-2 gap-2">
+        <label className="text-xs text-neutral-400 space-y-1 col-span-2">
+          <span>Nazwa</span>
+          <input value={name} onChange={(e) => setName(e.target.value)} className={inputClass} />
+        </label>
+        <label className="text-xs text-neutral-400 space-y-1">
+          <span>Kontrahent zawiera</span>
+          <input
+            value={counterpartyPattern}
+            onChange={(e) => setCounterpartyPattern(e.target.value)}
+            placeholder="np. ORLEN"
+            className={inputClass}
+          />
+        </label>
+        <label className="text-xs text-neutral-400 space-y-1">
+          <span>Opis (regex)</span>
+          <input
+            value={descriptionRegex}
+            onChange={(e) => setDescriptionRegex(e.target.value)}
+            placeholder="np. paliwo|stacja"
+            className={`${inputClass} font-mono`}
+          />
+        </label>
+        <label className="text-xs text-neutral-400 space-y-1">
+          <span>Kwota od</span>
+          <input value={amountMin} onChange={(e) => setAmountMin(e.target.value)} className={inputClass} />
+        </label>
+        <label className="text-xs text-neutral-400 space-y-1">
+          <span>Kwota do</span>
+          <input value={amountMax} onChange={(e) => setAmountMax(e.target.value)} className={inputClass} />
+        </label>
+        <label className="text-xs text-neutral-400 space-y-1">
+          <span>Kierunek</span>
+          <select
+            value={direction}
+            onChange={(e) => setDirection(e.target.value as '' | 'in' | 'out')}
+            className={inputClass}
+          >
+            <option value="">Dowolny</option>
+            <option value="out">Wydatek</option>
+            <option value="in">Wpływ</option>
+          </select>
+        </label>
+        <label className="text-xs text-neutral-400 space-y-1">
+          <span>Priorytet (niższy = pierwszy)</span>
+          <input value={priority} onChange={(e) => setPriority(e.target.value)} className={inputClass} />
+        </label>
+        <label className="text-xs text-neutral-400 space-y-1">
+          <span>Kategoria</span>
+          <input
+            value={category}
+            onChange={(e) => setCategory(e.target.value)}
+            list="category-rule-categories"
+            className={inputClass}
+          />
+          <datalist id="category-rule-categories">
+            {categories.map(cat => (
+              <option key={cat} value={cat} />
+            ))}
+          </datalist>
+        </label>
+        <label className="text-xs text-neutral-400 space-y-1">
+          <span>Podkategoria</span>
+          <input value={subcategory} onChange={(e) => setSubcategory(e.target.value)} className={inputClass} />
+        </label>
+      </div>
+
+      {error && <div className="text-xs text-red-400">{error}</div>}
+
+      <div className="flex gap-2">
+        <button
+          onClick={handleSubmit}
+          disabled={saving}
+          className="text-xs bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white px-3 py-1 rounded"
+        >
+          {saving ? 'Zapisywanie...' : submitLabel}
+        </button>
+        <button
+          onClick={onCancel}
+          className="text-xs bg-neutral-700 hover:bg-neutral-600 text-white px-3 py-1 rounded"
+        >
+          Anuluj
+        </button>
+      </div>
+    </div>
+  );
+}
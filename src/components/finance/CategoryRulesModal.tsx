@@ -0,0 +1,214 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { getCategoryRules } from '@/lib/finance/queries/getCategoryRules';
+import { createCategoryRule } from '@/app/actions/finance/createCategoryRule';
+import { updateCategoryRule } from '@/app/actions/finance/updateCategoryRule';
+import { deleteCategoryRule } from '@/app/actions/finance/deleteCategoryRule';
+import { applyCategoryRules } from '@/app/actions/finance/applyCategoryRules';
+import CategoryRuleForm from './CategoryRuleForm';
+import { toCategoryRuleInput } from '@/lib/finance/categoryRules';
+import type { CategoryRule, CategoryRuleInput } from '@/lib/finance/categoryRules';
+
+interface CategoryRulesModalProps {
+  orgId: string;
+  categories: string[];
+  onClose: () => void;
+  onApplied: () => void;
+}
+
+export default function CategoryRulesModal({
+  orgId,
+  categories,
+  onClose,
+  onApplied,
+}: CategoryRulesModalProps) {
+  const [rules, setRules] = useState<CategoryRule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState<CategoryRule | 'new' | null>(null);
+  const [applying, setApplying] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  useEffect(() => {
+    loadRules();
+  }, [orgId]);
+
+  const loadRules = async () => {
+    setLoading(true);
+    try {
+      setRules(await getCategoryRules(orgId));
+    } catch (error) {
+      console.error('Error loading category rules:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSubmit = async (rule: CategoryRuleInput) => {
+    const result =
+      editing && editing !== 'new'
+        ? await updateCategoryRule({ ruleId: editing.id, rule })
+        : await createCategoryRule({ orgId, rule });
+
+    if (!result.ok) {
+      throw new Error(result.error || 'Nie udało się zapisać reguły');
+    }
+    setEditing(null);
+    await loadRules();
+  };
+
+  const handleToggle = async (rule: CategoryRule) => {
+    const result = await updateCategoryRule({
+      ruleId: rule.id,
+      rule: { ...toCategoryRuleInput(rule), is_enabled: !rule.is_enabled },
+    });
+    if (!result.ok) {
+      setMessage({ type: 'error', text: result.error || 'Nie udało się zapisać reguły' });
+      return;
+    }
+    await loadRules();
+  };
+
+  const handleDelete = async (rule: CategoryRule) => {
+    if (!confirm(`Usunąć regułę "${rule.name}"?`)) return;
+    const result = await deleteCategoryRule(rule.id);
+    if (!result.ok) {
+      setMessage({ type: 'error', text: result.error || 'Nie udało się usunąć reguły' });
+      return;
+    }
+    await loadRules();
+  };
+
+  const handleApply = async () => {
+    setApplying(true);
+    setMessage(null);
+    try {
+      const result = await applyCategoryRules(orgId);
+      if (!result.ok) {
+        setMessage({ type: 'error', text: result.error || 'Nie udało się uruchomić reguł' });
+        return;
+      }
+      setMessage({
+        type: 'success',
+        text: `Sprawdzono ${result.scanned} transakcji: skategoryzowano ${result.categorised}, wyczyszczono ${result.cleared}`,
+      });
+      onApplied();
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  const describeConditions = (rule: CategoryRule) => {
+    const parts: string[] = [];
+    if (rule.counterparty_pattern) parts.push(`kontrahent ~ "${rule.counterparty_pattern}"`);
+    if (rule.description_regex) parts.push(`opis /${rule.description_regex}/`);
+    if (rule.amount_min != null || rule.amount_max != null) {
+      parts.push(`kwota ${rule.amount_min ?? '…'}–${rule.amount_max ?? '…'}`);
+    }
+    if (rule.direction) parts.push(rule.direction === 'out' ? 'wydatek' : 'wpływ');
+    return parts.join(', ');
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+      <div className="bg-neutral-900 border border-neutral-800 rounded-lg w-full max-w-4xl max-h-[90vh] overflow-hidden flex flex-col">
+        <div className="p-4 border-b border-neutral-800 flex items-center justify-between">
+          <h3 className="text-lg font-semibold text-white">Reguły kategorii</h3>
+          <button
+            onClick={onClose}
+            className="text-neutral-400 hover:text-white text-xl"
+          >
+            ×
+          </button>
+        </div>
+
+        <div className="p-4 border-b border-neutral-800 flex items-center gap-2">
+          <button
+            onClick={() => setEditing('new')}
+            className="text-xs bg-blue-600 hover:bg-blue-700 text-white px-3 py-1 rounded"
+          >
+            Nowa reguła
+          </button>
+          <button
+            onClick={handleApply}
+            disabled={applying || rules.length === 0}
+            className="text-xs bg-neutral-700 hover:bg-neutral-600 disabled:opacity-50 text-white px-3 py-1 rounded"
+          >
+            {applying ? 'Uruchamianie...' : 'Uruchom na całej historii'}
+          </button>
+          <div className="text-xs text-neutral-500 ml-auto">
+            Ręcznie ustawione kategorie nie są nadpisywane
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-3">
+          {message && (
+            <div className={`text-xs px-3 py-2 rounded ${
+              message.type === 'success' ? 'bg-green-900/30 text-green-400' : 'bg-red-900/30 text-red-400'
+            }`}>
+              {message.text}
+            </div>
+          )}
+
+          {editing && (
+            <div className="border border-neutral-800 rounded p-3">
+              <CategoryRuleForm
+                key={editing === 'new' ? 'new' : editing.id}
+                initial={editing === 'new' ? {} : toCategoryRuleInput(editing)}
+                categories={categories}
+                submitLabel={editing === 'new' ? 'Dodaj regułę' : 'Zapisz'}
+                onSubmit={handleSubmit}
+                onCancel={() => setEditing(null)}
+              />
+            </div>
+          )}
+
+          {loading ? (
+            <div className="text-center text-neutral-400 py-8">Ładowanie...</div>
+          ) : rules.length === 0 ? (
+            <div className="text-center text-neutral-400 py-8">Brak reguł</div>
+          ) : (
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-left text-neutral-400 border-b border-neutral-800">
+                  <th className="py-2 pr-2">Priorytet</th>
+                  <th className="py-2 pr-2">Nazwa</th>
+                  <th className="py-2 pr-2">Warunki</th>
+                  <th className="py-2 pr-2">Kategoria</th>
+                  <th className="py-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {rules.map(rule => (
+                  <tr
+                    key={rule.id}
+                    className={`border-b border-neutral-800 ${rule.is_enabled ? 'text-white' : 'text-neutral-600'}`}
+                  >
+                    <td className="py-2 pr-2">{rule.priority}</td>
+                    <td className="py-2 pr-2">{rule.name}</td>
+                    <td className="py-2 pr-2 text-neutral-400">{describeConditions(rule)}</td>
+                    <td className="py-2 pr-2">
+                      {rule.category}
+                      {rule.subcategory ? ` / ${rule.subcategory}` : ''}
+                    </td>
+                    <td className="py-2 text-right whitespace-nowrap space-x-2">
+                      <button onClick={() => handleToggle(rule)} className="text-neutral-400 hover:text-white">
+                        {rule.is_enabled ? 'Wyłącz' : 'Włącz'}
+                      </button>
+                      <button onClick={() => setEditing(rule)} className="text-blue-400 hover:text-blue-300">
+                        Edytuj
+                      </button>
+                      <button onClick={() => handleDelete(rule)} className="text-red-400 hover:text-red-300">
+                        Usuń
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,149 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { getFxRatesStatus, FxRatesStatus } from '@/lib/finance/queries/getFxRatesStatus';
+import { importFxRates } from '@/app/actions/finance/importFxRates';
+import { backfillBaseAmounts } from '@/app/actions/finance/backfillBaseAmounts';
+import { BASE_CURRENCY } from '@/lib/finance/baseAmount';
+import type { BackfillBaseAmountsResult } from '@/server/finance/fx/backfill';
+
+interface FxRatesModalProps {
+  orgId: string | null;
+  onClose: () => void;
+  onConverted: () => void;
+}
+
+export default function FxRatesModal({ orgId, onClose, onConverted }: FxRatesModalProps) {
+  const [status, setStatus] = useState<FxRatesStatus | null>(null);
+  const [busy, setBusy] = useState<'import' | 'backfill' | null>(null);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  useEffect(() => {
+    loadStatus();
+  }, []);
+
+  const loadStatus = async () => {
+    try {
+      setStatus(await getFxRatesStatus());
+    } catch (error) {
+      console.error('Error loading FX rates status:', error);
+    }
+  };
+
+  const describeBackfill = (result: BackfillBaseAmountsResult) => {
+    if (!result.ok) return `Przeliczenie nie powiodło się: ${result.error}`;
+    const converted = result.transactions.converted + result.invoices.converted + result.tripItems.converted;
+    const missing = result.transactions.missingRate + result.invoices.missingRate + result.tripItems.missingRate;
+    const locked = result.tripItems.locked;
+    return `Przeliczono ${converted} pozycji na ${BASE_CURRENCY}`
+      + (missing > 0 ? `, ${missing} nadal bez kursu` : '')
+      + (locked > 0 ? `, ${locked} pominięto (zablokowane podróże)` : '');
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setBusy('import');
+    setMessage(null);
+    try {
+      const result = await importFxRates(file);
+      if (!result.ok) {
+        setMessage({ type: 'error', text: result.error });
+        return;
+      }
+      setMessage({
+        type: 'success',
+        text: `Zapisano ${result.saved} kursów (${result.currencies.length} walut, ${result.dateFrom} – ${result.dateTo}). ${describeBackfill(result.backfill)}`,
+      });
+      await loadStatus();
+      onConverted();
+    } catch (error) {
+      console.error('FX import error:', error);
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Import kursów nie powiódł się' });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleBackfill = async () => {
+    setBusy('backfill');
+    setMessage(null);
+    try {
+      const result = await backfillBaseAmounts({ orgId });
+      setMessage({ type: result.ok ? 'success' : 'error', text: describeBackfill(result) });
+      if (result.ok) onConverted();
+    } catch (error) {
+      console.error('FX backfill error:', error);
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Przeliczenie nie powiodło się' });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+      <div className="bg-neutral-900 border border-neutral-800 rounded-lg w-full max-w-lg overflow-hidden flex flex-col">
+        <div className="p-4 border-b border-neutral-800 flex items-center justify-between">
+          <h3 className="text-lg font-semibold text-white">Kursy walut NBP</h3>
+          <button
+            onClick={onClose}
+            className="text-neutral-400 hover:text-white text-xl"
+          >
+            ×
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4 text-xs">
+          <div className="text-neutral-400 space-y-1">
+            <div>
+              Zapisanych kursów: <span className="text-white">{status?.rate_count ?? '…'}</span>
+            </div>
+            <div>
+              Ostatnia tabela:{' '}
+              <span className="text-white">
+                {status?.latest_rate_date
+                  ? `${status.latest_rate_date}${status.latest_table_no ? ` (${status.latest_table_no})` : ''}`
+                  : '-'}
+              </span>
+            </div>
+            <div>
+              Kwoty są przeliczane na {BASE_CURRENCY} po kursie średnim z dnia księgowania; faktury po kursie z
+              ostatniego dnia roboczego przed datą wystawienia.
+            </div>
+          </div>
+
+          {message && (
+            <div className={`px-3 py-2 rounded ${
+              message.type === 'success' ? 'bg-green-900/30 text-green-400' : 'bg-red-900/30 text-red-400'
+            }`}>
+              {message.text}
+            </div>
+          )}
+
+          <div className="flex items-center gap-2">
+            <label className={`bg-blue-600 hover:bg-blue-700 text-white px-3 py-1 rounded ${
+              busy ? 'opacity-50 pointer-events-none' : 'cursor-pointer'
+            }`}>
+              {busy === 'import' ? 'Importowanie...' : 'Wczytaj tabelę NBP (XML/CSV)'}
+              <input
+                type="file"
+                accept=".xml,.csv,.txt"
+                onChange={handleFile}
+                className="hidden"
+              />
+            </label>
+            <button
+              onClick={handleBackfill}
+              disabled={busy !== null}
+              className="bg-neutral-700 hover:bg-neutral-600 disabled:opacity-50 text-white px-3 py-1 rounded"
+            >
+              {busy === 'backfill' ? 'Przeliczanie...' : 'Przelicz brakujące kwoty'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,154 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { getImportBatches, ImportBatch } from '@/lib/finance/queries/getImportBatches';
+import { rollbackImportBatch } from '@/app/actions/finance/rollbackImportBatch';
+
+interface ImportBatchesModalProps {
+  orgId: string | null;
+  currentUser?: string | null;
+  onClose: () => void;
+  onRolledBack: () => void;
+}
+
+export default function ImportBatchesModal({
+  orgId,
+  currentUser,
+  onClose,
+  onRolledBack,
+}: ImportBatchesModalProps) {
+  const [batches, setBatches] = useState<ImportBatch[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [rollingBackId, setRollingBackId] = useState<string | null>(null);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  useEffect(() => {
+    loadBatches();
+  }, [orgId]);
+
+  const loadBatches = async () => {
+    setLoading(true);
+    try {
+      const data = await getImportBatches({ orgId });
+      setBatches(data);
+    } catch (error) {
+      console.error('Error loading import batches:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRollback = async (batch: ImportBatch) => {
+    const label = batch.file_name || batch.id;
+    if (!confirm(`Wycofać import "${label}"? Usunie to ${batch.rows_inserted} transakcji wraz z powiązaniami.`)) {
+      return;
+    }
+
+    setRollingBackId(batch.id);
+    setMessage(null);
+    try {
+      const result = await rollbackImportBatch({ batchId: batch.id, rolledBackBy: currentUser });
+      if (!result.ok) {
+        setMessage({ type: 'error', text: result.error });
+        return;
+      }
+      setMessage({
+        type: 'success',
+        text: `Usunięto ${result.transactionsDeleted} transakcji, ${result.tripItemsDeleted} pozycji podróży, ${result.documentLinksDeleted} powiązań dokumentów`,
+      });
+      await loadBatches();
+      onRolledBack();
+    } catch (error) {
+      console.error('Rollback error:', error);
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Nie udało się wycofać importu' });
+    } finally {
+      setRollingBackId(null);
+    }
+  };
+
+  const formatDate = (value: string) =>
+    new Date(value).toLocaleString('pl-PL', { dateStyle: 'short', timeStyle: 'short' });
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+      <div className="bg-neutral-900 border border-neutral-800 rounded-lg w-full max-w-4xl max-h-[90vh] overflow-hidden flex flex-col">
+        <div className="p-4 border-b border-neutral-800 flex items-center justify-between">
+          <h3 className="text-lg font-semibold text-white">Historia importów</h3>
+          <button
+            onClick={onClose}
+            className="text-neutral-400 hover:text-white text-xl"
+          >
+            ×
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-3">
+          {message && (
+            <div className={`text-xs px-3 py-2 rounded ${
+              message.type === 'success' ? 'bg-green-900/30 text-green-400' : 'bg-red-900/30 text-red-400'
+            }`}>
+              {message.text}
+            </div>
+          )}
+
+          {loading ? (
+            <div className="text-center text-neutral-400 py-8">Ładowanie...</div>
+          ) : batches.length === 0 ? (
+            <div className="text-center text-neutral-400 py-8">Brak importów</div>
+          ) : (
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-left text-neutral-400 border-b border-neutral-800">
+                  <th className="py-2 pr-2">Data</th>
+                  <th className="py-2 pr-2">Plik</th>
+                  <th className="py-2 pr-2">Profil</th>
+                  <th className="py-2 pr-2">Kto</th>
+                  <th className="py-2 pr-2 text-right">Dodane</th>
+                  <th className="py-2 pr-2 text-right">Pominięte</th>
+                  <th className="py-2 pr-2 text-right">Błędne</th>
+                  <th className="py-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {batches.map(batch => {
+                  const rolledBack = batch.status === 'rolled_back';
+                  return (
+                    <tr
+                      key={batch.id}
+                      className={`border-b border-neutral-800 ${rolledBack ? 'text-neutral-600' : 'text-white'}`}
+                    >
+                      <td className="py-2 pr-2 whitespace-nowrap">{formatDate(batch.imported_at)}</td>
+                      <td className="py-2 pr-2 truncate max-w-[12rem]" title={batch.file_sha256 || undefined}>
+                        {batch.file_name || '-'}
+                      </td>
+                      <td className="py-2 pr-2">{batch.profile || batch.format || '-'}</td>
+                      <td className="py-2 pr-2 truncate max-w-[10rem]">{batch.imported_by || '-'}</td>
+                      <td className="py-2 pr-2 text-right">{batch.rows_inserted}</td>
+                      <td className="py-2 pr-2 text-right">{batch.rows_skipped}</td>
+                      <td className="py-2 pr-2 text-right">{batch.rows_invalid}</td>
+                      <td className="py-2 text-right whitespace-nowrap">
+                        {rolledBack ? (
+                          <span title={batch.rolled_back_by || undefined}>
+                            Wycofano {batch.rolled_back_at ? formatDate(batch.rolled_back_at) : ''}
+                          </span>
+                        ) : (
+                          <button
+                            onClick={() => handleRollback(batch)}
+                            disabled={rollingBackId !== null || batch.status === 'running'}
+                            className="px-2 py-1 bg-red-900/40 hover:bg-red-900/60 disabled:opacity-50 rounded text-red-300"
+                          >
+                            {rollingBackId === batch.id ? 'Wycofywanie...' : 'Wycofaj'}
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
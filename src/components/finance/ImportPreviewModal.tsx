@@ -0,0 +1,321 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { previewBankStatementImport } from '@/app/actions/finance/previewBankStatementImport';
+import { commitBankStatementImport } from '@/app/actions/finance/commitBankStatementImport';
+import type { ColumnMapping } from '@/server/finance/statements';
+import type {
+  BankStatementPreviewResult,
+  ProcessBankStatementResult,
+} from '@/server/finance/processBankStatement';
+
+interface ImportPreviewModalProps {
+  documentId: string;
+  fileName: string;
+  importedBy?: string | null;
+  onClose: () => void;
+  onImported: (result: ProcessBankStatementResult) => void;
+}
+
+type PreviewOk = Extract<BankStatementPreviewResult, { ok: true }>;
+type MappingColumns = ColumnMapping['columns'];
+
+const MAPPING_FIELDS: { key: keyof MappingColumns; label: string; required: boolean }[] = [
+  { key: 'bookingDate', label: 'Data księgowania', required: true },
+  { key: 'valueDate', label: 'Data waluty', required: false },
+  { key: 'amount', label: 'Kwota', required: true },
+  { key: 'currency', label: 'Waluta', required: false },
+  { key: 'description', label: 'Opis', required: true },
+  { key: 'counterpartyName', label: 'Kontrahent', required: false },
+  { key: 'counterpartyAccount', label: 'Rachunek kontrahenta', required: false },
+];
+
+const DATE_FORMATS: ColumnMapping['dateFormat'][] = ['YYYY-MM-DD', 'DD.MM.YYYY', 'DD-MM-YYYY', 'DD/MM/YYYY'];
+
+const EMPTY_COLUMNS: MappingColumns = { bookingDate: '', amount: '', description: '' };
+
+export default function ImportPreviewModal({
+  documentId,
+  fileName,
+  importedBy,
+  onClose,
+  onImported,
+}: ImportPreviewModalProps) {
+  const [preview, setPreview] = useState<PreviewOk | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [importing, setImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [showMapping, setShowMapping] = useState(false);
+  const [columns, setColumns] = useState<MappingColumns>(EMPTY_COLUMNS);
+  const [dateFormat, setDateFormat] = useState<ColumnMapping['dateFormat']>('DD.MM.YYYY');
+  const [defaultCurrency, setDefaultCurrency] = useState('PLN');
+  const [appliedMapping, setAppliedMapping] = useState<ColumnMapping | null>(null);
+
+  useEffect(() => {
+    loadPreview(null);
+  }, [documentId]);
+
+  const loadPreview = async (mapping: ColumnMapping | null) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const result = await previewBankStatementImport({ documentId, mapping });
+      if (!result.ok) {
+        setError(result.error);
+        return;
+      }
+      setPreview(result);
+      setAppliedMapping(mapping);
+      if (result.needsMapping) setShowMapping(true);
+    } catch (err) {
+      console.error('[ImportPreviewModal] Preview error:', err);
+      setError(err instanceof Error ? err.message : 'Nie udało się wczytać podglądu');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const buildMapping = (): ColumnMapping | null => {
+    if (!preview?.headerSignature) return null;
+    if (!columns.bookingDate || !columns.amount || !columns.description) return null;
+    const delimiter = preview.delimiter === ',' || preview.delimiter === '\t' ? preview.delimiter : ';';
+    return {
+      headerSignature: preview.headerSignature,
+      delimiter,
+      dateFormat,
+      defaultCurrency: defaultCurrency.trim().toUpperCase() || 'PLN',
+      columns: {
+        bookingDate: columns.bookingDate,
+        valueDate: columns.valueDate || null,
+        amount: columns.amount,
+        currency: columns.currency || null,
+        description: columns.description,
+        counterpartyName: columns.counterpartyName || null,
+        counterpartyAccount: columns.counterpartyAccount || null,
+      },
+    };
+  };
+
+  const handleApplyMapping = () => {
+    const mapping = buildMapping();
+    if (!mapping) {
+      setError('Wybierz kolumny daty, kwoty i opisu');
+      return;
+    }
+    loadPreview(mapping);
+  };
+
+  const handleImport = async () => {
+    setImporting(true);
+    setError(null);
+    try {
+      const result = await commitBankStatementImport({
+        documentId,
+        mapping: appliedMapping,
+        headers: preview?.headers,
+        importedBy,
+      });
+      if (!result.ok) {
+        setError(result.error);
+        return;
+      }
+      onImported(result);
+    } catch (err) {
+      console.error('[ImportPreviewModal] Import error:', err);
+      setError(err instanceof Error ? err.message : 'Import nie powiódł się');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const formatAmount = (amount: number, currency: string) =>
+    new Intl.NumberFormat('pl-PL', { style: 'currency', currency }).format(amount);
+
+  const duplicates = preview?.rows.filter(r => r.duplicate).length ?? 0;
+  const newRows = (preview?.rows.length ?? 0) - duplicates;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+      <div className="bg-neutral-900 border border-neutral-800 rounded-lg w-full max-w-4xl max-h-[90vh] overflow-hidden flex flex-col">
+        <div className="p-4 border-b border-neutral-800 flex items-center justify-between">
+          <div>
+            <h3 className="text-lg font-semibold text-white">Podgląd importu</h3>
+            <div className="text-xs text-neutral-400">{fileName}</div>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-neutral-400 hover:text-white text-xl"
+          >
+            ×
+          </button>
+        </div>
+
+        {preview && (
+          <div className="p-4 border-b border-neutral-800 flex flex-wrap items-center gap-4 text-xs">
+            <div className="text-neutral-400">
+              Format: <span className="text-white">{preview.format.toUpperCase()}</span>
+            </div>
+            <div className="text-neutral-400">
+              Profil: <span className="text-white">{preview.profile}</span>
+            </div>
+            <div className="text-neutral-400">
+              Wierszy: <span className="text-white">{preview.parsed}</span>
+            </div>
+            <div className="text-neutral-400">
+              Nowe: <span className="text-green-400">{newRows}</span>
+            </div>
+            <div className="text-neutral-400">
+              Duplikaty: <span className="text-neutral-300">{duplicates}</span>
+            </div>
+            <div className="text-neutral-400">
+              Błędne: <span className={preview.invalidRows.length > 0 ? 'text-red-400' : 'text-white'}>
+                {preview.invalidRows.length}
+              </span>
+            </div>
+            {preview.format === 'csv' && preview.headers.length > 0 && (
+              <button
+                onClick={() => setShowMapping(!showMapping)}
+                className="ml-auto px-2 py-1 bg-neutral-800 hover:bg-neutral-700 rounded text-neutral-300"
+              >
+                {showMapping ? 'Ukryj mapowanie' : 'Mapuj kolumny'}
+              </button>
+            )}
+          </div>
+        )}
+
+        {/* Column mapping wizard */}
+        {preview && showMapping && (
+          <div className="p-4 border-b border-neutral-800 space-y-3">
+            {preview.needsMapping && (
+              <div className="text-xs text-yellow-400">
+                Nie rozpoznano banku. Wskaż kolumny – mapowanie zostanie zapamiętane dla plików z tym samym nagłówkiem.
+              </div>
+            )}
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+              {MAPPING_FIELDS.map(field => (
+                <label key={field.key} className="text-xs text-neutral-400 space-y-1">
+                  <span>
+                    {field.label}
+                    {field.required && ' *'}
+                  </span>
+                  <select
+                    value={columns[field.key] ?? ''}
+                    onChange={(e) => setColumns({ ...columns, [field.key]: e.target.value })}
+                    className="w-full text-xs bg-neutral-800 border border-neutral-700 rounded px-2 py-1 text-white"
+                  >
+                    <option value="">—</option>
+                    {preview.headers.map(header => (
+                      <option key={header} value={header}>
+                        {header}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              ))}
+              <label className="text-xs text-neutral-400 space-y-1">
+                <span>Format daty</span>
+                <select
+                  value={dateFormat}
+                  onChange={(e) => setDateFormat(e.target.value as ColumnMapping['dateFormat'])}
+                  className="w-full text-xs bg-neutral-800 border border-neutral-700 rounded px-2 py-1 text-white"
+                >
+                  {DATE_FORMATS.map(format => (
+                    <option key={format} value={format}>
+                      {format}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="text-xs text-neutral-400 space-y-1">
+                <span>Domyślna waluta</span>
+                <input
+                  type="text"
+                  value={defaultCurrency}
+                  maxLength={3}
+                  onChange={(e) => setDefaultCurrency(e.target.value)}
+                  className="w-full text-xs bg-neutral-800 border border-neutral-700 rounded px-2 py-1 text-white"
+                />
+              </label>
+            </div>
+            <button
+              onClick={handleApplyMapping}
+              disabled={loading}
+              className="px-3 py-1 text-xs bg-neutral-700 hover:bg-neutral-600 disabled:opacity-50 rounded text-white"
+            >
+              Zastosuj mapowanie
+            </button>
+          </div>
+        )}
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          {error && (
+            <div className="text-xs px-3 py-2 rounded bg-red-900/30 text-red-400">{error}</div>
+          )}
+
+          {loading ? (
+            <div className="text-center text-neutral-400 py-8">Wczytywanie podglądu...</div>
+          ) : preview && preview.rows.length > 0 ? (
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-left text-neutral-400 border-b border-neutral-800">
+                  <th className="py-2 pr-2">Data</th>
+                  <th className="py-2 pr-2">Opis</th>
+                  <th className="py-2 pr-2">Kontrahent</th>
+                  <th className="py-2 pr-2 text-right">Kwota</th>
+                  <th className="py-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {preview.rows.map(row => (
+                  <tr
+                    key={row.transactionHash}
+                    className={`border-b border-neutral-800 ${row.duplicate ? 'text-neutral-600' : 'text-white'}`}
+                  >
+                    <td className="py-1 pr-2 whitespace-nowrap">{row.bookingDate}</td>
+                    <td className="py-1 pr-2 truncate max-w-xs">{row.description}</td>
+                    <td className="py-1 pr-2 truncate max-w-[10rem]">{row.counterpartyName || '-'}</td>
+                    <td className={`py-1 pr-2 text-right whitespace-nowrap ${
+                      row.duplicate ? '' : row.amount < 0 ? 'text-red-400' : 'text-green-400'
+                    }`}>
+                      {formatAmount(row.amount, row.currency)}
+                    </td>
+                    <td className="py-1 text-neutral-500">{row.duplicate ? 'duplikat' : ''}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          ) : (
+            !error && <div className="text-center text-neutral-400 py-8">Brak poprawnych wierszy</div>
+          )}
+
+          {preview && preview.invalidRows.length > 0 && (
+            <div className="space-y-1">
+              <div className="text-xs font-semibold text-red-400">Odrzucone wiersze</div>
+              {preview.invalidRows.map(row => (
+                <div key={row.index} className="text-xs text-neutral-400">
+                  #{row.index + 1}: {row.reason}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-neutral-800 flex items-center justify-end gap-2">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm bg-neutral-800 hover:bg-neutral-700 rounded text-white"
+          >
+            Anuluj
+          </button>
+          <button
+            onClick={handleImport}
+            disabled={loading || importing || !preview || newRows === 0}
+            className="px-4 py-2 text-sm bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed rounded text-white"
+          >
+            {importing ? 'Importowanie...' : `Importuj (${newRows})`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
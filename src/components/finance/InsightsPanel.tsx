@@ -3,6 +3,11 @@
 import { useEffect, useState } from 'react';
 import { getMonthlyTrend, MonthlyTrendData } from '@/lib/finance/queries/getMonthlyTrend';
 import { getTopCategories, TopCategory } from '@/lib/finance/queries/getTopCategories';
+import { getSubscriptionAlerts, SubscriptionAlert } from '@/lib/finance/queries/getSubscriptionAlerts';
+import { dismissSubscriptionAlert } from '@/app/actions/finance/dismissSubscriptionAlert';
+import { snoozeSubscriptionAlert } from '@/app/actions/finance/snoozeSubscriptionAlert';
+import { budgetTargetLabel } from '@/lib/finance/budgets';
+import type { BudgetVarianceReport } from '@/lib/finance/queries/getBudgetVariance';
 
 interface InsightsPanelProps {
   orgId: string | null;
@@ -10,23 +15,66 @@ interface InsightsPanelProps {
   dateTo: string | null;
   onMonthClick?: (month: string) => void;
   onCategoryClick?: (category: string) => void;
+  /** Bump to reload, e.g. after subscription detection raised new alerts */
+  refreshKey?: number;
+  /** Budget vs actual, loaded together with the KPIs */
+  budgetVariance?: BudgetVarianceReport | null;
+  onManageBudgets?: () => void;
 }
 
+const SNOOZE_DAYS = 7;
+
 export default function InsightsPanel({
   orgId,
   dateFrom,
   dateTo,
   onMonthClick,
   onCategoryClick,
+  refreshKey,
+  budgetVariance,
+  onManageBudgets,
 }: InsightsPanelProps) {
   const [trendData, setTrendData] = useState<MonthlyTrendData[]>([]);
   const [topCategories, setTopCategories] = useState<TopCategory[]>([]);
+  const [alerts, setAlerts] = useState<SubscriptionAlert[]>([]);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
     loadInsights();
   }, [orgId, dateFrom, dateTo]);
 
+  useEffect(() => {
+    loadAlerts();
+  }, [orgId, refreshKey]);
+
+  const loadAlerts = async () => {
+    try {
+      setAlerts(await getSubscriptionAlerts({ orgId }));
+    } catch (error) {
+      console.error('Error loading subscription alerts:', error);
+    }
+  };
+
+  const handleDismissAlert = async (alertId: string) => {
+    const result = await dismissSubscriptionAlert(alertId);
+    if (!result.ok) {
+      alert(`Nie udało się odrzucić alertu: ${result.error || 'Unknown error'}`);
+      return;
+    }
+    setAlerts(prev => prev.filter(a => a.id !== alertId));
+  };
+
+  const handleSnoozeAlert = async (alertId: string) => {
+    const until = new Date();
+    until.setDate(until.getDate() + SNOOZE_DAYS);
+    const result = await snoozeSubscriptionAlert(alertId, until.toISOString().slice(0, 10));
+    if (!result.ok) {
+      alert(`Nie udało się odłożyć alertu: ${result.error || 'Unknown error'}`);
+      return;
+    }
+    setAlerts(prev => prev.filter(a => a.id !== alertId));
+  };
+
   const loadInsights = async () => {
     setLoading(true);
     try {
@@ -58,6 +106,43 @@ export default function InsightsPanel({
     return date.toLocaleDateString('pl-PL', { month: 'short', year: 'numeric' });
   };
 
+  const formatAlertAmount = (amount: number | undefined, currency: string) => {
+    if (amount === undefined) return '–';
+    return new Intl.NumberFormat('pl-PL', {
+      style: 'currency',
+      currency: currency || 'PLN',
+      minimumFractionDigits: 2,
+    }).format(amount);
+  };
+
+  const describeAlert = (a: SubscriptionAlert): { title: string; detail: string } => {
+    const d = a.details;
+    switch (a.alert_type) {
+      case 'price_increase':
+        return {
+          title: 'Podwyżka ceny',
+          detail: `${formatAlertAmount(d.expected_amount, d.currency)} → ${formatAlertAmount(d.actual_amount, d.currency)}`,
+        };
+      case 'missed_charge':
+        return {
+          title: 'Brak oczekiwanego obciążenia',
+          detail: `${d.expected_date || ''} · ${formatAlertAmount(d.expected_amount, d.currency)} – anulowana subskrypcja lub odrzucona karta?`,
+        };
+      case 'duplicate_charge':
+        return {
+          title: 'Podwójne obciążenie',
+          detail: `${(d.period || '').slice(0, 7)} · ${d.transaction_ids?.length || 2}× ${formatAlertAmount(d.expected_amount, d.currency)}`,
+        };
+      case 'new_recurring':
+        return {
+          title: 'Nowa płatność cykliczna',
+          detail: formatAlertAmount(d.actual_amount, d.currency),
+        };
+      default:
+        return { title: a.alert_type, detail: '' };
+    }
+  };
+
   // Calculate max for chart scaling (use max of inflow or outflow)
   const maxAmount = Math.max(
     ...trendData.map(d => Math.max(d.inflow, d.outflow)),
@@ -66,6 +151,103 @@ export default function InsightsPanel({
 
   return (
     <div className="space-y-4">
+      {/* Subscription Alerts */}
+      {alerts.length > 0 && (
+        <div className="bg-neutral-800 rounded-lg p-4 border border-neutral-700">
+          <h3 className="text-xs font-semibold text-white mb-3">Alerty subskrypcji ({alerts.length})</h3>
+          <div className="space-y-1.5">
+            {alerts.map(a => {
+              const { title, detail } = describeAlert(a);
+              return (
+                <div key={a.id} className="flex items-start gap-2 p-1.5 rounded bg-neutral-900/60">
+                  <span className={`text-[10px] mt-0.5 ${a.alert_type === 'new_recurring' ? 'text-blue-400' : 'text-yellow-400'}`}>●</span>
+                  <div className="flex-1 min-w-0">
+                    <div className="text-xs text-white truncate">
+                      {a.details.display_name}: {title}
+                    </div>
+                    <div className="text-[10px] text-neutral-400">{detail}</div>
+                  </div>
+                  <button
+                    onClick={() => handleSnoozeAlert(a.id)}
+                    className="text-[10px] text-neutral-400 hover:text-white whitespace-nowrap"
+                    title={`Ukryj na ${SNOOZE_DAYS} dni`}
+                  >
+                    Odłóż
+                  </button>
+                  <button
+                    onClick={() => handleDismissAlert(a.id)}
+                    className="text-[10px] text-neutral-400 hover:text-red-400 whitespace-nowrap"
+                  >
+                    Odrzuć
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {/* Budget Variance */}
+      {(onManageBudgets || (budgetVariance && budgetVariance.rows.length > 0)) && (
+        <div className="bg-neutral-800 rounded-lg p-4 border border-neutral-700">
+          <div className="flex items-center justify-between mb-3">
+            <h3 className="text-xs font-semibold text-white">Budżety</h3>
+            {onManageBudgets && (
+              <button onClick={onManageBudgets} className="text-[10px] text-blue-400 hover:text-blue-300">
+                Zarządzaj
+              </button>
+            )}
+          </div>
+          {!budgetVariance || budgetVariance.rows.length === 0 ? (
+            <div className="text-xs text-neutral-400">Brak budżetów na ten okres</div>
+          ) : (
+            <div className="space-y-2">
+              {budgetVariance.rows.map(row => {
+                const barColor =
+                  row.status === 'over' ? 'bg-red-500' : row.status === 'at_risk' ? 'bg-yellow-500' : 'bg-green-500';
+                const elapsedPct = Math.round((row.elapsed_days / row.total_days) * 100);
+                return (
+                  <div key={row.budget.id}>
+                    <div className="flex items-center justify-between text-xs">
+                      <span className="text-white truncate">
+                        {budgetTargetLabel(row.budget, budgetVariance.projectTitles)}
+                        <span className="text-neutral-500 ml-1">
+                          {row.budget.period_type === 'year' ? row.budget.period_start.slice(0, 4) : formatMonth(row.budget.period_start.slice(0, 7))}
+                        </span>
+                      </span>
+                      <span className="text-neutral-300 ml-2 whitespace-nowrap">
+                        {formatCurrency(row.actual)} / {formatCurrency(row.budget.amount)}
+                      </span>
+                    </div>
+                    <div className="relative h-1.5 bg-neutral-700 rounded mt-1" title={`Upłynęło ${elapsedPct}% okresu`}>
+                      <div className={`h-1.5 rounded ${barColor}`} style={{ width: `${Math.min(100, row.used_pct)}%` }} />
+                      <div className="absolute top-0 h-1.5 w-px bg-white/60" style={{ left: `${elapsedPct}%` }} />
+                    </div>
+                    <div className="flex items-center justify-between text-[10px] mt-0.5">
+                      <span className="text-neutral-500">
+                        {row.used_pct}% · {formatCurrency(row.daily_burn)}/dzień
+                      </span>
+                      {row.status === 'over' ? (
+                        <span className="text-red-400">Przekroczono o {formatCurrency(-row.variance)}</span>
+                      ) : row.status === 'at_risk' ? (
+                        <span className="text-yellow-400">Prognoza {formatCurrency(row.projected)} (+{formatCurrency(-row.projected_variance)})</span>
+                      ) : (
+                        <span className="text-neutral-500">Zostało {formatCurrency(row.variance)}</span>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+              {budgetVariance.unconvertedCount > 0 && (
+                <div className="text-[10px] text-yellow-400">
+                  {budgetVariance.unconvertedCount} wydatków bez kursu waluty pominięto
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Monthly Trend */}
       <div className="bg-neutral-800 rounded-lg p-4 border border-neutral-700">
         <h3 className="text-xs font-semibold text-white mb-3">Trend miesięczny</h3>
@@ -0,0 +1,252 @@
+'use client';
+
+import { Fragment, useEffect, useState } from 'react';
+import { getInvoiceReconciliation } from '@/lib/finance/queries/getInvoiceReconciliation';
+import type { ReconciledInvoice } from '@/lib/finance/queries/getInvoiceReconciliation';
+import { reconcileInvoices } from '@/app/actions/finance/reconcileInvoices';
+import { rejectInvoiceMatch } from '@/app/actions/finance/rejectInvoiceMatch';
+import type { PaymentStatus } from '@/lib/db/documents';
+
+interface InvoiceReconciliationModalProps {
+  onClose: () => void;
+  onReconciled?: () => void;
+}
+
+export const PAYMENT_STATUS_LABELS: Record<PaymentStatus, string> = {
+  unpaid: 'Unpaid',
+  partially_paid: 'Partially paid',
+  paid: 'Paid',
+  overpaid: 'Overpaid',
+};
+
+export const PAYMENT_STATUS_CLASSES: Record<PaymentStatus, string> = {
+  unpaid: 'bg-neutral-800 text-neutral-300',
+  partially_paid: 'bg-yellow-900/30 text-yellow-400',
+  paid: 'bg-green-900/30 text-green-400',
+  overpaid: 'bg-red-900/30 text-red-400',
+};
+
+const MATCH_TYPE_LABELS: Record<string, string> = {
+  invoice_number: 'invoice no.',
+  amount: 'amount',
+  aggregate: 'combined',
+};
+
+export default function InvoiceReconciliationModal({
+  onClose,
+  onReconciled,
+}: InvoiceReconciliationModalProps) {
+  const [invoices, setInvoices] = useState<ReconciledInvoice[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [running, setRunning] = useState(false);
+  const [statusFilter, setStatusFilter] = useState<PaymentStatus | ''>('');
+  const [typeFilter, setTypeFilter] = useState<'cost' | 'revenue' | ''>('');
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  useEffect(() => {
+    loadInvoices();
+  }, [statusFilter, typeFilter]);
+
+  const loadInvoices = async () => {
+    setLoading(true);
+    try {
+      setInvoices(await getInvoiceReconciliation({
+        status: statusFilter || null,
+        invoiceType: typeFilter || null,
+      }));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRun = async () => {
+    setRunning(true);
+    setMessage(null);
+    try {
+      const result = await reconcileInvoices();
+      if (!result.ok) {
+        setMessage({ type: 'error', text: result.error || 'Reconciliation failed' });
+        return;
+      }
+      setMessage({
+        type: 'success',
+        text: `${result.invoices} invoices, ${result.matches} matches: ${result.byStatus.paid} paid, ${result.byStatus.partially_paid} partially paid, ${result.byStatus.overpaid} overpaid, ${result.byStatus.unpaid} unpaid`,
+      });
+      await loadInvoices();
+      onReconciled?.();
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const handleReject = async (matchId: string) => {
+    if (!confirm('Reject this match? The pair will not be proposed again.')) return;
+    setRunning(true);
+    try {
+      const result = await rejectInvoiceMatch(matchId);
+      if (!result.ok) {
+        setMessage({ type: 'error', text: result.error || 'Failed to reject match' });
+        return;
+      }
+      await loadInvoices();
+      onReconciled?.();
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const toggle = (id: string) => {
+    const next = new Set(expanded);
+    if (next.has(id)) {
+      next.delete(id);
+    } else {
+      next.add(id);
+    }
+    setExpanded(next);
+  };
+
+  const formatAmount = (amount: number, currency: string | null) =>
+    new Intl.NumberFormat('pl-PL', {
+      style: 'currency',
+      currency: currency || 'PLN',
+      minimumFractionDigits: 2,
+    }).format(amount);
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+      <div className="bg-neutral-900 border border-neutral-800 rounded-lg w-full max-w-5xl max-h-[90vh] overflow-hidden flex flex-col">
+        <div className="p-4 border-b border-neutral-800 flex items-center justify-between">
+          <h3 className="text-lg font-semibold text-white">Invoice payments</h3>
+          <button
+            onClick={onClose}
+            className="text-neutral-400 hover:text-white text-xl"
+          >
+            ×
+          </button>
+        </div>
+
+        <div className="p-4 border-b border-neutral-800 flex items-center gap-2">
+          <button
+            onClick={handleRun}
+            disabled={running}
+            className="text-xs bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white px-3 py-1 rounded"
+          >
+            {running ? 'Reconciling...' : 'Reconcile payments'}
+          </button>
+          <select
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value as PaymentStatus | '')}
+            className="text-xs bg-neutral-800 border border-neutral-700 rounded px-2 py-1 text-white"
+          >
+            <option value="">All statuses</option>
+            {(Object.keys(PAYMENT_STATUS_LABELS) as PaymentStatus[]).map(status => (
+              <option key={status} value={status}>{PAYMENT_STATUS_LABELS[status]}</option>
+            ))}
+          </select>
+          <select
+            value={typeFilter}
+            onChange={(e) => setTypeFilter(e.target.value as 'cost' | 'revenue' | '')}
+            className="text-xs bg-neutral-800 border border-neutral-700 rounded px-2 py-1 text-white"
+          >
+            <option value="">Cost & revenue</option>
+            <option value="cost">Cost</option>
+            <option value="revenue">Revenue</option>
+          </select>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-3">
+          {message && (
+            <div className={`text-xs px-3 py-2 rounded ${
+              message.type === 'success' ? 'bg-green-900/30 text-green-400' : 'bg-red-900/30 text-red-400'
+            }`}>
+              {message.text}
+            </div>
+          )}
+
+          {loading ? (
+            <div className="text-center text-neutral-400 py-8">Loading...</div>
+          ) : invoices.length === 0 ? (
+            <div className="text-center text-neutral-400 py-8">No invoices</div>
+          ) : (
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-left text-neutral-400 border-b border-neutral-800">
+                  <th className="py-2 pr-2">Invoice</th>
+                  <th className="py-2 pr-2">Date</th>
+                  <th className="py-2 pr-2 text-right">Amount</th>
+                  <th className="py-2 pr-2 text-right">Paid</th>
+                  <th className="py-2">Status</th>
+                </tr>
+              </thead>
+              <tbody>
+                {invoices.map(invoice => {
+                  const status = invoice.payment_status || 'unpaid';
+                  return (
+                    <Fragment key={invoice.id}>
+                      <tr
+                        onClick={() => invoice.matches.length > 0 && toggle(invoice.id)}
+                        className={`border-b border-neutral-800 text-white ${invoice.matches.length > 0 ? 'cursor-pointer hover:bg-neutral-800/50' : ''}`}
+                      >
+                        <td className="py-2 pr-2">
+                          <div>{invoice.invoice_number || invoice.name}</div>
+                          {invoice.invoice_number && (
+                            <div className="text-neutral-500 truncate max-w-xs">{invoice.name}</div>
+                          )}
+                        </td>
+                        <td className="py-2 pr-2 text-neutral-400">{invoice.invoice_date || '-'}</td>
+                        <td className="py-2 pr-2 text-right tabular-nums">
+                          {invoice.invoice_type === 'cost' ? '-' : ''}
+                          {formatAmount(invoice.amount_original, invoice.currency)}
+                        </td>
+                        <td className="py-2 pr-2 text-right tabular-nums text-neutral-300">
+                          {formatAmount(invoice.amount_paid || 0, invoice.currency)}
+                        </td>
+                        <td className="py-2">
+                          <span className={`px-2 py-0.5 rounded ${PAYMENT_STATUS_CLASSES[status]}`}>
+                            {PAYMENT_STATUS_LABELS[status]}
+                          </span>
+                          {invoice.matches.length > 0 && (
+                            <span className="ml-2 text-neutral-500">{invoice.matches.length} payment(s)</span>
+                          )}
+                        </td>
+                      </tr>
+                      {expanded.has(invoice.id) && invoice.matches.map(match => (
+                        <tr key={`${invoice.id}-${match.id}`} className="border-b border-neutral-800/50 bg-neutral-800/30">
+                          <td className="py-1 pr-2 pl-4 text-neutral-300" colSpan={2}>
+                            <div>
+                              {match.transaction?.booking_date} • {match.transaction?.counterparty_name || '-'}
+                            </div>
+                            <div className="text-neutral-500 truncate max-w-md">{match.transaction?.description}</div>
+                          </td>
+                          <td className="py-1 pr-2 text-right tabular-nums text-neutral-400">
+                            {match.transaction && formatAmount(match.transaction_amount, match.transaction.currency)}
+                          </td>
+                          <td className="py-1 pr-2 text-right tabular-nums text-neutral-300">
+                            {formatAmount(match.amount, invoice.currency)}
+                          </td>
+                          <td className="py-1 text-neutral-500">
+                            <span title={match.explanation || ''}>
+                              {MATCH_TYPE_LABELS[match.match_type] || match.match_type} ({Math.round(match.score * 100)}%)
+                            </span>
+                            <button
+                              onClick={() => handleReject(match.id)}
+                              disabled={running}
+                              className="ml-2 text-red-400 hover:text-red-300 disabled:opacity-50"
+                            >
+                              Reject
+                            </button>
+                          </td>
+                        </tr>
+                      ))}
+                    </Fragment>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
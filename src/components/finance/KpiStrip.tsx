@@ -1,10 +1,16 @@
 'use client';
 
+import { BASE_CURRENCY } from '@/lib/finance/baseAmount';
+
 interface KpiStripProps {
   inflow: number;
   outflow: number;
   net: number;
   uncategorisedCount: number;
+  unconvertedCount?: number;
+  /** Budgets already overspent / projected to overspend in the current period */
+  overBudgetCount?: number;
+  atRiskBudgetCount?: number;
   onUncategorisedClick?: () => void;
 }
 
@@ -13,12 +19,15 @@ export default function KpiStrip({
   outflow,
   net,
   uncategorisedCount,
+  unconvertedCount = 0,
+  overBudgetCount = 0,
+  atRiskBudgetCount = 0,
   onUncategorisedClick,
 }: KpiStripProps) {
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('pl-PL', {
       style: 'currency',
-      currency: 'PLN',
+      currency: BASE_CURRENCY,
       minimumFractionDigits: 2,
     }).format(amount);
   };
@@ -32,12 +41,23 @@ export default function KpiStrip({
       <div className="bg-neutral-800 rounded p-2 border border-neutral-700">
         <div className="text-xs text-neutral-400 mb-1">Wydatki</div>
         <div className="text-sm font-semibold text-red-400">{formatCurrency(outflow)}</div>
+        {(overBudgetCount > 0 || atRiskBudgetCount > 0) && (
+          <div className="text-xs mt-1">
+            {overBudgetCount > 0 && <span className="text-red-400 mr-2">{overBudgetCount} ponad budżet</span>}
+            {atRiskBudgetCount > 0 && <span className="text-yellow-400">{atRiskBudgetCount} zagrożonych</span>}
+          </div>
+        )}
       </div>
       <div className="bg-neutral-800 rounded p-2 border border-neutral-700">
         <div className="text-xs text-neutral-400 mb-1">Saldo</div>
         <div className={`text-sm font-semibold ${net >= 0 ? 'text-green-400' : 'text-red-400'}`}>
           {formatCurrency(net)}
         </div>
+        {unconvertedCount > 0 && (
+          <div className="text-xs text-yellow-400 mt-1" title="Brak kursu NBP dla daty transakcji">
+            {unconvertedCount} bez kursu waluty
+          </div>
+        )}
       </div>
       <div 
         className={`bg-neutral-800 rounded p-2 border border-neutral-700 ${onUncategorisedClick ? 'cursor-pointer hover:bg-neutral-750' : ''}`}
@@ -0,0 +1,302 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { getMonthCloseStatus } from '@/app/actions/finance/getMonthCloseStatus';
+import { closeMonth } from '@/app/actions/finance/closeMonth';
+import { reopenMonth } from '@/app/actions/finance/reopenMonth';
+import type { MonthCloseStatus } from '@/server/finance/close/monthClose';
+
+interface MonthCloseModalProps {
+  orgId: string;
+  onClose: () => void;
+}
+
+const inputClass = 'text-xs bg-neutral-800 border border-neutral-700 rounded px-2 py-1 text-white';
+
+// Number of open items listed per check; the rest are in checks.csv of the package
+const LIST_LIMIT = 20;
+
+const TABLE_LABELS: Record<string, string> = {
+  finance_transactions: 'Transakcja',
+  documents: 'Faktura',
+  finance_trip_items: 'Pozycja delegacji',
+};
+
+const OPERATION_LABELS: Record<string, string> = {
+  INSERT: 'dodano',
+  UPDATE: 'zmieniono',
+  DELETE: 'usunięto',
+};
+
+function previousMonth(): string {
+  const now = new Date();
+  const d = new Date(now.getFullYear(), now.getMonth() - 1, 1);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}`;
+}
+
+export default function MonthCloseModal({ orgId, onClose }: MonthCloseModalProps) {
+  const [period, setPeriod] = useState(previousMonth());
+  const [status, setStatus] = useState<MonthCloseStatus | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  useEffect(() => {
+    loadStatus();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [orgId, period]);
+
+  const loadStatus = async () => {
+    if (!period) return;
+    setLoading(true);
+    try {
+      const result = await getMonthCloseStatus({ orgId, period });
+      if (!result.ok || !result.status) {
+        setStatus(null);
+        setMessage({ type: 'error', text: result.error || 'Nie udało się sprawdzić miesiąca' });
+        return;
+      }
+      setStatus(result.status);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleClose = async () => {
+    if (status && !status.checks.complete && !confirm('Miesiąc ma niekompletne pozycje. Zamknąć mimo to?')) {
+      return;
+    }
+    setSaving(true);
+    setMessage(null);
+    try {
+      const result = await closeMonth({ orgId, period });
+      if (!result.ok) {
+        setMessage({ type: 'error', text: result.error || 'Nie udało się zamknąć miesiąca' });
+        return;
+      }
+      setMessage({ type: 'success', text: `Zamknięto miesiąc ${period}` });
+      await loadStatus();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleReopen = async () => {
+    if (!confirm(`Otworzyć ponownie miesiąc ${period}?`)) return;
+    setSaving(true);
+    setMessage(null);
+    try {
+      const result = await reopenMonth({ orgId, period });
+      if (!result.ok) {
+        setMessage({ type: 'error', text: result.error || 'Nie udało się otworzyć miesiąca' });
+        return;
+      }
+      setMessage({ type: 'success', text: `Otwarto ponownie miesiąc ${period}` });
+      await loadStatus();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleExport = async () => {
+    setExporting(true);
+    setMessage(null);
+    try {
+      const response = await fetch(`/api/finance/close/package?${new URLSearchParams({ orgId, period })}`);
+      if (!response.ok) {
+        const result: { error?: string } = await response.json();
+        setMessage({ type: 'error', text: result.error || 'Eksport nie powiódł się' });
+        return;
+      }
+      const missing = Number(response.headers.get('X-Close-Missing') || 0);
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `zamkniecie-${period}.zip`;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+      if (missing > 0) {
+        setMessage({ type: 'error', text: `Nie udało się pobrać ${missing} plików – oznaczone jako missing w index.csv` });
+      }
+    } catch (error) {
+      console.error('Error exporting close package:', error);
+      setMessage({ type: 'error', text: 'Nie udało się wyeksportować paczki' });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const formatAmount = (amount: number, currency: string | null) =>
+    new Intl.NumberFormat('pl-PL', { minimumFractionDigits: 2, maximumFractionDigits: 2 }).format(Number(amount)) +
+    ` ${currency || ''}`;
+
+  const renderCheck = (
+    title: string,
+    items: { id: string; date: string | null; label: string; amount: number; currency: string | null }[],
+    emptyText: string
+  ) => (
+    <div>
+      <h4 className="text-sm font-semibold text-white mb-2">
+        {title} <span className={items.length > 0 ? 'text-yellow-400' : 'text-green-400'}>({items.length})</span>
+      </h4>
+      {items.length === 0 ? (
+        <div className="text-xs text-neutral-500 py-1">{emptyText}</div>
+      ) : (
+        <div className="space-y-1">
+          {items.slice(0, LIST_LIMIT).map(item => (
+            <div key={item.id} className="flex items-center gap-3 text-xs text-white">
+              <span className="text-neutral-500 whitespace-nowrap w-20">{item.date || '—'}</span>
+              <span className="flex-1 truncate">{item.label}</span>
+              <span className="whitespace-nowrap">{formatAmount(item.amount, item.currency)}</span>
+            </div>
+          ))}
+          {items.length > LIST_LIMIT && (
+            <div className="text-xs text-neutral-500">… i {items.length - LIST_LIMIT} więcej (checks.csv w paczce)</div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+
+  const checks = status?.checks;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+      <div className="bg-neutral-900 border border-neutral-800 rounded-lg w-full max-w-4xl max-h-[90vh] overflow-hidden flex flex-col">
+        <div className="p-4 border-b border-neutral-800 flex items-center justify-between">
+          <h3 className="text-lg font-semibold text-white">Zamknięcie miesiąca</h3>
+          <button
+            onClick={onClose}
+            className="text-neutral-400 hover:text-white text-xl"
+          >
+            ×
+          </button>
+        </div>
+
+        <div className="p-4 border-b border-neutral-800 flex flex-wrap items-end gap-3">
+          <label className="text-xs text-neutral-400 space-y-1">
+            <span className="block">Miesiąc</span>
+            <input type="month" value={period} onChange={(e) => setPeriod(e.target.value)} className={inputClass} />
+          </label>
+          {status?.close ? (
+            <span className="text-xs px-2 py-1 rounded bg-green-900/30 text-green-400">
+              Zamknięty {new Date(status.close.closed_at).toLocaleString('pl-PL')}
+            </span>
+          ) : (
+            status && <span className="text-xs px-2 py-1 rounded bg-neutral-800 text-neutral-400">Otwarty</span>
+          )}
+          <div className="ml-auto flex gap-2">
+            <button
+              onClick={handleExport}
+              disabled={exporting || loading}
+              className="text-xs bg-neutral-700 hover:bg-neutral-600 disabled:opacity-50 text-white px-3 py-1 rounded"
+            >
+              {exporting ? 'Przygotowywanie...' : 'Pobierz paczkę ZIP'}
+            </button>
+            {status?.close ? (
+              <button
+                onClick={handleReopen}
+                disabled={saving || loading}
+                className="text-xs bg-neutral-700 hover:bg-neutral-600 disabled:opacity-50 text-white px-3 py-1 rounded"
+              >
+                Otwórz ponownie
+              </button>
+            ) : (
+              <button
+                onClick={handleClose}
+                disabled={saving || loading || !status}
+                className="text-xs bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white px-3 py-1 rounded"
+              >
+                {saving ? 'Zamykanie...' : 'Zamknij miesiąc'}
+              </button>
+            )}
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          {message && (
+            <div className={`text-xs px-3 py-2 rounded ${
+              message.type === 'success' ? 'bg-green-900/30 text-green-400' : 'bg-red-900/30 text-red-400'
+            }`}>
+              {message.text}
+            </div>
+          )}
+
+          {loading || !status || !checks ? (
+            <div className="text-center text-neutral-400 py-8">{loading ? 'Ładowanie...' : 'Brak danych'}</div>
+          ) : (
+            <>
+              {status.edits.length > 0 && (
+                <div className="bg-red-900/30 border border-red-800 rounded p-3 space-y-1">
+                  <div className="text-xs font-semibold text-red-400">
+                    Zmiany po zamknięciu miesiąca ({status.edits.length})
+                  </div>
+                  {status.edits.slice(0, LIST_LIMIT).map((edit, index) => (
+                    <div key={`${edit.record_id}-${index}`} className="text-xs text-red-300">
+                      {new Date(edit.edited_at).toLocaleString('pl-PL')}: {TABLE_LABELS[edit.table_name] || edit.table_name}{' '}
+                      {OPERATION_LABELS[edit.operation] || edit.operation}{' '}
+                      <span className="font-mono text-red-400/70">{edit.record_id.slice(0, 8)}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <div className="grid grid-cols-3 gap-3">
+                <div className="bg-neutral-800 rounded p-2 border border-neutral-700">
+                  <div className="text-xs text-neutral-400 mb-1">Transakcje</div>
+                  <div className="text-sm font-semibold text-white">{status.summary.transactions}</div>
+                </div>
+                <div className="bg-neutral-800 rounded p-2 border border-neutral-700">
+                  <div className="text-xs text-neutral-400 mb-1">Faktury</div>
+                  <div className="text-sm font-semibold text-white">{status.summary.invoices}</div>
+                </div>
+                <div className="bg-neutral-800 rounded p-2 border border-neutral-700">
+                  <div className="text-xs text-neutral-400 mb-1">Pozycje delegacji</div>
+                  <div className="text-sm font-semibold text-white">{status.summary.tripItems}</div>
+                </div>
+              </div>
+
+              {renderCheck(
+                'Transakcje bez dokumentu',
+                checks.unlinkedTransactions.map(tx => ({
+                  id: tx.id,
+                  date: tx.booking_date,
+                  label: tx.counterparty_name ? `${tx.counterparty_name} – ${tx.description}` : tx.description,
+                  amount: tx.amount,
+                  currency: tx.currency,
+                })),
+                'Wszystkie transakcje mają dokument'
+              )}
+              {renderCheck(
+                'Faktury bez płatności',
+                checks.unpaidInvoices.map(inv => ({
+                  id: inv.id,
+                  date: inv.invoice_date,
+                  label: [inv.invoice_number, inv.title || inv.file_name].filter(Boolean).join(' – '),
+                  amount: inv.amount_original ?? 0,
+                  currency: inv.currency,
+                })),
+                'Wszystkie faktury są opłacone'
+              )}
+              {renderCheck(
+                'Pozycje delegacji bez dowodu',
+                checks.tripItemsWithoutEvidence.map(item => ({
+                  id: item.id,
+                  date: item.item_date,
+                  label: `${item.trip_title}: ${item.vendor || item.description || '—'}`,
+                  amount: item.amount,
+                  currency: item.currency,
+                })),
+                'Wszystkie pozycje mają dowód'
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -9,6 +9,11 @@ interface StickyTopBarProps {
   onOrgChange: (orgId: string | null) => void;
   onClearFilters: () => void;
   onUpload: (file: File) => Promise<void>;
+  onShowImports: () => void;
+  onShowFxRates: () => void;
+  onShowCategoryRules: () => void;
+  onShowVatRegister: () => void;
+  onShowMonthClose: () => void;
   importStatus: 'idle' | 'importing' | 'complete' | 'failed';
   searchValue: string;
   dateFrom: string | null;
@@ -22,6 +27,11 @@ export default function StickyTopBar({
   onOrgChange,
   onClearFilters,
   onUpload,
+  onShowImports,
+  onShowFxRates,
+  onShowCategoryRules,
+  onShowVatRegister,
+  onShowMonthClose,
   importStatus,
   searchValue,
   dateFrom,
@@ -127,12 +137,50 @@ export default function StickyTopBar({
           📄 Wrzuć wyciąg
           <input
             type="file"
-            accept=".csv,.txt"
+            accept=".csv,.txt,.sta,.mt940,.xml"
             onChange={handleFileUpload}
             className="hidden"
           />
         </label>
 
+        <button
+          onClick={onShowImports}
+          className="text-xs bg-neutral-700 hover:bg-neutral-600 text-white px-3 py-1 rounded"
+        >
+          Historia importów
+        </button>
+
+        <button
+          onClick={onShowFxRates}
+          className="text-xs bg-neutral-700 hover:bg-neutral-600 text-white px-3 py-1 rounded"
+        >
+          Kursy walut
+        </button>
+
+        <button
+          onClick={onShowCategoryRules}
+          disabled={!selectedOrgId}
+          className="text-xs bg-neutral-700 hover:bg-neutral-600 disabled:opacity-50 text-white px-3 py-1 rounded"
+        >
+          Reguły kategorii
+        </button>
+
+        <button
+          onClick={onShowVatRegister}
+          disabled={!selectedOrgId}
+          className="text-xs bg-neutral-700 hover:bg-neutral-600 disabled:opacity-50 text-white px-3 py-1 rounded"
+        >
+          Rejestr VAT
+        </button>
+
+        <button
+          onClick={onShowMonthClose}
+          disabled={!selectedOrgId}
+          className="text-xs bg-neutral-700 hover:bg-neutral-600 disabled:opacity-50 text-white px-3 py-1 rounded"
+        >
+          Zamknięcie miesiąca
+        </button>
+
         {/* Import Status */}
         {importStatus !== 'idle' && (
           <div className={`text-xs px-2 py-1 rounded ${
@@ -1,55 +1,45 @@
 'use client';
 
 import React, { useState, useEffect } from 'react';
-import { detectSubscriptionsFromTransactions } from '@/lib/finance/subscriptions/detectFromTransactions';
-
-interface DetectedSubscription {
-  vendor_key: string;
-  display_name: string;
-  cadence: 'monthly';
-  currency: string;
-  avg_amount: number;
-  amount_tolerance: number;
-  last_charge_date: string;
-  next_expected_date: string | null;
-  first_seen_date: string;
-  active: boolean;
-  confidence: number;
-  source: 'rule' | 'auto';
-  transaction_ids: string[];
-  servicePeriodMonths: (string | null)[];
-}
-
-interface DetectionResult {
-  subscriptions: DetectedSubscription[];
-  totalMonthly: number;
-  debug: {
-    fetchedCount: number;
-    matchedCounts: Record<string, number>;
-  };
-}
+import type { Subscription } from '@/lib/finance/subscriptions/getSubscriptions';
+import { NON_SOFTWARE_VENDOR_KEYS } from '@/lib/finance/subscriptions/pipeline';
 
 interface SubscriptionsPanelProps {
   orgId?: string | null;
-  transactions?: Array<{
-    id: string;
-    booking_date: string;
-    description?: string | null;
-    counterparty_name?: string | null;
-    amount: number | string;
-    currency?: string;
-  }>;
+  /** Called after a detection run (which may have raised alerts) */
+  onDetected?: () => void;
 }
 
-export default function SubscriptionsPanel({ orgId, transactions = [] }: SubscriptionsPanelProps) {
-  const [subscriptions, setSubscriptions] = useState<DetectedSubscription[]>([]);
-  const [monthlyTotal, setMonthlyTotal] = useState(0);
+const STAGE_LABELS: Record<string, string> = {
+  rule: 'Reguła',
+  heuristic: 'Heurystyka',
+  interval: 'Analiza interwałów',
+  auto: 'Wykrywanie automatyczne (stare)',
+  manual: 'Dodana ręcznie',
+};
+
+const CADENCE_LABELS: Record<string, string> = {
+  weekly: 'co tydzień',
+  monthly: 'co miesiąc',
+  quarterly: 'co kwartał',
+  yearly: 'co rok',
+};
+
+// Monthly equivalent of one charge
+const MONTHLY_FACTOR: Record<string, number> = {
+  weekly: 52 / 12,
+  monthly: 1,
+  quarterly: 1 / 3,
+  yearly: 1 / 12,
+};
+
+export default function SubscriptionsPanel({ orgId, onDetected }: SubscriptionsPanelProps) {
+  const [subscriptions, setSubscriptions] = useState<Subscription[]>([]);
   const [loading, setLoading] = useState(true);
   const [detecting, setDetecting] = useState(false);
   const [includeNonSoftware, setIncludeNonSoftware] = useState(true);
   const [includeInactive, setIncludeInactive] = useState(false);
-  const [showDebug, setShowDebug] = useState(false);
-  const [debugInfo, setDebugInfo] = useState<any>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
 
   useEffect(() => {
     loadSubscriptions();
@@ -70,34 +60,15 @@ export default function SubscriptionsPanel({ orgId, transactions = [] }: Subscri
         body: JSON.stringify({ orgId }),
       });
 
-      const result: { ok: boolean; subscriptions?: any[] } = await response.json();
-      
+      const result: { ok: boolean; subscriptions?: Subscription[] } = await response.json();
+
       if (result.ok && result.subscriptions) {
-        // Convert database format to DetectedSubscription format
-        const converted = result.subscriptions.map((sub: any) => ({
-          vendor_key: sub.vendor_key,
-          display_name: sub.display_name,
-          cadence: sub.cadence as 'monthly',
-          currency: sub.currency,
+        setSubscriptions(result.subscriptions.map(sub => ({
+          ...sub,
           avg_amount: Number(sub.avg_amount),
           amount_tolerance: Number(sub.amount_tolerance),
-          last_charge_date: sub.last_charge_date || '',
-          next_expected_date: sub.next_expected_date,
-          first_seen_date: sub.first_seen_date || '',
-          active: sub.active,
           confidence: Number(sub.confidence),
-          source: sub.source as 'rule' | 'auto',
-          transaction_ids: [], // Will be loaded separately if needed
-          servicePeriodMonths: [], // Will be loaded separately if needed
-        }));
-
-        setSubscriptions(converted);
-        
-        // Calculate monthly total
-        const total = converted
-          .filter(s => s.active && s.cadence === 'monthly')
-          .reduce((sum, s) => sum + s.avg_amount, 0);
-        setMonthlyTotal(total);
+        })));
       }
     } catch (error) {
       console.error('Error loading subscriptions:', error);
@@ -107,82 +78,38 @@ export default function SubscriptionsPanel({ orgId, transactions = [] }: Subscri
     }
   };
 
-  const handleDetect = () => {
-    // Client-side detection from current transactions
-    if (!transactions || transactions.length === 0) {
-      alert('Brak transakcji do analizy. Załaduj transakcje w tabeli powyżej.');
-      return;
-    }
+  const handleDetect = async () => {
+    if (!orgId) return;
 
     setDetecting(true);
     try {
-      // Convert transactions to detector format
-      const detectorInput = transactions.map(tx => ({
-        id: tx.id,
-        date: tx.booking_date,
-        description: tx.description || null,
-        title: null,
-        counterparty: tx.counterparty_name || null,
-        counterparty_name: tx.counterparty_name || null,
-        amount: tx.amount,
-        currency: tx.currency || 'PLN',
-      }));
-
-      console.log('[SubscriptionsPanel] Detecting from', detectorInput.length, 'transactions');
-
-      // Run client-side detection
-      const result = detectSubscriptionsFromTransactions(detectorInput);
-
-      console.log('[SubscriptionsPanel] Detection complete:', result);
+      const response = await fetch('/api/finance/subscriptions/detect', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ orgId }),
+      });
+      const result: { ok: boolean; processed?: number; subscriptions?: unknown[]; error?: string } = await response.json();
 
-      // Check for errors
-      if (result.debug.expenseCount === 0) {
-        alert('Brak wydatków w aktualnym widoku. Zmień filtry aby zobaczyć wydatki.');
-        setDetecting(false);
+      if (!result.ok) {
+        alert(`Błąd podczas wykrywania: ${result.error || 'Unknown error'}`);
         return;
       }
-
-      if (result.subscriptions.length === 0) {
-        const sampleText = Object.entries(result.debug.sampleMatches)
-          .map(([vendor, samples]) => `${vendor}: ${samples.join(', ')}`)
-          .join('\n');
-        alert(`Nie wykryto subskrypcji.\n\nPrzeanalizowano ${result.debug.expenseCount} wydatków.\nDopasowania: ${JSON.stringify(result.debug.matchedCounts, null, 2)}\n\nPrzykłady tekstów: ${sampleText || 'brak'}`);
-        setDetecting(false);
-        return;
+      if (!result.subscriptions || result.subscriptions.length === 0) {
+        alert(`Nie wykryto subskrypcji.\n\nPrzeanalizowano ${result.processed ?? 0} wydatków z ostatnich 18 miesięcy.`);
       }
 
-      // Convert to DetectedSubscription format
-      const converted: DetectedSubscription[] = result.subscriptions.map(sub => ({
-        vendor_key: sub.vendorKey,
-        display_name: sub.displayName,
-        cadence: 'monthly' as const,
-        currency: sub.currency,
-        avg_amount: sub.monthlyAmount,
-        amount_tolerance: 0,
-        last_charge_date: sub.lastChargeDate,
-        next_expected_date: null,
-        first_seen_date: sub.lastChargeDate,
-        active: true,
-        confidence: sub.confidence,
-        source: 'auto' as const,
-        transaction_ids: sub.matchedTransactionIds,
-        servicePeriodMonths: [],
-      }));
-
-      setSubscriptions(converted);
-      setMonthlyTotal(result.totalMonthly);
-      setDebugInfo(result.debug);
-      
-      console.log('[SubscriptionsPanel] Set subscriptions:', converted.length, 'total:', result.totalMonthly);
-    } catch (error: any) {
+      await loadSubscriptions();
+      onDetected?.();
+    } catch (error) {
       console.error('[SubscriptionsPanel] Detection error:', error);
-      alert(`Błąd podczas wykrywania: ${error?.message || 'Unknown error'}`);
+      alert(`Błąd podczas wykrywania: ${error instanceof Error ? error.message : 'Unknown error'}`);
     } finally {
       setDetecting(false);
     }
   };
 
-  const formatDate = (dateString: string) => {
+  const formatDate = (dateString: string | null) => {
+    if (!dateString) return '–';
     const date = new Date(dateString);
     return date.toLocaleDateString('pl-PL', { year: 'numeric', month: 'short', day: 'numeric' });
   };
@@ -199,23 +126,70 @@ export default function SubscriptionsPanel({ orgId, transactions = [] }: Subscri
   // Filter subscriptions
   const filteredSubscriptions = subscriptions.filter(sub => {
     if (!includeInactive && !sub.active) return false;
-    
+
     // Filter non-software if needed
-    if (!includeNonSoftware) {
-      const nonSoftwareKeys = ['rent', 'hermi_accounting'];
-      if (nonSoftwareKeys.includes(sub.vendor_key)) return false;
-    }
-    
+    if (!includeNonSoftware && NON_SOFTWARE_VENDOR_KEYS.includes(sub.vendor_key)) return false;
+
     return true;
   });
 
   // Calculate filtered monthly total
   const filteredMonthlyTotal = filteredSubscriptions
-    .filter(s => s.active && s.cadence === 'monthly')
-    .reduce((sum, s) => sum + s.avg_amount, 0);
+    .filter(s => s.active)
+    .reduce((sum, s) => sum + s.avg_amount * (MONTHLY_FACTOR[s.cadence] ?? 1), 0);
 
   const activeSubscriptions = filteredSubscriptions.filter(s => s.active);
   const inactiveSubscriptions = filteredSubscriptions.filter(s => !s.active);
+  const selected = subscriptions.find(s => s.id === selectedId) ?? null;
+
+  const toggleSelected = (id: string) => setSelectedId(selectedId === id ? null : id);
+
+  const renderEvidence = (sub: Subscription) => {
+    const evidence = sub.evidence;
+    return (
+      <div className="bg-neutral-800/50 border border-neutral-700 rounded p-3 text-xs space-y-1">
+        <div className="flex items-center justify-between">
+          <span className="font-medium text-white">{sub.display_name}</span>
+          <button onClick={() => setSelectedId(null)} className="text-neutral-500 hover:text-white">×</button>
+        </div>
+        <div className="text-neutral-300">
+          <span className="text-neutral-400">Wykryto przez:</span> {STAGE_LABELS[sub.source] || sub.source}
+          {evidence?.matched_by && <span className="text-neutral-500 font-mono ml-1">{evidence.matched_by}</span>}
+          <span className="text-neutral-500 ml-1">· {Math.round(sub.confidence)}%</span>
+        </div>
+        {!evidence ? (
+          <div className="text-neutral-500">Brak szczegółów – uruchom wykrywanie ponownie.</div>
+        ) : (
+          <>
+            <div className="text-neutral-300">
+              <span className="text-neutral-400">Transakcje:</span> {evidence.transaction_ids.length}
+              {evidence.charge_count !== evidence.transaction_ids.length && (
+                <span className="text-neutral-500"> ({evidence.charge_count} obciążeń po połączeniu płatności za ten sam miesiąc)</span>
+              )}
+            </div>
+            <div className="text-neutral-300">
+              <span className="text-neutral-400">Odstępy:</span>{' '}
+              {evidence.interval
+                ? `mediana ${evidence.interval.median_days} dni (${evidence.interval.min_days}–${evidence.interval.max_days}), ${Math.round(evidence.interval.regular_ratio * 100)}% zgodnych z rytmem ${CADENCE_LABELS[sub.cadence] || sub.cadence}`
+                : 'jedno obciążenie'}
+            </div>
+            <div className="text-neutral-300">
+              <span className="text-neutral-400">Kwota:</span> śr. {formatAmount(evidence.amount.avg, sub.currency)}{' '}
+              ({formatAmount(evidence.amount.min, sub.currency)} – {formatAmount(evidence.amount.max, sub.currency)}),
+              odchylenie {evidence.amount.variance_pct}%
+            </div>
+            <div className="text-neutral-300">
+              <span className="text-neutral-400">Okresy:</span>{' '}
+              <span className="text-neutral-500">{evidence.service_months.map(m => m.slice(0, 7)).join(', ')}</span>
+            </div>
+          </>
+        )}
+        <div className="text-neutral-500">
+          Następne obciążenie: {formatDate(sub.next_expected_date)}
+        </div>
+      </div>
+    );
+  };
 
   return (
     <div className="bg-neutral-900 border border-neutral-800 rounded-lg p-4 space-y-4">
@@ -223,9 +197,9 @@ export default function SubscriptionsPanel({ orgId, transactions = [] }: Subscri
         <h3 className="text-sm font-semibold text-white">Subskrypcje</h3>
         <button
           onClick={handleDetect}
-          disabled={detecting || transactions.length === 0}
+          disabled={detecting || !orgId}
           className="px-3 py-1 text-xs bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
-          title={transactions.length === 0 ? 'Załaduj transakcje aby wykryć subskrypcje' : 'Wykryj cykliczne płatności w transakcjach'}
+          title={!orgId ? 'Wybierz organizację aby wykryć subskrypcje' : 'Wykryj cykliczne płatności: reguły, heurystyki, analiza interwałów'}
         >
           {detecting ? 'Wykrywanie...' : '🔄 Wykryj'}
         </button>
@@ -233,9 +207,7 @@ export default function SubscriptionsPanel({ orgId, transactions = [] }: Subscri
 
       {subscriptions.length === 0 && !detecting && !loading && (
         <div className="text-xs text-neutral-500 py-2">
-          {transactions.length === 0
-            ? 'Załaduj transakcje w tabeli powyżej, a następnie kliknij "Wykryj".'
-            : 'Brak wykrytych subskrypcji. Kliknij "Wykryj" aby przeanalizować transakcje.'}
+          Brak wykrytych subskrypcji. Kliknij &quot;Wykryj&quot; aby przeanalizować transakcje.
         </div>
       )}
 
@@ -281,16 +253,25 @@ export default function SubscriptionsPanel({ orgId, transactions = [] }: Subscri
               </h4>
               <div className="flex items-center gap-2 text-xs overflow-x-auto">
                 {activeSubscriptions.map((sub, idx) => (
-                  <React.Fragment key={sub.vendor_key}>
-                    <div className="flex items-center gap-1.5 py-1.5 px-2.5 bg-neutral-800/50 rounded hover:bg-neutral-800/70 whitespace-nowrap flex-shrink-0">
+                  <React.Fragment key={sub.id}>
+                    <button
+                      onClick={() => toggleSelected(sub.id)}
+                      title="Pokaż, dlaczego wykryto"
+                      className={`flex items-center gap-1.5 py-1.5 px-2.5 rounded whitespace-nowrap flex-shrink-0 ${
+                        selectedId === sub.id ? 'bg-neutral-700' : 'bg-neutral-800/50 hover:bg-neutral-800/70'
+                      }`}
+                    >
                       <span className="text-green-400 text-[10px]">●</span>
                       <span className="font-medium text-white">{sub.display_name}</span>
                       <span className="text-white font-semibold">{formatAmount(sub.avg_amount, sub.currency)}</span>
+                      {sub.cadence !== 'monthly' && (
+                        <span className="text-neutral-400 text-[9px]">{CADENCE_LABELS[sub.cadence] || sub.cadence}</span>
+                      )}
                       <span className="text-neutral-400 text-[9px]">{formatDate(sub.last_charge_date)}</span>
                       <span className="text-neutral-500 text-[9px]">
-                        {sub.transaction_ids?.length || 0}tx·{Math.round(sub.confidence)}%
+                        {sub.evidence?.transaction_ids.length ?? 0}tx·{Math.round(sub.confidence)}%
                       </span>
-                    </div>
+                    </button>
                     {idx < activeSubscriptions.length - 1 && (
                       <span className="text-neutral-600 text-lg flex-shrink-0">·</span>
                     )}
@@ -300,6 +281,8 @@ export default function SubscriptionsPanel({ orgId, transactions = [] }: Subscri
             </div>
           )}
 
+          {selected && renderEvidence(selected)}
+
           {/* Inactive Subscriptions - Compact */}
           {inactiveSubscriptions.length > 0 && includeInactive && (
             <div className="opacity-75">
@@ -309,14 +292,15 @@ export default function SubscriptionsPanel({ orgId, transactions = [] }: Subscri
               <div className="space-y-1">
                 {inactiveSubscriptions.map((sub) => (
                   <div
-                    key={sub.vendor_key}
-                    className="flex items-center justify-between gap-2 py-1.5 px-2 border-b border-neutral-800/30 hover:bg-neutral-800/20 text-xs"
+                    key={sub.id}
+                    onClick={() => toggleSelected(sub.id)}
+                    className="flex items-center justify-between gap-2 py-1.5 px-2 border-b border-neutral-800/30 hover:bg-neutral-800/20 text-xs cursor-pointer"
                   >
                     <div className="flex items-center gap-2 min-w-0 flex-1">
                       <span className="text-neutral-500 text-[10px]">○</span>
                       <span className="font-medium text-neutral-300 truncate">{sub.display_name}</span>
                       <span className="text-[10px] text-neutral-600 whitespace-nowrap">
-                        {sub.source === 'rule' ? '✓' : '🔍'}
+                        {STAGE_LABELS[sub.source] || sub.source}
                       </span>
                     </div>
                     <div className="text-neutral-300 font-medium whitespace-nowrap">
@@ -326,56 +310,13 @@ export default function SubscriptionsPanel({ orgId, transactions = [] }: Subscri
                       {formatDate(sub.last_charge_date)}
                     </div>
                     <div className="text-neutral-500 text-[10px] whitespace-nowrap min-w-[60px] text-right">
-                      {sub.transaction_ids?.length || 0} tx · {Math.round(sub.confidence)}%
+                      {sub.evidence?.transaction_ids.length ?? 0} tx · {Math.round(sub.confidence)}%
                     </div>
                   </div>
                 ))}
               </div>
             </div>
           )}
-
-          {/* Debug Section (development only) */}
-          {debugInfo && (
-            <div className="mt-4 border-t border-neutral-700 pt-4">
-              <button
-                onClick={() => setShowDebug(!showDebug)}
-                className="text-xs text-neutral-500 hover:text-neutral-400 mb-2"
-              >
-                {showDebug ? '▼' : '▶'} Debug Info
-              </button>
-              {showDebug && (
-                <div className="bg-neutral-800/50 rounded p-3 text-xs space-y-2">
-                  <div>
-                    <span className="text-neutral-400">Input count:</span>{' '}
-                    <span className="text-white">{debugInfo.inputCount}</span>
-                  </div>
-                  <div>
-                    <span className="text-neutral-400">Expense count:</span>{' '}
-                    <span className="text-white">{debugInfo.expenseCount}</span>
-                  </div>
-                  <div>
-                    <span className="text-neutral-400">Matched counts:</span>
-                    <pre className="text-neutral-300 mt-1 text-[10px]">
-                      {JSON.stringify(debugInfo.matchedCounts, null, 2)}
-                    </pre>
-                  </div>
-                  <div>
-                    <span className="text-neutral-400">Sample matches:</span>
-                    {Object.entries(debugInfo.sampleMatches || {}).map(([vendor, samples]: [string, any]) => (
-                      <div key={vendor} className="mt-1">
-                        <span className="text-neutral-500">{vendor}:</span>
-                        <ul className="list-disc list-inside ml-2 text-[10px] text-neutral-400">
-                          {samples.map((sample: string, i: number) => (
-                            <li key={i} className="truncate">{sample}</li>
-                          ))}
-                        </ul>
-                      </div>
-                    ))}
-                  </div>
-                </div>
-              )}
-            </div>
-          )}
         </>
       )}
     </div>
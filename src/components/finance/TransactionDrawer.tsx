@@ -4,6 +4,13 @@ import { useEffect, useState } from 'react';
 import { Transaction } from '@/lib/finance/queries/getTransactions';
 import { updateTransactionCategory } from '@/app/actions/finance/updateTransactionCategory';
 import { updateTransactionReimbursement } from '@/app/actions/finance/updateTransactionReimbursement';
+import { createCategoryRule } from '@/app/actions/finance/createCategoryRule';
+import { applyCategoryRules } from '@/app/actions/finance/applyCategoryRules';
+import { getCategoryRule } from '@/lib/finance/queries/getCategoryRules';
+import { suggestCategoryRule } from '@/lib/finance/categoryRules';
+import type { CategoryRule, CategoryRuleInput } from '@/lib/finance/categoryRules';
+import CategoryRuleForm from './CategoryRuleForm';
+import TransactionSplitEditor from './TransactionSplitEditor';
 import { supabase } from '@/lib/supabase';
 import EvidenceUploader from '@/components/evidence/EvidenceUploader';
 import EvidenceGallery from '@/components/evidence/EvidenceGallery';
@@ -42,6 +49,10 @@ export default function TransactionDrawer({
   const [selectedTripId, setSelectedTripId] = useState<string>('');
   const [addingToTrip, setAddingToTrip] = useState(false);
   const [tripAdded, setTripAdded] = useState(false);
+  const [categoryRule, setCategoryRule] = useState<CategoryRule | null>(null);
+  const [categorySource, setCategorySource] = useState(transaction?.category_source || null);
+  const [ruleOffer, setRuleOffer] = useState<'offer' | 'form' | null>(null);
+  const [ruleMessage, setRuleMessage] = useState<string | null>(null);
 
   useEffect(() => {
     if (transaction?.source_document_id) {
@@ -52,6 +63,15 @@ export default function TransactionDrawer({
     setExcludeFromReimbursement(transaction?.exclude_from_reimbursement || false);
     setTripAdded(false);
     setSelectedTripId('');
+    setCategorySource(transaction?.category_source || null);
+    setRuleOffer(null);
+    setRuleMessage(null);
+    setCategoryRule(null);
+    if (transaction?.category_rule_id) {
+      getCategoryRule(transaction.category_rule_id)
+        .then(setCategoryRule)
+        .catch(error => console.error('[TransactionDrawer] Error loading category rule:', error));
+    }
     
     // Load trips for this org - use propOrgId if available, otherwise transaction.org_id
     const loadTrips = async () => {
@@ -104,6 +124,12 @@ export default function TransactionDrawer({
       });
       if (result.ok) {
         setEditingCategory(false);
+        setCategorySource('manual');
+        setCategoryRule(null);
+        setRuleMessage(null);
+        if (category !== 'uncategorised') {
+          setRuleOffer('offer');
+        }
         // Update local transaction state
         // Parent component will reload on next render
       } else {
@@ -115,6 +141,23 @@ export default function TransactionDrawer({
     }
   };
 
+  const handleCreateRule = async (rule: CategoryRuleInput) => {
+    if (!transaction) return;
+    const orgIdToUse = propOrgId || transaction.org_id;
+    const result = await createCategoryRule({ orgId: orgIdToUse, rule });
+    if (!result.ok) {
+      throw new Error(result.error || 'Nie udało się zapisać reguły');
+    }
+
+    const applied = await applyCategoryRules(orgIdToUse);
+    setRuleOffer(null);
+    setRuleMessage(
+      applied.ok
+        ? `Reguła zapisana, skategoryzowano ${applied.categorised} transakcji`
+        : `Reguła zapisana, ale nie udało się jej uruchomić: ${applied.error || 'Unknown error'}`
+    );
+  };
+
   const handleAddToTrip = async () => {
     if (!transaction || !selectedTripId) return;
     
@@ -321,7 +364,7 @@ export default function TransactionDrawer({
               </div>
             ) : (
               <div className="flex items-center gap-2">
-                <div className="text-sm text-white">{transaction.category || 'Nieskategoryzowane'}</div>
+                <div className="text-sm text-white">{category || 'Nieskategoryzowane'}</div>
                 <button
                   onClick={() => setEditingCategory(true)}
                   className="text-xs text-blue-400 hover:text-blue-300"
@@ -330,8 +373,56 @@ export default function TransactionDrawer({
                 </button>
               </div>
             )}
+            {categoryRule ? (
+              <div className="text-xs text-neutral-500 mt-1">Reguła: {categoryRule.name}</div>
+            ) : categorySource === 'manual' ? (
+              <div className="text-xs text-neutral-500 mt-1">Ustawiona ręcznie</div>
+            ) : categorySource === 'import' ? (
+              <div className="text-xs text-neutral-500 mt-1">Z pliku banku</div>
+            ) : null}
+
+            {ruleOffer === 'offer' && (
+              <div className="mt-2 bg-blue-900/30 border border-blue-700/50 rounded p-2 text-xs text-neutral-300 space-y-2">
+                <div>Utworzyć regułę dla podobnych transakcji?</div>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => setRuleOffer('form')}
+                    className="text-xs bg-blue-600 hover:bg-blue-700 text-white px-3 py-1 rounded"
+                  >
+                    Utwórz regułę
+                  </button>
+                  <button
+                    onClick={() => setRuleOffer(null)}
+                    className="text-xs bg-neutral-700 hover:bg-neutral-600 text-white px-3 py-1 rounded"
+                  >
+                    Nie teraz
+                  </button>
+                </div>
+              </div>
+            )}
+            {ruleOffer === 'form' && (
+              <div className="mt-2 border border-neutral-800 rounded p-2">
+                <CategoryRuleForm
+                  initial={suggestCategoryRule(transaction, category)}
+                  categories={categories}
+                  submitLabel="Zapisz i uruchom"
+                  onSubmit={handleCreateRule}
+                  onCancel={() => setRuleOffer(null)}
+                />
+              </div>
+            )}
+            {ruleMessage && (
+              <div className="mt-2 text-xs text-green-400">{ruleMessage}</div>
+            )}
           </div>
 
+          {/* Split lines */}
+          <TransactionSplitEditor
+            transaction={transaction}
+            categories={categories}
+            trips={trips}
+          />
+
           {/* Document */}
           {loadingDoc ? (
             <div className="text-xs text-neutral-400">Ładowanie dokumentu...</div>
@@ -0,0 +1,277 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Transaction } from '@/lib/finance/queries/getTransactions';
+import { getTransactionSplits } from '@/lib/finance/queries/getTransactionSplits';
+import { saveTransactionSplits } from '@/app/actions/finance/saveTransactionSplits';
+import { validateSplits } from '@/lib/finance/splits';
+import type { TransactionSplitInput } from '@/lib/finance/splits';
+import * as projectsDb from '@/lib/db/projects';
+import type { Project } from '@/lib/db/projects';
+import type { FinanceTrip } from '@/features/finance-trips/db/trips';
+
+interface TransactionSplitEditorProps {
+  transaction: Transaction;
+  categories: string[];
+  trips: FinanceTrip[];
+  onSaved?: () => void;
+}
+
+interface SplitRow {
+  amount: string; // entered without sign; the transaction's sign is applied on save
+  category: string;
+  projectId: string;
+  tripId: string;
+  note: string;
+}
+
+const inputClass = 'w-full text-xs bg-neutral-800 border border-neutral-700 rounded px-2 py-1 text-white';
+
+const emptyRow = (): SplitRow => ({ amount: '', category: 'uncategorised', projectId: '', tripId: '', note: '' });
+
+export default function TransactionSplitEditor({
+  transaction,
+  categories,
+  trips,
+  onSaved,
+}: TransactionSplitEditorProps) {
+  const [rows, setRows] = useState<SplitRow[]>([]);
+  const [hasSplits, setHasSplits] = useState(false);
+  const [editing, setEditing] = useState(false);
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const sign = transaction.amount < 0 ? -1 : 1;
+
+  useEffect(() => {
+    setEditing(false);
+    setError(null);
+    loadSplits();
+  }, [transaction.id]);
+
+  useEffect(() => {
+    if (editing && projects.length === 0) {
+      projectsDb.getProjects().then(setProjects).catch(err => {
+        console.error('[TransactionSplitEditor] Error loading projects:', err);
+      });
+    }
+  }, [editing]);
+
+  const loadSplits = async () => {
+    const splits = await getTransactionSplits([transaction.id]);
+    setHasSplits(splits.length > 0);
+    setRows(splits.map(split => ({
+      amount: Math.abs(Number(split.amount)).toFixed(2),
+      category: split.category,
+      projectId: split.project_id || '',
+      tripId: split.trip_id || '',
+      note: split.note || '',
+    })));
+  };
+
+  const parseAmount = (value: string) => {
+    const n = Number.parseFloat(value.replace(',', '.'));
+    return Number.isFinite(n) ? sign * Math.abs(n) : 0;
+  };
+
+  const toInputs = (): TransactionSplitInput[] =>
+    rows.map(row => ({
+      amount: parseAmount(row.amount),
+      category: row.category,
+      subcategory: null,
+      project_id: row.projectId || null,
+      trip_id: row.tripId || null,
+      note: row.note || null,
+    }));
+
+  const allocated = rows.reduce((sum, row) => sum + Math.abs(parseAmount(row.amount)), 0);
+  const remaining = Math.abs(transaction.amount) - allocated;
+
+  const updateRow = (index: number, patch: Partial<SplitRow>) => {
+    setRows(rows.map((row, i) => (i === index ? { ...row, ...patch } : row)));
+  };
+
+  const startEditing = () => {
+    if (rows.length === 0) {
+      setRows([
+        { ...emptyRow(), amount: Math.abs(transaction.amount).toFixed(2), category: transaction.category || 'uncategorised' },
+        emptyRow(),
+      ]);
+    }
+    setEditing(true);
+  };
+
+  const save = async (splits: TransactionSplitInput[]) => {
+    setSaving(true);
+    setError(null);
+    try {
+      const result = await saveTransactionSplits({ transactionId: transaction.id, splits });
+      if (!result.ok) {
+        setError(result.error);
+        return;
+      }
+      setEditing(false);
+      await loadSplits();
+      onSaved?.();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSave = async () => {
+    const splits = toInputs();
+    const validationError = validateSplits(transaction.amount, splits);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    await save(splits);
+  };
+
+  const handleRemove = async () => {
+    if (!confirm('Usunąć podział tej transakcji?')) return;
+    await save([]);
+  };
+
+  const formatAmount = (amount: number) =>
+    new Intl.NumberFormat('pl-PL', {
+      style: 'currency',
+      currency: transaction.currency || 'PLN',
+      minimumFractionDigits: 2,
+    }).format(amount);
+
+  if (!editing) {
+    return (
+      <div className="border-t border-neutral-800 pt-4 space-y-2">
+        <div className="flex items-center justify-between">
+          <div className="text-xs font-semibold text-neutral-300">Podział transakcji</div>
+          <button onClick={startEditing} className="text-xs text-blue-400 hover:text-blue-300">
+            {hasSplits ? 'Edytuj' : 'Podziel'}
+          </button>
+        </div>
+        {hasSplits && (
+          <div className="space-y-1">
+            {rows.map((row, index) => (
+              <div key={index} className="flex items-center justify-between text-xs bg-neutral-800/50 rounded px-2 py-1">
+                <div className="min-w-0">
+                  <div className="text-white truncate">{row.category}</div>
+                  {(row.note || row.tripId) && (
+                    <div className="text-neutral-500 truncate">
+                      {[row.note, trips.find(t => t.id === row.tripId)?.title].filter(Boolean).join(' • ')}
+                    </div>
+                  )}
+                </div>
+                <div className="ml-2 text-neutral-300">{formatAmount(parseAmount(row.amount))}</div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="border-t border-neutral-800 pt-4 space-y-2">
+      <div className="text-xs font-semibold text-neutral-300">Podział transakcji</div>
+
+      {rows.map((row, index) => (
+        <div key={index} className="border border-neutral-800 rounded p-2 space-y-1">
+          <div className="flex gap-2">
+            <input
+              value={row.amount}
+              onChange={(e) => updateRow(index, { amount: e.target.value })}
+              placeholder="Kwota"
+              className={`${inputClass} w-24`}
+            />
+            <select
+              value={row.category}
+              onChange={(e) => updateRow(index, { category: e.target.value })}
+              className={inputClass}
+            >
+              <option value="uncategorised">Nieskategoryzowane</option>
+              {categories.map(cat => (
+                <option key={cat} value={cat}>{cat}</option>
+              ))}
+            </select>
+            <button
+              onClick={() => setRows(rows.filter((_, i) => i !== index))}
+              className="text-xs text-red-400 hover:text-red-300 px-1"
+              title="Usuń linię"
+            >
+              ×
+            </button>
+          </div>
+          <div className="flex gap-2">
+            <select
+              value={row.projectId}
+              onChange={(e) => updateRow(index, { projectId: e.target.value })}
+              className={inputClass}
+            >
+              <option value="">Bez projektu</option>
+              {projects.map(project => (
+                <option key={project.id} value={project.id}>{project.title}</option>
+              ))}
+            </select>
+            <select
+              value={row.tripId}
+              onChange={(e) => updateRow(index, { tripId: e.target.value })}
+              className={inputClass}
+            >
+              <option value="">Bez tripu</option>
+              {trips.map(trip => (
+                <option key={trip.id} value={trip.id}>{trip.title}</option>
+              ))}
+            </select>
+          </div>
+          <input
+            value={row.note}
+            onChange={(e) => updateRow(index, { note: e.target.value })}
+            placeholder="Notatka"
+            className={inputClass}
+          />
+        </div>
+      ))}
+
+      <div className="flex items-center justify-between text-xs">
+        <button onClick={() => setRows([...rows, emptyRow()])} className="text-blue-400 hover:text-blue-300">
+          + Dodaj linię
+        </button>
+        <span className={Math.abs(remaining) < 0.005 ? 'text-green-400' : 'text-yellow-400'}>
+          Pozostało: {formatAmount(remaining)}
+        </span>
+      </div>
+
+      {error && <div className="text-xs text-red-400">{error}</div>}
+
+      <div className="flex gap-2">
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          className="text-xs bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white px-3 py-1 rounded"
+        >
+          {saving ? 'Zapisywanie...' : 'Zapisz podział'}
+        </button>
+        <button
+          onClick={() => {
+            setEditing(false);
+            setError(null);
+            loadSplits();
+          }}
+          className="text-xs bg-neutral-700 hover:bg-neutral-600 text-white px-3 py-1 rounded"
+        >
+          Anuluj
+        </button>
+        {hasSplits && (
+          <button
+            onClick={handleRemove}
+            disabled={saving}
+            className="text-xs text-red-400 hover:text-red-300 ml-auto"
+          >
+            Usuń podział
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -24,6 +24,7 @@ interface TransactionsWorkbenchProps {
   categories: string[];
   onDataChange?: () => void; // Callback when data changes (for parent to refresh KPIs, etc.)
   onTransactionsLoaded?: (transactions: Transaction[]) => void; // Callback to pass transactions to parent
+  refreshKey?: number; // Bump to reload after imports / rollbacks
 }
 
 export default function TransactionsWorkbench({
@@ -38,6 +39,7 @@ export default function TransactionsWorkbench({
   categories,
   onDataChange,
   onTransactionsLoaded,
+  refreshKey,
 }: TransactionsWorkbenchProps) {
   const [transactions, setTransactions] = useState<Transaction[]>([]);
   const [loading, setLoading] = useState(true);
@@ -59,7 +61,7 @@ export default function TransactionsWorkbench({
     } finally {
       setLoading(false);
     }
-  }, [orgId, filters.tab, filters.dateFrom, filters.dateTo, filters.search, filters.category, filters.direction]);
+  }, [orgId, filters.tab, filters.dateFrom, filters.dateTo, filters.search, filters.category, filters.direction, refreshKey]);
 
   // Load transactions when filters change
   useEffect(() => {
@@ -0,0 +1,278 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { getVatRegister } from '@/lib/finance/queries/getVatRegister';
+import type { VatRegisterReport } from '@/lib/finance/queries/getVatRegister';
+import { updateVatTaxpayer } from '@/app/actions/finance/updateVatTaxpayer';
+import { buildJpkDeclaration, validateJpkTaxpayer } from '@/lib/finance/vat/jpk';
+import { VAT_RATE_LABELS } from '@/lib/finance/vat/register';
+import type { VatRegisterRow } from '@/lib/finance/vat/register';
+
+interface VatRegisterModalProps {
+  orgId: string;
+  onClose: () => void;
+}
+
+const inputClass = 'text-xs bg-neutral-800 border border-neutral-700 rounded px-2 py-1 text-white';
+
+// Last completed month: the one being declared
+function previousMonth(): string {
+  const now = new Date();
+  const d = new Date(now.getFullYear(), now.getMonth() - 1, 1);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}`;
+}
+
+export default function VatRegisterModal({ orgId, onClose }: VatRegisterModalProps) {
+  const [period, setPeriod] = useState(previousMonth());
+  const [report, setReport] = useState<VatRegisterReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [nip, setNip] = useState('');
+  const [taxOfficeCode, setTaxOfficeCode] = useState('');
+  const [email, setEmail] = useState('');
+  const [carriedForward, setCarriedForward] = useState('0');
+  const [savingTaxpayer, setSavingTaxpayer] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  useEffect(() => {
+    loadRegister();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [orgId, period]);
+
+  const loadRegister = async () => {
+    const [year, month] = period.split('-').map(Number);
+    if (!year || !month) return;
+
+    setLoading(true);
+    try {
+      const data = await getVatRegister({ orgId, year, month });
+      setReport(data);
+      setNip(data.taxpayer.nip || '');
+      setTaxOfficeCode(data.taxpayer.taxOfficeCode || '');
+      setEmail(data.taxpayer.email || '');
+    } catch (error) {
+      console.error('Error loading VAT register:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSaveTaxpayer = async () => {
+    setSavingTaxpayer(true);
+    setMessage(null);
+    try {
+      const result = await updateVatTaxpayer({ orgId, nip, taxOfficeCode, email });
+      if (!result.ok) {
+        setMessage({ type: 'error', text: result.error || 'Nie udało się zapisać danych podatnika' });
+        return;
+      }
+      setMessage({ type: 'success', text: 'Zapisano dane podatnika' });
+      await loadRegister();
+    } finally {
+      setSavingTaxpayer(false);
+    }
+  };
+
+  const handleExport = async () => {
+    const [year, month] = period.split('-').map(Number);
+    setExporting(true);
+    setMessage(null);
+    try {
+      const query = new URLSearchParams({
+        orgId,
+        year: String(year),
+        month: String(month),
+        carriedForward: String(Number(carriedForward.replace(',', '.')) || 0),
+      });
+      const response = await fetch(`/api/finance/vat/jpk?${query}`);
+      if (!response.ok) {
+        const result: { error?: string; details?: string[] } = await response.json();
+        setMessage({
+          type: 'error',
+          text: [result.error || 'Eksport nie powiódł się', ...(result.details || [])].join('\n'),
+        });
+        return;
+      }
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `JPK_V7M-${period}.xml`;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+    } catch (error) {
+      console.error('Error exporting JPK_V7M:', error);
+      setMessage({ type: 'error', text: 'Nie udało się wyeksportować JPK' });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const formatAmount = (amount: number) =>
+    new Intl.NumberFormat('pl-PL', { minimumFractionDigits: 2, maximumFractionDigits: 2 }).format(amount);
+
+  const register = report?.register;
+  const declaration = register ? buildJpkDeclaration(register, Number(carriedForward.replace(',', '.')) || 0) : null;
+  const taxpayerErrors = report ? validateJpkTaxpayer({ ...report.taxpayer, nip, taxOfficeCode, email }) : [];
+  const blockingIssues = register?.issues.filter(issue => issue.severity === 'error') ?? [];
+
+  const renderRows = (rows: VatRegisterRow[], emptyText: string) =>
+    rows.length === 0 ? (
+      <div className="text-xs text-neutral-500 py-2">{emptyText}</div>
+    ) : (
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="text-left text-neutral-400 border-b border-neutral-800">
+            <th className="py-1 pr-2">Lp.</th>
+            <th className="py-1 pr-2">Data</th>
+            <th className="py-1 pr-2">Numer</th>
+            <th className="py-1 pr-2">Kontrahent</th>
+            <th className="py-1 pr-2">NIP</th>
+            <th className="py-1 pr-2">Stawka</th>
+            <th className="py-1 pr-2 text-right">Netto PLN</th>
+            <th className="py-1 text-right">VAT PLN</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(row => (
+            <tr key={`${row.document_id}-${row.lp}`} className="border-b border-neutral-800 text-white">
+              <td className="py-1 pr-2 text-neutral-500">{row.lp}</td>
+              <td className="py-1 pr-2 whitespace-nowrap">{row.invoice_date}</td>
+              <td className="py-1 pr-2">{row.invoice_number}</td>
+              <td className="py-1 pr-2 truncate max-w-[200px]">{row.counterparty_name}</td>
+              <td className="py-1 pr-2 font-mono text-neutral-400">
+                {row.counterparty_country && row.counterparty_country !== 'PL' ? row.counterparty_country : ''}
+                {row.counterparty_nip || 'BRAK'}
+              </td>
+              <td className="py-1 pr-2">
+                {VAT_RATE_LABELS[row.vat_rate]}
+                {row.currency !== 'PLN' && <span className="text-neutral-500 ml-1">({row.currency})</span>}
+              </td>
+              <td className="py-1 pr-2 text-right">{formatAmount(row.net_pln)}</td>
+              <td className="py-1 text-right">{formatAmount(row.vat_pln)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    );
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+      <div className="bg-neutral-900 border border-neutral-800 rounded-lg w-full max-w-5xl max-h-[90vh] overflow-hidden flex flex-col">
+        <div className="p-4 border-b border-neutral-800 flex items-center justify-between">
+          <h3 className="text-lg font-semibold text-white">Rejestr VAT i JPK_V7M</h3>
+          <button
+            onClick={onClose}
+            className="text-neutral-400 hover:text-white text-xl"
+          >
+            ×
+          </button>
+        </div>
+
+        <div className="p-4 border-b border-neutral-800 flex flex-wrap items-end gap-3">
+          <label className="text-xs text-neutral-400 space-y-1">
+            <span className="block">Miesiąc</span>
+            <input type="month" value={period} onChange={(e) => setPeriod(e.target.value)} className={inputClass} />
+          </label>
+          <label className="text-xs text-neutral-400 space-y-1">
+            <span className="block">NIP podatnika</span>
+            <input value={nip} onChange={(e) => setNip(e.target.value)} className={`${inputClass} w-32 font-mono`} />
+          </label>
+          <label className="text-xs text-neutral-400 space-y-1">
+            <span className="block">Kod urzędu</span>
+            <input value={taxOfficeCode} onChange={(e) => setTaxOfficeCode(e.target.value)} className={`${inputClass} w-16`} />
+          </label>
+          <label className="text-xs text-neutral-400 space-y-1">
+            <span className="block">E-mail</span>
+            <input value={email} onChange={(e) => setEmail(e.target.value)} className={`${inputClass} w-48`} />
+          </label>
+          <button
+            onClick={handleSaveTaxpayer}
+            disabled={savingTaxpayer}
+            className="text-xs bg-neutral-700 hover:bg-neutral-600 disabled:opacity-50 text-white px-3 py-1 rounded"
+          >
+            {savingTaxpayer ? 'Zapisywanie...' : 'Zapisz dane'}
+          </button>
+          <label className="text-xs text-neutral-400 space-y-1 ml-auto">
+            <span className="block">Nadwyżka z poprz. mies. (P_39)</span>
+            <input value={carriedForward} onChange={(e) => setCarriedForward(e.target.value)} className={`${inputClass} w-24`} />
+          </label>
+          <button
+            onClick={handleExport}
+            disabled={exporting || loading || blockingIssues.length > 0 || taxpayerErrors.length > 0}
+            className="text-xs bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white px-3 py-1 rounded"
+          >
+            {exporting ? 'Eksportowanie...' : 'Eksport JPK_V7M'}
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          {message && (
+            <div className={`text-xs px-3 py-2 rounded whitespace-pre-line ${
+              message.type === 'success' ? 'bg-green-900/30 text-green-400' : 'bg-red-900/30 text-red-400'
+            }`}>
+              {message.text}
+            </div>
+          )}
+
+          {loading || !register || !declaration ? (
+            <div className="text-center text-neutral-400 py-8">Ładowanie...</div>
+          ) : (
+            <>
+              <div className="grid grid-cols-4 gap-3">
+                <div className="bg-neutral-800 rounded p-2 border border-neutral-700">
+                  <div className="text-xs text-neutral-400 mb-1">Sprzedaż netto</div>
+                  <div className="text-sm font-semibold text-white">{formatAmount(register.totals.sales_net)}</div>
+                </div>
+                <div className="bg-neutral-800 rounded p-2 border border-neutral-700">
+                  <div className="text-xs text-neutral-400 mb-1">VAT należny (P_38)</div>
+                  <div className="text-sm font-semibold text-white">{declaration.positions.P_38}</div>
+                </div>
+                <div className="bg-neutral-800 rounded p-2 border border-neutral-700">
+                  <div className="text-xs text-neutral-400 mb-1">VAT naliczony (P_48)</div>
+                  <div className="text-sm font-semibold text-white">{declaration.positions.P_48}</div>
+                </div>
+                <div className="bg-neutral-800 rounded p-2 border border-neutral-700">
+                  <div className="text-xs text-neutral-400 mb-1">
+                    {declaration.payable > 0 ? 'Do zapłaty (P_51)' : 'Nadwyżka do przeniesienia (P_62)'}
+                  </div>
+                  <div className={`text-sm font-semibold ${declaration.payable > 0 ? 'text-red-400' : 'text-green-400'}`}>
+                    {declaration.payable > 0 ? declaration.payable : declaration.carryForward}
+                  </div>
+                </div>
+              </div>
+
+              {(taxpayerErrors.length > 0 || register.issues.length > 0) && (
+                <div className="space-y-1">
+                  {taxpayerErrors.map(error => (
+                    <div key={error} className="text-xs text-red-400">{error}</div>
+                  ))}
+                  {register.issues.map((issue, index) => (
+                    <div
+                      key={`${issue.document_id}-${index}`}
+                      className={`text-xs ${issue.severity === 'error' ? 'text-red-400' : 'text-yellow-400'}`}
+                    >
+                      {issue.name}: {issue.message}
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <div>
+                <h4 className="text-sm font-semibold text-white mb-2">Sprzedaż ({register.sales.length})</h4>
+                {renderRows(register.sales, 'Brak faktur sprzedaży w tym miesiącu')}
+              </div>
+
+              <div>
+                <h4 className="text-sm font-semibold text-white mb-2">Zakupy ({register.purchases.length})</h4>
+                {renderRows(register.purchases, 'Brak faktur zakupu w tym miesiącu')}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
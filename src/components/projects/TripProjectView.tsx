@@ -5,6 +5,8 @@ import { useRouter } from 'next/navigation';
 import * as projectsDb from '@/lib/db/projects';
 import * as timelineDb from '@/lib/db/timeline';
 import { getTransactions, Transaction } from '@/lib/finance/queries/getTransactions';
+import { getProjectSplits, getTransactionSplits } from '@/lib/finance/queries/getTransactionSplits';
+import { allocateToProject } from '@/lib/finance/splits';
 import type { Project } from '@/lib/db/projects';
 import type { TimelineItem } from '@/lib/db/timeline';
 import EvidenceUploader from '@/components/evidence/EvidenceUploader';
@@ -24,6 +26,7 @@ export default function TripProjectView({ projectId, onClose }: TripProjectViewP
   const [project, setProject] = useState<Project | null>(null);
   const [notes, setNotes] = useState<TimelineItem[]>([]);
   const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [reimbursementTransactions, setReimbursementTransactions] = useState<Transaction[]>([]);
   const [loading, setLoading] = useState(true);
   const [activeTab, setActiveTab] = useState<Tab>('overview');
   const [editingNote, setEditingNote] = useState<string | null>(null);
@@ -47,6 +50,7 @@ export default function TripProjectView({ projectId, onClose }: TripProjectViewP
       setProject(projectData);
       setNotes(notesData);
       setTransactions(transactionsData);
+      setReimbursementTransactions(await loadProjectShare(transactionsData));
     } catch (error) {
       console.error('Error loading trip data:', error);
     } finally {
@@ -70,6 +74,20 @@ export default function TripProjectView({ projectId, onClose }: TripProjectViewP
     return result.transactions;
   };
 
+  // Split transactions only count with the lines allocated to this project
+  const loadProjectShare = async (projectTransactions: Transaction[]) => {
+    const projectSplits = await getProjectSplits(projectId);
+    const knownIds = new Set(projectTransactions.map(t => t.id));
+    const missingIds = Array.from(new Set(projectSplits.map(s => s.transaction_id))).filter(id => !knownIds.has(id));
+    const splitParents = missingIds.length > 0
+      ? (await getTransactions({ ids: missingIds })).transactions
+      : [];
+
+    const all = [...projectTransactions, ...splitParents];
+    const splits = await getTransactionSplits(all.filter(t => t.has_splits).map(t => t.id));
+    return allocateToProject(all, splits, projectId);
+  };
+
   const handleSaveNote = async (noteId?: string) => {
     if (!project) return;
 
@@ -360,7 +378,7 @@ export default function TripProjectView({ projectId, onClose }: TripProjectViewP
 
       {activeTab === 'reimbursement' && (
         <div className="space-y-4">
-          <ReimbursementSummary transactions={transactions} />
+          <ReimbursementSummary transactions={reimbursementTransactions} />
         </div>
       )}
 
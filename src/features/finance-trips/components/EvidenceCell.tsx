@@ -37,7 +37,7 @@ export default function EvidenceCell({ tripItemId, tripId, orgId, onUpdate }: Ev
 
   const handlePreview = async (ev: FinanceTripEvidence) => {
     try {
-      const response = await fetch(`/api/trip-evidence/signed-url?path=${encodeURIComponent(ev.storage_path)}`);
+      const response = await fetch(`/api/trip-evidence/signed-url?bucket=${encodeURIComponent(ev.storage_bucket)}&path=${encodeURIComponent(ev.storage_path)}`);
       if (response.ok) {
         const data = await response.json();
         setPreviewUrl(data.url);
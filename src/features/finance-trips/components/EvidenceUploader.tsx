@@ -1,11 +1,18 @@
 'use client';
 
 import { useState, useCallback, useRef, useEffect } from 'react';
+import type { FinanceTripEvidence } from '../db/trips';
+import ReceiptReview from './ReceiptReview';
 
 interface EvidenceUploaderProps {
   tripId: string;
-  tripItemId: string;
+  // Without an item the upload is trip-level and the receipt review creates the item
+  tripItemId?: string | null;
   orgId: string;
+  // Read uploaded images and PDFs with receipt OCR and offer the fields for confirmation
+  extractReceipt?: boolean;
+  // Listen for Ctrl+V on the whole window; only one uploader on screen should
+  enablePaste?: boolean;
   onUploadSuccess?: () => void;
   onUploadError?: (error: string) => void;
 }
@@ -16,8 +23,11 @@ export default function EvidenceUploader({
   orgId,
   onUploadSuccess,
   onUploadError,
+  extractReceipt = true,
+  enablePaste = true,
 }: EvidenceUploaderProps) {
   const [uploading, setUploading] = useState(false);
+  const [reviewEvidence, setReviewEvidence] = useState<FinanceTripEvidence | null>(null);
   const [isDragging, setIsDragging] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
@@ -35,7 +45,7 @@ export default function EvidenceUploader({
       formData.append('file', file);
       formData.append('orgId', orgId);
       formData.append('tripId', tripId);
-      formData.append('tripItemId', tripItemId);
+      if (tripItemId) formData.append('tripItemId', tripItemId);
 
       const response = await fetch('/api/trip-evidence/upload', {
         method: 'POST',
@@ -47,14 +57,20 @@ export default function EvidenceUploader({
         throw new Error(error.error || 'Upload failed');
       }
 
-      onUploadSuccess?.();
+      // With a receipt review pending, the parent is notified once it is confirmed or skipped
+      const { evidence } = await response.json();
+      if (extractReceipt && evidence && (file.type.startsWith('image/') || file.type === 'application/pdf')) {
+        setReviewEvidence(evidence);
+      } else {
+        onUploadSuccess?.();
+      }
     } catch (error: any) {
       console.error('Error uploading evidence:', error);
       onUploadError?.(error.message || 'Failed to upload file');
     } finally {
       setUploading(false);
     }
-  }, [tripId, tripItemId, orgId, onUploadSuccess, onUploadError]);
+  }, [tripId, tripItemId, orgId, onUploadSuccess, onUploadError, extractReceipt]);
 
   const handleFileInputChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -93,6 +109,7 @@ export default function EvidenceUploader({
 
   // Handle paste from clipboard (Ctrl+V)
   useEffect(() => {
+    if (!enablePaste) return;
     const handlePaste = (e: ClipboardEvent) => {
       const items = e.clipboardData?.items;
       if (!items) return;
@@ -111,7 +128,7 @@ export default function EvidenceUploader({
 
     window.addEventListener('paste', handlePaste);
     return () => window.removeEventListener('paste', handlePaste);
-  }, [handleUpload]);
+  }, [handleUpload, enablePaste]);
 
   return (
     <div>
@@ -141,7 +158,7 @@ export default function EvidenceUploader({
           ) : (
             <>
               <div className="text-xs text-neutral-400 mb-1">
-                Drag & drop,{' '}
+                Drag & drop{enablePaste ? ',' : ' or'}{' '}
                 <button
                   type="button"
                   onClick={() => fileInputRef.current?.click()}
@@ -149,12 +166,25 @@ export default function EvidenceUploader({
                 >
                   browse
                 </button>
-                {' '}or paste (Ctrl+V)
+                {enablePaste && ' or paste (Ctrl+V)'}
               </div>
             </>
           )}
         </div>
       </div>
+
+      {reviewEvidence && (
+        <ReceiptReview
+          evidence={reviewEvidence}
+          tripId={tripId}
+          orgId={orgId}
+          tripItemId={tripItemId}
+          onDone={() => {
+            setReviewEvidence(null);
+            onUploadSuccess?.();
+          }}
+        />
+      )}
     </div>
   );
 }
@@ -79,7 +79,7 @@ export default function ExpenseDrawer({
 
   const handlePreviewEvidence = async (ev: FinanceTripEvidence) => {
     try {
-      const response = await fetch(`/api/trip-evidence/signed-url?path=${encodeURIComponent(ev.storage_path)}`);
+      const response = await fetch(`/api/trip-evidence/signed-url?bucket=${encodeURIComponent(ev.storage_bucket)}&path=${encodeURIComponent(ev.storage_path)}`);
       if (response.ok) {
         const data = await response.json();
         window.open(data.url, '_blank');
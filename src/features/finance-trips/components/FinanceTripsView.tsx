@@ -7,6 +7,8 @@ import * as tripsDb from '../db/trips';
 import * as tripItemsDb from '../db/trip-items';
 import * as tripEvidenceDb from '../db/trip-evidence';
 import type { FinanceTrip, FinanceTripWithStats } from '../db/trips';
+import { computeTripAllowances } from '@/lib/trips/allowances';
+import { TRIP_STATUS_LABELS, TRIP_STATUS_STYLES } from '@/lib/trips/workflow';
 import TripDetailView from './TripDetailView';
 
 export default function FinanceTripsView() {
@@ -63,6 +65,10 @@ export default function FinanceTripsView() {
               missingEvidenceCount++;
             }
           });
+
+          computeTripAllowances(trip).lines.forEach(line => {
+            reimbursableTotals[line.currency] = (reimbursableTotals[line.currency] || 0) + line.amount;
+          });
           
           return {
             ...trip,
@@ -261,12 +267,8 @@ export default function FinanceTripsView() {
                 <div className="flex-1">
                   <div className="flex items-center gap-2 mb-2">
                     <h3 className="text-lg font-medium text-white">{trip.title}</h3>
-                    <span className={`px-2 py-0.5 text-xs font-medium rounded ${
-                      trip.status === 'draft' ? 'bg-yellow-500/20 text-yellow-400' :
-                      trip.status === 'submitted' ? 'bg-blue-500/20 text-blue-400' :
-                      'bg-green-500/20 text-green-400'
-                    }`}>
-                      {trip.status}
+                    <span className={`px-2 py-0.5 text-xs font-medium rounded ${TRIP_STATUS_STYLES[trip.status]}`}>
+                      {TRIP_STATUS_LABELS[trip.status]}
                     </span>
                   </div>
                   <div className="text-sm text-neutral-400 mb-2">
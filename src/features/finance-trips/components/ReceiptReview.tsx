@@ -0,0 +1,231 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { extractTripReceipt } from '@/app/actions/finance/extractTripReceipt';
+import type { ReceiptExtraction, ReceiptField } from '@/lib/trips/receiptParser';
+import { CURRENCIES } from '@/lib/trips/constants';
+import * as tripItemsDb from '../db/trip-items';
+import * as tripEvidenceDb from '../db/trip-evidence';
+import type { FinanceTripEvidence } from '../db/trips';
+
+interface ReceiptReviewProps {
+  evidence: FinanceTripEvidence;
+  tripId: string;
+  orgId: string;
+  /** Item the receipt was attached to; without one, confirming creates a new item */
+  tripItemId?: string | null;
+  onDone: () => void;
+}
+
+const confidenceStyle = (confidence: number) =>
+  confidence >= 0.8 ? 'bg-green-500/20 text-green-400' :
+  confidence >= 0.5 ? 'bg-yellow-500/20 text-yellow-400' :
+  'bg-red-500/20 text-red-400';
+
+function ConfidenceBadge({ field }: { field: ReceiptField<unknown> | null }) {
+  if (!field) {
+    return <span className="px-1.5 py-0.5 text-[10px] rounded bg-neutral-700 text-neutral-400">brak</span>;
+  }
+  return (
+    <span className={`px-1.5 py-0.5 text-[10px] rounded ${confidenceStyle(field.confidence)}`}>
+      {Math.round(field.confidence * 100)}%
+    </span>
+  );
+}
+
+/**
+ * Receipt OCR result for confirmation: pre-filled, editable fields with a confidence per
+ * field. Confirming fills the trip item (or creates one) with the reviewed values.
+ */
+export default function ReceiptReview({ evidence, tripId, orgId, tripItemId, onDone }: ReceiptReviewProps) {
+  const [extracting, setExtracting] = useState(true);
+  const [fields, setFields] = useState<ReceiptExtraction | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [vendor, setVendor] = useState('');
+  const [date, setDate] = useState('');
+  const [amount, setAmount] = useState('');
+  const [currency, setCurrency] = useState('PLN');
+  const [vat, setVat] = useState('');
+
+  useEffect(() => {
+    runExtraction();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [evidence.id]);
+
+  const runExtraction = async () => {
+    setExtracting(true);
+    setError(null);
+    try {
+      const result = await extractTripReceipt(evidence.id);
+      if (!result.ok || !result.extraction) {
+        setError(result.error || 'Nie udało się odczytać paragonu');
+        return;
+      }
+      const extracted = result.extraction.fields;
+      setFields(extracted);
+      setVendor(extracted.vendor?.value || '');
+      setDate(extracted.date?.value || '');
+      setAmount(extracted.total ? String(extracted.total.value) : '');
+      setCurrency(extracted.currency?.value || 'PLN');
+      setVat(extracted.vat ? String(extracted.vat.value) : '');
+    } finally {
+      setExtracting(false);
+    }
+  };
+
+  const handleConfirm = async () => {
+    const parsedAmount = parseFloat(amount.replace(',', '.'));
+    if (isNaN(parsedAmount) || parsedAmount <= 0) {
+      setError('Podaj kwotę');
+      return;
+    }
+    const parsedVat = vat.trim() ? parseFloat(vat.replace(',', '.')) : null;
+
+    setSaving(true);
+    setError(null);
+    try {
+      const values = {
+        vendor: vendor.trim() || null,
+        item_date: date || null,
+        amount: parsedAmount,
+        currency,
+        vat_amount: parsedVat !== null && !isNaN(parsedVat) ? parsedVat : null,
+        receipt_confidence: fields?.confidence ?? null,
+      };
+
+      if (tripItemId) {
+        const updated = await tripItemsDb.updateTripItem(tripItemId, values);
+        if (!updated) {
+          setError('Nie udało się zaktualizować wydatku');
+          return;
+        }
+      } else {
+        const created = await tripItemsDb.createTripItem({
+          ...values,
+          org_id: orgId,
+          trip_id: tripId,
+          source: 'manual',
+          transaction_id: null,
+          description: values.vendor,
+          category: 'OTHER',
+          paid_by_company_card: false,
+          exclude_from_reimbursement: false,
+          card_source: null,
+        });
+        if (!created) {
+          setError('Nie udało się utworzyć wydatku');
+          return;
+        }
+        await tripEvidenceDb.assignTripEvidenceToItem(evidence.id, created.id);
+      }
+      onDone();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (extracting) {
+    return (
+      <div className="mt-2 text-xs text-neutral-400 bg-neutral-800/50 rounded p-2">
+        Odczytywanie paragonu {evidence.file_name}...
+      </div>
+    );
+  }
+
+  const inputClass = 'w-full text-xs bg-neutral-800 border border-neutral-700 rounded px-2 py-1 text-white';
+
+  return (
+    <div className="mt-2 bg-neutral-800/50 border border-neutral-700 rounded p-3 space-y-2">
+      <div className="flex items-center justify-between">
+        <div className="text-xs font-semibold text-white">Odczytany paragon</div>
+        {fields && (
+          <span className={`px-1.5 py-0.5 text-[10px] rounded ${confidenceStyle(fields.confidence)}`}>
+            pewność {Math.round(fields.confidence * 100)}%
+          </span>
+        )}
+      </div>
+
+      {error && <div className="text-xs px-2 py-1 rounded bg-red-900/30 text-red-400">{error}</div>}
+
+      {fields && (
+        <>
+          <div className="grid grid-cols-2 gap-2">
+            <div className="col-span-2">
+              <label className="flex items-center justify-between text-xs text-neutral-400 mb-1">
+                Sprzedawca <ConfidenceBadge field={fields.vendor} />
+              </label>
+              <input value={vendor} onChange={(e) => setVendor(e.target.value)} dir="auto" className={inputClass} />
+            </div>
+            <div>
+              <label className="flex items-center justify-between text-xs text-neutral-400 mb-1">
+                Data <ConfidenceBadge field={fields.date} />
+              </label>
+              <input type="date" value={date} onChange={(e) => setDate(e.target.value)} className={inputClass} />
+            </div>
+            <div>
+              <label className="flex items-center justify-between text-xs text-neutral-400 mb-1">
+                Waluta <ConfidenceBadge field={fields.currency} />
+              </label>
+              <select value={currency} onChange={(e) => setCurrency(e.target.value)} className={inputClass}>
+                {!CURRENCIES.some(c => c.value === currency) && <option value={currency}>{currency}</option>}
+                {CURRENCIES.map(c => (
+                  <option key={c.value} value={c.value}>{c.label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="flex items-center justify-between text-xs text-neutral-400 mb-1">
+                Kwota <ConfidenceBadge field={fields.total} />
+              </label>
+              <input value={amount} onChange={(e) => setAmount(e.target.value)} className={inputClass} />
+            </div>
+            <div>
+              <label className="flex items-center justify-between text-xs text-neutral-400 mb-1">
+                VAT{fields.vatRate !== null ? ` (${fields.vatRate}%)` : ''} <ConfidenceBadge field={fields.vat} />
+              </label>
+              <input value={vat} onChange={(e) => setVat(e.target.value)} className={inputClass} />
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={onDone}
+              className="px-3 py-1 text-xs bg-neutral-700 text-white rounded hover:bg-neutral-600"
+            >
+              Pomiń
+            </button>
+            <button
+              type="button"
+              onClick={handleConfirm}
+              disabled={saving}
+              className="px-3 py-1 text-xs bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+            >
+              {saving ? 'Zapisywanie...' : tripItemId ? 'Zastosuj do wydatku' : 'Utwórz wydatek'}
+            </button>
+          </div>
+        </>
+      )}
+
+      {!fields && (
+        <div className="flex justify-end gap-2">
+          <button
+            type="button"
+            onClick={runExtraction}
+            className="px-3 py-1 text-xs bg-neutral-700 text-white rounded hover:bg-neutral-600"
+          >
+            Spróbuj ponownie
+          </button>
+          <button
+            type="button"
+            onClick={onDone}
+            className="px-3 py-1 text-xs bg-neutral-700 text-white rounded hover:bg-neutral-600"
+          >
+            Zamknij
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,205 @@
+'use client';
+
+import { format } from 'date-fns';
+import type { FinanceTrip } from '../db/trips';
+import { computeTripAllowances, FOREIGN_RATES, VEHICLE_TYPES, type VehicleType } from '@/lib/trips/allowances';
+
+interface TripAllowancesPanelProps {
+  trip: FinanceTrip;
+  onUpdate: (updates: Partial<FinanceTrip>) => void;
+  formatCurrency: (amount: number, currency: string) => string;
+  disabled?: boolean;
+}
+
+const inputClass = 'w-full text-xs bg-neutral-800 border border-neutral-700 rounded px-2 py-1 text-white';
+
+// TIMESTAMPTZ <-> value of a datetime-local input (local time)
+const toLocalInput = (iso: string | null | undefined) => {
+  if (!iso) return '';
+  try {
+    return format(new Date(iso), "yyyy-MM-dd'T'HH:mm");
+  } catch {
+    return '';
+  }
+};
+
+const fromLocalInput = (value: string) => {
+  if (!value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+};
+
+const parseCount = (value: string) => Math.max(0, parseInt(value, 10) || 0);
+
+const parseAmount = (value: string) => {
+  if (!value.trim()) return null;
+  const amount = parseFloat(value.replace(',', '.'));
+  return isNaN(amount) || amount < 0 ? null : amount;
+};
+
+export default function TripAllowancesPanel({ trip, onUpdate, formatCurrency, disabled = false }: TripAllowancesPanelProps) {
+  const { lines, issues } = computeTripAllowances(trip);
+  const country = trip.destination_country || 'PL';
+
+  return (
+    <div className="bg-neutral-800/50 border border-neutral-700 rounded-lg p-4 space-y-3">
+      <h3 className="text-sm font-semibold text-white">Dieta, ryczałty i kilometrówka</h3>
+
+      <fieldset disabled={disabled} className="space-y-3 disabled:opacity-60">
+      <div className="grid grid-cols-6 gap-2">
+        <div className="col-span-2">
+          <label className="block text-xs text-neutral-400 mb-1">Wyjazd</label>
+          <input
+            type="datetime-local"
+            value={toLocalInput(trip.departure_at)}
+            onChange={(e) => onUpdate({ departure_at: fromLocalInput(e.target.value) })}
+            className={inputClass}
+          />
+        </div>
+        <div className="col-span-2">
+          <label className="block text-xs text-neutral-400 mb-1">Powrót</label>
+          <input
+            type="datetime-local"
+            value={toLocalInput(trip.return_at)}
+            onChange={(e) => onUpdate({ return_at: fromLocalInput(e.target.value) })}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-xs text-neutral-400 mb-1">Kraj docelowy</label>
+          <input
+            key={`country-${trip.id}-${country}`}
+            list="trip-countries"
+            defaultValue={country}
+            onBlur={(e) => {
+              const value = e.target.value.trim().toUpperCase();
+              if (!value || value === country) return;
+              if (value !== 'PL' && !FOREIGN_RATES[value]) {
+                alert(`Nieznany kod kraju: ${value}`);
+                e.target.value = country;
+                return;
+              }
+              onUpdate({ destination_country: value });
+            }}
+            maxLength={2}
+            className={`${inputClass} uppercase`}
+          />
+          <datalist id="trip-countries">
+            <option value="PL">Polska</option>
+            {Object.entries(FOREIGN_RATES).map(([code, rates]) => (
+              <option key={code} value={code}>{rates.name}</option>
+            ))}
+          </datalist>
+        </div>
+        <div>
+          <label className="block text-xs text-neutral-400 mb-1">Własna stawka diety</label>
+          <div className="flex gap-1">
+            <input
+              key={`rate-${trip.id}-${trip.per_diem_rate ?? ''}`}
+              defaultValue={trip.per_diem_rate ?? ''}
+              onBlur={(e) => {
+                const rate = parseAmount(e.target.value);
+                if (rate !== (trip.per_diem_rate ?? null)) onUpdate({ per_diem_rate: rate });
+              }}
+              placeholder="ustawowa"
+              className={inputClass}
+            />
+            <input
+              key={`rate-currency-${trip.id}-${trip.per_diem_currency ?? ''}`}
+              defaultValue={trip.per_diem_currency ?? ''}
+              onBlur={(e) => {
+                const value = e.target.value.trim().toUpperCase() || null;
+                if (value !== (trip.per_diem_currency ?? null)) onUpdate({ per_diem_currency: value });
+              }}
+              placeholder="EUR"
+              maxLength={3}
+              className={`${inputClass} w-14 uppercase`}
+            />
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-6 gap-2">
+        {([
+          ['breakfasts_provided', 'Zapewnione śniadania'],
+          ['lunches_provided', 'Zapewnione obiady'],
+          ['dinners_provided', 'Zapewnione kolacje'],
+          ['nights_without_invoice', 'Noclegi bez rachunku'],
+        ] as const).map(([field, label]) => (
+          <div key={field}>
+            <label className="block text-xs text-neutral-400 mb-1">{label}</label>
+            <input
+              key={`${field}-${trip.id}-${trip[field] ?? 0}`}
+              type="number"
+              min={0}
+              defaultValue={trip[field] ?? 0}
+              onBlur={(e) => {
+                const count = parseCount(e.target.value);
+                if (count !== (trip[field] ?? 0)) onUpdate({ [field]: count });
+              }}
+              className={inputClass}
+            />
+          </div>
+        ))}
+        <div>
+          <label className="block text-xs text-neutral-400 mb-1">Kilometry</label>
+          <input
+            key={`km-${trip.id}-${trip.mileage_km ?? ''}`}
+            defaultValue={trip.mileage_km ?? ''}
+            onBlur={(e) => {
+              const km = parseAmount(e.target.value);
+              if (km !== (trip.mileage_km ?? null)) onUpdate({ mileage_km: km });
+            }}
+            placeholder="0"
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-xs text-neutral-400 mb-1">Pojazd</label>
+          <select
+            value={trip.vehicle_type || ''}
+            onChange={(e) => onUpdate({ vehicle_type: (e.target.value || null) as VehicleType | null })}
+            className={inputClass}
+          >
+            <option value="">—</option>
+            {VEHICLE_TYPES.map(vehicle => (
+              <option key={vehicle.value} value={vehicle.value}>{vehicle.label}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <label className="flex items-center gap-2 text-xs text-neutral-300">
+        <input
+          type="checkbox"
+          checked={!!trip.local_transport_lump_sum}
+          onChange={(e) => onUpdate({ local_transport_lump_sum: e.target.checked })}
+        />
+        Ryczałt na dojazdy komunikacją miejscową
+      </label>
+      </fieldset>
+
+      {lines.length > 0 && (
+        <div className="space-y-1">
+          {lines.map(line => (
+            <div key={line.kind} className="flex items-center justify-between text-xs bg-neutral-900/50 rounded px-2 py-1">
+              <div>
+                <span className="text-white">{line.label}</span>
+                <span className="text-neutral-500 ml-2">{line.detail}</span>
+              </div>
+              <span className="text-neutral-300 font-medium">{formatCurrency(line.amount, line.currency)}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {issues.length > 0 && (
+        <div className="space-y-1">
+          {issues.map(issue => (
+            <div key={issue} className="text-xs text-yellow-400">{issue}</div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
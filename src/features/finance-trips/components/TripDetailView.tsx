@@ -5,8 +5,26 @@ import { format } from 'date-fns';
 import * as tripsDb from '../db/trips';
 import * as tripItemsDb from '../db/trip-items';
 import * as tripEvidenceDb from '../db/trip-evidence';
-import type { FinanceTrip, FinanceTripItem, FinanceTripEvidence } from '../db/trips';
+import * as tripStatusLogDb from '../db/trip-status-log';
+import type { FinanceTrip, FinanceTripItem, FinanceTripEvidence, FinanceTripStatusLogEntry } from '../db/trips';
 import { CARD_SOURCES, EXPENSE_CATEGORIES, CURRENCIES, type ExpenseCategory, type Currency, type CardSource } from '@/lib/trips/constants';
+import { computeTripAllowances } from '@/lib/trips/allowances';
+import { buildTripSettlement, type TripSettlement } from '@/lib/trips/settlement';
+import ReimbursementSummary from '@/components/evidence/ReimbursementSummary';
+import {
+  TRIP_ACTIONS,
+  TRIP_STATUS_LABELS,
+  TRIP_STATUS_STYLES,
+  availableTripActions,
+  isTripLocked,
+  type TripAction,
+} from '@/lib/trips/workflow';
+import TripAllowancesPanel from './TripAllowancesPanel';
+import TripWorkflowModal from './TripWorkflowModal';
+import TripStatusLog from './TripStatusLog';
+import TripSettlementReport from './TripSettlementReport';
+import EvidenceUploader from './EvidenceUploader';
+import { exportTripSettlementPdf } from './exportTripSettlementPdf';
 
 interface TripDetailViewProps {
   tripId: string;
@@ -27,22 +45,45 @@ export default function TripDetailView({ tripId, orgId, onBack }: TripDetailView
   const [draggingOverRowId, setDraggingOverRowId] = useState<string | null>(null);
   const [showAttachmentsModal, setShowAttachmentsModal] = useState(false);
   const [modalEvidence, setModalEvidence] = useState<FinanceTripEvidence[]>([]);
+  const [statusLog, setStatusLog] = useState<FinanceTripStatusLogEntry[]>([]);
+  const [workflowAction, setWorkflowAction] = useState<TripAction | null>(null);
+  const [settlement, setSettlement] = useState<TripSettlement | null>(null);
+  const settlementRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
     loadData();
   }, [tripId]);
 
+  // The settlement report is mounted off-screen first, then captured into the PDF
+  useEffect(() => {
+    if (!settlement || !trip || !settlementRef.current) return;
+    exportTripSettlementPdf(settlementRef.current, trip, settlement.annexes)
+      .then(({ failed }) => {
+        if (failed.length > 0) {
+          alert(`Nie udało się dołączyć załączników: ${failed.join(', ')}`);
+        }
+      })
+      .catch(error => {
+        console.error('Error exporting settlement PDF:', error);
+        alert('Błąd podczas generowania rozliczenia PDF');
+      })
+      .finally(() => setSettlement(null));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [settlement]);
+
 
   const loadData = async () => {
     setLoading(true);
     try {
-      const [tripData, itemsData] = await Promise.all([
+      const [tripData, itemsData, logData] = await Promise.all([
         tripsDb.getTripById(tripId),
         tripItemsDb.getTripItems(tripId),
+        tripStatusLogDb.getTripStatusLog(tripId),
       ]);
       
       setTrip(tripData);
       setItems(itemsData);
+      setStatusLog(logData);
     } catch (error) {
       console.error('Error loading trip data:', error);
     } finally {
@@ -175,10 +216,18 @@ export default function TripDetailView({ tripId, orgId, onBack }: TripDetailView
     return `${formatDate(start)}–${formatDate(end)}`;
   };
 
+  // No auth session yet: use the email remembered by the Gmail/documents flow
+  const getCurrentUser = () =>
+    localStorage.getItem('userEmail') || localStorage.getItem('gmail_user_email') || null;
+
   if (loading || !trip) {
     return <div className="text-center py-8 text-neutral-400">Loading trip...</div>;
   }
 
+  const locked = isTripLocked(trip.status);
+  // Approver comments per item from the latest review
+  const lastReview = statusLog.find(entry => entry.to_status === 'approved' || entry.to_status === 'rejected');
+
   return (
     <div className="space-y-4 relative">
       {/* Header */}
@@ -205,7 +254,8 @@ export default function TripDetailView({ tripId, orgId, onBack }: TripDetailView
                     }
                   }}
                   placeholder="DD.MM.YYYY"
-                  className="w-24 text-xs bg-neutral-800 border border-neutral-700 rounded px-2 py-1 text-white"
+                  disabled={locked}
+                  className="w-24 text-xs bg-neutral-800 border border-neutral-700 rounded px-2 py-1 text-white disabled:opacity-60"
                 />
               </div>
               <div className="flex items-center gap-2">
@@ -220,18 +270,14 @@ export default function TripDetailView({ tripId, orgId, onBack }: TripDetailView
                     }
                   }}
                   placeholder="DD.MM.YYYY"
-                  className="w-24 text-xs bg-neutral-800 border border-neutral-700 rounded px-2 py-1 text-white"
+                  disabled={locked}
+                  className="w-24 text-xs bg-neutral-800 border border-neutral-700 rounded px-2 py-1 text-white disabled:opacity-60"
                 />
               </div>
-              <select
-                value={trip.status}
-                onChange={(e) => handleUpdateTrip({ status: e.target.value as any })}
-                className="text-xs bg-neutral-800 border border-neutral-700 rounded px-2 py-1 text-white"
-              >
-                <option value="draft">draft</option>
-                <option value="submitted">submitted</option>
-                <option value="reimbursed">reimbursed</option>
-              </select>
+              <span className={`px-2 py-0.5 text-xs font-medium rounded ${TRIP_STATUS_STYLES[trip.status]}`}>
+                {TRIP_STATUS_LABELS[trip.status]}
+              </span>
+              {locked && <span className="text-xs text-neutral-500">🔒 zablokowana do edycji</span>}
             </div>
           </div>
         </div>
@@ -260,6 +306,24 @@ export default function TripDetailView({ tripId, orgId, onBack }: TripDetailView
           >
             Export CSV
           </button>
+          <button
+            onClick={async () => {
+              if (!trip) return;
+              const settlementDate = format(new Date(), 'yyyy-MM-dd');
+              const [evidence, fx] = await Promise.all([
+                tripEvidenceDb.getTripEvidenceByTrip(trip.id),
+                tripsDb.getSettlementFxConverter(
+                  computeTripAllowances(trip).lines.map(line => line.currency),
+                  settlementDate
+                ),
+              ]);
+              setSettlement(buildTripSettlement(trip, items, evidence, { fx, settlementDate }));
+            }}
+            disabled={!!settlement}
+            className="px-3 py-1.5 text-xs bg-neutral-700 text-white rounded hover:bg-neutral-600 disabled:opacity-50"
+          >
+            {settlement ? 'Generowanie...' : 'Rozliczenie PDF'}
+          </button>
           <button
             onClick={async () => {
               if (!trip || items.length === 0) return;
@@ -289,7 +353,7 @@ export default function TripDetailView({ tripId, orgId, onBack }: TripDetailView
                   const customFileName = `${dateStr} | ${nameStr} | ${amountStr} | ${currencyStr}.${ev.file_name.split('.').pop() || 'pdf'}`;
 
                   try {
-                    const urlResponse = await fetch(`/api/trip-evidence/signed-url?path=${encodeURIComponent(ev.storage_path)}`);
+                    const urlResponse = await fetch(`/api/trip-evidence/signed-url?bucket=${encodeURIComponent(ev.storage_bucket)}&path=${encodeURIComponent(ev.storage_path)}`);
                     if (!urlResponse.ok) continue;
                     
                     const { url } = await urlResponse.json();
@@ -322,14 +386,20 @@ export default function TripDetailView({ tripId, orgId, onBack }: TripDetailView
           >
             Pobierz załączniki
           </button>
-          {trip.status === 'draft' && items.length > 0 && (
+          {availableTripActions(trip.status).map(action => (
             <button
-              onClick={() => handleUpdateTrip({ status: 'submitted' })}
-              className="px-3 py-1.5 text-xs bg-blue-600 text-white rounded hover:bg-blue-700"
+              key={action}
+              onClick={() => setWorkflowAction(action)}
+              disabled={action === 'submit' && items.length === 0}
+              className={`px-3 py-1.5 text-xs text-white rounded disabled:opacity-50 ${
+                action === 'reject' ? 'bg-red-600 hover:bg-red-700' :
+                action === 'withdraw' ? 'bg-neutral-700 hover:bg-neutral-600' :
+                'bg-blue-600 hover:bg-blue-700'
+              }`}
             >
-              Mark Submitted
+              {TRIP_ACTIONS[action].label}
             </button>
-          )}
+          ))}
         </div>
       </div>
 
@@ -353,7 +423,10 @@ export default function TripDetailView({ tripId, orgId, onBack }: TripDetailView
         </div>
       )}
 
+      <TripAllowancesPanel trip={trip} onUpdate={handleUpdateTrip} formatCurrency={formatCurrency} disabled={locked} />
+
       {/* Quick Add Form */}
+      {!locked && (
       <form onSubmit={handleQuickAdd} className="bg-neutral-800/50 border border-neutral-700 rounded-lg p-4 space-y-3">
         <div className="grid grid-cols-6 gap-2">
           <div>
@@ -439,6 +512,14 @@ export default function TripDetailView({ tripId, orgId, onBack }: TripDetailView
           </button>
         </div>
       </form>
+      )}
+
+      {!locked && (
+        <div>
+          <div className="text-xs text-neutral-400 mb-1">Dodaj wydatek ze zdjęcia paragonu (OCR)</div>
+          <EvidenceUploader tripId={tripId} orgId={orgId} enablePaste={false} onUploadSuccess={loadData} />
+        </div>
+      )}
 
       {/* Expense List Table */}
       <div className="overflow-x-auto">
@@ -481,6 +562,8 @@ export default function TripDetailView({ tripId, orgId, onBack }: TripDetailView
                   item={item}
                   formatDate={formatDate}
                   formatCurrency={formatCurrency}
+                  locked={locked}
+                  reviewComment={lastReview?.item_comments?.[item.id] || null}
                   onCardSourceChange={(cardSource) => handleCardSourceChange(item.id, cardSource)}
                   onDelete={() => handleDeleteExpense(item.id)}
                   tripId={tripId}
@@ -500,6 +583,31 @@ export default function TripDetailView({ tripId, orgId, onBack }: TripDetailView
         )}
       </div>
 
+      <ReimbursementSummary tripItems={items} allowances={computeTripAllowances(trip).lines} />
+
+      <TripStatusLog entries={statusLog} items={items} />
+
+      {settlement && (
+        <div style={{ position: 'fixed', left: -10000, top: 0 }} aria-hidden>
+          <TripSettlementReport ref={settlementRef} trip={trip} settlement={settlement} formatCurrency={formatCurrency} />
+        </div>
+      )}
+
+      {workflowAction && (
+        <TripWorkflowModal
+          trip={trip}
+          items={items}
+          action={workflowAction}
+          actor={getCurrentUser()}
+          formatCurrency={formatCurrency}
+          onClose={() => setWorkflowAction(null)}
+          onDone={async () => {
+            setWorkflowAction(null);
+            await loadData();
+          }}
+        />
+      )}
+
       {/* Attachments Modal - rendered at top level */}
       {showAttachmentsModal && (
         <AttachmentsModal
@@ -569,6 +677,8 @@ interface ExpenseRowProps {
   onShowAttachments: (evidence: FinanceTripEvidence[]) => void;
   tripId: string;
   orgId: string;
+  locked: boolean;
+  reviewComment: string | null;
 }
 
 function ExpenseRow({
@@ -581,6 +691,8 @@ function ExpenseRow({
   onShowAttachments,
   tripId,
   orgId,
+  locked,
+  reviewComment,
 }: ExpenseRowProps) {
   const [attachmentCount, setAttachmentCount] = useState(0);
   const [evidence, setEvidence] = useState<FinanceTripEvidence[]>([]);
@@ -610,6 +722,7 @@ function ExpenseRow({
   }, [editingField]);
 
   const handleFieldClick = (field: string, currentValue: string) => {
+    if (locked) return;
     setEditingField(field);
     // Convert ISO date to EU format for editing
     if (field === 'date' && currentValue) {
@@ -826,9 +939,12 @@ function ExpenseRow({
             onClick={(e) => e.stopPropagation()}
           />
         ) : (
-          <div className="font-medium text-white cursor-pointer hover:text-blue-400">
-            {item.vendor || item.description || '-'}
-          </div>
+          <>
+            <div className="font-medium text-white cursor-pointer hover:text-blue-400">
+              {item.vendor || item.description || '-'}
+            </div>
+            {reviewComment && <div className="text-yellow-400/80 mt-0.5">💬 {reviewComment}</div>}
+          </>
         )}
       </td>
 
@@ -888,6 +1004,7 @@ function ExpenseRow({
         <select
           value={item.card_source || ''}
           onChange={(e) => onCardSourceChange(e.target.value || null)}
+          disabled={locked}
           className="bg-neutral-800 border border-neutral-700 rounded px-2 py-1 text-xs text-white focus:outline-none focus:ring-1 focus:ring-blue-500"
           onClick={(e) => e.stopPropagation()}
         >
@@ -939,13 +1056,15 @@ function ExpenseRow({
 
       {/* Actions */}
       <td className="py-2 px-2 text-center" onClick={(e) => e.stopPropagation()}>
-        <button
-          onClick={onDelete}
-          className="text-red-400 hover:text-red-300 text-xs"
-          title="Usuń wydatek"
-        >
-          ✕
-        </button>
+        {!locked && (
+          <button
+            onClick={onDelete}
+            className="text-red-400 hover:text-red-300 text-xs"
+            title="Usuń wydatek"
+          >
+            ✕
+          </button>
+        )}
       </td>
     </tr>
   );
@@ -1012,7 +1131,7 @@ function AttachmentsModal({
                 <button
                   onClick={async () => {
                     try {
-                      const response = await fetch(`/api/trip-evidence/signed-url?path=${encodeURIComponent(ev.storage_path)}`);
+                      const response = await fetch(`/api/trip-evidence/signed-url?bucket=${encodeURIComponent(ev.storage_bucket)}&path=${encodeURIComponent(ev.storage_path)}`);
                       if (!response.ok) throw new Error('Failed to get URL');
                       const { url } = await response.json();
                       window.open(url, '_blank');
@@ -1029,7 +1148,7 @@ function AttachmentsModal({
                 <button
                   onClick={async () => {
                     try {
-                      const response = await fetch(`/api/trip-evidence/signed-url?path=${encodeURIComponent(ev.storage_path)}`);
+                      const response = await fetch(`/api/trip-evidence/signed-url?bucket=${encodeURIComponent(ev.storage_bucket)}&path=${encodeURIComponent(ev.storage_path)}`);
                       if (!response.ok) throw new Error('Failed to get URL');
                       const { url } = await response.json();
                       const fileResponse = await fetch(url);
@@ -0,0 +1,209 @@
+'use client';
+
+import { forwardRef, type CSSProperties } from 'react';
+import { format } from 'date-fns';
+import { TRIP_STATUS_LABELS } from '@/lib/trips/workflow';
+import type { TripSettlement } from '@/lib/trips/settlement';
+import type { FinanceTrip } from '../db/trips';
+
+interface TripSettlementReportProps {
+  trip: FinanceTrip;
+  settlement: TripSettlement;
+  formatCurrency: (amount: number, currency: string) => string;
+}
+
+// Inline hex colours: html2canvas cannot parse Tailwind's oklch palette, and the
+// report is printed on white paper rather than in the dark UI theme
+const cell: CSSProperties = { padding: '4px 6px', borderBottom: '1px solid #d4d4d4', verticalAlign: 'top' };
+const headCell: CSSProperties = { ...cell, textAlign: 'left', fontWeight: 600, background: '#f5f5f5' };
+const amountCell: CSSProperties = { ...cell, textAlign: 'right', whiteSpace: 'nowrap' };
+
+const formatDate = (value: string | null | undefined, pattern = 'dd.MM.yyyy') => {
+  if (!value) return '—';
+  try {
+    return format(new Date(value), pattern);
+  } catch {
+    return value;
+  }
+};
+
+/**
+ * Printable trip settlement, rendered off-screen and captured into the PDF
+ */
+const TripSettlementReport = forwardRef<HTMLDivElement, TripSettlementReportProps>(function TripSettlementReport(
+  { trip, settlement, formatCurrency },
+  ref
+) {
+  return (
+    <div
+      ref={ref}
+      data-export-section
+      style={{ width: 794, padding: 40, background: '#ffffff', color: '#171717', fontFamily: 'Arial, sans-serif', fontSize: 12 }}
+    >
+      <h1 style={{ fontSize: 20, fontWeight: 700, margin: 0 }}>Rozliczenie kosztów podróży służbowej</h1>
+      <div style={{ fontSize: 16, marginTop: 4 }}>{trip.title}</div>
+
+      <table style={{ marginTop: 16, borderCollapse: 'collapse' }}>
+        <tbody>
+          <tr>
+            <td style={{ paddingRight: 16, color: '#525252' }}>Okres</td>
+            <td>{formatDate(trip.start_date)} – {formatDate(trip.end_date)}</td>
+          </tr>
+          {(trip.departure_at || trip.return_at) && (
+            <tr>
+              <td style={{ paddingRight: 16, color: '#525252' }}>Wyjazd / powrót</td>
+              <td>{formatDate(trip.departure_at, 'dd.MM.yyyy HH:mm')} – {formatDate(trip.return_at, 'dd.MM.yyyy HH:mm')}</td>
+            </tr>
+          )}
+          <tr>
+            <td style={{ paddingRight: 16, color: '#525252' }}>Kraj docelowy</td>
+            <td>{trip.destination_country || 'PL'}</td>
+          </tr>
+          <tr>
+            <td style={{ paddingRight: 16, color: '#525252' }}>Status</td>
+            <td>{TRIP_STATUS_LABELS[trip.status]}</td>
+          </tr>
+          <tr>
+            <td style={{ paddingRight: 16, color: '#525252' }}>Data sporządzenia</td>
+            <td>{formatDate(settlement.settlementDate)}</td>
+          </tr>
+        </tbody>
+      </table>
+
+      <h2 style={{ fontSize: 14, fontWeight: 700, marginTop: 24, marginBottom: 8 }}>Wydatki</h2>
+      {settlement.groups.length === 0 ? (
+        <div style={{ color: '#737373' }}>Brak wydatków</div>
+      ) : (
+        <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+          <thead>
+            <tr>
+              <th style={{ ...headCell, width: 32 }}>Lp.</th>
+              <th style={{ ...headCell, width: 76 }}>Data</th>
+              <th style={headCell}>Kontrahent / opis</th>
+              <th style={{ ...headCell, textAlign: 'right' }}>Kwota</th>
+              <th style={{ ...headCell, textAlign: 'right' }}>{settlement.baseCurrency}</th>
+              <th style={headCell}>Zwrot</th>
+              <th style={headCell}>Załączniki</th>
+            </tr>
+          </thead>
+          {settlement.groups.map(group => (
+            <tbody key={`${group.category}-${group.currency}`}>
+              <tr>
+                <td colSpan={7} style={{ ...cell, fontWeight: 600, background: '#fafafa' }}>
+                  {group.category} · {group.currency}
+                </td>
+              </tr>
+              {group.items.map(entry => (
+                <tr key={entry.item.id}>
+                  <td style={cell}>{entry.number}</td>
+                  <td style={cell}>{formatDate(entry.item.item_date)}</td>
+                  <td style={cell}>
+                    {entry.item.vendor || entry.item.description || '—'}
+                    {entry.item.vendor && entry.item.description && (
+                      <div style={{ color: '#737373' }}>{entry.item.description}</div>
+                    )}
+                  </td>
+                  <td style={amountCell}>{formatCurrency(Math.abs(entry.item.amount), group.currency)}</td>
+                  <td style={amountCell}>
+                    {entry.amountBase !== null ? formatCurrency(entry.amountBase, settlement.baseCurrency) : 'brak kursu'}
+                  </td>
+                  <td style={cell}>
+                    {entry.reimbursable ? 'tak' : entry.item.paid_by_company_card ? 'karta firmowa' : 'wyłączony'}
+                  </td>
+                  <td style={cell}>{entry.annexes.length > 0 ? entry.annexes.map(n => `Zał. ${n}`).join(', ') : '—'}</td>
+                </tr>
+              ))}
+              <tr>
+                <td colSpan={3} style={{ ...cell, textAlign: 'right', color: '#525252' }}>Razem {group.category}</td>
+                <td style={{ ...amountCell, fontWeight: 600 }}>{formatCurrency(group.total, group.currency)}</td>
+                <td colSpan={3} style={cell} />
+              </tr>
+            </tbody>
+          ))}
+        </table>
+      )}
+
+      {settlement.allowances.length > 0 && (
+        <>
+          <h2 style={{ fontSize: 14, fontWeight: 700, marginTop: 24, marginBottom: 8 }}>Dieta, ryczałty i kilometrówka</h2>
+          <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+            <tbody>
+              {settlement.allowances.map(line => (
+                <tr key={line.kind}>
+                  <td style={cell}>{line.label}</td>
+                  <td style={{ ...cell, color: '#525252' }}>{line.detail}</td>
+                  <td style={amountCell}>
+                    {formatCurrency(line.amount, line.currency)}
+                    {line.fxRate !== null && line.amountBase !== null && (
+                      <div style={{ color: '#525252', fontSize: 10 }}>
+                        {formatCurrency(line.amountBase, settlement.baseCurrency)} (kurs NBP {line.fxRate} z {formatDate(line.fxRateDate)})
+                      </div>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+
+      <h2 style={{ fontSize: 14, fontWeight: 700, marginTop: 24, marginBottom: 8 }}>Podsumowanie</h2>
+      <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+        <thead>
+          <tr>
+            <th style={headCell}>Waluta</th>
+            <th style={{ ...headCell, textAlign: 'right' }}>Razem</th>
+            <th style={{ ...headCell, textAlign: 'right' }}>Do zwrotu</th>
+          </tr>
+        </thead>
+        <tbody>
+          {settlement.currencyTotals.map(total => (
+            <tr key={total.currency}>
+              <td style={cell}>{total.currency}</td>
+              <td style={amountCell}>{formatCurrency(total.total, total.currency)}</td>
+              <td style={amountCell}>{formatCurrency(total.reimbursable, total.currency)}</td>
+            </tr>
+          ))}
+          <tr>
+            <td style={{ ...cell, fontWeight: 600 }}>Razem w {settlement.baseCurrency}</td>
+            <td style={{ ...amountCell, fontWeight: 600 }}>{formatCurrency(settlement.totalBase, settlement.baseCurrency)}</td>
+            <td style={{ ...amountCell, fontWeight: 700 }}>{formatCurrency(settlement.reimbursableBase, settlement.baseCurrency)}</td>
+          </tr>
+        </tbody>
+      </table>
+      {settlement.missingFx > 0 && (
+        <div style={{ marginTop: 6, color: '#a16207' }}>
+          Pozycje bez kursu waluty ({settlement.missingFx}) nie są ujęte w sumach w {settlement.baseCurrency}.
+        </div>
+      )}
+
+      <div style={{ marginTop: 20, padding: 12, border: '2px solid #171717', fontSize: 14, fontWeight: 700 }}>
+        Kwota do zwrotu: {formatCurrency(settlement.reimbursableBase, settlement.baseCurrency)}
+      </div>
+
+      {settlement.annexes.length > 0 && (
+        <>
+          <h2 style={{ fontSize: 14, fontWeight: 700, marginTop: 24, marginBottom: 8 }}>Załączniki</h2>
+          <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+            <tbody>
+              {settlement.annexes.map(annex => (
+                <tr key={annex.evidence.id}>
+                  <td style={{ ...cell, width: 60 }}>Zał. {annex.number}</td>
+                  <td style={{ ...cell, width: 80 }}>{annex.itemNumber ? `poz. ${annex.itemNumber}` : '—'}</td>
+                  <td style={cell}>{annex.evidence.file_name}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+
+      <div style={{ display: 'flex', justifyContent: 'space-between', marginTop: 56 }}>
+        <div style={{ borderTop: '1px solid #171717', width: 220, paddingTop: 4, textAlign: 'center' }}>Podpis delegowanego</div>
+        <div style={{ borderTop: '1px solid #171717', width: 220, paddingTop: 4, textAlign: 'center' }}>Zatwierdził</div>
+      </div>
+    </div>
+  );
+});
+
+export default TripSettlementReport;
@@ -0,0 +1,47 @@
+'use client';
+
+import { format } from 'date-fns';
+import { TRIP_STATUS_LABELS } from '@/lib/trips/workflow';
+import type { FinanceTripItem, FinanceTripStatusLogEntry } from '../db/trips';
+
+interface TripStatusLogProps {
+  entries: FinanceTripStatusLogEntry[];
+  items: FinanceTripItem[];
+}
+
+export default function TripStatusLog({ entries, items }: TripStatusLogProps) {
+  const itemNames = new Map(items.map(item => [item.id, item.vendor || item.description || '-']));
+
+  return (
+    <div className="bg-neutral-800/50 border border-neutral-700 rounded-lg p-4">
+      <h3 className="text-sm font-semibold text-white mb-3">Historia statusów</h3>
+      {entries.length === 0 ? (
+        <div className="text-xs text-neutral-500">Brak zmian statusu</div>
+      ) : (
+        <div className="space-y-2">
+          {entries.map(entry => (
+            <div key={entry.id} className="text-xs border-l-2 border-neutral-600 pl-3">
+              <div className="text-neutral-300">
+                <span className="text-neutral-500">{format(new Date(entry.created_at), 'dd.MM.yyyy HH:mm')}</span>
+                {' '}
+                {entry.from_status ? TRIP_STATUS_LABELS[entry.from_status] : '—'} → <span className="text-white font-medium">{TRIP_STATUS_LABELS[entry.to_status]}</span>
+                {entry.actor && <span className="text-neutral-500"> · {entry.actor}</span>}
+              </div>
+              {entry.comment && <div className="text-neutral-400 mt-0.5">{entry.comment}</div>}
+              {Object.entries(entry.item_comments || {}).map(([itemId, comment]) => (
+                <div key={itemId} className="text-yellow-400/80 mt-0.5">
+                  {itemNames.get(itemId) || 'Usunięta pozycja'}: {comment}
+                </div>
+              ))}
+              {entry.reimbursement_transaction_id && (
+                <div className="text-neutral-500 mt-0.5">
+                  Przelew zwrotu: <span className="font-mono">{entry.reimbursement_transaction_id.slice(0, 8)}</span>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
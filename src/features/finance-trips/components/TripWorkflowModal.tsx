@@ -0,0 +1,190 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { getTransactions, Transaction } from '@/lib/finance/queries/getTransactions';
+import { TRIP_ACTIONS, type TripAction } from '@/lib/trips/workflow';
+import * as tripStatusLogDb from '../db/trip-status-log';
+import type { FinanceTrip, FinanceTripItem } from '../db/trips';
+
+interface TripWorkflowModalProps {
+  trip: FinanceTrip;
+  items: FinanceTripItem[];
+  action: TripAction;
+  actor: string | null;
+  formatCurrency: (amount: number, currency: string) => string;
+  onClose: () => void;
+  onDone: (trip: FinanceTrip) => void;
+}
+
+/**
+ * Confirm a workflow transition: trip and per-item comments for approve/reject,
+ * the reimbursement transaction for reimburse
+ */
+export default function TripWorkflowModal({
+  trip,
+  items,
+  action,
+  actor,
+  formatCurrency,
+  onClose,
+  onDone,
+}: TripWorkflowModalProps) {
+  const [comment, setComment] = useState('');
+  const [itemComments, setItemComments] = useState<Record<string, string>>({});
+  const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [transactionId, setTransactionId] = useState<string | null>(null);
+  const [loadingTransactions, setLoadingTransactions] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isReview = action === 'approve' || action === 'reject';
+
+  useEffect(() => {
+    if (action === 'reimburse') loadTransactions();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [action, trip.id]);
+
+  // Outgoing transactions since the trip started, newest first
+  const loadTransactions = async () => {
+    setLoadingTransactions(true);
+    try {
+      const result = await getTransactions({
+        orgId: trip.org_id,
+        direction: 'out',
+        dateFrom: trip.start_date || trip.departure_at?.slice(0, 10) || null,
+        limit: 100,
+      });
+      setTransactions(result.transactions);
+    } finally {
+      setLoadingTransactions(false);
+    }
+  };
+
+  const handleConfirm = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      const result = await tripStatusLogDb.transitionTrip({
+        trip,
+        action,
+        itemsCount: items.length,
+        actor,
+        comment,
+        itemComments: isReview ? itemComments : undefined,
+        reimbursementTransactionId: transactionId,
+      });
+      if (!result.trip) {
+        setError(result.error || 'Nie udało się zmienić statusu');
+        return;
+      }
+      onDone(result.trip);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+      <div className="bg-neutral-900 border border-neutral-800 rounded-lg w-full max-w-2xl max-h-[90vh] overflow-hidden flex flex-col">
+        <div className="p-4 border-b border-neutral-800 flex items-center justify-between">
+          <h3 className="text-lg font-semibold text-white">{TRIP_ACTIONS[action].label}: {trip.title}</h3>
+          <button
+            onClick={onClose}
+            className="text-neutral-400 hover:text-white text-xl"
+          >
+            ×
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          {error && (
+            <div className="text-xs px-3 py-2 rounded bg-red-900/30 text-red-400">{error}</div>
+          )}
+
+          <div>
+            <label className="block text-xs text-neutral-400 mb-1">
+              Komentarz{action === 'reject' ? ' (wymagany, jeśli brak uwag do pozycji)' : ''}
+            </label>
+            <textarea
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              rows={3}
+              className="w-full bg-neutral-800 border border-neutral-700 rounded px-3 py-2 text-sm text-white"
+            />
+          </div>
+
+          {isReview && items.length > 0 && (
+            <div>
+              <h4 className="text-sm font-semibold text-white mb-2">Uwagi do pozycji</h4>
+              <div className="space-y-2">
+                {items.map(item => (
+                  <div key={item.id} className="grid grid-cols-2 gap-2 items-center">
+                    <div className="text-xs text-white truncate">
+                      {item.vendor || item.description || '-'}
+                      <span className="text-neutral-500 ml-2">{formatCurrency(item.amount, item.currency)}</span>
+                    </div>
+                    <input
+                      value={itemComments[item.id] || ''}
+                      onChange={(e) => setItemComments({ ...itemComments, [item.id]: e.target.value })}
+                      placeholder="Uwaga do pozycji"
+                      className="text-xs bg-neutral-800 border border-neutral-700 rounded px-2 py-1 text-white"
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {action === 'reimburse' && (
+            <div>
+              <h4 className="text-sm font-semibold text-white mb-2">Przelew zwrotu</h4>
+              {loadingTransactions ? (
+                <div className="text-xs text-neutral-400">Ładowanie transakcji...</div>
+              ) : transactions.length === 0 ? (
+                <div className="text-xs text-neutral-500">Brak wychodzących transakcji od rozpoczęcia podróży</div>
+              ) : (
+                <div className="space-y-1 max-h-64 overflow-y-auto">
+                  {transactions.map(tx => (
+                    <label
+                      key={tx.id}
+                      className={`flex items-center gap-3 text-xs rounded px-2 py-1 cursor-pointer ${
+                        transactionId === tx.id ? 'bg-blue-900/30' : 'hover:bg-neutral-800'
+                      }`}
+                    >
+                      <input
+                        type="radio"
+                        checked={transactionId === tx.id}
+                        onChange={() => setTransactionId(tx.id)}
+                      />
+                      <span className="text-neutral-500 w-20">{tx.booking_date}</span>
+                      <span className="flex-1 truncate text-white">{tx.counterparty_name || tx.description}</span>
+                      <span className="text-neutral-300">{formatCurrency(Math.abs(tx.amount), tx.currency)}</span>
+                    </label>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-neutral-800 flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            className="px-3 py-1.5 text-xs bg-neutral-700 text-white rounded hover:bg-neutral-600"
+          >
+            Anuluj
+          </button>
+          <button
+            onClick={handleConfirm}
+            disabled={saving || (action === 'reimburse' && !transactionId)}
+            className={`px-3 py-1.5 text-xs text-white rounded disabled:opacity-50 ${
+              action === 'reject' ? 'bg-red-600 hover:bg-red-700' : 'bg-blue-600 hover:bg-blue-700'
+            }`}
+          >
+            {saving ? 'Zapisywanie...' : TRIP_ACTIONS[action].label}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
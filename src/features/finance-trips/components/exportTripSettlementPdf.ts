@@ -0,0 +1,170 @@
+import type { SettlementAnnex } from '@/lib/trips/settlement';
+import type { FinanceTrip } from '../db/trips';
+
+// A4 in PDF points
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 20;
+const CAPTION_HEIGHT = 28;
+
+/**
+ * Caption for an annex page. Drawn on a canvas so Polish characters survive: the standard
+ * PDF fonts available in pdf-lib only cover WinAnsi.
+ */
+async function renderCaption(text: string): Promise<Uint8Array> {
+  const canvas = document.createElement('canvas');
+  canvas.width = 1600;
+  canvas.height = 80;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not available');
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.fillStyle = '#171717';
+  ctx.font = 'bold 34px Arial, sans-serif';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(text, 8, canvas.height / 2, canvas.width - 16);
+
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+  if (!blob) throw new Error('Failed to render caption');
+  return new Uint8Array(await blob.arrayBuffer());
+}
+
+/** Images other than JPEG/PNG (WebP, GIF...) are redrawn to PNG by the browser */
+async function imageToPng(bytes: ArrayBuffer, mimeType: string): Promise<Uint8Array> {
+  const bitmap = await createImageBitmap(new Blob([bytes], { type: mimeType }));
+  const canvas = document.createElement('canvas');
+  canvas.width = bitmap.width;
+  canvas.height = bitmap.height;
+  canvas.getContext('2d')?.drawImage(bitmap, 0, 0);
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+  if (!blob) throw new Error(`Cannot convert ${mimeType} image`);
+  return new Uint8Array(await blob.arrayBuffer());
+}
+
+async function downloadEvidence(bucket: string, storagePath: string): Promise<ArrayBuffer> {
+  const urlResponse = await fetch(
+    `/api/trip-evidence/signed-url?bucket=${encodeURIComponent(bucket)}&path=${encodeURIComponent(storagePath)}`
+  );
+  if (!urlResponse.ok) throw new Error('Failed to get signed URL');
+  const { url } = await urlResponse.json();
+  const fileResponse = await fetch(url);
+  if (!fileResponse.ok) throw new Error('Failed to download file');
+  return fileResponse.arrayBuffer();
+}
+
+/** Fit a width x height box into the annex content area, preserving the aspect ratio */
+function fitToPage(width: number, height: number) {
+  const maxWidth = PAGE_WIDTH - 2 * MARGIN;
+  const maxHeight = PAGE_HEIGHT - 3 * MARGIN - CAPTION_HEIGHT;
+  const scale = Math.min(maxWidth / width, maxHeight / height, 1);
+  return {
+    x: (PAGE_WIDTH - width * scale) / 2,
+    y: MARGIN + (maxHeight - height * scale),
+    width: width * scale,
+    height: height * scale,
+  };
+}
+
+/**
+ * Export the trip settlement as a PDF: the report rendered from `element`, followed by one
+ * annex page per receipt image or receipt PDF page, each captioned with its annex and item
+ * number. Returns the file names of annexes that could not be embedded.
+ */
+export async function exportTripSettlementPdf(
+  element: HTMLElement,
+  trip: FinanceTrip,
+  annexes: SettlementAnnex[]
+): Promise<{ failed: string[] }> {
+  // Dynamic imports for client-side only
+  const [{ default: jsPDF }, { default: html2canvas }, { PDFDocument }] = await Promise.all([
+    import('jspdf'),
+    import('html2canvas'),
+    import('pdf-lib'),
+  ]);
+
+  const canvas = await html2canvas(element, {
+    scale: 2,
+    useCORS: true,
+    logging: false,
+    backgroundColor: '#ffffff',
+    windowWidth: element.scrollWidth,
+    windowHeight: element.scrollHeight,
+  });
+
+  // Report pages, sliced from one tall image as in the contract analysis export
+  const pdfWidth = 210;
+  const pdfHeight = (canvas.height * pdfWidth) / canvas.width;
+  const pageHeight = 297;
+  const report = new jsPDF('p', 'mm', 'a4');
+  const image = canvas.toDataURL('image/png');
+  let heightLeft = pdfHeight;
+  report.addImage(image, 'PNG', 0, 0, pdfWidth, pdfHeight);
+  heightLeft -= pageHeight;
+  while (heightLeft > 0) {
+    report.addPage();
+    report.addImage(image, 'PNG', 0, heightLeft - pdfHeight, pdfWidth, pdfHeight);
+    heightLeft -= pageHeight;
+  }
+
+  const doc = await PDFDocument.load(report.output('arraybuffer'));
+  const failed: string[] = [];
+
+  for (const annex of annexes) {
+    const { evidence } = annex;
+    const label = `Załącznik ${annex.number}${annex.itemNumber ? ` do poz. ${annex.itemNumber}` : ''} — ${evidence.file_name}`;
+
+    const addAnnexPage = async (pageLabel: string) => {
+      const page = doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+      const caption = await doc.embedPng(await renderCaption(pageLabel));
+      const captionWidth = PAGE_WIDTH - 2 * MARGIN;
+      page.drawImage(caption, {
+        x: MARGIN,
+        y: PAGE_HEIGHT - MARGIN - CAPTION_HEIGHT,
+        width: captionWidth,
+        height: (caption.height * captionWidth) / caption.width,
+      });
+      return page;
+    };
+
+    try {
+      const bytes = await downloadEvidence(evidence.storage_bucket, evidence.storage_path);
+
+      if (evidence.mime_type === 'application/pdf') {
+        const source = await PDFDocument.load(bytes, { ignoreEncryption: true });
+        const pageCount = source.getPageCount();
+        for (let index = 0; index < pageCount; index++) {
+          const page = await addAnnexPage(pageCount > 1 ? `${label} (str. ${index + 1}/${pageCount})` : label);
+          // Blank pages have no content stream and cannot be embedded; the captioned page stays
+          if (!source.getPage(index).node.Contents()) continue;
+          const [embedded] = await doc.embedPdf(source, [index]);
+          page.drawPage(embedded, fitToPage(embedded.width, embedded.height));
+        }
+      } else {
+        const embedded = evidence.mime_type === 'image/jpeg' || evidence.mime_type === 'image/jpg'
+          ? await doc.embedJpg(bytes)
+          : await doc.embedPng(evidence.mime_type === 'image/png' ? bytes : await imageToPng(bytes, evidence.mime_type));
+        const page = await addAnnexPage(label);
+        page.drawImage(embedded, fitToPage(embedded.width, embedded.height));
+      }
+    } catch (error) {
+      console.error(`Error embedding annex ${evidence.file_name}:`, error);
+      failed.push(evidence.file_name);
+      // Keep the annex numbering intact even when the file cannot be embedded
+      await addAnnexPage(`${label} — nie udało się osadzić pliku`);
+    }
+  }
+
+  const pdfBytes = await doc.save();
+  const blob = new Blob([pdfBytes as BlobPart], { type: 'application/pdf' });
+  const url = window.URL.createObjectURL(blob);
+  const safeTitle = (trip.title || 'delegacja').replace(/[^a-z0-9]/gi, '-').toLowerCase();
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `rozliczenie-${safeTitle}-${new Date().toISOString().split('T')[0]}.pdf`;
+  document.body.appendChild(a);
+  a.click();
+  window.URL.revokeObjectURL(url);
+  document.body.removeChild(a);
+
+  return { failed };
+}
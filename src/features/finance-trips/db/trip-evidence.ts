@@ -74,3 +74,20 @@ export async function deleteTripEvidence(evidenceId: string): Promise<boolean> {
   return true;
 }
 
+
+/**
+ * Attach evidence uploaded at trip level to an item
+ */
+export async function assignTripEvidenceToItem(evidenceId: string, tripItemId: string): Promise<boolean> {
+  const { error } = await supabase
+    .from('finance_trip_evidence')
+    .update({ trip_item_id: tripItemId })
+    .eq('id', evidenceId);
+
+  if (error) {
+    console.error('Error assigning trip evidence:', error);
+    return false;
+  }
+
+  return true;
+}
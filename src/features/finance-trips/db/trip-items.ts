@@ -1,4 +1,6 @@
 import { supabase } from '@/lib/supabase';
+import { BASE_CURRENCY } from '@/lib/finance/baseAmount';
+import { loadFxConverter } from '@/server/finance/fx/rates';
 import type { FinanceTripItem } from './trips';
 
 export type { FinanceTripItem };
@@ -42,12 +44,43 @@ export async function createTripItem(item: Omit<FinanceTripItem, 'id' | 'created
 }
 
 /**
- * Update trip item
+ * Update trip item. A new amount, currency or date is converted to the base currency in the same
+ * update; without an NBP rate for the date the base amount stays empty until the FX backfill.
  */
 export async function updateTripItem(itemId: string, updates: Partial<FinanceTripItem>): Promise<FinanceTripItem | null> {
+  let row: Partial<FinanceTripItem> = updates;
+
+  if ('amount' in updates || 'currency' in updates || 'item_date' in updates) {
+    const { data: current, error: currentError } = await supabase
+      .from('finance_trip_items')
+      .select('amount, currency, item_date')
+      .eq('id', itemId)
+      .single();
+
+    if (currentError) {
+      console.error('Error loading trip item:', currentError);
+      return null;
+    }
+
+    const amount = Number(updates.amount ?? current.amount) || 0;
+    const currency = updates.currency ?? current.currency ?? BASE_CURRENCY;
+    const date = 'item_date' in updates ? updates.item_date : current.item_date;
+    const conversion = date
+      ? (await loadFxConverter(supabase, { currencies: [currency], dateFrom: date, dateTo: date })).convert(amount, currency, date)
+      : null;
+
+    row = {
+      ...updates,
+      amount_base: conversion?.amountBase ?? null,
+      base_currency: conversion?.baseCurrency ?? null,
+      fx_rate: conversion?.fxRate ?? null,
+      fx_rate_date: conversion?.fxRateDate ?? null,
+    };
+  }
+
   const { data, error } = await supabase
     .from('finance_trip_items')
-    .update(updates)
+    .update(row)
     .eq('id', itemId)
     .select()
     .single();
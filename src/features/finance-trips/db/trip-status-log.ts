@@ -0,0 +1,82 @@
+import { supabase } from '@/lib/supabase';
+import { TRIP_ACTIONS, validateTripTransition, type TripAction } from '@/lib/trips/workflow';
+import type { FinanceTrip, FinanceTripStatusLogEntry } from './trips';
+
+export type { FinanceTripStatusLogEntry };
+
+export interface TransitionTripParams {
+  trip: FinanceTrip;
+  action: TripAction;
+  itemsCount: number;
+  actor?: string | null;
+  comment?: string | null;
+  itemComments?: Record<string, string>;
+  reimbursementTransactionId?: string | null;
+}
+
+/**
+ * Get the status history of a trip, newest first
+ */
+export async function getTripStatusLog(tripId: string): Promise<FinanceTripStatusLogEntry[]> {
+  const { data, error } = await supabase
+    .from('finance_trip_status_log')
+    .select('*')
+    .eq('trip_id', tripId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching trip status log:', error);
+    return [];
+  }
+
+  return (data || []) as FinanceTripStatusLogEntry[];
+}
+
+/**
+ * Move a trip to the next status and record the transition. The update only applies while the
+ * trip still has the status it was loaded with, so two approvers cannot both act on it, and it
+ * is rolled back if the transition cannot be logged.
+ */
+export async function transitionTrip(params: TransitionTripParams): Promise<{ trip: FinanceTrip | null; error?: string }> {
+  const { trip, action } = params;
+  const itemComments = Object.fromEntries(
+    Object.entries(params.itemComments || {})
+      .map(([itemId, comment]) => [itemId, comment.trim()])
+      .filter(([, comment]) => comment)
+  );
+
+  const validationError = validateTripTransition({
+    action,
+    status: trip.status,
+    itemsCount: params.itemsCount,
+    comment: params.comment,
+    itemComments,
+    reimbursementTransactionId: params.reimbursementTransactionId,
+  });
+  if (validationError) {
+    return { trip: null, error: validationError };
+  }
+
+  // The status update and its log entry are one transaction (transition_finance_trip)
+  const { data, error } = await supabase
+    .rpc('transition_finance_trip', {
+      p_trip_id: trip.id,
+      p_from_status: trip.status,
+      p_to_status: TRIP_ACTIONS[action].to,
+      p_actor: params.actor || null,
+      p_comment: params.comment?.trim() || null,
+      p_item_comments: itemComments,
+      p_reimbursement_transaction_id: action === 'reimburse' ? params.reimbursementTransactionId : null,
+    })
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error updating trip status:', error);
+    return { trip: null, error: error.message };
+  }
+  if (!data) {
+    return { trip: null, error: 'The trip status has changed in the meantime; reload and try again' };
+  }
+
+  return { trip: data as FinanceTrip };
+}
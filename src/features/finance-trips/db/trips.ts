@@ -1,4 +1,8 @@
 import { supabase } from '@/lib/supabase';
+import type { VehicleType } from '@/lib/trips/allowances';
+import type { TripStatus } from '@/lib/trips/workflow';
+import type { ReceiptExtraction } from '@/lib/trips/receiptParser';
+import { loadFxConverter, type FxConverter } from '@/server/finance/fx/rates';
 
 export interface FinanceTrip {
   id: string;
@@ -6,7 +10,21 @@ export interface FinanceTrip {
   title: string;
   start_date: string | null;
   end_date: string | null;
-  status: 'draft' | 'submitted' | 'reimbursed';
+  status: TripStatus;
+  reimbursement_transaction_id?: string | null;
+  // Per diem and lump-sum inputs (see src/lib/trips/allowances.ts)
+  departure_at?: string | null;
+  return_at?: string | null;
+  destination_country?: string;
+  per_diem_rate?: number | null;
+  per_diem_currency?: string | null;
+  breakfasts_provided?: number;
+  lunches_provided?: number;
+  dinners_provided?: number;
+  nights_without_invoice?: number;
+  local_transport_lump_sum?: boolean;
+  mileage_km?: number | null;
+  vehicle_type?: VehicleType | null;
   created_at: string;
   updated_at: string;
 }
@@ -26,6 +44,12 @@ export interface FinanceTripItem {
   paid_by_company_card: boolean;
   exclude_from_reimbursement: boolean;
   card_source: 'MB' | 'PKO' | 'REVOLUT' | null;
+  amount_base?: number | null; // amount in PLN at fx_rate (set on edit, otherwise by the FX backfill)
+  base_currency?: string | null;
+  fx_rate?: number | null;
+  fx_rate_date?: string | null;
+  vat_amount?: number | null;
+  receipt_confidence?: number | null; // set when the item was confirmed from receipt OCR
   created_at: string;
 }
 
@@ -47,6 +71,26 @@ export interface FinanceTripEvidence {
   file_size: number | null;
   storage_bucket: string;
   storage_path: string;
+  // Receipt OCR (see src/server/finance/trips/receiptOcr.ts)
+  ocr_status?: 'processing' | 'done' | 'failed' | null;
+  ocr_text?: string | null;
+  ocr_fields?: ReceiptExtraction | null;
+  ocr_confidence?: number | null;
+  ocr_error?: string | null;
+  ocr_processed_at?: string | null;
+  created_at: string;
+}
+
+export interface FinanceTripStatusLogEntry {
+  id: string;
+  org_id: string;
+  trip_id: string;
+  from_status: TripStatus | null;
+  to_status: TripStatus;
+  actor: string | null;
+  comment: string | null;
+  item_comments: Record<string, string>;
+  reimbursement_transaction_id: string | null;
   created_at: string;
 }
 
@@ -151,3 +195,9 @@ export async function deleteTrip(tripId: string): Promise<boolean> {
   return true;
 }
 
+/**
+ * NBP rates for converting a trip's foreign allowances on its settlement date
+ */
+export async function getSettlementFxConverter(currencies: string[], settlementDate: string): Promise<FxConverter> {
+  return loadFxConverter(supabase, { currencies, dateFrom: settlementDate, dateTo: settlementDate });
+}
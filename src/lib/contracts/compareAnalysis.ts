@@ -0,0 +1,106 @@
+/**
+ * Compare the AI contract analyses of two document versions: overall risk, comments and
+ * current terms matched by keyword.
+ */
+
+import type {
+  ContractAnalysisResult,
+  ContractComment,
+  ContractTermEntry,
+  RiskLevel,
+} from '@/types/contractAnalysis';
+
+export type ChangeStatus = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export interface FieldChange {
+  field: string;
+  label: string;
+  before: string;
+  after: string;
+}
+
+export interface KeywordChange<T> {
+  keyword: string;
+  status: ChangeStatus;
+  before: T | null;
+  after: T | null;
+  changes: FieldChange[];
+}
+
+export interface AnalysisComparison {
+  riskBefore: RiskLevel | null;
+  riskAfter: RiskLevel | null;
+  comments: KeywordChange<ContractComment>[];
+  terms: KeywordChange<ContractTermEntry>[];
+}
+
+const SEVERITY_ORDER = { 'duża': 3, 'średnia': 2, 'mała': 1 };
+
+const COMMENT_FIELDS: { field: keyof ContractComment; label: string }[] = [
+  { field: 'severity_pl', label: 'Severity' },
+  { field: 'decision_flag', label: 'Decision' },
+  { field: 'problem_type', label: 'Problem type' },
+  { field: 'risk_description', label: 'Risk' },
+  { field: 'suggested_change_summary', label: 'Suggested change' },
+];
+
+const TERM_FIELDS: { field: keyof ContractTermEntry; label: string }[] = [
+  { field: 'what_is_agreed', label: 'What is agreed' },
+  { field: 'what_i_must_do', label: 'What I must do' },
+  { field: 'if_not_done', label: 'If not done' },
+  { field: 'where_in_contract', label: 'Where in contract' },
+];
+
+/** One comment per keyword: the most severe, as in the analysis tabs */
+function commentsByKeyword(comments: ContractComment[]): Map<string, ContractComment> {
+  const map = new Map<string, ContractComment>();
+  comments.forEach(comment => {
+    const existing = map.get(comment.keyword);
+    if (!existing || SEVERITY_ORDER[comment.severity_pl] > SEVERITY_ORDER[existing.severity_pl]) {
+      map.set(comment.keyword, comment);
+    }
+  });
+  return map;
+}
+
+function compareByKeyword<T>(
+  before: Map<string, T>,
+  after: Map<string, T>,
+  fields: { field: keyof T; label: string }[]
+): KeywordChange<T>[] {
+  const keywords = [...new Set([...before.keys(), ...after.keys()])];
+
+  const order: Record<ChangeStatus, number> = { changed: 0, added: 1, removed: 2, unchanged: 3 };
+  return keywords
+    .map(keyword => {
+      const old = before.get(keyword) || null;
+      const current = after.get(keyword) || null;
+      const changes =
+        old && current
+          ? fields
+              .filter(({ field }) => (old[field] ?? '') !== (current[field] ?? ''))
+              .map(({ field, label }) => ({
+                field: String(field),
+                label,
+                before: String(old[field] ?? ''),
+                after: String(current[field] ?? ''),
+              }))
+          : [];
+      const status: ChangeStatus = !old ? 'added' : !current ? 'removed' : changes.length > 0 ? 'changed' : 'unchanged';
+      return { keyword, status, before: old, after: current, changes };
+    })
+    .sort((a, b) => order[a.status] - order[b.status] || a.keyword.localeCompare(b.keyword));
+}
+
+export function compareAnalyses(before: ContractAnalysisResult, after: ContractAnalysisResult): AnalysisComparison {
+  return {
+    riskBefore: before.summary?.overall_risk_level || null,
+    riskAfter: after.summary?.overall_risk_level || null,
+    comments: compareByKeyword(commentsByKeyword(before.comments), commentsByKeyword(after.comments), COMMENT_FIELDS),
+    terms: compareByKeyword(
+      new Map(before.terms.current.map(term => [term.keyword, term])),
+      new Map(after.terms.current.map(term => [term.keyword, term])),
+      TERM_FIELDS
+    ),
+  };
+}
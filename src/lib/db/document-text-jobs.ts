@@ -0,0 +1,47 @@
+import { supabase } from '../supabase'
+import { versionParentColumn, type VersionedDocumentKind } from './document-versions'
+
+/** One page of documents.full_text_pages / organisation_documents.parsed_text_pages */
+export interface ExtractedTextPage {
+  page: number
+  text: string
+  confidence: number // 0..1
+  method: 'ocr' | 'pdf_text' | 'none' // 'none': scanned page the OCR engine could not read
+}
+
+export type TextJobStatus = 'pending' | 'running' | 'retry' | 'done' | 'failed'
+
+export interface DocumentTextJob {
+  id: string
+  document_id: string | null
+  organisation_document_id: string | null
+  status: TextJobStatus
+  attempts: number
+  next_run_at: string
+  last_error: string | null
+  page_count: number | null
+  ocr_page_count: number | null // pages without a text layer, read by OCR
+  confidence: number | null
+  created_at: string
+  updated_at: string
+}
+
+/**
+ * Most recent text extraction job of a document or contract
+ */
+export async function getLatestTextJob(kind: VersionedDocumentKind, parentId: string): Promise<DocumentTextJob | null> {
+  const { data, error } = await supabase
+    .from('document_text_jobs')
+    .select('*')
+    .eq(versionParentColumn(kind), parentId)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error fetching text extraction job:', error)
+    return null
+  }
+
+  return data
+}
@@ -0,0 +1,43 @@
+import { supabase } from '../supabase'
+import type { ContractAnalysisResult } from '@/types/contractAnalysis'
+
+/** documents rows ("document") or organisation contracts ("contract") */
+export type VersionedDocumentKind = 'document' | 'contract'
+
+export interface DocumentVersion {
+  id: string
+  document_id: string | null
+  organisation_document_id: string | null
+  version_number: number
+  file_name: string | null
+  file_url: string | null
+  storage_path: string | null
+  mime_type: string | null
+  file_size: number | null
+  text_content: string | null // full_text / parsed_text of this version
+  ai_analysis_result: ContractAnalysisResult | null
+  note: string | null
+  uploaded_by: string | null
+  uploaded_at: string
+}
+
+export const versionParentColumn = (kind: VersionedDocumentKind) =>
+  kind === 'document' ? 'document_id' : 'organisation_document_id'
+
+/**
+ * All versions of a document, newest first
+ */
+export async function getDocumentVersions(kind: VersionedDocumentKind, parentId: string): Promise<DocumentVersion[]> {
+  const { data, error } = await supabase
+    .from('document_versions')
+    .select('*')
+    .eq(versionParentColumn(kind), parentId)
+    .order('version_number', { ascending: false })
+
+  if (error) {
+    console.error('Error fetching document versions:', error)
+    return []
+  }
+
+  return data || []
+}
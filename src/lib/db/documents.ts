@@ -1,7 +1,11 @@
 import { supabase } from '../supabase'
+import type { VatRate } from '@/lib/finance/vat/register'
+import type { ExtractedTextPage } from './document-text-jobs'
+import type { InvoiceExtraction } from '@/lib/finance/invoices/types'
 
 export type InvoiceType = 'cost' | 'revenue';
 export type TaxType = 'CIT' | 'VAT';
+export type PaymentStatus = 'unpaid' | 'partially_paid' | 'paid' | 'overpaid';
 
 export interface Document {
   id: string
@@ -18,6 +22,8 @@ export interface Document {
   project_id?: string // Link to project
   task_id?: string // Link to task (format: "contactId-taskId")
   full_text?: string // Pełna treść dokumentu "słowo w słowo"
+  full_text_pages?: ExtractedTextPage[] | null // full_text page by page, with OCR confidence
+  full_text_confidence?: number | null // 1 for a PDF text layer, lower when pages were read by OCR
   summary?: string // Podsumowanie i najważniejsze informacje
   invoice_type?: InvoiceType | null
   tax_type?: TaxType | null
@@ -25,14 +31,27 @@ export interface Document {
   currency?: string | null
   amount_base?: number | null
   base_currency?: string | null
+  fx_rate?: number | null // NBP mid rate used for amount_base (1 for PLN)
+  fx_rate_date?: string | null
   invoice_date?: string | null // ISO date
+  invoice_number?: string | null
+  amount_net?: number | null // VAT register fields, in the invoice currency
+  vat_rate?: VatRate | null
+  vat_amount?: number | null
+  counterparty_nip?: string | null
+  counterparty_name?: string | null
+  payment_status?: PaymentStatus | null // set by invoice reconciliation
+  amount_paid?: number | null // in the invoice currency
   invoice_year?: number | null
   invoice_month?: number | null
+  invoice_extraction?: InvoiceExtraction | null // fields parsed from KSeF XML or the text, pre-filling classification
+  invoice_extracted_at?: string | null
   source_gmail_message_id?: string | null
   source_gmail_attachment_id?: string | null
   contact_email?: string | null
   contact_name?: string | null
   organisation_name_guess?: string | null
+  current_version?: number // version_number in document_versions
   created_at?: string
   updated_at?: string
 }
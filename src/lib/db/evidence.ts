@@ -5,6 +5,7 @@ export interface Evidence {
   org_id: string
   project_id: string
   file_name: string
+  storage_bucket?: string // 'evidence' unless the file was reused from another upload
   storage_path: string
   mime_type?: string
   file_size?: number
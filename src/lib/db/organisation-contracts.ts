@@ -1,4 +1,5 @@
 import { supabase } from '../supabase'
+import type { ExtractedTextPage } from './document-text-jobs'
 
 export interface OrganisationDocument {
   id: string
@@ -8,8 +9,11 @@ export interface OrganisationDocument {
   storage_path: string
   uploaded_at: string
   parsed_text?: string
+  parsed_text_pages?: ExtractedTextPage[] | null
+  parsed_text_confidence?: number | null // 1 for a PDF text layer, lower when pages were read by OCR
   analysis_guide?: string
   ai_analysis_result?: any // JSONB field for storing AI analysis results
+  current_version?: number // version_number in document_versions
 }
 
 export interface OrganisationContractComment {
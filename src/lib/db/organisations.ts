@@ -12,6 +12,9 @@ export interface Organisation {
   notes?: string
   notes_updated_at?: string
   avatar?: string
+  nip?: string | null // taxpayer data for JPK files
+  tax_office_code?: string | null
+  tax_email?: string | null
   created_at?: string
   updated_at?: string
 }
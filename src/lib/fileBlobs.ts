@@ -0,0 +1,167 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+/**
+ * Content-addressed file storage: each file content is stored once and registered in file_blobs
+ * by its SHA-256 hash. Ingestion paths call storeBlob instead of uploading directly, so a file that
+ * is already stored is linked instead of uploaded again.
+ */
+
+export interface FileBlob {
+  id: string
+  sha256: string
+  storage_bucket: string
+  storage_path: string
+  file_url: string | null // public URL, only for files in a public bucket
+  mime_type: string | null
+  file_size: number | null
+  created_at: string
+}
+
+/** Bucket with public URLs (documents, timeline files, Gmail attachments) */
+export const PUBLIC_BUCKET = process.env.NEXT_PUBLIC_STORAGE_BUCKET || 'mb-cockpit'
+
+/** Buckets files can be served from with signed URLs */
+export const STORAGE_BUCKETS = [PUBLIC_BUCKET, 'evidence', 'trip-evidence']
+
+export const isPublicBucket = (bucket: string) => bucket === PUBLIC_BUCKET
+
+/**
+ * Bucket and path of a Supabase public URL
+ * (https://...supabase.co/storage/v1/object/public/bucket-name/path/to/file.pdf)
+ */
+export function parsePublicUrl(url: string | null | undefined): { bucket: string; path: string } | null {
+  const parts = url?.split('/storage/v1/object/public/')
+  if (!parts || parts.length !== 2) return null
+
+  const slash = parts[1].indexOf('/')
+  if (slash <= 0) return null
+
+  return {
+    bucket: decodeURIComponent(parts[1].slice(0, slash)),
+    path: decodeURIComponent(parts[1].slice(slash + 1).split('?')[0]),
+  }
+}
+
+export async function sha256Hex(data: ArrayBuffer | Uint8Array): Promise<string> {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data)
+  const digest = await crypto.subtle.digest('SHA-256', bytes as Uint8Array<ArrayBuffer>)
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('')
+}
+
+export async function findBlob(client: SupabaseClient, sha256: string): Promise<FileBlob | null> {
+  const { data, error } = await client
+    .from('file_blobs')
+    .select('*')
+    .eq('sha256', sha256)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error looking up file blob:', error)
+    return null
+  }
+
+  return data
+}
+
+export interface StoreBlobParams {
+  data: ArrayBuffer | Uint8Array
+  /** Where to upload the file when its content is not stored yet */
+  bucket: string
+  path: string
+  contentType?: string | null
+  /** The caller links the file by public URL, so a copy in a private bucket cannot be reused */
+  requirePublicUrl?: boolean
+}
+
+export interface StoredBlob {
+  sha256: string
+  bucket: string
+  path: string
+  url: string | null
+  blob: FileBlob | null
+  /** The content was already stored and nothing was uploaded */
+  reused: boolean
+}
+
+/**
+ * Upload a file unless the same content is already stored, and return where it lives.
+ * The registry is best effort: when it cannot be read or written the file is uploaded as before.
+ */
+export async function storeBlob(client: SupabaseClient, params: StoreBlobParams): Promise<StoredBlob> {
+  const sha256 = await sha256Hex(params.data)
+  const existing = await findBlob(client, sha256)
+
+  if (existing && (!params.requirePublicUrl || isPublicBucket(existing.storage_bucket))) {
+    return {
+      sha256,
+      bucket: existing.storage_bucket,
+      path: existing.storage_path,
+      url: existing.file_url,
+      blob: existing,
+      reused: true,
+    }
+  }
+
+  const { error: uploadError } = await client.storage
+    .from(params.bucket)
+    .upload(params.path, params.data, {
+      contentType: params.contentType || 'application/octet-stream',
+      cacheControl: '3600',
+      upsert: false,
+    })
+
+  // A file already at this path is fine - it is the one being registered
+  if (uploadError && !uploadError.message?.includes('already exists') && !uploadError.message?.includes('duplicate')) {
+    throw new Error(uploadError.message || 'Failed to upload file')
+  }
+
+  const url = isPublicBucket(params.bucket)
+    ? client.storage.from(params.bucket).getPublicUrl(params.path).data.publicUrl
+    : null
+  const location = {
+    storage_bucket: params.bucket,
+    storage_path: params.path,
+    file_url: url,
+    mime_type: params.contentType || null,
+    file_size: params.data.byteLength,
+  }
+
+  let blob: FileBlob | null = null
+  if (existing) {
+    // Only a private copy existed: the public one becomes the blob, the merge tool re-points the rest
+    const { data, error } = await client
+      .from('file_blobs')
+      .update(location)
+      .eq('id', existing.id)
+      .select()
+      .single()
+    if (error) console.error('Error moving file blob:', error)
+    blob = data || existing
+  } else {
+    blob = await registerBlob(client, { sha256, ...location })
+  }
+
+  return { sha256, bucket: params.bucket, path: params.path, url, blob, reused: false }
+}
+
+/**
+ * Register already stored content, or return the blob registered for it by another upload
+ */
+export async function registerBlob(
+  client: SupabaseClient,
+  blob: Omit<FileBlob, 'id' | 'created_at'>
+): Promise<FileBlob | null> {
+  const { data, error } = await client
+    .from('file_blobs')
+    .insert(blob)
+    .select()
+    .single()
+
+  if (error) {
+    // Registered concurrently by another upload
+    if (error.code !== '23505') console.error('Error registering file blob:', error)
+    return findBlob(client, blob.sha256)
+  }
+
+  return data
+}
@@ -0,0 +1,173 @@
+/**
+ * Receivables / payables ageing. Buckets count days past the due date; invoices without
+ * a due date are assumed to be due DEFAULT_PAYMENT_TERM_DAYS after the invoice date.
+ */
+
+export const AGEING_BUCKETS = ['current', '1_30', '31_60', '61_90', '90_plus'] as const;
+export type AgeingBucket = (typeof AGEING_BUCKETS)[number];
+
+export const AGEING_BUCKET_LABELS: Record<AgeingBucket, string> = {
+  current: 'Bieżące',
+  '1_30': '1–30',
+  '31_60': '31–60',
+  '61_90': '61–90',
+  '90_plus': '90+',
+};
+
+export const DEFAULT_PAYMENT_TERM_DAYS = 14;
+
+export interface AgeingInvoice {
+  id: string;
+  name: string;
+  invoice_type: 'cost' | 'revenue';
+  invoice_number: string | null;
+  invoice_date: string;
+  due_date: string | null;
+  party: string;
+  /** Open amount in the base currency */
+  open_base: number;
+}
+
+export interface AgeingOpenItem extends AgeingInvoice {
+  due: string;
+  days_overdue: number;
+  bucket: AgeingBucket;
+}
+
+export interface AgeingPartyRow {
+  party: string;
+  buckets: Record<AgeingBucket, number>;
+  total: number;
+  items: AgeingOpenItem[];
+}
+
+export interface AgeingReport {
+  asOf: string;
+  receivables: AgeingPartyRow[];
+  payables: AgeingPartyRow[];
+  receivablesTotals: Record<AgeingBucket, number>;
+  payablesTotals: Record<AgeingBucket, number>;
+  /** Open foreign-currency invoices left out because they have no base amount yet */
+  unconvertedCount: number;
+}
+
+function addDays(date: string, days: number): string {
+  const d = new Date(`${date.slice(0, 10)}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to.slice(0, 10)}T00:00:00Z`) - Date.parse(`${from.slice(0, 10)}T00:00:00Z`)) / 86400000);
+}
+
+/**
+ * Due date of an invoice, falling back to the default payment term
+ */
+export function dueDateOf(invoice: Pick<AgeingInvoice, 'invoice_date' | 'due_date'>): string {
+  return invoice.due_date || addDays(invoice.invoice_date, DEFAULT_PAYMENT_TERM_DAYS);
+}
+
+export function ageingBucketOf(daysOverdue: number): AgeingBucket {
+  if (daysOverdue <= 0) return 'current';
+  if (daysOverdue <= 30) return '1_30';
+  if (daysOverdue <= 60) return '31_60';
+  if (daysOverdue <= 90) return '61_90';
+  return '90_plus';
+}
+
+const emptyBuckets = (): Record<AgeingBucket, number> => ({
+  current: 0,
+  '1_30': 0,
+  '31_60': 0,
+  '61_90': 0,
+  '90_plus': 0,
+});
+
+function groupByParty(items: AgeingOpenItem[]): AgeingPartyRow[] {
+  const byParty = new Map<string, AgeingPartyRow>();
+  for (const item of items) {
+    const row = byParty.get(item.party) ?? { party: item.party, buckets: emptyBuckets(), total: 0, items: [] };
+    row.buckets[item.bucket] += item.open_base;
+    row.total += item.open_base;
+    row.items.push(item);
+    byParty.set(item.party, row);
+  }
+
+  return Array.from(byParty.values())
+    .map(row => ({ ...row, items: row.items.sort((a, b) => b.days_overdue - a.days_overdue) }))
+    .sort((a, b) => b.total - a.total);
+}
+
+function totalsOf(rows: AgeingPartyRow[]): Record<AgeingBucket, number> {
+  const totals = emptyBuckets();
+  rows.forEach(row => AGEING_BUCKETS.forEach(bucket => (totals[bucket] += row.buckets[bucket])));
+  return totals;
+}
+
+export function buildAgeingReport(
+  invoices: AgeingInvoice[],
+  asOf: string,
+  unconvertedCount = 0
+): AgeingReport {
+  const items: AgeingOpenItem[] = invoices
+    .filter(inv => inv.open_base > 0.005)
+    .map(inv => {
+      const due = dueDateOf(inv);
+      const days_overdue = Math.max(0, daysBetween(due, asOf));
+      return { ...inv, due, days_overdue, bucket: ageingBucketOf(days_overdue) };
+    });
+
+  const receivables = groupByParty(items.filter(item => item.invoice_type === 'revenue'));
+  const payables = groupByParty(items.filter(item => item.invoice_type === 'cost'));
+
+  return {
+    asOf,
+    receivables,
+    payables,
+    receivablesTotals: totalsOf(receivables),
+    payablesTotals: totalsOf(payables),
+    unconvertedCount,
+  };
+}
+
+const escapeCsvValue = (value: string) => {
+  if (value.includes(',') || value.includes('"') || value.includes('\n')) {
+    return `"${value.replace(/"/g, '""')}"`;
+  }
+  return value;
+};
+
+/**
+ * One line per open invoice, so the file can be filtered and pivoted in a spreadsheet
+ */
+export function ageingReportToCsv(report: AgeingReport): string {
+  const headers = [
+    'type',
+    'party',
+    'invoice_number',
+    'document',
+    'invoice_date',
+    'due_date',
+    'days_overdue',
+    'bucket',
+    'open_amount_base',
+  ];
+
+  const lines = [
+    ...report.receivables.flatMap(row => row.items.map(item => ['receivable', item] as const)),
+    ...report.payables.flatMap(row => row.items.map(item => ['payable', item] as const)),
+  ].map(([type, item]) => [
+    type,
+    item.party,
+    item.invoice_number || '',
+    item.name,
+    item.invoice_date,
+    item.due,
+    item.days_overdue.toString(),
+    item.bucket,
+    item.open_base.toFixed(2),
+  ]);
+
+  return [headers.join(','), ...lines.map(line => line.map(escapeCsvValue).join(','))].join('\n');
+}
@@ -0,0 +1,22 @@
+/**
+ * Reporting currency for KPIs, trends and categories
+ */
+export const BASE_CURRENCY = 'PLN';
+
+/**
+ * Amount in the base currency, or null when a foreign-currency row has not been converted yet
+ * (no FX rate imported for its date).
+ */
+export function baseAmountOf(row: {
+  amount: number | string | null;
+  currency?: string | null;
+  amount_base?: number | string | null;
+}): number | null {
+  if (row.amount_base !== null && row.amount_base !== undefined) {
+    return Number(row.amount_base) || 0;
+  }
+  if (!row.currency || row.currency.toUpperCase() === BASE_CURRENCY) {
+    return Number(row.amount) || 0;
+  }
+  return null;
+}
@@ -0,0 +1,205 @@
+/**
+ * Budget-vs-actual comparison with burn-rate projections.
+ * Pure functions, shared by the variance query and the budget editor.
+ */
+
+import { baseAmountOf } from '@/lib/finance/baseAmount';
+import { splitBaseAmount } from '@/lib/finance/splits';
+import type { TransactionSplit } from '@/lib/finance/splits';
+
+export type BudgetScope = 'category' | 'project';
+export type BudgetPeriodType = 'month' | 'year';
+
+export interface Budget {
+  id: string;
+  org_id: string;
+  scope: BudgetScope;
+  category: string | null;
+  project_id: string | null;
+  period_type: BudgetPeriodType;
+  /** First day of the month or year (YYYY-MM-DD) */
+  period_start: string;
+  /** Planned spend in the base currency */
+  amount: number;
+  note: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type BudgetInput = Pick<
+  Budget,
+  'scope' | 'category' | 'project_id' | 'period_type' | 'period_start' | 'amount' | 'note'
+>;
+
+export interface BudgetSpendTransaction {
+  id: string;
+  org_id: string;
+  amount: number;
+  amount_base: number | null;
+  currency: string | null;
+  direction: 'in' | 'out';
+  category: string | null;
+  project_id: string | null;
+  booking_date: string;
+  has_splits: boolean;
+}
+
+export type BudgetStatus = 'ok' | 'at_risk' | 'over';
+
+export interface BudgetVariance {
+  budget: Budget;
+  period_end: string;
+  actual: number;
+  /** Budget minus actual; negative when overspent */
+  variance: number;
+  used_pct: number;
+  elapsed_days: number;
+  total_days: number;
+  /** Average spend per elapsed day */
+  daily_burn: number;
+  /** Spend at period end if the current burn rate holds */
+  projected: number;
+  projected_variance: number;
+  status: BudgetStatus;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+function daysInclusive(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86400000) + 1;
+}
+
+/**
+ * First day of the month or year containing `date`
+ */
+export function budgetPeriodStart(periodType: BudgetPeriodType, date: string): string {
+  return periodType === 'year' ? `${date.slice(0, 4)}-01-01` : `${date.slice(0, 7)}-01`;
+}
+
+/**
+ * Last day of the budgeted month or year
+ */
+export function budgetPeriodEnd(budget: Pick<Budget, 'period_type' | 'period_start'>): string {
+  const year = Number(budget.period_start.slice(0, 4));
+  if (budget.period_type === 'year') return `${year}-12-31`;
+  const month = Number(budget.period_start.slice(5, 7));
+  const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  return `${budget.period_start.slice(0, 7)}-${String(lastDay).padStart(2, '0')}`;
+}
+
+/**
+ * Validate a budget before saving: a target matching the scope, a valid period and a positive amount
+ */
+export function validateBudget(input: Partial<BudgetInput>): string | null {
+  if (input.scope === 'category') {
+    if (!input.category?.trim()) return 'Category is required';
+  } else if (input.scope === 'project') {
+    if (!input.project_id) return 'Project is required';
+  } else {
+    return 'Budget scope must be category or project';
+  }
+
+  if (input.period_type !== 'month' && input.period_type !== 'year') {
+    return 'Budget period must be month or year';
+  }
+  if (!input.period_start || !/^\d{4}-\d{2}-\d{2}$/.test(input.period_start)) {
+    return 'Period start must be a date (YYYY-MM-DD)';
+  }
+  if (budgetPeriodStart(input.period_type, input.period_start) !== input.period_start) {
+    return input.period_type === 'year'
+      ? 'Annual budgets start on January 1st'
+      : 'Monthly budgets start on the first day of the month';
+  }
+
+  const amount = Number(input.amount);
+  if (!Number.isFinite(amount) || amount <= 0) return 'Amount must be greater than zero';
+
+  return null;
+}
+
+/**
+ * Human-readable budget target, e.g. "software" or the project title
+ */
+export function budgetTargetLabel(
+  budget: Pick<Budget, 'scope' | 'category' | 'project_id'>,
+  projectTitles: Record<string, string>
+): string {
+  if (budget.scope === 'category') return budget.category || 'uncategorised';
+  return projectTitles[budget.project_id || ''] || 'Projekt';
+}
+
+/**
+ * Spend of one budget: outgoing transactions of the budget's organisation booked in its period.
+ * Split transactions count per line, so only the lines allocated to the target are included.
+ */
+function budgetActual(
+  budget: Budget,
+  periodEnd: string,
+  transactions: BudgetSpendTransaction[],
+  splitsByTransaction: Map<string, TransactionSplit[]>
+): number {
+  const matches = (row: { category: string | null; project_id: string | null }) =>
+    budget.scope === 'category'
+      ? (row.category || 'uncategorised') === budget.category
+      : row.project_id === budget.project_id;
+
+  let actual = 0;
+  for (const tx of transactions) {
+    if (tx.direction !== 'out' || tx.org_id !== budget.org_id) continue;
+    if (tx.booking_date < budget.period_start || tx.booking_date > periodEnd) continue;
+
+    const lines = splitsByTransaction.get(tx.id);
+    if (lines && lines.length > 0) {
+      lines.filter(matches).forEach(line => {
+        actual += Math.abs(splitBaseAmount(tx, line) ?? 0);
+      });
+    } else if (matches(tx)) {
+      actual += Math.abs(baseAmountOf(tx) ?? 0);
+    }
+  }
+  return actual;
+}
+
+/**
+ * Compare budgets with actual spend as of a date. Running periods are projected to period end
+ * at the average daily burn so far; a budget is "at risk" as soon as the projection exceeds it.
+ * Transactions without an FX rate are left out, as in the KPIs.
+ */
+export function computeBudgetVariance(
+  budgets: Budget[],
+  transactions: BudgetSpendTransaction[],
+  splitsByTransaction: Map<string, TransactionSplit[]>,
+  asOf: string = new Date().toISOString().slice(0, 10)
+): BudgetVariance[] {
+  const severity: Record<BudgetStatus, number> = { over: 0, at_risk: 1, ok: 2 };
+
+  return budgets
+    .map(budget => {
+      const amount = Number(budget.amount);
+      const periodEnd = budgetPeriodEnd(budget);
+      const totalDays = daysInclusive(budget.period_start, periodEnd);
+      const elapsedDays =
+        asOf < budget.period_start ? 0 : asOf > periodEnd ? totalDays : daysInclusive(budget.period_start, asOf);
+
+      const actual = budgetActual(budget, periodEnd, transactions, splitsByTransaction);
+      const dailyBurn = elapsedDays > 0 ? actual / elapsedDays : 0;
+      const projected = elapsedDays >= totalDays ? actual : actual + dailyBurn * (totalDays - elapsedDays);
+
+      const status: BudgetStatus = actual > amount ? 'over' : projected > amount ? 'at_risk' : 'ok';
+
+      return {
+        budget,
+        period_end: periodEnd,
+        actual: round2(actual),
+        variance: round2(amount - actual),
+        used_pct: amount > 0 ? Math.round((actual / amount) * 100) : 0,
+        elapsed_days: elapsedDays,
+        total_days: totalDays,
+        daily_burn: round2(dailyBurn),
+        projected: round2(projected),
+        projected_variance: round2(amount - projected),
+        status,
+      };
+    })
+    .sort((a, b) => severity[a.status] - severity[b.status] || b.used_pct - a.used_pct);
+}
@@ -0,0 +1,165 @@
+/**
+ * Pure rule matching for transaction auto-categorisation.
+ * Shared by the server-side engine and the rule editor preview.
+ */
+
+export interface CategoryRule {
+  id: string;
+  org_id: string;
+  name: string;
+  priority: number;
+  is_enabled: boolean;
+  counterparty_pattern: string | null;
+  description_regex: string | null;
+  amount_min: number | null;
+  amount_max: number | null;
+  direction: 'in' | 'out' | null;
+  category: string;
+  subcategory: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type CategoryRuleInput = Omit<CategoryRule, 'id' | 'org_id' | 'created_at' | 'updated_at'>;
+
+export interface CategorisableTransaction {
+  description: string | null;
+  counterparty_name: string | null;
+  counterparty_account: string | null;
+  amount: number;
+  direction: 'in' | 'out';
+}
+
+export interface CompiledCategoryRule {
+  rule: CategoryRule;
+  matches: (tx: CategorisableTransaction) => boolean;
+}
+
+/**
+ * Editable fields of a stored rule
+ */
+export function toCategoryRuleInput(rule: CategoryRule): CategoryRuleInput {
+  return {
+    name: rule.name,
+    priority: rule.priority,
+    is_enabled: rule.is_enabled,
+    counterparty_pattern: rule.counterparty_pattern,
+    description_regex: rule.description_regex,
+    amount_min: rule.amount_min,
+    amount_max: rule.amount_max,
+    direction: rule.direction,
+    category: rule.category,
+    subcategory: rule.subcategory,
+  };
+}
+
+/**
+ * Validate a rule before saving: at least one condition, a category and a valid regex
+ */
+export function validateCategoryRule(input: Partial<CategoryRuleInput>): string | null {
+  if (!input.name?.trim()) return 'Rule name is required';
+  if (!input.category?.trim()) return 'Category is required';
+
+  const hasCondition =
+    !!input.counterparty_pattern?.trim() ||
+    !!input.description_regex?.trim() ||
+    input.amount_min != null ||
+    input.amount_max != null ||
+    !!input.direction;
+  if (!hasCondition) return 'Rule needs at least one condition';
+
+  if (input.description_regex?.trim()) {
+    try {
+      new RegExp(input.description_regex, 'i');
+    } catch {
+      return `Invalid regular expression: ${input.description_regex}`;
+    }
+  }
+
+  if (input.amount_min != null && input.amount_max != null && input.amount_min > input.amount_max) {
+    return 'Minimum amount is greater than maximum amount';
+  }
+
+  return null;
+}
+
+/**
+ * Compile enabled rules in evaluation order: priority ascending, then oldest first.
+ * Rules with an invalid regex are skipped rather than failing the whole run.
+ */
+export function compileCategoryRules(rules: CategoryRule[]): CompiledCategoryRule[] {
+  return rules
+    .filter(rule => rule.is_enabled)
+    .sort((a, b) => a.priority - b.priority || a.created_at.localeCompare(b.created_at))
+    .flatMap(rule => {
+      let regex: RegExp | null = null;
+      if (rule.description_regex?.trim()) {
+        try {
+          regex = new RegExp(rule.description_regex, 'i');
+        } catch {
+          console.warn('[categoryRules] Skipping rule with invalid regex', { id: rule.id, regex: rule.description_regex });
+          return [];
+        }
+      }
+
+      const counterparty = rule.counterparty_pattern?.trim().toLowerCase() || null;
+      const min = rule.amount_min != null ? Number(rule.amount_min) : null;
+      const max = rule.amount_max != null ? Number(rule.amount_max) : null;
+
+      const matches = (tx: CategorisableTransaction) => {
+        if (rule.direction && tx.direction !== rule.direction) return false;
+
+        const amount = Math.abs(Number(tx.amount) || 0);
+        if (min != null && amount < min) return false;
+        if (max != null && amount > max) return false;
+
+        if (counterparty) {
+          const haystack = `${tx.counterparty_name || ''} ${tx.counterparty_account || ''}`.toLowerCase();
+          if (!haystack.includes(counterparty)) return false;
+        }
+
+        if (regex && !regex.test(tx.description || '')) return false;
+
+        return true;
+      };
+
+      return [{ rule, matches }];
+    });
+}
+
+/**
+ * First matching rule, or null
+ */
+export function findMatchingRule(
+  compiled: CompiledCategoryRule[],
+  tx: CategorisableTransaction
+): CategoryRule | null {
+  return compiled.find(c => c.matches(tx))?.rule ?? null;
+}
+
+const escapeRegex = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Prefill for "create a rule from this correction": match on the counterparty when known,
+ * otherwise on the leading words of the description
+ */
+export function suggestCategoryRule(
+  tx: CategorisableTransaction,
+  category: string
+): Partial<CategoryRuleInput> {
+  const counterparty = tx.counterparty_name?.trim() || null;
+  const descriptionWords = (tx.description || '')
+    .split(/\s+/)
+    .filter(word => word.length > 2 && !/\d/.test(word))
+    .slice(0, 3);
+
+  return {
+    name: counterparty || descriptionWords.join(' ') || category,
+    counterparty_pattern: counterparty,
+    description_regex: !counterparty && descriptionWords.length > 0
+      ? descriptionWords.map(escapeRegex).join('.*')
+      : null,
+    direction: tx.direction,
+    category,
+  };
+}
@@ -0,0 +1,296 @@
+/**
+ * Month-end close: completeness checks and the contents of the package for the accountant.
+ * Pure functions; loading and the ZIP itself live in src/server/finance/close.
+ */
+
+import type { PaymentStatus } from '@/lib/db/documents';
+
+export const DOCUMENTS_BUCKET = 'mb-cockpit';
+export const TRIP_EVIDENCE_BUCKET = 'trip-evidence';
+
+export interface CloseTransaction {
+  id: string;
+  booking_date: string;
+  amount: number;
+  currency: string;
+  description: string;
+  counterparty_name: string | null;
+  source_document_id: string | null;
+}
+
+export interface CloseDocument {
+  id: string;
+  title: string | null;
+  file_name: string | null;
+  storage_path: string | null;
+  doc_type: string | null;
+  invoice_type: 'cost' | 'revenue' | null;
+  invoice_number: string | null;
+  invoice_date: string | null;
+  amount_original: number | null;
+  currency: string | null;
+  payment_status: PaymentStatus | null;
+}
+
+export interface CloseTripItem {
+  id: string;
+  trip_id: string;
+  trip_title: string;
+  item_date: string | null;
+  vendor: string | null;
+  description: string | null;
+  amount: number;
+  currency: string;
+  transaction_id: string | null;
+}
+
+export interface CloseEvidence {
+  id: string;
+  trip_id: string;
+  trip_item_id: string | null;
+  file_name: string;
+  storage_bucket: string | null;
+  storage_path: string;
+}
+
+/** Active document_links row between a document and a finance transaction */
+export interface CloseLink {
+  document_id: string;
+  transaction_id: string;
+  role: string;
+}
+
+export interface MonthCloseData {
+  period: string;
+  transactions: CloseTransaction[];
+  /** Invoices dated in the month */
+  invoices: CloseDocument[];
+  /** Bank statements and linked documents of the month's transactions */
+  documents: CloseDocument[];
+  links: CloseLink[];
+  /** Transactions with an accepted invoice match from reconciliation */
+  matchedTransactionIds: string[];
+  tripItems: CloseTripItem[];
+  evidence: CloseEvidence[];
+}
+
+export interface MonthCloseChecks {
+  unlinkedTransactions: CloseTransaction[];
+  unpaidInvoices: CloseDocument[];
+  tripItemsWithoutEvidence: CloseTripItem[];
+  complete: boolean;
+}
+
+/** Counts stored with a closed month */
+export interface MonthCloseSummary {
+  transactions: number;
+  invoices: number;
+  tripItems: number;
+  unlinkedTransactions: number;
+  unpaidInvoices: number;
+  tripItemsWithoutEvidence: number;
+}
+
+export interface ClosePackageFile {
+  /** Path inside the ZIP */
+  path: string;
+  source: 'statement' | 'invoice' | 'linked' | 'trip_evidence';
+  bucket: string;
+  storage_path: string;
+  /** Document or evidence id */
+  record_id: string;
+  title: string;
+  date: string | null;
+}
+
+/**
+ * First and last day of a YYYY-MM period
+ */
+export function closePeriodRange(period: string): { start: string; end: string } {
+  const [year, month] = period.split('-').map(Number);
+  const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  return {
+    start: `${period}-01`,
+    end: `${period}-${String(lastDay).padStart(2, '0')}`,
+  };
+}
+
+export function isValidClosePeriod(period: string | null | undefined): period is string {
+  return !!period && /^\d{4}-(0[1-9]|1[0-2])$/.test(period);
+}
+
+/**
+ * A transaction is documented when a document is linked to it, reconciliation matched it to an
+ * invoice, or it is a trip item with evidence. An invoice counts as paid once a transaction is
+ * linked to it or reconciliation marked it paid. Trip items need their own evidence or a document
+ * linked to the card transaction behind them.
+ */
+export function checkMonthClose(data: MonthCloseData): MonthCloseChecks {
+  const linkedTransactions = new Set(data.links.map(l => l.transaction_id));
+  const linkedDocuments = new Set(data.links.map(l => l.document_id));
+  const matched = new Set(data.matchedTransactionIds);
+  const itemsWithEvidence = new Set(
+    data.evidence.map(e => e.trip_item_id).filter((id): id is string => !!id)
+  );
+
+  const tripItemsWithoutEvidence = data.tripItems.filter(
+    item => !itemsWithEvidence.has(item.id) && !(item.transaction_id && linkedTransactions.has(item.transaction_id))
+  );
+  const documentedByTrip = new Set(
+    data.tripItems
+      .filter(item => item.transaction_id && itemsWithEvidence.has(item.id))
+      .map(item => item.transaction_id!)
+  );
+
+  const unlinkedTransactions = data.transactions.filter(
+    tx => !linkedTransactions.has(tx.id) && !matched.has(tx.id) && !documentedByTrip.has(tx.id)
+  );
+  const unpaidInvoices = data.invoices.filter(
+    inv => !linkedDocuments.has(inv.id) && inv.payment_status !== 'paid' && inv.payment_status !== 'overpaid'
+  );
+
+  return {
+    unlinkedTransactions,
+    unpaidInvoices,
+    tripItemsWithoutEvidence,
+    complete: unlinkedTransactions.length === 0 && unpaidInvoices.length === 0 && tripItemsWithoutEvidence.length === 0,
+  };
+}
+
+export function summariseMonthClose(data: MonthCloseData, checks: MonthCloseChecks): MonthCloseSummary {
+  return {
+    transactions: data.transactions.length,
+    invoices: data.invoices.length,
+    tripItems: data.tripItems.length,
+    unlinkedTransactions: checks.unlinkedTransactions.length,
+    unpaidInvoices: checks.unpaidInvoices.length,
+    tripItemsWithoutEvidence: checks.tripItemsWithoutEvidence.length,
+  };
+}
+
+const safePathSegment = (value: string) =>
+  value.replace(/[\\/:*?"<>|\x00-\x1f]+/g, '_').replace(/\s+/g, ' ').trim().slice(0, 80) || 'plik';
+
+/**
+ * Source files of the month, each once: bank statements, invoices, other documents linked to
+ * transactions and trip evidence. Documents without a storage path are skipped.
+ */
+export function planClosePackage(data: MonthCloseData): ClosePackageFile[] {
+  const files: ClosePackageFile[] = [];
+  const seen = new Set<string>();
+  const statementIds = new Set(
+    data.transactions.map(tx => tx.source_document_id).filter((id): id is string => !!id)
+  );
+
+  const addDocument = (doc: CloseDocument, source: ClosePackageFile['source'], folder: string) => {
+    if (seen.has(doc.id) || !doc.storage_path) return;
+    seen.add(doc.id);
+    const fileName = doc.file_name || doc.storage_path.split('/').pop() || doc.id;
+    files.push({
+      path: `${folder}/${doc.id.slice(0, 8)}-${safePathSegment(fileName)}`,
+      source,
+      bucket: DOCUMENTS_BUCKET,
+      storage_path: doc.storage_path,
+      record_id: doc.id,
+      title: doc.title || fileName,
+      date: doc.invoice_date,
+    });
+  };
+
+  data.documents.filter(doc => statementIds.has(doc.id)).forEach(doc => addDocument(doc, 'statement', 'wyciagi'));
+  data.invoices.forEach(doc => addDocument(doc, 'invoice', doc.invoice_type === 'revenue' ? 'faktury-sprzedaz' : 'faktury-koszty'));
+  data.documents.forEach(doc => addDocument(doc, 'linked', 'dokumenty'));
+
+  const tripTitles = new Map(data.tripItems.map(item => [item.trip_id, item.trip_title]));
+  for (const evidence of data.evidence) {
+    const trip = safePathSegment(tripTitles.get(evidence.trip_id) || evidence.trip_id);
+    files.push({
+      path: `delegacje/${trip}/${evidence.id.slice(0, 8)}-${safePathSegment(evidence.file_name)}`,
+      source: 'trip_evidence',
+      bucket: evidence.storage_bucket || TRIP_EVIDENCE_BUCKET,
+      storage_path: evidence.storage_path,
+      record_id: evidence.id,
+      title: evidence.file_name,
+      date: null,
+    });
+  }
+
+  return files;
+}
+
+const escapeCsvValue = (value: string) => {
+  if (value.includes(',') || value.includes('"') || value.includes('\n')) {
+    return `"${value.replace(/"/g, '""')}"`;
+  }
+  return value;
+};
+
+const toCsv = (headers: string[], lines: string[][]) =>
+  [headers.join(','), ...lines.map(line => line.map(escapeCsvValue).join(','))].join('\n');
+
+/**
+ * index.csv: every file of the package, with files that could not be downloaded marked missing
+ */
+export function closeIndexCsv(files: ClosePackageFile[], missing: Set<string>): string {
+  return toCsv(
+    ['path', 'source', 'title', 'date', 'bucket', 'storage_path', 'record_id', 'status'],
+    files.map(file => [
+      file.path,
+      file.source,
+      file.title,
+      file.date || '',
+      file.bucket,
+      file.storage_path,
+      file.record_id,
+      missing.has(file.path) ? 'missing' : 'included',
+    ])
+  );
+}
+
+/**
+ * transaction-documents.csv: one line per transaction↔document link; transactions without a
+ * document get a single line with empty document columns
+ */
+export function closeLinksCsv(data: MonthCloseData, files: ClosePackageFile[]): string {
+  const pathByRecord = new Map(files.map(file => [file.record_id, file.path]));
+  const linksByTransaction = new Map<string, CloseLink[]>();
+  for (const link of data.links) {
+    const list = linksByTransaction.get(link.transaction_id) || [];
+    list.push(link);
+    linksByTransaction.set(link.transaction_id, list);
+  }
+
+  const lines = data.transactions.flatMap(tx => {
+    const base = [tx.id, tx.booking_date, Number(tx.amount).toFixed(2), tx.currency, tx.counterparty_name || '', tx.description];
+    const links = linksByTransaction.get(tx.id);
+    if (!links?.length) return [[...base, '', '', '']];
+    return links.map(link => [...base, link.document_id, link.role, pathByRecord.get(link.document_id) || '']);
+  });
+
+  return toCsv(
+    ['transaction_id', 'booking_date', 'amount', 'currency', 'counterparty', 'description', 'document_id', 'role', 'path'],
+    lines
+  );
+}
+
+/**
+ * checks.csv: open items found by the completeness checks
+ */
+export function closeChecksCsv(checks: MonthCloseChecks): string {
+  return toCsv(
+    ['check', 'id', 'date', 'amount', 'currency', 'description'],
+    [
+      ...checks.unlinkedTransactions.map(tx => [
+        'unlinked_transaction', tx.id, tx.booking_date, Number(tx.amount).toFixed(2), tx.currency, tx.description,
+      ]),
+      ...checks.unpaidInvoices.map(inv => [
+        'invoice_without_payment', inv.id, inv.invoice_date || '', Number(inv.amount_original ?? 0).toFixed(2),
+        inv.currency || '', [inv.invoice_number, inv.title].filter(Boolean).join(' '),
+      ]),
+      ...checks.tripItemsWithoutEvidence.map(item => [
+        'trip_item_without_evidence', item.id, item.item_date || '', Number(item.amount).toFixed(2), item.currency,
+        [item.trip_title, item.vendor || item.description].filter(Boolean).join(': '),
+      ]),
+    ]
+  );
+}
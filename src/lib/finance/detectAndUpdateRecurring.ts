@@ -1,5 +1,5 @@
 import { supabase } from '@/lib/supabase';
-import { detectRecurringPattern, TransactionForDetection } from './detectRecurring';
+import { detectSubscriptions } from './subscriptions/detectSubscriptions';
 
 export interface DetectRecurringResult {
   processed: number;
@@ -7,118 +7,56 @@ export interface DetectRecurringResult {
   errors: number;
 }
 
+const PAGE_SIZE = 1000;
+
+async function loadOrgIds(): Promise<string[]> {
+  const orgIds = new Set<string>();
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('finance_transactions')
+      .select('org_id')
+      .eq('direction', 'out')
+      .order('org_id')
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) throw new Error(error.message);
+    (data || []).forEach((row: { org_id: string | null }) => row.org_id && orgIds.add(row.org_id));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+  return Array.from(orgIds);
+}
+
 /**
- * Detect and update recurring transactions for an organization
+ * Detect and update recurring transactions for an organization (or every organization with
+ * transactions). Runs the subscription detection pipeline, which also sets the flags.
  */
 export async function detectAndUpdateRecurring(orgId?: string | null): Promise<DetectRecurringResult> {
-  console.log('[detectAndUpdateRecurring] Starting for orgId:', orgId);
+  console.info('[detectAndUpdateRecurring] Starting for orgId:', orgId);
 
-  // Fetch all transactions for the org (or all if orgId is null)
-  let query = supabase
-    .from('finance_transactions')
-    .select('id, booking_date, amount, description, is_recurring, recurrence_pattern, recurrence_group_id')
-    .eq('direction', 'out') // Only outgoing payments
-    .order('booking_date', { ascending: true });
-
-  if (orgId !== null && orgId !== undefined) {
-    query = query.eq('org_id', orgId);
-  }
-
-  const { data: allTransactions, error } = await query;
-
-  if (error) {
-    console.error('[detectAndUpdateRecurring] Error fetching transactions:', error);
+  let orgIds: string[];
+  try {
+    orgIds = orgId ? [orgId] : await loadOrgIds();
+  } catch (error) {
+    console.error('[detectAndUpdateRecurring] Error loading organisations:', error);
     return { processed: 0, updated: 0, errors: 1 };
   }
 
-  if (!allTransactions || allTransactions.length === 0) {
-    console.log('[detectAndUpdateRecurring] No transactions found');
-    return { processed: 0, updated: 0, errors: 0 };
-  }
-
-  console.log(`[detectAndUpdateRecurring] Processing ${allTransactions.length} transactions`);
-
   let processed = 0;
   let updated = 0;
   let errors = 0;
 
-  // Process transactions in chronological order
-  for (let i = 0; i < allTransactions.length; i++) {
-    const currentTx = allTransactions[i];
-    
-    // Get all previous transactions for comparison
-    const previousTransactions: TransactionForDetection[] = allTransactions
-      .slice(0, i)
-      .map(tx => ({
-        id: tx.id,
-        booking_date: tx.booking_date,
-        amount: tx.amount,
-        description: tx.description,
-      }));
-
-    // Detect recurring pattern
-    const pattern = detectRecurringPattern(
-      {
-        id: currentTx.id,
-        booking_date: currentTx.booking_date,
-        amount: currentTx.amount,
-        description: currentTx.description,
-      },
-      previousTransactions
-    );
-
-    // Only update if pattern is detected and confidence is reasonable
-    if (pattern.pattern !== 'one_time' && pattern.confidence > 0.5) {
-      // Check if update is needed
-      const needsUpdate = 
-        !currentTx.is_recurring ||
-        currentTx.recurrence_pattern !== pattern.pattern ||
-        currentTx.recurrence_group_id !== pattern.groupId;
-
-      if (needsUpdate) {
-        const { error: updateError } = await supabase
-          .from('finance_transactions')
-          .update({
-            is_recurring: true,
-            recurrence_pattern: pattern.pattern,
-            recurrence_group_id: pattern.groupId,
-          })
-          .eq('id', currentTx.id);
-
-        if (updateError) {
-          console.error(`[detectAndUpdateRecurring] Error updating transaction ${currentTx.id}:`, updateError);
-          errors++;
-        } else {
-          updated++;
-          console.log(`[detectAndUpdateRecurring] Updated transaction ${currentTx.id}: pattern=${pattern.pattern}, groupId=${pattern.groupId}`);
-        }
-      }
-    } else {
-      // If not recurring, clear the fields if they were set
-      if (currentTx.is_recurring) {
-        const { error: updateError } = await supabase
-          .from('finance_transactions')
-          .update({
-            is_recurring: false,
-            recurrence_pattern: null,
-            recurrence_group_id: null,
-          })
-          .eq('id', currentTx.id);
-
-        if (updateError) {
-          console.error(`[detectAndUpdateRecurring] Error clearing recurring fields for ${currentTx.id}:`, updateError);
-          errors++;
-        } else {
-          updated++;
-        }
-      }
+  for (const id of orgIds) {
+    try {
+      const result = await detectSubscriptions(id);
+      processed += result.processed;
+      updated += result.flagsUpdated;
+    } catch (error) {
+      console.error(`[detectAndUpdateRecurring] Detection failed for ${id}:`, error);
+      errors++;
     }
-
-    processed++;
   }
 
-  console.log(`[detectAndUpdateRecurring] Complete: processed=${processed}, updated=${updated}, errors=${errors}`);
+  console.info(`[detectAndUpdateRecurring] Complete: processed=${processed}, updated=${updated}, errors=${errors}`);
 
   return { processed, updated, errors };
 }
-
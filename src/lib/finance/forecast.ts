@@ -0,0 +1,228 @@
+/**
+ * Cash-flow forecast: the current balance rolled forward with expected subscription charges,
+ * receipts of open revenue invoices and payments of open cost invoices. All amounts are in
+ * the base currency. Pure functions so the panel can recompute scenarios without refetching.
+ */
+
+export type ForecastHorizon = 'weeks' | 'months';
+
+export const FORECAST_PERIODS: Record<ForecastHorizon, number> = {
+  weeks: 13,
+  months: 12,
+};
+
+export interface ForecastSubscription {
+  id: string;
+  display_name: string;
+  cadence: string;
+  next_expected_date: string | null;
+  last_charge_date: string | null;
+  /** Expected charge in the base currency, positive */
+  amount_base: number;
+}
+
+export interface ForecastInvoice {
+  id: string;
+  invoice_type: 'cost' | 'revenue';
+  /** Due date (or its estimate); overdue invoices are expected in the first period */
+  due: string;
+  /** Open amount in the base currency, positive */
+  open_base: number;
+}
+
+export interface ForecastScenario {
+  /** Subscriptions treated as cancelled */
+  cancelledSubscriptionIds: string[];
+  includeReceivables: boolean;
+  includePayables: boolean;
+  /** Customers paying this many days after the due date */
+  receiptDelayDays: number;
+}
+
+export const DEFAULT_FORECAST_SCENARIO: ForecastScenario = {
+  cancelledSubscriptionIds: [],
+  includeReceivables: true,
+  includePayables: true,
+  receiptDelayDays: 0,
+};
+
+export interface ForecastPeriod {
+  /** YYYY-MM for months (same keys as getMonthlyTrend), start date for weeks */
+  key: string;
+  start: string;
+  end: string;
+  receipts: number;
+  invoicePayments: number;
+  subscriptionCharges: number;
+  net: number;
+  closingBalance: number;
+}
+
+export interface CashFlowForecast {
+  horizon: ForecastHorizon;
+  asOf: string;
+  openingBalance: number;
+  periods: ForecastPeriod[];
+  closingBalance: number;
+  /** Lowest projected closing balance and the period it falls in */
+  lowestBalance: number;
+  lowestBalanceKey: string | null;
+}
+
+function addDays(date: string, days: number): string {
+  const d = new Date(`${date.slice(0, 10)}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+function addMonths(date: string, months: number): string {
+  const d = new Date(`${date.slice(0, 10)}T00:00:00Z`);
+  const day = d.getUTCDate();
+  d.setUTCDate(1);
+  d.setUTCMonth(d.getUTCMonth() + months);
+  // Clamp to the month end so a charge on the 31st stays at the end of shorter months
+  const lastDay = new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + 1, 0)).getUTCDate();
+  d.setUTCDate(Math.min(day, lastDay));
+  return d.toISOString().slice(0, 10);
+}
+
+/**
+ * The n-th charge date after `anchor` for a cadence; unknown cadences are treated as monthly.
+ * Always counted from the anchor so a charge on the 31st does not drift after a short month.
+ */
+export function nthChargeDate(anchor: string, cadence: string, n: number): string {
+  switch (cadence) {
+    case 'weekly':
+      return addDays(anchor, 7 * n);
+    case 'quarterly':
+      return addMonths(anchor, 3 * n);
+    case 'yearly':
+      return addMonths(anchor, 12 * n);
+    default:
+      return addMonths(anchor, n);
+  }
+}
+
+/**
+ * Period boundaries: 13 weeks from `asOf`, or the current month (from `asOf`) and the next 11
+ */
+export function forecastPeriods(asOf: string, horizon: ForecastHorizon): Array<Pick<ForecastPeriod, 'key' | 'start' | 'end'>> {
+  const periods: Array<Pick<ForecastPeriod, 'key' | 'start' | 'end'>> = [];
+
+  if (horizon === 'weeks') {
+    for (let i = 0; i < FORECAST_PERIODS.weeks; i++) {
+      const start = addDays(asOf, i * 7);
+      periods.push({ key: start, start, end: addDays(start, 6) });
+    }
+    return periods;
+  }
+
+  const monthStart = `${asOf.slice(0, 7)}-01`;
+  for (let i = 0; i < FORECAST_PERIODS.months; i++) {
+    const first = addMonths(monthStart, i);
+    periods.push({
+      key: first.slice(0, 7),
+      start: i === 0 ? asOf : first,
+      end: addDays(addMonths(first, 1), -1),
+    });
+  }
+  return periods;
+}
+
+/**
+ * Charge dates of a subscription between `from` and `to` (inclusive). Charges that were
+ * expected before `from` and did not show up are not projected again.
+ */
+export function projectSubscriptionCharges(sub: ForecastSubscription, from: string, to: string): string[] {
+  const anchor = sub.next_expected_date || (sub.last_charge_date ? nthChargeDate(sub.last_charge_date, sub.cadence, 1) : null);
+  if (!anchor) return [];
+
+  let n = 0;
+  while (nthChargeDate(anchor, sub.cadence, n) < from) n++;
+
+  const dates: string[] = [];
+  for (let date = nthChargeDate(anchor, sub.cadence, n); date <= to; date = nthChargeDate(anchor, sub.cadence, ++n)) {
+    dates.push(date);
+  }
+  return dates;
+}
+
+export function buildCashFlowForecast(params: {
+  asOf: string;
+  horizon: ForecastHorizon;
+  openingBalance: number;
+  subscriptions: ForecastSubscription[];
+  invoices: ForecastInvoice[];
+  scenario?: ForecastScenario;
+}): CashFlowForecast {
+  const scenario = params.scenario ?? DEFAULT_FORECAST_SCENARIO;
+  const periods: ForecastPeriod[] = forecastPeriods(params.asOf, params.horizon).map(p => ({
+    ...p,
+    receipts: 0,
+    invoicePayments: 0,
+    subscriptionCharges: 0,
+    net: 0,
+    closingBalance: 0,
+  }));
+  if (periods.length === 0) {
+    return {
+      horizon: params.horizon,
+      asOf: params.asOf,
+      openingBalance: params.openingBalance,
+      periods,
+      closingBalance: params.openingBalance,
+      lowestBalance: params.openingBalance,
+      lowestBalanceKey: null,
+    };
+  }
+
+  const horizonEnd = periods[periods.length - 1].end;
+  const periodOf = (date: string) => periods.find(p => date <= p.end) ?? null;
+
+  const cancelled = new Set(scenario.cancelledSubscriptionIds);
+  for (const sub of params.subscriptions) {
+    if (cancelled.has(sub.id)) continue;
+    for (const date of projectSubscriptionCharges(sub, params.asOf, horizonEnd)) {
+      const period = periodOf(date);
+      if (period) period.subscriptionCharges += sub.amount_base;
+    }
+  }
+
+  for (const invoice of params.invoices) {
+    const isRevenue = invoice.invoice_type === 'revenue';
+    if (isRevenue ? !scenario.includeReceivables : !scenario.includePayables) continue;
+
+    const expected = isRevenue ? addDays(invoice.due, scenario.receiptDelayDays) : invoice.due;
+    const period = periodOf(expected < params.asOf ? params.asOf : expected);
+    if (!period) continue;
+
+    if (isRevenue) {
+      period.receipts += invoice.open_base;
+    } else {
+      period.invoicePayments += invoice.open_base;
+    }
+  }
+
+  let balance = params.openingBalance;
+  let lowestBalance = params.openingBalance;
+  let lowestBalanceKey: string | null = null;
+  for (const period of periods) {
+    period.net = period.receipts - period.invoicePayments - period.subscriptionCharges;
+    balance += period.net;
+    period.closingBalance = balance;
+    if (balance < lowestBalance) {
+      lowestBalance = balance;
+      lowestBalanceKey = period.key;
+    }
+  }
+
+  return {
+    horizon: params.horizon,
+    asOf: params.asOf,
+    openingBalance: params.openingBalance,
+    periods,
+    closingBalance: balance,
+    lowestBalance,
+    lowestBalanceKey,
+  };
+}
@@ -0,0 +1,18 @@
+import type { InvoiceExtraction, InvoiceField } from './types';
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export function scaleField<T>(field: InvoiceField<T> | null, factor: number): InvoiceField<T> | null {
+  return field ? { value: field.value, confidence: round2(field.confidence * factor) } : null;
+}
+
+/**
+ * Average confidence of the fields the classification form cannot do without; a missing field
+ * counts as 0. Dates of sale and payment, the bank account and the rate are optional on the form.
+ */
+export function overallConfidence(
+  fields: Pick<InvoiceExtraction, 'seller' | 'invoiceNumber' | 'issueDate' | 'currency' | 'amountGross'>
+): number {
+  const core = [fields.seller.nip, fields.invoiceNumber, fields.issueDate, fields.currency, fields.amountGross];
+  return round2(core.reduce((sum, field) => sum + (field?.confidence || 0), 0) / core.length);
+}
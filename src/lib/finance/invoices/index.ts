@@ -0,0 +1,53 @@
+import type { InvoiceType } from '@/lib/db/documents';
+import { parseTaxId } from '@/lib/finance/vat/nip';
+import { looksLikeKsefInvoice, parseKsefInvoice } from './ksef';
+import { parseInvoiceText } from './text';
+import type { InvoiceExtraction, InvoiceField, InvoiceParty } from './types';
+
+export { looksLikeKsefInvoice, parseKsefInvoice } from './ksef';
+export { parseInvoiceText } from './text';
+export type { InvoiceExtraction, InvoiceField, InvoiceParty, InvoiceSource } from './types';
+
+/**
+ * Parse a KSeF XML invoice, or the text of a PDF / scanned invoice
+ */
+export function parseInvoice(text: string, textConfidence = 1): InvoiceExtraction {
+  return looksLikeKsefInvoice(text) ? parseKsefInvoice(text) : parseInvoiceText(text, textConfidence);
+}
+
+export interface InvoiceClassification {
+  invoiceType: InvoiceField<InvoiceType> | null;
+  /** The other party: the seller of a cost invoice, the buyer of a revenue invoice */
+  counterparty: InvoiceParty | null;
+}
+
+const sameTaxId = (a: string, b: string) => {
+  const left = parseTaxId(a);
+  const right = parseTaxId(b);
+  return left.country === right.country && left.number === right.number;
+};
+
+/**
+ * Cost or revenue from who issued the invoice: we are the seller on revenue invoices and the buyer
+ * on cost invoices. `ownNips` are the tax ids of our own organisations.
+ */
+export function classifyInvoice(extraction: InvoiceExtraction, ownNips: string[]): InvoiceClassification {
+  const isOwn = (party: InvoiceParty) => !!party.nip && ownNips.some(nip => sameTaxId(nip, party.nip!.value));
+  const sellerIsOwn = isOwn(extraction.seller);
+  const buyerIsOwn = isOwn(extraction.buyer);
+
+  // Both or neither: an invoice between our own companies, or one we are not a party to
+  if (sellerIsOwn === buyerIsOwn) {
+    return { invoiceType: null, counterparty: null };
+  }
+  if (sellerIsOwn) {
+    return {
+      invoiceType: { value: 'revenue', confidence: extraction.seller.nip!.confidence },
+      counterparty: extraction.buyer,
+    };
+  }
+  return {
+    invoiceType: { value: 'cost', confidence: extraction.buyer.nip!.confidence },
+    counterparty: extraction.seller,
+  };
+}
@@ -0,0 +1,142 @@
+import { XMLParser } from 'fast-xml-parser';
+import type { VatRate } from '@/lib/finance/vat/register';
+import { overallConfidence } from './confidence';
+import type { InvoiceExtraction, InvoiceField, InvoiceParty } from './types';
+
+/**
+ * Structured invoices from the Polish National e-Invoice System (KSeF), schema FA(2).
+ * FA(3) keeps the same elements for everything read here, so it is accepted as well.
+ */
+
+/**
+ * Quick check used by format detection
+ */
+export function looksLikeKsefInvoice(text: string): boolean {
+  return /<\s*(\w+:)?Faktura[\s>]/.test(text) && /<\s*(\w+:)?KodFormularza[^>]*>\s*FA\s*</.test(text);
+}
+
+const parser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '@_',
+  removeNSPrefix: true,
+  parseTagValue: false, // keep NIPs, account numbers and amounts as strings
+});
+
+type XmlNode = Record<string, unknown>;
+
+// Values in the XML are what the seller issued
+const EXACT = 1;
+
+// Net (P_13_x) and VAT (P_14_x) per rate; P_13_4 and P_13_5 (taxi lump sum, OSS) have no register rate
+const RATE_FIELDS: { net: string; vat?: string; rate: VatRate | null }[] = [
+  { net: 'P_13_1', vat: 'P_14_1', rate: '23' },
+  { net: 'P_13_2', vat: 'P_14_2', rate: '8' },
+  { net: 'P_13_3', vat: 'P_14_3', rate: '5' },
+  { net: 'P_13_4', vat: 'P_14_4', rate: null },
+  { net: 'P_13_5', vat: 'P_14_5', rate: null },
+  { net: 'P_13_6_1', rate: '0' },
+  { net: 'P_13_6_2', rate: '0' },
+  { net: 'P_13_6_3', rate: '0' },
+  { net: 'P_13_7', rate: 'zw' },
+  { net: 'P_13_8', rate: 'np' },
+  { net: 'P_13_9', rate: 'np' },
+  { net: 'P_13_10', rate: 'oo' },
+  { net: 'P_13_11', rate: null },
+];
+
+/** Element at a path below a node; of repeated elements the first is taken */
+function at(node: unknown, ...path: string[]): unknown {
+  let current = node;
+  for (const name of path) {
+    if (Array.isArray(current)) current = current[0];
+    current = current && typeof current === 'object' ? (current as XmlNode)[name] : undefined;
+  }
+  return Array.isArray(current) ? current[0] : current;
+}
+
+function text(node: unknown): string | null {
+  if (node == null) return null;
+  if (typeof node === 'object') {
+    const value = (node as XmlNode)['#text'];
+    return value == null ? null : String(value).trim() || null;
+  }
+  return String(node).trim() || null;
+}
+
+function amount(node: unknown): number | null {
+  const value = text(node);
+  if (!value) return null;
+  const parsed = Number.parseFloat(value);
+  return Number.isFinite(parsed) ? Math.round(parsed * 100) / 100 : null;
+}
+
+const exact = <T>(value: T | null): InvoiceField<T> | null => (value === null ? null : { value, confidence: EXACT });
+
+function party(node: unknown): InvoiceParty {
+  const ids = at(node, 'DaneIdentyfikacyjne');
+  // Domestic NIP, or an EU VAT number / other foreign tax id with its country code
+  const nip = text(at(ids, 'NIP'));
+  const euVat = text(at(ids, 'NrVatUE'));
+  const foreignId = text(at(ids, 'NrID'));
+  const taxId = nip
+    ?? (euVat ? `${text(at(ids, 'KodUE')) ?? ''}${euVat}` : null)
+    ?? (foreignId ? `${text(at(ids, 'KodKraju')) ?? ''}${foreignId}` : null);
+
+  return {
+    nip: exact(taxId ? taxId.replace(/[\s-]/g, '').toUpperCase() : null),
+    name: exact(text(at(ids, 'Nazwa'))),
+  };
+}
+
+/**
+ * Read an FA(2) invoice. Amounts are in the invoice currency (KodWaluty).
+ */
+export function parseKsefInvoice(xml: string): InvoiceExtraction {
+  let doc: unknown;
+  try {
+    doc = parser.parse(xml);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Invalid KSeF XML: ${message}`);
+  }
+
+  const invoice = at(doc, 'Faktura');
+  const fa = at(invoice, 'Fa');
+  if (!invoice || !fa) {
+    throw new Error('Not a KSeF invoice: Faktura/Fa element not found');
+  }
+
+  let net: number | null = null;
+  let vat: number | null = null;
+  const rates = new Set<VatRate | null>();
+  for (const field of RATE_FIELDS) {
+    const fieldNet = amount(at(fa, field.net));
+    const fieldVat = field.vat ? amount(at(fa, field.vat)) : null;
+    if (fieldNet === null && fieldVat === null) continue;
+    net = Math.round(((net ?? 0) + (fieldNet ?? 0)) * 100) / 100;
+    vat = Math.round(((vat ?? 0) + (fieldVat ?? 0)) * 100) / 100;
+    rates.add(field.rate);
+  }
+  const [singleRate] = rates;
+
+  const payment = at(fa, 'Platnosc');
+  const account = text(at(payment, 'RachunekBankowy', 'NrRB'));
+
+  const extraction: Omit<InvoiceExtraction, 'confidence'> = {
+    source: 'ksef_xml',
+    seller: party(at(invoice, 'Podmiot1')),
+    buyer: party(at(invoice, 'Podmiot2')),
+    invoiceNumber: exact(text(at(fa, 'P_2'))),
+    issueDate: exact(text(at(fa, 'P_1'))),
+    saleDate: exact(text(at(fa, 'P_6')) ?? text(at(fa, 'OkresFa', 'P_6_Do'))),
+    dueDate: exact(text(at(payment, 'TerminPlatnosci', 'Termin'))),
+    currency: exact(text(at(fa, 'KodWaluty'))?.toUpperCase() ?? null),
+    amountNet: exact(net),
+    vatAmount: exact(vat),
+    amountGross: exact(amount(at(fa, 'P_15'))),
+    vatRate: exact(rates.size === 1 ? singleRate ?? null : null),
+    bankAccount: exact(account ? account.replace(/\s/g, '').toUpperCase() : null),
+  };
+
+  return { ...extraction, confidence: overallConfidence(extraction) };
+}
@@ -0,0 +1,414 @@
+import type { VatRate } from '@/lib/finance/vat/register';
+import { isValidNip, parseTaxId } from '@/lib/finance/vat/nip';
+import { overallConfidence, scaleField } from './confidence';
+import type { InvoiceExtraction, InvoiceField, InvoiceParty } from './types';
+
+/**
+ * Invoice field extraction from the text of a PDF invoice (text layer or OCR). Polish and English
+ * layouts: fields are found by their labels, amounts are cross-checked (net + VAT = gross) and tax
+ * ids and account numbers by their checksums.
+ */
+
+type PartyRole = 'seller' | 'buyer' | 'other';
+
+const PARTY_LABELS: { role: PartyRole; pattern: RegExp }[] = [
+  { role: 'seller', pattern: /sprzedawca|sprzedający|wystawca|dostawca|\bseller\b|\bsupplier\b|\bvendor\b|issued\s*by/gi },
+  { role: 'buyer', pattern: /nabywca|kupujący|\bbuyer\b|\bcustomer\b|bill(?:ed)?\s*to|sold\s*to/gi },
+  // A recipient or payer other than the buyer: their tax id must not be taken for the buyer's
+  { role: 'other', pattern: /odbiorca|płatnik|\brecipient\b|ship\s*to/gi },
+];
+
+// Label followed by a Polish NIP (3-3-2-2 or 3-2-2-3 grouping, optional PL prefix) or a foreign VAT id
+const TAX_ID = /\b(?:NIP(?:\s*UE)?|VAT\s*(?:ID|No\.?|number|UE|reg(?:istration)?\.?\s*(?:No\.?|number))|Tax\s*ID)\s*[:.]?\s*((?:PL)?[\s-]*(?:\d{3}[\s-]?\d{3}[\s-]?\d{2}[\s-]?\d{2}|\d{3}[\s-]?\d{2}[\s-]?\d{2}[\s-]?\d{3})|[A-Z]{2}[A-Z]?\d{8,12})(?!\d)/gi;
+
+const NUMBER_LABELS: { pattern: RegExp; confidence: number }[] = [
+  { pattern: /(?:faktur[ay]|rachunek)(?:\s*vat)?(?:\s*(?:korygując[aej]|proforma|zaliczkow[aej]|końcow[aej]))?\s*(?:nr|numer|no\.?)\s*[:.]?/i, confidence: 0.9 },
+  { pattern: /(?:numer|nr)\s*(?:faktury|dokumentu)\s*[:.]?/i, confidence: 0.9 },
+  { pattern: /invoice\s*(?:no\.?|number|nr|#)\s*[:.]?/i, confidence: 0.9 },
+  { pattern: /(?:faktura(?:\s*vat)?|invoice)\s*[:.]?/i, confidence: 0.6 },
+];
+
+const ISSUE_DATE = /data\s*wystawienia|wystawiono\s*dnia|data\s*faktury|date\s*of\s*issue|issue\s*date|invoice\s*date/i;
+const SALE_DATE = /data\s*(?:sprzedaży|dostawy|wykonania\s*usługi|dokonania\s*dostawy|zakończenia\s*dostawy)|date\s*of\s*(?:sale|supply|delivery)|(?:sale|delivery)\s*date/i;
+const DUE_DATE = /termin\s*(?:płatności|zapłaty)|płatne\s*do|zapłata\s*do|due\s*date|payment\s*due|pay\s*by/i;
+
+const GROSS_LABEL = /do\s*zapłaty|(?:wartość|razem|kwota|suma)\s*brutto|total\s*(?:amount\s*)?due|amount\s*due|(?:total\s*gross|gross\s*total)|total\s*\(?incl/i;
+const NOT_GROSS = /pozostało|zapłacono|\bpaid\b|słownie/i;
+const NET_LABEL = /(?:wartość|razem|kwota|suma)\s*netto|total\s*net|net\s*(?:total|amount)|subtotal/i;
+const VAT_LABEL = /(?:kwota|wartość|razem|suma|podatek)\s*vat|vat\s*amount|total\s*vat|tax\s*amount/i;
+const TOTAL_ROW = /razem|ogółem|\bsuma\b|\btotal\b/i;
+
+const RATE_LINE = /vat|stawka|ptu|\btax\b/i;
+const REVERSE_CHARGE = /odwrotne\s*obciążenie|reverse\s*charge/i;
+
+const ACCOUNT_LABEL = /kont[oa]|rachun|account|iban|nr\s*rb/i;
+
+const CURRENCY_PATTERNS: { currency: string; pattern: RegExp }[] = [
+  { currency: 'PLN', pattern: /\bpln\b|zł/gi },
+  { currency: 'EUR', pattern: /\beur\b|€/gi },
+  { currency: 'USD', pattern: /\busd\b|\$/gi },
+  { currency: 'GBP', pattern: /\bgbp\b|£/gi },
+  { currency: 'SAR', pattern: /\bsar\b/gi },
+  { currency: 'AED', pattern: /\baed\b/gi },
+  { currency: 'CHF', pattern: /\bchf\b/gi },
+];
+
+// Polish (genitive) and English month names by their first three letters
+const MONTHS: Record<string, number> = {
+  sty: 1, lut: 2, mar: 3, kwi: 4, maj: 5, cze: 6, lip: 7, sie: 8, wrz: 9, paź: 10, paz: 10, lis: 11, gru: 12,
+  jan: 1, feb: 2, apr: 4, may: 5, jun: 6, jul: 7, aug: 8, sep: 9, oct: 10, nov: 11, dec: 12,
+};
+
+// Invoice amounts always have two decimals: 1 234,50 / 1.234,50 / 1,234.50 / 1234.50
+const AMOUNT = /-?\d{1,3}(?:[ .,]?\d{3})*[.,]\d{2}(?!\d)/g;
+
+// Rounding tolerance between net + VAT and gross
+const AMOUNT_TOLERANCE = 0.02;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+function parseAmount(raw: string): number {
+  const negative = raw.startsWith('-');
+  const cents = Number(raw.replace(/\D/g, ''));
+  return (negative ? -cents : cents) / 100;
+}
+
+/** Amounts on a line, ignoring percentages and dates */
+function lineAmounts(line: string): number[] {
+  const cleaned = line
+    .replace(/\d{1,4}[/.-]\d{1,2}[/.-]\d{2,4}/g, ' ')
+    .replace(/\d+(?:[.,]\d+)?\s*%/g, ' ');
+  return (cleaned.match(AMOUNT) || []).map(parseAmount);
+}
+
+function isoDate(year: number, month: number, day: number): string | null {
+  if (month < 1 || month > 12 || day < 1 || day > 31 || year < 2000 || year > 2100) return null;
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1) return null;
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/** First date in a string; numeric dates are day-first as written in Poland */
+function firstDate(text: string): string | null {
+  const patterns: { pattern: RegExp; toDate: (m: RegExpMatchArray) => string | null }[] = [
+    { pattern: /(\d{4})[/.-](\d{1,2})[/.-](\d{1,2})/, toDate: m => isoDate(+m[1], +m[2], +m[3]) },
+    { pattern: /(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})/, toDate: m => isoDate(+m[3], +m[2], +m[1]) },
+    {
+      pattern: /(\d{1,2})\s+([a-ząćęłńóśźż]{3,12})\s+(\d{4})/i,
+      toDate: m => {
+        const month = MONTHS[m[2].slice(0, 3).toLowerCase()];
+        return month ? isoDate(+m[3], month, +m[1]) : null;
+      },
+    },
+    {
+      pattern: /([a-z]{3,9})\s+(\d{1,2}),?\s+(\d{4})/i,
+      toDate: m => {
+        const month = MONTHS[m[1].slice(0, 3).toLowerCase()];
+        return month ? isoDate(+m[3], month, +m[2]) : null;
+      },
+    },
+  ];
+
+  let best: { index: number; value: string } | null = null;
+  for (const { pattern, toDate } of patterns) {
+    const match = text.match(pattern);
+    const value = match ? toDate(match) : null;
+    if (match && value && (!best || match.index! < best.index)) best = { index: match.index!, value };
+  }
+  return best?.value ?? null;
+}
+
+/**
+ * Value after a label: on the label line, or alone on the next line (labels above values)
+ */
+function findLabelled<T>(
+  lines: string[],
+  label: RegExp,
+  read: (text: string) => T | null,
+  confidence: number,
+  skip?: RegExp
+): InvoiceField<T> | null {
+  for (let i = 0; i < lines.length; i++) {
+    const match = lines[i].match(label);
+    if (!match || skip?.test(lines[i])) continue;
+    const sameLine = read(lines[i].slice(match.index! + match[0].length));
+    if (sameLine !== null) return { value: sameLine, confidence };
+    const nextLine = i + 1 < lines.length ? read(lines[i + 1]) : null;
+    if (nextLine !== null) return { value: nextLine, confidence: round2(confidence - 0.1) };
+  }
+  return null;
+}
+
+function normaliseTaxId(raw: string): string {
+  const { country, number } = parseTaxId(raw);
+  return country === 'PL' ? number : `${country}${number}`;
+}
+
+function taxIdConfidence(taxId: string, base: number): number {
+  const { country } = parseTaxId(taxId);
+  if (country !== 'PL') return round2(base * 0.85);
+  return isValidNip(taxId) ? base : round2(base * 0.4);
+}
+
+function partyName(text: string): string | null {
+  const value = text.replace(/^[\s:.-]+/, '').replace(/\s{2,}/g, ' ').trim();
+  const letters = (value.match(/[a-ząćęłńóśźż]/gi) || []).length;
+  if (letters < 3 || /\bNIP\b|\bul\.|\d{2}-\d{3}|adres|address|\bREGON\b|\bKRS\b/i.test(value)) return null;
+  return value;
+}
+
+function partyLabels(line: string): { role: PartyRole; index: number; end: number }[] {
+  return PARTY_LABELS
+    .flatMap(({ role, pattern }) => Array.from(line.matchAll(pattern), m => ({ role, index: m.index!, end: m.index! + m[0].length })))
+    .sort((a, b) => a.index - b.index);
+}
+
+/**
+ * Seller and buyer tax ids and names. A party label applies to the lines below it until the next
+ * label; a line with two labels starts two columns whose ids are taken in the same order.
+ */
+function findParties(lines: string[]): { seller: InvoiceParty; buyer: InvoiceParty } {
+  const parties: Record<'seller' | 'buyer', InvoiceParty> = {
+    seller: { nip: null, name: null },
+    buyer: { nip: null, name: null },
+  };
+  const unlabelled: string[] = [];
+  let current: PartyRole[] = [];
+
+  const assign = (role: PartyRole, taxId: string, confidence: number) => {
+    if (role === 'other' || parties[role].nip) return;
+    parties[role].nip = { value: normaliseTaxId(taxId), confidence: taxIdConfidence(taxId, confidence) };
+  };
+
+  lines.forEach((line, i) => {
+    const labels = partyLabels(line);
+    if (labels.length > 0) {
+      current = labels.map(label => label.role);
+      // The name follows a single label, on its line or the next one; columns cannot be told apart
+      if (labels.length === 1 && labels[0].role !== 'other' && !parties[labels[0].role].name) {
+        const role = labels[0].role;
+        const name = partyName(line.slice(labels[0].end)) ?? (i + 1 < lines.length ? partyName(lines[i + 1]) : null);
+        if (name) parties[role].name = { value: name, confidence: 0.65 };
+      }
+    }
+
+    const taxIds = Array.from(line.matchAll(TAX_ID), m => m[1]);
+    if (taxIds.length === 0) return;
+
+    if (current.length === 0) {
+      unlabelled.push(...taxIds);
+    } else if (current.length === 1) {
+      assign(current[0], taxIds[0], 0.95);
+    } else if (taxIds.length >= current.length) {
+      current.forEach((role, index) => assign(role, taxIds[index], 0.9));
+    } else {
+      // One id under two column labels: the first column still missing one
+      const role = current.find(r => r !== 'other' && !parties[r as 'seller' | 'buyer'].nip);
+      if (role) assign(role, taxIds[0], 0.6);
+    }
+  });
+
+  // Ids above the first label: the issuer's letterhead comes first
+  if (unlabelled[0]) assign('seller', unlabelled[0], parties.buyer.nip ? 0.7 : 0.5);
+  if (unlabelled[1]) assign('buyer', unlabelled[1], 0.45);
+
+  return parties;
+}
+
+function findInvoiceNumber(lines: string[]): InvoiceField<string> | null {
+  const readNumber = (text: string): string | null => {
+    const match = text.match(/^\s*[:.]?\s*([A-Z0-9][A-Z0-9/._-]*)/i);
+    const value = match?.[1].replace(/[._-]+$/, '');
+    // Must hold a digit and must not be a date
+    if (!value || !/\d/.test(value) || value.length > 40) return null;
+    return /^\d{1,4}[/.-]\d{1,2}[/.-]\d{2,4}$/.test(value) ? null : value;
+  };
+
+  for (const { pattern, confidence } of NUMBER_LABELS) {
+    const found = findLabelled(lines, pattern, readNumber, confidence, ISSUE_DATE);
+    if (found) return found;
+  }
+  return null;
+}
+
+function findDate(lines: string[], label: RegExp, confidence: number): InvoiceField<string> | null {
+  return findLabelled(lines, label, firstDate, confidence);
+}
+
+function labelledAmount(lines: string[], label: RegExp, confidence: number, skip?: RegExp): InvoiceField<number> | null {
+  return findLabelled(
+    lines,
+    label,
+    // A line with several amounts is a table row, whose columns are matched by findTotalsRow
+    text => {
+      const amounts = lineAmounts(text).filter(amount => amount !== 0);
+      return amounts.length === 1 ? amounts[0] : null;
+    },
+    confidence,
+    skip
+  );
+}
+
+/**
+ * Summary row of the VAT table ("Razem 1 000,00 230,00 1 230,00"): the last three amounts that add up
+ */
+function findTotalsRow(lines: string[]): { net: number; vat: number; gross: number } | null {
+  let found: { net: number; vat: number; gross: number } | null = null;
+  for (const line of lines) {
+    if (!TOTAL_ROW.test(line) || NOT_GROSS.test(line)) continue;
+    const amounts = lineAmounts(line);
+    for (let i = 0; i + 2 < amounts.length; i++) {
+      const [net, vat, gross] = amounts.slice(i, i + 3);
+      if (gross !== 0 && Math.abs(vat) <= Math.abs(net) && Math.abs(round2(net + vat) - gross) <= AMOUNT_TOLERANCE) {
+        found = { net, vat, gross };
+      }
+    }
+  }
+  return found;
+}
+
+function findAmounts(lines: string[]) {
+  let net = labelledAmount(lines, NET_LABEL, 0.8);
+  let vat = labelledAmount(lines, VAT_LABEL, 0.8);
+  let gross = labelledAmount(lines, GROSS_LABEL, 0.85, NOT_GROSS);
+
+  const totals = findTotalsRow(lines);
+  if (totals && (!gross || Math.abs(gross.value - totals.gross) <= AMOUNT_TOLERANCE)) {
+    net = { value: totals.net, confidence: 0.9 };
+    vat = { value: totals.vat, confidence: 0.9 };
+    gross = { value: totals.gross, confidence: 0.9 };
+  }
+
+  if (net && vat && gross && Math.abs(round2(net.value + vat.value) - gross.value) <= AMOUNT_TOLERANCE) {
+    // Three amounts that add up confirm each other
+    for (const field of [net, vat, gross]) field.confidence = Math.max(field.confidence, 0.95);
+  } else if (gross && net && !vat) {
+    vat = { value: round2(gross.value - net.value), confidence: round2(Math.min(gross.confidence, net.confidence) * 0.8) };
+  } else if (gross && vat && !net) {
+    net = { value: round2(gross.value - vat.value), confidence: round2(Math.min(gross.confidence, vat.confidence) * 0.8) };
+  } else if (net && vat && !gross) {
+    gross = { value: round2(net.value + vat.value), confidence: round2(Math.min(net.confidence, vat.confidence) * 0.8) };
+  }
+
+  if (!gross) {
+    // No labelled total: the largest amount on the invoice
+    const amounts = lines.flatMap(lineAmounts);
+    if (amounts.length > 0) gross = { value: Math.max(...amounts), confidence: 0.35 };
+  }
+
+  return { net, vat, gross };
+}
+
+function findVatRate(
+  lines: string[],
+  net: InvoiceField<number> | null,
+  vat: InvoiceField<number> | null
+): InvoiceField<VatRate> | null {
+  if (lines.some(line => REVERSE_CHARGE.test(line))) return { value: 'oo', confidence: 0.85 };
+
+  const rates = new Set<VatRate>();
+  for (const line of lines) {
+    if (!RATE_LINE.test(line) && lineAmounts(line).length === 0) continue;
+    for (const m of line.matchAll(/(?:^|[^\d,.])(23|8|5|0)\s*%/g)) rates.add(m[1] as VatRate);
+    // "np." also means "e.g." in Polish, so exempt / not taxable only count next to VAT wording
+    if (RATE_LINE.test(line)) {
+      if (/\bzw\b\.?/i.test(line)) rates.add('zw');
+      if (/\bnp\b\.?(?!\s*[a-ząćęłńóśźż]{2,})/i.test(line)) rates.add('np');
+    }
+  }
+
+  // The rate that net and VAT amounts were computed with
+  const ratio = net && vat && net.value !== 0 ? vat.value / net.value : null;
+  const computed = ratio === null ? null : (['23', '8', '5'] as VatRate[]).find(rate => Math.abs(ratio - Number(rate) / 100) < 0.005) ?? null;
+
+  if (rates.size === 1) {
+    const [rate] = rates;
+    return { value: rate, confidence: computed === rate ? 0.95 : 0.7 };
+  }
+  if (computed && (rates.size === 0 || rates.has(computed))) {
+    return { value: computed, confidence: rates.size === 0 ? 0.75 : 0.6 };
+  }
+  return null;
+}
+
+function findCurrency(text: string, lines: string[], gross: InvoiceField<number> | null): InvoiceField<string> | null {
+  const declared = findLabelled(lines, /waluta|currency/i, t => t.match(/\b([A-Z]{3})\b/)?.[1] ?? null, 0.9);
+  if (declared) return declared;
+
+  const onLine = (line: string) => CURRENCY_PATTERNS.find(({ pattern }) => new RegExp(pattern.source, 'i').test(line))?.currency;
+  const grossLine = gross ? lines.find(line => GROSS_LABEL.test(line) && lineAmounts(line).includes(gross.value)) : undefined;
+  const grossCurrency = grossLine ? onLine(grossLine) : undefined;
+  if (grossCurrency) return { value: grossCurrency, confidence: 0.9 };
+
+  const counts = CURRENCY_PATTERNS
+    .map(({ currency, pattern }) => ({ currency, count: (text.match(pattern) || []).length }))
+    .filter(c => c.count > 0)
+    .sort((a, b) => b.count - a.count);
+  if (counts.length > 0) return { value: counts[0].currency, confidence: counts.length === 1 ? 0.75 : 0.55 };
+
+  // A Polish invoice without any currency mark is in złoty
+  return /\bNIP\b|faktura/i.test(text) ? { value: 'PLN', confidence: 0.5 } : null;
+}
+
+/** IBAN checksum (ISO 13616); a bare 26-digit NRB is a Polish IBAN without the PL prefix */
+function isValidIban(iban: string): boolean {
+  const rearranged = iban.slice(4) + iban.slice(0, 4);
+  const digits = rearranged.replace(/[A-Z]/g, c => String(c.charCodeAt(0) - 55));
+  let remainder = 0;
+  for (const digit of digits) remainder = (remainder * 10 + Number(digit)) % 97;
+  return remainder === 1;
+}
+
+function findBankAccount(lines: string[]): InvoiceField<string> | null {
+  let best: InvoiceField<string> | null = null;
+  lines.forEach((line, i) => {
+    const labelled = ACCOUNT_LABEL.test(line) || ACCOUNT_LABEL.test(lines[i - 1] || '');
+    for (const m of line.matchAll(/\b([A-Z]{2})?\s?(\d{2}(?:\s?[A-Z0-9]{4}){2,7}(?:\s?[A-Z0-9]{1,4})?)\b/g)) {
+      const number = m[2].replace(/\s/g, '');
+      const country = m[1] || (number.length === 26 ? 'PL' : null);
+      if (!country || !/^\d{2}/.test(number)) continue;
+      const valid = isValidIban(country + number);
+      const confidence = valid ? (labelled ? 0.95 : 0.8) : labelled ? 0.4 : 0;
+      if (confidence > (best?.confidence ?? 0)) {
+        best = { value: m[1] ? country + number : number, confidence };
+      }
+    }
+  });
+  return best;
+}
+
+/**
+ * Extract invoice fields from PDF or OCR text. `textConfidence` (0..1) scales every field.
+ */
+export function parseInvoiceText(text: string, textConfidence = 1): InvoiceExtraction {
+  const normalised = text.replace(/\r/g, '').replace(/\u00a0/g, ' ');
+  const lines = normalised.split('\n').map(line => line.trim()).filter(Boolean);
+
+  const { seller, buyer } = findParties(lines);
+  const { net, vat, gross } = findAmounts(lines);
+
+  const scale = <T>(field: InvoiceField<T> | null) => scaleField(field, textConfidence);
+  const scaleParty = (party: InvoiceParty): InvoiceParty => ({ nip: scale(party.nip), name: scale(party.name) });
+
+  // Without a label the first date on the invoice is most often the issue date
+  const anyDate = firstDate(normalised);
+  const issueDate = findDate(lines, ISSUE_DATE, 0.9) ?? (anyDate ? { value: anyDate, confidence: 0.4 } : null);
+
+  const extraction: Omit<InvoiceExtraction, 'confidence'> = {
+    source: 'pdf_text',
+    seller: scaleParty(seller),
+    buyer: scaleParty(buyer),
+    invoiceNumber: scale(findInvoiceNumber(lines)),
+    issueDate: scale(issueDate),
+    saleDate: scale(findDate(lines, SALE_DATE, 0.9)),
+    dueDate: scale(findDate(lines, DUE_DATE, 0.85)),
+    currency: scale(findCurrency(normalised, lines, gross)),
+    amountNet: scale(net),
+    vatAmount: scale(vat),
+    amountGross: scale(gross),
+    vatRate: scale(findVatRate(lines, net, vat)),
+    bankAccount: scale(findBankAccount(lines)),
+  };
+
+  return { ...extraction, confidence: overallConfidence(extraction) };
+}
@@ -0,0 +1,40 @@
+import type { VatRate } from '@/lib/finance/vat/register';
+
+export type InvoiceSource = 'ksef_xml' | 'pdf_text';
+
+export interface InvoiceField<T> {
+  value: T;
+  /** 0..1 */
+  confidence: number;
+}
+
+export interface InvoiceParty {
+  /** Tax id without spaces or dashes; foreign ids keep their country prefix */
+  nip: InvoiceField<string> | null;
+  name: InvoiceField<string> | null;
+}
+
+/**
+ * Fields read from an invoice, each with its own confidence. A KSeF XML invoice is exact;
+ * fields found in PDF text are scored by how they were found and by the OCR quality.
+ */
+export interface InvoiceExtraction {
+  source: InvoiceSource;
+  seller: InvoiceParty;
+  buyer: InvoiceParty;
+  invoiceNumber: InvoiceField<string> | null;
+  /** ISO dates (yyyy-MM-dd) */
+  issueDate: InvoiceField<string> | null;
+  saleDate: InvoiceField<string> | null;
+  dueDate: InvoiceField<string> | null;
+  currency: InvoiceField<string> | null;
+  amountNet: InvoiceField<number> | null;
+  vatAmount: InvoiceField<number> | null;
+  amountGross: InvoiceField<number> | null;
+  /** Only set when the whole invoice is taxed at one rate */
+  vatRate: InvoiceField<VatRate> | null;
+  /** NRB or IBAN without spaces */
+  bankAccount: InvoiceField<string> | null;
+  /** Overall confidence, 0..1, of the fields the classification form needs */
+  confidence: number;
+}
@@ -0,0 +1,134 @@
+import { supabase } from '@/lib/supabase';
+import { baseAmountOf } from '@/lib/finance/baseAmount';
+import { buildAgeingReport } from '@/lib/finance/ageing';
+import type { AgeingInvoice, AgeingReport } from '@/lib/finance/ageing';
+import type { PaymentStatus } from '@/lib/db/documents';
+
+const PAGE_SIZE = 1000;
+const ID_CHUNK_SIZE = 200;
+
+interface InvoiceRow {
+  id: string;
+  name: string;
+  invoice_type: 'cost' | 'revenue';
+  invoice_number: string | null;
+  invoice_date: string;
+  amount_original: number;
+  amount_base: number | null;
+  currency: string | null;
+  payment_status: PaymentStatus | null;
+  amount_paid: number | null;
+  metadata: Record<string, unknown> | null;
+  counterparty_name: string | null;
+  contact_name: string | null;
+  organisation_name_guess: string | null;
+}
+
+export interface GetAgeingReportParams {
+  asOf?: string | null;
+  orgId?: string | null;
+}
+
+export interface OpenInvoices {
+  invoices: AgeingInvoice[];
+  /** Open foreign-currency invoices without a base amount */
+  unconvertedCount: number;
+}
+
+/**
+ * Invoices dated on or before `asOf` that are still open. An invoice is settled once a finance
+ * transaction is linked to it in document_links, or when reconciliation marked it paid;
+ * partially paid invoices count with their remaining amount.
+ */
+export async function getOpenInvoices(asOf: string, orgId?: string | null): Promise<OpenInvoices> {
+  const rows: InvoiceRow[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    let query = supabase
+      .from('documents')
+      .select('id, name, invoice_type, invoice_number, invoice_date, amount_original, amount_base, currency, payment_status, amount_paid, metadata, counterparty_name, contact_name, organisation_name_guess')
+      .not('invoice_type', 'is', null)
+      .not('amount_original', 'is', null)
+      .not('invoice_date', 'is', null)
+      .lte('invoice_date', asOf)
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1);
+
+    // organisation_id is the org that owns the invoice, not its counterparty
+    if (orgId !== null && orgId !== undefined) {
+      query = query.eq('organisation_id', orgId);
+    }
+
+    const { data, error } = await query;
+    if (error) {
+      console.error('Error fetching invoices for ageing:', error);
+      return { invoices: [], unconvertedCount: 0 };
+    }
+
+    rows.push(...((data || []) as InvoiceRow[]));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  const ids = rows.map(r => r.id);
+
+  const linked = new Set<string>();
+  for (let i = 0; i < ids.length; i += ID_CHUNK_SIZE) {
+    const { data: links, error: linksError } = await supabase
+      .from('document_links')
+      .select('document_id')
+      .eq('entity_type', 'FINANCE_TRANSACTION')
+      .eq('is_deleted', false)
+      .in('document_id', ids.slice(i, i + ID_CHUNK_SIZE));
+
+    if (linksError) {
+      console.error('Error fetching invoice links for ageing:', linksError);
+      continue;
+    }
+    (links || []).forEach((l: { document_id: string }) => linked.add(l.document_id));
+  }
+
+  let unconvertedCount = 0;
+  const invoices: AgeingInvoice[] = [];
+
+  for (const row of rows) {
+    if (linked.has(row.id) || row.payment_status === 'paid' || row.payment_status === 'overpaid') continue;
+
+    const total = Math.abs(Number(row.amount_original) || 0);
+    if (total === 0) continue;
+    const paid = row.payment_status === 'partially_paid' ? Math.abs(Number(row.amount_paid) || 0) : 0;
+    const openShare = Math.max(0, total - paid) / total;
+
+    const base = baseAmountOf({ amount: row.amount_original, currency: row.currency, amount_base: row.amount_base });
+    if (base === null) {
+      unconvertedCount += 1;
+      continue;
+    }
+
+    const dueDate = typeof row.metadata?.due_date === 'string' ? row.metadata.due_date : null;
+    invoices.push({
+      id: row.id,
+      name: row.name,
+      invoice_type: row.invoice_type,
+      invoice_number: row.invoice_number,
+      invoice_date: row.invoice_date,
+      due_date: dueDate,
+      party:
+        row.counterparty_name?.trim() ||
+        row.organisation_name_guess ||
+        row.contact_name ||
+        'Nieznany kontrahent',
+      open_base: Math.round(Math.abs(base) * openShare * 100) / 100,
+    });
+  }
+
+  return { invoices, unconvertedCount };
+}
+
+/**
+ * Open invoices by counterparty and age
+ */
+export async function getAgeingReport(params: GetAgeingReportParams = {}): Promise<AgeingReport> {
+  const asOf = params.asOf || new Date().toISOString().slice(0, 10);
+  const { invoices, unconvertedCount } = await getOpenInvoices(asOf, params.orgId);
+  return buildAgeingReport(invoices, asOf, unconvertedCount);
+}
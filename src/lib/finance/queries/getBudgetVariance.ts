@@ -0,0 +1,120 @@
+import { supabase } from '@/lib/supabase';
+import { baseAmountOf } from '@/lib/finance/baseAmount';
+import { budgetPeriodEnd, budgetPeriodStart, computeBudgetVariance } from '@/lib/finance/budgets';
+import { groupSplitsByTransaction } from '@/lib/finance/splits';
+import { getTransactionSplits } from './getTransactionSplits';
+import type { Budget, BudgetSpendTransaction, BudgetVariance } from '@/lib/finance/budgets';
+
+const PAGE_SIZE = 1000;
+
+export interface BudgetVarianceReport {
+  asOf: string;
+  rows: BudgetVariance[];
+  /** Titles of the budgeted projects by id */
+  projectTitles: Record<string, string>;
+  /** Outgoing transactions in the budgeted periods left out for lack of an FX rate */
+  unconvertedCount: number;
+}
+
+export interface GetBudgetVarianceParams {
+  orgId?: string | null;
+  /** Defaults to today; the month and year containing this date are compared */
+  asOf?: string | null;
+}
+
+async function getSpendTransactions(
+  orgId: string | null | undefined,
+  dateFrom: string,
+  dateTo: string
+): Promise<BudgetSpendTransaction[]> {
+  const transactions: BudgetSpendTransaction[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    let query = supabase
+      .from('finance_transactions')
+      .select('id, org_id, amount, amount_base, currency, direction, category, project_id, booking_date, has_splits')
+      .eq('direction', 'out')
+      .gte('booking_date', dateFrom)
+      .lte('booking_date', dateTo)
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (orgId !== null && orgId !== undefined) {
+      query = query.eq('org_id', orgId);
+    }
+
+    const { data, error } = await query;
+    if (error) {
+      console.error('Error fetching transactions for budgets:', error);
+      break;
+    }
+
+    transactions.push(...((data || []) as BudgetSpendTransaction[]));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  return transactions;
+}
+
+async function getProjectTitles(projectIds: string[]): Promise<Record<string, string>> {
+  if (projectIds.length === 0) return {};
+
+  const { data, error } = await supabase.from('projects').select('id, title').in('id', projectIds);
+  if (error) {
+    console.error('Error fetching budget projects:', error);
+    return {};
+  }
+
+  return Object.fromEntries((data || []).map((project: { id: string; title: string }) => [project.id, project.title]));
+}
+
+/**
+ * Budget vs actual for the month and year containing `asOf`
+ */
+export async function getBudgetVariance(params: GetBudgetVarianceParams): Promise<BudgetVarianceReport> {
+  const asOf = params.asOf || new Date().toISOString().slice(0, 10);
+  const monthStart = budgetPeriodStart('month', asOf);
+  const yearStart = budgetPeriodStart('year', asOf);
+
+  let query = supabase
+    .from('finance_budgets')
+    .select('*')
+    .or(`and(period_type.eq.month,period_start.eq.${monthStart}),and(period_type.eq.year,period_start.eq.${yearStart})`);
+
+  if (params.orgId !== null && params.orgId !== undefined) {
+    query = query.eq('org_id', params.orgId);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error('Error fetching budgets:', error);
+    return { asOf, rows: [], projectTitles: {}, unconvertedCount: 0 };
+  }
+
+  const budgets = (data || []).map(budget => ({ ...budget, amount: Number(budget.amount) })) as Budget[];
+  if (budgets.length === 0) {
+    return { asOf, rows: [], projectTitles: {}, unconvertedCount: 0 };
+  }
+
+  // Annual budgets cover the whole year, so load the full year once
+  const periodEnd = budgets.reduce((end, budget) => {
+    const budgetEnd = budgetPeriodEnd(budget);
+    return budgetEnd > end ? budgetEnd : end;
+  }, monthStart);
+  const dateFrom = budgets.some(budget => budget.period_type === 'year') ? yearStart : monthStart;
+
+  const transactions = await getSpendTransactions(params.orgId, dateFrom, periodEnd);
+  const splitsByTransaction = groupSplitsByTransaction(
+    await getTransactionSplits(transactions.filter(t => t.has_splits).map(t => t.id))
+  );
+
+  const projectIds = Array.from(new Set(budgets.map(budget => budget.project_id).filter((id): id is string => !!id)));
+
+  return {
+    asOf,
+    rows: computeBudgetVariance(budgets, transactions, splitsByTransaction, asOf),
+    projectTitles: await getProjectTitles(projectIds),
+    unconvertedCount: transactions.filter(t => baseAmountOf(t) === null).length,
+  };
+}
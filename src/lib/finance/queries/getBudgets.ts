@@ -0,0 +1,21 @@
+import { supabase } from '@/lib/supabase';
+import type { Budget } from '@/lib/finance/budgets';
+
+/**
+ * Budgets of an organisation, latest period first
+ */
+export async function getBudgets(orgId: string): Promise<Budget[]> {
+  const { data, error } = await supabase
+    .from('finance_budgets')
+    .select('*')
+    .eq('org_id', orgId)
+    .order('period_start', { ascending: false })
+    .order('scope', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching budgets:', error);
+    return [];
+  }
+
+  return (data || []).map(budget => ({ ...budget, amount: Number(budget.amount) })) as Budget[];
+}
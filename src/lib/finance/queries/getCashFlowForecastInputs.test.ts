@@ -0,0 +1,108 @@
+import { describe, expect, it, vi } from 'vitest';
+import { getCashFlowForecastInputs } from './getCashFlowForecastInputs';
+
+type Row = Record<string, unknown>;
+
+const tables = vi.hoisted((): Record<string, Row[]> => ({
+  finance_transactions: [
+    { org_id: 'org-a', amount: 1000, amount_base: null, currency: 'PLN', direction: 'in' },
+    { org_id: 'org-b', amount: -500, amount_base: null, currency: 'PLN', direction: 'out' },
+  ],
+  finance_subscriptions: [
+    {
+      id: 'sub-b',
+      org_id: 'org-b',
+      display_name: 'Hosting',
+      cadence: 'monthly',
+      currency: 'PLN',
+      avg_amount: -99,
+      active: true,
+      next_expected_date: '2026-11-01',
+      last_charge_date: '2026-10-01',
+    },
+  ],
+  documents: [
+    {
+      id: 'inv-a',
+      organisation_id: 'org-a',
+      name: 'FV 1/2026',
+      invoice_type: 'revenue',
+      invoice_number: '1/2026',
+      invoice_date: '2026-01-10',
+      amount_original: 300,
+      amount_base: null,
+      currency: 'PLN',
+      payment_status: 'unpaid',
+      amount_paid: null,
+      metadata: null,
+      counterparty_name: 'Klient A',
+    },
+    {
+      id: 'inv-b',
+      organisation_id: 'org-b',
+      name: 'FV 2/2026',
+      invoice_type: 'cost',
+      invoice_number: '2/2026',
+      invoice_date: '2026-01-12',
+      amount_original: 200,
+      amount_base: null,
+      currency: 'PLN',
+      payment_status: 'unpaid',
+      amount_paid: null,
+      metadata: null,
+      counterparty_name: 'Dostawca B',
+    },
+  ],
+}));
+
+// Minimal PostgREST stand-in: applies eq filters and ranges, ignores the rest
+vi.mock('@/lib/supabase', () => {
+  const from = (table: string) => {
+    const filters: Array<[string, unknown]> = [];
+    let range: [number, number] | null = null;
+    const result = () => {
+      const rows = (tables[table] || []).filter(row => filters.every(([column, value]) => row[column] === value));
+      return { data: range ? rows.slice(range[0], range[1] + 1) : rows, error: null };
+    };
+    const builder = {
+      select: () => builder,
+      not: () => builder,
+      lte: () => builder,
+      in: () => builder,
+      order: () => builder,
+      limit: () => builder,
+      eq: (column: string, value: unknown) => {
+        filters.push([column, value]);
+        return builder;
+      },
+      range: (start: number, end: number) => {
+        range = [start, end];
+        return builder;
+      },
+      maybeSingle: async () => ({ data: result().data[0] ?? null, error: null }),
+      then: (resolve: (value: ReturnType<typeof result>) => unknown) => resolve(result()),
+    };
+    return builder;
+  };
+  return { supabase: { from } };
+});
+
+describe('getCashFlowForecastInputs', () => {
+  it("uses only the selected org's balance, subscriptions and open invoices", async () => {
+    const a = await getCashFlowForecastInputs({ orgId: 'org-a' });
+    expect(a.openingBalance).toBe(1000);
+    expect(a.subscriptions).toEqual([]);
+    expect(a.invoices.map(inv => inv.id)).toEqual(['inv-a']);
+
+    const b = await getCashFlowForecastInputs({ orgId: 'org-b' });
+    expect(b.openingBalance).toBe(-500);
+    expect(b.subscriptions.map(sub => [sub.id, sub.amount_base])).toEqual([['sub-b', 99]]);
+    expect(b.invoices.map(inv => inv.id)).toEqual(['inv-b']);
+  });
+
+  it('combines every org when none is selected', async () => {
+    const all = await getCashFlowForecastInputs({ orgId: null });
+    expect(all.openingBalance).toBe(500);
+    expect(all.invoices.map(inv => inv.id).sort()).toEqual(['inv-a', 'inv-b']);
+  });
+});
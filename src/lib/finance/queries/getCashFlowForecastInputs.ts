@@ -0,0 +1,140 @@
+import { supabase } from '@/lib/supabase';
+import { BASE_CURRENCY, baseAmountOf } from '@/lib/finance/baseAmount';
+import { dueDateOf } from '@/lib/finance/ageing';
+import { getOpenInvoices } from '@/lib/finance/queries/getAgeingReport';
+import { getSubscriptions } from '@/lib/finance/subscriptions/getSubscriptions';
+import type { ForecastInvoice, ForecastSubscription } from '@/lib/finance/forecast';
+
+const PAGE_SIZE = 1000;
+
+export interface CashFlowForecastInputs {
+  asOf: string;
+  /** Net of all booked transactions in the base currency */
+  openingBalance: number;
+  subscriptions: ForecastSubscription[];
+  invoices: ForecastInvoice[];
+  /** Transactions, subscriptions and invoices left out for lack of an FX rate */
+  unconvertedCount: number;
+}
+
+export interface GetCashFlowForecastInputsParams {
+  orgId?: string | null;
+}
+
+async function getBookedBalance(orgId: string | null | undefined): Promise<{ balance: number; unconverted: number }> {
+  let balance = 0;
+  let unconverted = 0;
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    let query = supabase
+      .from('finance_transactions')
+      .select('amount, amount_base, currency, direction')
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (orgId !== null && orgId !== undefined) {
+      query = query.eq('org_id', orgId);
+    }
+
+    const { data, error } = await query;
+    if (error) {
+      console.error('Error fetching transactions for forecast balance:', error);
+      break;
+    }
+
+    for (const t of data || []) {
+      const base = baseAmountOf(t);
+      if (base === null) {
+        unconverted += 1;
+        continue;
+      }
+      balance += t.direction === 'in' ? Math.abs(base) : -Math.abs(base);
+    }
+
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  return { balance: Math.round(balance * 100) / 100, unconverted };
+}
+
+/**
+ * Latest imported NBP rate per currency; subscriptions are projected at today's rate
+ */
+async function getLatestFxRates(currencies: string[]): Promise<Map<string, number>> {
+  const rates = new Map<string, number>();
+
+  await Promise.all(
+    currencies.map(async currency => {
+      const { data, error } = await supabase
+        .from('fx_rates')
+        .select('rate')
+        .eq('base_currency', BASE_CURRENCY)
+        .eq('currency', currency)
+        .order('rate_date', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error fetching FX rate for forecast:', error);
+        return;
+      }
+      if (data) rates.set(currency, Number(data.rate));
+    })
+  );
+
+  return rates;
+}
+
+/**
+ * Everything the cash-flow forecast needs: booked balance, active subscriptions and open invoices
+ */
+export async function getCashFlowForecastInputs(
+  params: GetCashFlowForecastInputsParams
+): Promise<CashFlowForecastInputs> {
+  const asOf = new Date().toISOString().slice(0, 10);
+
+  const [booked, allSubscriptions, openInvoices] = await Promise.all([
+    getBookedBalance(params.orgId),
+    getSubscriptions({ orgId: params.orgId }),
+    getOpenInvoices(asOf, params.orgId),
+  ]);
+
+  const active = allSubscriptions.filter(s => s.active);
+  const foreign = Array.from(
+    new Set(active.map(s => (s.currency || BASE_CURRENCY).toUpperCase()).filter(c => c !== BASE_CURRENCY))
+  );
+  const rates = await getLatestFxRates(foreign);
+
+  let unconvertedCount = booked.unconverted + openInvoices.unconvertedCount;
+  const subscriptions: ForecastSubscription[] = [];
+
+  for (const sub of active) {
+    const currency = (sub.currency || BASE_CURRENCY).toUpperCase();
+    const rate = currency === BASE_CURRENCY ? 1 : rates.get(currency);
+    if (rate === undefined) {
+      unconvertedCount += 1;
+      continue;
+    }
+    subscriptions.push({
+      id: sub.id,
+      display_name: sub.display_name,
+      cadence: sub.cadence,
+      next_expected_date: sub.next_expected_date,
+      last_charge_date: sub.last_charge_date,
+      amount_base: Math.round(Math.abs(Number(sub.avg_amount)) * rate * 100) / 100,
+    });
+  }
+
+  return {
+    asOf,
+    openingBalance: booked.balance,
+    subscriptions,
+    invoices: openInvoices.invoices.map(inv => ({
+      id: inv.id,
+      invoice_type: inv.invoice_type,
+      due: dueDateOf(inv),
+      open_base: inv.open_base,
+    })),
+    unconvertedCount,
+  };
+}
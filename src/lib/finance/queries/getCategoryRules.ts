@@ -0,0 +1,33 @@
+import { supabase } from '@/lib/supabase';
+import type { CategoryRule } from '@/lib/finance/categoryRules';
+
+export async function getCategoryRules(orgId: string): Promise<CategoryRule[]> {
+  const { data, error } = await supabase
+    .from('finance_category_rules')
+    .select('*')
+    .eq('org_id', orgId)
+    .order('priority', { ascending: true })
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching category rules:', error);
+    return [];
+  }
+
+  return (data || []) as CategoryRule[];
+}
+
+export async function getCategoryRule(ruleId: string): Promise<CategoryRule | null> {
+  const { data, error } = await supabase
+    .from('finance_category_rules')
+    .select('*')
+    .eq('id', ruleId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching category rule:', error);
+    return null;
+  }
+
+  return data as CategoryRule | null;
+}
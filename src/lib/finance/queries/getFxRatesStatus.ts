@@ -0,0 +1,34 @@
+import { supabase } from '@/lib/supabase';
+import { BASE_CURRENCY } from '@/lib/finance/baseAmount';
+
+export interface FxRatesStatus {
+  rate_count: number;
+  latest_rate_date: string | null;
+  latest_table_no: string | null;
+}
+
+export async function getFxRatesStatus(): Promise<FxRatesStatus> {
+  const [{ count, error: countError }, { data: latest, error: latestError }] = await Promise.all([
+    supabase
+      .from('fx_rates')
+      .select('id', { count: 'exact', head: true })
+      .eq('base_currency', BASE_CURRENCY),
+    supabase
+      .from('fx_rates')
+      .select('rate_date, table_no')
+      .eq('base_currency', BASE_CURRENCY)
+      .order('rate_date', { ascending: false })
+      .limit(1)
+      .maybeSingle(),
+  ]);
+
+  if (countError || latestError) {
+    console.error('Error fetching FX rates status:', countError || latestError);
+  }
+
+  return {
+    rate_count: count || 0,
+    latest_rate_date: latest?.rate_date ?? null,
+    latest_table_no: latest?.table_no ?? null,
+  };
+}
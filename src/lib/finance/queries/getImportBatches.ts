@@ -0,0 +1,48 @@
+import { supabase } from '@/lib/supabase';
+
+export interface ImportBatch {
+  id: string;
+  org_id: string;
+  source_document_id: string | null;
+  file_name: string | null;
+  file_sha256: string | null;
+  format: string | null;
+  profile: string | null;
+  imported_by: string | null;
+  imported_at: string;
+  rows_parsed: number;
+  rows_valid: number;
+  rows_invalid: number;
+  rows_inserted: number;
+  rows_skipped: number;
+  status: 'running' | 'completed' | 'rolled_back';
+  rolled_back_at: string | null;
+  rolled_back_by: string | null;
+}
+
+export interface GetImportBatchesParams {
+  orgId?: string | null;
+  limit?: number;
+}
+
+export async function getImportBatches(params: GetImportBatchesParams): Promise<ImportBatch[]> {
+  let query = supabase
+    .from('finance_import_batches')
+    .select('*')
+    .order('imported_at', { ascending: false })
+    .limit(params.limit ?? 50);
+
+  // Filter by org_id ONLY if explicitly provided
+  if (params.orgId !== null && params.orgId !== undefined) {
+    query = query.eq('org_id', params.orgId);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error('Error fetching import batches:', error);
+    return [];
+  }
+
+  return (data || []) as ImportBatch[];
+}
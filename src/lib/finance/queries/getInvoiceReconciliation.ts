@@ -0,0 +1,96 @@
+import { supabase } from '@/lib/supabase';
+import type { PaymentStatus } from '@/lib/db/documents';
+
+export interface InvoicePaymentMatch {
+  id: string;
+  amount: number;
+  transaction_amount: number;
+  match_type: 'invoice_number' | 'amount' | 'aggregate';
+  score: number;
+  explanation: string | null;
+  transaction: {
+    id: string;
+    booking_date: string;
+    amount: number;
+    currency: string;
+    description: string | null;
+    counterparty_name: string | null;
+  } | null;
+}
+
+export interface ReconciledInvoice {
+  id: string;
+  name: string;
+  invoice_type: 'cost' | 'revenue';
+  invoice_number: string | null;
+  invoice_date: string | null;
+  amount_original: number;
+  currency: string | null;
+  payment_status: PaymentStatus | null;
+  amount_paid: number | null;
+  reconciled_at: string | null;
+  matches: InvoicePaymentMatch[];
+}
+
+interface MatchRow extends Omit<InvoicePaymentMatch, 'transaction'> {
+  is_rejected: boolean;
+  finance_transactions: InvoicePaymentMatch['transaction'];
+}
+
+interface InvoiceRow extends Omit<ReconciledInvoice, 'matches'> {
+  invoice_payment_matches: MatchRow[] | null;
+}
+
+export interface GetInvoiceReconciliationParams {
+  status?: PaymentStatus | null;
+  invoiceType?: 'cost' | 'revenue' | null;
+}
+
+export async function getInvoiceReconciliation(
+  params: GetInvoiceReconciliationParams = {}
+): Promise<ReconciledInvoice[]> {
+  let query = supabase
+    .from('documents')
+    .select(`
+      id, name, invoice_type, invoice_number, invoice_date, amount_original, currency,
+      payment_status, amount_paid, reconciled_at,
+      invoice_payment_matches (
+        id, amount, transaction_amount, match_type, score, explanation, is_rejected,
+        finance_transactions ( id, booking_date, amount, currency, description, counterparty_name )
+      )
+    `)
+    .not('invoice_type', 'is', null)
+    .not('amount_original', 'is', null)
+    .order('invoice_date', { ascending: false });
+
+  if (params.status) {
+    query = query.eq('payment_status', params.status);
+  }
+  if (params.invoiceType) {
+    query = query.eq('invoice_type', params.invoiceType);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error('Error fetching invoice reconciliation:', error);
+    return [];
+  }
+
+  return ((data || []) as unknown as InvoiceRow[]).map(({ invoice_payment_matches, ...row }) => ({
+    ...row,
+    amount_original: Number(row.amount_original),
+    amount_paid: row.amount_paid != null ? Number(row.amount_paid) : null,
+    matches: (invoice_payment_matches || [])
+      .filter(m => !m.is_rejected)
+      .map(m => ({
+        id: m.id,
+        amount: Number(m.amount),
+        transaction_amount: Number(m.transaction_amount),
+        match_type: m.match_type,
+        score: Number(m.score),
+        explanation: m.explanation,
+        transaction: m.finance_transactions,
+      })),
+  }));
+}
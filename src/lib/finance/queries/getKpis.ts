@@ -1,10 +1,15 @@
 import { supabase } from '@/lib/supabase';
+import { baseAmountOf } from '@/lib/finance/baseAmount';
+import { groupSplitsByTransaction } from '@/lib/finance/splits';
+import { getTransactionSplits } from './getTransactionSplits';
 
 export interface Kpis {
   inflow_sum: number;
   outflow_sum: number;
   net: number;
   uncategorised_count: number;
+  /** Foreign-currency transactions left out of the sums because no FX rate was imported for their date */
+  unconverted_count: number;
 }
 
 export interface GetKpisParams {
@@ -19,7 +24,7 @@ export async function getKpis(params: GetKpisParams): Promise<Kpis> {
   // Build base query - select ALL needed fields
   let query = supabase
     .from('finance_transactions')
-    .select('amount, direction, category, booking_date');
+    .select('id, amount, amount_base, currency, direction, category, booking_date, has_splits');
 
   // Filter by org_id ONLY if explicitly provided (not null/undefined)
   // Important: when orgId is null/undefined, we want ALL transactions (no filter)
@@ -50,6 +55,7 @@ export async function getKpis(params: GetKpisParams): Promise<Kpis> {
       outflow_sum: 0,
       net: 0,
       uncategorised_count: 0,
+      unconverted_count: 0,
     };
   }
 
@@ -58,39 +64,51 @@ export async function getKpis(params: GetKpisParams): Promise<Kpis> {
   console.log('[getKpis] Loaded transactions:', transactions.length);
   console.log('[getKpis] Sample transactions:', transactions.slice(0, 3));
 
-  // Calculate sums - amount is stored as-is (can be negative for out, positive for in)
+  // Calculate sums in the base currency - amount is stored as-is (can be negative for out, positive for in)
   // direction field tells us if it's in or out, but amount sign should match
   // We use direction field to be safe, and always take absolute value
-  const inflow_sum = transactions
+  const converted = transactions.filter(t => baseAmountOf(t) !== null);
+  const unconverted_count = transactions.length - converted.length;
+
+  const inflow_sum = converted
     .filter(t => t.direction === 'in')
     .reduce((sum, t) => {
-      const amount = Number(t.amount) || 0;
+      const amount = baseAmountOf(t) || 0;
       // For 'in', amount should be positive, but take abs to be safe
       return sum + Math.abs(amount);
     }, 0);
 
-  const outflow_sum = transactions
+  const outflow_sum = converted
     .filter(t => t.direction === 'out')
     .reduce((sum, t) => {
-      const amount = Number(t.amount) || 0;
+      const amount = baseAmountOf(t) || 0;
       // For 'out', amount can be negative, take abs
       return sum + Math.abs(amount);
     }, 0);
 
   const net = inflow_sum - outflow_sum;
 
-  // Count uncategorised
-  const uncategorised_count = transactions.filter(t => 
-    !t.category || t.category === 'uncategorised' || t.category === ''
-  ).length;
-
-  console.log('[getKpis] Calculated:', { inflow_sum, outflow_sum, net, uncategorised_count });
+  // Count uncategorised - a split transaction counts while any of its lines is uncategorised
+  const isUncategorised = (category: string | null) =>
+    !category || category === 'uncategorised' || category === '';
+  const splitsByTransaction = groupSplitsByTransaction(
+    await getTransactionSplits(transactions.filter(t => t.has_splits).map(t => t.id))
+  );
+  const uncategorised_count = transactions.filter(t => {
+    const splits = splitsByTransaction.get(t.id);
+    return splits && splits.length > 0
+      ? splits.some(split => isUncategorised(split.category))
+      : isUncategorised(t.category);
+  }).length;
+
+  console.log('[getKpis] Calculated:', { inflow_sum, outflow_sum, net, uncategorised_count, unconverted_count });
 
   return {
     inflow_sum,
     outflow_sum,
     net,
     uncategorised_count,
+    unconverted_count,
   };
 }
 
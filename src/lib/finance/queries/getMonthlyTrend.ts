@@ -1,4 +1,5 @@
 import { supabase } from '@/lib/supabase';
+import { baseAmountOf } from '@/lib/finance/baseAmount';
 
 export interface MonthlyTrendData {
   month: string; // YYYY-MM
@@ -25,7 +26,7 @@ export async function getMonthlyTrend(params: GetMonthlyTrendParams): Promise<Mo
 
   let query = supabase
     .from('finance_transactions')
-    .select('booking_date, amount, direction, category, description');
+    .select('booking_date, amount, amount_base, currency, direction, category, description');
 
   if (params.orgId !== null && params.orgId !== undefined) {
     query = query.eq('org_id', params.orgId);
@@ -76,8 +77,11 @@ export async function getMonthlyTrend(params: GetMonthlyTrendParams): Promise<Mo
     if (!byMonth[month]) {
       byMonth[month] = { inflow: 0, outflow: 0, taxes: { vat: 0, cit: 0, other: 0 } };
     }
+    // Base-currency amount; unconverted foreign rows are left out rather than mixed in
+    const base = baseAmountOf(t);
+    if (base === null) return;
     // Amount can be negative for 'out' transactions, always use absolute value
-    const amount = Math.abs(Number(t.amount) || 0);
+    const amount = Math.abs(base);
     
     if (t.direction === 'in') {
       byMonth[month].inflow += amount;
@@ -0,0 +1,48 @@
+import { supabase } from '@/lib/supabase';
+import type {
+  SubscriptionAlertDetails,
+  SubscriptionAlertStatus,
+  SubscriptionAlertType,
+} from '@/lib/finance/subscriptions/alerts';
+
+export interface SubscriptionAlert {
+  id: string;
+  org_id: string;
+  subscription_id: string | null;
+  transaction_id: string | null;
+  alert_type: SubscriptionAlertType;
+  details: SubscriptionAlertDetails;
+  status: SubscriptionAlertStatus;
+  snoozed_until: string | null;
+  created_at: string;
+}
+
+export interface GetSubscriptionAlertsParams {
+  orgId?: string | null;
+}
+
+/**
+ * Alerts to show: open ones, and snoozed ones whose snooze has run out
+ */
+export async function getSubscriptionAlerts(params: GetSubscriptionAlertsParams): Promise<SubscriptionAlert[]> {
+  const today = new Date().toISOString().slice(0, 10);
+
+  let query = supabase
+    .from('finance_subscription_alerts')
+    .select('id, org_id, subscription_id, transaction_id, alert_type, details, status, snoozed_until, created_at')
+    .or(`status.eq.open,and(status.eq.snoozed,snoozed_until.lte.${today})`)
+    .order('created_at', { ascending: false });
+
+  if (params.orgId !== null && params.orgId !== undefined) {
+    query = query.eq('org_id', params.orgId);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error('Error fetching subscription alerts:', error);
+    return [];
+  }
+
+  return (data || []) as SubscriptionAlert[];
+}
@@ -1,4 +1,7 @@
 import { supabase } from '@/lib/supabase';
+import { baseAmountOf } from '@/lib/finance/baseAmount';
+import { groupSplitsByTransaction, splitBaseAmount } from '@/lib/finance/splits';
+import { getTransactionSplits } from './getTransactionSplits';
 
 export interface TopCategory {
   category: string;
@@ -16,7 +19,7 @@ export interface GetTopCategoriesParams {
 export async function getTopCategories(params: GetTopCategoriesParams): Promise<TopCategory[]> {
   let query = supabase
     .from('finance_transactions')
-    .select('category, amount');
+    .select('id, category, amount, amount_base, currency, has_splits');
 
   if (params.orgId) {
     query = query.eq('org_id', params.orgId);
@@ -39,16 +42,31 @@ export async function getTopCategories(params: GetTopCategoriesParams): Promise<
 
   const transactions = data || [];
 
+  // Split transactions are counted per split line instead of under the parent category
+  const splitsByTransaction = groupSplitsByTransaction(
+    await getTransactionSplits(transactions.filter(t => t.has_splits).map(t => t.id))
+  );
+
   // Group by category
   const byCategory: Record<string, { total: number; count: number }> = {};
-
-  transactions.forEach(t => {
-    const cat = t.category || 'uncategorised';
+  const add = (category: string | null, base: number) => {
+    const cat = category || 'uncategorised';
     if (!byCategory[cat]) {
       byCategory[cat] = { total: 0, count: 0 };
     }
-    byCategory[cat].total += Math.abs(t.amount || 0);
+    byCategory[cat].total += Math.abs(base);
     byCategory[cat].count += 1;
+  };
+
+  transactions.forEach(t => {
+    const base = baseAmountOf(t);
+    if (base === null) return; // no FX rate for this date yet
+    const splits = splitsByTransaction.get(t.id);
+    if (splits && splits.length > 0) {
+      splits.forEach(split => add(split.category, splitBaseAmount(t, split) || 0));
+    } else {
+      add(t.category, base);
+    }
   });
 
   // Convert to array, sort by absolute amount, limit
@@ -0,0 +1,45 @@
+import { supabase } from '@/lib/supabase';
+import type { TransactionSplit } from '@/lib/finance/splits';
+
+const ID_CHUNK_SIZE = 200;
+
+/**
+ * Split lines of the given transactions (PostgREST `in` filters are chunked to keep URLs short)
+ */
+export async function getTransactionSplits(transactionIds: string[]): Promise<TransactionSplit[]> {
+  const splits: TransactionSplit[] = [];
+
+  for (let i = 0; i < transactionIds.length; i += ID_CHUNK_SIZE) {
+    const { data, error } = await supabase
+      .from('finance_transaction_splits')
+      .select('*')
+      .in('transaction_id', transactionIds.slice(i, i + ID_CHUNK_SIZE))
+      .order('position', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching transaction splits:', error);
+      return [];
+    }
+
+    splits.push(...((data || []) as TransactionSplit[]));
+  }
+
+  return splits;
+}
+
+/**
+ * Split lines allocated to a project
+ */
+export async function getProjectSplits(projectId: string): Promise<TransactionSplit[]> {
+  const { data, error } = await supabase
+    .from('finance_transaction_splits')
+    .select('*')
+    .eq('project_id', projectId);
+
+  if (error) {
+    console.error('Error fetching project splits:', error);
+    return [];
+  }
+
+  return (data || []) as TransactionSplit[];
+}
@@ -3,6 +3,7 @@ import { supabase } from '@/lib/supabase';
 export interface GetTransactionsParams {
   orgId?: string | null;
   projectId?: string | null;
+  ids?: string[] | null;
   dateFrom?: string | null;
   dateTo?: string | null;
   search?: string | null;
@@ -36,6 +37,9 @@ export interface Transaction {
   project_id?: string | null;
   paid_by_company_card?: boolean;
   exclude_from_reimbursement?: boolean;
+  category_rule_id?: string | null;
+  category_source?: 'import' | 'rule' | 'manual' | null;
+  has_splits?: boolean;
 }
 
 export interface GetTransactionsResult {
@@ -48,7 +52,7 @@ export async function getTransactions(params: GetTransactionsParams): Promise<Ge
   
   let query = supabase
     .from('finance_transactions')
-    .select('id, org_id, source_document_id, booking_date, value_date, amount, currency, description, counterparty_name, counterparty_account, direction, category, subcategory, transaction_hash, raw, created_at, is_recurring, recurrence_pattern, recurrence_group_id, project_id, paid_by_company_card, exclude_from_reimbursement', { count: 'exact', head: false });
+    .select('id, org_id, source_document_id, booking_date, value_date, amount, currency, description, counterparty_name, counterparty_account, direction, category, subcategory, transaction_hash, raw, created_at, is_recurring, recurrence_pattern, recurrence_group_id, project_id, paid_by_company_card, exclude_from_reimbursement, category_rule_id, category_source, has_splits', { count: 'exact', head: false });
 
   // Filter by org_id ONLY if explicitly provided (not null/undefined/empty string)
   // If orgId is null/undefined/empty, show ALL transactions
@@ -64,6 +68,10 @@ export async function getTransactions(params: GetTransactionsParams): Promise<Ge
     query = query.eq('project_id', params.projectId);
   }
 
+  if (params.ids) {
+    query = query.in('id', params.ids);
+  }
+
   // Date range filter
   if (params.dateFrom) {
     query = query.gte('booking_date', params.dateFrom);
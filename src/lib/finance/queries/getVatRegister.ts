@@ -0,0 +1,70 @@
+import { supabase } from '@/lib/supabase';
+import { buildVatRegister } from '@/lib/finance/vat/register';
+import type { VatInvoice, VatRegister } from '@/lib/finance/vat/register';
+import type { JpkTaxpayer } from '@/lib/finance/vat/jpk';
+
+const PAGE_SIZE = 1000;
+
+export interface VatRegisterReport {
+  register: VatRegister;
+  /** Taxpayer data of the organisation for the JPK header; fields may be missing */
+  taxpayer: Partial<JpkTaxpayer>;
+}
+
+export interface GetVatRegisterParams {
+  orgId: string;
+  year: number;
+  month: number;
+}
+
+async function getTaxpayer(orgId: string): Promise<Partial<JpkTaxpayer>> {
+  const { data, error } = await supabase
+    .from('organisations')
+    .select('name, nip, tax_office_code, tax_email')
+    .eq('id', orgId)
+    .single();
+
+  if (error) {
+    console.error('Error fetching VAT taxpayer:', error);
+    return {};
+  }
+
+  return {
+    nip: data?.nip || undefined,
+    fullName: data?.name || undefined,
+    email: data?.tax_email || undefined,
+    taxOfficeCode: data?.tax_office_code || undefined,
+  };
+}
+
+/**
+ * VAT register of an organisation for one month, from invoices dated in that month
+ */
+export async function getVatRegister(params: GetVatRegisterParams): Promise<VatRegisterReport> {
+  const invoices: VatInvoice[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('documents')
+      .select('id, name, invoice_type, invoice_number, invoice_date, amount_original, currency, fx_rate, amount_net, vat_rate, vat_amount, counterparty_nip, counterparty_name')
+      .eq('organisation_id', params.orgId)
+      .eq('invoice_year', params.year)
+      .eq('invoice_month', params.month)
+      .not('invoice_type', 'is', null)
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      console.error('Error fetching VAT invoices:', error);
+      break;
+    }
+
+    invoices.push(...((data || []) as VatInvoice[]));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  return {
+    register: buildVatRegister(invoices, params.year, params.month),
+    taxpayer: await getTaxpayer(params.orgId),
+  };
+}
@@ -0,0 +1,97 @@
+import { baseAmountOf } from '@/lib/finance/baseAmount';
+
+export interface TransactionSplit {
+  id: string;
+  org_id: string;
+  transaction_id: string;
+  position: number;
+  amount: number;
+  category: string;
+  subcategory: string | null;
+  project_id: string | null;
+  trip_id: string | null;
+  note: string | null;
+  created_at: string;
+}
+
+export type TransactionSplitInput = Pick<
+  TransactionSplit,
+  'amount' | 'category' | 'subcategory' | 'project_id' | 'trip_id' | 'note'
+>;
+
+const toCents = (value: number | string) => Math.round((Number(value) || 0) * 100);
+
+/**
+ * Validate split lines against the parent amount: at least two lines, each non-zero with the
+ * parent's sign, summing to the parent to the cent
+ */
+export function validateSplits(parentAmount: number, splits: TransactionSplitInput[]): string | null {
+  if (splits.length < 2) return 'A split needs at least two lines';
+
+  const parentCents = toCents(parentAmount);
+  for (const [index, split] of splits.entries()) {
+    const cents = toCents(split.amount);
+    if (cents === 0) return `Line ${index + 1}: amount is required`;
+    if (Math.sign(cents) !== Math.sign(parentCents)) {
+      return `Line ${index + 1}: amount must have the same sign as the transaction`;
+    }
+  }
+
+  const totalCents = splits.reduce((sum, split) => sum + toCents(split.amount), 0);
+  if (totalCents !== parentCents) {
+    return `Split lines sum to ${(totalCents / 100).toFixed(2)}, transaction amount is ${(parentCents / 100).toFixed(2)}`;
+  }
+
+  return null;
+}
+
+/**
+ * Base-currency amount of a split line, proportional to the parent's converted amount.
+ * Null while the parent has no FX rate.
+ */
+export function splitBaseAmount(
+  parent: { amount: number | string; currency?: string | null; amount_base?: number | string | null },
+  split: { amount: number | string }
+): number | null {
+  const parentBase = baseAmountOf(parent);
+  if (parentBase === null) return null;
+  const parentAmount = Number(parent.amount) || 0;
+  if (parentAmount === 0) return 0;
+  return (parentBase * (Number(split.amount) || 0)) / parentAmount;
+}
+
+/**
+ * Group split lines by parent transaction, ordered by position
+ */
+export function groupSplitsByTransaction(splits: TransactionSplit[]): Map<string, TransactionSplit[]> {
+  const grouped = new Map<string, TransactionSplit[]>();
+  for (const split of [...splits].sort((a, b) => a.position - b.position)) {
+    grouped.set(split.transaction_id, [...(grouped.get(split.transaction_id) ?? []), split]);
+  }
+  return grouped;
+}
+
+/**
+ * A project's share of the given transactions: whole transactions booked to the project, and
+ * for split transactions only the lines allocated to it (each line becomes its own row)
+ */
+export function allocateToProject<
+  T extends { id: string; amount: number; category: string; project_id?: string | null }
+>(transactions: T[], splits: TransactionSplit[], projectId: string): T[] {
+  const splitsByTransaction = groupSplitsByTransaction(splits);
+
+  return transactions.flatMap(transaction => {
+    const lines = splitsByTransaction.get(transaction.id);
+    if (!lines || lines.length === 0) {
+      return transaction.project_id === projectId ? [transaction] : [];
+    }
+    return lines
+      .filter(line => line.project_id === projectId)
+      .map(line => ({
+        ...transaction,
+        id: line.id,
+        amount: Number(line.amount),
+        category: line.category,
+      }));
+  });
+}
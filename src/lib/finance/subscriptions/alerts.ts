@@ -0,0 +1,184 @@
+/**
+ * Subscription lifecycle alerts, raised after each detection run when a charge breaks the
+ * pattern. Pure functions; the detection runner stores the results in
+ * finance_subscription_alerts, where `dedupe_key` makes every event fire only once.
+ */
+
+import { CADENCE_DAYS } from './pipeline';
+import type { Cadence, DetectedSubscription } from './pipeline';
+
+export type SubscriptionAlertType = 'price_increase' | 'missed_charge' | 'duplicate_charge' | 'new_recurring';
+export type SubscriptionAlertStatus = 'open' | 'dismissed' | 'snoozed';
+
+export interface SubscriptionAlertDetails {
+  display_name: string;
+  currency: string;
+  cadence: Cadence;
+  /** Typical charge before the event */
+  expected_amount?: number;
+  /** Charge (or combined charges) that triggered the alert */
+  actual_amount?: number;
+  expected_date?: string;
+  /** Service month (YYYY-MM-01) of duplicate charges */
+  period?: string;
+  transaction_ids?: string[];
+}
+
+export interface SubscriptionAlertCandidate {
+  vendor_key: string;
+  cadence: Cadence;
+  currency: string;
+  alert_type: SubscriptionAlertType;
+  dedupe_key: string;
+  transaction_id: string | null;
+  details: SubscriptionAlertDetails;
+}
+
+/** Previously stored subscription, used to tell new vendors apart */
+export interface KnownSubscription {
+  vendor_key: string;
+  cadence: string;
+  currency: string;
+}
+
+// Charges booked longer ago than this do not raise price or duplicate alerts,
+// so the first run over 18 months of history does not flood the panel
+const RECENT_DAYS = 45;
+
+// Days past the expected date before a charge counts as missed
+const GRACE_DAYS: Record<Cadence, number> = {
+  weekly: 3,
+  monthly: 7,
+  quarterly: 14,
+  yearly: 30,
+};
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to.slice(0, 10)}T00:00:00Z`) - Date.parse(`${from.slice(0, 10)}T00:00:00Z`)) / 86400000);
+}
+
+function median(numbers: number[]): number {
+  const sorted = [...numbers].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+export function subscriptionKey(sub: KnownSubscription): string {
+  return `${sub.vendor_key}:${sub.cadence}:${sub.currency.toUpperCase()}`;
+}
+
+/**
+ * Charges of a subscription in booking order; monthly payments for the same service month
+ * are combined, as in the pipeline
+ */
+function chargesOf(sub: DetectedSubscription): Array<{ date: string; amount: number; ids: string[] }> {
+  if (sub.cadence !== 'monthly') {
+    return sub.transactions.map(tx => ({ date: tx.booking_date, amount: tx.amount, ids: [tx.id] }));
+  }
+
+  const byMonth = new Map<string, { date: string; amount: number; ids: string[] }>();
+  for (const tx of sub.transactions) {
+    const charge = byMonth.get(tx.service_period_month);
+    byMonth.set(tx.service_period_month, {
+      date: charge && charge.date < tx.booking_date ? charge.date : tx.booking_date,
+      amount: (charge?.amount ?? 0) + tx.amount,
+      ids: [...(charge?.ids ?? []), tx.id],
+    });
+  }
+  return Array.from(byMonth.values()).sort((a, b) => a.date.localeCompare(b.date));
+}
+
+function candidate(
+  sub: DetectedSubscription,
+  alertType: SubscriptionAlertType,
+  eventKey: string,
+  transactionId: string | null,
+  details: Omit<SubscriptionAlertDetails, 'display_name' | 'currency' | 'cadence'>
+): SubscriptionAlertCandidate {
+  return {
+    vendor_key: sub.vendor_key,
+    cadence: sub.cadence,
+    currency: sub.currency,
+    alert_type: alertType,
+    dedupe_key: `${alertType}:${subscriptionKey(sub)}:${eventKey}`,
+    transaction_id: transactionId,
+    details: { display_name: sub.display_name, currency: sub.currency, cadence: sub.cadence, ...details },
+  };
+}
+
+/**
+ * Alerts for freshly detected subscriptions. `known` are the subscriptions stored before this
+ * run; when there are none (first run) no vendor is reported as new.
+ */
+export function evaluateSubscriptionAlerts(
+  detected: DetectedSubscription[],
+  known: KnownSubscription[],
+  asOf: string = new Date().toISOString().slice(0, 10)
+): SubscriptionAlertCandidate[] {
+  const alerts: SubscriptionAlertCandidate[] = [];
+  const knownKeys = new Set(known.map(subscriptionKey));
+
+  for (const sub of detected) {
+    const charges = chargesOf(sub);
+    const last = charges[charges.length - 1];
+    if (!last) continue;
+
+    // Price increase: latest charge above the earlier typical amount by more than the tolerance
+    const earlier = charges.slice(0, -1).map(c => c.amount);
+    if (earlier.length >= 2 && daysBetween(last.date, asOf) <= RECENT_DAYS) {
+      const baseline = median(earlier);
+      const tolerance = Math.max(5, baseline * 0.05);
+      if (last.amount > baseline + tolerance) {
+        alerts.push(candidate(sub, 'price_increase', last.ids[0], last.ids[0], {
+          expected_amount: round2(baseline),
+          actual_amount: round2(last.amount),
+          transaction_ids: last.ids,
+        }));
+      }
+    }
+
+    // Missed charge: expected date plus grace has passed, but not by more than one cycle
+    // (after that the subscription is simply inactive)
+    const overdue = daysBetween(sub.next_expected_date, asOf);
+    if (overdue > GRACE_DAYS[sub.cadence] && overdue <= CADENCE_DAYS[sub.cadence].nominal) {
+      alerts.push(candidate(sub, 'missed_charge', sub.next_expected_date, null, {
+        expected_amount: sub.avg_amount,
+        expected_date: sub.next_expected_date,
+      }));
+    }
+
+    // Duplicate: two or more full-price charges for one service month. Split payments that
+    // add up to the price are fine, so every part must be close to the typical charge.
+    if (sub.cadence !== 'weekly') {
+      const typical = median(sub.transactions.map(tx => tx.amount));
+      const tolerance = Math.max(5, typical * 0.05);
+      const byPeriod = new Map<string, DetectedSubscription['transactions']>();
+      sub.transactions
+        .filter(tx => daysBetween(tx.booking_date, asOf) <= RECENT_DAYS)
+        .forEach(tx => byPeriod.set(tx.service_period_month, [...(byPeriod.get(tx.service_period_month) ?? []), tx]));
+
+      for (const [period, txs] of byPeriod.entries()) {
+        const fullPrice = txs.filter(tx => Math.abs(tx.amount - typical) <= tolerance);
+        if (fullPrice.length < 2) continue;
+        alerts.push(candidate(sub, 'duplicate_charge', period, fullPrice[1].id, {
+          expected_amount: round2(typical),
+          actual_amount: round2(fullPrice.reduce((sum, tx) => sum + tx.amount, 0)),
+          period,
+          transaction_ids: fullPrice.map(tx => tx.id),
+        }));
+      }
+    }
+
+    // New recurring vendor: found by heuristics or interval analysis (rules are set up by hand)
+    if (known.length > 0 && sub.source !== 'rule' && !knownKeys.has(subscriptionKey(sub))) {
+      alerts.push(candidate(sub, 'new_recurring', sub.first_seen_date, last.ids[0], {
+        actual_amount: sub.avg_amount,
+        transaction_ids: sub.evidence.transaction_ids,
+      }));
+    }
+  }
+
+  return alerts;
+}
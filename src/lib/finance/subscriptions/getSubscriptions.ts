@@ -1,4 +1,5 @@
 import { supabase } from '@/lib/supabase';
+import type { SubscriptionEvidence } from './pipeline';
 
 export interface Subscription {
   id: string;
@@ -15,6 +16,8 @@ export interface Subscription {
   active: boolean;
   confidence: number;
   source: string;
+  /** Why the pipeline detected it; null for subscriptions stored before evidence was kept */
+  evidence: SubscriptionEvidence | null;
 }
 
 export interface GetSubscriptionsParams {
@@ -0,0 +1,498 @@
+/**
+ * Subscription detection pipeline. Outgoing transactions go through the stages in order and
+ * each stage claims the transactions it recognises, so later stages only see what is left:
+ * 1. rules - regexes stored per organisation in finance_subscription_rules
+ * 2. heuristics - built-in patterns for vendors we know to be recurring
+ * 3. interval - anything else charged at regular intervals for a similar amount
+ *
+ * Every detected subscription carries the evidence it was accepted on. Pure functions;
+ * loading and persistence live in ./detectSubscriptions.ts.
+ */
+
+import { nthChargeDate } from '@/lib/finance/forecast';
+
+export type DetectionStageName = 'rule' | 'heuristic' | 'interval';
+export type Cadence = 'weekly' | 'monthly' | 'quarterly' | 'yearly';
+
+export const CADENCES: Cadence[] = ['weekly', 'monthly', 'quarterly', 'yearly'];
+
+export interface SubscriptionRule {
+  id: string;
+  org_id: string;
+  vendor_key: string;
+  display_name: string;
+  match_regex: string;
+  cadence: string;
+  is_enabled: boolean;
+}
+
+export interface PipelineTransaction {
+  id: string;
+  booking_date: string;
+  /** Charge amount, sign ignored */
+  amount: number;
+  currency: string | null;
+  description: string | null;
+  counterparty_name: string | null;
+}
+
+/**
+ * Transactions a stage recognised as one vendor
+ */
+export interface StageMatch {
+  vendor_key: string;
+  display_name: string;
+  /** Rule name or built-in pattern; null for interval analysis */
+  matched_by: string | null;
+  /** Cadence fixed by a rule; inferred from the intervals otherwise */
+  cadence: Cadence | null;
+  transactions: PipelineTransaction[];
+}
+
+export interface DetectionStage {
+  name: DetectionStageName;
+  /** Minimum number of charges for a match to be accepted */
+  minCharges: number;
+  run(transactions: PipelineTransaction[]): StageMatch[];
+}
+
+export interface IntervalStats {
+  median_days: number;
+  min_days: number;
+  max_days: number;
+  /** Share of intervals that fit the cadence */
+  regular_ratio: number;
+}
+
+export interface AmountStats {
+  avg: number;
+  min: number;
+  max: number;
+  stddev: number;
+  /** Standard deviation as a percentage of the average */
+  variance_pct: number;
+}
+
+export interface SubscriptionEvidence {
+  stage: DetectionStageName;
+  matched_by: string | null;
+  transaction_ids: string[];
+  /** Charges after merging payments for the same service month */
+  charge_count: number;
+  interval: IntervalStats | null;
+  amount: AmountStats;
+  service_months: string[];
+}
+
+export interface DetectedSubscription {
+  vendor_key: string;
+  display_name: string;
+  cadence: Cadence;
+  currency: string;
+  avg_amount: number;
+  amount_tolerance: number;
+  last_charge_date: string;
+  next_expected_date: string;
+  first_seen_date: string;
+  active: boolean;
+  confidence: number;
+  source: DetectionStageName;
+  evidence: SubscriptionEvidence;
+  transactions: Array<{ id: string; booking_date: string; amount: number; service_period_month: string }>;
+}
+
+export const CADENCE_DAYS: Record<Cadence, { nominal: number; slack: number; activeFor: number }> = {
+  weekly: { nominal: 7, slack: 1, activeFor: 14 },
+  monthly: { nominal: 30, slack: 5, activeFor: 45 },
+  quarterly: { nominal: 91, slack: 7, activeFor: 100 },
+  yearly: { nominal: 365, slack: 10, activeFor: 380 },
+};
+
+// Polish month names
+const PL_MONTHS: Record<string, number> = {
+  'styczeń': 1, 'stycznia': 1,
+  'luty': 2, 'lutego': 2,
+  'marzec': 3, 'marca': 3,
+  'kwiecień': 4, 'kwietnia': 4,
+  'maj': 5, 'maja': 5,
+  'czerwiec': 6, 'czerwca': 6,
+  'lipiec': 7, 'lipca': 7,
+  'sierpień': 8, 'sierpnia': 8,
+  'wrzesień': 9, 'września': 9,
+  'październik': 10, 'października': 10,
+  'listopad': 11, 'listopada': 11,
+  'grudzień': 12, 'grudnia': 12,
+};
+
+const MONTH_WORD = new RegExp(`(?:^|[^\\p{L}])(${Object.keys(PL_MONTHS).join('|')})(?![\\p{L}])`, 'u');
+
+/**
+ * Built-in vendors; keys are stable so subscriptions keep their identity across runs
+ */
+const VENDOR_MATCHERS: Array<{ vendorKey: string; displayName: string; patterns: RegExp[] }> = [
+  {
+    vendorKey: 'squarespace',
+    displayName: 'Squarespace',
+    patterns: [/sqsp\*/i, /squarespace/i],
+  },
+  {
+    vendorKey: 'hermi_accounting',
+    displayName: 'HERMI (accounting)',
+    patterns: [/\bhermi\b/i, /joanna\s+koszulska/i, /biuro\s+rachunkowe\s+hermi/i],
+  },
+  {
+    vendorKey: 'rent',
+    displayName: 'Rent',
+    patterns: [/\bnajem\b/i],
+  },
+  {
+    vendorKey: 'google_workspace',
+    displayName: 'Google Workspace',
+    patterns: [/google\s+workspace/i, /gsuite/i, /gcpld\d+/i],
+  },
+];
+
+/**
+ * Vendor keys that are running costs rather than software
+ */
+export const NON_SOFTWARE_VENDOR_KEYS = ['rent', 'hermi_accounting'];
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+function transactionText(tx: PipelineTransaction): string {
+  return [tx.description, tx.counterparty_name].filter(Boolean).join(' ').trim();
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to.slice(0, 10)}T00:00:00Z`) - Date.parse(`${from.slice(0, 10)}T00:00:00Z`)) / 86400000);
+}
+
+function median(numbers: number[]): number {
+  if (numbers.length === 0) return 0;
+  const sorted = [...numbers].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+/**
+ * Service month (YYYY-MM-01) named in the description, e.g. "ZA PAŹDZIERNIK 2025" or
+ * "GOOGLE WORKSPACE SIERPIEŃ"; falls back to the booking month
+ */
+export function inferServiceMonth(description: string, bookingDate: string): string {
+  const text = description.toLowerCase();
+  const monthWord = text.match(MONTH_WORD);
+  if (monthWord) {
+    const year = text.match(/\b(20\d{2})\b/)?.[1] ?? bookingDate.slice(0, 4);
+    return `${year}-${String(PL_MONTHS[monthWord[1]]).padStart(2, '0')}-01`;
+  }
+  return `${bookingDate.slice(0, 7)}-01`;
+}
+
+/**
+ * Normalise vendor key (make SQSP stable despite WEBSIT# numbers)
+ */
+export function normaliseVendorKey(rawDesc: string): string {
+  const s = rawDesc
+    .toUpperCase()
+    .replace(/\s+/g, ' ')
+    .replace(/[#*]/g, ' ')
+    .replace(/\bWEBSIT\s*\d+\b/g, ' ')
+    .replace(/\bGCPLD\d+\b/g, ' GCPLD ')
+    .replace(/\bZAKUP PRZY UŻYCIU KARTY\b.*$/g, ' ')
+    .replace(/\bPRZELEW\b.*$/g, ' ')
+    .trim();
+
+  // Take a strong prefix as signature
+  return s.slice(0, 48).trim().replace(/\s+/g, '_').toLowerCase();
+}
+
+function toCadence(value: string | null | undefined): Cadence | null {
+  return CADENCES.includes(value as Cadence) ? (value as Cadence) : null;
+}
+
+/**
+ * Closest cadence for a typical interval between charges
+ */
+export function cadenceFromInterval(days: number): Cadence {
+  if (days <= 10) return 'weekly';
+  if (days <= 60) return 'monthly';
+  if (days <= 180) return 'quarterly';
+  return 'yearly';
+}
+
+/**
+ * Stage 1: organisation rules (first matching rule wins; rules sharing a vendor key add up)
+ */
+export function rulesStage(rules: SubscriptionRule[]): DetectionStage {
+  const compiled = rules
+    .filter(rule => rule.is_enabled)
+    .map(rule => {
+      try {
+        return { rule, regex: new RegExp(rule.match_regex) };
+      } catch {
+        console.warn('[subscriptions] Invalid regex in rule:', rule.id, rule.match_regex);
+        return null;
+      }
+    })
+    .filter((entry): entry is { rule: SubscriptionRule; regex: RegExp } => entry !== null);
+
+  return {
+    name: 'rule',
+    minCharges: 1,
+    run(transactions) {
+      const matches = new Map<string, StageMatch>();
+      for (const tx of transactions) {
+        const text = transactionText(tx);
+        const hit = compiled.find(({ regex }) => regex.test(text));
+        if (!hit) continue;
+
+        const match = matches.get(hit.rule.vendor_key) ?? {
+          vendor_key: hit.rule.vendor_key,
+          display_name: hit.rule.display_name,
+          matched_by: `${hit.rule.display_name}: /${hit.rule.match_regex}/`,
+          cadence: toCadence(hit.rule.cadence),
+          transactions: [],
+        };
+        match.transactions.push(tx);
+        matches.set(hit.rule.vendor_key, match);
+      }
+      return Array.from(matches.values());
+    },
+  };
+}
+
+/**
+ * Stage 2: built-in vendor patterns
+ */
+export function heuristicsStage(): DetectionStage {
+  return {
+    name: 'heuristic',
+    minCharges: 1,
+    run(transactions) {
+      const matches = new Map<string, StageMatch>();
+      for (const tx of transactions) {
+        const text = transactionText(tx);
+        for (const vendor of VENDOR_MATCHERS) {
+          const pattern = vendor.patterns.find(p => p.test(text));
+          if (!pattern) continue;
+
+          const match = matches.get(vendor.vendorKey) ?? {
+            vendor_key: vendor.vendorKey,
+            display_name: vendor.displayName,
+            matched_by: pattern.source,
+            cadence: null,
+            transactions: [],
+          };
+          match.transactions.push(tx);
+          matches.set(vendor.vendorKey, match);
+          break;
+        }
+      }
+      return Array.from(matches.values());
+    },
+  };
+}
+
+/**
+ * Stage 3: same normalised description, similar amounts, regular intervals
+ */
+export function intervalStage(): DetectionStage {
+  return {
+    name: 'interval',
+    minCharges: 3,
+    run(transactions) {
+      const groups = new Map<string, PipelineTransaction[]>();
+      for (const tx of transactions) {
+        const text = tx.description || tx.counterparty_name || '';
+        if (!text) continue;
+        const key = normaliseVendorKey(text);
+        if (!key) continue;
+        groups.set(key, [...(groups.get(key) ?? []), tx]);
+      }
+
+      const matches: StageMatch[] = [];
+      for (const [key, txs] of groups.entries()) {
+        if (txs.length < 3) continue;
+
+        // 5% or 5 units, whichever is larger
+        const amounts = txs.map(tx => Math.abs(tx.amount));
+        const avg = amounts.reduce((a, b) => a + b, 0) / amounts.length;
+        const tolerance = Math.max(5, avg * 0.05);
+        if (!amounts.every(amount => Math.abs(amount - avg) <= tolerance)) continue;
+
+        const first = txs[0];
+        matches.push({
+          vendor_key: key,
+          display_name: first.counterparty_name || (first.description || key).slice(0, 50),
+          matched_by: null,
+          cadence: null,
+          transactions: txs,
+        });
+      }
+      return matches;
+    },
+  };
+}
+
+export function defaultStages(rules: SubscriptionRule[]): DetectionStage[] {
+  return [rulesStage(rules), heuristicsStage(), intervalStage()];
+}
+
+function intervalStats(dates: string[], cadence: Cadence): IntervalStats | null {
+  const intervals: number[] = [];
+  for (let i = 1; i < dates.length; i++) {
+    const days = daysBetween(dates[i - 1], dates[i]);
+    if (days > 0) intervals.push(days);
+  }
+  if (intervals.length === 0) return null;
+
+  const { nominal, slack } = CADENCE_DAYS[cadence];
+  // Months are 28-31 days long, so the monthly window is widened on the short side
+  const low = cadence === 'monthly' ? 28 : nominal - slack;
+  const high = nominal + slack;
+  const regular = intervals.filter(days => days >= low && days <= high).length;
+
+  return {
+    median_days: median(intervals),
+    min_days: Math.min(...intervals),
+    max_days: Math.max(...intervals),
+    regular_ratio: round2(regular / intervals.length),
+  };
+}
+
+function amountStats(amounts: number[]): AmountStats {
+  const avg = amounts.reduce((a, b) => a + b, 0) / amounts.length;
+  const stddev = Math.sqrt(amounts.reduce((sum, a) => sum + (a - avg) ** 2, 0) / amounts.length);
+  return {
+    avg: round2(avg),
+    min: round2(Math.min(...amounts)),
+    max: round2(Math.max(...amounts)),
+    stddev: round2(stddev),
+    variance_pct: avg > 0 ? round2((stddev / avg) * 100) : 0,
+  };
+}
+
+/**
+ * Weekly charges show up between individual transactions; anything slower is judged on
+ * charges merged per service month, so a bill paid in two transfers does not look weekly
+ */
+function inferCadence(transactionDates: string[], monthlyDates: string[]): Cadence {
+  const weekly = intervalStats(transactionDates, 'weekly');
+  if (weekly && weekly.median_days <= 10 && weekly.regular_ratio >= 0.7) return 'weekly';
+
+  const merged = intervalStats(monthlyDates, 'monthly');
+  return merged ? cadenceFromInterval(merged.median_days) : 'monthly';
+}
+
+/**
+ * Turn a stage match (one currency) into a subscription with evidence, or null when the
+ * evidence is not strong enough for the stage
+ */
+function evaluateMatch(
+  stage: DetectionStage,
+  match: StageMatch,
+  currency: string,
+  asOf: string
+): DetectedSubscription | null {
+  const txs = [...match.transactions].sort((a, b) => a.booking_date.localeCompare(b.booking_date));
+  const serviceMonths = txs.map(tx => inferServiceMonth(transactionText(tx), tx.booking_date));
+
+  // Charges: payments for the same service month count once (rent paid in two transfers)
+  const byMonth = new Map<string, { date: string; amount: number }>();
+  txs.forEach((tx, i) => {
+    const charge = byMonth.get(serviceMonths[i]);
+    byMonth.set(serviceMonths[i], {
+      date: charge ? charge.date : tx.booking_date,
+      amount: (charge?.amount ?? 0) + Math.abs(tx.amount),
+    });
+  });
+
+  const monthlyCharges = Array.from(byMonth.values()).sort((a, b) => a.date.localeCompare(b.date));
+  const rawCharges = txs.map(tx => ({ date: tx.booking_date, amount: Math.abs(tx.amount) }));
+  const cadence = match.cadence ?? inferCadence(rawCharges.map(c => c.date), monthlyCharges.map(c => c.date));
+  const charges = cadence === 'monthly' ? monthlyCharges : rawCharges;
+  if (charges.length < stage.minCharges) return null;
+
+  const interval = intervalStats(charges.map(c => c.date), cadence);
+  const amount = amountStats(charges.map(c => c.amount));
+
+  let confidence: number;
+  if (stage.name === 'rule') {
+    confidence = 90;
+  } else if (stage.name === 'heuristic') {
+    confidence = 80 + (txs.length >= 3 ? 5 : 0) + (byMonth.size >= 2 ? 5 : 0);
+  } else {
+    // Interval analysis needs mostly regular gaps to count at all
+    if (!interval || interval.regular_ratio < 0.7 || charges.length < 3) return null;
+    confidence = Math.min(95, 50 + interval.regular_ratio * 45);
+  }
+
+  const lastCharge = charges[charges.length - 1];
+  const recentAmounts = charges.slice(-3).map(c => c.amount);
+
+  return {
+    vendor_key: match.vendor_key,
+    display_name: match.display_name,
+    cadence,
+    currency,
+    avg_amount: round2(recentAmounts.length >= 3 ? median(recentAmounts) : amount.avg),
+    amount_tolerance: round2(Math.max(5, amount.avg * 0.05)),
+    last_charge_date: lastCharge.date,
+    next_expected_date: nthChargeDate(lastCharge.date, cadence, 1),
+    first_seen_date: charges[0].date,
+    active: daysBetween(lastCharge.date, asOf) <= CADENCE_DAYS[cadence].activeFor,
+    confidence: round2(confidence),
+    source: stage.name,
+    evidence: {
+      stage: stage.name,
+      matched_by: match.matched_by,
+      transaction_ids: txs.map(tx => tx.id),
+      charge_count: charges.length,
+      interval,
+      amount,
+      service_months: Array.from(new Set(serviceMonths)).sort(),
+    },
+    transactions: txs.map((tx, i) => ({
+      id: tx.id,
+      booking_date: tx.booking_date,
+      amount: Math.abs(tx.amount),
+      service_period_month: serviceMonths[i],
+    })),
+  };
+}
+
+/**
+ * Run the stages in order over outgoing transactions
+ */
+export function runDetectionPipeline(
+  transactions: PipelineTransaction[],
+  stages: DetectionStage[],
+  asOf: string = new Date().toISOString().slice(0, 10)
+): DetectedSubscription[] {
+  const detected: DetectedSubscription[] = [];
+  let remaining = transactions;
+
+  for (const stage of stages) {
+    const claimed = new Set<string>();
+
+    for (const match of stage.run(remaining)) {
+      // One subscription per currency, matching the (vendor_key, cadence, currency) key
+      const byCurrency = new Map<string, PipelineTransaction[]>();
+      match.transactions.forEach(tx => {
+        const currency = (tx.currency || 'PLN').toUpperCase();
+        byCurrency.set(currency, [...(byCurrency.get(currency) ?? []), tx]);
+      });
+
+      for (const [currency, txs] of byCurrency.entries()) {
+        const subscription = evaluateMatch(stage, { ...match, transactions: txs }, currency, asOf);
+        if (!subscription) continue;
+        detected.push(subscription);
+        txs.forEach(tx => claimed.add(tx.id));
+      }
+    }
+
+    remaining = remaining.filter(tx => !claimed.has(tx.id));
+  }
+
+  return detected;
+}
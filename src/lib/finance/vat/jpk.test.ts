@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { buildJpkDeclaration } from './jpk';
+import { buildVatRegister } from './register';
+import type { JpkFields, VatInvoice, VatRegister } from './register';
+
+const invoice = (id: string, overrides: Partial<VatInvoice>): VatInvoice => ({
+  id,
+  name: id,
+  invoice_type: 'revenue',
+  invoice_number: id,
+  invoice_date: '2026-03-10',
+  amount_original: null,
+  currency: 'PLN',
+  fx_rate: null,
+  amount_net: 0,
+  vat_rate: '23',
+  vat_amount: 0,
+  counterparty_nip: '5260250274',
+  counterparty_name: id,
+  ...overrides,
+});
+
+const registerWith = (fields: JpkFields): VatRegister => ({
+  year: 2026,
+  month: 3,
+  sales: [],
+  purchases: [],
+  totals: { fields, sales_net: 0, output_vat: 0, purchases_net: 0, input_vat: 0 },
+  issues: [],
+});
+
+describe('buildJpkDeclaration', () => {
+  const register = buildVatRegister(
+    [
+      invoice('sale-23', { amount_net: 1000, vat_amount: 230 }),
+      invoice('sale-8', { amount_net: 100, vat_rate: '8', vat_amount: 8 }),
+      invoice('sale-zw', { amount_net: 50, vat_rate: 'zw' }),
+      invoice('import', { invoice_type: 'cost', amount_net: 200, vat_rate: 'oo', counterparty_nip: 'DE123456789' }),
+      invoice('domestic-oo', { invoice_type: 'cost', amount_net: 300, vat_rate: 'oo', counterparty_nip: '1234563218' }),
+      invoice('purchase', { invoice_type: 'cost', amount_net: 400, vat_amount: 92, counterparty_nip: '1234563218' }),
+    ],
+    2026,
+    3
+  );
+  const { positions, payable, carryForward } = buildJpkDeclaration(register);
+
+  it('carries each K_ total into the matching P_ position', () => {
+    expect(positions).toMatchObject({
+      P_10: 50,
+      P_17: 100,
+      P_18: 8,
+      P_19: 1000,
+      P_20: 230,
+      P_29: 200,
+      P_30: 46,
+      P_31: 300,
+      P_32: 69,
+      P_42: 900,
+      P_43: 207,
+    });
+    expect(positions.P_34).toBeUndefined();
+    expect(positions.P_35).toBeUndefined();
+  });
+
+  it('sums the tax bases into P_37 and the output VAT into P_38', () => {
+    // P_37 = P_10 + P_11 + P_13 + P_15 + P_17 + P_19 + P_21 + P_22 + P_23 + P_25 + P_27 + P_29 + P_31
+    expect(positions.P_37).toBe(50 + 100 + 1000 + 200 + 300);
+    // P_38 = P_16 + P_18 + P_20 + P_24 + P_26 + P_28 + P_30 + P_32 + P_33 + P_34 - P_35 - P_36
+    expect(positions.P_38).toBe(8 + 230 + 46 + 69);
+  });
+
+  it('settles P_38 against the deductible P_48', () => {
+    expect(positions.P_48).toBe(207);
+    expect(payable).toBe(353 - 207);
+    expect(positions.P_51).toBe(146);
+    expect(carryForward).toBe(0);
+  });
+
+  it('counts P_34 as tax, not as a base, and subtracts P_35 and P_36', () => {
+    const declaration = buildJpkDeclaration(
+      registerWith({ K_19: 100, K_20: 23, K_33: 10, K_34: 5, K_35: 7, K_36: 3 })
+    );
+    expect(declaration.positions.P_37).toBe(100);
+    expect(declaration.positions.P_38).toBe(23 + 10 + 5 - 7 - 3);
+  });
+
+  it('carries the excess of input VAT forward', () => {
+    const declaration = buildJpkDeclaration(registerWith({ K_19: 100, K_20: 23, K_42: 1000, K_43: 230 }), 40);
+    expect(declaration.positions).toMatchObject({ P_39: 40, P_48: 270, P_51: 0, P_53: 247, P_62: 247 });
+    expect(declaration.carryForward).toBe(247);
+  });
+});
@@ -0,0 +1,197 @@
+/**
+ * JPK_V7M (2) file: the monthly VAT declaration (VAT-7 (22)) together with the purchase/sales
+ * register, following the structure of the official schema (wersjaSchemy 1-0E).
+ */
+
+import { isValidNip, parseTaxId } from './nip';
+import type { JpkFields, VatRegister, VatRegisterRow } from './register';
+
+const JPK_NAMESPACE = 'http://crd.gov.pl/wzor/2021/12/27/11148/';
+const ETD_NAMESPACE = 'http://crd.gov.pl/xml/schematy/dziedzinowe/mf/2021/06/08/eD/DefinicjeTypy/';
+
+const SALES_COLUMNS = ['K_10', 'K_11', 'K_13', 'K_15', 'K_16', 'K_17', 'K_18', 'K_19', 'K_20', 'K_27', 'K_28', 'K_29', 'K_30', 'K_31', 'K_32'];
+
+// Sales part of the declaration: P_10 to P_36 carry the totals of the matching K_* columns
+const DECLARATION_COLUMNS = Array.from({ length: 27 }, (_, i) => `K_${i + 10}`);
+
+// VAT-7 (22): P_37 sums the tax bases, P_38 the output VAT less P_35 and P_36
+const P_37_TERMS = ['P_10', 'P_11', 'P_13', 'P_15', 'P_17', 'P_19', 'P_21', 'P_22', 'P_23', 'P_25', 'P_27', 'P_29', 'P_31'];
+const P_38_TERMS = ['P_16', 'P_18', 'P_20', 'P_24', 'P_26', 'P_28', 'P_30', 'P_32', 'P_33', 'P_34'];
+const P_38_DEDUCTIONS = ['P_35', 'P_36'];
+const PURCHASE_COLUMNS = ['K_42', 'K_43'];
+
+export interface JpkTaxpayer {
+  nip: string;
+  fullName: string;
+  email: string;
+  /** Four-digit tax office code (KodUrzedu) */
+  taxOfficeCode: string;
+}
+
+export interface JpkOptions {
+  /** Excess input VAT carried over from the previous month (P_39), whole PLN */
+  carriedForward?: number;
+  /** 1 = filing, 2 = correction */
+  purpose?: 1 | 2;
+  createdAt?: Date;
+  systemName?: string;
+}
+
+/**
+ * Declaration positions (P_*) in whole PLN, derived from the register totals
+ */
+export interface JpkDeclaration {
+  positions: Record<string, number>;
+  /** VAT to pay (P_51) */
+  payable: number;
+  /** Excess carried forward to the next month (P_62) */
+  carryForward: number;
+}
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+const wholePln = (value: number) => Math.round(value);
+
+/**
+ * Missing or invalid taxpayer data that would make the file unacceptable
+ */
+export function validateJpkTaxpayer(taxpayer: Partial<JpkTaxpayer>): string[] {
+  const errors: string[] = [];
+  if (!taxpayer.nip || !isValidNip(taxpayer.nip)) errors.push('NIP podatnika jest nieprawidłowy');
+  if (!taxpayer.fullName?.trim()) errors.push('Brak pełnej nazwy podatnika');
+  if (!taxpayer.email || !/^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(taxpayer.email)) errors.push('Brak prawidłowego adresu e-mail');
+  if (!taxpayer.taxOfficeCode || !/^\d{4}$/.test(taxpayer.taxOfficeCode)) errors.push('Kod urzędu skarbowego musi mieć 4 cyfry');
+  return errors;
+}
+
+/**
+ * VAT-7 positions for the register: tax bases and output VAT mirror the K_* columns,
+ * P_48 is the deductible total including the carried-over excess
+ */
+export function buildJpkDeclaration(register: VatRegister, carriedForward = 0): JpkDeclaration {
+  const fields = register.totals.fields;
+  const positions: Record<string, number> = {};
+
+  for (const column of DECLARATION_COLUMNS) {
+    if (fields[column]) positions[column.replace('K_', 'P_')] = wholePln(fields[column]!);
+  }
+
+  const p = (key: string) => positions[key] ?? 0;
+  const sum = (keys: string[]) => keys.reduce((total, key) => total + p(key), 0);
+  positions.P_37 = sum(P_37_TERMS);
+  positions.P_38 = sum(P_38_TERMS) - sum(P_38_DEDUCTIONS);
+
+  if (carriedForward > 0) positions.P_39 = wholePln(carriedForward);
+  if (fields.K_42) positions.P_42 = wholePln(fields.K_42);
+  if (fields.K_43) positions.P_43 = wholePln(fields.K_43);
+  positions.P_48 = p('P_39') + p('P_43');
+
+  const payable = Math.max(0, positions.P_38 - positions.P_48);
+  const excess = Math.max(0, positions.P_48 - positions.P_38);
+  positions.P_51 = payable;
+  if (excess > 0) {
+    positions.P_53 = excess;
+    positions.P_62 = excess;
+  }
+
+  return { positions, payable, carryForward: excess };
+}
+
+function amountElements(fields: JpkFields, columns: string[]): string {
+  return columns
+    .filter(column => fields[column] !== undefined)
+    .map(column => `<${column}>${fields[column]!.toFixed(2)}</${column}>`)
+    .join('');
+}
+
+function counterpartyElements(row: VatRegisterRow, numberTag: string, nameTag: string): string {
+  const country = row.counterparty_country && row.counterparty_country !== 'PL'
+    ? `<KodKrajuNadaniaTIN>${row.counterparty_country}</KodKrajuNadaniaTIN>`
+    : '';
+  return `${country}<${numberTag}>${escapeXml(row.counterparty_nip || 'BRAK')}</${numberTag}>` +
+    `<${nameTag}>${escapeXml(row.counterparty_name)}</${nameTag}>`;
+}
+
+/**
+ * Serialise the register and declaration as a JPK_V7M (2) XML document
+ */
+export function buildJpkV7mXml(register: VatRegister, taxpayer: JpkTaxpayer, options: JpkOptions = {}): string {
+  const declaration = buildJpkDeclaration(register, options.carriedForward);
+  const createdAt = (options.createdAt ?? new Date()).toISOString().replace(/\.\d{3}Z$/, 'Z');
+  const { number: nip } = parseTaxId(taxpayer.nip);
+
+  const positions = Object.entries(declaration.positions)
+    .sort(([a], [b]) => Number(a.slice(2)) - Number(b.slice(2)))
+    .map(([key, value]) => `<${key}>${value}</${key}>`)
+    .join('\n      ');
+
+  const salesRows = register.sales.map(row =>
+    `<SprzedazWiersz><LpSprzedazy>${row.lp}</LpSprzedazy>` +
+    counterpartyElements(row, 'NrKontrahenta', 'NazwaKontrahenta') +
+    `<DowodSprzedazy>${escapeXml(row.invoice_number)}</DowodSprzedazy>` +
+    `<DataWystawienia>${row.invoice_date}</DataWystawienia>` +
+    amountElements(row.fields, SALES_COLUMNS) +
+    '</SprzedazWiersz>'
+  );
+
+  const purchaseRows = register.purchases.map(row =>
+    `<ZakupWiersz><LpZakupu>${row.lp}</LpZakupu>` +
+    counterpartyElements(row, 'NrDostawcy', 'NazwaDostawcy') +
+    `<DowodZakupu>${escapeXml(row.invoice_number)}</DowodZakupu>` +
+    `<DataZakupu>${row.invoice_date}</DataZakupu>` +
+    amountElements(row.fields, PURCHASE_COLUMNS) +
+    '</ZakupWiersz>'
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<JPK xmlns="${JPK_NAMESPACE}" xmlns:etd="${ETD_NAMESPACE}">`,
+    '  <Naglowek>',
+    '    <KodFormularza kodSystemowy="JPK_V7M (2)" wersjaSchemy="1-0E">JPK_VAT</KodFormularza>',
+    '    <WariantFormularza>2</WariantFormularza>',
+    `    <DataWytworzeniaJPK>${createdAt}</DataWytworzeniaJPK>`,
+    `    <NazwaSystemu>${escapeXml(options.systemName ?? 'mb-cockpit')}</NazwaSystemu>`,
+    `    <CelZlozenia poz="P_7">${options.purpose ?? 1}</CelZlozenia>`,
+    `    <KodUrzedu>${taxpayer.taxOfficeCode}</KodUrzedu>`,
+    `    <Rok>${register.year}</Rok>`,
+    `    <Miesiac>${register.month}</Miesiac>`,
+    '  </Naglowek>',
+    '  <Podmiot1 rola="Podatnik">',
+    '    <OsobaNiefizyczna>',
+    `      <NIP>${nip}</NIP>`,
+    `      <PelnaNazwa>${escapeXml(taxpayer.fullName.trim())}</PelnaNazwa>`,
+    `      <Email>${escapeXml(taxpayer.email.trim())}</Email>`,
+    '    </OsobaNiefizyczna>',
+    '  </Podmiot1>',
+    '  <Deklaracja>',
+    '    <Naglowek>',
+    '      <KodFormularzaDekl kodSystemowy="VAT-7 (22)" kodPodatku="VAT" rodzajZobowiazania="Z" wersjaSchemy="1-0E">VAT-7</KodFormularzaDekl>',
+    '      <WariantFormularzaDekl>22</WariantFormularzaDekl>',
+    '    </Naglowek>',
+    '    <PozycjeSzczegolowe>',
+    `      ${positions}`,
+    '    </PozycjeSzczegolowe>',
+    '    <Pouczenia>1</Pouczenia>',
+    '  </Deklaracja>',
+    '  <Ewidencja>',
+    ...salesRows.map(row => `    ${row}`),
+    '    <SprzedazCtrl>',
+    `      <LiczbaWierszySprzedazy>${register.sales.length}</LiczbaWierszySprzedazy>`,
+    `      <PodatekNalezny>${register.totals.output_vat.toFixed(2)}</PodatekNalezny>`,
+    '    </SprzedazCtrl>',
+    ...purchaseRows.map(row => `    ${row}`),
+    '    <ZakupCtrl>',
+    `      <LiczbaWierszyZakupow>${register.purchases.length}</LiczbaWierszyZakupow>`,
+    `      <PodatekNaliczony>${register.totals.input_vat.toFixed(2)}</PodatekNaliczony>`,
+    '    </ZakupCtrl>',
+    '  </Ewidencja>',
+    '</JPK>',
+    '',
+  ].join('\n');
+}
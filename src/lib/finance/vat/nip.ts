@@ -0,0 +1,48 @@
+/**
+ * Polish tax identification numbers (NIP)
+ */
+
+const NIP_WEIGHTS = [6, 5, 7, 2, 3, 4, 5, 6, 7];
+
+export interface ParsedTaxId {
+  /** ISO country code; PL for bare 10-digit numbers */
+  country: string;
+  /** Number without country prefix, spaces or dashes */
+  number: string;
+}
+
+/**
+ * Split a tax id into country prefix and number: "PL 525-000-12-34" -> PL / 5250001234,
+ * "DE123456789" -> DE / 123456789
+ */
+export function parseTaxId(raw: string): ParsedTaxId {
+  const compact = raw.replace(/[\s-]/g, '').toUpperCase();
+  const prefixed = compact.match(/^([A-Z]{2})(.+)$/);
+  if (prefixed) return { country: prefixed[1], number: prefixed[2] };
+  return { country: 'PL', number: compact };
+}
+
+/**
+ * Checksum test of a Polish NIP: the weighted sum of the first nine digits mod 11 equals the
+ * last digit (a remainder of 10 is never issued)
+ */
+export function isValidNip(raw: string): boolean {
+  const { country, number } = parseTaxId(raw);
+  if (country !== 'PL' || !/^\d{10}$/.test(number)) return false;
+
+  const digits = number.split('').map(Number);
+  const checksum = NIP_WEIGHTS.reduce((sum, weight, i) => sum + weight * digits[i], 0) % 11;
+  return checksum !== 10 && checksum === digits[9];
+}
+
+/**
+ * Validate a counterparty tax id: Polish numbers must pass the checksum, foreign ids only need
+ * a country prefix and some digits or letters
+ */
+export function validateTaxId(raw: string): string | null {
+  const { country, number } = parseTaxId(raw);
+  if (country === 'PL') {
+    return isValidNip(raw) ? null : 'Invalid NIP (10 digits with a valid checksum expected)';
+  }
+  return /^[A-Z0-9]{2,20}$/.test(number) ? null : `Invalid ${country} tax id`;
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { buildVatRegister } from './register';
+import type { VatInvoice, VatRate } from './register';
+
+const BUYER_NIP = '5260250274';
+const SUPPLIER_NIP = '1234563218';
+
+const invoice = (overrides: Partial<VatInvoice>): VatInvoice => ({
+  id: 'doc-1',
+  name: 'Faktura',
+  invoice_type: 'revenue',
+  invoice_number: 'FV/1/2026',
+  invoice_date: '2026-03-10',
+  amount_original: null,
+  currency: 'PLN',
+  fx_rate: null,
+  amount_net: 1000,
+  vat_rate: '23',
+  vat_amount: 230,
+  counterparty_nip: BUYER_NIP,
+  counterparty_name: 'Kontrahent',
+  ...overrides,
+});
+
+describe('sales columns', () => {
+  it.each<[VatRate, number, Record<string, number>]>([
+    ['23', 230, { K_19: 1000, K_20: 230 }],
+    ['8', 80, { K_17: 1000, K_18: 80 }],
+    ['5', 50, { K_15: 1000, K_16: 50 }],
+    ['0', 0, { K_13: 1000 }],
+    ['zw', 0, { K_10: 1000 }],
+    ['np', 0, { K_11: 1000 }],
+  ])('reports a %s sale in its own K_ columns', (rate, vat, fields) => {
+    const register = buildVatRegister([invoice({ vat_rate: rate, vat_amount: vat })], 2026, 3);
+    expect(register.sales).toHaveLength(1);
+    expect(register.sales[0].fields).toEqual(fields);
+    expect(register.purchases).toEqual([]);
+  });
+
+  it('rejects a reverse-charge sale, which has no column in JPK_V7M', () => {
+    const register = buildVatRegister([invoice({ vat_rate: 'oo', vat_amount: 0 })], 2026, 3);
+    expect(register.sales).toEqual([]);
+    expect(register.issues).toMatchObject([{ document_id: 'doc-1', severity: 'error' }]);
+  });
+});
+
+describe('purchase columns', () => {
+  const purchase = (overrides: Partial<VatInvoice>) =>
+    invoice({ invoice_type: 'cost', counterparty_nip: SUPPLIER_NIP, ...overrides });
+
+  it('reports deductible VAT in K_42 / K_43 only', () => {
+    const register = buildVatRegister([purchase({})], 2026, 3);
+    expect(register.sales).toEqual([]);
+    expect(register.purchases[0].fields).toEqual({ K_42: 1000, K_43: 230 });
+  });
+
+  it('self-assesses an import of services in K_29 / K_30 and deducts it', () => {
+    const register = buildVatRegister(
+      [purchase({ vat_rate: 'oo', vat_amount: 0, counterparty_nip: 'DE123456789' })],
+      2026,
+      3
+    );
+    expect(register.sales[0].fields).toEqual({ K_29: 1000, K_30: 230 });
+    expect(register.purchases[0].fields).toEqual({ K_42: 1000, K_43: 230 });
+  });
+
+  it('self-assesses a domestic reverse-charge purchase in K_31 / K_32 and deducts it', () => {
+    const register = buildVatRegister([purchase({ vat_rate: 'oo', vat_amount: 0 })], 2026, 3);
+    expect(register.sales[0].fields).toEqual({ K_31: 1000, K_32: 230 });
+    expect(register.purchases[0].fields).toEqual({ K_42: 1000, K_43: 230 });
+    expect(register.totals).toMatchObject({ sales_net: 1000, output_vat: 230, purchases_net: 1000, input_vat: 230 });
+  });
+
+  it('leaves purchases without deductible VAT out of the register', () => {
+    const register = buildVatRegister([purchase({ vat_rate: 'zw', vat_amount: 0 })], 2026, 3);
+    expect(register.purchases).toEqual([]);
+    expect(register.issues).toMatchObject([{ severity: 'warning' }]);
+  });
+});
@@ -0,0 +1,287 @@
+/**
+ * Monthly VAT purchase/sales register built from classified invoices.
+ * Pure functions, shared by the register preview, the JPK_V7M export and invoice classification.
+ */
+
+import { parseTaxId, validateTaxId } from './nip';
+
+export type VatRate = '23' | '8' | '5' | '0' | 'zw' | 'np' | 'oo';
+
+export const VAT_RATES: VatRate[] = ['23', '8', '5', '0', 'zw', 'np', 'oo'];
+
+export const VAT_RATE_LABELS: Record<VatRate, string> = {
+  '23': '23%',
+  '8': '8%',
+  '5': '5%',
+  '0': '0%',
+  zw: 'zw.',
+  np: 'np.',
+  oo: 'odwrotne obciążenie',
+};
+
+const PERCENT_RATES: Partial<Record<VatRate, number>> = { '23': 0.23, '8': 0.08, '5': 0.05, '0': 0 };
+
+// Reverse-charge purchases are self-assessed at the standard rate
+const REVERSE_CHARGE_RATE = 0.23;
+
+// Columns holding VAT (output or input) rather than a tax base
+const VAT_COLUMNS = ['K_16', 'K_18', 'K_20', 'K_28', 'K_30', 'K_32', 'K_43'];
+
+// Per-invoice rounding tolerance between net, VAT and gross
+const AMOUNT_TOLERANCE = 0.02;
+
+export interface VatInvoice {
+  id: string;
+  name: string;
+  invoice_type: 'cost' | 'revenue';
+  invoice_number: string | null;
+  invoice_date: string | null;
+  amount_original: number | null;
+  currency: string | null;
+  fx_rate: number | null;
+  amount_net: number | null;
+  vat_rate: VatRate | null;
+  vat_amount: number | null;
+  counterparty_nip: string | null;
+  counterparty_name: string | null;
+}
+
+/** JPK_V7M register columns (K_*) with amounts in PLN */
+export type JpkFields = Partial<Record<string, number>>;
+
+export interface VatRegisterRow {
+  document_id: string;
+  /** Position in the register (LpSprzedazy / LpZakupu) */
+  lp: number;
+  invoice_number: string;
+  invoice_date: string;
+  /** Country of the counterparty tax id; null when the buyer has none (consumer sale) */
+  counterparty_country: string | null;
+  counterparty_nip: string | null;
+  counterparty_name: string;
+  vat_rate: VatRate;
+  net_pln: number;
+  /** VAT of the row as declared, including self-assessed reverse-charge VAT */
+  vat_pln: number;
+  currency: string;
+  fields: JpkFields;
+}
+
+export interface VatRegisterIssue {
+  document_id: string;
+  name: string;
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+export interface VatRegisterTotals {
+  /** Sum of each K_* column over the register */
+  fields: JpkFields;
+  sales_net: number;
+  output_vat: number;
+  purchases_net: number;
+  input_vat: number;
+}
+
+export interface VatRegister {
+  year: number;
+  month: number;
+  sales: VatRegisterRow[];
+  purchases: VatRegisterRow[];
+  totals: VatRegisterTotals;
+  /** Invoices with errors are left out of the register until fixed */
+  issues: VatRegisterIssue[];
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Check the VAT fields of one invoice; amounts in the invoice currency.
+ * `gross` is the invoice total when known.
+ */
+export function validateVatFields(input: {
+  amount_net?: number | null;
+  vat_rate?: string | null;
+  vat_amount?: number | null;
+  counterparty_nip?: string | null;
+  gross?: number | null;
+}): string | null {
+  if (input.vat_rate == null || !VAT_RATES.includes(input.vat_rate as VatRate)) {
+    return `Invalid vat_rate. Must be one of: ${VAT_RATES.join(', ')}`;
+  }
+  if (input.amount_net == null || !Number.isFinite(input.amount_net)) return 'Net amount is required';
+  if (input.vat_amount == null || !Number.isFinite(input.vat_amount)) return 'VAT amount is required';
+
+  const percent = PERCENT_RATES[input.vat_rate as VatRate];
+  if (percent !== undefined && Math.abs(input.amount_net * percent - input.vat_amount) > Math.max(AMOUNT_TOLERANCE, Math.abs(input.amount_net) * 0.0005)) {
+    return `VAT amount ${input.vat_amount} does not match ${input.vat_rate}% of ${input.amount_net}`;
+  }
+  if (percent === undefined && input.vat_amount !== 0) {
+    return `VAT amount must be 0 for rate "${input.vat_rate}"`;
+  }
+  if (input.gross != null && Math.abs(input.amount_net + input.vat_amount - input.gross) > AMOUNT_TOLERANCE) {
+    return `Net ${input.amount_net} + VAT ${input.vat_amount} does not add up to the invoice total ${input.gross}`;
+  }
+  if (input.counterparty_nip) {
+    return validateTaxId(input.counterparty_nip);
+  }
+  return null;
+}
+
+/**
+ * Register columns for a sale: tax base and output VAT per rate. JPK_V7M has no column for a
+ * seller-side reverse charge, so 'oo' sales never get here.
+ */
+function salesFields(rate: Exclude<VatRate, 'oo'>, net: number, vat: number): JpkFields {
+  switch (rate) {
+    case '23': return { K_19: net, K_20: vat };
+    case '8': return { K_17: net, K_18: vat };
+    case '5': return { K_15: net, K_16: vat };
+    case '0': return { K_13: net };
+    case 'zw': return { K_10: net };
+    case 'np': return { K_11: net };
+  }
+}
+
+/**
+ * Register columns for a purchase. Reverse-charge purchases are self-assessed: the VAT is due
+ * (import of services from abroad under art. 28b in K_29/K_30, a domestic purchase under
+ * art. 17 ust. 1 pkt 5 in K_31/K_32) and deducted in the same month.
+ */
+function purchaseFields(rate: VatRate, net: number, vat: number, country: string | null): { sales?: JpkFields; purchase: JpkFields } {
+  if (rate === 'oo') {
+    const selfAssessed = round2(net * REVERSE_CHARGE_RATE);
+    return {
+      sales: country && country !== 'PL' ? { K_29: net, K_30: selfAssessed } : { K_31: net, K_32: selfAssessed },
+      purchase: { K_42: net, K_43: selfAssessed },
+    };
+  }
+  return { purchase: { K_42: net, K_43: vat } };
+}
+
+function addFields(target: JpkFields, fields: JpkFields) {
+  for (const [key, value] of Object.entries(fields)) {
+    target[key] = round2((target[key] ?? 0) + (value ?? 0));
+  }
+}
+
+/**
+ * Build the register for one month from the invoices dated in it. Foreign-currency amounts are
+ * converted with the invoice's NBP rate; purchases without deductible VAT (0%, zw, np) are not
+ * part of the purchase register.
+ */
+export function buildVatRegister(invoices: VatInvoice[], year: number, month: number): VatRegister {
+  const sales: VatRegisterRow[] = [];
+  const purchases: VatRegisterRow[] = [];
+  const issues: VatRegisterIssue[] = [];
+  const fieldTotals: JpkFields = {};
+
+  const sorted = [...invoices].sort(
+    (a, b) => (a.invoice_date || '').localeCompare(b.invoice_date || '') || a.id.localeCompare(b.id)
+  );
+
+  for (const invoice of sorted) {
+    const issue = (severity: VatRegisterIssue['severity'], message: string) =>
+      issues.push({ document_id: invoice.id, name: invoice.name, severity, message });
+
+    if (invoice.amount_net == null || invoice.vat_rate == null || invoice.vat_amount == null) {
+      issue('error', 'Brak kwoty netto, stawki lub kwoty VAT');
+      continue;
+    }
+    if (!invoice.invoice_number?.trim()) {
+      issue('error', 'Brak numeru faktury');
+      continue;
+    }
+    if (!invoice.invoice_date) {
+      issue('error', 'Brak daty wystawienia');
+      continue;
+    }
+
+    const currency = (invoice.currency || 'PLN').toUpperCase();
+    const fxRate = currency === 'PLN' ? 1 : invoice.fx_rate;
+    if (!fxRate) {
+      issue('error', `Brak kursu NBP dla ${currency}`);
+      continue;
+    }
+
+    const nip = invoice.counterparty_nip?.trim() || null;
+    if (nip) {
+      const nipError = validateTaxId(nip);
+      if (nipError) {
+        issue('error', `NIP kontrahenta: ${nipError}`);
+        continue;
+      }
+    } else if (invoice.invoice_type === 'cost') {
+      issue('error', 'Brak NIP sprzedawcy');
+      continue;
+    }
+
+    const fieldsError = validateVatFields({
+      amount_net: Number(invoice.amount_net),
+      vat_rate: invoice.vat_rate,
+      vat_amount: Number(invoice.vat_amount),
+      gross: invoice.amount_original != null ? Number(invoice.amount_original) : null,
+    });
+    if (fieldsError) issue('warning', fieldsError);
+
+    const parsed = nip ? parseTaxId(nip) : null;
+    const net = round2(Number(invoice.amount_net) * fxRate);
+    const vat = round2(Number(invoice.vat_amount) * fxRate);
+    const row = (fields: JpkFields, lp: number): VatRegisterRow => ({
+      document_id: invoice.id,
+      lp,
+      invoice_number: invoice.invoice_number!.trim(),
+      invoice_date: invoice.invoice_date!,
+      counterparty_country: parsed?.country ?? null,
+      counterparty_nip: parsed?.number ?? null,
+      counterparty_name: invoice.counterparty_name?.trim() || invoice.name,
+      vat_rate: invoice.vat_rate!,
+      net_pln: net,
+      vat_pln: round2(VAT_COLUMNS.reduce((total, column) => total + (fields[column] ?? 0), 0)),
+      currency,
+      fields,
+    });
+
+    if (invoice.invoice_type === 'revenue') {
+      if (invoice.vat_rate === 'oo') {
+        issue('error', 'Sprzedaż z odwrotnym obciążeniem nie ma pola w JPK_V7M – usługi poza krajem oznacz stawką np.');
+        continue;
+      }
+      const fields = salesFields(invoice.vat_rate, net, vat);
+      sales.push(row(fields, sales.length + 1));
+      addFields(fieldTotals, fields);
+      continue;
+    }
+
+    if (invoice.vat_rate === '0' || invoice.vat_rate === 'zw' || invoice.vat_rate === 'np') {
+      issue('warning', 'Zakup bez VAT do odliczenia – pominięty w rejestrze');
+      continue;
+    }
+
+    const { sales: selfAssessed, purchase } = purchaseFields(invoice.vat_rate, net, vat, parsed?.country ?? null);
+    if (selfAssessed) {
+      sales.push(row(selfAssessed, sales.length + 1));
+      addFields(fieldTotals, selfAssessed);
+    }
+    purchases.push(row(purchase, purchases.length + 1));
+    addFields(fieldTotals, purchase);
+  }
+
+  const sum = (rows: VatRegisterRow[], keys: string[]) =>
+    round2(rows.reduce((total, r) => total + keys.reduce((s, k) => s + (r.fields[k] ?? 0), 0), 0));
+
+  return {
+    year,
+    month,
+    sales,
+    purchases,
+    totals: {
+      fields: fieldTotals,
+      sales_net: sum(sales, ['K_10', 'K_11', 'K_13', 'K_15', 'K_17', 'K_19', 'K_27', 'K_29', 'K_31']),
+      output_vat: sum(sales, ['K_16', 'K_18', 'K_20', 'K_28', 'K_30', 'K_32']),
+      purchases_net: sum(purchases, ['K_42']),
+      input_vat: sum(purchases, ['K_43']),
+    },
+    issues,
+  };
+}
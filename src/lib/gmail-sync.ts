@@ -3,7 +3,8 @@ import { getAccessToken } from './gmail'
 import { supabase } from './supabase'
 import { getContacts } from './db/contacts'
 import { getOrganisations, createOrganisation } from './db/organisations'
-import { createDocument } from './db/documents'
+import { createDocument, type Document } from './db/documents'
+import { storeBlob, PUBLIC_BUCKET, type StoredBlob } from './fileBlobs'
 
 // Types for Gmail data
 export interface GmailMessageRow {
@@ -31,6 +32,7 @@ export interface GmailAttachmentRow {
   mime_type?: string | null
   size_bytes?: number | null
   supabase_file_path?: string | null
+  linked_document_id?: string | null // existing document with the same file
 }
 
 export interface EmailContext {
@@ -387,7 +389,7 @@ export async function importAttachmentAsDocument(
   userEmail: string,
   gmailAttachment: GmailAttachmentRow,
   gmailMessage: GmailMessageRow
-): Promise<{ document: any; error?: string }> {
+): Promise<{ document: Document | null; existing?: boolean; error?: string }> {
   try {
     // 1. Download attachment from Gmail
     const accessToken = await getAccessToken(userEmail)
@@ -421,34 +423,52 @@ export async function importAttachmentAsDocument(
     
     const buffer = Buffer.from(attachmentData, 'base64')
     
-    // 2. Upload to Supabase storage
+    // 2. Upload to Supabase storage, unless the same file is already stored (e.g. uploaded by hand
+    // or received in another e-mail)
     const fileExt = gmailAttachment.file_name?.split('.').pop() || 'bin'
     const storageFileName = `${Date.now()}-${Math.random().toString(36).substring(7)}.${fileExt}`
-    const filePath = `email-attachments/${storageFileName}`
     
-    const STORAGE_BUCKET = process.env.NEXT_PUBLIC_STORAGE_BUCKET || 'mb-cockpit'
-    
-    const { data: uploadData, error: uploadError } = await supabase.storage
-      .from(STORAGE_BUCKET)
-      .upload(filePath, buffer, {
-        contentType: gmailAttachment.mime_type || 'application/octet-stream',
-        cacheControl: '3600',
-        upsert: false
+    let stored: StoredBlob
+    try {
+      stored = await storeBlob(supabase, {
+        data: buffer,
+        bucket: PUBLIC_BUCKET,
+        path: `email-attachments/${storageFileName}`,
+        contentType: gmailAttachment.mime_type,
+        requirePublicUrl: true
       })
-    
-    if (uploadError || !uploadData) {
-      return { document: null, error: uploadError?.message || 'Failed to upload file' }
+    } catch (uploadError) {
+      return { document: null, error: uploadError instanceof Error ? uploadError.message : 'Failed to upload file' }
     }
     
-    // Get public URL
-    const { data: { publicUrl } } = supabase.storage
-      .from(STORAGE_BUCKET)
-      .getPublicUrl(filePath)
+    const filePath = stored.path
+    const publicUrl = stored.url
     
     if (!publicUrl) {
       return { document: null, error: 'Failed to get public URL' }
     }
     
+    // The file is already a document: link the attachment to it instead of creating a copy
+    if (stored.reused && stored.blob) {
+      const { data: existingDocument } = await supabase
+        .from('documents')
+        .select('*')
+        .eq('blob_id', stored.blob.id)
+        .order('created_at', { ascending: true })
+        .limit(1)
+        .maybeSingle()
+      
+      if (existingDocument) {
+        await supabase
+          .from('gmail_attachments')
+          .update({ supabase_file_path: filePath, linked_document_id: existingDocument.id })
+          .eq('user_email', userEmail)
+          .eq('gmail_attachment_id', gmailAttachment.gmail_attachment_id)
+        
+        return { document: existingDocument as Document, existing: true }
+      }
+    }
+    
     // 3. Infer contact and organisation
     const emailContext: EmailContext = {
       from_email: gmailMessage.from_email,
@@ -598,9 +618,9 @@ export async function importAttachmentAsDocument(
       .eq('gmail_attachment_id', gmailAttachment.gmail_attachment_id)
     
     return { document }
-  } catch (error: any) {
+  } catch (error) {
     console.error('Error importing attachment:', error)
-    return { document: null, error: error.message || 'Failed to import attachment' }
+    return { document: null, error: (error instanceof Error && error.message) || 'Failed to import attachment' }
   }
 }
 
@@ -134,9 +134,11 @@ export async function fetchFilesByContact(
                                mimeType === 'application/x-rar-compressed' ||
                                mimeType === 'application/x-7z-compressed';
               const isText = mimeType.startsWith('text/');
+              // KSeF e-invoices are XML files
+              const isXml = mimeType === 'application/xml' || filename.endsWith('.xml');
 
-              // Include all document types, images (except excluded), archives, and text files
-              if (isPdf || isDoc || isExcel || isPowerPoint || isImage || isArchive || isText) {
+              // Include all document types, images (except excluded), archives, text and XML files
+              if (isPdf || isDoc || isExcel || isPowerPoint || isImage || isArchive || isText || isXml) {
                 files.push({
                   id: `${messageRef.id}-${currentPartId}`,
                   emailMessageId: messageRef.id,
@@ -182,8 +184,9 @@ export async function fetchFilesByContact(
                            mimeType === 'application/x-rar-compressed' ||
                            mimeType === 'application/x-7z-compressed';
           const isText = mimeType.startsWith('text/');
+          const isXml = mimeType === 'application/xml' || filename.toLowerCase().endsWith('.xml');
           
-          if (filename && (isPdf || isDoc || isExcel || isPowerPoint || isImage || isArchive || isText)) {
+          if (filename && (isPdf || isDoc || isExcel || isPowerPoint || isImage || isArchive || isText || isXml)) {
             files.push({
               id: `${messageRef.id}-root`,
               emailMessageId: messageRef.id,
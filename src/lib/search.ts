@@ -0,0 +1,68 @@
+/**
+ * Global search: entity types, filters and results of GET /api/search, shared by the
+ * server (src/server/search) and the header SearchBar.
+ */
+
+export type SearchEntityType =
+  | 'document'
+  | 'email'
+  | 'note'
+  | 'general_note'
+  | 'law_note'
+  | 'contact'
+  | 'organisation'
+  | 'project';
+
+export const SEARCH_ENTITY_TYPES: { value: SearchEntityType; label: string; icon: string }[] = [
+  { value: 'document', label: 'Documents', icon: '📄' },
+  { value: 'email', label: 'E-mails', icon: '✉️' },
+  { value: 'note', label: 'Notion notes', icon: '📝' },
+  { value: 'general_note', label: 'General notes', icon: '🗒️' },
+  { value: 'law_note', label: 'Law notes', icon: '⚖️' },
+  { value: 'contact', label: 'Contacts', icon: '👤' },
+  { value: 'organisation', label: 'Organisations', icon: '🏢' },
+  { value: 'project', label: 'Projects', icon: '📋' },
+];
+
+export const MIN_SEARCH_QUERY_LENGTH = 2;
+
+export interface SearchFilters {
+  query: string;
+  types?: SearchEntityType[];
+  organisationId?: string | null;
+  /** yyyy-MM-dd, inclusive */
+  dateFrom?: string | null;
+  dateTo?: string | null;
+  limit?: number;
+}
+
+export interface SearchResult {
+  type: SearchEntityType;
+  id: string;
+  title: string;
+  subtitle: string | null;
+  /** Excerpt with matches wrapped in <mark></mark>; plain text otherwise */
+  snippet: string | null;
+  organisationId: string | null;
+  date: string | null;
+  metadata: Record<string, string | null>;
+  rank: number;
+}
+
+export function isSearchEntityType(value: string): value is SearchEntityType {
+  return SEARCH_ENTITY_TYPES.some(t => t.value === value);
+}
+
+/**
+ * Split a snippet into plain and highlighted parts, so it can be rendered without HTML
+ */
+export function splitHighlights(snippet: string): { text: string; highlighted: boolean }[] {
+  return snippet
+    .split(/(<mark>[\s\S]*?<\/mark>)/)
+    .filter(part => part !== '')
+    .map(part =>
+      part.startsWith('<mark>') && part.endsWith('</mark>')
+        ? { text: part.slice(6, -7), highlighted: true }
+        : { text: part, highlighted: false }
+    );
+}
@@ -1,13 +1,17 @@
 import { supabase } from './supabase'
+import { storeBlob, PUBLIC_BUCKET, type StoredBlob } from './fileBlobs'
 
 export interface UploadResult {
   url: string
   path: string
+  sha256?: string
+  blobId?: string
+  reused?: boolean // same content was already stored; url/path point at the existing file
   error?: string
 }
 
 // Storage bucket name - can be overridden via env variable
-const STORAGE_BUCKET = process.env.NEXT_PUBLIC_STORAGE_BUCKET || 'mb-cockpit'
+const STORAGE_BUCKET = PUBLIC_BUCKET
 
 /**
  * Upload file to Supabase Storage
@@ -44,42 +48,47 @@ export async function uploadFile(
     const fileName = `${Date.now()}-${Math.random().toString(36).substring(7)}.${fileExt}`
     const filePath = `${folder}/${fileName}`
 
-    // Try to upload directly - this will give us a better error message if bucket doesn't exist
-    const { data, error } = await supabase.storage
-      .from(STORAGE_BUCKET)
-      .upload(filePath, file, {
-        cacheControl: '3600',
-        upsert: false
+    // Upload unless the same content is already stored - then link the existing file
+    let stored: StoredBlob
+    try {
+      stored = await storeBlob(supabase, {
+        data: await file.arrayBuffer(),
+        bucket: STORAGE_BUCKET,
+        path: filePath,
+        contentType: file.type,
+        requirePublicUrl: true,
       })
-
-    if (error) {
+    } catch (error) {
       console.error('Error uploading file:', error)
-      
+
       // Provide more helpful error messages
-      let errorMessage = error.message
-      if (error.message.includes('Bucket not found') || error.message.includes('not found')) {
+      const message = error instanceof Error ? error.message : String(error)
+      let errorMessage = message
+      if (message.includes('Bucket not found') || message.includes('not found')) {
         errorMessage = `Bucket "${STORAGE_BUCKET}" not found. Please create it in Supabase Dashboard → Storage → New bucket (name: "${STORAGE_BUCKET}", make it public).`
-      } else if (error.message.includes('new row violates row-level security')) {
+      } else if (message.includes('new row violates row-level security')) {
         errorMessage = `Permission denied. Please check RLS policies for bucket "${STORAGE_BUCKET}" or make it public.`
-      } else if (error.message.includes('The resource already exists')) {
+      } else if (message.includes('The resource already exists')) {
         errorMessage = `File with this name already exists. Please try again.`
       }
       
       return { url: '', path: '', error: errorMessage }
     }
 
-    // Get public URL
-    const { data: { publicUrl } } = supabase.storage
-      .from(STORAGE_BUCKET)
-      .getPublicUrl(filePath)
+    if (stored.reused) {
+      console.log('File content already stored, linking existing file:', stored.path)
+    }
 
     return {
-      url: publicUrl,
-      path: filePath
+      url: stored.url || '',
+      path: stored.path,
+      sha256: stored.sha256,
+      blobId: stored.blob?.id,
+      reused: stored.reused,
     }
-  } catch (error: any) {
+  } catch (error) {
     console.error('Error uploading file:', error)
-    return { url: '', path: '', error: error.message || 'Upload failed' }
+    return { url: '', path: '', error: (error instanceof Error && error.message) || 'Upload failed' }
   }
 }
 
@@ -0,0 +1,211 @@
+/**
+ * Line diff of two texts (Myers' algorithm) with word-level changes inside modified lines.
+ * Used to compare the extracted text of document versions.
+ */
+
+export type DiffOp = 'equal' | 'insert' | 'delete';
+
+export interface DiffWord {
+  op: DiffOp;
+  text: string;
+}
+
+export interface DiffLine {
+  op: DiffOp;
+  text: string;
+  /** 1-based line numbers in the old / new text */
+  oldLine: number | null;
+  newLine: number | null;
+  /** Word-level changes when the line was modified rather than added or removed */
+  words?: DiffWord[];
+}
+
+export interface TextDiff {
+  lines: DiffLine[];
+  added: number;
+  removed: number;
+  /** Too many changes to align: the texts are shown as fully replaced */
+  tooLarge: boolean;
+}
+
+export type DiffHunk =
+  | { kind: 'lines'; lines: DiffLine[] }
+  | { kind: 'skipped'; count: number };
+
+const MAX_LINE_EDITS = 5000;
+const MAX_WORD_EDITS = 400;
+
+/**
+ * Shortest edit script between two sequences, or null when it needs more than maxEdits edits
+ */
+function editScript<T>(a: T[], b: T[], maxEdits: number): DiffOp[] | null {
+  const n = a.length;
+  const m = b.length;
+  const limit = Math.min(n + m, maxEdits);
+  const offset = limit + 1;
+  const v = new Int32Array(2 * limit + 3);
+  // trace[d] holds v for diagonals -d-1..d+1 before step d
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= limit; d++) {
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        return backtrack(trace, n, m);
+      }
+    }
+  }
+  return null;
+}
+
+function backtrack(trace: Int32Array[], n: number, m: number): DiffOp[] {
+  const ops: DiffOp[] = [];
+  let x = n;
+  let y = m;
+
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const snapshot = trace[d];
+    const at = (k: number) => snapshot[k + d + 1];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      ops.push('equal');
+      x--;
+      y--;
+    }
+    if (d > 0) {
+      ops.push(x === prevX ? 'insert' : 'delete');
+    }
+    x = prevX;
+    y = prevY;
+  }
+
+  return ops.reverse();
+}
+
+function splitLines(text: string): string[] {
+  if (!text) return [];
+  return text.replace(/\r\n?/g, '\n').split('\n').map(line => line.trimEnd());
+}
+
+/** Words with the whitespace after them, so joining the tokens restores the line */
+function splitWords(line: string): string[] {
+  return line.match(/\S+\s*|\s+/g) || [];
+}
+
+function diffWords(oldLine: string, newLine: string): { old: DiffWord[]; new: DiffWord[] } | null {
+  const a = splitWords(oldLine);
+  const b = splitWords(newLine);
+  const ops = editScript(a.map(w => w.trim()), b.map(w => w.trim()), MAX_WORD_EDITS);
+  if (!ops) return null;
+
+  const oldWords: DiffWord[] = [];
+  const newWords: DiffWord[] = [];
+  let i = 0;
+  let j = 0;
+  ops.forEach(op => {
+    if (op === 'equal') {
+      oldWords.push({ op, text: a[i++] });
+      newWords.push({ op, text: b[j++] });
+    } else if (op === 'delete') {
+      oldWords.push({ op, text: a[i++] });
+    } else {
+      newWords.push({ op, text: b[j++] });
+    }
+  });
+  return { old: oldWords, new: newWords };
+}
+
+export function diffText(oldText: string, newText: string): TextDiff {
+  const a = splitLines(oldText);
+  const b = splitLines(newText);
+  const ops = editScript(a, b, MAX_LINE_EDITS);
+  const tooLarge = ops === null;
+  const script: DiffOp[] = ops || [...a.map((): DiffOp => 'delete'), ...b.map((): DiffOp => 'insert')];
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  let added = 0;
+  let removed = 0;
+
+  for (let index = 0; index < script.length; ) {
+    if (script[index] === 'equal') {
+      lines.push({ op: 'equal', text: a[i], oldLine: i + 1, newLine: j + 1 });
+      i++;
+      j++;
+      index++;
+      continue;
+    }
+
+    // A block of changes: deleted lines, then inserted lines
+    const deleted: DiffLine[] = [];
+    const inserted: DiffLine[] = [];
+    while (index < script.length && script[index] !== 'equal') {
+      if (script[index] === 'delete') {
+        deleted.push({ op: 'delete', text: a[i], oldLine: i + 1, newLine: null });
+        i++;
+      } else {
+        inserted.push({ op: 'insert', text: b[j], oldLine: null, newLine: j + 1 });
+        j++;
+      }
+      index++;
+    }
+
+    // Lines replaced one for one get word-level changes
+    if (!tooLarge) {
+      for (let pair = 0; pair < Math.min(deleted.length, inserted.length); pair++) {
+        const words = diffWords(deleted[pair].text, inserted[pair].text);
+        if (words && words.old.some(w => w.op === 'equal')) {
+          deleted[pair].words = words.old;
+          inserted[pair].words = words.new;
+        }
+      }
+    }
+
+    removed += deleted.length;
+    added += inserted.length;
+    lines.push(...deleted, ...inserted);
+  }
+
+  return { lines, added, removed, tooLarge };
+}
+
+/**
+ * Changed lines with a few lines of context; long unchanged stretches are collapsed
+ */
+export function diffHunks(lines: DiffLine[], context = 3): DiffHunk[] {
+  const keep = lines.map(() => false);
+  lines.forEach((line, index) => {
+    if (line.op === 'equal') return;
+    for (let k = Math.max(0, index - context); k <= Math.min(lines.length - 1, index + context); k++) {
+      keep[k] = true;
+    }
+  });
+
+  const hunks: DiffHunk[] = [];
+  lines.forEach((line, index) => {
+    const last = hunks[hunks.length - 1];
+    if (keep[index]) {
+      if (last?.kind === 'lines') last.lines.push(line);
+      else hunks.push({ kind: 'lines', lines: [line] });
+    } else if (last?.kind === 'skipped') {
+      last.count++;
+    } else {
+      hunks.push({ kind: 'skipped', count: 1 });
+    }
+  });
+  return hunks;
+}
@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { computeTripAllowances } from './allowances';
+
+const trip = {
+  departure_at: '2026-03-02T08:00:00Z',
+  return_at: '2026-03-04T18:00:00Z',
+  nights_without_invoice: 1,
+};
+
+describe('foreign allowances', () => {
+  it('uses the annex rates of the destination', () => {
+    const { lines, issues } = computeTripAllowances({ ...trip, destination_country: 'ae' });
+    expect(issues).toEqual([]);
+    expect(lines.map(line => [line.kind, line.amount, line.currency])).toEqual([
+      ['per_diem', 182.5, 'USD'],
+      ['accommodation_lump_sum', 50, 'USD'],
+    ]);
+  });
+
+  it('fails for a country outside the annex', () => {
+    expect(() => computeTripAllowances({ ...trip, destination_country: 'XX' })).toThrow(/XX/);
+    expect(() => computeTripAllowances({ ...trip, destination_country: 'XX', per_diem_rate: 50 })).toThrow(/XX/);
+  });
+});
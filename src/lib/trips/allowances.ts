@@ -0,0 +1,327 @@
+/**
+ * Statutory business-trip allowances under the Polish rules for employees (rozporządzenie
+ * MPiPS z 29.01.2013 r. with later amendments): per diem (dieta), accommodation and local
+ * transport lump sums, and private-vehicle mileage (rozporządzenie MI z 22.12.2022 r.).
+ * Pure functions shared by the trip view, the trips list and the CSV export.
+ */
+
+export type VehicleType = 'car_small' | 'car_large' | 'motorcycle' | 'moped';
+
+export const VEHICLE_TYPES: { value: VehicleType; label: string }[] = [
+  { value: 'car_small', label: 'Samochód do 900 cm³' },
+  { value: 'car_large', label: 'Samochód powyżej 900 cm³' },
+  { value: 'motorcycle', label: 'Motocykl' },
+  { value: 'moped', label: 'Motorower' },
+];
+
+export type AllowanceKind = 'per_diem' | 'accommodation_lump_sum' | 'local_transport_lump_sum' | 'mileage';
+
+export interface TripAllowanceInput {
+  departure_at?: string | null;
+  return_at?: string | null;
+  destination_country?: string | null;
+  per_diem_rate?: number | null;
+  per_diem_currency?: string | null;
+  breakfasts_provided?: number | null;
+  lunches_provided?: number | null;
+  dinners_provided?: number | null;
+  nights_without_invoice?: number | null;
+  local_transport_lump_sum?: boolean | null;
+  mileage_km?: number | null;
+  vehicle_type?: VehicleType | null;
+}
+
+export interface TripAllowanceLine {
+  kind: AllowanceKind;
+  label: string;
+  /** How the amount was computed, e.g. "2,5 × 45 PLN − 1 śniad." */
+  detail: string;
+  amount: number;
+  currency: string;
+}
+
+export interface TripAllowances {
+  lines: TripAllowanceLine[];
+  /** Inputs that prevent or limit the calculation */
+  issues: string[];
+}
+
+// Domestic per diem in PLN (since 2023-01-01)
+const DOMESTIC_PER_DIEM = 45;
+
+// Maximum per-km rates for private vehicles in PLN (since 2023-01-17)
+const MILEAGE_RATES: Record<VehicleType, number> = {
+  car_small: 0.89,
+  car_large: 1.15,
+  motorcycle: 0.69,
+  moped: 0.42,
+};
+
+/**
+ * Foreign per diem and accommodation limit per country (annex to the regulation), by ISO code
+ */
+export const FOREIGN_RATES: Record<string, { name: string; perDiem: number; accommodationLimit: number; currency: string }> = {
+  AE: { name: 'Zjednoczone Emiraty Arabskie', perDiem: 73, accommodationLimit: 200, currency: 'USD' },
+  AF: { name: 'Afganistan', perDiem: 47, accommodationLimit: 95, currency: 'EUR' },
+  AL: { name: 'Albania', perDiem: 41, accommodationLimit: 80, currency: 'EUR' },
+  AM: { name: 'Armenia', perDiem: 42, accommodationLimit: 190, currency: 'EUR' },
+  AO: { name: 'Angola', perDiem: 61, accommodationLimit: 400, currency: 'USD' },
+  AR: { name: 'Argentyna', perDiem: 50, accommodationLimit: 140, currency: 'USD' },
+  AT: { name: 'Austria', perDiem: 52, accommodationLimit: 130, currency: 'EUR' },
+  AU: { name: 'Australia', perDiem: 88, accommodationLimit: 250, currency: 'AUD' },
+  AZ: { name: 'Azerbejdżan', perDiem: 43, accommodationLimit: 200, currency: 'EUR' },
+  BA: { name: 'Bośnia i Hercegowina', perDiem: 41, accommodationLimit: 90, currency: 'EUR' },
+  BD: { name: 'Bangladesz', perDiem: 50, accommodationLimit: 120, currency: 'USD' },
+  BE: { name: 'Belgia', perDiem: 48, accommodationLimit: 160, currency: 'EUR' },
+  BG: { name: 'Bułgaria', perDiem: 40, accommodationLimit: 120, currency: 'EUR' },
+  BR: { name: 'Brazylia', perDiem: 43, accommodationLimit: 90, currency: 'EUR' },
+  BY: { name: 'Białoruś', perDiem: 42, accommodationLimit: 100, currency: 'EUR' },
+  CA: { name: 'Kanada', perDiem: 71, accommodationLimit: 190, currency: 'CAD' },
+  CD: { name: 'Demokratyczna Republika Konga', perDiem: 68, accommodationLimit: 200, currency: 'USD' },
+  CH: { name: 'Szwajcaria', perDiem: 88, accommodationLimit: 200, currency: 'CHF' },
+  CL: { name: 'Chile', perDiem: 40, accommodationLimit: 130, currency: 'USD' },
+  CN: { name: 'Chiny', perDiem: 55, accommodationLimit: 190, currency: 'EUR' },
+  CO: { name: 'Kolumbia', perDiem: 49, accommodationLimit: 160, currency: 'EUR' },
+  CR: { name: 'Kostaryka', perDiem: 50, accommodationLimit: 130, currency: 'USD' },
+  CU: { name: 'Kuba', perDiem: 42, accommodationLimit: 120, currency: 'EUR' },
+  CY: { name: 'Cypr', perDiem: 43, accommodationLimit: 160, currency: 'EUR' },
+  CZ: { name: 'Czechy', perDiem: 41, accommodationLimit: 90, currency: 'EUR' },
+  DE: { name: 'Niemcy', perDiem: 49, accommodationLimit: 150, currency: 'EUR' },
+  DK: { name: 'Dania', perDiem: 406, accommodationLimit: 1300, currency: 'DKK' },
+  DZ: { name: 'Algieria', perDiem: 51, accommodationLimit: 190, currency: 'EUR' },
+  EC: { name: 'Ekwador', perDiem: 44, accommodationLimit: 95, currency: 'EUR' },
+  EE: { name: 'Estonia', perDiem: 41, accommodationLimit: 85, currency: 'EUR' },
+  EG: { name: 'Egipt', perDiem: 55, accommodationLimit: 145, currency: 'USD' },
+  ES: { name: 'Hiszpania', perDiem: 50, accommodationLimit: 160, currency: 'EUR' },
+  ET: { name: 'Etiopia', perDiem: 45, accommodationLimit: 130, currency: 'EUR' },
+  FI: { name: 'Finlandia', perDiem: 48, accommodationLimit: 160, currency: 'EUR' },
+  FR: { name: 'Francja', perDiem: 50, accommodationLimit: 180, currency: 'EUR' },
+  GB: { name: 'Wielka Brytania', perDiem: 35, accommodationLimit: 200, currency: 'GBP' },
+  GE: { name: 'Gruzja', perDiem: 35, accommodationLimit: 145, currency: 'EUR' },
+  GR: { name: 'Grecja', perDiem: 48, accommodationLimit: 140, currency: 'EUR' },
+  HR: { name: 'Chorwacja', perDiem: 42, accommodationLimit: 125, currency: 'EUR' },
+  HU: { name: 'Węgry', perDiem: 44, accommodationLimit: 130, currency: 'EUR' },
+  ID: { name: 'Indonezja', perDiem: 41, accommodationLimit: 160, currency: 'EUR' },
+  IE: { name: 'Irlandia', perDiem: 52, accommodationLimit: 160, currency: 'EUR' },
+  IL: { name: 'Izrael', perDiem: 70, accommodationLimit: 190, currency: 'USD' },
+  IN: { name: 'Indie', perDiem: 38, accommodationLimit: 150, currency: 'EUR' },
+  IQ: { name: 'Irak', perDiem: 60, accommodationLimit: 150, currency: 'USD' },
+  IR: { name: 'Iran', perDiem: 41, accommodationLimit: 155, currency: 'EUR' },
+  IS: { name: 'Islandia', perDiem: 56, accommodationLimit: 160, currency: 'EUR' },
+  IT: { name: 'Włochy', perDiem: 48, accommodationLimit: 174, currency: 'EUR' },
+  JO: { name: 'Jordania', perDiem: 40, accommodationLimit: 160, currency: 'EUR' },
+  JP: { name: 'Japonia', perDiem: 7532, accommodationLimit: 22000, currency: 'JPY' },
+  KE: { name: 'Kenia', perDiem: 41, accommodationLimit: 180, currency: 'EUR' },
+  KG: { name: 'Kirgistan', perDiem: 41, accommodationLimit: 120, currency: 'EUR' },
+  KH: { name: 'Kambodża', perDiem: 45, accommodationLimit: 100, currency: 'USD' },
+  KP: { name: 'Korea Północna', perDiem: 70, accommodationLimit: 120, currency: 'EUR' },
+  KR: { name: 'Korea Południowa', perDiem: 46, accommodationLimit: 180, currency: 'EUR' },
+  KW: { name: 'Kuwejt', perDiem: 39, accommodationLimit: 185, currency: 'EUR' },
+  KZ: { name: 'Kazachstan', perDiem: 41, accommodationLimit: 160, currency: 'EUR' },
+  LA: { name: 'Laos', perDiem: 54, accommodationLimit: 80, currency: 'USD' },
+  LB: { name: 'Liban', perDiem: 57, accommodationLimit: 175, currency: 'USD' },
+  LI: { name: 'Liechtenstein', perDiem: 88, accommodationLimit: 200, currency: 'CHF' },
+  LK: { name: 'Sri Lanka', perDiem: 40, accommodationLimit: 160, currency: 'USD' },
+  LT: { name: 'Litwa', perDiem: 39, accommodationLimit: 100, currency: 'EUR' },
+  LU: { name: 'Luksemburg', perDiem: 48, accommodationLimit: 140, currency: 'EUR' },
+  LV: { name: 'Łotwa', perDiem: 57, accommodationLimit: 132, currency: 'EUR' },
+  LY: { name: 'Libia', perDiem: 52, accommodationLimit: 130, currency: 'EUR' },
+  MA: { name: 'Maroko', perDiem: 41, accommodationLimit: 130, currency: 'EUR' },
+  MC: { name: 'Monako', perDiem: 50, accommodationLimit: 180, currency: 'EUR' },
+  MD: { name: 'Mołdawia', perDiem: 41, accommodationLimit: 140, currency: 'EUR' },
+  ME: { name: 'Czarnogóra', perDiem: 40, accommodationLimit: 80, currency: 'EUR' },
+  MK: { name: 'Macedonia Północna', perDiem: 39, accommodationLimit: 125, currency: 'EUR' },
+  MN: { name: 'Mongolia', perDiem: 45, accommodationLimit: 110, currency: 'EUR' },
+  MT: { name: 'Malta', perDiem: 43, accommodationLimit: 180, currency: 'EUR' },
+  MX: { name: 'Meksyk', perDiem: 53, accommodationLimit: 140, currency: 'USD' },
+  MY: { name: 'Malezja', perDiem: 41, accommodationLimit: 100, currency: 'EUR' },
+  NG: { name: 'Nigeria', perDiem: 46, accommodationLimit: 240, currency: 'EUR' },
+  NL: { name: 'Holandia', perDiem: 50, accommodationLimit: 130, currency: 'EUR' },
+  NO: { name: 'Norwegia', perDiem: 451, accommodationLimit: 1500, currency: 'NOK' },
+  NZ: { name: 'Nowa Zelandia', perDiem: 58, accommodationLimit: 180, currency: 'USD' },
+  OM: { name: 'Oman', perDiem: 48, accommodationLimit: 160, currency: 'EUR' },
+  PA: { name: 'Panama', perDiem: 39, accommodationLimit: 120, currency: 'USD' },
+  PE: { name: 'Peru', perDiem: 50, accommodationLimit: 120, currency: 'USD' },
+  PK: { name: 'Pakistan', perDiem: 38, accommodationLimit: 150, currency: 'EUR' },
+  PT: { name: 'Portugalia', perDiem: 49, accommodationLimit: 120, currency: 'EUR' },
+  QA: { name: 'Katar', perDiem: 56, accommodationLimit: 230, currency: 'EUR' },
+  RO: { name: 'Rumunia', perDiem: 38, accommodationLimit: 100, currency: 'EUR' },
+  RS: { name: 'Serbia', perDiem: 40, accommodationLimit: 100, currency: 'EUR' },
+  RU: { name: 'Rosja', perDiem: 48, accommodationLimit: 200, currency: 'EUR' },
+  SA: { name: 'Arabia Saudyjska', perDiem: 59, accommodationLimit: 200, currency: 'USD' },
+  SE: { name: 'Szwecja', perDiem: 459, accommodationLimit: 1800, currency: 'SEK' },
+  SG: { name: 'Singapur', perDiem: 44, accommodationLimit: 188, currency: 'EUR' },
+  SI: { name: 'Słowenia', perDiem: 41, accommodationLimit: 130, currency: 'EUR' },
+  SK: { name: 'Słowacja', perDiem: 43, accommodationLimit: 120, currency: 'EUR' },
+  SY: { name: 'Syria', perDiem: 45, accommodationLimit: 160, currency: 'EUR' },
+  TH: { name: 'Tajlandia', perDiem: 42, accommodationLimit: 110, currency: 'USD' },
+  TJ: { name: 'Tadżykistan', perDiem: 41, accommodationLimit: 100, currency: 'EUR' },
+  TM: { name: 'Turkmenistan', perDiem: 47, accommodationLimit: 90, currency: 'EUR' },
+  TN: { name: 'Tunezja', perDiem: 41, accommodationLimit: 90, currency: 'EUR' },
+  TR: { name: 'Turcja', perDiem: 53, accommodationLimit: 173, currency: 'USD' },
+  TZ: { name: 'Tanzania', perDiem: 53, accommodationLimit: 150, currency: 'USD' },
+  UA: { name: 'Ukraina', perDiem: 41, accommodationLimit: 180, currency: 'EUR' },
+  US: { name: 'USA', perDiem: 59, accommodationLimit: 200, currency: 'USD' },
+  UY: { name: 'Urugwaj', perDiem: 50, accommodationLimit: 70, currency: 'EUR' },
+  UZ: { name: 'Uzbekistan', perDiem: 41, accommodationLimit: 90, currency: 'EUR' },
+  VE: { name: 'Wenezuela', perDiem: 60, accommodationLimit: 220, currency: 'USD' },
+  VN: { name: 'Wietnam', perDiem: 53, accommodationLimit: 170, currency: 'USD' },
+  YE: { name: 'Jemen', perDiem: 48, accommodationLimit: 160, currency: 'USD' },
+  ZA: { name: 'Republika Południowej Afryki', perDiem: 52, accommodationLimit: 150, currency: 'USD' },
+};
+
+/**
+ * Country rates of a foreign destination. Every country is listed in the annex, so an unknown
+ * code is bad data rather than a country without a statutory rate.
+ */
+export function foreignRatesFor(country: string): (typeof FOREIGN_RATES)[string] {
+  const rates = FOREIGN_RATES[country.toUpperCase()];
+  if (!rates) {
+    throw new Error(`Unknown destination country "${country}": not in the annex to the per diem regulation`);
+  }
+  return rates;
+}
+
+// Share of the daily per diem deducted for each meal provided
+const MEAL_DEDUCTIONS = {
+  domestic: { breakfast: 0.25, lunch: 0.5, dinner: 0.25 },
+  foreign: { breakfast: 0.15, lunch: 0.3, dinner: 0.3 },
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const formatNumber = (value: number) =>
+  new Intl.NumberFormat('pl-PL', { maximumFractionDigits: 2 }).format(value);
+
+/**
+ * Per-diem days for a trip of the given length. Domestic: up to one day, under 8 h gives
+ * nothing, 8–12 h half and over 12 h a full rate; longer trips get a full rate per day and for
+ * the last started day half (up to 8 h) or full. Foreign: full rate per day, the last started
+ * day a third (up to 8 h), half (8–12 h) or full.
+ */
+export function perDiemDays(hours: number, foreign: boolean): number {
+  if (hours <= 0) return 0;
+  const fullDays = Math.floor(hours / 24);
+  const rest = hours - fullDays * 24;
+
+  if (!foreign && fullDays === 0) {
+    return hours < 8 ? 0 : hours <= 12 ? 0.5 : 1;
+  }
+  if (rest === 0) return fullDays;
+  if (foreign) return fullDays + (rest <= 8 ? 1 / 3 : rest <= 12 ? 0.5 : 1);
+  return fullDays + (rest <= 8 ? 0.5 : 1);
+}
+
+/**
+ * Allowances of a trip. Foreign per diem is paid in the currency of the country rate for the
+ * whole trip duration; time spent in Poland before crossing the border is not split out.
+ */
+export function computeTripAllowances(trip: TripAllowanceInput): TripAllowances {
+  const lines: TripAllowanceLine[] = [];
+  const issues: string[] = [];
+
+  const country = (trip.destination_country || 'PL').toUpperCase();
+  const foreign = country !== 'PL';
+  const departure = trip.departure_at ? new Date(trip.departure_at) : null;
+  const returned = trip.return_at ? new Date(trip.return_at) : null;
+  const validTimes = !!departure && !!returned && !isNaN(departure.getTime()) && !isNaN(returned.getTime());
+  const hours = validTimes ? (returned!.getTime() - departure!.getTime()) / HOUR_MS : 0;
+
+  if (!trip.departure_at || !trip.return_at) {
+    issues.push('Podaj datę i godzinę wyjazdu oraz powrotu, aby naliczyć dietę');
+  } else if (!validTimes || hours <= 0) {
+    issues.push('Powrót musi nastąpić po wyjeździe');
+  }
+
+  const countryRates = foreign ? foreignRatesFor(country) : null;
+  let dailyRate = countryRates ? countryRates.perDiem : DOMESTIC_PER_DIEM;
+  let currency = countryRates ? countryRates.currency : 'PLN';
+  if (trip.per_diem_rate != null) {
+    dailyRate = Number(trip.per_diem_rate);
+    currency = (trip.per_diem_currency || currency).toUpperCase();
+  }
+
+  if (hours > 0) {
+    const days = perDiemDays(hours, foreign);
+    const deductions = MEAL_DEDUCTIONS[foreign ? 'foreign' : 'domestic'];
+    const meals = [
+      { count: trip.breakfasts_provided || 0, share: deductions.breakfast, label: 'śniad.' },
+      { count: trip.lunches_provided || 0, share: deductions.lunch, label: 'obiad' },
+      { count: trip.dinners_provided || 0, share: deductions.dinner, label: 'kolacja' },
+    ].filter(meal => meal.count > 0);
+    const deducted = meals.reduce((total, meal) => total + meal.count * meal.share * dailyRate, 0);
+    const amount = round2(Math.max(0, days * dailyRate - deducted));
+
+    lines.push({
+      kind: 'per_diem',
+      label: countryRates ? `Dieta zagraniczna (${countryRates.name})` : 'Dieta krajowa',
+      detail: [
+        `${formatNumber(days)} × ${formatNumber(dailyRate)} ${currency}`,
+        ...meals.map(meal => `− ${meal.count} ${meal.label}`),
+      ].join(' '),
+      amount,
+      currency,
+    });
+  }
+
+  const nights = trip.nights_without_invoice || 0;
+  if (nights > 0 && hours > 0) {
+    const maxNights = Math.ceil(hours / 24);
+    if (nights > maxNights) {
+      issues.push(`Liczba noclegów bez rachunku (${nights}) przekracza długość podróży`);
+    }
+    const counted = Math.min(nights, maxNights);
+    if (!countryRates) {
+      const nightRate = round2(DOMESTIC_PER_DIEM * 1.5);
+      lines.push({
+        kind: 'accommodation_lump_sum',
+        label: 'Ryczałt za nocleg',
+        detail: `${counted} × ${formatNumber(nightRate)} PLN (150% diety)`,
+        amount: round2(counted * nightRate),
+        currency: 'PLN',
+      });
+    } else {
+      const nightRate = round2(countryRates.accommodationLimit * 0.25);
+      lines.push({
+        kind: 'accommodation_lump_sum',
+        label: 'Ryczałt za nocleg',
+        detail: `${counted} × ${formatNumber(nightRate)} ${countryRates.currency} (25% limitu)`,
+        amount: round2(counted * nightRate),
+        currency: countryRates.currency,
+      });
+    }
+  }
+
+  if (trip.local_transport_lump_sum && hours > 0) {
+    const startedDays = Math.ceil(hours / 24);
+    const share = foreign ? 0.1 : 0.2;
+    const dayRate = round2(dailyRate * share);
+    lines.push({
+      kind: 'local_transport_lump_sum',
+      label: 'Ryczałt na dojazdy',
+      detail: `${startedDays} × ${formatNumber(dayRate)} ${currency} (${share * 100}% diety)`,
+      amount: round2(startedDays * dayRate),
+      currency,
+    });
+  }
+
+  const km = Number(trip.mileage_km) || 0;
+  if (km > 0) {
+    if (!trip.vehicle_type) {
+      issues.push('Wybierz rodzaj pojazdu, aby rozliczyć kilometrówkę');
+    } else {
+      const rate = MILEAGE_RATES[trip.vehicle_type];
+      lines.push({
+        kind: 'mileage',
+        label: 'Kilometrówka',
+        detail: `${formatNumber(km)} km × ${formatNumber(rate)} PLN`,
+        amount: round2(km * rate),
+        currency: 'PLN',
+      });
+    }
+  }
+
+  return { lines, issues };
+}
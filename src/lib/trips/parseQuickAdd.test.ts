@@ -0,0 +1,247 @@
+import { describe, expect, it } from 'vitest';
+import { parseAmount, parseQuickAdd, parseQuickAddBatch } from './parseQuickAdd';
+
+// Sunday, 15 March 2026
+const TODAY = new Date(2026, 2, 15);
+
+const parse = (input: string, defaultCurrency = 'PLN') => parseQuickAdd(input, defaultCurrency, TODAY);
+const day = (date: Date | null) =>
+  date ? `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}` : null;
+
+describe('parseAmount', () => {
+  it.each([
+    ['45', 45],
+    ['12,50', 12.5],
+    ['12.50', 12.5],
+    ['1 200,50', 1200.5],
+    ['1.200,50', 1200.5],
+    ['1,200.50', 1200.5],
+    ['2,450', 2450],
+    ['1.234', 1234],
+  ])('%s -> %d', (raw, expected) => {
+    expect(parseAmount(raw)).toBe(expected);
+  });
+});
+
+describe('parseQuickAdd', () => {
+  describe('amount and currency', () => {
+    it.each([
+      ['Hotel Atlantis 4200 AED', 4200, 'AED'],
+      ['Uber €12,50', 12.5, 'EUR'],
+      ['Taxi 12.50€', 12.5, 'EUR'],
+      ['Lunch $52.30', 52.3, 'USD'],
+      ['Dinner US$ 80', 80, 'USD'],
+      ['Starbucks £4.20', 4.2, 'GBP'],
+      ['kawa 85 ﷼', 85, 'SAR'],
+      ['Careem 32,5 dhs', 32.5, 'AED'],
+      ['Taxi 45 dirhams', 45, 'AED'],
+      ['Obiad 89,90 zł', 89.9, 'PLN'],
+      ['Obiad 89,90 zl', 89.9, 'PLN'],
+      ['nocleg 1 200,50 PLN', 1200.5, 'PLN'],
+      ['Flight 2,450.00 AED', 2450, 'AED'],
+      ['Hotel 1.234,00 eur', 1234, 'EUR'],
+      ['Metro 3 euro', 3, 'EUR'],
+      ['Taxi 25 chf', 25, 'CHF'],
+      ['Bilet 120 Kč', 120, 'CZK'],
+    ])('%s', (input, amount, currency) => {
+      const result = parse(input);
+      expect(result.amount).toBe(amount);
+      expect(result.currency).toBe(currency);
+    });
+
+    it('uses the default currency when none is given', () => {
+      expect(parse('Parking 15').currency).toBe('PLN');
+      expect(parse('Parking 15', 'AED').currency).toBe('AED');
+    });
+
+    it('takes the amount next to the currency, not an earlier number', () => {
+      const result = parse('Hotel 3 nights 900 AED');
+      expect(result.amount).toBe(900);
+      expect(result.currency).toBe('AED');
+    });
+
+    it('does not read a currency out of an ordinary word', () => {
+      expect(parse('Taxi and tip 45').currency).toBe('PLN');
+      expect(parse('Top up 20').currency).toBe('PLN');
+    });
+
+    it('does not take digits inside a word as the amount', () => {
+      expect(parse('Emirates A380 upgrade 1500 AED').amount).toBe(1500);
+    });
+
+    it('rejects input without an amount', () => {
+      expect(() => parse('Lunch with the team')).toThrow('Could not find amount in input');
+      expect(() => parse('   ')).toThrow('Input cannot be empty');
+    });
+  });
+
+  describe('dates', () => {
+    it('defaults to today', () => {
+      expect(day(parse('Parking 15').date)).toBe('2026-03-15');
+    });
+
+    it.each([
+      ['wczoraj taksówka 45 zł', '2026-03-14'],
+      ['yesterday Uber 30 AED', '2026-03-14'],
+      ['przedwczoraj kolacja 150 PLN', '2026-03-13'],
+      ['dziś kawa 12 zł', '2026-03-15'],
+      ['3 days ago parking 20', '2026-03-12'],
+      ['2 dni temu obiad 45 zł', '2026-03-13'],
+      ['Monday Starbucks 28 AED', '2026-03-09'],
+      ['w piątek pociąg 89 zł', '2026-03-13'],
+      ['Careem 2026-03-10 32.5 AED', '2026-03-10'],
+      ['Hotel 10.03.2026 900 AED', '2026-03-10'],
+      ['Hotel 10/03/26 900 AED', '2026-03-10'],
+      ['3 Mar Uber €12,50', '2026-03-03'],
+      ['3 marca pociąg PKP 129 zł', '2026-03-03'],
+      ['Mar 5 lunch 80 AED', '2026-03-05'],
+      ['Taxi 12.03 45 AED', '2026-03-12'],
+    ])('%s -> %s', (input, expected) => {
+      expect(day(parse(input).date)).toBe(expected);
+    });
+
+    it('keeps the amount when the date is cut out', () => {
+      const result = parse('Taxi 12.03 45 AED');
+      expect(result.amount).toBe(45);
+      expect(result.description).toBe('Taxi');
+    });
+
+    it('treats a lone dd.mm number as the amount', () => {
+      const result = parse('Lunch 12.50');
+      expect(result.amount).toBe(12.5);
+      expect(day(result.date)).toBe('2026-03-15');
+    });
+
+    it('puts a date without a year in the past', () => {
+      expect(day(parse('Hotel 20 Dec 900 AED').date)).toBe('2025-12-20');
+      expect(day(parse('Taxi 20.12 45 AED').date)).toBe('2025-12-20');
+    });
+
+    it('ignores impossible dates', () => {
+      expect(day(parse('Taxi 31.02.2026 45 AED').date)).toBe('2026-03-15');
+    });
+  });
+
+  describe('categories', () => {
+    it.each([
+      ['Hotel Atlantis 4200 AED', 'HOTEL'],
+      ['Booking.com 900 AED', 'HOTEL'],
+      ['nocleg Kraków 350 zł', 'HOTEL'],
+      ['Flight Emirates 2450 AED', 'FLIGHT'],
+      ['bilet lotniczy LOT 1200 zł', 'FLIGHT'],
+      ['Uber 30 AED', 'TRANSPORT'],
+      ['taksówką na lotnisko 80 zł', 'TRANSPORT'],
+      ['Parking 15', 'TRANSPORT'],
+      ['paliwo Orlen 250 zł', 'TRANSPORT'],
+      ['Lunch at Nobu $120', 'FOOD'],
+      ['śniadanie 40 zł', 'FOOD'],
+      ['kawa 12 zł', 'FOOD'],
+      ['Apple Store 999 AED', 'OTHER'],
+    ])('%s -> %s', (input, category) => {
+      expect(parse(input).category).toBe(category);
+    });
+  });
+
+  describe('vendor and description', () => {
+    it('takes the leading words as the vendor', () => {
+      const result = parse('Hotel Atlantis 4200 AED');
+      expect(result.vendor).toBe('Hotel Atlantis');
+      expect(result.description).toBe('Hotel Atlantis');
+    });
+
+    it('takes the name after "at" as the vendor', () => {
+      const result = parse('Lunch at Nobu $120');
+      expect(result.vendor).toBe('Nobu');
+      expect(result.description).toBe('Lunch at Nobu');
+    });
+
+    it('stops the vendor at a connector', () => {
+      expect(parse('Taxi to airport 45 AED').vendor).toBe('Taxi');
+      expect(parse('Uber na lotnisko 60 zł').vendor).toBe('Uber');
+    });
+
+    it('capitalises the vendor and leaves dates, amounts and flags out', () => {
+      const result = parse('wczoraj taksówka 45 zł kartą firmową');
+      expect(result.vendor).toBe('Taksówka');
+      expect(result.description).toBe('taksówka');
+    });
+  });
+
+  describe('flags', () => {
+    it.each([
+      'Hotel 900 AED company card',
+      'Hotel 900 AED corporate card',
+      'taksówka 45 zł kartą firmową',
+      'taksówka 45 zł karta służbowa',
+      'Hotel 900 AED #firma',
+    ])('company card: %s', input => {
+      expect(parse(input).paidByCompanyCard).toBe(true);
+    });
+
+    it.each([
+      'Lunch at Nobu $120 no reimburse',
+      'Cinema 60 AED not reimbursable',
+      'kolacja 150 PLN prywatne',
+      'pamiątki 80 zł bez zwrotu',
+      'Spa 300 AED private',
+    ])('not reimbursable: %s', input => {
+      expect(parse(input).excludeFromReimbursement).toBe(true);
+    });
+
+    it('has no flags by default', () => {
+      const result = parse('Uber 30 AED');
+      expect(result.paidByCompanyCard).toBe(false);
+      expect(result.excludeFromReimbursement).toBe(false);
+      expect(result.cardSource).toBeNull();
+    });
+
+    it.each([
+      ['Obiad 89,90 zł Revolut', 'REVOLUT'],
+      ['Hotel 900 AED pko', 'PKO'],
+      ['Taxi 45 AED MB', 'MB'],
+    ])('card source: %s -> %s', (input, source) => {
+      expect(parse(input).cardSource).toBe(source);
+    });
+
+    it('only reads "MB" as a card in capitals', () => {
+      expect(parse('Bus 5 mb').cardSource).toBeNull();
+    });
+  });
+
+  it('strips list bullets from pasted lines', () => {
+    const result = parse('- Uber 30 AED');
+    expect(result.vendor).toBe('Uber');
+    expect(result.amount).toBe(30);
+  });
+});
+
+describe('parseQuickAddBatch', () => {
+  const batch = (input: string) => parseQuickAddBatch(input, 'PLN', TODAY);
+
+  it('parses one expense per line', () => {
+    const result = batch('Uber 30 AED\nLunch at Nobu $120\n\nHotel Atlantis 4200 AED');
+    expect(result.errors).toEqual([]);
+    expect(result.expenses.map(e => e.amount)).toEqual([30, 120, 4200]);
+  });
+
+  it('splits on semicolons', () => {
+    const result = batch('kawa 12 zł; obiad 45 zł; taxi 30 zł');
+    expect(result.expenses.map(e => e.category)).toEqual(['FOOD', 'FOOD', 'TRANSPORT']);
+  });
+
+  it('applies a date header to the lines below it', () => {
+    const result = batch('12.03:\n- Uber 45 AED\n- Lunch 80 AED\n13.03\nHotel 900 AED\nwczoraj kawa 15 AED');
+    expect(result.expenses.map(e => day(e.date))).toEqual(['2026-03-12', '2026-03-12', '2026-03-13', '2026-03-14']);
+  });
+
+  it('accepts weekday and month-name headers', () => {
+    const result = batch('Monday\nUber 30 AED\n3 marca:\nobiad 45 zł');
+    expect(result.expenses.map(e => day(e.date))).toEqual(['2026-03-09', '2026-03-03']);
+  });
+
+  it('reports lines it cannot parse with their line number', () => {
+    const result = batch('Uber 30 AED\nsome notes\nHotel 900 AED');
+    expect(result.expenses).toHaveLength(2);
+    expect(result.errors).toEqual([{ line: 2, input: 'some notes', error: 'Could not find amount in input' }]);
+  });
+});
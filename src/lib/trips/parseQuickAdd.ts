@@ -1,6 +1,8 @@
 /**
  * Quick Add Parser for trip expenses
- * Parses single-line input like "Hotel Atlantis 4200 AED" into structured expense data
+ * Parses free-text lines like "Hotel Atlantis 4200 AED", "wczoraj taksówka 45 zł kartą firmową"
+ * or "3 Mar Uber €12,50" into structured expense data. English and Polish keywords are
+ * recognised; several expenses can be pasted at once, one per line.
  */
 
 export interface ParsedExpense {
@@ -10,181 +12,431 @@ export interface ParsedExpense {
   currency: string;
   category: string;
   date: Date | null; // Defaults to today if not specified
+  paidByCompanyCard: boolean;
+  excludeFromReimbursement: boolean;
+  cardSource: 'MB' | 'PKO' | 'REVOLUT' | null;
+}
+
+export interface QuickAddBatchResult {
+  expenses: ParsedExpense[];
+  errors: { line: number; input: string; error: string }[];
+}
+
+// Letters including Polish diacritics; used instead of \b, which treats "ś" as a boundary
+const LETTER = 'A-Za-z\\u00C0-\\u024F';
+
+/** Whole-word, case-insensitive pattern for a list of alternatives; \\w stands for any letter */
+function words(alternatives: string): RegExp {
+  const source = alternatives.replace(/\\w/g, `[${LETTER}]`);
+  return new RegExp(`(^|[^${LETTER}\\d])(${source})(?=$|[^${LETTER}\\d])`, 'i');
+}
+
+// Active ISO 4217 codes
+const ISO_CURRENCIES = new Set(
+  ('AED AFN ALL AMD ANG AOA ARS AUD AWG AZN BAM BBD BDT BGN BHD BIF BMD BND BOB BRL BSD BTN BWP ' +
+    'BYN BZD CAD CDF CHF CLP CNY COP CRC CUP CVE CZK DJF DKK DOP DZD EGP ERN ETB EUR FJD FKP GBP ' +
+    'GEL GHS GIP GMD GNF GTQ GYD HKD HNL HTG HUF IDR ILS INR IQD IRR ISK JMD JOD JPY KES KGS KHR ' +
+    'KMF KPW KRW KWD KYD KZT LAK LBP LKR LRD LSL LYD MAD MDL MGA MKD MMK MNT MOP MRU MUR MVR MWK ' +
+    'MXN MYR MZN NAD NGN NIO NOK NPR NZD OMR PAB PEN PGK PHP PKR PLN PYG QAR RON RSD RUB RWF SAR ' +
+    'SBD SCR SDG SEK SGD SHP SLE SOS SRD SSP STN SVC SYP SZL THB TJS TMT TND TOP TRY TTD TWD TZS ' +
+    'UAH UGX USD UYU UZS VES VND VUV WST XAF XCD XOF XPF YER ZAR ZMW ZWL').split(' ')
+);
+
+// Codes that are also common words ("ALL", "TOP", "PEN"...) only count written in capitals;
+// these are safe in any case
+const COMMON_CURRENCIES = new Set(['AED', 'PLN', 'USD', 'EUR', 'GBP', 'SAR', 'CHF', 'QAR', 'OMR', 'KWD', 'BHD', 'CZK', 'SEK', 'NOK', 'DKK', 'HUF', 'TRY', 'JPY', 'CNY']);
+
+// Symbols and local names; longer ones first so "US$" wins over "$"
+const CURRENCY_SYMBOLS: [string, string][] = [
+  ['US$', 'USD'],
+  ['A$', 'AUD'],
+  ['C$', 'CAD'],
+  ['HK$', 'HKD'],
+  ['€', 'EUR'],
+  ['$', 'USD'],
+  ['£', 'GBP'],
+  ['﷼', 'SAR'],
+  ['¥', 'JPY'],
+  ['₹', 'INR'],
+  ['₺', 'TRY'],
+  ['₴', 'UAH'],
+  ['₩', 'KRW'],
+  ['฿', 'THB'],
+  ['د.إ', 'AED'],
+  ['zł', 'PLN'],
+];
+
+const CURRENCY_WORDS: [RegExp, string][] = [
+  [words('zl|złotych|złote|zloty'), 'PLN'],
+  [words('dhs?|dirhams?'), 'AED'],
+  [words('riyals?'), 'SAR'],
+  [words('euro'), 'EUR'],
+  [words('dollars?|dolarów|dolary'), 'USD'],
+  [words('pounds?|funtów|funty'), 'GBP'],
+  [words('kč'), 'CZK'],
+];
+
+const CATEGORY_KEYWORDS: [string, RegExp][] = [
+  ['HOTEL', words('hotel\\w*|hostel\\w*|booking|airbnb|accommodation|stay|nocleg\\w*|zakwaterowani\\w*|apartament\\w*|pensjonat\\w*')],
+  ['FLIGHT', words('flights?|airlines?|airport|emirates|ryanair|wizz\\w*|flydubai|etihad|lufthansa|lot|lotu|lotnisk\\w*|samolot\\w*|bilet lotniczy|linie lotnicze')],
+  ['TRANSPORT', words('uber|bolt|careem|taxi|cab|metro|transport|bus|train|parking|fuel|petrol|car rental|taksówk\\w*|taksowk\\w*|pociąg\\w*|pociag\\w*|pkp|autobus\\w*|tramwaj\\w*|paliw\\w*|benzyn\\w*|wynajem auta|przejazd\\w*')],
+  ['FOOD', words('restaurant|lunch|dinner|breakfast|coffee|food|meal|cafe|café|bar|restauracj\\w*|obiad\\w*|kolacj\\w*|śniadani\\w*|sniadani\\w*|kaw[aęyie]|kawiarni\\w*|jedzeni\\w*|posił\\w*')],
+];
+
+const COMPANY_CARD = words('company card|corporate card|business card|karta firmowa|kartą firmową|karta służbowa|kartą służbową|firmowa|firmową|#firma|#company');
+const NO_REIMBURSE = words('no reimburse(?:ment)?|not reimbursable|non-reimbursable|do not reimburse|don\'t reimburse|bez zwrotu|nie zwracać|nie do zwrotu|private|prywatn\\w*|#nozwrot|#noreimburse');
+const CARD_SOURCES: [RegExp, 'MB' | 'PKO' | 'REVOLUT'][] = [
+  [words('revolut'), 'REVOLUT'],
+  [words('pko'), 'PKO'],
+  [/(^|[^A-Za-z])(MB)(?=$|[^A-Za-z])/, 'MB'],
+];
+
+const MONTHS: Record<string, number> = {
+  jan: 1, january: 1, feb: 2, february: 2, mar: 3, march: 3, apr: 4, april: 4, may: 5, jun: 6, june: 6,
+  jul: 7, july: 7, aug: 8, august: 8, sep: 9, sept: 9, september: 9, oct: 10, october: 10, nov: 11,
+  november: 11, dec: 12, december: 12,
+  // Polish, nominative and genitive ("3 marca")
+  sty: 1, stycznia: 1, styczeń: 1, lut: 2, lutego: 2, luty: 2, marca: 3, marzec: 3, kwi: 4, kwietnia: 4,
+  kwiecień: 4, maj: 5, maja: 5, cze: 6, czerwca: 6, czerwiec: 6, lip: 7, lipca: 7, lipiec: 7, sie: 8,
+  sierpnia: 8, sierpień: 8, wrz: 9, września: 9, wrzesień: 9, paź: 10, października: 10, październik: 10,
+  lis: 11, listopada: 11, listopad: 11, gru: 12, grudnia: 12, grudzień: 12,
+};
+const MONTH_NAMES = Object.keys(MONTHS).sort((a, b) => b.length - a.length).join('|');
+
+const WEEKDAYS: Record<string, number> = {
+  sunday: 0, monday: 1, tuesday: 2, wednesday: 3, thursday: 4, friday: 5, saturday: 6,
+  niedziela: 0, niedzielę: 0, poniedziałek: 1, wtorek: 2, środa: 3, środę: 3, czwartek: 4, piątek: 5, sobota: 6, sobotę: 6,
+};
+
+const RELATIVE_DAYS: [RegExp, number][] = [
+  [words('day before yesterday|przedwczoraj'), -2],
+  [words('yesterday|wczoraj'), -1],
+  [words('today|dziś|dzis|dzisiaj'), 0],
+];
+
+const AMOUNT_SOURCE = '\\d{1,3}(?:[ \\u00A0]\\d{3})+(?:[.,]\\d{1,2})?|\\d{1,3}(?:[.,]\\d{3})+(?:[.,]\\d{1,2})?|\\d+(?:[.,]\\d{1,2})?';
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+const addDays = (date: Date, days: number) => new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+/** Valid calendar date, or null ("31.02" is not a date) */
+function makeDate(year: number, month: number, day: number): Date | null {
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+  const date = new Date(year, month - 1, day);
+  return date.getMonth() === month - 1 ? date : null;
+}
+
+/** A date written without a year is the most recent one not in the future */
+function withoutYear(month: number, day: number, today: Date): Date | null {
+  const date = makeDate(today.getFullYear(), month, day);
+  if (!date) return makeDate(today.getFullYear() - 1, month, day);
+  return date > today ? makeDate(today.getFullYear() - 1, month, day) : date;
+}
+
+const fullYear = (year: string) => (year.length === 2 ? 2000 + parseInt(year, 10) : parseInt(year, 10));
+
+/** Blank out a match so later patterns do not see it */
+function cut(text: string, index: number, length: number): string {
+  return text.slice(0, index) + ' '.repeat(length) + text.slice(index + length);
+}
+
+/** Find a pattern whose group 2 is the token (group 1 is the boundary) and cut it out */
+function take(text: string, pattern: RegExp): { match: RegExpMatchArray | null; text: string } {
+  const match = text.match(pattern);
+  if (!match || match.index === undefined) return { match: null, text };
+  const start = match.index + (match[1]?.length || 0);
+  return { match, text: cut(text, start, match[0].length - (match[1]?.length || 0)) };
 }
 
 /**
- * Extract amount from string, handling EU and US number formats
+ * Normalise an amount, handling EU and US number formats
  */
-function extractAmount(text: string): { amount: number | null; remainingText: string } {
-  // Match numbers with optional thousands separators (space, comma, dot) and optional decimals
-  // Patterns: 4200, 4 200, 4,200, 4.200, 4200.50, 4200,50
-  const amountPattern = /(\d{1,3}(?:\s|,|\.)?\d{3}(?:(?:\s|,|\.)\d{3})*(?:[,.]\d+)?|\d+(?:[,.]\d+)?)/g;
-  const matches = text.match(amountPattern);
-  
-  if (!matches || matches.length === 0) {
-    return { amount: null, remainingText: text };
-  }
-
-  // Get the last match (most likely to be the amount)
-  const lastMatch = matches[matches.length - 1];
-  
-  // Normalize: remove spaces, handle comma as decimal separator
-  let normalized = lastMatch.replace(/\s/g, '');
-  
-  // Determine if comma or dot is decimal separator
-  // If has both, last one is decimal
+export function parseAmount(raw: string): number | null {
+  let normalized = raw.replace(/[\s ]/g, '');
   const hasComma = normalized.includes(',');
   const hasDot = normalized.includes('.');
-  
+
   if (hasComma && hasDot) {
     // Both present - last one is decimal
-    if (normalized.lastIndexOf(',') > normalized.lastIndexOf('.')) {
-      // Comma is decimal
-      normalized = normalized.replace(/\./g, '').replace(',', '.');
-    } else {
-      // Dot is decimal
-      normalized = normalized.replace(/,/g, '');
-    }
-  } else if (hasComma && normalized.split(',')[1]?.length <= 2) {
-    // Comma likely decimal (has 1-2 digits after)
-    normalized = normalized.replace(/\./g, '').replace(',', '.');
+    normalized = normalized.lastIndexOf(',') > normalized.lastIndexOf('.')
+      ? normalized.replace(/\./g, '').replace(',', '.')
+      : normalized.replace(/,/g, '');
   } else if (hasComma) {
-    // Comma likely thousands separator
-    normalized = normalized.replace(/,/g, '');
+    // Comma with 1-2 digits after is decimal, with 3 it separates thousands
+    normalized = normalized.split(',').pop()!.length <= 2
+      ? normalized.replace(',', '.')
+      : normalized.replace(/,/g, '');
   } else if (hasDot) {
-    // Check if dot is decimal (has 1-2 digits after)
     const parts = normalized.split('.');
-    if (parts.length === 2 && parts[1].length <= 2) {
-      // Likely decimal
-    } else {
-      // Likely thousands separator
-      normalized = normalized.replace(/\./g, '');
-    }
+    if (!(parts.length === 2 && parts[1].length <= 2)) normalized = normalized.replace(/\./g, '');
   }
 
   const amount = parseFloat(normalized);
-  if (isNaN(amount)) {
-    return { amount: null, remainingText: text };
+  return isNaN(amount) ? null : amount;
+}
+
+/**
+ * Extract a date: relative words, weekdays, ISO, dd.mm[.yyyy], "3 Mar", "Mar 3", "3 marca"
+ */
+function extractDate(text: string, today: Date, standalone = false): { date: Date | null; text: string } {
+  for (const [pattern, offset] of RELATIVE_DAYS) {
+    const result = take(text, pattern);
+    if (result.match) return { date: addDays(today, offset), text: result.text };
   }
 
-  // Remove the matched amount from text
-  const lastIndex = text.lastIndexOf(lastMatch);
-  const remainingText = (text.substring(0, lastIndex) + text.substring(lastIndex + lastMatch.length)).trim();
+  const daysAgo = take(text, words('\\d{1,2} days? ago|\\d{1,2} dni temu'));
+  if (daysAgo.match) {
+    return { date: addDays(today, -parseInt(daysAgo.match[2], 10)), text: daysAgo.text };
+  }
+
+  // Weekday: the most recent one, today included
+  const weekday = take(text, words(`(?:last |w |we )?(?:${Object.keys(WEEKDAYS).join('|')})`));
+  if (weekday.match) {
+    const name = weekday.match[2].toLowerCase().replace(/^(last|w|we) /, '');
+    const diff = (today.getDay() - WEEKDAYS[name] + 7) % 7;
+    return { date: addDays(today, -diff), text: weekday.text };
+  }
+
+  const iso = take(text, /(^|[^\d])(\d{4})-(\d{1,2})-(\d{1,2})(?!\d)/);
+  if (iso.match) {
+    const date = makeDate(+iso.match[2], +iso.match[3], +iso.match[4]);
+    if (date) return { date, text: iso.text };
+  }
+
+  const numeric = take(text, /(^|[^\d.,/])(\d{1,2})[./-](\d{1,2})[./-](\d{4}|\d{2})(?![\d.,/])/);
+  if (numeric.match) {
+    const date = makeDate(fullYear(numeric.match[4]), +numeric.match[3], +numeric.match[2]);
+    if (date) return { date, text: numeric.text };
+  }
+
+  const dayMonth = take(text, new RegExp(`(^|[^${LETTER}\\d])(\\d{1,2})\\.? (${MONTH_NAMES})\\.?(?: (\\d{4}))?(?=$|[^${LETTER}\\d])`, 'i'));
+  if (dayMonth.match) {
+    const month = MONTHS[dayMonth.match[3].toLowerCase()];
+    const date = dayMonth.match[4]
+      ? makeDate(+dayMonth.match[4], month, +dayMonth.match[2])
+      : withoutYear(month, +dayMonth.match[2], today);
+    if (date) return { date, text: dayMonth.text };
+  }
+
+  const monthDay = take(text, new RegExp(`(^|[^${LETTER}\\d])(${MONTH_NAMES})\\.? (\\d{1,2})(?:,? (\\d{4}))?(?=$|[^${LETTER}\\d])`, 'i'));
+  if (monthDay.match) {
+    const month = MONTHS[monthDay.match[2].toLowerCase()];
+    const date = monthDay.match[4]
+      ? makeDate(+monthDay.match[4], month, +monthDay.match[3])
+      : withoutYear(month, +monthDay.match[3], today);
+    if (date) return { date, text: monthDay.text };
+  }
 
-  return { amount, remainingText };
+  // "12.03" or "12/03": a date only if another number is left for the amount,
+  // unless the text is a date on its own
+  const short = /(^|[^\d.,/])(\d{1,2})[./](\d{1,2})(?![\d.,/])/g;
+  for (const match of text.matchAll(short)) {
+    const date = withoutYear(+match[3], +match[2], today);
+    if (!date || match.index === undefined) continue;
+    const start = match.index + match[1].length;
+    const remaining = cut(text, start, match[0].length - match[1].length);
+    if (standalone || /\d/.test(remaining)) return { date, text: remaining };
+  }
+
+  return { date: null, text };
 }
 
-/**
- * Extract currency from string
- */
-function extractCurrency(text: string): { currency: string | null; remainingText: string } {
-  const currencyPattern = /\b(AED|PLN|USD|EUR|GBP|zł|zl)\b/i;
-  const match = text.match(currencyPattern);
-  
-  if (!match) {
-    return { currency: null, remainingText: text };
-  }
-
-  const currency = match[1].toUpperCase();
-  // Normalize zł to PLN
-  const normalizedCurrency = currency === 'ZŁ' || currency === 'ZL' ? 'PLN' : currency;
-  
-  // Remove currency from text
-  const remainingText = text.replace(currencyPattern, '').trim();
-
-  return { currency: normalizedCurrency, remainingText };
+/** Currency written next to a number: "45 AED", "€12,50", "12.50€", "1 200 zł" */
+function extractAmountAndCurrency(text: string): { amount: number | null; currency: string | null; text: string } {
+  const symbols = CURRENCY_SYMBOLS.map(([symbol]) => symbol.replace(/[$.]/g, '\\$&')).join('|');
+  const currencyToken = `${symbols}|[A-Za-z]{3}|zl|dhs?`;
+  const resolve = (token: string): string | null => {
+    const symbol = CURRENCY_SYMBOLS.find(([s]) => s.toLowerCase() === token.toLowerCase());
+    if (symbol) return symbol[1];
+    const upper = token.toUpperCase();
+    if (upper === 'ZL') return 'PLN';
+    if (upper === 'DH' || upper === 'DHS') return 'AED';
+    if (COMMON_CURRENCIES.has(upper)) return upper;
+    // Other ISO codes only in capitals: "ALL", "TOP" or "PEN" are also words
+    if (ISO_CURRENCIES.has(upper) && token === upper) return upper;
+    return null;
+  };
+
+  // Amount then currency, or currency then amount; the last pair on the line wins
+  const pairs = [
+    ...[...text.matchAll(new RegExp(`(^|[^\\d.,${LETTER}])(${AMOUNT_SOURCE}) ?(${currencyToken})(?=$|[^${LETTER}])`, 'gi'))]
+      .map(m => ({ index: m.index! + m[1].length, length: m[0].length - m[1].length, amount: m[2], token: m[3] })),
+    ...[...text.matchAll(new RegExp(`(^|[^${LETTER}])(${currencyToken}) ?(${AMOUNT_SOURCE})(?![\\d.,]?\\d)`, 'gi'))]
+      .map(m => ({ index: m.index! + m[1].length, length: m[0].length - m[1].length, amount: m[3], token: m[2] })),
+  ]
+    .map(pair => ({ ...pair, currency: resolve(pair.token) }))
+    .filter(pair => pair.currency)
+    .sort((a, b) => a.index - b.index);
+
+  const pair = pairs[pairs.length - 1];
+  if (pair) {
+    return { amount: parseAmount(pair.amount), currency: pair.currency, text: cut(text, pair.index, pair.length) };
+  }
+
+  // No pair: the last standalone number is the amount, a currency may stand anywhere
+  const numbers = [...text.matchAll(new RegExp(`(^|[^\\d.,${LETTER}])(${AMOUNT_SOURCE})(?![\\d${LETTER}])`, 'g'))];
+  const last = numbers[numbers.length - 1];
+  if (!last || last.index === undefined) return { amount: null, currency: null, text };
+  let remaining = cut(text, last.index + last[1].length, last[2].length);
+
+  let currency: string | null = null;
+  for (const [symbol, code] of CURRENCY_SYMBOLS) {
+    const index = remaining.indexOf(symbol);
+    if (index !== -1) {
+      currency = code;
+      remaining = cut(remaining, index, symbol.length);
+      break;
+    }
+  }
+  if (!currency) {
+    for (const match of remaining.matchAll(new RegExp(`(^|[^${LETTER}])([A-Za-z]{3})(?=$|[^${LETTER}])`, 'g'))) {
+      const code = resolve(match[2]);
+      if (code && match.index !== undefined) {
+        currency = code;
+        remaining = cut(remaining, match.index + match[1].length, 3);
+        break;
+      }
+    }
+  }
+  if (!currency) {
+    for (const [pattern, code] of CURRENCY_WORDS) {
+      const result = take(remaining, pattern);
+      if (result.match) {
+        currency = code;
+        remaining = result.text;
+        break;
+      }
+    }
+  }
+
+  return { amount: parseAmount(last[2]), currency, text: remaining };
 }
 
 /**
- * Auto-detect category from keywords
+ * Auto-detect category from English and Polish keywords.
+ * The keyword mentioned first wins: "taxi to airport" is transport, not a flight.
  */
 function detectCategory(text: string): string {
-  const lowerText = text.toLowerCase();
-  
-  // Hotel keywords
-  if (/hotel|hostel|booking|accommodation|stay/i.test(lowerText)) {
-    return 'HOTEL';
-  }
-  
-  // Flight keywords
-  if (/flight|emirates|ryanair|wizz|airline|airport/i.test(lowerText)) {
-    return 'FLIGHT';
-  }
-  
-  // Transport keywords
-  if (/uber|bolt|taxi|metro|transport|bus|train/i.test(lowerText)) {
-    return 'TRANSPORT';
-  }
-  
-  // Food keywords
-  if (/restaurant|lunch|dinner|coffee|food|meal|cafe|bar/i.test(lowerText)) {
-    return 'FOOD';
-  }
-  
-  return 'OTHER';
+  let category = 'OTHER';
+  let position = Infinity;
+  CATEGORY_KEYWORDS.forEach(([name, pattern]) => {
+    const match = text.match(pattern);
+    if (match && match.index !== undefined && match.index < position) {
+      category = name;
+      position = match.index;
+    }
+  });
+  return category;
 }
 
 /**
  * Extract vendor/description
- * Vendor = first 1-2 capitalized words, description = full text
+ * Vendor = the name after "at"/"@", otherwise the first 1-3 words up to a connector
  */
 function extractVendorAndDescription(text: string): { vendor: string | null; description: string } {
-  const words = text.trim().split(/\s+/).filter(w => w.length > 0);
-  
-  if (words.length === 0) {
+  const description = text.replace(/\s+/g, ' ').replace(/^[\s,;:–—-]+|[\s,;:–—-]+$/g, '').trim();
+  if (!description) {
     return { vendor: null, description: '' };
   }
 
-  // First word as vendor (capitalize first letter)
-  const vendor = words[0].charAt(0).toUpperCase() + words[0].slice(1).toLowerCase();
-  
-  // Full text as description
-  const description = text.trim();
+  const at = description.match(new RegExp(`(?:^|\\s)(?:at\\s+|@\\s*)([${LETTER}0-9&'.-]+(?:\\s+[${LETTER}0-9&'.-]+){0,2})`, 'i'));
+  const connector = /^(to|for|from|with|and|at|do|na|z|ze|dla|i|-|–)$/i;
+  const leading: string[] = [];
+  for (const word of description.split(' ')) {
+    if (connector.test(word) || leading.length === 3) break;
+    leading.push(word.replace(/[,;:]$/, ''));
+    if (/[,;:]$/.test(word)) break;
+  }
+
+  const name = at ? at[1] : leading.join(' ');
+  const vendor = name.charAt(0).toUpperCase() + name.slice(1);
 
-  return { vendor, description };
+  return { vendor: vendor || null, description };
 }
 
-/**
- * Parse quick add input string into expense data
- */
-export function parseQuickAdd(input: string, defaultCurrency: string = 'PLN'): ParsedExpense {
-  let text = input.trim();
-  
+function parseLine(input: string, defaultCurrency: string, today: Date): { expense: ParsedExpense; hasDate: boolean } {
+  let text = input.trim().replace(/^(?:[-*•]|\d{1,2}[.)])\s+/, '');
+
   if (!text) {
     throw new Error('Input cannot be empty');
   }
 
-  // Extract amount (last number in string)
-  const { amount, remainingText: textAfterAmount } = extractAmount(text);
+  const referenceDay = startOfDay(today);
+
+  // Flags first: "firmowa" or "private" must not end up in the vendor name
+  const companyCard = take(text, COMPANY_CARD);
+  text = companyCard.text;
+  const noReimburse = take(text, NO_REIMBURSE);
+  text = noReimburse.text;
+  let cardSource: ParsedExpense['cardSource'] = null;
+  for (const [pattern, source] of CARD_SOURCES) {
+    const result = take(text, pattern);
+    if (result.match) {
+      cardSource = source;
+      text = result.text;
+      break;
+    }
+  }
+
+  const { date, text: textAfterDate } = extractDate(text, referenceDay);
+  const { amount, currency, text: textAfterAmount } = extractAmountAndCurrency(textAfterDate);
   if (amount === null) {
     throw new Error('Could not find amount in input');
   }
 
-  // Extract currency
-  const { currency, remainingText: textAfterCurrency } = extractCurrency(textAfterAmount || text);
-  const finalCurrency = currency || defaultCurrency;
-
-  // Detect category
-  const category = detectCategory(textAfterCurrency || text);
-
-  // Extract vendor and description (use original text minus amount/currency)
-  // Try to remove amount pattern and currency from original
-  let cleanText = text;
-  if (textAfterCurrency) {
-    cleanText = textAfterCurrency;
-  } else if (textAfterAmount) {
-    cleanText = textAfterAmount;
-  }
-  
-  const { vendor, description } = extractVendorAndDescription(cleanText || text);
+  const { vendor, description } = extractVendorAndDescription(textAfterAmount);
 
   return {
-    vendor,
-    description: description || input.trim(),
-    amount,
-    currency: finalCurrency,
-    category,
-    date: new Date(), // Default to today
+    expense: {
+      vendor,
+      description: description || input.trim(),
+      amount,
+      currency: currency || defaultCurrency,
+      category: detectCategory(input),
+      date: date || referenceDay,
+      paidByCompanyCard: !!companyCard.match,
+      excludeFromReimbursement: !!noReimburse.match,
+      cardSource,
+    },
+    hasDate: date !== null,
   };
 }
 
+/**
+ * Parse quick add input string into expense data
+ */
+export function parseQuickAdd(input: string, defaultCurrency: string = 'PLN', today: Date = new Date()): ParsedExpense {
+  return parseLine(input, defaultCurrency, today).expense;
+}
+
+/**
+ * Parse several expenses pasted at once: one per line (or separated by ";").
+ * A line holding only a date ("12.03:" or "Monday") sets the date for the lines below it.
+ */
+export function parseQuickAddBatch(input: string, defaultCurrency: string = 'PLN', today: Date = new Date()): QuickAddBatchResult {
+  const result: QuickAddBatchResult = { expenses: [], errors: [] };
+  let sectionDate: Date | null = null;
+
+  input.split(/\r?\n/).forEach((rawLine, index) => {
+    rawLine.split(';').forEach(part => {
+      const line = part.trim();
+      if (!line) return;
+
+      const header = extractDate(line, startOfDay(today), true);
+      if (header.date && !/[^\s:–—-]/.test(header.text)) {
+        sectionDate = header.date;
+        return;
+      }
+
+      try {
+        const { expense, hasDate } = parseLine(line, defaultCurrency, today);
+        result.expenses.push(hasDate || !sectionDate ? expense : { ...expense, date: sectionDate });
+      } catch (error) {
+        result.errors.push({ line: index + 1, input: line, error: error instanceof Error ? error.message : 'Invalid line' });
+      }
+    });
+  });
+
+  return result;
+}
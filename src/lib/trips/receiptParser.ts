@@ -0,0 +1,267 @@
+/**
+ * Receipt field extraction from OCR text: vendor, date, total, currency and VAT with a
+ * confidence per field. Handles English and Arabic receipts (UAE/KSA) as well as Polish
+ * ones; Arabic-Indic digits are normalised before parsing.
+ */
+
+export interface ReceiptField<T> {
+  value: T;
+  /** 0..1 */
+  confidence: number;
+}
+
+export interface ReceiptExtraction {
+  vendor: ReceiptField<string> | null;
+  /** ISO date (yyyy-MM-dd) */
+  date: ReceiptField<string> | null;
+  total: ReceiptField<number> | null;
+  currency: ReceiptField<string> | null;
+  vat: ReceiptField<number> | null;
+  vatRate: number | null;
+  language: 'ar' | 'en' | 'mixed' | 'unknown';
+  /** Overall confidence, 0..1: OCR quality times how much of the receipt was understood */
+  confidence: number;
+}
+
+const ARABIC_LETTER = /[؀-ۿ]/g;
+const LATIN_LETTER = /[A-Za-z]/g;
+
+/** Arabic-Indic and Eastern Arabic-Indic digits, separators and percent sign to ASCII */
+export function normaliseReceiptText(text: string): string {
+  return text
+    .replace(/[٠-٩]/g, d => String(d.charCodeAt(0) - 0x0660))
+    .replace(/[۰-۹]/g, d => String(d.charCodeAt(0) - 0x06F0))
+    .replace(/٫/g, '.')
+    .replace(/٬/g, ',')
+    .replace(/٪/g, '%')
+    .replace(/،/g, ',')
+    .replace(/\r/g, '');
+}
+
+// Ordered by how reliably the line holds the amount paid
+const TOTAL_KEYWORDS: { pattern: RegExp; confidence: number }[] = [
+  { pattern: /grand\s*total|total\s*(amount\s*)?(incl|inc\.|including|with\s*vat)|amount\s*due|balance\s*due|total\s*payable|net\s*payable/i, confidence: 0.9 },
+  { pattern: /الإجمالي\s*شامل|الاجمالي\s*شامل|المبلغ\s*المستحق|الإجمالي\s*المستحق|المجموع\s*الكلي|الإجمالي\s*الكلي/, confidence: 0.9 },
+  { pattern: /do\s*zapłaty|suma\s*pln|razem\s*do\s*zapłaty/i, confidence: 0.9 },
+  { pattern: /\btotal\b|\bamount\b/i, confidence: 0.75 },
+  { pattern: /الإجمالي|الاجمالي|إجمالي|اجمالي|المجموع|المبلغ/, confidence: 0.75 },
+  { pattern: /\bsuma\b|\brazem\b/i, confidence: 0.7 },
+];
+
+// Lines mentioning a total that is not the amount paid
+const NOT_TOTAL = /sub\s*-?\s*total|total\s*(before|excl|excluding|without)|total\s*vat|vat\s*total|total\s*tax|total\s*qty|total\s*items|total\s*discount|vat\s*amount|tax\s*amount|قبل\s*الضريبة|غير\s*شامل|المجموع\s*الفرعي|(قيمة|مبلغ|إجمالي|اجمالي)\s*الضريبة/i;
+
+const VAT_LINE = /\bvat\b|\btax\b|\bptu\b|ضريبة\s*القيمة\s*المضافة|ضريبة|ض\.?\s*ق\.?\s*م/i;
+const NOT_VAT = /\btrn\b|tax\s*(registration|reg|invoice|id|no)|vat\s*(reg|no|number|id)|رقم\s*(التسجيل|ضريبي)|الرقم\s*الضريبي|فاتورة\s*ضريبية|incl|excl|before|قبل|شامل/i;
+
+const CURRENCY_PATTERNS: { currency: string; pattern: RegExp }[] = [
+  { currency: 'AED', pattern: /\baed\b|\bdhs?\b|\bdirhams?\b|درهم|د\.\s*إ/gi },
+  { currency: 'SAR', pattern: /\bsar\b|\bs\.?r\.?\b|\briyals?\b|ريال|ر\.\s*س/gi },
+  { currency: 'EUR', pattern: /\beur\b|€/gi },
+  { currency: 'USD', pattern: /\busd\b|us\$|\$/gi },
+  { currency: 'GBP', pattern: /\bgbp\b|£/gi },
+  { currency: 'PLN', pattern: /\bpln\b|zł/gi },
+];
+
+const MONTHS: Record<string, number> = {
+  jan: 1, feb: 2, mar: 3, apr: 4, may: 5, jun: 6, jul: 7, aug: 8, sep: 9, sept: 9, oct: 10, nov: 11, dec: 12,
+};
+
+const VENDOR_SKIP = /tax\s*invoice|simplified|receipt|invoice|\btrn\b|\bvat\b|\btel\b|phone|fax|www\.|@|\bdate\b|\btime\b|cashier|table|order|فاتورة|ضريبية|هاتف|التاريخ|الرقم|paragon|fiskalny|\bnip\b/i;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Parse an amount written as 1,234.50 / 1.234,50 / 1 234,50 / 234.5
+ */
+export function parseReceiptAmount(raw: string): number | null {
+  let value = raw.replace(/\s/g, '');
+  const lastComma = value.lastIndexOf(',');
+  const lastDot = value.lastIndexOf('.');
+  if (lastComma > lastDot) {
+    // Comma as decimal separator unless it groups thousands (1,234)
+    value = /,\d{3}$/.test(value) && lastDot === -1 && value.length > 4
+      ? value.replace(/,/g, '')
+      : value.replace(/\./g, '').replace(',', '.');
+  } else {
+    value = value.replace(/,/g, '');
+  }
+  const amount = parseFloat(value);
+  return isNaN(amount) ? null : round2(amount);
+}
+
+const AMOUNT_PATTERN = /\d{1,3}(?:[ ,.]\d{3})*(?:[.,]\d{1,3})|\d+(?:[.,]\d{1,3})?/g;
+
+/** Amounts on a line, ignoring percentages, dates and long identifiers */
+function lineAmounts(line: string): number[] {
+  const cleaned = line
+    .replace(/\d{1,2}[/.-]\d{1,2}[/.-]\d{2,4}/g, ' ')
+    .replace(/\d{1,2}:\d{2}(:\d{2})?/g, ' ')
+    .replace(/\d+(?:[.,]\d+)?\s*%/g, ' ')
+    .replace(/\d{7,}/g, ' ');
+  return (cleaned.match(AMOUNT_PATTERN) || [])
+    .map(parseReceiptAmount)
+    .filter((amount): amount is number => amount !== null && amount > 0);
+}
+
+function detectLanguage(text: string): ReceiptExtraction['language'] {
+  const arabic = (text.match(ARABIC_LETTER) || []).length;
+  const latin = (text.match(LATIN_LETTER) || []).length;
+  if (arabic === 0 && latin === 0) return 'unknown';
+  if (arabic > latin * 3) return 'ar';
+  if (latin > arabic * 3) return 'en';
+  return 'mixed';
+}
+
+function findTotal(lines: string[]): ReceiptField<number> | null {
+  let best: ReceiptField<number> | null = null;
+  lines.forEach((line, index) => {
+    if (NOT_TOTAL.test(line)) return;
+    const keyword = TOTAL_KEYWORDS.find(k => k.pattern.test(line));
+    if (!keyword) return;
+    // The amount is on the keyword line, or on the next one in two-column layouts
+    const amounts = lineAmounts(line);
+    const amount = amounts.length > 0 ? amounts[amounts.length - 1] : lineAmounts(lines[index + 1] || '')[0];
+    if (amount === undefined) return;
+    // Later lines win on equal confidence: the final total sits below subtotals
+    if (!best || keyword.confidence >= best.confidence) {
+      best = { value: amount, confidence: keyword.confidence };
+    }
+  });
+  if (best) return best;
+
+  // No labelled total: the largest amount on the receipt
+  const amounts = lines.flatMap(lineAmounts);
+  return amounts.length > 0 ? { value: Math.max(...amounts), confidence: 0.35 } : null;
+}
+
+function findVat(lines: string[], total: number | null): { vat: ReceiptField<number> | null; rate: number | null } {
+  let rate: number | null = null;
+  let vat: ReceiptField<number> | null = null;
+  for (const line of lines) {
+    if (!VAT_LINE.test(line) || NOT_VAT.test(line)) continue;
+    const rateMatch = line.match(/(\d{1,2}(?:[.,]\d+)?)\s*%/);
+    if (rateMatch && rate === null) rate = parseFloat(rateMatch[1].replace(',', '.'));
+    const amounts = lineAmounts(line);
+    if (amounts.length === 0) continue;
+    // On "VAT 5% 12.00 252.00" style lines the tax is the smaller figure
+    const amount = Math.min(...amounts);
+    const plausible = total === null || amount < total * 0.3;
+    vat = { value: amount, confidence: plausible ? 0.8 : 0.3 };
+    if (plausible) break;
+  }
+  // Cross-check against the rate: VAT = total * rate / (100 + rate)
+  if (vat && rate !== null && total !== null) {
+    const expected = round2((total * rate) / (100 + rate));
+    if (Math.abs(expected - vat.value) <= 0.05) vat.confidence = 0.95;
+  }
+  return { vat, rate };
+}
+
+function findCurrency(text: string, lines: string[], totalLineCurrency: string | null): ReceiptField<string> | null {
+  if (totalLineCurrency) return { value: totalLineCurrency, confidence: 0.9 };
+  const counts = CURRENCY_PATTERNS
+    .map(({ currency, pattern }) => ({ currency, count: (text.match(pattern) || []).length }))
+    .filter(c => c.count > 0)
+    .sort((a, b) => b.count - a.count);
+  if (counts.length > 0) return { value: counts[0].currency, confidence: counts.length === 1 ? 0.75 : 0.55 };
+
+  // UAE tax registration numbers are 15 digits starting with 100
+  if (lines.some(line => /\b100\d{12}\b/.test(line))) return { value: 'AED', confidence: 0.4 };
+  return null;
+}
+
+function currencyOnLine(line: string): string | null {
+  const match = CURRENCY_PATTERNS.find(({ pattern }) => new RegExp(pattern.source, 'i').test(line));
+  return match?.currency || null;
+}
+
+function isoDate(year: number, month: number, day: number): string | null {
+  if (year < 100) year += 2000;
+  if (month < 1 || month > 12 || day < 1 || day > 31 || year < 2000 || year > 2100) return null;
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1) return null;
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+function findDate(lines: string[]): ReceiptField<string> | null {
+  let best: ReceiptField<string> | null = null;
+  const consider = (value: string | null, confidence: number, labelled: boolean) => {
+    if (!value) return;
+    const score = labelled ? Math.min(confidence + 0.1, 0.95) : confidence;
+    if (!best || score > best.confidence) best = { value, confidence: score };
+  };
+
+  for (const line of lines) {
+    const labelled = /date|التاريخ|تاريخ|data/i.test(line);
+
+    for (const m of line.matchAll(/\b(\d{4})[/.-](\d{1,2})[/.-](\d{1,2})\b/g)) {
+      consider(isoDate(+m[1], +m[2], +m[3]), 0.85, labelled);
+    }
+    for (const m of line.matchAll(/\b(\d{1,2})[/.-](\d{1,2})[/.-](\d{4}|\d{2})\b/g)) {
+      const a = +m[1];
+      const b = +m[2];
+      // Day-first unless that is impossible; UAE and Poland both write dd/mm
+      if (a > 12) consider(isoDate(+m[3], b, a), 0.8, labelled);
+      else if (b > 12) consider(isoDate(+m[3], a, b), 0.7, labelled);
+      else consider(isoDate(+m[3], b, a), 0.6, labelled);
+    }
+    for (const m of line.matchAll(/\b(\d{1,2})[\s-]*([A-Za-z]{3,9})[\s,-]*(\d{4})\b/g)) {
+      const month = MONTHS[m[2].slice(0, 4).toLowerCase()] || MONTHS[m[2].slice(0, 3).toLowerCase()];
+      if (month) consider(isoDate(+m[3], month, +m[1]), 0.85, labelled);
+    }
+    for (const m of line.matchAll(/\b([A-Za-z]{3,9})\s+(\d{1,2}),?\s+(\d{4})\b/g)) {
+      const month = MONTHS[m[1].slice(0, 4).toLowerCase()] || MONTHS[m[1].slice(0, 3).toLowerCase()];
+      if (month) consider(isoDate(+m[3], month, +m[2]), 0.85, labelled);
+    }
+  }
+  return best;
+}
+
+function findVendor(lines: string[]): ReceiptField<string> | null {
+  for (const line of lines.slice(0, 6)) {
+    const letters = (line.match(ARABIC_LETTER) || []).length + (line.match(LATIN_LETTER) || []).length;
+    if (letters < 3 || letters < line.replace(/\s/g, '').length / 2) continue;
+    if (VENDOR_SKIP.test(line)) continue;
+    const value = line.replace(/\s{2,}/g, ' ').trim();
+    return { value, confidence: value === value.toUpperCase() && /[A-Z]/.test(value) ? 0.7 : 0.6 };
+  }
+  return null;
+}
+
+/**
+ * Extract receipt fields from OCR text. `ocrConfidence` (0..1) scales every field.
+ */
+export function parseReceiptText(text: string, ocrConfidence = 1): ReceiptExtraction {
+  const normalised = normaliseReceiptText(text);
+  const lines = normalised.split('\n').map(line => line.trim()).filter(Boolean);
+
+  const total = findTotal(lines);
+  const totalLine = total ? lines.find(line => lineAmounts(line).includes(total.value)) : undefined;
+  const currency = findCurrency(normalised, lines, totalLine ? currencyOnLine(totalLine) : null);
+  const { vat, rate } = findVat(lines, total?.value ?? null);
+  const date = findDate(lines);
+  const vendor = findVendor(lines);
+
+  const scale = <T>(field: ReceiptField<T> | null): ReceiptField<T> | null =>
+    field ? { value: field.value, confidence: round2(field.confidence * ocrConfidence) } : null;
+
+  const scaled = {
+    vendor: scale(vendor),
+    date: scale(date),
+    total: scale(total),
+    currency: scale(currency),
+    vat: scale(vat),
+  };
+
+  // VAT is often absent on small receipts, so it does not count towards the overall score
+  const core = [scaled.vendor, scaled.date, scaled.total, scaled.currency];
+  const confidence = round2(core.reduce((sum, field) => sum + (field?.confidence || 0), 0) / core.length);
+
+  return {
+    ...scaled,
+    vatRate: rate,
+    language: detectLanguage(normalised),
+    confidence,
+  };
+}
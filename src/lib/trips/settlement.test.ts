@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import type { FinanceTrip, FinanceTripItem } from '@/features/finance-trips/db/trips';
+import { createFxConverter } from '@/server/finance/fx/rates';
+import { buildTripSettlement } from './settlement';
+
+const trip: FinanceTrip = {
+  id: 'trip-1',
+  org_id: 'org-1',
+  title: 'Berlin',
+  start_date: '2026-03-02',
+  end_date: '2026-03-04',
+  status: 'draft',
+  departure_at: '2026-03-02T08:00:00Z',
+  return_at: '2026-03-04T18:00:00Z',
+  destination_country: 'DE',
+  nights_without_invoice: 1,
+  created_at: '2026-03-01T00:00:00Z',
+  updated_at: '2026-03-01T00:00:00Z',
+};
+
+const taxi: FinanceTripItem = {
+  id: 'item-1',
+  org_id: 'org-1',
+  trip_id: 'trip-1',
+  source: 'manual',
+  transaction_id: null,
+  item_date: '2026-03-02',
+  vendor: 'Taxi',
+  description: null,
+  category: 'transport',
+  amount: 100,
+  currency: 'PLN',
+  paid_by_company_card: false,
+  exclude_from_reimbursement: false,
+  card_source: null,
+  created_at: '2026-03-02T09:00:00Z',
+};
+
+const fx = createFxConverter([
+  { rateDate: '2026-03-05', currency: 'EUR', rate: 4.3, tableNo: '045/A/NBP/2026' },
+  { rateDate: '2026-03-06', currency: 'EUR', rate: 4.4, tableNo: '046/A/NBP/2026' },
+]);
+
+describe('foreign trip settlement', () => {
+  it('converts the per diem and lump sums at the NBP rate of the settlement date', () => {
+    const settlement = buildTripSettlement(trip, [taxi], [], { fx, settlementDate: '2026-03-05' });
+
+    expect(settlement.allowances.map(line => [line.kind, line.amount, line.currency, line.amountBase])).toEqual([
+      ['per_diem', 122.5, 'EUR', 526.75],
+      ['accommodation_lump_sum', 37.5, 'EUR', 161.25],
+    ]);
+    expect(settlement.allowances[0]).toMatchObject({ fxRate: 4.3, fxRateDate: '2026-03-05' });
+    expect(settlement.missingFx).toBe(0);
+    expect(settlement.totalBase).toBe(788);
+    expect(settlement.reimbursableBase).toBe(788);
+    expect(settlement.currencyTotals).toEqual([
+      { currency: 'EUR', total: 160, reimbursable: 160 },
+      { currency: 'PLN', total: 100, reimbursable: 100 },
+    ]);
+  });
+
+  it('counts the allowances as missing FX when no rate covers the settlement date', () => {
+    const settlement = buildTripSettlement(trip, [taxi], [], { fx, settlementDate: '2026-02-01' });
+
+    expect(settlement.allowances.every(line => line.amountBase === null)).toBe(true);
+    expect(settlement.missingFx).toBe(2);
+    expect(settlement.totalBase).toBe(100);
+  });
+});
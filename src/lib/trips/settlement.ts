@@ -0,0 +1,211 @@
+/**
+ * Trip settlement (rozliczenie delegacji): numbered expense items grouped by category and
+ * currency, totals per currency and in the base currency, the reimbursable amount and the
+ * receipt annexes cross-referenced by item number. Pure data for the printable report.
+ */
+
+import type { FinanceTrip, FinanceTripItem, FinanceTripEvidence } from '@/features/finance-trips/db/trips';
+import type { FxConverter } from '@/server/finance/fx/rates';
+import { computeTripAllowances, type TripAllowanceLine } from './allowances';
+import { EXPENSE_CATEGORIES } from './constants';
+
+export const SETTLEMENT_BASE_CURRENCY = 'PLN';
+
+export interface SettlementItem {
+  /** 1-based position in the report, by date */
+  number: number;
+  item: FinanceTripItem;
+  reimbursable: boolean;
+  /** Amount in the base currency, null when no FX rate is known yet */
+  amountBase: number | null;
+  /** Annex numbers holding this item's receipts */
+  annexes: number[];
+}
+
+export interface SettlementAllowance extends TripAllowanceLine {
+  /** Amount in the base currency at the NBP rate of the settlement date, null without a rate */
+  amountBase: number | null;
+  fxRate: number | null;
+  fxRateDate: string | null;
+}
+
+export interface SettlementGroup {
+  /** Category label */
+  category: string;
+  currency: string;
+  items: SettlementItem[];
+  total: number;
+}
+
+export interface SettlementCurrencyTotal {
+  currency: string;
+  total: number;
+  reimbursable: number;
+}
+
+export interface SettlementAnnex {
+  number: number;
+  itemNumber: number | null;
+  evidence: FinanceTripEvidence;
+}
+
+export interface TripSettlement {
+  groups: SettlementGroup[];
+  allowances: SettlementAllowance[];
+  currencyTotals: SettlementCurrencyTotal[];
+  baseCurrency: string;
+  /** Date of the report; foreign allowances are converted at the NBP rate for it */
+  settlementDate: string;
+  /** Expenses plus allowances converted to the base currency */
+  totalBase: number;
+  reimbursableBase: number;
+  /** Items and allowances left out of the base totals for lack of an FX rate */
+  missingFx: number;
+  annexes: SettlementAnnex[];
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+function toBase(amount: number, currency: string, item: FinanceTripItem): number | null {
+  if (currency === SETTLEMENT_BASE_CURRENCY) return amount;
+  if (item.amount_base != null) return Math.abs(item.amount_base);
+  if (item.fx_rate) return amount * item.fx_rate;
+  return null;
+}
+
+export interface BuildTripSettlementOptions {
+  /** NBP rates covering the settlement date, for allowances paid in a foreign currency */
+  fx?: FxConverter | null;
+  /** YYYY-MM-DD, today by default */
+  settlementDate?: string;
+}
+
+/** Annex files that can be rendered into the report: images and PDFs */
+export function isAnnexFile(evidence: FinanceTripEvidence): boolean {
+  return evidence.mime_type.startsWith('image/') || evidence.mime_type === 'application/pdf';
+}
+
+export function buildTripSettlement(
+  trip: FinanceTrip,
+  items: FinanceTripItem[],
+  evidence: FinanceTripEvidence[],
+  options: BuildTripSettlementOptions = {}
+): TripSettlement {
+  const settlementDate = options.settlementDate ?? new Date().toISOString().slice(0, 10);
+
+  const sortedItems = [...items].sort((a, b) =>
+    (a.item_date || '9999').localeCompare(b.item_date || '9999') || a.created_at.localeCompare(b.created_at)
+  );
+
+  // Annexes follow item order; receipts not attached to an item go last
+  const evidenceByItem = new Map<string, FinanceTripEvidence[]>();
+  const unassigned: FinanceTripEvidence[] = [];
+  [...evidence]
+    .filter(isAnnexFile)
+    .sort((a, b) => a.created_at.localeCompare(b.created_at))
+    .forEach(ev => {
+      if (ev.trip_item_id && items.some(item => item.id === ev.trip_item_id)) {
+        evidenceByItem.set(ev.trip_item_id, [...(evidenceByItem.get(ev.trip_item_id) || []), ev]);
+      } else {
+        unassigned.push(ev);
+      }
+    });
+
+  const annexes: SettlementAnnex[] = [];
+  const settlementItems: SettlementItem[] = sortedItems.map((item, index) => {
+    const number = index + 1;
+    const itemAnnexes = (evidenceByItem.get(item.id) || []).map(ev => {
+      annexes.push({ number: annexes.length + 1, itemNumber: number, evidence: ev });
+      return annexes.length;
+    });
+    const amount = Math.abs(item.amount);
+    return {
+      number,
+      item,
+      reimbursable: !item.paid_by_company_card && !item.exclude_from_reimbursement,
+      amountBase: toBase(amount, item.currency || SETTLEMENT_BASE_CURRENCY, item),
+      annexes: itemAnnexes,
+    };
+  });
+  unassigned.forEach(ev => annexes.push({ number: annexes.length + 1, itemNumber: null, evidence: ev }));
+
+  // Group by category, then currency
+  const groupMap = new Map<string, SettlementGroup>();
+  settlementItems.forEach(entry => {
+    const category = EXPENSE_CATEGORIES.find(c => c.value === entry.item.category)?.label
+      || entry.item.category
+      || 'Inne';
+    const currency = entry.item.currency || SETTLEMENT_BASE_CURRENCY;
+    const key = `${category}|${currency}`;
+    if (!groupMap.has(key)) groupMap.set(key, { category, currency, items: [], total: 0 });
+    const group = groupMap.get(key)!;
+    group.items.push(entry);
+    group.total = round2(group.total + Math.abs(entry.item.amount));
+  });
+  const groups = [...groupMap.values()].sort((a, b) =>
+    a.category.localeCompare(b.category, 'pl') || a.currency.localeCompare(b.currency)
+  );
+
+  // Allowances have no item of their own, so they take the rate of the settlement date
+  const allowances: SettlementAllowance[] = computeTripAllowances(trip).lines.map(line => {
+    const conversion = line.currency === SETTLEMENT_BASE_CURRENCY
+      ? { amountBase: line.amount, fxRate: null, fxRateDate: null }
+      : options.fx?.convert(line.amount, line.currency, settlementDate) ?? null;
+    return {
+      ...line,
+      amountBase: conversion?.amountBase ?? null,
+      fxRate: conversion?.fxRate ?? null,
+      fxRateDate: conversion?.fxRateDate ?? null,
+    };
+  });
+
+  const currencyMap = new Map<string, SettlementCurrencyTotal>();
+  const currencyTotal = (currency: string) => {
+    if (!currencyMap.has(currency)) currencyMap.set(currency, { currency, total: 0, reimbursable: 0 });
+    return currencyMap.get(currency)!;
+  };
+
+  let totalBase = 0;
+  let reimbursableBase = 0;
+  let missingFx = 0;
+
+  settlementItems.forEach(entry => {
+    const amount = Math.abs(entry.item.amount);
+    const total = currencyTotal(entry.item.currency || SETTLEMENT_BASE_CURRENCY);
+    total.total = round2(total.total + amount);
+    if (entry.reimbursable) total.reimbursable = round2(total.reimbursable + amount);
+
+    if (entry.amountBase === null) {
+      missingFx++;
+      return;
+    }
+    totalBase += entry.amountBase;
+    if (entry.reimbursable) reimbursableBase += entry.amountBase;
+  });
+
+  // Allowances are always reimbursable
+  allowances.forEach(line => {
+    const total = currencyTotal(line.currency);
+    total.total = round2(total.total + line.amount);
+    total.reimbursable = round2(total.reimbursable + line.amount);
+
+    if (line.amountBase === null) {
+      missingFx++;
+      return;
+    }
+    totalBase += line.amountBase;
+    reimbursableBase += line.amountBase;
+  });
+
+  return {
+    groups,
+    allowances,
+    currencyTotals: [...currencyMap.values()].sort((a, b) => a.currency.localeCompare(b.currency)),
+    baseCurrency: SETTLEMENT_BASE_CURRENCY,
+    settlementDate,
+    totalBase: round2(totalBase),
+    reimbursableBase: round2(reimbursableBase),
+    missingFx,
+    annexes,
+  };
+}
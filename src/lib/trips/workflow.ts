@@ -0,0 +1,72 @@
+/**
+ * Trip approval workflow: allowed status transitions and what each status permits
+ */
+
+export type TripStatus = 'draft' | 'submitted' | 'approved' | 'rejected' | 'reimbursed';
+
+export type TripAction = 'submit' | 'withdraw' | 'approve' | 'reject' | 'reimburse';
+
+export const TRIP_STATUS_LABELS: Record<TripStatus, string> = {
+  draft: 'Szkic',
+  submitted: 'Złożona',
+  approved: 'Zatwierdzona',
+  rejected: 'Odrzucona',
+  reimbursed: 'Rozliczona',
+};
+
+export const TRIP_STATUS_STYLES: Record<TripStatus, string> = {
+  draft: 'bg-yellow-500/20 text-yellow-400',
+  submitted: 'bg-blue-500/20 text-blue-400',
+  approved: 'bg-purple-500/20 text-purple-400',
+  rejected: 'bg-red-500/20 text-red-400',
+  reimbursed: 'bg-green-500/20 text-green-400',
+};
+
+export const TRIP_ACTIONS: Record<TripAction, { from: TripStatus[]; to: TripStatus; label: string }> = {
+  submit: { from: ['draft', 'rejected'], to: 'submitted', label: 'Złóż do akceptacji' },
+  withdraw: { from: ['submitted'], to: 'draft', label: 'Wycofaj' },
+  approve: { from: ['submitted'], to: 'approved', label: 'Zatwierdź' },
+  reject: { from: ['submitted'], to: 'rejected', label: 'Odrzuć' },
+  reimburse: { from: ['approved'], to: 'reimbursed', label: 'Oznacz jako rozliczoną' },
+};
+
+/** Statuses in which the trip and its items cannot be edited */
+const LOCKED_STATUSES: TripStatus[] = ['submitted', 'approved', 'reimbursed'];
+
+export function isTripLocked(status: TripStatus): boolean {
+  return LOCKED_STATUSES.includes(status);
+}
+
+export function availableTripActions(status: TripStatus): TripAction[] {
+  return (Object.keys(TRIP_ACTIONS) as TripAction[]).filter(action => TRIP_ACTIONS[action].from.includes(status));
+}
+
+export interface TripTransitionInput {
+  action: TripAction;
+  status: TripStatus;
+  itemsCount: number;
+  comment?: string | null;
+  itemComments?: Record<string, string>;
+  reimbursementTransactionId?: string | null;
+}
+
+/**
+ * Reason the transition is not allowed, or null
+ */
+export function validateTripTransition(input: TripTransitionInput): string | null {
+  const transition = TRIP_ACTIONS[input.action];
+  if (!transition.from.includes(input.status)) {
+    return `Cannot ${input.action} a trip that is ${input.status}`;
+  }
+  if (input.action === 'submit' && input.itemsCount === 0) {
+    return 'A trip without expenses cannot be submitted';
+  }
+  const hasItemComments = Object.values(input.itemComments || {}).some(comment => comment.trim());
+  if (input.action === 'reject' && !input.comment?.trim() && !hasItemComments) {
+    return 'A rejection needs a comment on the trip or on at least one item';
+  }
+  if (input.action === 'reimburse' && !input.reimbursementTransactionId) {
+    return 'Select the outgoing transaction that paid the reimbursement';
+  }
+  return null;
+}
@@ -0,0 +1,522 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  PUBLIC_BUCKET,
+  isPublicBucket,
+  parsePublicUrl,
+  registerBlob,
+  sha256Hex,
+  type FileBlob,
+} from '@/lib/fileBlobs';
+import { isTripLocked, type TripStatus } from '@/lib/trips/workflow';
+
+/** Tables whose rows point at a stored file through blob_id */
+export const BLOB_TABLES = ['documents', 'evidence', 'finance_trip_evidence', 'timeline_attachments'] as const;
+export type BlobTable = (typeof BLOB_TABLES)[number];
+
+const SELECT_COLUMNS: Record<BlobTable, string> = {
+  documents: 'id, blob_id, title, file_name, file_url, storage_path, organisation_id, created_at',
+  evidence: 'id, blob_id, file_name, storage_bucket, storage_path, project_id, created_at',
+  finance_trip_evidence: 'id, blob_id, file_name, storage_bucket, storage_path, trip_id, trip_item_id, created_at',
+  timeline_attachments: 'id, blob_id, file_name, file_url, timeline_item_id, created_at',
+};
+
+/** Rows hashed per scan call, so one request stays well within the function timeout */
+const SCAN_BATCH_SIZE = 20;
+
+/** PostgREST returns at most 1000 rows per select */
+const PAGE_SIZE = 1000;
+
+export interface BlobReference {
+  table: BlobTable;
+  id: string;
+  name: string;
+  /** Rows are only merged within the same scope (organisation, project, trip item, timeline item) */
+  scope: string | null;
+  bucket: string | null;
+  path: string | null;
+  url: string | null;
+  createdAt: string;
+}
+
+export interface DuplicateGroup {
+  blob: FileBlob;
+  references: BlobReference[];
+}
+
+export interface ScanCursor {
+  table: BlobTable;
+  afterId: string | null;
+}
+
+export interface ScanResult {
+  /** null when every table has been scanned */
+  cursor: ScanCursor | null;
+  hashed: number;
+  failed: number;
+}
+
+export interface MergeResult {
+  documentsMerged: number;
+  evidenceMerged: number;
+  tripEvidenceMerged: number;
+  attachmentsMerged: number;
+  filesRemoved: number;
+}
+
+/** A row of one of the BLOB_TABLES, as selected by SELECT_COLUMNS */
+type BlobRow = Record<string, string | null> & { id: string; created_at: string };
+
+function toReference(table: BlobTable, row: BlobRow): BlobReference {
+  switch (table) {
+    case 'documents': {
+      // storage_path of old documents may hold the public URL itself
+      const location = parsePublicUrl(row.file_url) || parsePublicUrl(row.storage_path);
+      return {
+        table,
+        id: row.id,
+        name: row.title || row.file_name || 'Untitled',
+        scope: row.organisation_id,
+        bucket: location?.bucket || PUBLIC_BUCKET,
+        path: location?.path || row.storage_path,
+        url: row.file_url,
+        createdAt: row.created_at,
+      };
+    }
+    case 'timeline_attachments': {
+      const location = parsePublicUrl(row.file_url);
+      return {
+        table,
+        id: row.id,
+        name: row.file_name || 'Untitled',
+        scope: row.timeline_item_id,
+        bucket: location?.bucket || null,
+        path: location?.path || null,
+        url: row.file_url,
+        createdAt: row.created_at,
+      };
+    }
+    case 'evidence':
+      return {
+        table,
+        id: row.id,
+        name: row.file_name || 'Untitled',
+        scope: row.project_id,
+        bucket: row.storage_bucket || 'evidence',
+        path: row.storage_path,
+        url: null,
+        createdAt: row.created_at,
+      };
+    case 'finance_trip_evidence':
+      return {
+        table,
+        id: row.id,
+        name: row.file_name || 'Untitled',
+        scope: row.trip_item_id || `trip:${row.trip_id}`,
+        bucket: row.storage_bucket,
+        path: row.storage_path,
+        url: null,
+        createdAt: row.created_at,
+      };
+  }
+}
+
+const isAtBlob = (ref: BlobReference, blob: FileBlob) =>
+  ref.bucket === blob.storage_bucket && ref.path === blob.storage_path;
+
+/**
+ * Hash the stored files of rows not yet linked to a blob (rows created before the file_blobs
+ * migration) and link them, registering the first copy of each content as its blob.
+ * Call repeatedly with the returned cursor until it is null.
+ */
+export async function scanFileHashes(
+  supabase: SupabaseClient,
+  cursor: ScanCursor | null
+): Promise<ScanResult> {
+  const table = cursor?.table || BLOB_TABLES[0];
+
+  let query = supabase
+    .from(table)
+    .select(`${SELECT_COLUMNS[table]}, mime_type${table === 'documents' ? ', sha256' : ''}`)
+    .is('blob_id', null)
+    .order('id', { ascending: true })
+    .limit(SCAN_BATCH_SIZE);
+  if (cursor?.afterId) query = query.gt('id', cursor.afterId);
+
+  const { data, error } = await query;
+  if (error) throw new Error(`Failed to load ${table}: ${error.message}`);
+  const rows = (data || []) as unknown as BlobRow[];
+
+  let hashed = 0;
+  let failed = 0;
+
+  for (const row of rows) {
+    const ref = toReference(table, row);
+    if (!ref.bucket || !ref.path) {
+      // Not a file in our storage (e.g. an external link)
+      continue;
+    }
+
+    try {
+      const { data: file, error: downloadError } = await supabase.storage.from(ref.bucket).download(ref.path);
+      if (downloadError || !file) throw new Error(downloadError?.message || 'File not found');
+
+      const bytes = await file.arrayBuffer();
+      const sha256 = await sha256Hex(bytes);
+      const location = {
+        storage_bucket: ref.bucket,
+        storage_path: ref.path,
+        file_url: isPublicBucket(ref.bucket)
+          ? ref.url || supabase.storage.from(ref.bucket).getPublicUrl(ref.path).data.publicUrl
+          : null,
+        mime_type: row.mime_type || null,
+        file_size: bytes.byteLength,
+      };
+
+      const blob = await registerBlob(supabase, { sha256, ...location });
+      if (!blob) throw new Error('Failed to register file blob');
+
+      // Prefer a public copy, as in storeBlob: documents and timeline files need its URL
+      if (!blob.file_url && location.file_url) {
+        const { error: moveError } = await supabase
+          .from('file_blobs')
+          .update(location)
+          .eq('id', blob.id);
+        if (moveError) console.error('[scanFileHashes] Error moving file blob:', moveError);
+      }
+
+      let { error: linkError } = await supabase
+        .from(table)
+        .update(table === 'documents' && !row.sha256 ? { blob_id: blob.id, sha256 } : { blob_id: blob.id })
+        .eq('id', row.id);
+      if (linkError?.code === '23505') {
+        // Another document of the organisation already has this sha256 - the merge tool resolves it
+        ({ error: linkError } = await supabase.from(table).update({ blob_id: blob.id }).eq('id', row.id));
+      }
+      if (linkError) throw new Error(linkError.message);
+
+      hashed++;
+    } catch (err) {
+      console.error(`[scanFileHashes] Failed to hash ${table} ${row.id}:`, err);
+      failed++;
+    }
+  }
+
+  let next: ScanCursor | null;
+  if (rows.length === SCAN_BATCH_SIZE) {
+    next = { table, afterId: rows[rows.length - 1].id };
+  } else {
+    const nextTable = BLOB_TABLES[BLOB_TABLES.indexOf(table) + 1];
+    next = nextTable ? { table: nextTable, afterId: null } : null;
+  }
+
+  return { cursor: next, hashed, failed };
+}
+
+async function loadReferences(
+  supabase: SupabaseClient,
+  blobIds?: string[]
+): Promise<Map<string, BlobReference[]>> {
+  const byBlob = new Map<string, BlobReference[]>();
+
+  for (const table of BLOB_TABLES) {
+    for (let from = 0; ; from += PAGE_SIZE) {
+      let query = supabase.from(table).select(SELECT_COLUMNS[table]).not('blob_id', 'is', null);
+      if (blobIds) query = query.in('blob_id', blobIds);
+
+      const { data, error } = await query.order('id').range(from, from + PAGE_SIZE - 1);
+      if (error) throw new Error(`Failed to load ${table}: ${error.message}`);
+
+      for (const row of (data || []) as unknown as BlobRow[]) {
+        const blobId = row.blob_id as string;
+        byBlob.set(blobId, [...(byBlob.get(blobId) || []), toReference(table, row)]);
+      }
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+  }
+
+  return byBlob;
+}
+
+/**
+ * Files stored more than once, or referenced by more than one row
+ */
+export async function findDuplicateGroups(supabase: SupabaseClient): Promise<DuplicateGroup[]> {
+  const byBlob = await loadReferences(supabase);
+  const candidateIds = [...byBlob.keys()];
+
+  const groups: DuplicateGroup[] = [];
+  for (let i = 0; i < candidateIds.length; i += 100) {
+    const { data: blobs, error } = await supabase
+      .from('file_blobs')
+      .select('*')
+      .in('id', candidateIds.slice(i, i + 100));
+    if (error) throw new Error(`Failed to load file blobs: ${error.message}`);
+
+    for (const blob of (blobs || []) as FileBlob[]) {
+      const references = byBlob.get(blob.id) || [];
+      if (references.length > 1 || references.some(ref => !isAtBlob(ref, blob))) {
+        references.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+        groups.push({ blob, references });
+      }
+    }
+  }
+
+  return groups.sort((a, b) => b.references.length - a.references.length);
+}
+
+/** Oldest row of each scope is kept, unless keepId names one */
+function splitByScope(refs: BlobReference[], keepId?: string | null) {
+  const scopes = new Map<string, BlobReference[]>();
+  for (const ref of refs) {
+    const key = ref.scope || 'none';
+    scopes.set(key, [...(scopes.get(key) || []), ref]);
+  }
+
+  return [...scopes.values()]
+    .filter(rows => rows.length > 1)
+    .map(rows => {
+      const sorted = [...rows].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+      const keeper = sorted.find(ref => ref.id === keepId) || sorted[0];
+      return { keeper, duplicates: sorted.filter(ref => ref !== keeper) };
+    });
+}
+
+/**
+ * Deleting a merged document drops its versions, so a document with a version history can only
+ * be the one that is kept. Checked before anything is changed.
+ */
+async function assertDocumentsMergeable(
+  supabase: SupabaseClient,
+  references: BlobReference[],
+  keepDocumentId?: string | null
+) {
+  const duplicates = splitByScope(references.filter(ref => ref.table === 'documents'), keepDocumentId)
+    .flatMap(({ duplicates }) => duplicates);
+  if (duplicates.length === 0) return;
+
+  const { data, error } = await supabase
+    .from('document_versions')
+    .select('document_id')
+    .in('document_id', duplicates.map(ref => ref.id));
+  if (error) throw new Error(`Failed to load document versions: ${error.message}`);
+
+  const versionCounts = new Map<string, number>();
+  for (const row of data || []) {
+    versionCounts.set(row.document_id, (versionCounts.get(row.document_id) || 0) + 1);
+  }
+  const withHistory = duplicates.find(ref => (versionCounts.get(ref.id) || 0) > 1);
+  if (withHistory) {
+    throw new Error(
+      `"${withHistory.name}" has ${versionCounts.get(withHistory.id)} versions; keep it as the merged document or merge it by hand`
+    );
+  }
+}
+
+/** Evidence of submitted, approved or reimbursed trips is locked and stays as it is */
+async function withoutLockedTripEvidence(supabase: SupabaseClient, ids: string[]): Promise<string[]> {
+  const { data, error } = await supabase
+    .from('finance_trip_evidence')
+    .select('id, trip:finance_trips(status)')
+    .in('id', ids);
+  if (error) throw new Error(`Failed to load trip evidence: ${error.message}`);
+
+  const locked = new Set(
+    ((data || []) as unknown as Array<{ id: string; trip: { status: TripStatus } | null }>)
+      .filter(row => row.trip && isTripLocked(row.trip.status))
+      .map(row => row.id)
+  );
+  return ids.filter(id => !locked.has(id));
+}
+
+async function mergeDocument(supabase: SupabaseClient, keeperId: string, duplicateId: string) {
+  const [{ data: keeper }, { data: duplicate }] = await Promise.all([
+    supabase.from('documents').select('*').eq('id', keeperId).single(),
+    supabase.from('documents').select('*').eq('id', duplicateId).single(),
+  ]);
+  if (!keeper || !duplicate) throw new Error('Document not found');
+
+  // Links: the keeper's own active link to the same entity wins, the rest move over
+  const [{ data: keeperLinks }, { data: duplicateLinks }] = await Promise.all([
+    supabase.from('document_links').select('entity_type, entity_id').eq('document_id', keeperId).eq('is_deleted', false),
+    supabase.from('document_links').select('id, entity_type, entity_id, is_deleted').eq('document_id', duplicateId),
+  ]);
+  const linked = new Set((keeperLinks || []).map(l => `${l.entity_type}:${l.entity_id}`));
+  const movableLinkIds = (duplicateLinks || [])
+    .filter(l => l.is_deleted || !linked.has(`${l.entity_type}:${l.entity_id}`))
+    .map(l => l.id);
+  if (movableLinkIds.length > 0) {
+    const { error } = await supabase.from('document_links').update({ document_id: keeperId }).in('id', movableLinkIds);
+    if (error) throw new Error(`Failed to move document links: ${error.message}`);
+  }
+
+  // Transactions cascade on delete, so they must be moved before the duplicate goes
+  const repoints: Array<[string, string]> = [
+    ['finance_transactions', 'source_document_id'],
+    ['finance_import_batches', 'source_document_id'],
+    ['invoice_payment_matches', 'document_id'],
+    ['gmail_attachments', 'linked_document_id'],
+  ];
+  for (const [table, column] of repoints) {
+    const { error } = await supabase.from(table).update({ [column]: keeperId }).eq(column, duplicateId);
+    if (error) throw new Error(`Failed to move ${table}: ${error.message}`);
+  }
+
+  // Keep the Gmail import from bringing the deleted duplicate back
+  if (duplicate.source_gmail_attachment_id) {
+    await supabase
+      .from('gmail_attachments')
+      .update({ linked_document_id: keeperId })
+      .eq('gmail_attachment_id', duplicate.source_gmail_attachment_id);
+  }
+
+  const skipped = new Set(['id', 'sha256', 'created_at', 'updated_at']);
+  const fill: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(duplicate)) {
+    if (!skipped.has(key) && value !== null && value !== '' && (keeper[key] === null || keeper[key] === undefined || keeper[key] === '')) {
+      fill[key] = value;
+    }
+  }
+  if (Object.keys(fill).length > 0) {
+    const { error } = await supabase.from('documents').update(fill).eq('id', keeperId);
+    if (error) console.error('[mergeDuplicateGroup] Error filling document fields:', error);
+  }
+
+  // Its single version and text jobs go with it; empty keeper fields, full_text included, were filled above
+  const { error: deleteError } = await supabase.from('documents').delete().eq('id', duplicateId);
+  if (deleteError) throw new Error(`Failed to delete duplicate document: ${deleteError.message}`);
+}
+
+async function mergeEvidence(supabase: SupabaseClient, keeperId: string, duplicateId: string) {
+  const [{ data: keeperLinks }, { data: duplicateLinks }] = await Promise.all([
+    supabase.from('evidence_links').select('link_type, link_id').eq('evidence_id', keeperId),
+    supabase.from('evidence_links').select('id, link_type, link_id').eq('evidence_id', duplicateId),
+  ]);
+  const linked = new Set((keeperLinks || []).map(l => `${l.link_type}:${l.link_id}`));
+  const movableLinkIds = (duplicateLinks || [])
+    .filter(l => !linked.has(`${l.link_type}:${l.link_id}`))
+    .map(l => l.id);
+  if (movableLinkIds.length > 0) {
+    const { error } = await supabase.from('evidence_links').update({ evidence_id: keeperId }).in('id', movableLinkIds);
+    if (error) throw new Error(`Failed to move evidence links: ${error.message}`);
+  }
+
+  const { error: deleteError } = await supabase.from('evidence').delete().eq('id', duplicateId);
+  if (deleteError) throw new Error(`Failed to delete duplicate evidence: ${deleteError.message}`);
+}
+
+async function isStillReferenced(supabase: SupabaseClient, bucket: string, path: string, url: string | null) {
+  const checks = [
+    supabase.from('documents').select('id', { count: 'exact', head: true }).eq('storage_path', path),
+    supabase.from('document_versions').select('id', { count: 'exact', head: true }).eq('storage_path', path),
+    supabase.from('organisation_documents').select('id', { count: 'exact', head: true }).eq('storage_path', path),
+    supabase.from('evidence').select('id', { count: 'exact', head: true }).eq('storage_bucket', bucket).eq('storage_path', path),
+    supabase.from('finance_trip_evidence').select('id', { count: 'exact', head: true }).eq('storage_bucket', bucket).eq('storage_path', path),
+    supabase.from('file_blobs').select('id', { count: 'exact', head: true }).eq('storage_bucket', bucket).eq('storage_path', path),
+  ];
+  if (url) {
+    checks.push(supabase.from('documents').select('id', { count: 'exact', head: true }).eq('file_url', url));
+    checks.push(supabase.from('timeline_attachments').select('id', { count: 'exact', head: true }).eq('file_url', url));
+  }
+
+  const results = await Promise.all(checks);
+  // When in doubt the file stays
+  return results.some(({ count, error }) => !!error || (count || 0) > 0);
+}
+
+/**
+ * Point every row of a blob at its single stored copy, merge rows that are the same file in the
+ * same place (documents per organisation, evidence per project, trip evidence per trip item,
+ * attachments per timeline item) and remove the copies nothing references any more.
+ */
+export async function mergeDuplicateGroup(
+  supabase: SupabaseClient,
+  blobId: string,
+  keepDocumentId?: string | null
+): Promise<MergeResult> {
+  const { data: blob, error: blobError } = await supabase.from('file_blobs').select('*').eq('id', blobId).maybeSingle();
+  if (blobError) throw new Error(`Failed to load file blob: ${blobError.message}`);
+  if (!blob) throw new Error('File blob not found');
+
+  const references = (await loadReferences(supabase, [blobId])).get(blobId) || [];
+  await assertDocumentsMergeable(supabase, references, keepDocumentId);
+
+  const result: MergeResult = { documentsMerged: 0, evidenceMerged: 0, tripEvidenceMerged: 0, attachmentsMerged: 0, filesRemoved: 0 };
+  const staleCopies = new Map<string, { bucket: string; path: string; url: string | null }>();
+
+  // 1. Re-point every row at the blob's copy (rows linked by URL need the blob to be public)
+  for (const ref of references) {
+    if (isAtBlob(ref, blob)) continue;
+    if ((ref.table === 'documents' || ref.table === 'timeline_attachments') && !blob.file_url) continue;
+
+    let update: Record<string, string>;
+    if (ref.table === 'documents') {
+      update = { file_url: blob.file_url!, storage_path: blob.storage_path };
+    } else if (ref.table === 'timeline_attachments') {
+      update = { file_url: blob.file_url! };
+    } else {
+      update = { storage_bucket: blob.storage_bucket, storage_path: blob.storage_path };
+    }
+
+    const { error } = await supabase.from(ref.table).update(update).eq('id', ref.id);
+    if (error) throw new Error(`Failed to re-point ${ref.table}: ${error.message}`);
+
+    if (ref.table === 'documents') {
+      // The current version row describes the same file
+      await supabase
+        .from('document_versions')
+        .update({ file_url: blob.file_url, storage_path: blob.storage_path })
+        .eq('document_id', ref.id)
+        .eq('storage_path', ref.path);
+    }
+
+    if (ref.bucket && ref.path) {
+      staleCopies.set(`${ref.bucket}/${ref.path}`, { bucket: ref.bucket, path: ref.path, url: ref.url });
+    }
+  }
+
+  // 2. Merge rows that are the same file in the same place
+  const byTable = (table: BlobTable) => references.filter(ref => ref.table === table);
+
+  for (const { keeper, duplicates } of splitByScope(byTable('documents'), keepDocumentId)) {
+    for (const duplicate of duplicates) {
+      await mergeDocument(supabase, keeper.id, duplicate.id);
+      result.documentsMerged++;
+    }
+  }
+
+  for (const { keeper, duplicates } of splitByScope(byTable('evidence'))) {
+    for (const duplicate of duplicates) {
+      await mergeEvidence(supabase, keeper.id, duplicate.id);
+      result.evidenceMerged++;
+    }
+  }
+
+  // Trip evidence and timeline attachments have no links of their own: the extra rows just go
+  const plainDeletes: Array<[BlobTable, keyof MergeResult]> = [
+    ['finance_trip_evidence', 'tripEvidenceMerged'],
+    ['timeline_attachments', 'attachmentsMerged'],
+  ];
+  for (const [table, counter] of plainDeletes) {
+    let ids = splitByScope(byTable(table)).flatMap(({ duplicates }) => duplicates.map(ref => ref.id));
+    if (table === 'finance_trip_evidence') ids = await withoutLockedTripEvidence(supabase, ids);
+    if (ids.length === 0) continue;
+
+    const { error } = await supabase.from(table).delete().in('id', ids);
+    if (error) throw new Error(`Failed to delete duplicate ${table}: ${error.message}`);
+    result[counter] += ids.length;
+  }
+
+  // 3. Remove copies nothing points at any more
+  for (const copy of staleCopies.values()) {
+    if (await isStillReferenced(supabase, copy.bucket, copy.path, copy.url)) continue;
+
+    const { error } = await supabase.storage.from(copy.bucket).remove([copy.path]);
+    if (error) {
+      console.error('[mergeDuplicateGroup] Error removing stale copy:', copy.path, error);
+    } else {
+      result.filesRemoved++;
+    }
+  }
+
+  return result;
+}
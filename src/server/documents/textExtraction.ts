@@ -0,0 +1,214 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { PUBLIC_BUCKET, parsePublicUrl } from '@/lib/fileBlobs';
+import { versionParentColumn, type VersionedDocumentKind } from '@/lib/db/document-versions';
+import type { DocumentTextJob } from '@/lib/db/document-text-jobs';
+import { DOCUMENT_OCR_LANGUAGES, extractTextPages } from '@/server/finance/ocr/extractText';
+
+// OCR failures are mostly permanent (unreadable scan), so only a few retries
+const MAX_ATTEMPTS = 3;
+
+// A job still "running" after this was cut off with its request and is run again
+const STALE_RUNNING_MS = 15 * 60 * 1000;
+
+const MIME_BY_EXTENSION: Record<string, string> = {
+  pdf: 'application/pdf',
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+  gif: 'image/gif',
+  bmp: 'image/bmp',
+  xml: 'application/xml',
+};
+
+export interface TextJobRunSummary {
+  processed: number;
+  succeeded: number;
+  failed: number;
+}
+
+export interface SourceFile {
+  data: Buffer;
+  mimeType: string;
+}
+
+function guessMimeType(...candidates: Array<string | null | undefined>): string | null {
+  for (const candidate of candidates) {
+    if (!candidate) continue;
+    if (/^(application|image)\/[\w.+-]+$/.test(candidate)) return candidate;
+    // file_type ("pdf"), a file name or a URL
+    const ext = candidate.split('?')[0].split('.').pop()?.toLowerCase() || '';
+    if (MIME_BY_EXTENSION[ext]) return MIME_BY_EXTENSION[ext];
+  }
+  return null;
+}
+
+async function downloadFile(supabase: SupabaseClient, location: { bucket: string; path: string } | null, url?: string | null) {
+  if (location) {
+    const { data, error } = await supabase.storage.from(location.bucket).download(location.path);
+    if (data) return Buffer.from(await data.arrayBuffer());
+    if (!url) throw new Error(`Failed to download file: ${error?.message || 'not found'}`);
+  }
+
+  const response = await fetch(url!);
+  if (!response.ok) throw new Error(`Failed to fetch file: ${response.statusText}`);
+  return Buffer.from(await response.arrayBuffer());
+}
+
+export async function loadSourceFile(supabase: SupabaseClient, kind: VersionedDocumentKind, parentId: string): Promise<SourceFile> {
+  if (kind === 'document') {
+    const { data: doc, error } = await supabase
+      .from('documents')
+      .select('file_url, storage_path, mime_type, file_type, file_name')
+      .eq('id', parentId)
+      .maybeSingle();
+    if (error) throw new Error(`Failed to load document: ${error.message}`);
+    if (!doc) throw new Error('Document not found');
+
+    const location = parsePublicUrl(doc.file_url)
+      || (doc.storage_path && !doc.storage_path.includes('://') ? { bucket: PUBLIC_BUCKET, path: doc.storage_path } : null);
+    const mimeType = guessMimeType(doc.mime_type, doc.file_type, doc.file_name, doc.file_url);
+    if (!mimeType) throw new Error('Unknown file type; only PDF files and images are supported');
+
+    return { data: await downloadFile(supabase, location, doc.file_url), mimeType };
+  }
+
+  const { data: contract, error } = await supabase
+    .from('organisation_documents')
+    .select('storage_path')
+    .eq('id', parentId)
+    .maybeSingle();
+  if (error) throw new Error(`Failed to load contract: ${error.message}`);
+  if (!contract?.storage_path) throw new Error('Contract file not found');
+
+  return {
+    data: await downloadFile(supabase, { bucket: PUBLIC_BUCKET, path: contract.storage_path }),
+    // Contracts are uploaded as PDF
+    mimeType: guessMimeType(contract.storage_path) || 'application/pdf',
+  };
+}
+
+/**
+ * Queue text extraction of a document or contract. A job still waiting for the same file is reused;
+ * it reads the file when it runs, so a newer upload is picked up.
+ */
+export async function enqueueTextExtraction(
+  supabase: SupabaseClient,
+  kind: VersionedDocumentKind,
+  parentId: string
+): Promise<DocumentTextJob> {
+  const parentColumn = versionParentColumn(kind);
+
+  const { data: waiting } = await supabase
+    .from('document_text_jobs')
+    .select('*')
+    .eq(parentColumn, parentId)
+    .in('status', ['pending', 'retry'])
+    .limit(1)
+    .maybeSingle();
+  if (waiting) return waiting;
+
+  const { data: job, error } = await supabase
+    .from('document_text_jobs')
+    .insert({ [parentColumn]: parentId })
+    .select()
+    .single();
+  if (error) throw new Error(`Failed to queue text extraction: ${error.message}`);
+
+  return job;
+}
+
+async function processJob(supabase: SupabaseClient, job: DocumentTextJob) {
+  const kind: VersionedDocumentKind = job.document_id ? 'document' : 'contract';
+  const parentId = (job.document_id || job.organisation_document_id)!;
+
+  const file = await loadSourceFile(supabase, kind, parentId);
+  const extracted = await extractTextPages(file.data, file.mimeType, DOCUMENT_OCR_LANGUAGES);
+  const confidence = Math.round(extracted.confidence * 1000) / 1000;
+
+  const { error: updateError } = kind === 'document'
+    ? await supabase
+        .from('documents')
+        .update({ full_text: extracted.text, full_text_pages: extracted.pages, full_text_confidence: confidence })
+        .eq('id', parentId)
+    : await supabase
+        .from('organisation_documents')
+        .update({ parsed_text: extracted.text, parsed_text_pages: extracted.pages, parsed_text_confidence: confidence })
+        .eq('id', parentId);
+  if (updateError) throw new Error(`Failed to save extracted text: ${updateError.message}`);
+
+  return {
+    page_count: extracted.pages.length,
+    ocr_page_count: extracted.pages.filter(page => page.method === 'ocr').length,
+    confidence,
+  };
+}
+
+/**
+ * Run queued text extraction jobs one at a time (OCR is CPU heavy).
+ * With jobId only that job is run - used right after a request queued it.
+ */
+export async function runTextExtractionJobs(
+  supabase: SupabaseClient,
+  options: { jobId?: string; limit?: number } = {}
+): Promise<TextJobRunSummary> {
+  if (!options.jobId) {
+    await supabase
+      .from('document_text_jobs')
+      .update({ status: 'retry', updated_at: new Date().toISOString() })
+      .eq('status', 'running')
+      .lt('updated_at', new Date(Date.now() - STALE_RUNNING_MS).toISOString());
+  }
+
+  let query = supabase
+    .from('document_text_jobs')
+    .select('*')
+    .in('status', ['pending', 'retry'])
+    .lte('next_run_at', new Date().toISOString())
+    .order('next_run_at', { ascending: true })
+    .limit(options.limit || 5);
+  if (options.jobId) query = query.eq('id', options.jobId);
+
+  const { data: jobs, error } = await query;
+  if (error) throw new Error(`Failed to load text extraction jobs: ${error.message}`);
+
+  const summary: TextJobRunSummary = { processed: 0, succeeded: 0, failed: 0 };
+
+  for (const job of (jobs || []) as DocumentTextJob[]) {
+    // Claim the job; another worker may have taken it since it was read
+    const { data: claimed } = await supabase
+      .from('document_text_jobs')
+      .update({ status: 'running', attempts: job.attempts + 1, updated_at: new Date().toISOString() })
+      .eq('id', job.id)
+      .eq('status', job.status)
+      .select('id');
+    if (!claimed || claimed.length === 0) continue;
+
+    summary.processed++;
+    try {
+      const result = await processJob(supabase, job);
+      await supabase
+        .from('document_text_jobs')
+        .update({ status: 'done', last_error: null, ...result, updated_at: new Date().toISOString() })
+        .eq('id', job.id);
+      summary.succeeded++;
+    } catch (jobError) {
+      const attempts = job.attempts + 1;
+      const message = (jobError instanceof Error ? jobError.message : 'Unknown error').substring(0, 500);
+      console.error(`[runTextExtractionJobs] Job ${job.id} failed (attempt ${attempts}):`, message);
+
+      await supabase
+        .from('document_text_jobs')
+        .update({
+          status: attempts >= MAX_ATTEMPTS ? 'failed' : 'retry',
+          last_error: message,
+          next_run_at: new Date(Date.now() + Math.pow(2, attempts) * 60 * 1000).toISOString(),
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', job.id);
+      summary.failed++;
+    }
+  }
+
+  return summary;
+}
@@ -1,7 +1,10 @@
 import { createHash } from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
 import { validateOrgId, getActiveOrgIdOrThrow } from '@/server/org/getActiveOrgId';
 import { isUuid } from '@/server/validators/isUuid';
 import { createServerSupabaseClient } from '@/server/supabase/server';
+import { findBlob, storeBlob, type StoredBlob } from '@/lib/fileBlobs';
+import type { ProcessBankStatementResult } from '@/server/finance/processBankStatement';
 
 /**
  * Derive document name from available sources
@@ -24,6 +27,31 @@ function deriveDocumentName(input: {
   return input.type ? `${input.type} document` : 'Untitled document';
 }
 
+/**
+ * Document of the organisation that points at a stored file; it gets the hash so the next
+ * upload finds it directly
+ */
+async function findOrgDocumentByBlob(
+  supabase: SupabaseClient,
+  orgId: string,
+  blobId: string,
+  sha256: string
+): Promise<{ id: string; storage_path: string | null } | null> {
+  const { data, error } = await supabase
+    .from('documents')
+    .select('id, storage_path')
+    .eq('organisation_id', orgId)
+    .eq('blob_id', blobId)
+    .order('created_at', { ascending: true })
+    .limit(1)
+    .maybeSingle();
+
+  if (error || !data) return null;
+
+  await supabase.from('documents').update({ sha256 }).eq('id', data.id);
+  return data;
+}
+
 export interface UploadDocumentParams {
   orgId?: string | null;
   docType?: string;
@@ -37,6 +65,8 @@ export interface UploadDocumentParams {
   fileName: string;
   mimeType: string;
   fileBase64: string;
+  /** Bank statements: upload only, the import runs after the user confirms the preview */
+  deferImport?: boolean;
 }
 
 export interface UploadDocumentResult {
@@ -44,18 +74,7 @@ export interface UploadDocumentResult {
   createdNew: boolean;
   storagePath: string;
   sha256: string;
-  import?: {
-    ok: true;
-    parsed: number;
-    valid: number;
-    invalid: number;
-    upserted: number;
-  } | {
-    ok: false;
-    step: string;
-    error: string;
-    extra?: any;
-  };
+  import?: ProcessBankStatementResult;
 }
 
 export type UploadDocumentError = 
@@ -90,6 +109,7 @@ export async function uploadDocument(
       fileName,
       mimeType,
       fileBase64,
+      deferImport = false,
     } = params;
 
     // Validate required fields
@@ -165,12 +185,17 @@ export async function uploadDocument(
   let documentId: string;
   let createdNew = false;
   let storagePath: string;
-  let importResult: { ok: true; parsed: number; valid: number; invalid: number; upserted: number } | { ok: false; step: string; error: string; extra?: any } | null = null;
+  let importResult: ProcessBankStatementResult | null = null;
+
+  // Documents created before hashing (e.g. Gmail imports) are found through the stored file
+  const blob = existingDoc ? null : await findBlob(supabase, sha256);
+  const blobDoc = blob ? await findOrgDocumentByBlob(supabase, orgId, blob.id, sha256) : null;
+  const matchedDoc = existingDoc || blobDoc;
 
-  if (existingDoc) {
+  if (matchedDoc) {
     // Document already exists, return existing
-    documentId = existingDoc.id;
-    storagePath = existingDoc.storage_path || '';
+    documentId = matchedDoc.id;
+    storagePath = matchedDoc.storage_path || '';
     // importResult remains null for existing documents (no import needed)
     importResult = null;
   } else {
@@ -193,46 +218,40 @@ export async function uploadDocument(
     const storagePathTemplate = `documents/${orgId}/${year}/${month}/${fileUuid}-${sanitizedFileName}`;
     storagePath = storagePathTemplate;
 
-    // Upload to Supabase Storage
+    // Upload to Supabase Storage, or link the stored file when the same content came in another way
+    // (Gmail attachment, timeline file, evidence)
     // Bucket is hardcoded to 'mb-cockpit' (documents is a folder inside mb-cockpit)
     const bucketName = 'mb-cockpit';
     
     console.log('📤 [UPLOAD] Uploading to bucket:', bucketName, 'path:', storagePath);
-    const { error: uploadError } = await supabase.storage
-      .from(bucketName)
-      .upload(storagePath, fileBuffer, {
+    let stored: StoredBlob;
+    try {
+      stored = await storeBlob(supabase, {
+        data: fileBuffer,
+        bucket: bucketName,
+        path: storagePath,
         contentType: mimeType,
-        upsert: false, // Don't overwrite if exists
+        requirePublicUrl: true,
       });
-
-    if (uploadError) {
-      // If file already exists in storage, that's okay - we'll use existing path
-      if (uploadError.message?.includes('already exists') || 
-          uploadError.message?.includes('The resource already exists') ||
-          uploadError.message?.includes('duplicate')) {
-        // File exists, continue with insert
-      } else {
-        console.error('❌ [UPLOAD] Storage upload error:', {
-          bucket: bucketName,
-          path: storagePath,
-          error: uploadError.message,
-        });
-        return {
-          ok: false,
-          error: {
-            code: 'UPLOAD_FAILED',
-            message: `Nie udało się przesłać pliku: ${uploadError.message}`,
-          },
-        };
-      }
+    } catch (uploadError) {
+      const uploadMessage = uploadError instanceof Error ? uploadError.message : String(uploadError);
+      console.error('❌ [UPLOAD] Storage upload error:', {
+        bucket: bucketName,
+        path: storagePath,
+        error: uploadMessage,
+      });
+      return {
+        ok: false,
+        error: {
+          code: 'UPLOAD_FAILED',
+          message: `Nie udało się przesłać pliku: ${uploadMessage}`,
+        },
+      };
     }
+    storagePath = stored.path;
 
     // Get public URL for file_url (required field, NOT NULL)
-    const { data: urlData } = supabase.storage
-      .from(bucketName)
-      .getPublicUrl(storagePath);
-
-    const file_url = urlData?.publicUrl;
+    const file_url = stored.url;
 
     if (!file_url || !file_url.trim()) {
       console.error('❌ [UPLOAD] file_url missing after upload', { bucket: bucketName, path: storagePath });
@@ -361,7 +380,7 @@ export async function uploadDocument(
     createdNew = true;
 
     // If this is a bank statement (BANK_CONFIRMATION), process it to extract transactions
-    if (docType === 'BANK_CONFIRMATION' && documentId) {
+    if (docType === 'BANK_CONFIRMATION' && documentId && !deferImport) {
       console.info('[BANK_STATEMENT] upload done', {
         documentId: newDoc.id,
         organisation_id: orgId,
@@ -370,7 +389,7 @@ export async function uploadDocument(
       });
 
       try {
-        const { processBankStatementDocument } = await import('@/lib/finance/processBankStatementDocument');
+        const { processBankStatementDocument } = await import('@/server/finance/processBankStatement');
         importResult = await processBankStatementDocument({ documentId: newDoc.id });
         console.info('[BANK_STATEMENT] import result', importResult);
       } catch (processError: any) {
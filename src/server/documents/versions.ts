@@ -0,0 +1,101 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { versionParentColumn, type DocumentVersion, type VersionedDocumentKind } from '@/lib/db/document-versions';
+
+export interface AddDocumentVersionParams {
+  kind: VersionedDocumentKind;
+  parentId: string;
+  /** Already uploaded to storage; the previous file is left in place */
+  storagePath: string;
+  fileUrl?: string | null;
+  fileName: string;
+  mimeType?: string | null;
+  /** documents.file_type ("pdf", "docx"...) */
+  fileType?: string | null;
+  fileSize?: number | null;
+  note?: string | null;
+  uploadedBy?: string | null;
+}
+
+/**
+ * Record a new file as the next version and make it current on the parent row.
+ * The parent's extracted text and AI analysis are cleared: they describe the previous file,
+ * which keeps its own copy in document_versions.
+ */
+export async function addDocumentVersion(
+  supabase: SupabaseClient,
+  params: AddDocumentVersionParams
+): Promise<DocumentVersion> {
+  if (params.kind === 'document' && !params.fileUrl) {
+    throw new Error('fileUrl is required for documents');
+  }
+
+  const table = params.kind === 'document' ? 'documents' : 'organisation_documents';
+  const parentColumn = versionParentColumn(params.kind);
+
+  const { data: parent, error: parentError } = await supabase
+    .from(table)
+    .select('id, current_version')
+    .eq('id', params.parentId)
+    .maybeSingle();
+  if (parentError) throw new Error(`Failed to load document: ${parentError.message}`);
+  if (!parent) throw new Error('Document not found');
+
+  const { data: latest, error: latestError } = await supabase
+    .from('document_versions')
+    .select('version_number')
+    .eq(parentColumn, params.parentId)
+    .order('version_number', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (latestError) throw new Error(`Failed to load versions: ${latestError.message}`);
+
+  const versionNumber = Math.max(latest?.version_number || 0, parent.current_version || 0) + 1;
+
+  const { data: version, error: insertError } = await supabase
+    .from('document_versions')
+    .insert({
+      [parentColumn]: params.parentId,
+      version_number: versionNumber,
+      file_name: params.fileName,
+      file_url: params.fileUrl || null,
+      storage_path: params.storagePath,
+      mime_type: params.mimeType || null,
+      file_size: params.fileSize ?? null,
+      note: params.note?.trim() || null,
+      uploaded_by: params.uploadedBy || null,
+    })
+    .select()
+    .single();
+  if (insertError || !version) {
+    throw new Error(`Failed to save version: ${insertError?.message || 'no data'}`);
+  }
+
+  const updates =
+    params.kind === 'document'
+      ? {
+          current_version: versionNumber,
+          file_url: params.fileUrl || null,
+          storage_path: params.storagePath,
+          file_name: params.fileName,
+          file_type: params.fileType || null,
+          mime_type: params.mimeType || null,
+          file_size: params.fileSize ?? null,
+          full_text: null,
+          summary: null,
+        }
+      : {
+          current_version: versionNumber,
+          storage_path: params.storagePath,
+          parsed_text: null,
+          ai_analysis_result: null,
+        };
+
+  const { error: updateError } = await supabase.from(table).update(updates).eq('id', params.parentId);
+  if (updateError) {
+    // Keep versions consistent with the parent row
+    await supabase.from('document_versions').delete().eq('id', version.id);
+    throw new Error(`Failed to update document: ${updateError.message}`);
+  }
+
+  return version as DocumentVersion;
+}
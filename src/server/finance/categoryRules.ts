@@ -0,0 +1,153 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  CategoryRule,
+  compileCategoryRules,
+  findMatchingRule,
+} from '@/lib/finance/categoryRules';
+
+export interface ApplyCategoryRulesResult {
+  ok: boolean;
+  scanned: number;
+  categorised: number;
+  /** Rule-categorised transactions that no longer match any rule and went back to 'uncategorised' */
+  cleared: number;
+  error?: string;
+}
+
+const PAGE_SIZE = 1000;
+const ID_CHUNK_SIZE = 200;
+
+interface RuleTarget {
+  id: string;
+  description: string | null;
+  counterparty_name: string | null;
+  counterparty_account: string | null;
+  amount: number;
+  direction: 'in' | 'out';
+  category: string | null;
+  subcategory: string | null;
+  category_rule_id: string | null;
+  category_source: 'import' | 'rule' | 'manual' | null;
+}
+
+export async function loadCategoryRules(supabase: SupabaseClient, orgId: string): Promise<CategoryRule[]> {
+  const { data, error } = await supabase
+    .from('finance_category_rules')
+    .select('*')
+    .eq('org_id', orgId)
+    .order('priority', { ascending: true });
+
+  if (error) {
+    console.error('[categoryRules] Error loading rules:', error);
+    return [];
+  }
+
+  return (data || []) as CategoryRule[];
+}
+
+/**
+ * Run the organisation's rules over its transactions.
+ * Manually categorised transactions are never touched. Without `importBatchId` the whole
+ * history is re-evaluated, so editing or deleting a rule is reflected everywhere.
+ */
+export async function applyCategoryRules(
+  supabase: SupabaseClient,
+  orgId: string,
+  options: { importBatchId?: string | null } = {}
+): Promise<ApplyCategoryRulesResult> {
+  const compiled = compileCategoryRules(await loadCategoryRules(supabase, orgId));
+
+  const targets: RuleTarget[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    let query = supabase
+      .from('finance_transactions')
+      .select('id, description, counterparty_name, counterparty_account, amount, direction, category, subcategory, category_rule_id, category_source')
+      .eq('org_id', orgId)
+      // Without a source only uncategorised rows are rule candidates: a category with no source
+      // predates category_source and may have been set by hand
+      .or('and(category_source.is.null,category.eq.uncategorised),category_source.neq.manual')
+      .eq('has_splits', false); // split lines carry their own categories
+
+    if (options.importBatchId) {
+      query = query.eq('import_batch_id', options.importBatchId);
+    }
+
+    const { data, error } = await query.order('id').range(from, from + PAGE_SIZE - 1);
+    if (error) {
+      console.error('[categoryRules] Error loading transactions:', error);
+      return { ok: false, scanned: 0, categorised: 0, cleared: 0, error: error.message };
+    }
+
+    targets.push(...((data || []) as RuleTarget[]));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  // Group transactions by outcome so each distinct update is one request per chunk
+  const byRule = new Map<string, string[]>();
+  const toClear: string[] = [];
+
+  for (const tx of targets) {
+    const rule = findMatchingRule(compiled, tx);
+    if (rule) {
+      const unchanged =
+        tx.category_rule_id === rule.id &&
+        tx.category === rule.category &&
+        (tx.subcategory || null) === (rule.subcategory || null);
+      if (!unchanged) {
+        byRule.set(rule.id, [...(byRule.get(rule.id) ?? []), tx.id]);
+      }
+    } else if (tx.category_source === 'rule') {
+      toClear.push(tx.id);
+    }
+  }
+
+  const rulesById = new Map(compiled.map(c => [c.rule.id, c.rule]));
+  let categorised = 0;
+  let cleared = 0;
+
+  for (const [ruleId, ids] of byRule) {
+    const rule = rulesById.get(ruleId)!;
+    for (let i = 0; i < ids.length; i += ID_CHUNK_SIZE) {
+      const chunk = ids.slice(i, i + ID_CHUNK_SIZE);
+      const { error } = await supabase
+        .from('finance_transactions')
+        .update({
+          category: rule.category,
+          subcategory: rule.subcategory || null,
+          category_rule_id: rule.id,
+          category_source: 'rule',
+        })
+        .in('id', chunk);
+
+      if (error) {
+        console.error('[categoryRules] Error applying rule', { ruleId, error: error.message });
+      } else {
+        categorised += chunk.length;
+      }
+    }
+  }
+
+  for (let i = 0; i < toClear.length; i += ID_CHUNK_SIZE) {
+    const chunk = toClear.slice(i, i + ID_CHUNK_SIZE);
+    const { error } = await supabase
+      .from('finance_transactions')
+      .update({ category: 'uncategorised', subcategory: null, category_rule_id: null, category_source: null })
+      .in('id', chunk);
+
+    if (error) {
+      console.error('[categoryRules] Error clearing rule categories', { error: error.message });
+    } else {
+      cleared += chunk.length;
+    }
+  }
+
+  console.info('[categoryRules] applied', {
+    orgId,
+    importBatchId: options.importBatchId ?? null,
+    scanned: targets.length,
+    categorised,
+    cleared,
+  });
+
+  return { ok: true, scanned: targets.length, categorised, cleared };
+}
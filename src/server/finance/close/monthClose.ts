@@ -0,0 +1,288 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  checkMonthClose,
+  closeChecksCsv,
+  closeIndexCsv,
+  closeLinksCsv,
+  closePeriodRange,
+  planClosePackage,
+  summariseMonthClose,
+} from '@/lib/finance/close';
+import type {
+  CloseDocument,
+  CloseEvidence,
+  CloseLink,
+  CloseTransaction,
+  CloseTripItem,
+  MonthCloseChecks,
+  MonthCloseData,
+  MonthCloseSummary,
+} from '@/lib/finance/close';
+import { createZip, ZipEntry } from './zip';
+
+const PAGE_SIZE = 1000;
+const ID_CHUNK_SIZE = 200;
+
+const DOCUMENT_COLUMNS =
+  'id, title, file_name, storage_path, doc_type, invoice_type, invoice_number, invoice_date, amount_original, currency, payment_status';
+
+export interface MonthCloseRecord {
+  closed_at: string;
+  checks: MonthCloseSummary;
+}
+
+export interface MonthCloseEdit {
+  table_name: string;
+  record_id: string;
+  operation: 'INSERT' | 'UPDATE' | 'DELETE';
+  edited_at: string;
+}
+
+export interface MonthCloseStatus {
+  period: string;
+  checks: MonthCloseChecks;
+  summary: MonthCloseSummary;
+  close: MonthCloseRecord | null;
+  /** Changes logged after the month was closed, newest first */
+  edits: MonthCloseEdit[];
+}
+
+export interface ClosePackage {
+  fileName: string;
+  zip: Buffer;
+  files: number;
+  missing: number;
+}
+
+async function loadAll<T>(
+  fetchPage: (from: number, to: number) => PromiseLike<{ data: unknown[] | null; error: { message: string } | null }>
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await fetchPage(from, from + PAGE_SIZE - 1);
+    if (error) throw new Error(error.message);
+    rows.push(...((data || []) as T[]));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+  return rows;
+}
+
+async function loadByIds<T>(
+  ids: string[],
+  fetchChunk: (chunk: string[]) => PromiseLike<{ data: unknown[] | null; error: { message: string } | null }>
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let i = 0; i < ids.length; i += ID_CHUNK_SIZE) {
+    const { data, error } = await fetchChunk(ids.slice(i, i + ID_CHUNK_SIZE));
+    if (error) throw new Error(error.message);
+    rows.push(...((data || []) as T[]));
+  }
+  return rows;
+}
+
+/**
+ * Everything booked or dated in the month for one organisation: transactions by booking date,
+ * invoices by invoice date, trip items by item date, plus the documents and evidence behind them
+ */
+export async function loadMonthCloseData(supabase: SupabaseClient, orgId: string, period: string): Promise<MonthCloseData> {
+  const { start, end } = closePeriodRange(period);
+
+  const transactions = await loadAll<CloseTransaction>((from, to) =>
+    supabase
+      .from('finance_transactions')
+      .select('id, booking_date, amount, currency, description, counterparty_name, source_document_id')
+      .eq('org_id', orgId)
+      .gte('booking_date', start)
+      .lte('booking_date', end)
+      .order('id')
+      .range(from, to)
+  );
+  const transactionIds = transactions.map(tx => tx.id);
+
+  const invoices = await loadAll<CloseDocument>((from, to) =>
+    supabase
+      .from('documents')
+      .select(DOCUMENT_COLUMNS)
+      .eq('organisation_id', orgId)
+      .not('invoice_type', 'is', null)
+      .gte('invoice_date', start)
+      .lte('invoice_date', end)
+      .order('id')
+      .range(from, to)
+  );
+
+  const linkRows = await loadByIds<{ document_id: string; entity_id: string; role: string }>(transactionIds, chunk =>
+    supabase
+      .from('document_links')
+      .select('document_id, entity_id, role')
+      .eq('entity_type', 'FINANCE_TRANSACTION')
+      .eq('is_deleted', false)
+      .in('entity_id', chunk)
+  );
+  const links: CloseLink[] = linkRows.map(row => ({
+    document_id: row.document_id,
+    transaction_id: row.entity_id,
+    role: row.role,
+  }));
+
+  const matches = await loadByIds<{ transaction_id: string }>(transactionIds, chunk =>
+    supabase
+      .from('invoice_payment_matches')
+      .select('transaction_id')
+      .eq('is_rejected', false)
+      .in('transaction_id', chunk)
+  );
+
+  const invoiceIds = new Set(invoices.map(inv => inv.id));
+  const documentIds = Array.from(new Set([
+    ...transactions.map(tx => tx.source_document_id).filter((id): id is string => !!id),
+    ...links.map(link => link.document_id),
+  ])).filter(id => !invoiceIds.has(id));
+  const documents = await loadByIds<CloseDocument>(documentIds, chunk =>
+    supabase.from('documents').select(DOCUMENT_COLUMNS).in('id', chunk)
+  );
+
+  const itemRows = await loadAll<Omit<CloseTripItem, 'trip_title'> & { finance_trips: { title: string } | null }>((from, to) =>
+    supabase
+      .from('finance_trip_items')
+      .select('id, trip_id, item_date, vendor, description, amount, currency, transaction_id, finance_trips(title)')
+      .eq('org_id', orgId)
+      .gte('item_date', start)
+      .lte('item_date', end)
+      .order('id')
+      .range(from, to)
+  );
+  const tripItems: CloseTripItem[] = itemRows.map(({ finance_trips, ...item }) => ({
+    ...item,
+    trip_title: finance_trips?.title || 'Delegacja',
+  }));
+
+  // Evidence of the month's items plus trip-level evidence of the same trips
+  const itemIds = new Set(tripItems.map(item => item.id));
+  const tripIds = Array.from(new Set(tripItems.map(item => item.trip_id)));
+  const evidence = (await loadByIds<CloseEvidence>(tripIds, chunk =>
+    supabase
+      .from('finance_trip_evidence')
+      .select('id, trip_id, trip_item_id, file_name, storage_bucket, storage_path')
+      .in('trip_id', chunk)
+  )).filter(e => !e.trip_item_id || itemIds.has(e.trip_item_id));
+
+  return {
+    period,
+    transactions,
+    invoices,
+    documents,
+    links,
+    matchedTransactionIds: matches.map(m => m.transaction_id),
+    tripItems,
+    evidence,
+  };
+}
+
+/**
+ * Completeness checks for the month with its close record and edits logged since closing
+ */
+export async function getMonthCloseStatus(supabase: SupabaseClient, orgId: string, period: string): Promise<MonthCloseStatus> {
+  const data = await loadMonthCloseData(supabase, orgId, period);
+  const checks = checkMonthClose(data);
+  const periodMonth = closePeriodRange(period).start;
+
+  const { data: close, error: closeError } = await supabase
+    .from('finance_month_closes')
+    .select('closed_at, checks')
+    .eq('org_id', orgId)
+    .eq('period_month', periodMonth)
+    .maybeSingle();
+  if (closeError) throw new Error(closeError.message);
+
+  let edits: MonthCloseEdit[] = [];
+  if (close) {
+    const { data: editRows, error: editsError } = await supabase
+      .from('finance_close_edits')
+      .select('table_name, record_id, operation, edited_at')
+      .eq('org_id', orgId)
+      .eq('period_month', periodMonth)
+      .gte('edited_at', close.closed_at)
+      .order('edited_at', { ascending: false });
+    if (editsError) throw new Error(editsError.message);
+    edits = (editRows || []) as MonthCloseEdit[];
+  }
+
+  return {
+    period,
+    checks,
+    summary: summariseMonthClose(data, checks),
+    close: close as MonthCloseRecord | null,
+    edits,
+  };
+}
+
+/**
+ * Mark the month closed, storing the check counts at the time of closing. Closing again
+ * refreshes the record, which also clears the edits flagged so far.
+ */
+export async function closeMonth(supabase: SupabaseClient, orgId: string, period: string): Promise<MonthCloseRecord> {
+  const data = await loadMonthCloseData(supabase, orgId, period);
+  const summary = summariseMonthClose(data, checkMonthClose(data));
+
+  const { data: row, error } = await supabase
+    .from('finance_month_closes')
+    .upsert(
+      {
+        org_id: orgId,
+        period_month: closePeriodRange(period).start,
+        closed_at: new Date().toISOString(),
+        checks: summary,
+      },
+      { onConflict: 'org_id,period_month' }
+    )
+    .select('closed_at, checks')
+    .single();
+  if (error) throw new Error(error.message);
+
+  return row as MonthCloseRecord;
+}
+
+export async function reopenMonth(supabase: SupabaseClient, orgId: string, period: string): Promise<void> {
+  const { error } = await supabase
+    .from('finance_month_closes')
+    .delete()
+    .eq('org_id', orgId)
+    .eq('period_month', closePeriodRange(period).start);
+  if (error) throw new Error(error.message);
+}
+
+/**
+ * ZIP with all source files of the month, index.csv, the transaction↔document mapping and the
+ * open items from the checks. Files that fail to download are listed as missing in the index.
+ */
+export async function buildClosePackage(supabase: SupabaseClient, orgId: string, period: string): Promise<ClosePackage> {
+  const data = await loadMonthCloseData(supabase, orgId, period);
+  const files = planClosePackage(data);
+  const entries: ZipEntry[] = [];
+  const missing = new Set<string>();
+
+  for (const file of files) {
+    const { data: blob, error } = await supabase.storage.from(file.bucket).download(file.storage_path);
+    if (error || !blob) {
+      console.warn('[CLOSE_PACKAGE] download failed', { bucket: file.bucket, path: file.storage_path, error: error?.message });
+      missing.add(file.path);
+      continue;
+    }
+    entries.push({ path: file.path, data: new Uint8Array(await blob.arrayBuffer()) });
+  }
+
+  const text = (value: string) => new TextEncoder().encode(value);
+  entries.unshift(
+    { path: 'index.csv', data: text(closeIndexCsv(files, missing)) },
+    { path: 'transaction-documents.csv', data: text(closeLinksCsv(data, files)) },
+    { path: 'checks.csv', data: text(closeChecksCsv(checkMonthClose(data))) }
+  );
+
+  return {
+    fileName: `close-${period}.zip`,
+    zip: createZip(entries),
+    files: files.length - missing.size,
+    missing: missing.size,
+  };
+}
@@ -0,0 +1,71 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  looksLikeKsefInvoice,
+  parseInvoiceText,
+  parseKsefInvoice,
+  type InvoiceExtraction,
+} from '@/lib/finance/invoices';
+import { enqueueTextExtraction, loadSourceFile } from '@/server/documents/textExtraction';
+
+/** `pending`: the document has no text yet and a text extraction job is queued for it */
+export type DocumentInvoiceData =
+  | { documentId: string; status: 'done'; extraction: InvoiceExtraction }
+  | { documentId: string; status: 'pending'; jobId: string };
+
+async function loadInvoiceText(supabase: SupabaseClient, documentId: string): Promise<{ text: string; confidence: number }> {
+  const { data: doc, error } = await supabase
+    .from('documents')
+    .select('full_text, full_text_confidence')
+    .eq('id', documentId)
+    .maybeSingle();
+  if (error) throw new Error(`Failed to load document text: ${error.message}`);
+  if (!doc) throw new Error('Document not found');
+
+  return { text: doc.full_text || '', confidence: doc.full_text_confidence ?? 1 };
+}
+
+/**
+ * Read invoice fields from a document and store them on the document for the classification form.
+ * A KSeF XML file is parsed as it is; for a PDF or scan the extracted text is used. Without text
+ * yet, a text extraction job is queued and `pending` returned: OCR can take minutes, so the caller
+ * waits for the job and calls again with `textJobId`. Nothing else on the document changes: the
+ * user confirms the fields when classifying.
+ */
+export async function extractInvoiceData(
+  supabase: SupabaseClient,
+  documentId: string,
+  options: { textJobId?: string | null } = {}
+): Promise<DocumentInvoiceData> {
+  const file = await loadSourceFile(supabase, 'document', documentId);
+
+  let extraction: InvoiceExtraction;
+  if (file.mimeType === 'application/xml') {
+    const xml = file.data.toString('utf8');
+    if (!looksLikeKsefInvoice(xml)) throw new Error('The XML file is not a KSeF invoice (FA)');
+    extraction = parseKsefInvoice(xml);
+  } else {
+    const source = await loadInvoiceText(supabase, documentId);
+    if (!source.text.trim()) {
+      if (options.textJobId) {
+        const { data: finished } = await supabase
+          .from('document_text_jobs')
+          .select('last_error')
+          .eq('id', options.textJobId)
+          .maybeSingle();
+        throw new Error(`No text could be extracted from the invoice${finished?.last_error ? `: ${finished.last_error}` : ''}`);
+      }
+
+      const job = await enqueueTextExtraction(supabase, 'document', documentId);
+      return { documentId, status: 'pending', jobId: job.id };
+    }
+    extraction = parseInvoiceText(source.text, source.confidence);
+  }
+
+  const { error: updateError } = await supabase
+    .from('documents')
+    .update({ invoice_extraction: extraction, invoice_extracted_at: new Date().toISOString() })
+    .eq('id', documentId);
+  if (updateError) throw new Error(`Failed to save invoice data: ${updateError.message}`);
+
+  return { documentId, status: 'done', extraction };
+}
@@ -0,0 +1,191 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { isTripLocked, type TripStatus } from '@/lib/trips/workflow';
+import { loadFxConverter } from './rates';
+
+export interface BackfillTableResult {
+  converted: number;
+  missingRate: number;
+  /** Items of submitted, approved or reimbursed trips: locked, so left unconverted */
+  locked: number;
+}
+
+export type BackfillBaseAmountsResult =
+  | {
+      ok: true;
+      transactions: BackfillTableResult;
+      invoices: BackfillTableResult;
+      tripItems: BackfillTableResult;
+    }
+  | {
+      ok: false;
+      step?: string;
+      error: string;
+    };
+
+interface BackfillTarget {
+  table: 'finance_transactions' | 'documents' | 'finance_trip_items';
+  orgColumn: string;
+  amountColumn: string;
+  dateColumn: string;
+  /** Invoices use the last NBP table before the invoice date */
+  strictlyBefore: boolean;
+  /** Extra NOT NULL filters (e.g. only invoices among documents) */
+  requireColumns: string[];
+  /** Rows belong to a trip and follow its lock (check_finance_trip_unlocked) */
+  tripLocked?: boolean;
+}
+
+const TARGETS: Record<'transactions' | 'invoices' | 'tripItems', BackfillTarget> = {
+  transactions: {
+    table: 'finance_transactions',
+    orgColumn: 'org_id',
+    amountColumn: 'amount',
+    dateColumn: 'booking_date',
+    strictlyBefore: false,
+    requireColumns: [],
+  },
+  invoices: {
+    table: 'documents',
+    orgColumn: 'organisation_id',
+    amountColumn: 'amount_original',
+    dateColumn: 'invoice_date',
+    strictlyBefore: true,
+    requireColumns: ['invoice_type', 'amount_original', 'invoice_date'],
+  },
+  tripItems: {
+    table: 'finance_trip_items',
+    orgColumn: 'org_id',
+    amountColumn: 'amount',
+    dateColumn: 'item_date',
+    strictlyBefore: false,
+    requireColumns: ['item_date'],
+    tripLocked: true,
+  },
+};
+
+const PAGE_SIZE = 1000;
+const UPDATE_CONCURRENCY = 20;
+
+type PendingRow = { id: string; amount: number; currency: string; date: string; locked: boolean };
+
+async function loadPendingRows(
+  supabase: SupabaseClient,
+  target: BackfillTarget,
+  orgId?: string | null
+): Promise<PendingRow[]> {
+  const rows: PendingRow[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    let query = supabase
+      .from(target.table)
+      .select(`id, ${target.amountColumn}, currency, ${target.dateColumn}${target.tripLocked ? ', trip:finance_trips(status)' : ''}`)
+      .is('fx_rate', null);
+
+    for (const column of target.requireColumns) {
+      query = query.not(column, 'is', null);
+    }
+    if (orgId) {
+      query = query.eq(target.orgColumn, orgId);
+    }
+
+    const { data, error } = await query.order('id').range(from, from + PAGE_SIZE - 1);
+    if (error) throw new Error(`${target.table}: ${error.message}`);
+
+    for (const row of (data || []) as unknown as Record<string, unknown>[]) {
+      const trip = row.trip as { status: TripStatus } | null | undefined;
+      rows.push({
+        id: String(row.id),
+        amount: Number(row[target.amountColumn]) || 0,
+        currency: (row.currency as string | null) || 'PLN',
+        date: String(row[target.dateColumn]),
+        locked: !!trip && isTripLocked(trip.status),
+      });
+    }
+
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  return rows;
+}
+
+async function backfillTarget(
+  supabase: SupabaseClient,
+  target: BackfillTarget,
+  orgId?: string | null
+): Promise<BackfillTableResult> {
+  const pending = await loadPendingRows(supabase, target, orgId);
+  const rows = pending.filter(row => !row.locked);
+  const locked = pending.length - rows.length;
+  if (rows.length === 0) return { converted: 0, missingRate: 0, locked };
+
+  const dates = rows.map(r => r.date).sort();
+  const converter = await loadFxConverter(supabase, {
+    currencies: rows.map(r => r.currency),
+    dateFrom: dates[0],
+    dateTo: dates[dates.length - 1],
+  });
+
+  let converted = 0;
+  let missingRate = 0;
+  const updates: (() => Promise<void>)[] = [];
+
+  for (const row of rows) {
+    const conversion = converter.convert(row.amount, row.currency, row.date, {
+      strictlyBefore: target.strictlyBefore,
+    });
+    if (!conversion) {
+      missingRate++;
+      continue;
+    }
+
+    updates.push(async () => {
+      const { error } = await supabase
+        .from(target.table)
+        .update({
+          amount_base: conversion.amountBase,
+          base_currency: conversion.baseCurrency,
+          fx_rate: conversion.fxRate,
+          fx_rate_date: conversion.fxRateDate,
+        })
+        .eq('id', row.id);
+
+      if (error) {
+        console.error(`[FX] Error updating ${target.table}`, { id: row.id, error: error.message });
+      } else {
+        converted++;
+      }
+    });
+  }
+
+  for (let i = 0; i < updates.length; i += UPDATE_CONCURRENCY) {
+    await Promise.all(updates.slice(i, i + UPDATE_CONCURRENCY).map(run => run()));
+  }
+
+  return { converted, missingRate, locked };
+}
+
+/**
+ * Fill base-currency amounts on transactions, invoices and trip items that have not been
+ * converted yet (fx_rate IS NULL). Rows without a rate for their date are left for a later run;
+ * items of locked trips are counted and skipped.
+ */
+export async function backfillBaseAmounts(
+  supabase: SupabaseClient,
+  params: { orgId?: string | null } = {}
+): Promise<BackfillBaseAmountsResult> {
+  try {
+    const transactions = await backfillTarget(supabase, TARGETS.transactions, params.orgId);
+    const invoices = await backfillTarget(supabase, TARGETS.invoices, params.orgId);
+    const tripItems = await backfillTarget(supabase, TARGETS.tripItems, params.orgId);
+
+    console.info('[FX] backfill', { orgId: params.orgId ?? null, transactions, invoices, tripItems });
+    return { ok: true, transactions, invoices, tripItems };
+  } catch (error) {
+    console.error('[FX] backfill failed', error);
+    return {
+      ok: false,
+      step: 'backfill',
+      error: error instanceof Error ? error.message : 'Unknown error converting amounts',
+    };
+  }
+}
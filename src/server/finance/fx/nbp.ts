@@ -0,0 +1,191 @@
+import { XMLParser } from 'fast-xml-parser';
+import { parse } from 'csv-parse/sync';
+import { decodeStatement } from '../statements/bankProfiles';
+
+export interface FxRate {
+  rateDate: string; // YYYY-MM-DD
+  currency: string;
+  /** Base currency (PLN) per 1 unit */
+  rate: number;
+  tableNo: string | null;
+}
+
+export type ParseFxRatesResult =
+  | { ok: true; format: 'nbp_api_xml' | 'nbp_xml' | 'nbp_archive_csv' | 'csv'; rates: FxRate[] }
+  | { ok: false; error: string };
+
+const parser = new XMLParser({
+  ignoreAttributes: true,
+  parseTagValue: false,
+  isArray: name => ['ExchangeRatesTable', 'Rate', 'pozycja'].includes(name),
+});
+
+type XmlNode = Record<string, unknown>;
+
+/** Element at a path below a node; undefined when a step is missing */
+function at(node: unknown, ...path: string[]): unknown {
+  let current = node;
+  for (const name of path) {
+    current = current && typeof current === 'object' ? (current as XmlNode)[name] : undefined;
+  }
+  return current;
+}
+
+/** Repeated elements (the names listed in isArray) */
+function list(node: unknown, ...path: string[]): unknown[] {
+  const value = at(node, ...path);
+  return Array.isArray(value) ? value : [];
+}
+
+function parseDecimal(value: unknown): number | null {
+  if (value == null) return null;
+  const n = Number.parseFloat(String(value).trim().replace(/\s/g, '').replace(',', '.'));
+  return Number.isFinite(n) && n > 0 ? n : null;
+}
+
+/**
+ * YYYYMMDD or YYYY-MM-DD -> YYYY-MM-DD
+ */
+function parseRateDate(value: unknown): string | null {
+  const s = String(value ?? '').trim();
+  if (/^\d{8}$/.test(s)) return `${s.slice(0, 4)}-${s.slice(4, 6)}-${s.slice(6, 8)}`;
+  if (/^\d{4}-\d{2}-\d{2}$/.test(s)) return s;
+  return null;
+}
+
+/**
+ * NBP Web API XML (api.nbp.pl, ArrayOfExchangeRatesTable) and the classic
+ * published file (tabela_kursow with kurs_sredni and przelicznik)
+ */
+function parseNbpXml(xml: string): ParseFxRatesResult {
+  let doc: unknown;
+  try {
+    doc = parser.parse(xml);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { ok: false, error: `Invalid NBP XML: ${message}` };
+  }
+
+  const nested = list(doc, 'ArrayOfExchangeRatesTable', 'ExchangeRatesTable');
+  const apiTables = nested.length > 0 ? nested : list(doc, 'ExchangeRatesTable');
+  if (apiTables.length > 0) {
+    const rates: FxRate[] = [];
+    for (const table of apiTables) {
+      const rateDate = parseRateDate(at(table, 'EffectiveDate'));
+      if (!rateDate) continue;
+      const tableNo = at(table, 'No');
+      for (const rate of list(table, 'Rates', 'Rate')) {
+        // Table C only has bid/ask; mid rates come from tables A and B
+        const mid = parseDecimal(at(rate, 'Mid'));
+        const code = String(at(rate, 'Code') ?? '').trim().toUpperCase();
+        if (mid && /^[A-Z]{3}$/.test(code)) {
+          rates.push({ rateDate, currency: code, rate: mid, tableNo: tableNo ? String(tableNo) : null });
+        }
+      }
+    }
+    return rates.length > 0
+      ? { ok: true, format: 'nbp_api_xml', rates }
+      : { ok: false, error: 'NBP XML has no mid rates (table C is not supported)' };
+  }
+
+  const legacy = at(doc, 'tabela_kursow');
+  if (legacy) {
+    const rateDate = parseRateDate(at(legacy, 'data_publikacji'));
+    if (!rateDate) return { ok: false, error: 'NBP XML has no data_publikacji' };
+    const tableNo = at(legacy, 'numer_tabeli');
+    const rates: FxRate[] = [];
+    for (const position of list(legacy, 'pozycja')) {
+      const mid = parseDecimal(at(position, 'kurs_sredni'));
+      const unit = parseDecimal(at(position, 'przelicznik')) ?? 1;
+      const code = String(at(position, 'kod_waluty') ?? '').trim().toUpperCase();
+      if (mid && /^[A-Z]{3}$/.test(code)) {
+        rates.push({ rateDate, currency: code, rate: mid / unit, tableNo: tableNo ? String(tableNo) : null });
+      }
+    }
+    return { ok: true, format: 'nbp_xml', rates };
+  }
+
+  return { ok: false, error: 'Unrecognised XML: expected NBP ExchangeRatesTable or tabela_kursow' };
+}
+
+/**
+ * CSV: either the NBP yearly archive (archiwum_tab_a_YYYY.csv, one row per day and one
+ * "100HUF"-style column per currency) or a long file with date, currency and rate columns
+ */
+function parseRatesCsv(text: string): ParseFxRatesResult {
+  const delimiter = (text.split('\n')[0].match(/;/g)?.length ?? 0) > 0 ? ';' : ',';
+  const records: string[][] = parse(text, {
+    delimiter,
+    skip_empty_lines: true,
+    relax_quotes: true,
+    relax_column_count: true,
+    trim: true,
+  });
+
+  if (records.length < 2) return { ok: false, error: 'CSV has no rate rows' };
+
+  const header = records[0].map(h => h.toLowerCase());
+
+  // Archive layout: data;1THB;1USD;...;nr tabeli;pełny numer tabeli
+  const currencyColumns = records[0]
+    .map((h, index) => ({ index, m: /^(\d+)\s*([A-Z]{3})$/.exec(h.trim()) }))
+    .filter(c => c.m);
+  if (header[0] === 'data' && currencyColumns.length > 0) {
+    const tableColumn = header.findIndex(h => h.startsWith('pełny numer') || h.startsWith('pelny numer'));
+    const rates: FxRate[] = [];
+    for (const row of records.slice(1)) {
+      const rateDate = parseRateDate(row[0]);
+      if (!rateDate) continue; // footer rows with currency names
+      for (const { index, m } of currencyColumns) {
+        const mid = parseDecimal(row[index]);
+        if (mid && m) {
+          rates.push({
+            rateDate,
+            currency: m[2],
+            rate: mid / Number(m[1]),
+            tableNo: tableColumn >= 0 ? row[tableColumn] || null : null,
+          });
+        }
+      }
+    }
+    return { ok: true, format: 'nbp_archive_csv', rates };
+  }
+
+  // Long layout
+  const find = (names: string[]) => header.findIndex(h => names.includes(h));
+  const dateCol = find(['data', 'date', 'effectivedate', 'rate_date', 'data_publikacji']);
+  const codeCol = find(['kod', 'code', 'currency', 'waluta', 'kod_waluty']);
+  const rateCol = find(['kurs', 'mid', 'rate', 'kurs_sredni', 'kurs średni']);
+  const unitCol = find(['przelicznik', 'unit', 'units']);
+  const tableCol = find(['tabela', 'table', 'no', 'numer_tabeli', 'table_no']);
+
+  if (dateCol < 0 || codeCol < 0 || rateCol < 0) {
+    return { ok: false, error: 'CSV needs date, currency and rate columns (or the NBP archive layout)' };
+  }
+
+  const rates: FxRate[] = [];
+  for (const row of records.slice(1)) {
+    const rateDate = parseRateDate(row[dateCol]);
+    const code = (row[codeCol] ?? '').toUpperCase();
+    const mid = parseDecimal(row[rateCol]);
+    const unit = unitCol >= 0 ? parseDecimal(row[unitCol]) ?? 1 : 1;
+    if (rateDate && mid && /^[A-Z]{3}$/.test(code)) {
+      rates.push({ rateDate, currency: code, rate: mid / unit, tableNo: tableCol >= 0 ? row[tableCol] || null : null });
+    }
+  }
+  return { ok: true, format: 'csv', rates };
+}
+
+/**
+ * Parse an NBP exchange-rate file (XML or CSV, UTF-8 or windows-1250)
+ */
+export function parseNbpRates(bytes: Uint8Array): ParseFxRatesResult {
+  const { text } = decodeStatement(bytes);
+  const trimmed = text.replace(/^\uFEFF/, '').trim();
+
+  const result = trimmed.startsWith('<') ? parseNbpXml(trimmed) : parseRatesCsv(trimmed);
+  if (result.ok && result.rates.length === 0) {
+    return { ok: false, error: 'No exchange rates found in file' };
+  }
+  return result;
+}
@@ -0,0 +1,167 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { BASE_CURRENCY } from '@/lib/finance/baseAmount';
+import type { FxRate } from './nbp';
+
+export interface Conversion {
+  amountBase: number;
+  baseCurrency: string;
+  fxRate: number;
+  fxRateDate: string;
+}
+
+export interface FxConverter {
+  /**
+   * Convert to the base currency with the latest rate on or before `date`.
+   * `strictlyBefore` uses the last table published before the date instead, which is
+   * what Polish tax law requires for invoices (art. 31a PIT / art. 15a CIT).
+   */
+  convert(amount: number, currency: string, date: string, options?: { strictlyBefore?: boolean }): Conversion | null;
+}
+
+// NBP publishes on business days; a gap longer than this means the rates were never imported
+const MAX_RATE_AGE_DAYS = 10;
+const PAGE_SIZE = 1000;
+
+function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Upsert imported rates; re-importing the same table is a no-op
+ */
+export async function saveFxRates(
+  supabase: SupabaseClient,
+  rates: FxRate[]
+): Promise<{ ok: true; saved: number } | { ok: false; error: string }> {
+  let saved = 0;
+  for (let i = 0; i < rates.length; i += 500) {
+    const batch = rates.slice(i, i + 500).map(r => ({
+      rate_date: r.rateDate,
+      currency: r.currency,
+      base_currency: BASE_CURRENCY,
+      rate: r.rate,
+      table_no: r.tableNo,
+      source: 'NBP',
+    }));
+
+    const { data, error } = await supabase
+      .from('fx_rates')
+      .upsert(batch, { onConflict: 'rate_date,currency,base_currency' })
+      .select('id');
+
+    if (error) {
+      console.error('[FX] Error saving rates:', error);
+      return { ok: false, error: error.message };
+    }
+    saved += data?.length || 0;
+  }
+  return { ok: true, saved };
+}
+
+/**
+ * Build a converter from a list of rates (any order)
+ */
+export function createFxConverter(rates: FxRate[]): FxConverter {
+  const byCurrency = new Map<string, FxRate[]>();
+  for (const rate of rates) {
+    const list = byCurrency.get(rate.currency) ?? [];
+    list.push(rate);
+    byCurrency.set(rate.currency, list);
+  }
+  for (const list of byCurrency.values()) {
+    list.sort((a, b) => a.rateDate.localeCompare(b.rateDate));
+  }
+
+  const findRate = (currency: string, date: string, strictlyBefore: boolean): FxRate | null => {
+    const list = byCurrency.get(currency);
+    if (!list) return null;
+
+    // Binary search for the last rate at (or before) the date
+    let lo = 0;
+    let hi = list.length - 1;
+    let found = -1;
+    while (lo <= hi) {
+      const mid = (lo + hi) >> 1;
+      const cmp = list[mid].rateDate.localeCompare(date);
+      if (cmp < 0 || (cmp === 0 && !strictlyBefore)) {
+        found = mid;
+        lo = mid + 1;
+      } else {
+        hi = mid - 1;
+      }
+    }
+
+    if (found < 0) return null;
+    const rate = list[found];
+    return rate.rateDate >= addDays(date, -MAX_RATE_AGE_DAYS) ? rate : null;
+  };
+
+  return {
+    convert(amount, currency, date, options = {}) {
+      const code = (currency || BASE_CURRENCY).toUpperCase();
+      if (code === BASE_CURRENCY) {
+        return { amountBase: round2(amount), baseCurrency: BASE_CURRENCY, fxRate: 1, fxRateDate: date };
+      }
+
+      const rate = findRate(code, date, !!options.strictlyBefore);
+      if (!rate) return null;
+
+      return {
+        amountBase: round2(amount * rate.rate),
+        baseCurrency: BASE_CURRENCY,
+        fxRate: rate.rate,
+        fxRateDate: rate.rateDate,
+      };
+    },
+  };
+}
+
+/**
+ * Load rates covering the given currencies and date range and return a converter
+ */
+export async function loadFxConverter(
+  supabase: SupabaseClient,
+  params: { currencies: string[]; dateFrom: string; dateTo: string }
+): Promise<FxConverter> {
+  const currencies = Array.from(new Set(params.currencies.map(c => c.toUpperCase()))).filter(
+    c => c !== BASE_CURRENCY
+  );
+  if (currencies.length === 0) return createFxConverter([]);
+
+  const rates: FxRate[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('fx_rates')
+      .select('rate_date, currency, rate, table_no')
+      .eq('base_currency', BASE_CURRENCY)
+      .in('currency', currencies)
+      .gte('rate_date', addDays(params.dateFrom, -MAX_RATE_AGE_DAYS))
+      .lte('rate_date', params.dateTo)
+      .order('rate_date', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      console.error('[FX] Error loading rates:', error);
+      break;
+    }
+
+    for (const row of data || []) {
+      rates.push({
+        rateDate: row.rate_date,
+        currency: row.currency,
+        rate: Number(row.rate),
+        tableNo: row.table_no,
+      });
+    }
+
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  return createFxConverter(rates);
+}
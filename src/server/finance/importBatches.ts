@@ -0,0 +1,121 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { StatementFormat } from './statements';
+
+export interface ImportBatchCounts {
+  parsed: number;
+  valid: number;
+  invalid: number;
+  inserted: number;
+  skipped: number;
+}
+
+export type RollbackImportBatchResult =
+  | {
+      ok: true;
+      batchId: string;
+      transactionsDeleted: number;
+      subscriptionLinksDeleted: number;
+      tripItemsDeleted: number;
+      documentLinksDeleted: number;
+    }
+  | {
+      ok: false;
+      step?: string;
+      error: string;
+    };
+
+/**
+ * Open a batch before transactions are inserted, so every row can reference it
+ */
+export async function createImportBatch(
+  supabase: SupabaseClient,
+  params: {
+    orgId: string;
+    documentId: string;
+    fileName: string | null;
+    fileSha256: string | null;
+    format: StatementFormat;
+    profile: string;
+    importedBy?: string | null;
+  }
+): Promise<{ ok: true; batchId: string } | { ok: false; error: string }> {
+  const { data, error } = await supabase
+    .from('finance_import_batches')
+    .insert({
+      org_id: params.orgId,
+      source_document_id: params.documentId,
+      file_name: params.fileName,
+      file_sha256: params.fileSha256,
+      format: params.format,
+      profile: params.profile,
+      imported_by: params.importedBy || null,
+      status: 'running',
+    })
+    .select('id')
+    .single();
+
+  if (error || !data) {
+    console.error('[importBatches] Error creating batch:', error);
+    return { ok: false, error: error?.message || 'Failed to create import batch' };
+  }
+
+  return { ok: true, batchId: data.id };
+}
+
+/**
+ * Record final row counts once the import has finished
+ */
+export async function completeImportBatch(
+  supabase: SupabaseClient,
+  batchId: string,
+  counts: ImportBatchCounts
+): Promise<void> {
+  const { error } = await supabase
+    .from('finance_import_batches')
+    .update({
+      rows_parsed: counts.parsed,
+      rows_valid: counts.valid,
+      rows_invalid: counts.invalid,
+      rows_inserted: counts.inserted,
+      rows_skipped: counts.skipped,
+      status: 'completed',
+    })
+    .eq('id', batchId);
+
+  if (error) {
+    console.error('[importBatches] Error completing batch:', error);
+  }
+}
+
+/**
+ * Undo an import: delete the batch transactions together with their subscription
+ * links and trip items, and soft delete document links pointing at them.
+ * Transactions skipped as duplicates belong to earlier batches and are left alone.
+ * Runs as one transaction (rollback_finance_import_batch); a batch whose transactions are
+ * items of a locked trip is refused without changing anything.
+ */
+export async function rollbackImportBatch(
+  supabase: SupabaseClient,
+  batchId: string,
+  rolledBackBy?: string | null
+): Promise<RollbackImportBatchResult> {
+  const { data, error } = await supabase.rpc('rollback_finance_import_batch', {
+    p_batch_id: batchId,
+    p_rolled_back_by: rolledBackBy || null,
+  });
+
+  if (error) {
+    console.error('[importBatches] Error rolling back batch:', error);
+    return { ok: false, step: 'rollback', error: error.message };
+  }
+
+  const counts = data as {
+    transactionsDeleted: number;
+    subscriptionLinksDeleted: number;
+    tripItemsDeleted: number;
+    documentLinksDeleted: number;
+  };
+  console.info('[importBatches] rollback', { batchId, ...counts });
+
+  return { ok: true, batchId, ...counts };
+}
@@ -0,0 +1,58 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { ColumnMapping } from './statements';
+
+/**
+ * Load column mappings saved from the import wizard for an organisation
+ */
+export async function getImportMappings(supabase: SupabaseClient, orgId: string): Promise<ColumnMapping[]> {
+  const { data, error } = await supabase
+    .from('finance_import_mappings')
+    .select('header_signature, delimiter, date_format, default_currency, columns')
+    .eq('org_id', orgId);
+
+  if (error) {
+    console.error('[importMappings] Error loading mappings:', error);
+    return [];
+  }
+
+  return (data || []).map(row => ({
+    headerSignature: row.header_signature,
+    delimiter: row.delimiter,
+    dateFormat: row.date_format,
+    defaultCurrency: row.default_currency,
+    columns: row.columns,
+  }));
+}
+
+/**
+ * Save (or replace) the mapping for a header signature
+ */
+export async function saveImportMapping(
+  supabase: SupabaseClient,
+  orgId: string,
+  mapping: ColumnMapping,
+  headers: string[]
+): Promise<{ ok: boolean; error?: string }> {
+  const { error } = await supabase
+    .from('finance_import_mappings')
+    .upsert(
+      {
+        org_id: orgId,
+        header_signature: mapping.headerSignature,
+        headers,
+        delimiter: mapping.delimiter,
+        date_format: mapping.dateFormat,
+        default_currency: mapping.defaultCurrency,
+        columns: mapping.columns,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: 'org_id,header_signature' }
+    );
+
+  if (error) {
+    console.error('[importMappings] Error saving mapping:', error);
+    return { ok: false, error: error.message };
+  }
+
+  return { ok: true };
+}
@@ -0,0 +1,144 @@
+import { createWorker } from 'tesseract.js';
+import pdf from 'pdf-parse';
+import { extractPageImages } from './pdfImages';
+
+/** Tesseract language models: receipts from our trips are in English or Arabic */
+export const OCR_LANGUAGES = ['eng', 'ara'];
+
+/** Language models for documents and contracts, which are Polish or English */
+export const DOCUMENT_OCR_LANGUAGES = ['pol', 'eng'];
+
+// Pages with less text than this are treated as scans
+const MIN_PDF_TEXT_LENGTH = 20;
+
+export interface ExtractedText {
+  text: string;
+  /** 0..1; a PDF text layer is exact */
+  confidence: number;
+  /** 'ocr' when at least one page was read by OCR */
+  method: 'ocr' | 'pdf_text';
+}
+
+export interface ExtractedPage {
+  /** 1-based */
+  page: number;
+  text: string;
+  confidence: number;
+  /** 'none': a scanned page without an image the OCR engine can read */
+  method: 'ocr' | 'pdf_text' | 'none';
+}
+
+export interface ExtractedPages extends ExtractedText {
+  pages: ExtractedPage[];
+}
+
+/**
+ * Run the local OCR engine on images, reusing one worker. Language data is downloaded once and
+ * cached; set TESSERACT_LANG_PATH to a directory with *.traineddata files to run fully offline.
+ */
+export async function recognizeImages(images: Buffer[], languages = OCR_LANGUAGES): Promise<ExtractedText[]> {
+  const options: { langPath?: string; cachePath?: string } = {};
+  if (process.env.TESSERACT_LANG_PATH) options.langPath = process.env.TESSERACT_LANG_PATH;
+  if (process.env.TESSERACT_CACHE_PATH) options.cachePath = process.env.TESSERACT_CACHE_PATH;
+
+  const worker = await createWorker(languages, undefined, options);
+  try {
+    const results: ExtractedText[] = [];
+    for (const image of images) {
+      const { data } = await worker.recognize(image);
+      results.push({ text: data.text, confidence: data.confidence / 100, method: 'ocr' });
+    }
+    return results;
+  } finally {
+    await worker.terminate();
+  }
+}
+
+export async function recognizeImage(image: Buffer, languages = OCR_LANGUAGES): Promise<ExtractedText> {
+  const [result] = await recognizeImages([image], languages);
+  return result;
+}
+
+/** Text layer of every page, in page order (pdf-parse only returns the whole document) */
+async function readPdfPages(file: Buffer): Promise<string[]> {
+  const pages: string[] = [];
+  await pdf(file, {
+    // Same line joining as pdf-parse's default page renderer
+    pagerender: async (pageData) => {
+      const content = await pageData.getTextContent({ normalizeWhitespace: false, disableCombineTextItems: false });
+      let lastY: number | undefined;
+      let text = '';
+      for (const item of content.items) {
+        text += lastY === undefined || lastY === item.transform[5] ? item.str : '\n' + item.str;
+        lastY = item.transform[5];
+      }
+      pages[pageData.pageIndex] = text;
+      return text;
+    },
+  });
+  return Array.from(pages, page => page || '');
+}
+
+/**
+ * Text of an uploaded file, page by page: the text layer of PDF pages, and OCR of images and of
+ * PDF pages that are scans (image-only).
+ */
+export async function extractTextPages(
+  file: Buffer,
+  mimeType: string,
+  languages = OCR_LANGUAGES
+): Promise<ExtractedPages> {
+  let pages: ExtractedPage[];
+
+  if (mimeType === 'application/pdf') {
+    const texts = await readPdfPages(file);
+    pages = texts.map((text, i) => ({ page: i + 1, text, confidence: 1, method: 'pdf_text' as const }));
+
+    const scanned = pages.filter(page => page.text.trim().length < MIN_PDF_TEXT_LENGTH);
+    if (scanned.length > 0) {
+      const images = await extractPageImages(file);
+      const readable = scanned.filter(page => images[page.page - 1]);
+      const results = await recognizeImages(readable.map(page => images[page.page - 1]!.data), languages);
+
+      readable.forEach((page, i) => Object.assign(page, results[i]));
+      for (const page of scanned) {
+        if (!readable.includes(page) && !page.text.trim()) {
+          Object.assign(page, { text: '', confidence: 0, method: 'none' });
+        }
+      }
+    }
+  } else if (mimeType.startsWith('image/')) {
+    const [result] = await recognizeImages([file], languages);
+    pages = [{ page: 1, ...result }];
+  } else {
+    throw new Error(`Unsupported file type for text extraction: ${mimeType}`);
+  }
+
+  const withText = pages.filter(page => page.text.trim());
+  if (withText.length === 0) {
+    throw new Error(
+      mimeType === 'application/pdf'
+        ? 'No text found: the PDF pages are scans in an image format the OCR engine cannot read'
+        : 'No text found in the image'
+    );
+  }
+
+  // Longer pages weigh more: a near-empty page read badly matters less than a full one
+  const totalLength = withText.reduce((sum, page) => sum + page.text.length, 0);
+  const confidence = withText.reduce((sum, page) => sum + page.confidence * page.text.length, 0) / totalLength;
+
+  return {
+    text: withText.map(page => page.text.trim()).join('\n\n'),
+    confidence,
+    method: pages.some(page => page.method === 'ocr') ? 'ocr' : 'pdf_text',
+    pages,
+  };
+}
+
+/**
+ * Text of an uploaded file: the text layer of a PDF, or OCR of an image or scanned PDF.
+ */
+export async function extractTextFromFile(file: Buffer, mimeType: string): Promise<ExtractedText> {
+  const { text, confidence, method } = await extractTextPages(file, mimeType);
+  return { text, confidence, method };
+}
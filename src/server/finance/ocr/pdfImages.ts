@@ -0,0 +1,171 @@
+import { deflateSync } from 'zlib';
+import {
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFName,
+  PDFNumber,
+  PDFRawStream,
+  PDFStream,
+  decodePDFRawStream,
+} from 'pdf-lib';
+
+/**
+ * Images embedded in PDF pages, for OCR of scanned documents. The PDF is not rendered (there is no
+ * canvas on the server): a scanner or phone app stores each page as one full-page image, which is
+ * taken out and converted to a file the OCR engine reads. JPEG images are passed through as they
+ * are; raw pixel images are wrapped in a PNG. Fax (CCITT), JBIG2 and JPEG 2000 images are skipped.
+ */
+
+export interface PageImage {
+  data: Buffer;
+  width: number;
+  height: number;
+}
+
+// Nested form XObjects deeper than this are not searched
+const MAX_FORM_DEPTH = 3;
+
+// Logos and icons are too small to be a scanned page
+const MIN_IMAGE_SIDE = 200;
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const body = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([length, body, crc]);
+}
+
+/** PNG from rows that already start with a PNG filter byte */
+function encodePng(width: number, height: number, bitDepth: number, colors: number, filteredRows: Buffer): Buffer {
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = bitDepth;
+  header[9] = colors === 3 ? 2 : 0; // truecolour or greyscale
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', deflateSync(filteredRows)),
+    pngChunk('IEND', Buffer.alloc(0)),
+  ]);
+}
+
+function colorComponents(colorSpace: unknown): number | null {
+  if (colorSpace === PDFName.of('DeviceGray') || colorSpace === PDFName.of('CalGray')) return 1;
+  if (colorSpace === PDFName.of('DeviceRGB') || colorSpace === PDFName.of('CalRGB')) return 3;
+  if (colorSpace instanceof PDFArray && colorSpace.get(0) === PDFName.of('ICCBased')) {
+    const profile = colorSpace.lookup(1);
+    const n = profile instanceof PDFStream ? profile.dict.lookup(PDFName.of('N')) : undefined;
+    return n instanceof PDFNumber && (n.asNumber() === 1 || n.asNumber() === 3) ? n.asNumber() : null;
+  }
+  return null;
+}
+
+function imageArea(stream: PDFRawStream): number {
+  const width = stream.dict.lookup(PDFName.of('Width'));
+  const height = stream.dict.lookup(PDFName.of('Height'));
+  if (!(width instanceof PDFNumber) || !(height instanceof PDFNumber)) return 0;
+  if (width.asNumber() < MIN_IMAGE_SIDE || height.asNumber() < MIN_IMAGE_SIDE) return 0;
+  return width.asNumber() * height.asNumber();
+}
+
+function toImageFile(stream: PDFRawStream): PageImage | null {
+  const dict = stream.dict;
+  const width = dict.lookup(PDFName.of('Width'));
+  const height = dict.lookup(PDFName.of('Height'));
+  if (!(width instanceof PDFNumber) || !(height instanceof PDFNumber)) return null;
+
+  const filter = dict.lookup(PDFName.of('Filter'));
+  const filters = filter instanceof PDFArray ? filter.asArray() : filter ? [filter] : [];
+  const size = { width: width.asNumber(), height: height.asNumber() };
+
+  if (filters.length === 1 && filters[0] === PDFName.of('DCTDecode')) {
+    return { data: Buffer.from(stream.contents), ...size };
+  }
+  if (filters.some(f => f === PDFName.of('DCTDecode') || f === PDFName.of('JPXDecode') || f === PDFName.of('CCITTFaxDecode') || f === PDFName.of('JBIG2Decode'))) {
+    return null;
+  }
+
+  const colors = colorComponents(dict.lookup(PDFName.of('ColorSpace')));
+  const bpc = dict.lookup(PDFName.of('BitsPerComponent'));
+  const bitDepth = bpc instanceof PDFNumber ? bpc.asNumber() : 8;
+  if (!colors || !(bitDepth === 8 || (bitDepth === 1 && colors === 1))) return null;
+
+  let pixels: Buffer;
+  try {
+    pixels = Buffer.from(decodePDFRawStream(stream).decode());
+  } catch {
+    return null;
+  }
+
+  const rowLength = Math.ceil((size.width * colors * bitDepth) / 8);
+  const parms = dict.lookup(PDFName.of('DecodeParms'));
+  const predictor = parms instanceof PDFDict ? parms.lookup(PDFName.of('Predictor')) : undefined;
+
+  // PNG predictors (10-15) already put a filter byte in front of every row
+  if (predictor instanceof PDFNumber && predictor.asNumber() >= 10) {
+    if (pixels.length < (rowLength + 1) * size.height) return null;
+    return { data: encodePng(size.width, size.height, bitDepth, colors, pixels), ...size };
+  }
+  if (predictor instanceof PDFNumber && predictor.asNumber() > 1) return null; // TIFF predictor
+
+  if (pixels.length < rowLength * size.height) return null;
+  const rows = Buffer.alloc((rowLength + 1) * size.height);
+  for (let y = 0; y < size.height; y++) {
+    pixels.copy(rows, y * (rowLength + 1) + 1, y * rowLength, (y + 1) * rowLength);
+  }
+  return { data: encodePng(size.width, size.height, bitDepth, colors, rows), ...size };
+}
+
+function collectImages(resources: PDFDict | undefined, depth: number, found: PDFRawStream[]) {
+  const xObjects = resources?.lookupMaybe(PDFName.of('XObject'), PDFDict);
+  if (!xObjects) return;
+
+  for (const [name] of xObjects.entries()) {
+    const xObject = xObjects.lookup(name);
+    if (!(xObject instanceof PDFRawStream)) continue;
+
+    const subtype = xObject.dict.lookup(PDFName.of('Subtype'));
+    if (subtype === PDFName.of('Image')) {
+      found.push(xObject);
+    } else if (subtype === PDFName.of('Form') && depth < MAX_FORM_DEPTH) {
+      collectImages(xObject.dict.lookupMaybe(PDFName.of('Resources'), PDFDict), depth + 1, found);
+    }
+  }
+}
+
+/**
+ * The largest readable image of every page, in page order (null for pages without one)
+ */
+export async function extractPageImages(pdf: Buffer): Promise<Array<PageImage | null>> {
+  const doc = await PDFDocument.load(pdf, { ignoreEncryption: true, updateMetadata: false });
+
+  return doc.getPages().map(page => {
+    const streams: PDFRawStream[] = [];
+    collectImages(page.node.Resources(), 0, streams);
+
+    // Decode only until one image is readable, largest first
+    const candidates = streams.filter(stream => imageArea(stream) > 0);
+    candidates.sort((a, b) => imageArea(b) - imageArea(a));
+    for (const stream of candidates) {
+      const image = toImageFile(stream);
+      if (image) return image;
+    }
+    return null;
+  });
+}
@@ -1,284 +1,442 @@
-import { createClient } from '@supabase/supabase-js';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
 import { createHash } from 'crypto';
-import { parse } from 'csv-parse/sync';
+import { applyCategoryRules } from './categoryRules';
+import { loadFxConverter } from './fx/rates';
+import { completeImportBatch, createImportBatch } from './importBatches';
+import { getImportMappings } from './importMappings';
+import {
+  ColumnMapping,
+  InvalidStatementRow,
+  parseStatement,
+  ParsedStatement,
+  StatementFormat,
+  StatementRow,
+} from './statements';
 
 export type ProcessBankStatementResult =
   | {
       ok: true;
+      batchId: string;
+      format: StatementFormat;
+      profile: string;
       parsed: number;
       valid: number;
       invalid: number;
       inserted: number;
       skipped: number;
+      /** Inserted transactions categorised by the organisation's rules */
+      categorised: number;
     }
   | {
       ok: false;
+      step?: string;
       error: string;
     };
 
+export interface BankStatementPreviewRow extends StatementRow {
+  transactionHash: string;
+  /** Hash already exists for the organisation: the row would be skipped on import */
+  duplicate: boolean;
+}
+
+export type BankStatementPreviewResult =
+  | {
+      ok: true;
+      documentId: string;
+      format: StatementFormat;
+      profile: string;
+      headers: string[];
+      headerSignature: string | null;
+      delimiter: string | null;
+      /** No bank profile recognised the CSV and it did not map cleanly: offer the column-mapping wizard */
+      needsMapping: boolean;
+      parsed: number;
+      rows: BankStatementPreviewRow[];
+      invalidRows: InvalidStatementRow[];
+      duplicateHashes: string[];
+    }
+  | {
+      ok: false;
+      step?: string;
+      error: string;
+    };
+
+interface TransactionInsert {
+  org_id: string;
+  source_document_id: string;
+  booking_date: string;
+  value_date: string | null;
+  amount: number;
+  currency: string;
+  description: string;
+  counterparty_name: string | null;
+  counterparty_account: string | null;
+  direction: 'in' | 'out';
+  category: string;
+  category_source: 'import' | null;
+  transaction_hash: string;
+  raw: Record<string, string>;
+  import_batch_id?: string;
+  amount_base?: number | null;
+  base_currency?: string | null;
+  fx_rate?: number | null;
+  fx_rate_date?: string | null;
+}
+
+type LoadedStatement = {
+  ok: true;
+  supabaseAdmin: SupabaseClient;
+  organisationId: string;
+  fileName: string | null;
+  fileSha256: string | null;
+  statement: ParsedStatement;
+  transactions: TransactionInsert[];
+  /** Per transaction: the organisation already has it, so the import skips it */
+  alreadyImported: boolean[];
+};
+
+// Hashes per existence lookup; sha256 hex keeps the query string well under URL limits
+const HASH_CHUNK_SIZE = 100;
+
 /**
- * Pick first non-empty value from row using multiple possible keys
+ * Calculate transaction hash for idempotency. The bank's entry reference (MT940, CAMT.053) keeps
+ * two identical same-day entries apart; CSV rows have none and hash by content only.
  */
-function pick(row: Record<string, string>, keys: string[]): string | null {
-  for (const key of keys) {
-    const value = row[key]?.trim();
-    if (value) return value;
-  }
-  return null;
+function transactionHash(row: StatementRow, withReference = true): string {
+  const parts = [
+    row.bookingDate,
+    String(row.amount),
+    row.currency,
+    row.description,
+    row.counterpartyAccount || '',
+    row.counterpartyName || '',
+  ];
+  if (withReference && row.bankReference) parts.push(row.bankReference);
+
+  return createHash('sha256').update(parts.join('|')).digest('hex');
 }
 
 /**
- * Process bank statement document: download CSV, parse, and insert transactions
- * Note: organisation_id is read from the document row, not passed as parameter
+ * Load the document, download and parse the file, and map rows to transactions.
+ * Shared by preview (dry run) and import.
  */
-export async function processBankStatementDocument(params: {
-  documentId: string;
-}): Promise<ProcessBankStatementResult> {
-  try {
-    const { documentId } = params;
+async function loadBankStatement(
+  documentId: string,
+  mapping?: ColumnMapping | null
+): Promise<LoadedStatement | { ok: false; step: string; error: string }> {
+  // Create admin Supabase client with service role key
+  const supabaseUrl = process.env.SUPABASE_URL || process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const supabaseServiceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!supabaseUrl || !supabaseServiceRoleKey) {
+    return {
+      ok: false,
+      step: 'env',
+      error: 'Missing SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY',
+    };
+  }
 
-    // Create admin Supabase client with service role key
-    const supabaseUrl = process.env.SUPABASE_URL || process.env.NEXT_PUBLIC_SUPABASE_URL;
-    const supabaseServiceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  const supabaseAdmin = createClient(supabaseUrl, supabaseServiceRoleKey, {
+    auth: { persistSession: false },
+  });
 
-    if (!supabaseUrl || !supabaseServiceRoleKey) {
-      return {
-        ok: false,
-        error: 'Missing SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY',
-      };
-    }
+  // 1. Load the document row using select("*") and log keys
+  const { data: docRow, error: docErr } = await supabaseAdmin
+    .from('documents')
+    .select('*')
+    .eq('id', documentId)
+    .single();
 
-    const supabaseAdmin = createClient(supabaseUrl, supabaseServiceRoleKey, {
-      auth: { persistSession: false },
-    });
+  if (docErr) {
+    console.error('[BANK_STATEMENT] load_document error:', docErr);
+    return {
+      ok: false,
+      step: 'load_document',
+      error: `Document not found: ${docErr.message}`,
+    };
+  }
 
-    // 1. Load the document row using select("*") and log keys
-    const { data: docRow, error: docErr } = await supabaseAdmin
-      .from('documents')
-      .select('*')
-      .eq('id', documentId)
-      .single();
+  console.info('[BANK_STATEMENT] doc keys', Object.keys(docRow ?? {}));
+  console.info('[BANK_STATEMENT] doc fields', {
+    id: docRow?.id,
+    doc_type: docRow?.doc_type,
+    organisation_id: docRow?.organisation_id,
+    storage_path: docRow?.storage_path,
+    file_url: docRow?.file_url,
+    file_name: docRow?.file_name,
+    mime_type: docRow?.mime_type,
+  });
+
+  // 2. Validate required inputs for import
+  if (docRow?.doc_type !== 'BANK_CONFIRMATION') {
+    console.error('[BANK_STATEMENT] validation_failed: wrong doc_type', { doc_type: docRow?.doc_type });
+    return {
+      ok: false,
+      step: 'wrong_doc_type',
+      error: `Document is not BANK_CONFIRMATION, got: ${docRow?.doc_type}`,
+    };
+  }
 
-    if (docErr) {
-      console.error('[BANK_STATEMENT] load_document error:', docErr);
-      return {
-        ok: false,
-        error: `Document not found: ${docErr.message}`,
-      };
-    }
+  if (!docRow?.organisation_id) {
+    console.error('[BANK_STATEMENT] validation_failed: missing organisation_id');
+    return {
+      ok: false,
+      step: 'missing_org',
+      error: 'Document has no organisation_id',
+    };
+  }
 
-    console.info('[BANK_STATEMENT] doc keys', Object.keys(docRow ?? {}));
-    console.info('[BANK_STATEMENT] doc fields', {
-      id: docRow?.id,
-      doc_type: docRow?.doc_type,
-      organisation_id: docRow?.organisation_id,
-      storage_path: docRow?.storage_path,
-      file_url: docRow?.file_url,
-      file_name: docRow?.file_name,
-      mime_type: docRow?.mime_type,
-    });
+  if (!docRow?.storage_path) {
+    console.error('[BANK_STATEMENT] validation_failed: missing storage_path');
+    return {
+      ok: false,
+      step: 'missing_storage_path',
+      error: 'Document has no storage_path',
+    };
+  }
 
-    // 2. Validate required inputs for import
-    if (docRow?.doc_type !== 'BANK_CONFIRMATION') {
-      console.error('[BANK_STATEMENT] validation_failed: wrong doc_type', { doc_type: docRow?.doc_type });
-      return {
-        ok: false,
-        error: `Document is not BANK_CONFIRMATION, got: ${docRow?.doc_type}`,
-      };
-    }
+  const organisationId: string = docRow.organisation_id;
+  const storagePath: string = docRow.storage_path;
 
-    if (!docRow?.organisation_id) {
-      console.error('[BANK_STATEMENT] validation_failed: missing organisation_id');
-      return {
-        ok: false,
-        error: 'Document has no organisation_id',
-      };
-    }
+  // 3. Download file bytes. Prefer Storage download, fallback to fetch(file_url)
+  const bucket = 'mb-cockpit';
+  let fileBytes: Uint8Array | null = null;
+
+  const dl = await supabaseAdmin.storage.from(bucket).download(storagePath);
+  if (!dl.error && dl.data) {
+    fileBytes = new Uint8Array(await dl.data.arrayBuffer());
+    console.info('[BANK_STATEMENT] download ok', { bytes: fileBytes.length });
+  } else {
+    console.warn('[BANK_STATEMENT] download failed', { error: dl.error?.message });
+  }
 
-    if (!docRow?.storage_path) {
-      console.error('[BANK_STATEMENT] validation_failed: missing storage_path');
+  if (!fileBytes) {
+    const resp = await fetch(docRow.file_url);
+    console.info('[BANK_STATEMENT] fetch status', { status: resp.status });
+    if (!resp.ok) {
       return {
         ok: false,
-        error: 'Document has no storage_path',
+        step: 'fetch_failed',
+        error: `Failed to fetch file: ${resp.status} ${resp.statusText}`,
       };
     }
+    fileBytes = new Uint8Array(await resp.arrayBuffer());
+    console.info('[BANK_STATEMENT] fetch ok', { bytes: fileBytes.length });
+  }
 
-    const organisationId = docRow.organisation_id;
-    const storagePath = docRow.storage_path;
-
-    // 3. Download CSV. Prefer Storage download, fallback to fetch(file_url)
-    const bucket = 'mb-cockpit';
-    let csvText: string | null = null;
-
-    const dl = await supabaseAdmin.storage.from(bucket).download(storagePath);
-    if (!dl.error && dl.data) {
-      csvText = await new Response(dl.data).text();
-      console.info('[BANK_STATEMENT] download ok', { bytes: csvText.length });
-    } else {
-      console.warn('[BANK_STATEMENT] download failed', { error: dl.error?.message });
-    }
+  // 4. Detect format (saved mapping / CSV bank profile, MT940, CAMT.053) and parse
+  const savedMappings = await getImportMappings(supabaseAdmin, organisationId);
+  const statement = parseStatement(fileBytes, {
+    mappings: mapping ? [mapping, ...savedMappings] : savedMappings,
+  });
 
-    if (!csvText) {
-      const resp = await fetch(docRow.file_url);
-      console.info('[BANK_STATEMENT] fetch status', { status: resp.status });
-      if (!resp.ok) {
-        return {
-          ok: false,
-          error: `Failed to fetch file: ${resp.status} ${resp.statusText}`,
-        };
-      }
-      csvText = await resp.text();
-      console.info('[BANK_STATEMENT] fetch ok', { bytes: csvText.length });
-    }
-
-    console.info('[BANK_STATEMENT] csv preview', csvText.slice(0, 200));
+  if (!statement.ok) {
+    console.error('[BANK_STATEMENT] parse failed', statement);
+    return { ok: false, step: statement.step, error: statement.error };
+  }
 
-    // 4. Parse CSV with delimiter autodetect
-    const firstLine = (csvText.split(/\r?\n/)[0] ?? '');
-    const delimiter = firstLine.split(';').length > firstLine.split(',').length ? ';' : ',';
-    console.info('[BANK_STATEMENT] delimiter', { delimiter, firstLine: firstLine.slice(0, 120) });
+  console.info('[BANK_STATEMENT] parsed', {
+    format: statement.format,
+    profile: statement.profile,
+    rows: statement.parsed,
+    invalid: statement.invalidRows.length,
+  });
 
-    const records = parse(csvText, {
-      columns: true,
-      skip_empty_lines: true,
-      bom: true,
-      trim: true,
-      delimiter,
-    });
+  if (statement.parsed === 0) {
+    return {
+      ok: false,
+      step: 'parse',
+      error: 'Parsed 0 rows',
+    };
+  }
 
-    console.info('[BANK_STATEMENT] parsed', {
-      rows: records.length,
-      headers: Object.keys(records[0] ?? {}),
-    });
+  // 5. Map rows to transactions
+  const transactions: TransactionInsert[] = statement.rows.map(row => ({
+    org_id: organisationId, // Use organisation_id from document
+    source_document_id: documentId,
+    booking_date: row.bookingDate,
+    value_date: row.valueDate,
+    amount: row.amount,
+    currency: row.currency,
+    description: row.description,
+    counterparty_name: row.counterpartyName,
+    counterparty_account: row.counterpartyAccount,
+    direction: row.amount < 0 ? 'out' : 'in',
+    category: row.category || 'uncategorised',
+    category_source: row.category ? 'import' : null,
+    transaction_hash: transactionHash(row),
+    raw: row.raw,
+  }));
+
+  // Look up only this file's hashes (rows imported before the bank reference was part of
+  // the hash are found by their old hash), so the org's transaction count does not matter
+  const legacyHashes = statement.rows.map(row => (row.bankReference ? transactionHash(row, false) : null));
+  const candidateHashes = [
+    ...new Set([...transactions.map(t => t.transaction_hash), ...legacyHashes.filter((h): h is string => !!h)]),
+  ];
+  const existingHashes = new Set<string>();
+  for (let i = 0; i < candidateHashes.length; i += HASH_CHUNK_SIZE) {
+    const { data: existing, error: existingErr } = await supabaseAdmin
+      .from('finance_transactions')
+      .select('transaction_hash')
+      .eq('org_id', organisationId)
+      .in('transaction_hash', candidateHashes.slice(i, i + HASH_CHUNK_SIZE));
 
-    if (records.length === 0) {
+    if (existingErr) {
       return {
         ok: false,
-        error: 'Parsed 0 rows',
+        step: 'load_existing',
+        error: `Failed to check for existing transactions: ${existingErr.message}`,
       };
     }
+    existing?.forEach(t => existingHashes.add(t.transaction_hash));
+  }
 
-    // 6. Map rows to transactions
-    const validRows: Array<{
-      org_id: string;
-      source_document_id: string;
-      booking_date: string;
-      value_date: string | null;
-      amount: number;
-      currency: string;
-      description: string;
-      counterparty_name: string | null;
-      counterparty_account: string | null;
-      direction: 'in' | 'out';
-      category: string;
-      transaction_hash: string;
-      raw: Record<string, any>;
-    }> = [];
-
-    let invalid = 0;
-
-    for (const row of records) {
-      // Map fields using pick helper
-      const bookingDateStr = pick(row, ['Data księgowania', 'Data ksiegowania', 'Data operacji', 'Data']);
-      const valueDateStr = pick(row, ['Data waluty', 'Data wartości', 'Data wartosci']);
-      const amountStr = pick(row, ['Kwota', 'Kwota operacji', 'Amount']);
-      const currencyStr = pick(row, ['Waluta', 'Currency']) || 'PLN';
-      const descriptionStr = pick(row, ['Opis operacji', 'Tytuł', 'Tytul', 'Opis']) || '';
-      const counterpartyName = pick(row, ['Kontrahent', 'Nadawca/Odbiorca', 'Odbiorca', 'Nadawca', 'Nazwa kontrahenta']);
-      const counterpartyAccount = pick(row, ['Rachunek kontrahenta', 'Numer rachunku', 'Nr rachunku', 'Konto']);
-
-      if (!bookingDateStr || !amountStr) {
-        invalid++;
-        continue;
-      }
+  const alreadyImported = transactions.map((t, i) => {
+    const legacyHash = legacyHashes[i];
+    return existingHashes.has(t.transaction_hash) || (!!legacyHash && existingHashes.has(legacyHash));
+  });
+
+  return {
+    ok: true,
+    supabaseAdmin,
+    organisationId,
+    fileName: docRow.file_name ?? null,
+    fileSha256: docRow.sha256 ?? null,
+    statement,
+    transactions,
+    alreadyImported,
+  };
+}
 
-      // Parse date (handle DD.MM.YYYY or YYYY-MM-DD)
-      let bookingDate: string;
-      if (bookingDateStr.includes('.')) {
-        const [day, month, year] = bookingDateStr.split('.');
-        bookingDate = `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
-      } else {
-        bookingDate = bookingDateStr;
-      }
+/**
+ * Dry run: parse the statement and report what an import would do, without writing anything.
+ * Optional mapping lets the wizard try a column mapping before it is saved.
+ */
+export async function previewBankStatementDocument(params: {
+  documentId: string;
+  mapping?: ColumnMapping | null;
+}): Promise<BankStatementPreviewResult> {
+  try {
+    const loaded = await loadBankStatement(params.documentId, params.mapping);
+    if (!loaded.ok) return loaded;
 
-      // Parse value_date if present
-      let valueDate: string | null = null;
-      if (valueDateStr) {
-        if (valueDateStr.includes('.')) {
-          const [day, month, year] = valueDateStr.split('.');
-          valueDate = `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
-        } else {
-          valueDate = valueDateStr;
-        }
-      }
+    const { statement, transactions, alreadyImported } = loaded;
 
-      // Parse amount: remove spaces, replace comma with dot, remove currency
-      let cleanAmountStr = amountStr.replace(/\s/g, '').replace(',', '.').replace(/PLN/g, '').trim();
-      const amount = parseFloat(cleanAmountStr);
+    const rows: BankStatementPreviewRow[] = statement.rows.map((row, i) => ({
+      ...row,
+      transactionHash: transactions[i].transaction_hash,
+      duplicate: alreadyImported[i],
+    }));
 
-      if (isNaN(amount) || amount === 0) {
-        invalid++;
-        continue;
-      }
+    const needsMapping =
+      statement.format === 'csv' &&
+      statement.profile === 'generic_pl' &&
+      (rows.length === 0 || statement.invalidRows.length > 0);
 
-      const direction: 'in' | 'out' = amount < 0 ? 'out' : 'in';
-      const absAmount = Math.abs(amount);
-
-      // Calculate transaction hash for idempotency
-      const hashString = [
-        bookingDate,
-        absAmount.toString(),
-        currencyStr,
-        descriptionStr || '',
-        counterpartyAccount || '',
-        counterpartyName || '',
-      ].join('|');
-
-      const transactionHash = createHash('sha256').update(hashString).digest('hex');
-
-      validRows.push({
-        org_id: organisationId, // Use organisation_id from document
-        source_document_id: documentId,
-        booking_date: bookingDate,
-        value_date: valueDate,
-        amount: absAmount,
-        currency: currencyStr,
-        description: descriptionStr,
-        counterparty_name: counterpartyName,
-        counterparty_account: counterpartyAccount,
-        direction,
-        category: 'uncategorised', // Will be categorized later if needed
-        transaction_hash: transactionHash,
-        raw: row,
-      });
-    }
+    return {
+      ok: true,
+      documentId: params.documentId,
+      format: statement.format,
+      profile: statement.profile,
+      headers: statement.headers ?? [],
+      headerSignature: statement.headerSignature ?? null,
+      delimiter: statement.delimiter ?? null,
+      needsMapping,
+      parsed: statement.parsed,
+      rows,
+      invalidRows: statement.invalidRows,
+      duplicateHashes: rows.filter(r => r.duplicate).map(r => r.transactionHash),
+    };
+  } catch (error) {
+    console.error('[BANK_STATEMENT] Preview error:', error);
+    return {
+      ok: false,
+      step: 'preview_exception',
+      error: error instanceof Error ? error.message : 'Unknown error previewing bank statement',
+    };
+  }
+}
+
+/**
+ * Process bank statement document: download the file (CSV, MT940 or CAMT.053), parse, and insert transactions
+ * Note: organisation_id is read from the document row, not passed as parameter
+ * Every run is recorded as an import batch so it can be rolled back.
+ */
+export async function processBankStatementDocument(params: {
+  documentId: string;
+  mapping?: ColumnMapping | null;
+  importedBy?: string | null;
+}): Promise<ProcessBankStatementResult> {
+  try {
+    const { documentId } = params;
+
+    const loaded = await loadBankStatement(documentId, params.mapping);
+    if (!loaded.ok) return loaded;
+
+    const { supabaseAdmin, organisationId, fileName, fileSha256, statement, transactions, alreadyImported } = loaded;
+    const { format, profile } = statement;
+    const invalid = statement.invalidRows.length;
 
-    console.info('[BANK_STATEMENT] mapped', { valid: validRows.length, invalid });
+    console.info('[BANK_STATEMENT] mapped', { valid: transactions.length, invalid });
 
-    if (validRows.length === 0) {
+    // Record detected profile on the source document (even if nothing mapped, it helps debugging)
+    const { error: profileError } = await supabaseAdmin
+      .from('documents')
+      .update({ bank_profile: profile })
+      .eq('id', documentId);
+
+    if (profileError) {
+      console.warn('[BANK_STATEMENT] failed to record bank profile', { error: profileError.message });
+    }
+
+    if (transactions.length === 0) {
       return {
         ok: false,
-        error: 'No valid transactions found after mapping',
+        step: 'map_0_valid',
+        error: `No valid transactions found after mapping (profile: ${profile})`,
       };
     }
 
-    // 7. Insert transactions with idempotency
-    // Get existing transaction hashes for this org to avoid duplicates
-    const existingHashes = new Set<string>();
-    const { data: existing } = await supabaseAdmin
-      .from('finance_transactions')
-      .select('transaction_hash')
-      .eq('org_id', organisationId);
+    const importBatch = await createImportBatch(supabaseAdmin, {
+      orgId: organisationId,
+      documentId,
+      fileName,
+      fileSha256,
+      format,
+      profile,
+      importedBy: params.importedBy,
+    });
 
-    if (existing) {
-      existing.forEach(t => existingHashes.add(t.transaction_hash));
+    if (!importBatch.ok) {
+      return { ok: false, step: 'create_batch', error: importBatch.error };
     }
 
-    // Filter out duplicates
-    const newTransactions = validRows.filter(t => !existingHashes.has(t.transaction_hash));
-    const skipped = validRows.length - newTransactions.length;
+    // 6. Insert transactions with idempotency: filter out duplicates
+    const pending = transactions.filter((_, i) => !alreadyImported[i]);
+    const skipped = transactions.length - pending.length;
 
-    console.info('[BANK_STATEMENT] mapped', { valid: validRows.length, invalid, new: newTransactions.length, skipped });
+    // Base-currency amounts; rows without an imported FX rate stay NULL for the backfill
+    const bookingDates = pending.map(t => t.booking_date).sort();
+    const fx = await loadFxConverter(supabaseAdmin, {
+      currencies: pending.map(t => t.currency),
+      dateFrom: bookingDates[0] ?? '',
+      dateTo: bookingDates[bookingDates.length - 1] ?? '',
+    });
+
+    const newTransactions = pending.map(t => {
+      const conversion = fx.convert(t.amount, t.currency, t.booking_date);
+      return {
+        ...t,
+        import_batch_id: importBatch.batchId,
+        amount_base: conversion?.amountBase ?? null,
+        base_currency: conversion?.baseCurrency ?? null,
+        fx_rate: conversion?.fxRate ?? null,
+        fx_rate_date: conversion?.fxRateDate ?? null,
+      };
+    });
+
+    console.info('[BANK_STATEMENT] mapped', { valid: transactions.length, invalid, new: newTransactions.length, skipped });
 
     let inserted = 0;
 
@@ -291,6 +449,8 @@ export async function processBankStatementDocument(params: {
         .from('finance_transactions')
         .upsert(batch, {
           onConflict: 'org_id,transaction_hash',
+          // Never re-assign a row that already belongs to another batch
+          ignoreDuplicates: true,
         })
         .select('id');
 
@@ -302,21 +462,63 @@ export async function processBankStatementDocument(params: {
       }
     }
 
-    console.info('[BANK_STATEMENT] insert', { inserted, skipped });
+    console.info('[BANK_STATEMENT] insert', { inserted, skipped, batchId: importBatch.batchId });
+
+    await completeImportBatch(supabaseAdmin, importBatch.batchId, {
+      parsed: statement.parsed,
+      valid: transactions.length,
+      invalid,
+      inserted,
+      skipped,
+    });
+
+    // Categorise new transactions with the organisation's rules
+    let categorised = 0;
+    if (inserted > 0) {
+      try {
+        const rulesResult = await applyCategoryRules(supabaseAdmin, organisationId, {
+          importBatchId: importBatch.batchId,
+        });
+        categorised = rulesResult.categorised;
+      } catch (rulesError) {
+        console.error('[BANK_STATEMENT] category rules failed', rulesError);
+        // Don't fail the import if categorisation fails
+      }
+    }
+
+    // Detect recurring patterns after import
+    if (inserted > 0) {
+      try {
+        const { detectAndUpdateRecurring } = await import('@/lib/finance/detectAndUpdateRecurring');
+        const detectResult = await detectAndUpdateRecurring(organisationId);
+        console.info('[BANK_STATEMENT] recurring detection complete', detectResult);
+      } catch (detectError) {
+        console.error(
+          '[BANK_STATEMENT] recurring detection failed',
+          detectError instanceof Error ? detectError.message : detectError
+        );
+        // Don't fail the import if detection fails
+      }
+    }
 
     return {
       ok: true,
-      parsed: records.length,
-      valid: validRows.length,
+      batchId: importBatch.batchId,
+      format,
+      profile,
+      parsed: statement.parsed,
+      valid: transactions.length,
       invalid,
       inserted,
       skipped,
+      categorised,
     };
-  } catch (error: any) {
+  } catch (error) {
     console.error('[BANK_STATEMENT] Process error:', error);
     return {
       ok: false,
-      error: error?.message || 'Unknown error processing bank statement',
+      step: 'import_exception',
+      error: (error instanceof Error && error.message) || 'Unknown error processing bank statement',
     };
   }
 }
@@ -0,0 +1,299 @@
+/**
+ * Invoice ↔ payment matching. Pure functions so the engine can be run over any snapshot
+ * of invoices and transactions; persistence lives in ./reconcile.ts.
+ *
+ * Matching runs in three passes, each only seeing what the previous ones left open:
+ * 1. invoice numbers found in the transfer title (handles partial and multi-invoice payments)
+ * 2. a single open invoice with the same amount, disambiguated by counterparty
+ * 3. several open invoices of one counterparty that together make up the transfer
+ */
+
+import type { PaymentStatus } from '@/lib/db/documents';
+
+export type { PaymentStatus };
+export type MatchType = 'invoice_number' | 'amount' | 'aggregate';
+
+export interface ReconInvoice {
+  id: string;
+  invoice_type: 'cost' | 'revenue';
+  invoice_number: string | null;
+  amount_original: number;
+  currency: string;
+  amount_base: number | null;
+  invoice_date: string;
+  party_names: string[];
+}
+
+export interface ReconTransaction {
+  id: string;
+  booking_date: string;
+  amount: number;
+  currency: string;
+  amount_base: number | null;
+  direction: 'in' | 'out';
+  description: string | null;
+  counterparty_name: string | null;
+}
+
+export interface ReconMatch {
+  document_id: string;
+  transaction_id: string;
+  /** Allocated amount in the invoice currency */
+  amount: number;
+  /** The same allocation in the transaction currency (absolute) */
+  transaction_amount: number;
+  match_type: MatchType;
+  score: number;
+  explanation: string;
+}
+
+// Payments may arrive shortly before the invoice is booked and long after it is due
+const DAYS_BEFORE_INVOICE = 7;
+const DAYS_AFTER_INVOICE = 120;
+// Cross-currency matches go through NBP mid rates while the bank used its own spread
+const FX_TOLERANCE = 0.02;
+const AMOUNT_TOLERANCE = 0.01;
+const MAX_AGGREGATE_CANDIDATES = 8;
+const MAX_AGGREGATE_SIZE = 4;
+
+const LEGAL_FORMS = new Set(['sp', 'spolka', 'zoo', 'oo', 'sa', 'sk', 'ska', 'ltd', 'gmbh', 'inc', 'llc', 'bv', 'the']);
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to.slice(0, 10)}T00:00:00Z`) - Date.parse(`${from.slice(0, 10)}T00:00:00Z`)) / 86400000);
+}
+
+function nameTokens(name: string): string[] {
+  return name
+    .toLowerCase()
+    .replace(/ł/g, 'l')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .split(/[^a-z0-9]+/)
+    .filter(token => token.length >= 3 && !LEGAL_FORMS.has(token));
+}
+
+export function counterpartyMatches(invoice: ReconInvoice, tx: ReconTransaction): boolean {
+  if (!tx.counterparty_name) return false;
+  const txTokens = new Set(nameTokens(tx.counterparty_name));
+  return invoice.party_names.some(name => nameTokens(name).some(token => txTokens.has(token)));
+}
+
+/**
+ * Regex for an invoice number inside free text: separators are optional and the number
+ * must not be part of a longer one ("1/2025" does not match "11/2025")
+ */
+export function invoiceNumberPattern(invoiceNumber: string): RegExp | null {
+  const parts = invoiceNumber.toUpperCase().split(/[\s/\-_.\\]+/).filter(Boolean);
+  const compact = parts.join('');
+  if (compact.length < 3 || !/\d/.test(compact)) return null;
+
+  const body = parts.map(part => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('[\\s/\\-_.\\\\]*');
+  return new RegExp(`(?<![A-Z0-9])${body}(?![A-Z0-9])`);
+}
+
+/**
+ * Factor converting a transaction amount into the invoice currency, or null when the
+ * currencies differ and one side has no base-currency amount yet
+ */
+export function transactionToInvoiceFactor(tx: ReconTransaction, invoice: ReconInvoice): number | null {
+  if (tx.currency.toUpperCase() === invoice.currency.toUpperCase()) return 1;
+  if (tx.amount_base == null || invoice.amount_base == null) return null;
+  if (!tx.amount || !invoice.amount_original || !invoice.amount_base) return null;
+
+  const txRate = Math.abs(tx.amount_base) / Math.abs(tx.amount);
+  const invoiceRate = Math.abs(invoice.amount_base) / Math.abs(invoice.amount_original);
+  return txRate / invoiceRate;
+}
+
+function tolerance(amount: number, crossCurrency: boolean): number {
+  return crossCurrency ? Math.max(1, Math.abs(amount) * FX_TOLERANCE) : AMOUNT_TOLERANCE;
+}
+
+function isEligible(invoice: ReconInvoice, tx: ReconTransaction): boolean {
+  const expected = invoice.invoice_type === 'cost' ? 'out' : 'in';
+  if (tx.direction !== expected) return false;
+  const days = daysBetween(invoice.invoice_date, tx.booking_date);
+  return days >= -DAYS_BEFORE_INVOICE && days <= DAYS_AFTER_INVOICE;
+}
+
+/**
+ * Match transactions to invoices. `rejectedPairs` ("documentId:transactionId") are never proposed.
+ */
+export function matchInvoicesToPayments(
+  invoices: ReconInvoice[],
+  transactions: ReconTransaction[],
+  rejectedPairs: Set<string> = new Set()
+): ReconMatch[] {
+  const matches: ReconMatch[] = [];
+  const invoiceOpen = new Map(invoices.map(inv => [inv.id, Math.abs(inv.amount_original)]));
+  const txRemaining = new Map(transactions.map(tx => [tx.id, Math.abs(tx.amount)]));
+  const matchedInvoices = new Set<string>();
+  const matchedTransactions = new Set<string>();
+
+  const allowed = (invoice: ReconInvoice, tx: ReconTransaction) =>
+    !rejectedPairs.has(`${invoice.id}:${tx.id}`) && isEligible(invoice, tx) && transactionToInvoiceFactor(tx, invoice) !== null;
+
+  const allocate = (
+    invoice: ReconInvoice,
+    tx: ReconTransaction,
+    amount: number,
+    matchType: MatchType,
+    score: number,
+    explanation: string
+  ) => {
+    const factor = transactionToInvoiceFactor(tx, invoice)!;
+    const transactionAmount = round2(amount / factor);
+    matches.push({
+      document_id: invoice.id,
+      transaction_id: tx.id,
+      amount: round2(amount),
+      transaction_amount: transactionAmount,
+      match_type: matchType,
+      score,
+      explanation,
+    });
+    invoiceOpen.set(invoice.id, (invoiceOpen.get(invoice.id) ?? 0) - amount);
+    txRemaining.set(tx.id, Math.max(0, (txRemaining.get(tx.id) ?? 0) - transactionAmount));
+    matchedInvoices.add(invoice.id);
+    matchedTransactions.add(tx.id);
+  };
+
+  const byDate = [...transactions].sort((a, b) => a.booking_date.localeCompare(b.booking_date));
+  const patterns = new Map(
+    invoices
+      .map(inv => [inv.id, inv.invoice_number ? invoiceNumberPattern(inv.invoice_number) : null] as const)
+      .filter((entry): entry is readonly [string, RegExp] => entry[1] !== null)
+  );
+
+  // Pass 1: invoice numbers in the title. Several numbers in one transfer are paid oldest
+  // first; whatever is left over lands on the last invoice and shows up as an overpayment.
+  for (const tx of byDate) {
+    const title = (tx.description || '').toUpperCase();
+    if (!title) continue;
+
+    const referenced = invoices
+      .filter(inv => patterns.get(inv.id)?.test(title) && allowed(inv, tx))
+      .sort((a, b) => a.invoice_date.localeCompare(b.invoice_date));
+
+    referenced.forEach((invoice, index) => {
+      const factor = transactionToInvoiceFactor(tx, invoice)!;
+      const available = (txRemaining.get(tx.id) ?? 0) * factor;
+      if (available <= 0) return;
+      const isLast = index === referenced.length - 1;
+      const amount = isLast ? available : Math.min(Math.max(invoiceOpen.get(invoice.id) ?? 0, 0), available);
+      if (amount <= 0) return;
+      allocate(invoice, tx, amount, 'invoice_number', 0.95, `Invoice number ${invoice.invoice_number} in transfer title`);
+    });
+  }
+
+  // Pass 2: one untouched transaction for exactly one untouched invoice
+  for (const tx of byDate) {
+    if (matchedTransactions.has(tx.id)) continue;
+
+    const candidates = invoices.filter(inv => {
+      if (matchedInvoices.has(inv.id) || !allowed(inv, tx)) return false;
+      const factor = transactionToInvoiceFactor(tx, inv)!;
+      const converted = Math.abs(tx.amount) * factor;
+      return Math.abs(converted - Math.abs(inv.amount_original)) <= tolerance(inv.amount_original, factor !== 1);
+    });
+    if (candidates.length === 0) continue;
+
+    const sameParty = candidates.filter(inv => counterpartyMatches(inv, tx));
+    const chosen = candidates.length === 1 ? candidates[0] : sameParty.length === 1 ? sameParty[0] : null;
+    if (!chosen) continue; // ambiguous - leave for manual review
+
+    const factor = transactionToInvoiceFactor(tx, chosen)!;
+    const partyMatch = sameParty.includes(chosen);
+    allocate(
+      chosen,
+      tx,
+      Math.abs(tx.amount) * factor,
+      'amount',
+      partyMatch ? 0.85 : 0.7,
+      `Amount matches${factor !== 1 ? ' after FX conversion' : ''}${partyMatch ? ' and counterparty matches' : ''}`
+    );
+  }
+
+  // Pass 3: one transfer settling several invoices of the same counterparty
+  for (const tx of byDate) {
+    if (matchedTransactions.has(tx.id)) continue;
+
+    const candidates = invoices
+      .filter(inv => !matchedInvoices.has(inv.id) && allowed(inv, tx) && counterpartyMatches(inv, tx))
+      .sort((a, b) => a.invoice_date.localeCompare(b.invoice_date))
+      .slice(0, MAX_AGGREGATE_CANDIDATES);
+    if (candidates.length < 2) continue;
+
+    const subset = findSubsetForTransaction(tx, candidates);
+    if (!subset) continue;
+
+    for (const invoice of subset) {
+      allocate(
+        invoice,
+        tx,
+        Math.abs(invoice.amount_original),
+        'aggregate',
+        0.75,
+        `Paid together with ${subset.length - 1} other invoice(s) of the same counterparty`
+      );
+    }
+  }
+
+  return matches;
+}
+
+/**
+ * Smallest combination of invoices whose total equals the transaction amount
+ */
+function findSubsetForTransaction(tx: ReconTransaction, candidates: ReconInvoice[]): ReconInvoice[] | null {
+  const target = Math.abs(tx.amount);
+
+  for (let size = 2; size <= Math.min(MAX_AGGREGATE_SIZE, candidates.length); size++) {
+    let found: ReconInvoice[] | null = null;
+
+    const search = (start: number, picked: ReconInvoice[]) => {
+      if (found) return;
+      if (picked.length === size) {
+        let total = 0;
+        let crossCurrency = false;
+        for (const inv of picked) {
+          const factor = transactionToInvoiceFactor(tx, inv)!;
+          crossCurrency = crossCurrency || factor !== 1;
+          total += Math.abs(inv.amount_original) / factor;
+        }
+        if (Math.abs(total - target) <= tolerance(target, crossCurrency)) {
+          found = [...picked];
+        }
+        return;
+      }
+      for (let i = start; i < candidates.length; i++) {
+        search(i + 1, [...picked, candidates[i]]);
+      }
+    };
+
+    search(0, []);
+    if (found) return found;
+  }
+
+  return null;
+}
+
+/**
+ * Payment status of an invoice from its matches
+ */
+export function paymentStatusOf(
+  invoice: Pick<ReconInvoice, 'amount_original'>,
+  matches: Pick<ReconMatch, 'amount'>[],
+  crossCurrency = false
+): { status: PaymentStatus; paid: number } {
+  const total = Math.abs(invoice.amount_original);
+  const paid = round2(matches.reduce((sum, m) => sum + Number(m.amount), 0));
+  const tol = tolerance(total, crossCurrency);
+
+  if (paid <= 0) return { status: 'unpaid', paid: 0 };
+  if (paid < total - tol) return { status: 'partially_paid', paid };
+  if (paid > total + tol) return { status: 'overpaid', paid };
+  return { status: 'paid', paid };
+}
@@ -0,0 +1,199 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  matchInvoicesToPayments,
+  paymentStatusOf,
+  PaymentStatus,
+  ReconInvoice,
+  ReconMatch,
+  ReconTransaction,
+} from './match';
+
+export interface ReconcileInvoicesResult {
+  ok: boolean;
+  invoices: number;
+  matches: number;
+  byStatus: Record<PaymentStatus, number>;
+  error?: string;
+}
+
+const PAGE_SIZE = 1000;
+const INSERT_CHUNK_SIZE = 500;
+
+interface InvoiceRow {
+  id: string;
+  invoice_type: 'cost' | 'revenue';
+  invoice_number: string | null;
+  amount_original: number;
+  currency: string | null;
+  amount_base: number | null;
+  invoice_date: string;
+  contact_name: string | null;
+  organisation_name_guess: string | null;
+  organisation_id: string | null;
+  payment_status: PaymentStatus | null;
+  amount_paid: number | null;
+}
+
+async function loadAll<T>(
+  fetchPage: (from: number, to: number) => PromiseLike<{ data: unknown[] | null; error: { message: string } | null }>
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await fetchPage(from, from + PAGE_SIZE - 1);
+    if (error) throw new Error(error.message);
+    rows.push(...((data || []) as T[]));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+  return rows;
+}
+
+function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+/**
+ * Re-run matching for all invoices. Automatic matches are recomputed from scratch;
+ * rejected pairs are kept so the engine does not propose them again.
+ */
+export async function reconcileInvoices(supabase: SupabaseClient): Promise<ReconcileInvoicesResult> {
+  const byStatus: Record<PaymentStatus, number> = { unpaid: 0, partially_paid: 0, paid: 0, overpaid: 0 };
+
+  try {
+    const invoiceRows = await loadAll<InvoiceRow>((from, to) =>
+      supabase
+        .from('documents')
+        .select('id, invoice_type, invoice_number, amount_original, currency, amount_base, invoice_date, contact_name, organisation_name_guess, organisation_id, payment_status, amount_paid')
+        .not('invoice_type', 'is', null)
+        .not('amount_original', 'is', null)
+        .not('invoice_date', 'is', null)
+        .order('id')
+        .range(from, to)
+    );
+
+    if (invoiceRows.length === 0) {
+      return { ok: true, invoices: 0, matches: 0, byStatus };
+    }
+
+    // Organisation picked on the invoice is the counterparty; its name helps disambiguate
+    const orgIds = Array.from(new Set(invoiceRows.map(r => r.organisation_id).filter((id): id is string => !!id)));
+    const orgNames = new Map<string, string>();
+    for (let i = 0; i < orgIds.length; i += 200) {
+      const { data } = await supabase.from('organisations').select('id, name').in('id', orgIds.slice(i, i + 200));
+      (data || []).forEach((o: { id: string; name: string }) => orgNames.set(o.id, o.name));
+    }
+
+    const invoices: ReconInvoice[] = invoiceRows.map(row => ({
+      id: row.id,
+      invoice_type: row.invoice_type,
+      invoice_number: row.invoice_number,
+      amount_original: Number(row.amount_original),
+      currency: row.currency || 'PLN',
+      amount_base: row.amount_base != null ? Number(row.amount_base) : null,
+      invoice_date: row.invoice_date,
+      party_names: [
+        row.contact_name,
+        row.organisation_name_guess,
+        row.organisation_id ? orgNames.get(row.organisation_id) : null,
+      ].filter((name): name is string => !!name),
+    }));
+
+    const dates = invoices.map(inv => inv.invoice_date).sort();
+    const transactions = await loadAll<ReconTransaction>((from, to) =>
+      supabase
+        .from('finance_transactions')
+        .select('id, booking_date, amount, currency, amount_base, direction, description, counterparty_name')
+        .gte('booking_date', addDays(dates[0], -7))
+        .lte('booking_date', addDays(dates[dates.length - 1], 120))
+        .order('id')
+        .range(from, to)
+    );
+
+    const rejected = await loadAll<{ document_id: string; transaction_id: string }>((from, to) =>
+      supabase
+        .from('invoice_payment_matches')
+        .select('document_id, transaction_id')
+        .eq('is_rejected', true)
+        .order('id')
+        .range(from, to)
+    );
+    const rejectedPairs = new Set(rejected.map(r => `${r.document_id}:${r.transaction_id}`));
+
+    const matches = matchInvoicesToPayments(invoices, transactions, rejectedPairs);
+
+    const { error: deleteError } = await supabase
+      .from('invoice_payment_matches')
+      .delete()
+      .eq('is_rejected', false);
+    if (deleteError) throw new Error(deleteError.message);
+
+    for (let i = 0; i < matches.length; i += INSERT_CHUNK_SIZE) {
+      const { error } = await supabase
+        .from('invoice_payment_matches')
+        .insert(matches.slice(i, i + INSERT_CHUNK_SIZE));
+      if (error) throw new Error(error.message);
+    }
+
+    // Store the status on the invoice so document lists do not need the matches
+    const matchesByInvoice = new Map<string, ReconMatch[]>();
+    matches.forEach(m => matchesByInvoice.set(m.document_id, [...(matchesByInvoice.get(m.document_id) ?? []), m]));
+    const txCurrency = new Map(transactions.map(tx => [tx.id, tx.currency.toUpperCase()]));
+    const invoicesById = new Map(invoices.map(inv => [inv.id, inv]));
+
+    for (const row of invoiceRows) {
+      const invoice = invoicesById.get(row.id)!;
+      const invoiceMatches = matchesByInvoice.get(row.id) ?? [];
+      const crossCurrency = invoiceMatches.some(m => txCurrency.get(m.transaction_id) !== invoice.currency.toUpperCase());
+      const { status, paid } = paymentStatusOf(invoice, invoiceMatches, crossCurrency);
+      byStatus[status] += 1;
+
+      if (row.payment_status === status && Number(row.amount_paid ?? 0) === paid) continue;
+
+      const { error } = await supabase
+        .from('documents')
+        .update({ payment_status: status, amount_paid: paid, reconciled_at: new Date().toISOString() })
+        .eq('id', row.id);
+      if (error) {
+        console.error('[reconciliation] Error updating invoice status', { documentId: row.id, error: error.message });
+      }
+    }
+
+    console.info('[reconciliation] done', { invoices: invoices.length, transactions: transactions.length, matches: matches.length, byStatus });
+    return { ok: true, invoices: invoices.length, matches: matches.length, byStatus };
+  } catch (error) {
+    console.error('[reconciliation] Failed:', error);
+    return {
+      ok: false,
+      invoices: 0,
+      matches: 0,
+      byStatus,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+/**
+ * Reject an automatic match; the pair is remembered and the invoices are re-reconciled
+ */
+export async function rejectInvoiceMatch(
+  supabase: SupabaseClient,
+  matchId: string
+): Promise<ReconcileInvoicesResult> {
+  const { error } = await supabase
+    .from('invoice_payment_matches')
+    .update({ is_rejected: true, rejected_at: new Date().toISOString() })
+    .eq('id', matchId);
+
+  if (error) {
+    return {
+      ok: false,
+      invoices: 0,
+      matches: 0,
+      byStatus: { unpaid: 0, partially_paid: 0, paid: 0, overpaid: 0 },
+      error: error.message,
+    };
+  }
+
+  return reconcileInvoices(supabase);
+}
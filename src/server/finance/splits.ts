@@ -0,0 +1,144 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { validateSplits } from '@/lib/finance/splits';
+import type { TransactionSplit, TransactionSplitInput } from '@/lib/finance/splits';
+
+export type SaveTransactionSplitsResult =
+  | { ok: true; splits: TransactionSplit[] }
+  | { ok: false; error: string };
+
+interface SplitParent {
+  id: string;
+  org_id: string;
+  amount: number;
+  currency: string;
+  booking_date: string;
+  description: string | null;
+  counterparty_name: string | null;
+  paid_by_company_card: boolean | null;
+  exclude_from_reimbursement: boolean | null;
+  base_currency: string | null;
+  fx_rate: number | null;
+  fx_rate_date: string | null;
+}
+
+/**
+ * Replace the split lines of a transaction. An empty list removes the split.
+ * Lines allocated to a trip get their own trip item, so trip totals only count that share.
+ */
+export async function saveTransactionSplits(
+  supabase: SupabaseClient,
+  transactionId: string,
+  splits: TransactionSplitInput[]
+): Promise<SaveTransactionSplitsResult> {
+  const { data: parent, error: parentError } = await supabase
+    .from('finance_transactions')
+    .select('id, org_id, amount, currency, booking_date, description, counterparty_name, paid_by_company_card, exclude_from_reimbursement, base_currency, fx_rate, fx_rate_date')
+    .eq('id', transactionId)
+    .single<SplitParent>();
+
+  if (parentError || !parent) {
+    return { ok: false, error: parentError?.message || 'Transaction not found' };
+  }
+
+  if (splits.length > 0) {
+    const validationError = validateSplits(Number(parent.amount), splits);
+    if (validationError) {
+      return { ok: false, error: validationError };
+    }
+  }
+
+  if (splits.some(split => split.trip_id)) {
+    const { data: wholeItems, error: itemsError } = await supabase
+      .from('finance_trip_items')
+      .select('id')
+      .eq('transaction_id', transactionId)
+      .is('split_id', null)
+      .limit(1);
+
+    if (itemsError) {
+      return { ok: false, error: itemsError.message };
+    }
+    if (wholeItems && wholeItems.length > 0) {
+      return { ok: false, error: 'The whole transaction is already on a trip; remove it from the trip before allocating split lines' };
+    }
+  }
+
+  // Existing split trip items go with their splits (ON DELETE CASCADE)
+  const { error: deleteError } = await supabase
+    .from('finance_transaction_splits')
+    .delete()
+    .eq('transaction_id', transactionId);
+
+  if (deleteError) {
+    return { ok: false, error: deleteError.message };
+  }
+
+  let saved: TransactionSplit[] = [];
+  if (splits.length > 0) {
+    const { data, error } = await supabase
+      .from('finance_transaction_splits')
+      .insert(
+        splits.map((split, position) => ({
+          org_id: parent.org_id,
+          transaction_id: transactionId,
+          position,
+          amount: Number(split.amount),
+          category: split.category?.trim() || 'uncategorised',
+          subcategory: split.subcategory?.trim() || null,
+          project_id: split.project_id || null,
+          trip_id: split.trip_id || null,
+          note: split.note?.trim() || null,
+        }))
+      )
+      .select('*');
+
+    if (error) {
+      return { ok: false, error: error.message };
+    }
+    saved = ((data || []) as TransactionSplit[]).sort((a, b) => a.position - b.position);
+  }
+
+  const { error: flagError } = await supabase
+    .from('finance_transactions')
+    .update({ has_splits: saved.length > 0 })
+    .eq('id', transactionId);
+
+  if (flagError) {
+    return { ok: false, error: flagError.message };
+  }
+
+  const tripItems = saved
+    .filter(split => split.trip_id)
+    .map(split => ({
+      org_id: parent.org_id,
+      trip_id: split.trip_id,
+      source: 'transaction',
+      transaction_id: transactionId,
+      split_id: split.id,
+      item_date: parent.booking_date,
+      vendor: parent.counterparty_name || null,
+      description: split.note || parent.description || null,
+      category: split.category,
+      amount: Number(split.amount),
+      currency: parent.currency,
+      paid_by_company_card: parent.paid_by_company_card ?? false,
+      exclude_from_reimbursement: parent.exclude_from_reimbursement ?? false,
+      card_source: 'MB',
+      base_currency: parent.fx_rate != null ? parent.base_currency : null,
+      fx_rate: parent.fx_rate,
+      fx_rate_date: parent.fx_rate_date,
+      amount_base: parent.fx_rate != null
+        ? Math.round(Number(split.amount) * Number(parent.fx_rate) * 100) / 100
+        : null,
+    }));
+
+  if (tripItems.length > 0) {
+    const { error } = await supabase.from('finance_trip_items').insert(tripItems);
+    if (error) {
+      return { ok: false, error: `Splits saved, but trip items failed: ${error.message}` };
+    }
+  }
+
+  console.info('[splits] saved', { transactionId, lines: saved.length, tripItems: tripItems.length });
+  return { ok: true, splits: saved };
+}
@@ -0,0 +1,38 @@
+import type { StatementRow } from './types';
+
+export interface StatementBalances {
+  /** Statement reference (MT940 :20: / CAMT Stmt/Id), used in error messages */
+  reference: string;
+  currency: string;
+  opening: number | null;
+  closing: number | null;
+  rows: StatementRow[];
+}
+
+const toCents = (value: number) => Math.round(value * 100);
+
+/**
+ * Check that opening balance + booked entries = closing balance.
+ * A missing closing balance means the file was cut off, so it is rejected as well.
+ * Returns an error message, or null if the statement is consistent.
+ */
+export function checkStatementBalances(statement: StatementBalances): string | null {
+  if (statement.opening == null) {
+    return `Statement ${statement.reference}: missing opening balance`;
+  }
+  if (statement.closing == null) {
+    return `Statement ${statement.reference}: missing closing balance (file truncated?)`;
+  }
+
+  const movement = statement.rows.reduce((sum, row) => sum + toCents(row.amount), 0);
+  const expected = toCents(statement.opening) + movement;
+
+  if (expected !== toCents(statement.closing)) {
+    return (
+      `Statement ${statement.reference}: opening ${statement.opening.toFixed(2)} + entries ` +
+      `${(movement / 100).toFixed(2)} != closing ${statement.closing.toFixed(2)} ${statement.currency}`
+    );
+  }
+
+  return null;
+}
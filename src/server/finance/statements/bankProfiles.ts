@@ -0,0 +1,417 @@
+import { createHash } from 'crypto';
+
+export type BankEncoding = 'utf-8' | 'windows-1250';
+
+export type BankDateFormat = 'YYYY-MM-DD' | 'DD.MM.YYYY' | 'DD-MM-YYYY' | 'DD/MM/YYYY';
+
+/**
+ * How the sign of a transaction is expressed in the file:
+ * - signed: negative amount = outflow
+ * - debit_credit: separate debit/credit columns, both unsigned
+ * - direction_column: unsigned amount plus a column naming the direction
+ */
+export type BankSignConvention =
+  | { type: 'signed' }
+  | { type: 'debit_credit'; debit: string[]; credit: string[] }
+  | { type: 'direction_column'; column: string[]; outValues: string[] };
+
+export interface BankProfileColumns {
+  bookingDate: string[];
+  valueDate?: string[];
+  amount: string[];
+  currency?: string[];
+  description: string[];
+  counterpartyName?: string[];
+  counterpartyAccount?: string[];
+  /** Category assigned by the bank, used instead of 'uncategorised' when present */
+  category?: string[];
+}
+
+export interface BankProfile {
+  id: string;
+  name: string;
+  /** 'auto' picks whichever of ';' and ',' splits the header row into more cells */
+  delimiter: ';' | ',' | '\t' | 'auto';
+  encoding: BankEncoding;
+  /** Lines before the header row, or 'scan' when the bank adds a variable-length preamble */
+  headerOffset: number | 'scan';
+  dateFormat: BankDateFormat;
+  sign: BankSignConvention;
+  defaultCurrency: string;
+  /** Headers that must all be present for the profile to match */
+  detect: string[];
+  columns: BankProfileColumns;
+}
+
+export const BANK_PROFILES: BankProfile[] = [
+  {
+    id: 'mbank',
+    name: 'mBank',
+    delimiter: ';',
+    encoding: 'windows-1250',
+    headerOffset: 'scan',
+    dateFormat: 'YYYY-MM-DD',
+    sign: { type: 'signed' },
+    defaultCurrency: 'PLN',
+    detect: ['#Data operacji', '#Opis operacji'],
+    columns: {
+      bookingDate: ['#Data księgowania', '#Data operacji'],
+      valueDate: ['#Data operacji'],
+      amount: ['#Kwota'],
+      description: ['#Opis operacji', '#Tytuł'],
+      counterpartyName: ['#Nadawca/Odbiorca', '#Rachunek'],
+      counterpartyAccount: ['#Numer konta'],
+      category: ['#Kategoria'],
+    },
+  },
+  {
+    id: 'pko_bp',
+    name: 'PKO BP',
+    delimiter: ',',
+    encoding: 'windows-1250',
+    headerOffset: 0,
+    dateFormat: 'YYYY-MM-DD',
+    sign: { type: 'signed' },
+    defaultCurrency: 'PLN',
+    detect: ['Data operacji', 'Data waluty', 'Typ transakcji', 'Opis transakcji'],
+    columns: {
+      bookingDate: ['Data operacji'],
+      valueDate: ['Data waluty'],
+      amount: ['Kwota'],
+      currency: ['Waluta'],
+      description: ['Opis transakcji', 'Typ transakcji'],
+    },
+  },
+  {
+    id: 'ing',
+    name: 'ING Bank Śląski',
+    delimiter: ';',
+    encoding: 'windows-1250',
+    headerOffset: 'scan',
+    dateFormat: 'YYYY-MM-DD',
+    sign: { type: 'signed' },
+    defaultCurrency: 'PLN',
+    detect: ['Data transakcji', 'Dane kontrahenta', 'Kwota transakcji (waluta rachunku)'],
+    columns: {
+      bookingDate: ['Data księgowania', 'Data transakcji'],
+      valueDate: ['Data transakcji'],
+      amount: ['Kwota transakcji (waluta rachunku)', 'Kwota płatności w walucie'],
+      currency: ['Waluta'],
+      description: ['Tytuł', 'Szczegóły'],
+      counterpartyName: ['Dane kontrahenta'],
+      counterpartyAccount: ['Nr rachunku'],
+    },
+  },
+  {
+    id: 'santander',
+    name: 'Santander Bank Polska',
+    delimiter: ',',
+    encoding: 'windows-1250',
+    headerOffset: 'scan',
+    dateFormat: 'DD-MM-YYYY',
+    sign: { type: 'signed' },
+    defaultCurrency: 'PLN',
+    detect: ['Data operacji', 'Data księgowania', 'Nadawca/Odbiorca', 'Rachunek nadawcy/odbiorcy'],
+    columns: {
+      bookingDate: ['Data księgowania', 'Data operacji'],
+      valueDate: ['Data operacji'],
+      amount: ['Kwota'],
+      currency: ['Waluta'],
+      description: ['Tytuł', 'Opis'],
+      counterpartyName: ['Nadawca/Odbiorca'],
+      counterpartyAccount: ['Rachunek nadawcy/odbiorcy'],
+    },
+  },
+  {
+    id: 'revolut',
+    name: 'Revolut',
+    delimiter: ',',
+    encoding: 'utf-8',
+    headerOffset: 0,
+    dateFormat: 'YYYY-MM-DD',
+    sign: { type: 'signed' },
+    defaultCurrency: 'EUR',
+    detect: ['Type', 'Started Date', 'Completed Date', 'Description', 'Amount'],
+    columns: {
+      bookingDate: ['Completed Date', 'Started Date'],
+      valueDate: ['Started Date'],
+      amount: ['Amount'],
+      currency: ['Currency'],
+      description: ['Description'],
+    },
+  },
+  {
+    id: 'wise',
+    name: 'Wise',
+    delimiter: ',',
+    encoding: 'utf-8',
+    headerOffset: 0,
+    dateFormat: 'DD-MM-YYYY',
+    sign: { type: 'signed' },
+    defaultCurrency: 'EUR',
+    detect: ['TransferWise ID', 'Date', 'Amount', 'Currency'],
+    columns: {
+      bookingDate: ['Date'],
+      amount: ['Amount'],
+      currency: ['Currency'],
+      description: ['Description', 'Payment Reference'],
+      counterpartyName: ['Payee Name', 'Payer Name', 'Merchant'],
+      counterpartyAccount: ['Payee Account Number'],
+    },
+  },
+  {
+    // Debits and credits come in separate columns; debits may or may not carry a minus
+    id: 'millennium',
+    name: 'Bank Millennium',
+    delimiter: ',',
+    encoding: 'utf-8',
+    headerOffset: 0,
+    dateFormat: 'YYYY-MM-DD',
+    sign: { type: 'debit_credit', debit: ['Obciążenia'], credit: ['Uznania'] },
+    defaultCurrency: 'PLN',
+    detect: ['Data transakcji', 'Data rozliczenia', 'Obciążenia', 'Uznania'],
+    columns: {
+      bookingDate: ['Data rozliczenia', 'Data transakcji'],
+      valueDate: ['Data transakcji'],
+      amount: ['Obciążenia', 'Uznania'],
+      currency: ['Waluta'],
+      description: ['Opis', 'Rodzaj transakcji'],
+      counterpartyName: ['Odbiorca/Zleceniodawca'],
+      counterpartyAccount: ['Na konto/Z konta'],
+    },
+  },
+  {
+    // Fallback: the generic Polish column set the importer always understood
+    id: 'generic_pl',
+    name: 'Generic (PL)',
+    delimiter: 'auto',
+    encoding: 'utf-8',
+    headerOffset: 0,
+    dateFormat: 'DD.MM.YYYY',
+    sign: { type: 'signed' },
+    defaultCurrency: 'PLN',
+    detect: [],
+    columns: {
+      bookingDate: ['Data księgowania', 'Data ksiegowania', 'Data operacji', 'Data'],
+      valueDate: ['Data waluty', 'Data wartości', 'Data wartosci'],
+      amount: ['Kwota', 'Kwota operacji', 'Amount'],
+      currency: ['Waluta', 'Currency'],
+      description: ['Opis operacji', 'Tytuł', 'Tytul', 'Opis'],
+      counterpartyName: ['Kontrahent', 'Nadawca/Odbiorca', 'Odbiorca', 'Nadawca', 'Nazwa kontrahenta'],
+      counterpartyAccount: ['Rachunek kontrahenta', 'Numer rachunku', 'Nr rachunku', 'Konto'],
+    },
+  },
+];
+
+/**
+ * Column mapping confirmed by the user in the import wizard for a file no profile recognised.
+ * Saved per organisation and reused for the next file with the same header signature.
+ */
+export interface ColumnMapping {
+  headerSignature: string;
+  delimiter: ';' | ',' | '\t';
+  dateFormat: BankDateFormat;
+  defaultCurrency: string;
+  columns: {
+    bookingDate: string;
+    valueDate?: string | null;
+    amount: string;
+    currency?: string | null;
+    description: string;
+    counterpartyName?: string | null;
+    counterpartyAccount?: string | null;
+  };
+}
+
+/**
+ * Stable signature of a header row: sha256 of the normalised, non-empty header names
+ */
+export function headerSignature(headers: string[]): string {
+  const normalised = headers.map(normaliseHeader).filter(h => h !== '');
+  return createHash('sha256').update(normalised.join('|')).digest('hex');
+}
+
+/**
+ * Build a one-off profile from a user-confirmed column mapping
+ */
+export function profileFromMapping(mapping: ColumnMapping): BankProfile {
+  const one = (header: string | null | undefined) => (header ? [header] : []);
+  return {
+    id: 'custom',
+    name: 'Custom mapping',
+    delimiter: mapping.delimiter,
+    encoding: 'utf-8',
+    headerOffset: 'scan',
+    dateFormat: mapping.dateFormat,
+    sign: { type: 'signed' },
+    defaultCurrency: mapping.defaultCurrency,
+    detect: [],
+    columns: {
+      bookingDate: one(mapping.columns.bookingDate),
+      valueDate: one(mapping.columns.valueDate),
+      amount: one(mapping.columns.amount),
+      currency: one(mapping.columns.currency),
+      description: one(mapping.columns.description),
+      counterpartyName: one(mapping.columns.counterpartyName),
+      counterpartyAccount: one(mapping.columns.counterpartyAccount),
+    },
+  };
+}
+
+/** How many leading lines are searched for a header when headerOffset is 'scan' */
+const HEADER_SCAN_LIMIT = 40;
+
+export function getBankProfile(id: string): BankProfile | null {
+  return BANK_PROFILES.find(p => p.id === id) ?? null;
+}
+
+/**
+ * Normalise a header cell for comparison (case, quotes, whitespace, BOM)
+ */
+export function normaliseHeader(header: string): string {
+  return header
+    .replace(/^\uFEFF/, '')
+    .replace(/^"|"$/g, '')
+    .replace(/\u00A0/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .toLowerCase();
+}
+
+/**
+ * Resolve the delimiter a profile uses for a given header line
+ */
+export function resolveDelimiter(profile: BankProfile, headerLine: string): string {
+  if (profile.delimiter !== 'auto') return profile.delimiter;
+  return headerLine.split(';').length > headerLine.split(',').length ? ';' : ',';
+}
+
+/**
+ * Split a single CSV line into raw cells (quote-aware, used only for header detection)
+ */
+export function splitHeaderLine(line: string, delimiter: string): string[] {
+  const cells: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (const ch of line) {
+    if (ch === '"') {
+      inQuotes = !inQuotes;
+    } else if (ch === delimiter && !inQuotes) {
+      cells.push(current);
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  cells.push(current);
+
+  return cells.map(c => c.trim());
+}
+
+export interface DetectedBankProfile {
+  profile: BankProfile;
+  headerIndex: number;
+  delimiter: string;
+  headers: string[];
+}
+
+/**
+ * Find the header row matching a saved column mapping (by header signature)
+ */
+export function detectMappedProfile(lines: string[], mappings: ColumnMapping[]): DetectedBankProfile | null {
+  if (mappings.length === 0) return null;
+
+  for (const [index, line] of lines.slice(0, HEADER_SCAN_LIMIT).entries()) {
+    for (const mapping of mappings) {
+      const headers = splitHeaderLine(line, mapping.delimiter);
+      if (headerSignature(headers) === mapping.headerSignature) {
+        return { profile: profileFromMapping(mapping), headerIndex: index, delimiter: mapping.delimiter, headers };
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Detect bank profile from the header row.
+ * Bank-specific profiles are tried first; generic_pl is the last resort.
+ */
+export function detectBankProfile(lines: string[], profiles: BankProfile[] = BANK_PROFILES): DetectedBankProfile | null {
+  for (const profile of profiles) {
+    const candidates =
+      profile.headerOffset === 'scan'
+        ? lines.slice(0, HEADER_SCAN_LIMIT).map((line, index) => ({ line, index }))
+        : [{ line: lines[profile.headerOffset] ?? '', index: profile.headerOffset }];
+
+    for (const { line, index } of candidates) {
+      const headers = splitHeaderLine(line, resolveDelimiter(profile, line));
+      const normalised = new Set(headers.map(normaliseHeader));
+      if (profile.detect.every(h => normalised.has(normaliseHeader(h)))) {
+        return { profile, headerIndex: index, delimiter: resolveDelimiter(profile, line), headers };
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Decode raw statement bytes: strict UTF-8 first, CP1250 when that fails
+ * (mBank, PKO BP, ING and Santander still export CSV in CP1250)
+ */
+export function decodeStatement(bytes: Uint8Array): { text: string; encoding: BankEncoding } {
+  try {
+    return { text: new TextDecoder('utf-8', { fatal: true }).decode(bytes), encoding: 'utf-8' };
+  } catch {
+    return { text: new TextDecoder('windows-1250').decode(bytes), encoding: 'windows-1250' };
+  }
+}
+
+/**
+ * Parse a date string in the profile format to YYYY-MM-DD (time part is dropped)
+ */
+export function parseProfileDate(input: string | null, format: BankDateFormat): string | null {
+  if (!input) return null;
+  const s = input.trim().split(/[ T]/)[0];
+
+  // ISO dates are accepted regardless of profile (several banks switched formats over time)
+  const iso = /^(\d{4})-(\d{1,2})-(\d{1,2})$/.exec(s);
+  if (iso) {
+    return `${iso[1]}-${iso[2].padStart(2, '0')}-${iso[3].padStart(2, '0')}`;
+  }
+
+  if (format === 'YYYY-MM-DD') return null;
+
+  const separator = format.charAt(2);
+  const parts = s.split(separator);
+  if (parts.length !== 3) return null;
+
+  const [day, month, year] = parts;
+  if (!/^\d{1,2}$/.test(day) || !/^\d{1,2}$/.test(month) || !/^\d{4}$/.test(year)) return null;
+
+  return `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+}
+
+/**
+ * Parse an amount such as "-1 234,56 PLN" or "1,234.56" to a number
+ */
+export function parseProfileAmount(input: string | null): number | null {
+  if (!input) return null;
+  let s = input
+    .replace(/\u00A0/g, ' ')
+    .replace(/\s+/g, '')
+    .replace(/[A-Z]{3}$/i, '');
+
+  // Both separators present: the last one is the decimal separator
+  if (s.includes(',') && s.includes('.')) {
+    s = s.lastIndexOf(',') > s.lastIndexOf('.') ? s.replace(/\./g, '').replace(',', '.') : s.replace(/,/g, '');
+  } else {
+    s = s.replace(',', '.');
+  }
+
+  s = s.replace(/[^0-9.\-]/g, '');
+  const n = Number.parseFloat(s);
+  return Number.isFinite(n) ? n : null;
+}
@@ -0,0 +1,168 @@
+import { XMLParser } from 'fast-xml-parser';
+import { checkStatementBalances, StatementBalances } from './balances';
+import type { InvalidStatementRow, ParseStatementResult, StatementRow } from './types';
+
+/**
+ * Quick check used by format detection
+ */
+export function looksLikeCamt053(text: string): boolean {
+  return /<\s*(\w+:)?BkToCstmrStmt[\s>]/.test(text);
+}
+
+const parser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '@_',
+  removeNSPrefix: true,
+  parseTagValue: false, // keep IBANs, references and amounts as strings
+  isArray: name => ['Stmt', 'Bal', 'Ntry', 'TxDtls', 'Ustrd'].includes(name),
+});
+
+type XmlNode = Record<string, unknown>;
+
+/** Element at a path below a node; undefined when a step is missing */
+function at(node: unknown, ...path: string[]): unknown {
+  let current = node;
+  for (const name of path) {
+    current = current && typeof current === 'object' ? (current as XmlNode)[name] : undefined;
+  }
+  return current;
+}
+
+/** Repeated elements (the names listed in isArray) */
+function list(node: unknown, ...path: string[]): unknown[] {
+  const value = at(node, ...path);
+  return Array.isArray(value) ? value : [];
+}
+
+function text(node: unknown): string | null {
+  if (node == null) return null;
+  if (typeof node === 'object') {
+    const value = (node as XmlNode)['#text'];
+    return value == null ? null : String(value).trim();
+  }
+  return String(node).trim() || null;
+}
+
+function amountOf(node: unknown): { amount: number; currency: string | null } | null {
+  const value = text(at(node, 'Amt'));
+  if (!value) return null;
+  const amount = Number.parseFloat(value);
+  if (!Number.isFinite(amount)) return null;
+  return { amount, currency: text(at(node, 'Amt', '@_Ccy')) };
+}
+
+function signed(node: unknown, amount: number): number {
+  return text(at(node, 'CdtDbtInd')) === 'DBIT' ? -amount : amount;
+}
+
+function dateOf(node: unknown): string | null {
+  const value = text(at(node, 'Dt')) ?? text(at(node, 'DtTm'));
+  return value ? value.slice(0, 10) : null;
+}
+
+function accountOf(node: unknown): string | null {
+  return text(at(node, 'Id', 'IBAN')) ?? text(at(node, 'Id', 'Othr', 'Id'));
+}
+
+/**
+ * Parse ISO 20022 CAMT.053 (BkToCstmrStmt). Every Stmt must balance:
+ * OPBD (or PRCD) + booked entries = CLBD.
+ */
+export function parseCamt053Statement(xml: string): ParseStatementResult {
+  let doc: unknown;
+  try {
+    doc = parser.parse(xml);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { ok: false, step: 'parse', error: `Invalid CAMT.053 XML: ${message}` };
+  }
+
+  const statementNodes = list(doc, 'Document', 'BkToCstmrStmt', 'Stmt');
+  if (statementNodes.length === 0) {
+    return { ok: false, step: 'parse', error: 'No CAMT.053 statements (Stmt) found' };
+  }
+
+  const statements: StatementBalances[] = [];
+  const invalidRows: InvalidStatementRow[] = [];
+  let entryIndex = 0;
+
+  for (const stmt of statementNodes) {
+    const balances = list(stmt, 'Bal');
+    const balanceOf = (codes: string[]) => {
+      const bal = balances.find(b => codes.includes(text(at(b, 'Tp', 'CdOrPrtry', 'Cd')) ?? ''));
+      const parsed = bal ? amountOf(bal) : null;
+      return bal && parsed ? { amount: signed(bal, parsed.amount), currency: parsed.currency } : null;
+    };
+
+    const opening = balanceOf(['OPBD', 'PRCD']);
+    const closing = balanceOf(['CLBD']);
+    const statementCurrency = text(at(stmt, 'Acct', 'Ccy')) ?? opening?.currency ?? 'PLN';
+
+    const statement: StatementBalances = {
+      reference: text(at(stmt, 'Id')) ?? String(statements.length + 1),
+      currency: statementCurrency,
+      opening: opening?.amount ?? null,
+      closing: closing?.amount ?? null,
+      rows: [],
+    };
+    statements.push(statement);
+
+    for (const entry of list(stmt, 'Ntry')) {
+      const index = entryIndex++;
+      const status = text(at(entry, 'Sts', 'Cd')) ?? text(at(entry, 'Sts'));
+      // Pending entries are not part of booked balances
+      if (status && status !== 'BOOK') continue;
+
+      const tx = list(entry, 'NtryDtls', 'TxDtls')[0] ?? {};
+      const raw: Record<string, string> = {
+        AcctSvcrRef: text(at(entry, 'AcctSvcrRef')) ?? '',
+        EndToEndId: text(at(tx, 'Refs', 'EndToEndId')) ?? '',
+      };
+
+      const amount = amountOf(entry);
+      const bookingDate = dateOf(at(entry, 'BookgDt'));
+      if (!amount || !bookingDate) {
+        invalidRows.push({ index, reason: !amount ? 'Missing entry amount' : 'Missing booking date', raw });
+        continue;
+      }
+
+      const isDebit = text(at(entry, 'CdtDbtInd')) === 'DBIT';
+      // For outgoing payments the counterparty is the creditor, for incoming the debtor
+      const party = at(tx, 'RltdPties', isDebit ? 'Cdtr' : 'Dbtr');
+      const partyAccount = at(tx, 'RltdPties', isDebit ? 'CdtrAcct' : 'DbtrAcct');
+      const remittance = list(tx, 'RmtInf', 'Ustrd').map(text).filter(Boolean).join(' ');
+
+      const row: StatementRow = {
+        bookingDate,
+        valueDate: dateOf(at(entry, 'ValDt')),
+        amount: signed(entry, amount.amount),
+        currency: amount.currency ?? statementCurrency,
+        description: remittance || text(at(entry, 'AddtlNtryInf')) || '',
+        counterpartyName: text(at(party, 'Nm')) ?? text(at(party, 'Pty', 'Nm')),
+        counterpartyAccount: accountOf(partyAccount),
+        category: null,
+        bankReference: raw.AcctSvcrRef || null,
+        raw,
+      };
+      statement.rows.push(row);
+    }
+  }
+
+  for (const statement of statements) {
+    const balanceError = checkStatementBalances(statement);
+    if (balanceError) {
+      return { ok: false, step: 'balance_mismatch', error: balanceError };
+    }
+  }
+
+  const rows = statements.flatMap(s => s.rows);
+
+  return {
+    ok: true,
+    format: 'camt053',
+    profile: 'camt053',
+    parsed: rows.length + invalidRows.length,
+    rows,
+    invalidRows,
+  };
+}
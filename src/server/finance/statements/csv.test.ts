@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import type { BankProfile } from './bankProfiles';
+import { parseCsvStatement } from './csv';
+
+const parseRows = (result: ReturnType<typeof parseCsvStatement>) => {
+  if (!result.ok) throw new Error(result.error);
+  return result;
+};
+
+describe('debit / credit columns', () => {
+  const millennium = [
+    'Numer rachunku/karty,Data transakcji,Data rozliczenia,Rodzaj transakcji,Na konto/Z konta,Odbiorca/Zleceniodawca,Opis,Obciążenia,Uznania,Saldo,Waluta',
+    'PL61109010140000071219812874,2026-03-02,2026-03-03,PRZELEW WYCHODZĄCY,PL27114020040000300201355387,Biuro Rachunkowe,Faktura 12/2026,-1230.00,,8770.00,PLN',
+    'PL61109010140000071219812874,2026-03-04,2026-03-04,PRZELEW PRZYCHODZĄCY,PL27114020040000300201355387,Klient Sp. z o.o.,Zapłata FV 7/2026,,2460.00,11230.00,PLN',
+    'PL61109010140000071219812874,2026-03-05,2026-03-05,OPŁATA,,,Opłata za kartę,15.00,,11215.00,PLN',
+  ].join('\n');
+
+  it('detects Bank Millennium', () => {
+    expect(parseRows(parseCsvStatement(millennium)).profile).toBe('millennium');
+  });
+
+  it('signs debits negative and credits positive, with or without a minus in the file', () => {
+    const { rows, invalidRows } = parseRows(parseCsvStatement(millennium));
+    expect(invalidRows).toEqual([]);
+    expect(rows.map(row => row.amount)).toEqual([-1230, 2460, -15]);
+  });
+
+  it('maps dates, counterparty and description', () => {
+    const [first] = parseRows(parseCsvStatement(millennium)).rows;
+    expect(first).toMatchObject({
+      bookingDate: '2026-03-03',
+      valueDate: '2026-03-02',
+      currency: 'PLN',
+      description: 'Faktura 12/2026',
+      counterpartyName: 'Biuro Rachunkowe',
+      counterpartyAccount: 'PL27114020040000300201355387',
+    });
+  });
+
+  it('rejects a row with neither a debit nor a credit', () => {
+    const text = `${millennium.split('\n')[0]}\nPL61,2026-03-06,2026-03-06,INFO,,,Brak kwoty,,,11215.00,PLN`;
+    const { rows, invalidRows } = parseRows(parseCsvStatement(text));
+    expect(rows).toEqual([]);
+    expect(invalidRows).toHaveLength(1);
+  });
+});
+
+describe('direction column', () => {
+  const profile: BankProfile = {
+    id: 'direction_fixture',
+    name: 'Direction fixture',
+    delimiter: ';',
+    encoding: 'utf-8',
+    headerOffset: 0,
+    dateFormat: 'DD.MM.YYYY',
+    sign: { type: 'direction_column', column: ['Strona'], outValues: ['Wn', 'Obciążenie'] },
+    defaultCurrency: 'PLN',
+    detect: ['Data', 'Kwota', 'Strona'],
+    columns: {
+      bookingDate: ['Data'],
+      amount: ['Kwota'],
+      currency: ['Waluta'],
+      description: ['Tytuł'],
+    },
+  };
+  const text = [
+    'Data;Kwota;Waluta;Strona;Tytuł',
+    '02.03.2026;1 230,00;PLN;Wn;Faktura 12/2026',
+    '04.03.2026;2 460,00;EUR;Ma;Zapłata FV 7/2026',
+    '05.03.2026;-15,00;PLN;obciążenie;Opłata za kartę',
+  ].join('\n');
+
+  it('signs the unsigned amount from the direction value, case-insensitively', () => {
+    const { rows } = parseRows(parseCsvStatement(text, [], [profile]));
+    expect(rows.map(row => [row.amount, row.currency])).toEqual([
+      [-1230, 'PLN'],
+      [2460, 'EUR'],
+      [-15, 'PLN'],
+    ]);
+  });
+
+  it('treats any value outside outValues as incoming', () => {
+    const { rows } = parseRows(parseCsvStatement('Data;Kwota;Strona;Tytuł\n02.03.2026;-50,00;;Zwrot', [], [profile]));
+    expect(rows[0].amount).toBe(50);
+  });
+});
@@ -0,0 +1,157 @@
+import { parse } from 'csv-parse/sync';
+import {
+  BANK_PROFILES,
+  BankProfile,
+  ColumnMapping,
+  detectBankProfile,
+  detectMappedProfile,
+  headerSignature,
+  normaliseHeader,
+  parseProfileAmount,
+  parseProfileDate,
+} from './bankProfiles';
+import type { InvalidStatementRow, ParseStatementResult, StatementRow } from './types';
+
+/**
+ * Pick first non-empty value from row using multiple possible headers.
+ * Headers are compared normalised, so "#Kwota" in the profile matches "#Kwota " in the file.
+ */
+function pick(row: Record<string, string>, keyMap: Map<string, string>, keys: string[] | undefined): string | null {
+  for (const key of keys ?? []) {
+    const header = keyMap.get(normaliseHeader(key));
+    const value = header ? row[header]?.trim() : undefined;
+    if (value) return value;
+  }
+  return null;
+}
+
+/**
+ * Resolve signed amount according to the profile sign convention
+ */
+function resolveSignedAmount(
+  row: Record<string, string>,
+  keyMap: Map<string, string>,
+  profile: BankProfile
+): { amountStr: string | null; amount: number | null } {
+  const sign = profile.sign;
+
+  if (sign.type === 'debit_credit') {
+    const debitStr = pick(row, keyMap, sign.debit);
+    const creditStr = pick(row, keyMap, sign.credit);
+    const debit = parseProfileAmount(debitStr);
+    const credit = parseProfileAmount(creditStr);
+    if (debit) return { amountStr: debitStr, amount: -Math.abs(debit) };
+    if (credit) return { amountStr: creditStr, amount: Math.abs(credit) };
+    return { amountStr: debitStr ?? creditStr, amount: null };
+  }
+
+  const amountStr = pick(row, keyMap, profile.columns.amount);
+  const amount = parseProfileAmount(amountStr);
+  if (amount == null || sign.type === 'signed') return { amountStr, amount };
+
+  const directionStr = (pick(row, keyMap, sign.column) ?? '').toLowerCase();
+  const isOut = sign.outValues.some(v => v.toLowerCase() === directionStr);
+  return { amountStr, amount: isOut ? -Math.abs(amount) : Math.abs(amount) };
+}
+
+/**
+ * Parse a CSV statement: detect the bank profile from the header row, then map rows.
+ * Saved column mappings win over built-in profiles, since the user confirmed them explicitly.
+ */
+export function parseCsvStatement(
+  text: string,
+  mappings: ColumnMapping[] = [],
+  profiles: BankProfile[] = BANK_PROFILES
+): ParseStatementResult {
+  const lines = text.replace(/^\uFEFF/, '').split(/\r\n|\r|\n/);
+  const detected = detectMappedProfile(lines, mappings) ?? detectBankProfile(lines, profiles);
+
+  if (!detected) {
+    return { ok: false, step: 'detect_profile', error: 'Could not detect bank profile from header row' };
+  }
+
+  const { profile, headerIndex, delimiter, headers } = detected;
+  console.info('[BANK_STATEMENT] profile', { profile: profile.id, headerIndex, delimiter });
+
+  // Parse CSV body starting at the detected header row
+  const records: Record<string, string>[] = parse(lines.slice(headerIndex).join('\n'), {
+    columns: true,
+    skip_empty_lines: true,
+    bom: true,
+    trim: true,
+    delimiter,
+    relax_quotes: true,
+    relax_column_count: true,
+  });
+
+  console.info('[BANK_STATEMENT] parsed', {
+    rows: records.length,
+    headers: Object.keys(records[0] ?? {}),
+  });
+
+  const keyMap = new Map<string, string>();
+  for (const header of Object.keys(records[0] ?? {})) {
+    keyMap.set(normaliseHeader(header), header);
+  }
+
+  const rows: StatementRow[] = [];
+  const invalidRows: InvalidStatementRow[] = [];
+  const columns = profile.columns;
+
+  records.forEach((row, index) => {
+    const bookingDateStr = pick(row, keyMap, columns.bookingDate);
+    const bookingDate = parseProfileDate(bookingDateStr, profile.dateFormat);
+    const valueDate = parseProfileDate(pick(row, keyMap, columns.valueDate), profile.dateFormat);
+    const { amountStr, amount } = resolveSignedAmount(row, keyMap, profile);
+
+    if (!bookingDate) {
+      invalidRows.push({
+        index,
+        reason: bookingDateStr ? `Unparseable booking date "${bookingDateStr}"` : 'Missing booking date',
+        raw: row,
+      });
+      return;
+    }
+
+    if (amount == null || amount === 0) {
+      invalidRows.push({
+        index,
+        reason: amountStr ? `Unparseable or zero amount "${amountStr}"` : 'Missing amount',
+        raw: row,
+      });
+      return;
+    }
+
+    // Currency column first, then a trailing ISO code on the amount ("-12,50 PLN"), then profile default
+    const currency = (
+      pick(row, keyMap, columns.currency) ||
+      amountStr?.match(/([A-Z]{3})\s*$/i)?.[1] ||
+      profile.defaultCurrency
+    ).toUpperCase();
+
+    rows.push({
+      bookingDate,
+      valueDate,
+      amount,
+      currency,
+      description: pick(row, keyMap, columns.description) || '',
+      counterpartyName: pick(row, keyMap, columns.counterpartyName),
+      counterpartyAccount: pick(row, keyMap, columns.counterpartyAccount),
+      category: pick(row, keyMap, columns.category),
+      bankReference: null,
+      raw: row,
+    });
+  });
+
+  return {
+    ok: true,
+    format: 'csv',
+    profile: profile.id,
+    headers: headers.filter(h => h !== ''),
+    headerSignature: headerSignature(headers),
+    delimiter,
+    parsed: records.length,
+    rows,
+    invalidRows,
+  };
+}
@@ -0,0 +1,30 @@
+import { ColumnMapping, decodeStatement } from './bankProfiles';
+import { looksLikeCamt053, parseCamt053Statement } from './camt053';
+import { parseCsvStatement } from './csv';
+import { looksLikeMt940, parseMt940Statement } from './mt940';
+import type { ParseStatementResult } from './types';
+
+export type { ColumnMapping } from './bankProfiles';
+export type { ParseStatementResult, ParsedStatement, StatementFormat, StatementRow, InvalidStatementRow } from './types';
+
+/**
+ * Decode a bank statement file and parse it with the matching format parser
+ * (CAMT.053 XML, MT940, otherwise CSV with saved mappings / bank profile detection)
+ */
+export function parseStatement(
+  bytes: Uint8Array,
+  options: { mappings?: ColumnMapping[] } = {}
+): ParseStatementResult {
+  const { text, encoding } = decodeStatement(bytes);
+  console.info('[BANK_STATEMENT] file preview', { encoding, preview: text.slice(0, 200) });
+
+  if (looksLikeCamt053(text)) {
+    return parseCamt053Statement(text);
+  }
+
+  if (looksLikeMt940(text)) {
+    return parseMt940Statement(text);
+  }
+
+  return parseCsvStatement(text, options.mappings);
+}
@@ -0,0 +1,211 @@
+import { checkStatementBalances, StatementBalances } from './balances';
+import type { InvalidStatementRow, ParseStatementResult, StatementRow } from './types';
+
+interface Mt940Field {
+  tag: string;
+  value: string;
+}
+
+/**
+ * Quick check used by format detection: MT940 always has a :20: reference and a :60F: opening balance
+ */
+export function looksLikeMt940(text: string): boolean {
+  return /(^|\n):20:/.test(text) && /(^|\n):60[FM]:/.test(text);
+}
+
+/**
+ * Split MT940 text into tagged fields; continuation lines are kept with their tag
+ */
+function tokenise(text: string): Mt940Field[] {
+  const body = text
+    .replace(/\{[1-3]:[^}]*\}/g, '') // SWIFT basic/application/user headers
+    .replace(/\{4:/g, '')
+    .replace(/-\}/g, '');
+
+  const fields: Mt940Field[] = [];
+  for (const line of body.split(/\r\n|\r|\n/)) {
+    const m = /^:(\d{2}[A-Z]?):(.*)$/.exec(line);
+    if (m) {
+      fields.push({ tag: m[1], value: m[2] });
+    } else if (fields.length > 0 && line.trim() !== '' && line.trim() !== '-') {
+      fields[fields.length - 1].value += `\n${line}`;
+    }
+  }
+  return fields;
+}
+
+function parseAmount(value: string): number {
+  return Number.parseFloat(value.replace(',', '.'));
+}
+
+/**
+ * YYMMDD -> YYYY-MM-DD
+ */
+function parseShortDate(value: string): string {
+  return `20${value.slice(0, 2)}-${value.slice(2, 4)}-${value.slice(4, 6)}`;
+}
+
+/**
+ * :60F: / :62F: balance, e.g. "C231231PLN1234,56"
+ */
+function parseBalance(value: string): { amount: number; currency: string } | null {
+  const m = /^([CD])(\d{6})([A-Z]{3})([\d,]+)/.exec(value.trim());
+  if (!m) return null;
+  const amount = parseAmount(m[4]);
+  return { amount: m[1] === 'D' ? -amount : amount, currency: m[3] };
+}
+
+/**
+ * :86: information to account owner. Polish banks use "~NN" subfields (ZBP standard),
+ * German ones "?NN", some "^NN"; anything else is treated as free text.
+ */
+function parseInformation(value: string): { description: string; name: string | null; account: string | null } {
+  const separator = ['~', '?', '^'].find(sep => new RegExp(`\\${sep}\\d{2}`).test(value));
+  if (!separator) {
+    return { description: value.replace(/\n/g, ' ').trim(), name: null, account: null };
+  }
+
+  const subfields = new Map<string, string>();
+  const joined = value.replace(/\n/g, '');
+  const parts = joined.split(new RegExp(`\\${separator}(?=\\d{2})`)).slice(1);
+  for (const part of parts) {
+    const code = part.slice(0, 2);
+    subfields.set(code, (subfields.get(code) ?? '') + part.slice(2));
+  }
+
+  const join = (codes: string[]) =>
+    codes
+      .map(c => subfields.get(c)?.trim())
+      .filter(Boolean)
+      .join(' ')
+      .trim();
+
+  return {
+    description: join(['20', '21', '22', '23', '24', '25', '26']) || join(['00']),
+    name: join(['27', '28', '32', '33']) || null,
+    account: subfields.get('38')?.trim() || subfields.get('31')?.trim() || null,
+  };
+}
+
+/**
+ * Parse SWIFT MT940. Each :20: block is one statement and must balance:
+ * :60F: opening + :61: entries = :62F: closing.
+ */
+export function parseMt940Statement(text: string): ParseStatementResult {
+  const fields = tokenise(text);
+  const statements: StatementBalances[] = [];
+  const invalidRows: InvalidStatementRow[] = [];
+  let current: StatementBalances | null = null;
+  let lastRow: StatementRow | null = null;
+  let entryIndex = 0;
+
+  for (const field of fields) {
+    switch (field.tag) {
+      case '20':
+        current = { reference: field.value.trim(), currency: 'PLN', opening: null, closing: null, rows: [] };
+        statements.push(current);
+        lastRow = null;
+        break;
+
+      case '60F':
+      case '60M': {
+        const balance = parseBalance(field.value);
+        if (current && balance) {
+          current.opening = balance.amount;
+          current.currency = balance.currency;
+        }
+        break;
+      }
+
+      case '62F':
+      case '62M': {
+        const balance = parseBalance(field.value);
+        if (current && balance) current.closing = balance.amount;
+        break;
+      }
+
+      case '61': {
+        const index = entryIndex++;
+        const raw = { ':61:': field.value };
+        const m = /^(\d{6})(\d{4})?(R?[CD])([A-Z])?(\d+,\d*)/.exec(field.value);
+        if (!current || !m) {
+          invalidRows.push({ index, reason: 'Malformed :61: statement line', raw });
+          lastRow = null;
+          break;
+        }
+
+        const valueDate = parseShortDate(m[1]);
+        let bookingDate = valueDate;
+        if (m[2]) {
+          // Entry date has no year: take it from the value date, adjusting across New Year
+          let year = Number(valueDate.slice(0, 4));
+          const valueMonth = Number(valueDate.slice(5, 7));
+          const entryMonth = Number(m[2].slice(0, 2));
+          if (valueMonth === 12 && entryMonth === 1) year += 1;
+          if (valueMonth === 1 && entryMonth === 12) year -= 1;
+          bookingDate = `${year}-${m[2].slice(0, 2)}-${m[2].slice(2, 4)}`;
+        }
+
+        // RC (reversal of credit) is a debit, RD (reversal of debit) a credit
+        const isDebit = m[3] === 'D' || m[3] === 'RC';
+        const amount = parseAmount(m[5]);
+
+        // After the amount: transaction type (N + 3 characters), customer reference, //bank reference
+        const refs = /^[NFS][A-Z0-9]{3}([^/\r\n]*)(?:\/\/([^\r\n]*))?/.exec(field.value.slice(m[0].length));
+        const customerRef = refs?.[1]?.trim().replace(/^NONREF$/, '') || '';
+        const bankRef = refs?.[2]?.trim() || '';
+
+        lastRow = {
+          bookingDate,
+          valueDate,
+          amount: isDebit ? -amount : amount,
+          currency: current.currency,
+          description: '',
+          counterpartyName: null,
+          counterpartyAccount: null,
+          category: null,
+          bankReference: customerRef || bankRef ? `${customerRef}//${bankRef}` : null,
+          raw,
+        };
+        current.rows.push(lastRow);
+        break;
+      }
+
+      case '86':
+        if (lastRow) {
+          const info = parseInformation(field.value);
+          lastRow.description = info.description;
+          lastRow.counterpartyName = info.name;
+          lastRow.counterpartyAccount = info.account;
+          lastRow.raw[':86:'] = field.value;
+          lastRow = null;
+        }
+        break;
+
+      default:
+        break;
+    }
+  }
+
+  if (statements.length === 0) {
+    return { ok: false, step: 'parse', error: 'No MT940 statements (:20:) found' };
+  }
+
+  for (const statement of statements) {
+    const balanceError = checkStatementBalances(statement);
+    if (balanceError) {
+      return { ok: false, step: 'balance_mismatch', error: balanceError };
+    }
+  }
+
+  const rows = statements.flatMap(s => s.rows);
+
+  return {
+    ok: true,
+    format: 'mt940',
+    profile: 'mt940',
+    parsed: rows.length + invalidRows.length,
+    rows,
+    invalidRows,
+  };
+}
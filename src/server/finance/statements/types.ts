@@ -0,0 +1,43 @@
+export type StatementFormat = 'csv' | 'mt940' | 'camt053';
+
+/**
+ * One booked entry from a bank statement, independent of the file format.
+ * amount is signed: negative = outflow.
+ */
+export interface StatementRow {
+  bookingDate: string;
+  valueDate: string | null;
+  amount: number;
+  currency: string;
+  description: string;
+  counterpartyName: string | null;
+  counterpartyAccount: string | null;
+  /** Category assigned by the bank (CSV profiles only) */
+  category: string | null;
+  /** The bank's own entry reference (CAMT.053 AcctSvcrRef, MT940 :61: references); CSV has none */
+  bankReference: string | null;
+  raw: Record<string, string>;
+}
+
+export interface InvalidStatementRow {
+  index: number;
+  reason: string;
+  raw: Record<string, string>;
+}
+
+export interface ParsedStatement {
+  format: StatementFormat;
+  /** Bank profile id for CSV, format name for MT940 / CAMT.053 */
+  profile: string;
+  /** CSV only: header row used for mapping, and its signature for saved column mappings */
+  headers?: string[];
+  headerSignature?: string;
+  delimiter?: string;
+  parsed: number;
+  rows: StatementRow[];
+  invalidRows: InvalidStatementRow[];
+}
+
+export type ParseStatementResult =
+  | ({ ok: true } & ParsedStatement)
+  | { ok: false; step: string; error: string };
@@ -0,0 +1,70 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { parseReceiptText, type ReceiptExtraction } from '@/lib/trips/receiptParser';
+import { extractTextFromFile } from '../ocr/extractText';
+
+export interface TripReceiptExtraction {
+  evidenceId: string;
+  tripItemId: string | null;
+  fields: ReceiptExtraction;
+  method: 'ocr' | 'pdf_text';
+}
+
+/**
+ * OCR a trip evidence file and store the parsed receipt fields on the evidence row.
+ * Nothing is written to the trip item: the user confirms the fields first.
+ */
+export async function extractTripReceipt(
+  supabase: SupabaseClient,
+  evidenceId: string
+): Promise<TripReceiptExtraction> {
+  const { data: evidence, error } = await supabase
+    .from('finance_trip_evidence')
+    .select('id, trip_item_id, mime_type, storage_bucket, storage_path')
+    .eq('id', evidenceId)
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to load evidence: ${error.message}`);
+  if (!evidence) throw new Error('Evidence not found');
+  if (!evidence.storage_path) throw new Error('Evidence file has not been uploaded');
+
+  await supabase
+    .from('finance_trip_evidence')
+    .update({ ocr_status: 'processing', ocr_error: null })
+    .eq('id', evidenceId);
+
+  try {
+    const { data: file, error: downloadError } = await supabase.storage
+      .from(evidence.storage_bucket)
+      .download(evidence.storage_path);
+    if (downloadError || !file) {
+      throw new Error(downloadError?.message || 'Failed to download evidence file');
+    }
+
+    const extracted = await extractTextFromFile(Buffer.from(await file.arrayBuffer()), evidence.mime_type);
+    const fields = parseReceiptText(extracted.text, extracted.confidence);
+
+    const { error: updateError } = await supabase
+      .from('finance_trip_evidence')
+      .update({
+        ocr_status: 'done',
+        ocr_text: extracted.text,
+        ocr_fields: fields,
+        ocr_confidence: fields.confidence,
+        ocr_processed_at: new Date().toISOString(),
+      })
+      .eq('id', evidenceId);
+    if (updateError) throw new Error(`Failed to save extraction: ${updateError.message}`);
+
+    return { evidenceId, tripItemId: evidence.trip_item_id, fields, method: extracted.method };
+  } catch (extractError) {
+    await supabase
+      .from('finance_trip_evidence')
+      .update({
+        ocr_status: 'failed',
+        ocr_error: extractError instanceof Error ? extractError.message : 'Unknown error',
+        ocr_processed_at: new Date().toISOString(),
+      })
+      .eq('id', evidenceId);
+    throw extractError;
+  }
+}
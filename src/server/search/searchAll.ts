@@ -0,0 +1,52 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { MIN_SEARCH_QUERY_LENGTH, SearchFilters, SearchResult, SearchEntityType } from '@/lib/search';
+
+const DEFAULT_LIMIT = 30;
+const MAX_LIMIT = 100;
+
+interface SearchRow {
+  entity_type: SearchEntityType;
+  entity_id: string;
+  organisation_id: string | null;
+  title: string;
+  subtitle: string | null;
+  snippet: string | null;
+  occurred_at: string | null;
+  metadata: Record<string, string | null> | null;
+  rank: number;
+}
+
+/**
+ * Ranked full-text search over the search_index table (see migration-add-search-index.sql)
+ */
+export async function searchAll(supabase: SupabaseClient, filters: SearchFilters): Promise<SearchResult[]> {
+  const query = filters.query.trim();
+  if (query.length < MIN_SEARCH_QUERY_LENGTH) {
+    return [];
+  }
+
+  const { data, error } = await supabase.rpc('search_all', {
+    p_query: query,
+    p_types: filters.types && filters.types.length > 0 ? filters.types : null,
+    p_organisation_id: filters.organisationId || null,
+    p_date_from: filters.dateFrom || null,
+    p_date_to: filters.dateTo || null,
+    p_limit: Math.min(filters.limit || DEFAULT_LIMIT, MAX_LIMIT),
+  });
+
+  if (error) {
+    throw new Error(`Search failed: ${error.message}`);
+  }
+
+  return ((data || []) as SearchRow[]).map(row => ({
+    type: row.entity_type,
+    id: row.entity_id,
+    title: row.title,
+    subtitle: row.subtitle,
+    snippet: row.snippet,
+    organisationId: row.organisation_id,
+    date: row.occurred_at,
+    metadata: row.metadata || {},
+    rank: row.rank,
+  }));
+}